@@ -0,0 +1,56 @@
+-- Migration: Pricing rules
+-- Description: Move coupon and welcome-offer discounts out of PricingService into data.
+-- pricing_config keeps the official base price per class type; pricing_rules holds every
+-- adjustment (coupon discounts, claim deal, seasonal/regional promos, price overrides).
+-- The seeded rules reproduce the amounts that were previously hard-coded.
+
+CREATE TABLE IF NOT EXISTS pricing_rules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT UNIQUE NOT NULL,
+    description TEXT,
+    trigger TEXT NOT NULL CHECK (trigger IN ('automatic', 'coupon', 'claim_deal')),
+    adjustment_type TEXT NOT NULL CHECK (adjustment_type IN ('fixed_discount', 'percentage_discount', 'price_override')),
+    adjustment_value NUMERIC(10, 2) NOT NULL CHECK (adjustment_value >= 0),
+    priority INTEGER NOT NULL DEFAULT 0,
+    stacking TEXT NOT NULL DEFAULT 'exclusive' CHECK (stacking IN ('exclusive', 'stackable')),
+    class_types TEXT[],
+    course_ids UUID[],
+    session_counts INTEGER[],
+    coupon_types TEXT[],
+    coupon_codes TEXT[],
+    city_id UUID,
+    zone_id UUID,
+    franchise_id UUID,
+    valid_from TIMESTAMPTZ,
+    valid_until TIMESTAMPTZ,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    metadata JSONB,
+    created_by UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from),
+    CHECK (adjustment_type <> 'percentage_discount' OR adjustment_value <= 100)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_active ON pricing_rules(is_active, priority DESC) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_trigger ON pricing_rules(trigger);
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_city ON pricing_rules(city_id) WHERE city_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_zone ON pricing_rules(zone_id) WHERE zone_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_franchise ON pricing_rules(franchise_id) WHERE franchise_id IS NOT NULL;
+
+-- Default coupon discounts by class type (previously getCouponDiscountByClassType)
+INSERT INTO pricing_rules (name, description, trigger, adjustment_type, adjustment_value, priority, stacking, class_types) VALUES
+('coupon-1-on-1-default', 'Default coupon discount for 1-on-1', 'coupon', 'fixed_discount', 2000.00, 100, 'exclusive', ARRAY['1-on-1']),
+('coupon-1-on-2-default', 'Default coupon discount for 1-on-2', 'coupon', 'fixed_discount', 1500.00, 100, 'exclusive', ARRAY['1-on-2']),
+('coupon-1-on-3-default', 'Default coupon discount for 1-on-3', 'coupon', 'fixed_discount', 1000.00, 100, 'exclusive', ARRAY['1-on-3']),
+('coupon-hybrid-default', 'Default coupon discount for hybrid', 'coupon', 'fixed_discount', 1000.00, 100, 'exclusive', ARRAY['hybrid'])
+ON CONFLICT (name) DO NOTHING;
+
+-- Welcome offer (claim deal), all class types
+INSERT INTO pricing_rules (name, description, trigger, adjustment_type, adjustment_value, priority, stacking) VALUES
+('claim-deal-welcome-offer', 'Welcome offer claimed from the home screen', 'claim_deal', 'fixed_discount', 1000.00, 100, 'exclusive')
+ON CONFLICT (name) DO NOTHING;
+
+COMMENT ON TABLE pricing_rules IS 'Pricing adjustments evaluated by the booking-service rule engine (priority, date window, scope, conditions, stacking)';
+COMMENT ON COLUMN pricing_rules.trigger IS 'automatic = always evaluated, coupon = only with a valid coupon, claim_deal = only when the welcome offer is claimed';
+COMMENT ON COLUMN pricing_rules.stacking IS 'exclusive = applies only if no other discount applied and blocks later ones; stackable = combines with other stackable rules';
@@ -0,0 +1,54 @@
+-- Migration: Coupon campaigns
+-- Description: Group coupon codes into campaigns (school, influencer, promotional, referral)
+-- with per-student limits, a total redemption cap, minimum package size and eligible
+-- class types/courses. Every validation attempt is logged in coupon_applications so
+-- attribution reports can compute conversion from applied to redeemed.
+
+CREATE TABLE IF NOT EXISTS coupon_campaigns (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT UNIQUE NOT NULL,
+    coupon_type TEXT NOT NULL CHECK (coupon_type IN ('school', 'influencer', 'promotional', 'referral')),
+    owner_name TEXT,
+    owner_contact TEXT,
+    description TEXT,
+    per_student_limit INTEGER NOT NULL DEFAULT 1 CHECK (per_student_limit > 0),
+    redemption_cap INTEGER CHECK (redemption_cap IS NULL OR redemption_cap > 0),
+    min_session_count INTEGER CHECK (min_session_count IS NULL OR min_session_count IN (10, 20, 30)),
+    eligible_class_types TEXT[],
+    eligible_course_ids UUID[],
+    valid_from TIMESTAMPTZ,
+    valid_until TIMESTAMPTZ,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    metadata JSONB,
+    created_by UUID,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_campaigns_type ON coupon_campaigns(coupon_type);
+CREATE INDEX IF NOT EXISTS idx_coupon_campaigns_active ON coupon_campaigns(is_active) WHERE is_active = true;
+
+-- Campaign link and referral owner on individual codes
+ALTER TABLE coupons ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES coupon_campaigns(id) ON DELETE SET NULL;
+ALTER TABLE coupons ADD COLUMN IF NOT EXISTS referrer_student_id UUID REFERENCES students(id) ON DELETE SET NULL;
+ALTER TABLE coupons DROP CONSTRAINT IF EXISTS coupons_type_check;
+ALTER TABLE coupons ADD CONSTRAINT coupons_type_check CHECK (type IN ('school', 'influencer', 'promotional', 'referral'));
+
+CREATE INDEX IF NOT EXISTS idx_coupons_campaign ON coupons(campaign_id) WHERE campaign_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_coupons_referrer ON coupons(referrer_student_id) WHERE referrer_student_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS coupon_applications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+    student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+    is_valid BOOLEAN NOT NULL,
+    error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_applications_coupon ON coupon_applications(coupon_id, created_at);
+
+COMMENT ON TABLE coupon_campaigns IS 'Coupon campaigns; codes in coupons.campaign_id share the campaign caps and eligibility rules';
+COMMENT ON COLUMN coupon_campaigns.redemption_cap IS 'Total redemptions allowed across all codes in the campaign (e.g. seats allotted to a school)';
+COMMENT ON COLUMN coupons.referrer_student_id IS 'Student who owns a referral code; redemptions are attributed to them';
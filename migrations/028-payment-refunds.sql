@@ -0,0 +1,32 @@
+-- Migration: Payment refunds
+-- Description: Refund ledger for full and partial refunds issued through payment-service.
+-- payments.refunded_amount_cents holds the running total (reserved before the provider call);
+-- payment_refunds keeps one row per refund with the session pro-rating and coin reversal used.
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS refunded_amount_cents INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS payment_refunds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL,
+    amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processed', 'failed')),
+    reason TEXT NOT NULL,
+    provider VARCHAR(50),
+    provider_refund_id TEXT,
+    sessions_total INTEGER,
+    sessions_completed INTEGER,
+    coins_reversed INTEGER NOT NULL DEFAULT 0,
+    revoke_access BOOLEAN NOT NULL DEFAULT false,
+    initiated_by UUID,
+    failure_reason TEXT,
+    metadata JSONB,
+    processed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_payment ON payment_refunds(payment_id);
+
+COMMENT ON TABLE payment_refunds IS 'Refunds issued against payments (Razorpay refund id, pro-rating inputs, coins returned)';
+COMMENT ON COLUMN payment_refunds.revoke_access IS 'true = purchase deactivated and trainer deallocated by purchase-worker on PURCHASE_REFUNDED';
@@ -0,0 +1,31 @@
+-- Migration: Payment webhooks and reconciliation
+-- Description: Provider webhook deliveries de-duplicated by event id, the provider order id
+-- kept separately from provider_payment_id (which is overwritten on confirmation), and the
+-- reconciliation outcome recorded on each payment.
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS provider_order_id TEXT;
+UPDATE payments SET provider_order_id = provider_payment_id
+WHERE provider_order_id IS NULL AND status IN ('initiated', 'processing');
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS reconciliation_status VARCHAR(20);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS reconciliation_note TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS payment_webhook_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    provider VARCHAR(50) NOT NULL,
+    event_id TEXT NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+    payment_id UUID,
+    attempts INTEGER NOT NULL DEFAULT 1,
+    error TEXT,
+    payload JSONB,
+    received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    processed_at TIMESTAMPTZ,
+    UNIQUE(provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_provider_order ON payments(provider, provider_order_id);
+CREATE INDEX IF NOT EXISTS idx_payments_reconciliation ON payments(reconciliation_status) WHERE reconciliation_status IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_provider_refund ON payment_refunds(provider_refund_id);
@@ -0,0 +1,23 @@
+-- Migration: Transactional event outbox
+-- Description: Business events written in the same transaction as the Postgres change that
+-- causes them (shared/events/outbox.ts emitInTransaction). OutboxRelay publishes pending rows
+-- to Kafka in id order and marks them published once Kafka acknowledges.
+
+CREATE TABLE IF NOT EXISTS event_outbox (
+    id BIGSERIAL PRIMARY KEY,
+    event_id TEXT NOT NULL UNIQUE,
+    event_type VARCHAR(100) NOT NULL,
+    correlation_id TEXT NOT NULL,
+    idempotency_key TEXT UNIQUE,
+    payload JSONB NOT NULL,
+    source VARCHAR(100) NOT NULL,
+    version VARCHAR(20) NOT NULL DEFAULT '1.0.0',
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'published', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    published_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_outbox_pending ON event_outbox(id) WHERE status = 'pending';
@@ -0,0 +1,27 @@
+import 'dotenv/config';
+
+/**
+ * Add Redis sessions created before the per-user session index (user:sessions:{id}) to it,
+ * so "log out everywhere" and the device list cover them.
+ *
+ *   pnpm sessions:backfill-index
+ *
+ * Safe to run more than once. Scans every session key, so run it off-peak.
+ */
+
+async function main(): Promise<void> {
+	const { backfillSessionIndex } = await import('../shared/utils/sessionManager');
+	const { disconnectRedis } = await import('../shared/databases/redis/connection');
+
+	try {
+		const indexed = await backfillSessionIndex();
+		console.log(`Indexed ${indexed} session(s)`);
+	} finally {
+		await disconnectRedis();
+	}
+}
+
+main().catch((error) => {
+	console.error(error instanceof Error ? error.message : error);
+	process.exit(1);
+});
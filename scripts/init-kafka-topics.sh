@@ -53,6 +53,7 @@ create_topic_if_not_exists "purchase-created" 3 1
 create_topic_if_not_exists "trainer-allocated" 3 1
 create_topic_if_not_exists "sessions-generated" 3 1
 create_topic_if_not_exists "course-access-granted" 3 1
+create_topic_if_not_exists "coupon-redeemed" 3 1
 create_topic_if_not_exists "dead-letter-queue" 3 1
 
 echo "[Kafka Topics] ✅ All topics initialized"
@@ -0,0 +1,143 @@
+import 'dotenv/config';
+
+/**
+ * Manage the JWT signing key ring.
+ *
+ *   pnpm jwt-keys list
+ *   pnpm jwt-keys rotate [--use access|refresh|all] [--alg RS256|EdDSA] [--grace 1h]
+ *   pnpm jwt-keys prune
+ *   pnpm jwt-keys export-public --out ./jwt-keys.public.json
+ *   pnpm jwt-keys jwks
+ *   pnpm jwt-keys encode            (base64 ring for the JWT_KEYS env var)
+ *
+ * The ring file is --file or JWT_KEYS_FILE. Rotating writes the file in place; running
+ * services pick it up within JWT_KEYS_RELOAD_INTERVAL_MS. The default grace window is the
+ * token lifetime plus an hour, so nothing signed before the rotation is rejected early.
+ */
+
+type Args = { command: string; options: Record<string, string> };
+
+function parseArgs(argv: string[]): Args {
+	const [command = 'help', ...rest] = argv;
+	const options: Record<string, string> = {};
+	for (let i = 0; i < rest.length; i++) {
+		const arg = rest[i];
+		if (arg?.startsWith('--')) {
+			options[arg.slice(2)] = rest[i + 1] && !rest[i + 1]!.startsWith('--') ? rest[++i]! : 'true';
+		}
+	}
+	return { command, options };
+}
+
+async function main(): Promise<void> {
+	const {
+		JWT_KEY_ALGORITHMS,
+		readKeyRingFile,
+		writeKeyRingFile,
+		rotateJwtKeys,
+		pruneJwtKeys,
+		toPublicKeyRing,
+	} = await import('../shared/utils/jwtKeyRing');
+	const { parseExpiresIn } = await import('../shared/utils/tokenManager');
+	const { createPublicKey } = await import('crypto');
+
+	const { command, options } = parseArgs(process.argv.slice(2));
+	const file = options.file || process.env.JWT_KEYS_FILE;
+	if (command === 'help' || !file) {
+		console.log('Usage: pnpm jwt-keys <list|rotate|prune|export-public|jwks|encode> [--file path]');
+		if (!file && command !== 'help') {
+			console.error('Set JWT_KEYS_FILE or pass --file');
+			process.exitCode = 1;
+		}
+		return;
+	}
+
+	const ring = readKeyRingFile(file);
+
+	switch (command) {
+		case 'list': {
+			const now = Date.now();
+			for (const key of ring.keys) {
+				const status = !key.retiredAt
+					? key.privateKey
+						? 'active'
+						: 'active (public only)'
+					: key.verifyUntil && Date.parse(key.verifyUntil) <= now
+						? 'expired'
+						: `retired, verifies until ${key.verifyUntil ?? 'forever'}`;
+				console.log(`${key.kid}\t${key.use}\t${key.alg}\t${key.createdAt}\t${status}`);
+			}
+			if (ring.keys.length === 0) {
+				console.log('No keys. Run "pnpm jwt-keys rotate" to create them.');
+			}
+			break;
+		}
+
+		case 'rotate': {
+			const alg = (options.alg || 'RS256') as (typeof JWT_KEY_ALGORITHMS)[number];
+			if (!JWT_KEY_ALGORITHMS.includes(alg)) {
+				throw new Error(`--alg must be one of ${JWT_KEY_ALGORITHMS.join(', ')}`);
+			}
+			const uses = options.use && options.use !== 'all' ? [options.use] : ['access', 'refresh'];
+			let next = ring;
+			for (const use of uses) {
+				if (use !== 'access' && use !== 'refresh') {
+					throw new Error('--use must be access, refresh or all');
+				}
+				const lifetime =
+					use === 'access'
+						? process.env.JWT_ACCESS_EXPIRES_IN || process.env.JWT_EXPIRES_IN || '10m'
+						: process.env.JWT_REFRESH_EXPIRES_IN || '30d';
+				const graceMs = (options.grace ? parseExpiresIn(options.grace) : parseExpiresIn(lifetime) + 3600) * 1000;
+				const result = rotateJwtKeys(next, { use, alg, graceMs });
+				next = result.ring;
+				console.log(`New ${use} key ${result.key.kid} (${alg})`);
+				for (const kid of result.retired) {
+					console.log(`  retired ${kid}, verifies for another ${Math.round(graceMs / 60000)} min`);
+				}
+			}
+			writeKeyRingFile(file, next);
+			break;
+		}
+
+		case 'prune': {
+			const { ring: next, removed } = pruneJwtKeys(ring);
+			writeKeyRingFile(file, next);
+			console.log(removed.length ? `Removed ${removed.join(', ')}` : 'Nothing to prune');
+			break;
+		}
+
+		case 'export-public': {
+			const publicRing = toPublicKeyRing(ring);
+			if (options.out) {
+				writeKeyRingFile(options.out, publicRing);
+				console.log(`Wrote ${options.out}`);
+			} else {
+				console.log(JSON.stringify(publicRing, null, 2));
+			}
+			break;
+		}
+
+		case 'jwks': {
+			const keys = ring.keys
+				.filter((key) => key.use === 'access')
+				.map((key) => ({ ...createPublicKey(key.publicKey).export({ format: 'jwk' }), kid: key.kid, alg: key.alg, use: 'sig' }));
+			console.log(JSON.stringify({ keys }, null, 2));
+			break;
+		}
+
+		case 'encode': {
+			console.log(Buffer.from(JSON.stringify(ring)).toString('base64'));
+			break;
+		}
+
+		default:
+			console.error(`Unknown command "${command}"`);
+			process.exitCode = 1;
+	}
+}
+
+main().catch((error) => {
+	console.error(error instanceof Error ? error.message : error);
+	process.exitCode = 1;
+});
@@ -0,0 +1,136 @@
+/**
+ * Dead Letter Queue CLI
+ *
+ * Browse and replay failed worker events without writing a one-off emit script.
+ *
+ *   pnpm --filter @kodingcaravan/admin-service dlq list --event-type PURCHASE_CONFIRMED --reason timeout
+ *   pnpm --filter @kodingcaravan/admin-service dlq show <eventId>
+ *   pnpm --filter @kodingcaravan/admin-service dlq replay <eventId> --dry-run
+ *   pnpm --filter @kodingcaravan/admin-service dlq replay-all --topic purchase-confirmed [--dry-run] [--force]
+ *
+ * Filters: --event-id, --correlation-id, --event-type, --reason, --topic, --limit
+ * Replays skip events IdempotencyGuard reports as processed unless --force is given.
+ */
+
+import "@kodingcaravan/shared/config";
+import { Pool } from 'pg';
+import { buildPostgresConnectionString } from '@kodingcaravan/shared/databases/postgres/connection';
+import { DeadLetterBrowser, type DeadLetterFilter, type ReplayResult } from '@kodingcaravan/shared/worker';
+
+const FILTER_FLAGS: Record<string, keyof DeadLetterFilter> = {
+  '--event-id': 'eventId',
+  '--correlation-id': 'correlationId',
+  '--event-type': 'eventType',
+  '--reason': 'failureReason',
+  '--topic': 'originalTopic',
+};
+
+function parseArgs(argv: string[]) {
+  const positional: string[] = [];
+  const filter: DeadLetterFilter = {};
+  const flags = new Set<string>();
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] as string;
+    const filterKey = FILTER_FLAGS[arg];
+    if (filterKey && filterKey !== 'limit') {
+      filter[filterKey] = argv[++i];
+    } else if (arg === '--limit') {
+      filter.limit = Number(argv[++i]);
+    } else if (arg.startsWith('--')) {
+      flags.add(arg);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { command: positional[0], eventId: positional[1], filter, flags };
+}
+
+function printResult(result: ReplayResult): void {
+  const suffix = result.error ? ` (${result.error})` : '';
+  console.log(`${result.outcome.padEnd(18)} ${result.eventType.padEnd(28)} ${result.eventId} -> ${result.originalTopic}${suffix}`);
+}
+
+function usage(): never {
+  console.log('Usage: dlq <list|show|replay|replay-all> [eventId] [filters] [--dry-run] [--force] [--all]');
+  process.exit(1);
+}
+
+async function main() {
+  const { command, eventId, filter, flags } = parseArgs(process.argv.slice(2));
+  const options = { dryRun: flags.has('--dry-run'), force: flags.has('--force') };
+
+  const pool = new Pool({ connectionString: buildPostgresConnectionString(process.env) });
+  const browser = new DeadLetterBrowser({
+    pool,
+    ...(process.env.KAFKA_DLQ_TOPIC ? { dlqTopic: process.env.KAFKA_DLQ_TOPIC } : {}),
+  });
+
+  try {
+    switch (command) {
+      case 'list': {
+        const entries = await browser.list(filter);
+        for (const entry of entries) {
+          console.log(
+            `${new Date(entry.failureTimestamp).toISOString()}  ${entry.eventType.padEnd(28)} ${entry.eventId}  ` +
+            `corr=${entry.correlationId}  topic=${entry.originalTopic}  reason=${entry.failureReason}`
+          );
+        }
+        console.log(`\n${entries.length} message(s)`);
+        break;
+      }
+
+      case 'show': {
+        if (!eventId) usage();
+        const entry = await browser.get(eventId);
+        if (!entry) {
+          console.error(`No DLQ message for eventId ${eventId}`);
+          process.exitCode = 1;
+          break;
+        }
+        console.log(JSON.stringify(entry, null, 2));
+        break;
+      }
+
+      case 'replay': {
+        if (!eventId) usage();
+        const entry = await browser.get(eventId);
+        if (!entry) {
+          console.error(`No DLQ message for eventId ${eventId}`);
+          process.exitCode = 1;
+          break;
+        }
+        const result = await browser.replay(entry, options);
+        printResult(result);
+        if (result.outcome === 'failed') process.exitCode = 1;
+        break;
+      }
+
+      case 'replay-all': {
+        const hasFilter = Object.keys(filter).some((key) => key !== 'limit');
+        if (!hasFilter && !flags.has('--all')) {
+          console.error('Provide at least one filter, or --all to replay the whole DLQ');
+          process.exitCode = 1;
+          break;
+        }
+        const results = await browser.replayMany(filter, options);
+        results.forEach(printResult);
+        console.log(`\n${results.length} event(s)${options.dryRun ? ' (dry run)' : ''}`);
+        if (results.some((r) => r.outcome === 'failed')) process.exitCode = 1;
+        break;
+      }
+
+      default:
+        usage();
+    }
+  } finally {
+    await browser.disconnect();
+    await pool.end();
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ DLQ command failed:', error.message);
+  process.exit(1);
+});
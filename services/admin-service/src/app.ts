@@ -1,6 +1,6 @@
 import express from 'express';
 import timeout from 'connect-timeout';
-import { globalErrorHandler, createHealthCheckEndpoints, getRedisClient } from '@kodingcaravan/shared';
+import { globalErrorHandler, correlationIdMiddleware, createHealthCheckEndpoints, getRedisClient } from '@kodingcaravan/shared';
 import { requestLogger } from './middlewares/requestLogger';
 import { getPool } from './config/database';
 import authRoutes from './routes/auth.routes';
@@ -10,16 +10,36 @@ import allocationRoutes from './routes/allocation.routes';
 import rescheduleRoutes from './routes/reschedule.routes';
 import locationTrackingRoutes from './routes/locationTracking.routes';
 import trainerApprovalRoutes from './routes/trainerApproval.routes';
+import trainerSessionRoutes from './routes/trainerSession.routes';
+import accountLockoutRoutes from './routes/accountLockout.routes';
 import pincodeRoutes from './routes/pincode.routes';
 import { createSubstitutionRoutes } from './routes/substitution.routes';
 import { createEventsRoutes } from './routes/events.routes';
+import { createDeadLetterRoutes } from './routes/deadLetter.routes';
 import reviewRoutes from './routes/review.routes';
 import callRoutes from './routes/call.routes';
 import demandTrackingRoutes from './routes/demandTracking.routes';
 import journeyRoutes from './routes/journey.routes';
+import holidayCalendarRoutes from './routes/holidayCalendar.routes';
+import auditLogRoutes from './routes/auditLog.routes';
+import dashboardRoutes from './routes/dashboard.routes';
+import faceVerificationRoutes from './routes/faceVerification.routes';
+import geofenceRoutes from './routes/geofence.routes';
+import liveClassRoutes from './routes/liveClass.routes';
+import { LiveClassController } from './controllers/liveClass.controller';
 
 const app: express.Application = express();
 
+app.use(correlationIdMiddleware);
+
+// LiveKit webhook needs the raw body for signature verification
+// Must be registered before JSON middleware
+app.post(
+	'/api/v1/admin/live-classes/webhook',
+	express.raw({ type: ['application/webhook+json', 'application/json'] }),
+	LiveClassController.handleWebhook
+);
+
 app.use(express.json({ limit: '10mb' })); // Increase limit for image uploads
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
@@ -46,11 +66,20 @@ app.get('/ready', readyHandler);
 
 app.use('/api/v1/admin/auth', authRoutes);
 app.use('/api/v1/admin/safety', safetyRoutes);
+app.use('/api/v1/admin/dlq', createDeadLetterRoutes());
+app.use('/api/v1/admin/audit-logs', auditLogRoutes);
+app.use('/api/v1/admin/dashboard', dashboardRoutes);
+app.use('/api/v1/admin/face-verifications', faceVerificationRoutes);
+app.use('/api/v1/admin/geofences', geofenceRoutes);
+app.use('/api/v1/admin/live-classes', liveClassRoutes);
 app.use('/api/v1/admin', sessionRoutes);
 app.use('/api/v1/admin/allocations', allocationRoutes);
 app.use('/api/v1/admin/reschedule', rescheduleRoutes);
+app.use('/api/v1/admin/calendar', holidayCalendarRoutes);
 app.use('/api/v1/admin/location-tracking', locationTrackingRoutes);
 app.use('/api/v1/admin/trainers/approvals', trainerApprovalRoutes);
+app.use('/api/v1/admin/trainers', trainerSessionRoutes);
+app.use('/api/v1/admin/lockouts', accountLockoutRoutes);
 app.use('/api/v1/admin', pincodeRoutes);
 app.use('/api/v1/admin/substitutions', createSubstitutionRoutes());
 app.use('/api/v1/events', createEventsRoutes());
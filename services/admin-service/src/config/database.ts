@@ -1,6 +1,7 @@
 import bcrypt from 'bcryptjs';
 import { Pool, PoolClient } from 'pg';
 import { createPostgresPool } from '@kodingcaravan/shared';
+import { ensureOutboxTable } from '@kodingcaravan/shared/events/outbox';
 import logger from '@kodingcaravan/shared/config/logger';
 import { PERMISSION_DEFINITIONS, ROLE_PERMISSIONS, getPermissionsForRole } from '../constants/permissions';
 
@@ -274,6 +275,9 @@ async function ensureTables(client: PoolClient): Promise<void> {
 	// Create trainer reschedules table
 	await ensureTrainerRescheduleTable(client);
 
+	// Create holiday / blackout calendar and reschedule proposal tables
+	await ensureCalendarTables(client);
+
 	// Create location tracking tables
 	await ensureLocationTrackingTables(client);
 
@@ -282,6 +286,27 @@ async function ensureTables(client: PoolClient): Promise<void> {
 
 	// Create call logs table
 	await ensureCallLogsTable(client);
+
+	// Create append-only admin audit log
+	await ensureAuditLogTable(client);
+
+	// Create operations dashboard rollups
+	await ensureAnalyticsRollupTable(client);
+
+	// Create face verification challenges, attempts and per-city thresholds
+	await ensureFaceVerificationTables(client);
+
+	// Create zone geofence overrides, session geofences and enter/exit events
+	await ensureGeofenceTables(client);
+
+	// Create LiveKit webhook ids, live class rooms, attendance intervals and recordings
+	await ensureLiveClassTables(client);
+
+	// Create call policy tables: virtual-number pool, denials, safety flags (extends call_logs)
+	await ensureCallPolicyTables(client);
+
+	// Transactional outbox for SESSION_COMPLETED / SESSION_SUBSTITUTED (published by OutboxRelay, see index.ts)
+	await ensureOutboxTable(client);
 }
 
 async function ensureSessionTable(client: PoolClient): Promise<void> {
@@ -323,6 +348,40 @@ async function ensureJourneyTables(client: PoolClient): Promise<void> {
 		CREATE INDEX IF NOT EXISTS idx_journeys_status ON journeys(status);
 		CREATE UNIQUE INDEX IF NOT EXISTS idx_journeys_one_active_per_session ON journeys(session_id) WHERE status = 'active';
 	`);
+	// Breadcrumbs are buffered in Redis during the journey and written here when it ends
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS journey_breadcrumbs (
+			journey_id UUID NOT NULL REFERENCES journeys(id) ON DELETE CASCADE,
+			sequence INTEGER NOT NULL,
+			latitude DOUBLE PRECISION NOT NULL,
+			longitude DOUBLE PRECISION NOT NULL,
+			accuracy DOUBLE PRECISION,
+			speed DOUBLE PRECISION,
+			heading DOUBLE PRECISION,
+			recorded_at TIMESTAMPTZ NOT NULL,
+			PRIMARY KEY (journey_id, sequence)
+		);
+	`);
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS journey_alerts (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			journey_id UUID NOT NULL REFERENCES journeys(id) ON DELETE CASCADE,
+			session_id UUID NOT NULL REFERENCES tutoring_sessions(id) ON DELETE CASCADE,
+			trainer_id UUID NOT NULL,
+			student_id UUID NOT NULL,
+			type TEXT NOT NULL CHECK (type IN ('late_arrival', 'long_stop', 'route_deviation')),
+			message TEXT NOT NULL,
+			minutes_late INTEGER,
+			stopped_minutes INTEGER,
+			distance_meters INTEGER,
+			estimated_arrival_at TIMESTAMPTZ,
+			latitude DOUBLE PRECISION,
+			longitude DOUBLE PRECISION,
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+		CREATE INDEX IF NOT EXISTS idx_journey_alerts_journey ON journey_alerts(journey_id);
+		CREATE INDEX IF NOT EXISTS idx_journey_alerts_created ON journey_alerts(created_at DESC);
+	`);
 }
 
 async function ensureTrainerAllocationTable(client: PoolClient): Promise<void> {
@@ -335,6 +394,11 @@ async function ensureTrainerRescheduleTable(client: PoolClient): Promise<void> {
 	await ensureTrainerRescheduleTable(client);
 }
 
+async function ensureCalendarTables(client: PoolClient): Promise<void> {
+	const { ensureCalendarTables } = await import('../models/calendarBlock.model');
+	await ensureCalendarTables(client);
+}
+
 async function ensureLocationTrackingTables(client: PoolClient): Promise<void> {
 	const { ensureLocationTrackingTables } = await import('../models/locationTracking.model');
 	await ensureLocationTrackingTables(client);
@@ -345,6 +409,36 @@ async function ensureSessionReviewTable(client: PoolClient): Promise<void> {
 	await ensureSessionReviewTable(client);
 }
 
+async function ensureAuditLogTable(client: PoolClient): Promise<void> {
+	const { ensureAuditLogTable } = await import('../models/auditLog.model');
+	await ensureAuditLogTable(client);
+}
+
+async function ensureAnalyticsRollupTable(client: PoolClient): Promise<void> {
+	const { ensureAnalyticsRollupTable } = await import('../models/analyticsRollup.model');
+	await ensureAnalyticsRollupTable(client);
+}
+
+async function ensureFaceVerificationTables(client: PoolClient): Promise<void> {
+	const { ensureFaceVerificationTables } = await import('../models/faceVerification.model');
+	await ensureFaceVerificationTables(client);
+}
+
+async function ensureGeofenceTables(client: PoolClient): Promise<void> {
+	const { ensureGeofenceTables } = await import('../models/geofence.model');
+	await ensureGeofenceTables(client);
+}
+
+async function ensureLiveClassTables(client: PoolClient): Promise<void> {
+	const { ensureLiveClassTables } = await import('../models/liveClass.model');
+	await ensureLiveClassTables(client);
+}
+
+async function ensureCallPolicyTables(client: PoolClient): Promise<void> {
+	const { ensureCallPolicyTables } = await import('../models/callPolicy.model');
+	await ensureCallPolicyTables(client);
+}
+
 async function ensureCallLogsTable(client: PoolClient): Promise<void> {
 	await client.query(`
 		CREATE TABLE IF NOT EXISTS call_logs (
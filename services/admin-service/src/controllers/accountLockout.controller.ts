@@ -0,0 +1,105 @@
+import { Request, Response } from 'express';
+import { successResponse, errorResponse } from '@kodingcaravan/shared/utils/responseBuilder';
+import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
+import { accountLockoutService, type LockoutUserType } from '../services/accountLockout.service';
+
+const USER_TYPES: LockoutUserType[] = ['student', 'trainer'];
+
+function parseUserType(value: unknown): LockoutUserType | null {
+	return USER_TYPES.includes(value as LockoutUserType) ? (value as LockoutUserType) : null;
+}
+
+function parseReason(value: unknown): string | undefined | null {
+	if (value === undefined) return undefined;
+	return typeof value === 'string' ? value.trim().slice(0, 500) : null;
+}
+
+export class AccountLockoutController {
+	/**
+	 * Current login / OTP lockout state for a user
+	 * GET /api/v1/admin/lockouts/:userType/:userId
+	 */
+	static getUserStatus = asyncHandler(async (req: Request, res: Response) => {
+		const userType = parseUserType(req.params.userType);
+		if (!userType) {
+			return errorResponse(res, { statusCode: 400, message: 'userType must be student or trainer' });
+		}
+
+		const status = await accountLockoutService.getUserStatus(userType, req.params.userId);
+
+		return successResponse(res, {
+			message: 'Lockout status retrieved successfully',
+			data: status,
+		});
+	});
+
+	/**
+	 * Unlock a user's login and OTP
+	 * POST /api/v1/admin/lockouts/:userType/:userId/unlock
+	 */
+	static unlockUser = asyncHandler(async (req: Request, res: Response) => {
+		const userType = parseUserType(req.params.userType);
+		if (!userType) {
+			return errorResponse(res, { statusCode: 400, message: 'userType must be student or trainer' });
+		}
+		const reason = parseReason(req.body?.reason);
+		if (reason === null) {
+			return errorResponse(res, { statusCode: 400, message: 'reason must be a string' });
+		}
+		const adminId = (req as any).adminId;
+
+		const result = await accountLockoutService.unlockUser(userType, req.params.userId, adminId, reason);
+
+		return successResponse(res, {
+			message: result.unlockedScopes.length ? 'Account unlocked' : 'Account was not locked',
+			data: result,
+		});
+	});
+
+	/**
+	 * Unlock an IP address in all scopes
+	 * POST /api/v1/admin/lockouts/ip/unlock
+	 */
+	static unlockIp = asyncHandler(async (req: Request, res: Response) => {
+		const { ip } = req.body ?? {};
+		if (typeof ip !== 'string' || !ip.trim()) {
+			return errorResponse(res, { statusCode: 400, message: 'ip is required' });
+		}
+		const reason = parseReason(req.body?.reason);
+		if (reason === null) {
+			return errorResponse(res, { statusCode: 400, message: 'reason must be a string' });
+		}
+		const adminId = (req as any).adminId;
+
+		const result = await accountLockoutService.unlockIp(ip.trim(), adminId, reason);
+
+		return successResponse(res, {
+			message: result.unlockedScopes.length ? 'IP unlocked' : 'IP was not locked',
+			data: result,
+		});
+	});
+
+	/**
+	 * Lock / unlock audit trail
+	 * GET /api/v1/admin/lockouts/events?userId=&subject=&event=locked&limit=50
+	 */
+	static listEvents = asyncHandler(async (req: Request, res: Response) => {
+		const { userId, subject, event } = req.query;
+		if (event !== undefined && event !== 'locked' && event !== 'unlocked') {
+			return errorResponse(res, { statusCode: 400, message: 'event must be locked or unlocked' });
+		}
+		const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+		const events = await accountLockoutService.listEvents({
+			...(typeof userId === 'string' && { userId }),
+			...(typeof subject === 'string' && { subject }),
+			...(event && { event }),
+			...(limit && Number.isFinite(limit) && { limit }),
+		});
+
+		return successResponse(res, {
+			message: 'Lockout events retrieved successfully',
+			data: events,
+		});
+	});
+}
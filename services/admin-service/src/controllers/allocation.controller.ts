@@ -3,6 +3,7 @@ import { successResponse, errorResponse } from '@kodingcaravan/shared/utils/resp
 import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
 import logger from '@kodingcaravan/shared/config/logger';
 import { AllocationService } from '../services/allocation.service';
+import { recordAdminAction } from '../services/auditLog.service';
 import { z } from 'zod';
 
 const allocationService = new AllocationService();
@@ -93,8 +94,17 @@ export class AllocationController {
 			});
 		}
 
+		const before = await allocationService.getAllocation(id);
 		const allocation = await allocationService.approveAllocation(id, adminId, body.trainerId);
 
+		await recordAdminAction(req, {
+			action: 'allocation.approve',
+			entityType: 'allocation',
+			entityId: id,
+			before,
+			after: allocation,
+		});
+
 		return successResponse(res, {
 			message: 'Allocation approved successfully',
 			data: allocation,
@@ -117,8 +127,18 @@ export class AllocationController {
 			});
 		}
 
+		const before = await allocationService.getAllocation(id);
 		const allocation = await allocationService.rejectAllocation(id, adminId, body.rejectionReason);
 
+		await recordAdminAction(req, {
+			action: 'allocation.reject',
+			entityType: 'allocation',
+			entityId: id,
+			before,
+			after: allocation,
+			reason: body.rejectionReason,
+		});
+
 		return successResponse(res, {
 			message: 'Allocation rejected successfully',
 			data: allocation,
@@ -150,6 +170,15 @@ export class AllocationController {
 			}
 		);
 
+		await recordAdminAction(req, {
+			action: 'allocation.allocate',
+			entityType: 'allocation',
+			entityId: allocation?.id ?? null,
+			before: null,
+			after: allocation,
+			reason: body.notes ?? null,
+		});
+
 		return successResponse(res, {
 			statusCode: 201,
 			message: 'Trainer allocated successfully',
@@ -321,8 +350,18 @@ export class AllocationController {
 			});
 		}
 
+		const before = await allocationService.getAllocation(id);
 		const allocation = await allocationService.updateAllocation(id, adminId, body);
 
+		await recordAdminAction(req, {
+			action: 'allocation.update',
+			entityType: 'allocation',
+			entityId: id,
+			before,
+			after: allocation,
+			reason: body.rejectionReason ?? body.notes ?? null,
+		});
+
 		return successResponse(res, {
 			message: 'Allocation updated successfully',
 			data: allocation,
@@ -344,8 +383,18 @@ export class AllocationController {
 			});
 		}
 
+		const before = await allocationService.getAllocation(id);
 		const allocation = await allocationService.cancelAllocation(id, adminId);
 
+		await recordAdminAction(req, {
+			action: 'allocation.cancel',
+			entityType: 'allocation',
+			entityId: id,
+			before,
+			after: allocation,
+			reason: typeof req.body?.reason === 'string' ? req.body.reason : null,
+		});
+
 		return successResponse(res, {
 			message: 'Allocation cancelled successfully',
 			data: allocation,
@@ -0,0 +1,106 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '@kodingcaravan/shared';
+import { successResponse } from '@kodingcaravan/shared/utils/responseBuilder';
+import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
+import { getAdminContext, type AdminContext } from '../services/permission.service';
+import { dashboardService, rollupDate, type DashboardFilter } from '../services/dashboard.service';
+
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_RANGE_DAYS = 366;
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+const geographyName = z.string().trim().min(1).max(100);
+
+function daysBetween(from: string, to: string): number {
+	return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000)) + 1;
+}
+
+const rangeSchema = z
+	.object({
+		from: dateString,
+		to: dateString,
+	})
+	.refine((range) => range.from <= range.to, { message: 'from must not be after to', path: ['from'] })
+	.refine((range) => daysBetween(range.from, range.to) <= MAX_RANGE_DAYS, {
+		message: `Range cannot exceed ${MAX_RANGE_DAYS} days`,
+		path: ['to'],
+	});
+
+const dashboardQuerySchema = z.object({
+	from: dateString.optional(),
+	to: dateString.optional(),
+	state: geographyName.optional(),
+	district: geographyName.optional(),
+	zone: geographyName.optional(),
+});
+
+function parseFilter(query: unknown): DashboardFilter {
+	const { from, to, ...geography } = dashboardQuerySchema.parse(query);
+	const end = to ?? rollupDate();
+	const start = from ?? new Date(Date.parse(end) - (DEFAULT_RANGE_DAYS - 1) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+	return { ...rangeSchema.parse({ from: start, to: end }), ...geography };
+}
+
+async function resolveContext(req: Request): Promise<AdminContext> {
+	if (req.adminContext) {
+		return req.adminContext;
+	}
+	const adminId = (req as any).adminId as string | undefined;
+	if (!adminId) {
+		throw new AppError('Authentication required', 401);
+	}
+	return getAdminContext(adminId);
+}
+
+export class AnalyticsDashboardController {
+	/**
+	 * Operations KPIs (totals, daily series and a breakdown one geography level down)
+	 * GET /api/v1/admin/dashboard/operations?from=2025-01-01&to=2025-01-31&state=Telangana
+	 */
+	static getOperations = asyncHandler(async (req: Request, res: Response) => {
+		const filter = parseFilter(req.query);
+		const context = await resolveContext(req);
+
+		const dashboard = await dashboardService.getOperationsDashboard(context, filter);
+
+		return successResponse(res, {
+			message: 'Operations dashboard retrieved successfully',
+			data: dashboard,
+		});
+	});
+
+	/**
+	 * Unmet demand vs trainer capacity per city
+	 * GET /api/v1/admin/dashboard/demand-capacity?from=2025-01-01&to=2025-01-31
+	 */
+	static getDemandCapacity = asyncHandler(async (req: Request, res: Response) => {
+		const filter = parseFilter(req.query);
+		const context = await resolveContext(req);
+
+		const cities = await dashboardService.getDemandVsCapacity(context, filter);
+
+		return successResponse(res, {
+			message: 'Demand vs capacity retrieved successfully',
+			data: { filter, cities },
+		});
+	});
+
+	/**
+	 * Rebuild rollups for a range, e.g. after a backfill or data correction
+	 * POST /api/v1/admin/dashboard/rollups/refresh
+	 */
+	static refreshRollups = asyncHandler(async (req: Request, res: Response) => {
+		const { from, to } = rangeSchema.parse(req.body ?? {});
+
+		const result = await dashboardService.refreshRollups(from, to);
+		if (!result) {
+			throw new AppError('A rollup refresh is already running; try again shortly', 409);
+		}
+
+		return successResponse(res, {
+			message: 'Dashboard rollups refreshed',
+			data: result,
+		});
+	});
+}
@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+import { successResponse, errorResponse } from '@kodingcaravan/shared/utils/responseBuilder';
+import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
+import { z } from 'zod';
+import {
+	findAuditLogById,
+	findAuditLogs,
+	forEachAuditLogBatch,
+	verifyAuditLogChain,
+	type AuditLogFilters,
+} from '../models/auditLog.model';
+import { AUDIT_CSV_HEADER, toAuditCsvRow } from '../services/auditLog.service';
+
+const timestampString = z.string().refine((value) => !isNaN(Date.parse(value)), 'Expected an ISO date or timestamp');
+
+const auditFilterSchema = z.object({
+	actorId: z.string().uuid().optional(),
+	action: z.string().trim().min(1).max(100).optional(),
+	permission: z.string().trim().min(1).max(100).optional(),
+	entityType: z.string().trim().min(1).max(100).optional(),
+	entityId: z.string().trim().min(1).max(200).optional(),
+	correlationId: z.string().trim().min(1).max(200).optional(),
+	service: z.string().trim().min(1).max(100).optional(),
+	from: timestampString.optional(),
+	to: timestampString.optional(),
+});
+
+const listAuditSchema = auditFilterSchema.extend({
+	limit: z.coerce.number().int().min(1).max(500).optional(),
+	offset: z.coerce.number().int().min(0).optional(),
+});
+
+export class AuditLogController {
+	/**
+	 * Search the audit log, newest first
+	 * GET /api/v1/admin/audit-logs?entityType=allocation&entityId=...&from=2025-01-01
+	 */
+	static list = asyncHandler(async (req: Request, res: Response) => {
+		const { limit, offset, ...filters } = listAuditSchema.parse(req.query);
+
+		const result = await findAuditLogs(filters as AuditLogFilters, limit ?? 50, offset ?? 0);
+
+		return successResponse(res, {
+			message: 'Audit log entries retrieved successfully',
+			data: {
+				entries: result.entries,
+				total: result.total,
+				limit: limit ?? 50,
+				offset: offset ?? 0,
+			},
+		});
+	});
+
+	/**
+	 * CSV export of every entry matching the filters, oldest first
+	 * GET /api/v1/admin/audit-logs/export.csv
+	 */
+	static exportCsv = asyncHandler(async (req: Request, res: Response) => {
+		const filters = auditFilterSchema.parse(req.query) as AuditLogFilters;
+
+		res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+		res.setHeader('Content-Disposition', `attachment; filename="admin-audit-log-${new Date().toISOString().split('T')[0]}.csv"`);
+		res.write(`${AUDIT_CSV_HEADER}\r\n`);
+
+		await forEachAuditLogBatch(filters, (entries) => {
+			res.write(entries.map((entry) => `${toAuditCsvRow(entry)}\r\n`).join(''));
+		});
+
+		res.end();
+	});
+
+	/**
+	 * Recompute the hash chain and report the first tampered or missing entry
+	 * GET /api/v1/admin/audit-logs/verify
+	 */
+	static verify = asyncHandler(async (_req: Request, res: Response) => {
+		const result = await verifyAuditLogChain();
+
+		return successResponse(res, {
+			message: result.valid ? 'Audit log chain is intact' : 'Audit log chain is broken',
+			data: result,
+		});
+	});
+
+	/**
+	 * GET /api/v1/admin/audit-logs/:id
+	 */
+	static getById = asyncHandler(async (req: Request, res: Response) => {
+		const { id } = z.object({ id: z.string().uuid() }).parse(req.params);
+
+		const entry = await findAuditLogById(id);
+		if (!entry) {
+			return errorResponse(res, {
+				statusCode: 404,
+				message: 'Audit log entry not found',
+			});
+		}
+
+		return successResponse(res, {
+			message: 'Audit log entry retrieved successfully',
+			data: entry,
+		});
+	});
+}
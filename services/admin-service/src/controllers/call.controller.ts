@@ -1,8 +1,12 @@
+import { timingSafeEqual } from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { successResponse, errorResponse } from '@kodingcaravan/shared/utils/responseBuilder';
 import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
 import logger from '@kodingcaravan/shared/config/logger';
 import { getPool } from '../config/database';
+import { callPolicyService } from '../services/callPolicy.service';
+import { getExotelService } from '../services/exotel.service';
+import { recordAdminAction } from '../services/auditLog.service';
 import { z } from 'zod';
 
 const initiateCallSchema = z.object({
@@ -12,14 +16,31 @@ const initiateCallSchema = z.object({
 	callerRole: z.enum(['trainer', 'student']),
 });
 
+const trainerReportSchema = z.object({
+	from: z.coerce.date(),
+	to: z.coerce.date(),
+	trainerId: z.string().uuid().optional(),
+});
+
+const virtualNumberSchema = z.object({
+	number: z.string().trim().min(8).max(20),
+});
+
+const recordingAccessSchema = z.object({
+	reason: z.string().trim().min(5).max(500),
+});
+
+/** Exotel status values after which a call will not change again */
+const FINAL_CALL_STATUSES = ['completed', 'failed', 'busy', 'no-answer', 'canceled'];
+
 /**
  * Initiate a call between trainer and student
  * POST /api/v1/admin/calls/initiate
  */
 export const initiateCall = asyncHandler(
 	async (req: Request, res: Response, next: NextFunction) => {
-		const userId = (req as any).user?.id;
-		const userRole = (req as any).user?.role;
+		const userId = (req as any).userId || (req as any).user?.id;
+		const userRole = (req as any).userRole || (req as any).user?.role;
 
 		if (!userId) {
 			return errorResponse(res, {
@@ -40,6 +61,20 @@ export const initiateCall = asyncHandler(
 
 		const { trainerId, studentId, sessionId, callerRole } = validationResult.data;
 
+		// Only the trainer or student themselves may place the call
+		if (userRole !== 'trainer' && userRole !== 'student') {
+			return errorResponse(res, {
+				statusCode: 403,
+				message: 'Only trainers and students can initiate calls',
+			});
+		}
+		if (userRole !== callerRole) {
+			return errorResponse(res, {
+				statusCode: 403,
+				message: 'Unauthorized: You can only initiate calls as yourself',
+			});
+		}
+
 		// Verify user has permission to initiate call
 		if (userRole === 'trainer' && userId !== trainerId) {
 			return errorResponse(res, {
@@ -95,6 +130,39 @@ export const initiateCall = asyncHandler(
 			});
 		}
 
+		// Calling policy: active allocation, session window, daily cap
+		const decision = await callPolicyService.evaluate({ trainerId, studentId, callerRole, direction: 'outbound' });
+		if (!decision.allowed) {
+			return errorResponse(res, {
+				statusCode: 403,
+				message: decision.message,
+				errors: [{ reason: decision.reason }],
+			});
+		}
+
+		// Masked call through Exotel on the pair's virtual number
+		if (process.env.EXOTEL_SUBDOMAIN) {
+			const assignment = await callPolicyService.getPairNumber(trainerId, studentId);
+			const call = await getExotelService().initiateCall(trainerPhone, studentPhone, {
+				trainerId,
+				studentId,
+				sessionId: sessionId ?? decision.sessionId ?? undefined,
+				callerRole,
+				callerId: assignment?.virtualNumber,
+			});
+
+			return successResponse(res, {
+				statusCode: 200,
+				message: 'Call initiated successfully',
+				data: {
+					callSid: call.callSid,
+					status: call.status,
+					virtualNumber: assignment?.virtualNumber ?? null,
+				},
+			});
+		}
+
+		// Exotel not configured: fall back to the device dialer
 		// Return the appropriate phone number based on caller role
 		// Phone number is only returned, never displayed in app UI
 		// User will use device dialer to make the call
@@ -113,29 +181,112 @@ export const initiateCall = asyncHandler(
 );
 
 /**
- * Handle Exotel webhook (DEPRECATED - No longer used)
- * POST /api/v1/admin/calls/webhook
- * This endpoint is kept for backwards compatibility but is no longer functional
+ * Exotel callbacks carry EXOTEL_WEBHOOK_TOKEN as ?token=. Refused while the token is unset,
+ * since these endpoints are public and otherwise unauthenticated.
  */
-export const handleWebhook = asyncHandler(
-	async (req: Request, res: Response, next: NextFunction) => {
-		// Exotel webhook is no longer used - return 200 to prevent errors
-		logger.debug('Exotel webhook received but ignored (deprecated)', {
+function verifyExotelToken(req: Request, res: Response): boolean {
+	const expectedToken = process.env.EXOTEL_WEBHOOK_TOKEN;
+	if (!expectedToken) {
+		logger.error('EXOTEL_WEBHOOK_TOKEN is not configured; rejecting Exotel callback', {
 			correlationId: (req as any).correlationId,
 			service: 'admin-service',
 		});
+		res.status(503).send('Service Unavailable');
+		return false;
+	}
+
+	const provided = Buffer.from(typeof req.query.token === 'string' ? req.query.token : '');
+	const expected = Buffer.from(expectedToken);
+	if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+		res.status(401).send('Unauthorized');
+		return false;
+	}
+	return true;
+}
+
+/**
+ * Handle Exotel status callback: mirror the call status, then apply recording retention and
+ * call-pattern checks once the call is final.
+ * POST /api/v1/admin/calls/webhook?token=EXOTEL_WEBHOOK_TOKEN
+ */
+export const handleWebhook = asyncHandler(
+	async (req: Request, res: Response, next: NextFunction) => {
+		if (!verifyExotelToken(req, res)) return;
+
+		if (!process.env.EXOTEL_SUBDOMAIN || !req.body?.CallSid) {
+			logger.debug('Exotel webhook ignored', {
+				correlationId: (req as any).correlationId,
+				service: 'admin-service',
+			});
+			return res.status(200).send('OK');
+		}
+
+		await getExotelService().handleWebhook(req.body);
+
+		if (FINAL_CALL_STATUSES.includes(String(req.body.Status).toLowerCase())) {
+			try {
+				await callPolicyService.reviewCall(req.body.CallSid);
+			} catch (error: any) {
+				logger.error('Call review failed', {
+					callSid: req.body.CallSid,
+					error: error instanceof Error ? error.message : String(error),
+					correlationId: (req as any).correlationId,
+					service: 'admin-service',
+				});
+			}
+		}
+
 		return res.status(200).send('OK');
 	}
 );
 
+/**
+ * Exotel connect applet (dynamic URL): a party called their pair's virtual number.
+ * Responds with the number to connect as plain text, or an error status when the policy blocks the call.
+ * GET /api/v1/admin/calls/connect?CallSid=...&CallFrom=...&CallTo=...&token=EXOTEL_WEBHOOK_TOKEN
+ */
+export const connectInboundCall = asyncHandler(
+	async (req: Request, res: Response, next: NextFunction) => {
+		if (!verifyExotelToken(req, res)) return;
+
+		const callSid = String(req.query.CallSid || '');
+		const callFrom = String(req.query.CallFrom || '');
+		const callTo = String(req.query.CallTo || '');
+		if (!callSid || !callFrom || !callTo) {
+			return res.status(400).send('CallSid, CallFrom and CallTo are required');
+		}
+
+		const { decision, pair, destination } = await callPolicyService.routeInboundCall(callTo, callFrom);
+		if (!pair) {
+			return res.status(404).send('Not found');
+		}
+		if (!destination) {
+			return res.status(403).send(decision.message);
+		}
+
+		await getExotelService().logInboundCall({
+			callSid,
+			trainerId: pair.trainerId,
+			studentId: pair.studentId,
+			sessionId: decision.sessionId,
+			trainerPhone: pair.trainerPhone,
+			studentPhone: pair.studentPhone,
+			callerRole: pair.callerRole,
+			virtualNumber: callTo,
+		});
+
+		return res.status(200).type('text/plain').send(destination);
+	}
+);
+
 /**
  * Get call history for a trainer-student pair
  * GET /api/v1/admin/calls/history?trainerId=...&studentId=...
  */
 export const getCallHistory = asyncHandler(
 	async (req: Request, res: Response, next: NextFunction) => {
-		const userId = (req as any).user?.id;
-		const userRole = (req as any).user?.role;
+		const userId = (req as any).userId || (req as any).user?.id;
+		const userRole = (req as any).userRole || (req as any).user?.role;
 
 		if (!userId) {
 			return errorResponse(res, {
@@ -182,7 +333,8 @@ export const getCallHistory = asyncHandler(
 					status,
 					direction,
 					duration,
-					recording_url,
+					virtual_number,
+					(recording_url IS NOT NULL) AS has_recording,
 					start_time,
 					end_time,
 					created_at,
@@ -222,3 +374,137 @@ export const getCallHistory = asyncHandler(
 	}
 );
 
+/**
+ * Call volume and duration per trainer, with policy denials and safety flags
+ * GET /api/v1/admin/calls/reports/trainers?from=...&to=...&trainerId=...
+ */
+export const getTrainerCallReport = asyncHandler(
+	async (req: Request, res: Response, next: NextFunction) => {
+		const validationResult = trainerReportSchema.safeParse(req.query);
+		if (!validationResult.success) {
+			return errorResponse(res, {
+				statusCode: 400,
+				message: 'Invalid query parameters',
+				errors: validationResult.error.errors,
+			});
+		}
+
+		const { from, to, trainerId } = validationResult.data;
+		const report = await callPolicyService.getTrainerReport(from, to, trainerId ?? null);
+
+		return successResponse(res, {
+			message: 'Trainer call report retrieved successfully',
+			data: { from, to, trainers: report },
+		});
+	}
+);
+
+/**
+ * Call recording for QA/complaint review. A reason is required and every access is audited.
+ * GET /api/v1/admin/calls/:callSid/recording?reason=...
+ */
+export const getCallRecording = asyncHandler(
+	async (req: Request, res: Response, next: NextFunction) => {
+		const validationResult = recordingAccessSchema.safeParse(req.query);
+		if (!validationResult.success) {
+			return errorResponse(res, {
+				statusCode: 400,
+				message: 'A reason is required to access call recordings',
+				errors: validationResult.error.errors,
+			});
+		}
+
+		const { callSid } = req.params;
+		const call = await callPolicyService.getRecording(callSid);
+
+		await recordAdminAction(req, {
+			action: 'call.recording_access',
+			entityType: 'call',
+			entityId: callSid,
+			reason: validationResult.data.reason,
+			metadata: { trainerId: call.trainerId, studentId: call.studentId },
+		});
+
+		return successResponse(res, {
+			message: 'Call recording retrieved successfully',
+			data: {
+				callSid: call.callSid,
+				recordingUrl: call.recordingUrl,
+				recordingExpiresAt: call.recordingExpiresAt,
+			},
+		});
+	}
+);
+
+/**
+ * Virtual-number pool with the number of pairs on each number
+ * GET /api/v1/admin/calls/virtual-numbers
+ */
+export const listVirtualNumbers = asyncHandler(
+	async (req: Request, res: Response, next: NextFunction) => {
+		const numbers = await callPolicyService.listVirtualNumbers();
+
+		return successResponse(res, {
+			message: 'Virtual numbers retrieved successfully',
+			data: numbers,
+		});
+	}
+);
+
+/**
+ * Add (or reactivate) a virtual number in the pool
+ * POST /api/v1/admin/calls/virtual-numbers
+ */
+export const addVirtualNumber = asyncHandler(
+	async (req: Request, res: Response, next: NextFunction) => {
+		const validationResult = virtualNumberSchema.safeParse(req.body);
+		if (!validationResult.success) {
+			return errorResponse(res, {
+				statusCode: 400,
+				message: 'Invalid request data',
+				errors: validationResult.error.errors,
+			});
+		}
+
+		const before = await callPolicyService.getVirtualNumber(validationResult.data.number);
+		const after = await callPolicyService.addVirtualNumber(validationResult.data.number);
+
+		await recordAdminAction(req, {
+			action: 'call.virtual_number_add',
+			entityType: 'virtual_number',
+			entityId: after.number,
+			before,
+			after,
+		});
+
+		return successResponse(res, {
+			statusCode: 201,
+			message: 'Virtual number added',
+			data: after,
+		});
+	}
+);
+
+/**
+ * Retire a virtual number; its pairs are reassigned on their next call
+ * DELETE /api/v1/admin/calls/virtual-numbers/:number
+ */
+export const deactivateVirtualNumber = asyncHandler(
+	async (req: Request, res: Response, next: NextFunction) => {
+		const before = await callPolicyService.getVirtualNumber(req.params.number);
+		const after = await callPolicyService.deactivateVirtualNumber(req.params.number);
+
+		await recordAdminAction(req, {
+			action: 'call.virtual_number_deactivate',
+			entityType: 'virtual_number',
+			entityId: after.number,
+			before,
+			after,
+		});
+
+		return successResponse(res, {
+			message: 'Virtual number deactivated',
+			data: after,
+		});
+	}
+);
@@ -0,0 +1,107 @@
+import { Request, Response } from 'express';
+import { successResponse, errorResponse } from '@kodingcaravan/shared/utils/responseBuilder';
+import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
+import { z } from 'zod';
+import { DeadLetterService } from '../services/deadLetter.service';
+
+const deadLetterService = new DeadLetterService();
+
+const filterSchema = z.object({
+  eventId: z.string().trim().min(1).optional(),
+  correlationId: z.string().trim().min(1).optional(),
+  eventType: z.string().trim().min(1).optional(),
+  failureReason: z.string().trim().min(1).optional(),
+  originalTopic: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().positive().max(1000).optional(),
+});
+
+const replayOptionsSchema = z.object({
+  dryRun: z.boolean().optional(),
+  force: z.boolean().optional(),
+});
+
+const bulkReplaySchema = filterSchema.merge(replayOptionsSchema).extend({
+  all: z.boolean().optional(), // Required to replay without any filter
+});
+
+function toFilter(parsed: z.infer<typeof filterSchema>) {
+  return Object.fromEntries(Object.entries(parsed).filter(([, value]) => value !== undefined));
+}
+
+export class DeadLetterController {
+  /**
+   * List DLQ messages
+   * GET /api/v1/admin/dlq/messages?eventType=PURCHASE_CONFIRMED&failureReason=timeout&limit=50
+   */
+  static list = asyncHandler(async (req: Request, res: Response) => {
+    const filter = toFilter(filterSchema.parse(req.query));
+    const messages = await deadLetterService.list(filter);
+
+    return successResponse(res, {
+      message: 'DLQ messages retrieved successfully',
+      data: messages,
+    });
+  });
+
+  /**
+   * Inspect one DLQ message including the original event payload
+   * GET /api/v1/admin/dlq/messages/:eventId
+   */
+  static get = asyncHandler(async (req: Request, res: Response) => {
+    const entry = await deadLetterService.get(req.params.eventId as string);
+
+    return successResponse(res, {
+      message: 'DLQ message retrieved successfully',
+      data: entry,
+    });
+  });
+
+  /**
+   * Replay one DLQ message to its original topic
+   * POST /api/v1/admin/dlq/messages/:eventId/replay { dryRun?, force? }
+   */
+  static replay = asyncHandler(async (req: Request, res: Response) => {
+    const adminId = (req as any).adminId || (req as any).userId;
+    const options = replayOptionsSchema.parse(req.body ?? {});
+    const result = await deadLetterService.replay(req.params.eventId as string, options, adminId);
+
+    return successResponse(res, {
+      message: result.outcome === 'skipped_processed'
+        ? 'Event already processed; use force to replay anyway'
+        : options.dryRun ? 'Dry run: message would be replayed' : 'DLQ message replayed',
+      data: result,
+    });
+  });
+
+  /**
+   * Replay every DLQ message matching a filter
+   * POST /api/v1/admin/dlq/replay { eventType?, correlationId?, failureReason?, originalTopic?, limit?, dryRun?, force?, all? }
+   */
+  static replayBulk = asyncHandler(async (req: Request, res: Response) => {
+    const adminId = (req as any).adminId || (req as any).userId;
+    const { dryRun, force, all, ...rest } = bulkReplaySchema.parse(req.body ?? {});
+    const filter = toFilter(rest);
+
+    const hasFilter = Object.keys(filter).some((key) => key !== 'limit');
+    if (!hasFilter && !all) {
+      return errorResponse(res, {
+        statusCode: 400,
+        message: 'Provide at least one filter, or set all=true to replay the whole DLQ',
+      });
+    }
+
+    const summary = await deadLetterService.replayMany(
+      filter,
+      {
+        ...(dryRun !== undefined ? { dryRun } : {}),
+        ...(force !== undefined ? { force } : {}),
+      },
+      adminId
+    );
+
+    return successResponse(res, {
+      message: summary.dryRun ? 'Dry run completed' : 'DLQ replay completed',
+      data: summary,
+    });
+  });
+}
@@ -0,0 +1,170 @@
+import { Request, Response } from 'express';
+import { successResponse, errorResponse } from '@kodingcaravan/shared/utils/responseBuilder';
+import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
+import { faceVerificationService } from '../services/faceVerification.service';
+import { SessionService } from '../services/session.service';
+import { recordAdminAction } from '../services/auditLog.service';
+import { z } from 'zod';
+
+const sessionService = new SessionService();
+
+const listAttemptsSchema = z.object({
+	reviewStatus: z.enum(['not_required', 'pending', 'approved', 'rejected']).optional(),
+	outcome: z.enum(['passed', 'borderline', 'failed']).optional(),
+	trainerId: z.string().uuid().optional(),
+	sessionId: z.string().uuid().optional(),
+	limit: z.coerce.number().int().min(1).max(200).optional(),
+	offset: z.coerce.number().int().min(0).optional(),
+});
+
+const reviewAttemptSchema = z.object({
+	decision: z.enum(['approved', 'rejected']),
+	notes: z.string().trim().max(1000).optional().nullable(),
+});
+
+const thresholdsSchema = z.object({
+	matchThreshold: z.number().min(0).max(100),
+	reviewMargin: z.number().min(0).max(100),
+	livenessThreshold: z.number().min(0).max(100),
+	requireLiveness: z.boolean(),
+});
+
+export class FaceVerificationController {
+	/**
+	 * List face verification attempts (review queue with ?reviewStatus=pending)
+	 * GET /api/v1/admin/face-verifications
+	 */
+	static listAttempts = asyncHandler(async (req: Request, res: Response) => {
+		const query = listAttemptsSchema.parse(req.query);
+
+		const result = await faceVerificationService.listAttempts(query);
+
+		return successResponse(res, {
+			message: 'Face verification attempts retrieved successfully',
+			data: result,
+		});
+	});
+
+	/**
+	 * Get one attempt, including the selfie and liveness frames while they are retained
+	 * GET /api/v1/admin/face-verifications/:id
+	 */
+	static getAttempt = asyncHandler(async (req: Request, res: Response) => {
+		const attempt = await faceVerificationService.getAttempt(req.params.id);
+
+		return successResponse(res, {
+			message: 'Face verification attempt retrieved successfully',
+			data: attempt,
+		});
+	});
+
+	/**
+	 * Approve (overturn) or reject (uphold) a failed or borderline attempt.
+	 * Approving lets the session continue to the student OTP step if GPS also passed.
+	 * POST /api/v1/admin/face-verifications/:id/review
+	 */
+	static reviewAttempt = asyncHandler(async (req: Request, res: Response) => {
+		const { id } = req.params;
+		const body = reviewAttemptSchema.parse(req.body);
+		const adminId = (req as any).adminId;
+
+		if (!adminId) {
+			return errorResponse(res, {
+				statusCode: 401,
+				message: 'Admin authentication required',
+			});
+		}
+
+		const { before, after } = await faceVerificationService.reviewAttempt(id, body.decision, adminId, body.notes ?? null);
+
+		const session = body.decision === 'approved' ? await sessionService.applyFaceReviewApproval(after.sessionId) : null;
+
+		await recordAdminAction(req, {
+			action: 'face_verification.review',
+			entityType: 'face_verification_attempt',
+			entityId: id,
+			before,
+			after,
+			reason: body.notes ?? null,
+			metadata: {
+				decision: body.decision,
+				sessionId: after.sessionId,
+				sessionVerified: session?.verificationPassed ?? null,
+			},
+		});
+
+		return successResponse(res, {
+			message: body.decision === 'approved' ? 'Face verification approved' : 'Face verification rejected',
+			data: { attempt: after, session },
+		});
+	});
+
+	/**
+	 * Default thresholds and per-city overrides
+	 * GET /api/v1/admin/face-verifications/thresholds
+	 */
+	static listThresholds = asyncHandler(async (_req: Request, res: Response) => {
+		const thresholds = await faceVerificationService.listCityThresholds();
+
+		return successResponse(res, {
+			message: 'Face verification thresholds retrieved successfully',
+			data: thresholds,
+		});
+	});
+
+	/**
+	 * Set a city's thresholds
+	 * PUT /api/v1/admin/face-verifications/thresholds/:cityId
+	 */
+	static setThresholds = asyncHandler(async (req: Request, res: Response) => {
+		const { cityId } = req.params;
+		const body = thresholdsSchema.parse(req.body);
+
+		const before = await faceVerificationService.getCityThresholds(cityId);
+		const after = await faceVerificationService.setCityThresholds(cityId, body, (req as any).adminId ?? null);
+
+		await recordAdminAction(req, {
+			action: 'face_verification.thresholds_update',
+			entityType: 'city',
+			entityId: cityId,
+			before,
+			after,
+		});
+
+		return successResponse(res, {
+			message: 'Face verification thresholds updated',
+			data: after,
+		});
+	});
+
+	/**
+	 * Remove a city's override so it falls back to the defaults
+	 * DELETE /api/v1/admin/face-verifications/thresholds/:cityId
+	 */
+	static clearThresholds = asyncHandler(async (req: Request, res: Response) => {
+		const { cityId } = req.params;
+
+		const before = await faceVerificationService.getCityThresholds(cityId);
+		if (!before) {
+			return errorResponse(res, {
+				statusCode: 404,
+				message: 'City has no face verification threshold override',
+			});
+		}
+
+		await faceVerificationService.clearCityThresholds(cityId);
+
+		await recordAdminAction(req, {
+			action: 'face_verification.thresholds_clear',
+			entityType: 'city',
+			entityId: cityId,
+			before,
+			after: null,
+		});
+
+		return successResponse(res, {
+			message: 'Face verification thresholds reset to defaults',
+			data: null,
+		});
+	});
+}
@@ -0,0 +1,104 @@
+import { Request, Response } from 'express';
+import { successResponse, errorResponse } from '@kodingcaravan/shared/utils/responseBuilder';
+import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
+import { geofenceService } from '../services/geofence.service';
+import { recordAdminAction } from '../services/auditLog.service';
+import { z } from 'zod';
+
+const zoneSettingSchema = z.object({
+	areaType: z.enum(['urban', 'suburban', 'rural']).optional().nullable(),
+	radiusMeters: z.number().int().min(25).max(1000).optional().nullable(),
+	exitBufferMeters: z.number().int().min(0).max(500).optional().nullable(),
+});
+
+export class GeofenceController {
+	/**
+	 * Per-zone geofence overrides
+	 * GET /api/v1/admin/geofences/zones
+	 */
+	static listZoneSettings = asyncHandler(async (_req: Request, res: Response) => {
+		const settings = await geofenceService.listZoneSettings();
+
+		return successResponse(res, {
+			message: 'Zone geofence settings retrieved successfully',
+			data: settings,
+		});
+	});
+
+	/**
+	 * Set a zone's area type and/or radius. Applies to sessions whose geofence is resolved afterwards.
+	 * PUT /api/v1/admin/geofences/zones/:zoneId
+	 */
+	static setZoneSetting = asyncHandler(async (req: Request, res: Response) => {
+		const { zoneId } = req.params;
+		const body = zoneSettingSchema.parse(req.body);
+
+		const before = await geofenceService.getZoneSetting(zoneId);
+		const after = await geofenceService.setZoneSetting(
+			zoneId,
+			{
+				areaType: body.areaType ?? null,
+				radiusMeters: body.radiusMeters ?? null,
+				exitBufferMeters: body.exitBufferMeters ?? null,
+			},
+			(req as any).adminId ?? null
+		);
+
+		await recordAdminAction(req, {
+			action: 'geofence.zone_update',
+			entityType: 'zone',
+			entityId: zoneId,
+			before,
+			after,
+		});
+
+		return successResponse(res, {
+			message: 'Zone geofence setting updated',
+			data: after,
+		});
+	});
+
+	/**
+	 * Remove a zone override (falls back to area type inferred from zone size)
+	 * DELETE /api/v1/admin/geofences/zones/:zoneId
+	 */
+	static clearZoneSetting = asyncHandler(async (req: Request, res: Response) => {
+		const { zoneId } = req.params;
+
+		const before = await geofenceService.getZoneSetting(zoneId);
+		if (!before) {
+			return errorResponse(res, {
+				statusCode: 404,
+				message: 'Zone has no geofence override',
+			});
+		}
+
+		await geofenceService.clearZoneSetting(zoneId);
+
+		await recordAdminAction(req, {
+			action: 'geofence.zone_clear',
+			entityType: 'zone',
+			entityId: zoneId,
+			before,
+			after: null,
+		});
+
+		return successResponse(res, {
+			message: 'Zone geofence override removed',
+			data: null,
+		});
+	});
+
+	/**
+	 * Session geofence, enter/exit events and presence flag
+	 * GET /api/v1/admin/geofences/sessions/:sessionId
+	 */
+	static getSessionPresence = asyncHandler(async (req: Request, res: Response) => {
+		const presence = await geofenceService.getSessionPresence(req.params.sessionId);
+
+		return successResponse(res, {
+			message: 'Session presence retrieved successfully',
+			data: presence,
+		});
+	});
+}
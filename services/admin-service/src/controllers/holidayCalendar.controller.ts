@@ -0,0 +1,194 @@
+import { Request, Response } from 'express';
+import { successResponse, errorResponse } from '@kodingcaravan/shared/utils/responseBuilder';
+import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
+import {
+	CALENDAR_BLOCK_KINDS,
+	CALENDAR_BLOCK_SCOPES,
+	type CalendarBlockKind,
+	type CalendarBlockScope,
+} from '@kodingcaravan/shared/utils/blackoutCalendar';
+import { holidayCalendarService } from '../services/holidayCalendar.service';
+import { z } from 'zod';
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+const timeString = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected HH:MM');
+
+const createBlockSchema = z
+	.object({
+		scope: z.enum(CALENDAR_BLOCK_SCOPES as [string, ...string[]]),
+		scopeRef: z.string().trim().min(1).max(200).optional().nullable(),
+		kind: z.enum(CALENDAR_BLOCK_KINDS as [string, ...string[]]).default('holiday'),
+		name: z.string().trim().min(1).max(200),
+		startDate: dateString,
+		endDate: dateString.optional(),
+		notes: z.string().max(1000).optional().nullable(),
+	})
+	.refine((body) => (body.scope === 'national') === !body.scopeRef, {
+		message: 'scopeRef is required for state, city, franchise and trainer blocks, and not allowed for national ones',
+		path: ['scopeRef'],
+	})
+	.refine((body) => body.scope === 'national' || body.scope === 'state' || z.string().uuid().safeParse(body.scopeRef).success, {
+		message: 'scopeRef must be a UUID for city, franchise and trainer blocks',
+		path: ['scopeRef'],
+	})
+	.refine((body) => (body.kind === 'trainer_leave') === (body.scope === 'trainer'), {
+		message: 'trainer_leave blocks must use the trainer scope',
+		path: ['kind'],
+	});
+
+const listBlocksSchema = z.object({
+	scope: z.enum(CALENDAR_BLOCK_SCOPES as [string, ...string[]]).optional(),
+	scopeRef: z.string().optional(),
+	kind: z.enum(CALENDAR_BLOCK_KINDS as [string, ...string[]]).optional(),
+	from: dateString.optional(),
+	to: dateString.optional(),
+	includeInactive: z.enum(['true', 'false']).optional(),
+	limit: z.coerce.number().int().min(1).max(500).optional(),
+	offset: z.coerce.number().int().min(0).optional(),
+});
+
+const listProposalsSchema = z.object({
+	status: z.enum(['pending', 'applied', 'dismissed']).optional(),
+	blockId: z.string().uuid().optional(),
+	trainerId: z.string().uuid().optional(),
+	limit: z.coerce.number().int().min(1).max(500).optional(),
+	offset: z.coerce.number().int().min(0).optional(),
+});
+
+const applyProposalSchema = z.object({
+	date: dateString.optional(),
+	time: timeString.optional(),
+});
+
+export class HolidayCalendarController {
+	/**
+	 * Add a holiday, exam blackout or trainer leave
+	 * POST /api/v1/admin/calendar/blocks
+	 */
+	static createBlock = asyncHandler(async (req: Request, res: Response) => {
+		const body = createBlockSchema.parse(req.body);
+
+		const block = await holidayCalendarService.createBlock({
+			scope: body.scope as CalendarBlockScope,
+			scopeRef: body.scope === 'national' ? null : body.scopeRef!,
+			kind: body.kind as CalendarBlockKind,
+			name: body.name,
+			startDate: body.startDate,
+			endDate: body.endDate ?? body.startDate,
+			notes: body.notes ?? null,
+			createdBy: (req as any).adminId ?? null,
+		});
+
+		return successResponse(res, {
+			statusCode: 201,
+			message: 'Calendar block created; affected sessions will get reschedule proposals',
+			data: block,
+		});
+	});
+
+	/**
+	 * List calendar blocks
+	 * GET /api/v1/admin/calendar/blocks
+	 */
+	static listBlocks = asyncHandler(async (req: Request, res: Response) => {
+		const query = listBlocksSchema.parse(req.query);
+
+		const blocks = await holidayCalendarService.listBlocks({
+			...(query.scope && { scope: query.scope as CalendarBlockScope }),
+			...(query.scopeRef && { scopeRef: query.scopeRef }),
+			...(query.kind && { kind: query.kind as CalendarBlockKind }),
+			...(query.from && { from: query.from }),
+			...(query.to && { to: query.to }),
+			includeInactive: query.includeInactive === 'true',
+			...(query.limit !== undefined && { limit: query.limit }),
+			...(query.offset !== undefined && { offset: query.offset }),
+		});
+
+		return successResponse(res, {
+			message: 'Calendar blocks retrieved successfully',
+			data: blocks,
+		});
+	});
+
+	/**
+	 * Remove a calendar block
+	 * DELETE /api/v1/admin/calendar/blocks/:id
+	 */
+	static removeBlock = asyncHandler(async (req: Request, res: Response) => {
+		const result = await holidayCalendarService.removeBlock(req.params.id, (req as any).adminId);
+
+		return successResponse(res, {
+			message: 'Calendar block removed',
+			data: result,
+		});
+	});
+
+	/**
+	 * List reschedule proposals for sessions on blocked dates
+	 * GET /api/v1/admin/calendar/reschedule-proposals
+	 */
+	static listProposals = asyncHandler(async (req: Request, res: Response) => {
+		const query = listProposalsSchema.parse(req.query);
+
+		const proposals = await holidayCalendarService.listProposals({
+			status: query.status ?? 'pending',
+			...(query.blockId && { blockId: query.blockId }),
+			...(query.trainerId && { trainerId: query.trainerId }),
+			...(query.limit !== undefined && { limit: query.limit }),
+			...(query.offset !== undefined && { offset: query.offset }),
+		});
+
+		return successResponse(res, {
+			message: 'Reschedule proposals retrieved successfully',
+			data: proposals,
+		});
+	});
+
+	/**
+	 * Run the reschedule proposal scan now instead of waiting for the job
+	 * POST /api/v1/admin/calendar/reschedule-proposals/scan
+	 */
+	static scanProposals = asyncHandler(async (_req: Request, res: Response) => {
+		const result = await holidayCalendarService.scanForRescheduleProposals();
+
+		return successResponse(res, {
+			message: 'Reschedule proposal scan completed',
+			data: result,
+		});
+	});
+
+	/**
+	 * Move the session to the proposed (or given) date
+	 * POST /api/v1/admin/calendar/reschedule-proposals/:id/apply
+	 */
+	static applyProposal = asyncHandler(async (req: Request, res: Response) => {
+		const adminId = (req as any).adminId;
+		if (!adminId) {
+			return errorResponse(res, {
+				statusCode: 401,
+				message: 'Admin authentication required',
+			});
+		}
+		const body = applyProposalSchema.parse(req.body ?? {});
+
+		const proposal = await holidayCalendarService.applyProposal(req.params.id, adminId, body);
+
+		return successResponse(res, {
+			message: 'Session rescheduled',
+			data: proposal,
+		});
+	});
+
+	/**
+	 * Keep the session where it is
+	 * POST /api/v1/admin/calendar/reschedule-proposals/:id/dismiss
+	 */
+	static dismissProposal = asyncHandler(async (req: Request, res: Response) => {
+		const proposal = await holidayCalendarService.dismissProposal(req.params.id, (req as any).adminId);
+
+		return successResponse(res, {
+			message: 'Reschedule proposal dismissed',
+			data: proposal,
+		});
+	});
+}
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { successResponse, errorResponse } from '@kodingcaravan/shared/utils/responseBuilder';
 import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
 import { JourneyService } from '../services/journey.service';
+import { geofenceService } from '../services/geofence.service';
 import { JourneyRepository } from '../models/journey.model';
 import { getPool } from '../config/database';
 import { SessionRepository } from '../models/session.model';
@@ -134,22 +135,24 @@ export const markArrived = asyncHandler(async (req: Request, res: Response): Pro
 		return;
 	}
 
+	// Manual arrival allows for GPS drift: geofence radius plus its exit buffer
+	const geofence = await geofenceService.getSessionGeofence(session);
 	const result = await journeyService.markArrived(
 		journeyId,
 		trainerId,
 		session.studentHomeLocation.latitude,
 		session.studentHomeLocation.longitude,
-		150
+		geofence ? geofence.radiusMeters + geofence.exitBufferMeters : 150
 	);
 	successResponse(res, { statusCode: 200, message: 'Arrived', data: result });
 });
 
 /**
  * GET /journeys/:journeyId/live
- * Get live location for a journey (student only). Used by WebSocket or single GET.
+ * Get live location for a journey (student, or a guardian linked to the student). Used by WebSocket or single GET.
  */
 export const getLiveLocation = asyncHandler(async (req: Request, res: Response): Promise<void> => {
-	const studentId = (req as any).studentId ?? (req as any).userId;
+	let studentId = (req as any).studentId ?? (req as any).userId;
 	if (!studentId) {
 		errorResponse(res, { statusCode: 401, message: 'Student authentication required' });
 		return;
@@ -161,6 +164,14 @@ export const getLiveLocation = asyncHandler(async (req: Request, res: Response):
 		return;
 	}
 
+	if ((req as any).userRole === 'guardian') {
+		studentId = await journeyService.resolveGuardianJourneyStudent(journeyId, studentId);
+		if (!studentId) {
+			errorResponse(res, { statusCode: 403, message: 'Access denied to this journey' });
+			return;
+		}
+	}
+
 	const result = await journeyService.getLiveLocation(journeyId, studentId);
 	if (result === null) {
 		errorResponse(res, { statusCode: 403, message: 'Access denied to this journey' });
@@ -257,3 +268,45 @@ export const getJourneyStatusForSession = asyncHandler(async (req: Request, res:
 
 	successResponse(res, { statusCode: 200, message: 'Journey status', data: { status: 'ENDED' as JourneyStatusEnum } });
 });
+
+const listAlertsSchema = z.object({
+	journeyId: z.string().uuid().optional(),
+	trainerId: z.string().uuid().optional(),
+	type: z.enum(['late_arrival', 'long_stop', 'route_deviation']).optional(),
+	since: z.string().datetime().optional(),
+	limit: z.coerce.number().int().min(1).max(500).optional(),
+	offset: z.coerce.number().int().min(0).optional(),
+});
+
+/**
+ * GET /journeys/alerts
+ * Late-arrival, long-stop and route-deviation alerts, newest first (ops desk).
+ */
+export const listJourneyAlerts = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+	const parsed = listAlertsSchema.safeParse(req.query);
+	if (!parsed.success) {
+		errorResponse(res, { statusCode: 400, message: 'Invalid query', errors: parsed.error.flatten() });
+		return;
+	}
+
+	const alerts = await journeyService.listAlerts({
+		...parsed.data,
+		since: parsed.data.since ? new Date(parsed.data.since) : undefined,
+	});
+	successResponse(res, { statusCode: 200, message: 'Journey alerts', data: alerts });
+});
+
+/**
+ * GET /journeys/:journeyId/breadcrumbs
+ * Persisted trail of an ended journey (ops desk).
+ */
+export const getJourneyBreadcrumbs = asyncHandler(async (req: Request, res: Response): Promise<void> => {
+	const journeyId = req.params.journeyId;
+	if (!journeyId) {
+		errorResponse(res, { statusCode: 400, message: 'journeyId is required' });
+		return;
+	}
+
+	const breadcrumbs = await journeyService.getBreadcrumbs(journeyId);
+	successResponse(res, { statusCode: 200, message: 'Journey breadcrumbs', data: breadcrumbs });
+});
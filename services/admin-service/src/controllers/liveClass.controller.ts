@@ -0,0 +1,35 @@
+import { Request, Response } from 'express';
+import { successResponse } from '@kodingcaravan/shared/utils/responseBuilder';
+import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
+import { liveClassService } from '../services/liveClass.service';
+
+export class LiveClassController {
+	/**
+	 * LiveKit webhook (room, participant and egress events). Authenticated by LiveKit's signed
+	 * Authorization header, so the body arrives raw (see app.ts).
+	 * POST /api/v1/admin/live-classes/webhook
+	 */
+	static handleWebhook = asyncHandler(async (req: Request, res: Response) => {
+		const rawBody = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+
+		const result = await liveClassService.handleWebhook(rawBody, req.get('Authorization'));
+
+		return successResponse(res, {
+			message: result.handled ? 'LiveKit webhook processed' : 'LiveKit webhook ignored',
+			data: result,
+		});
+	});
+
+	/**
+	 * Room lifecycle, per-participant attendance and recordings for an online session
+	 * GET /api/v1/admin/live-classes/sessions/:sessionId
+	 */
+	static getSessionAttendance = asyncHandler(async (req: Request, res: Response) => {
+		const attendance = await liveClassService.getSessionAttendance(req.params.sessionId);
+
+		return successResponse(res, {
+			message: 'Live class attendance retrieved successfully',
+			data: attendance,
+		});
+	});
+}
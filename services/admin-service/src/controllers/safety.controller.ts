@@ -2,11 +2,14 @@ import { Request, Response, NextFunction } from 'express';
 import { AppError } from '@kodingcaravan/shared';
 import {
 	reportSafetyIncident,
+	reportModerationIncident,
 	getSafetyIncidentById,
 	getMySafetyIncidents,
 	getAllSafetyIncidents,
 	updateSafetyIncidentStatus,
 } from '../services/safety.service';
+import { findSafetyIncidentById } from '../models/safetyIncident.model';
+import { recordAdminAction } from '../services/auditLog.service';
 
 export async function createIncident(req: Request, res: Response, next: NextFunction): Promise<void> {
 	try {
@@ -52,6 +55,39 @@ export async function createIncident(req: Request, res: Response, next: NextFunc
 	}
 }
 
+export async function createModerationIncident(req: Request, res: Response, next: NextFunction): Promise<void> {
+	try {
+		const { userId, userRole, description, severity, metadata } = req.body || {};
+
+		if (!userId || !description) {
+			throw new AppError('userId and description are required', 400);
+		}
+
+		if (!['student', 'trainer', 'admin'].includes(userRole)) {
+			throw new AppError('userRole must be student, trainer or admin', 400);
+		}
+
+		const incident = await reportModerationIncident({
+			userId,
+			userRole,
+			description,
+			severity: (['low', 'medium', 'high', 'critical'].includes(severity) ? severity : 'medium') as 'low' | 'medium' | 'high' | 'critical',
+			metadata: {
+				...(metadata || {}),
+				escalatedBy: (req as any).adminId,
+			},
+		});
+
+		res.status(201).json({
+			success: true,
+			message: 'Moderation incident created successfully',
+			data: incident,
+		});
+	} catch (error) {
+		next(error);
+	}
+}
+
 export async function getIncident(req: Request, res: Response, next: NextFunction): Promise<void> {
 	try {
 		const { id } = req.params;
@@ -128,8 +164,21 @@ export async function updateIncident(req: Request, res: Response, next: NextFunc
 		const { status, notes } = req.body || {};
 		const adminId = (req as any).adminId || (req as any).userId;
 
+		const isAdmin = !!(req as any).adminId;
+		const before = isAdmin ? await findSafetyIncidentById(id) : null;
 		const incident = await updateSafetyIncidentStatus(id, { status, notes }, adminId);
 
+		if (isAdmin) {
+			await recordAdminAction(req, {
+				action: 'safety_incident.update',
+				entityType: 'safety_incident',
+				entityId: id,
+				before,
+				after: incident,
+				reason: typeof notes === 'string' ? notes : null,
+			});
+		}
+
 		res.status(200).json({
 			success: true,
 			message: 'Safety incident updated successfully',
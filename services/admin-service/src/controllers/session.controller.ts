@@ -35,6 +35,8 @@ const startSessionSchema = z.object({
 	}),
 	faceVerificationImage: z.string(), // Base64 encoded image
 	faceVerificationMethod: z.enum(['selfie', 'video']).optional(),
+	livenessChallengeId: z.string().uuid().optional().nullable(),
+	livenessFrames: z.array(z.string()).max(8).optional().nullable(),
 });
 
 const endSessionSchema = z.object({
@@ -74,6 +76,31 @@ export class SessionController {
 		});
 	});
 
+	/**
+	 * Issue a liveness challenge (prompts to film) for starting the session
+	 * POST /api/v1/admin/sessions/:sessionId/face-challenge
+	 */
+	static issueFaceChallenge = asyncHandler(async (req: Request, res: Response) => {
+		const { sessionId } = req.params;
+
+		// Get trainer ID from request (set by auth middleware)
+		const trainerId = (req as any).trainerId || (req as any).userId;
+		if (!trainerId) {
+			return errorResponse(res, {
+				statusCode: 401,
+				message: 'Trainer authentication required',
+			});
+		}
+
+		const challenge = await sessionService.issueFaceChallenge(sessionId, trainerId);
+
+		return successResponse(res, {
+			statusCode: 201,
+			message: 'Liveness challenge issued',
+			data: challenge,
+		});
+	});
+
 	/**
 	 * Start session with GPS + Face verification
 	 * POST /api/v1/admin/sessions/:sessionId/start
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { successResponse, errorResponse } from '@kodingcaravan/shared/utils/responseBuilder';
 import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
 import { trainerApprovalService } from '../services/trainerApproval.service';
+import { recordAdminAction } from '../services/auditLog.service';
 
 export class TrainerApprovalController {
 	/**
@@ -63,8 +64,17 @@ export class TrainerApprovalController {
 			});
 		}
 
+		const before = await trainerApprovalService.getApprovalSnapshot(trainerId);
 		const trainer = await trainerApprovalService.approveTrainer(trainerId, adminId);
 
+		await recordAdminAction(req, {
+			action: 'trainer.approve',
+			entityType: 'trainer',
+			entityId: trainerId,
+			before,
+			after: await trainerApprovalService.getApprovalSnapshot(trainerId),
+		});
+
 		return successResponse(res, {
 			message: 'Trainer application approved successfully',
 			data: trainer,
@@ -87,8 +97,18 @@ export class TrainerApprovalController {
 			});
 		}
 
+		const before = await trainerApprovalService.getApprovalSnapshot(trainerId);
 		const trainer = await trainerApprovalService.rejectTrainer(trainerId, adminId, reason);
 
+		await recordAdminAction(req, {
+			action: 'trainer.reject',
+			entityType: 'trainer',
+			entityId: trainerId,
+			before,
+			after: await trainerApprovalService.getApprovalSnapshot(trainerId),
+			reason: reason ?? null,
+		});
+
 		return successResponse(res, {
 			message: 'Trainer application rejected successfully',
 			data: trainer,
@@ -0,0 +1,52 @@
+import { Request, Response } from 'express';
+import { successResponse, errorResponse } from '@kodingcaravan/shared/utils/responseBuilder';
+import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
+import { trainerSessionService } from '../services/trainerSession.service';
+
+export class TrainerSessionController {
+	/**
+	 * List a trainer's active login sessions
+	 * GET /api/v1/admin/trainers/:trainerId/sessions
+	 */
+	static listSessions = asyncHandler(async (req: Request, res: Response) => {
+		const { trainerId } = req.params;
+
+		const sessions = await trainerSessionService.listSessions(trainerId);
+
+		return successResponse(res, {
+			message: 'Trainer sessions retrieved successfully',
+			data: sessions,
+		});
+	});
+
+	/**
+	 * Sign a (compromised) trainer account out on all devices
+	 * POST /api/v1/admin/trainers/:trainerId/force-logout
+	 */
+	static forceLogout = asyncHandler(async (req: Request, res: Response) => {
+		const { trainerId } = req.params;
+		const { reason } = req.body ?? {};
+		const adminId = (req as any).adminId;
+
+		if (!adminId) {
+			return errorResponse(res, {
+				statusCode: 401,
+				message: 'Admin authentication required',
+			});
+		}
+
+		if (reason !== undefined && typeof reason !== 'string') {
+			return errorResponse(res, {
+				statusCode: 400,
+				message: 'reason must be a string',
+			});
+		}
+
+		const result = await trainerSessionService.forceLogout(trainerId, adminId, reason);
+
+		return successResponse(res, {
+			message: 'Trainer signed out on all devices',
+			data: result,
+		});
+	});
+}
@@ -3,8 +3,16 @@ import { getServicePortSync } from '@kodingcaravan/shared';
 import logger, { logServiceStart } from '@kodingcaravan/shared/config/logger';
 import { createServer } from 'http';
 import app from './app';
-import { initializeAdminAuth } from './config/database';
+import { OutboxRelay } from '@kodingcaravan/shared/events/outbox';
+import { getPool, initializeAdminAuth } from './config/database';
 import { initializeSocketServer } from './socket/socketServer';
+import { scheduleCalendarRescheduleProposals } from './jobs/calendarRescheduleProposals';
+import { scheduleAnalyticsRollups } from './jobs/analyticsRollups';
+import { scheduleFaceImageRetention } from './jobs/faceImageRetention';
+import { scheduleLiveClassFinalizer } from './jobs/liveClassFinalizer';
+import { scheduleCallRecordingRetention } from './jobs/callRecordingRetention';
+
+let outboxRelay: OutboxRelay | null = null;
 
 async function start(): Promise<void> {
 	try {
@@ -29,6 +37,18 @@ async function start(): Promise<void> {
 			// This allows the service to start even if DB init is slow or fails
 			setImmediate(() => {
 				initializeAdminAuth()
+					// Jobs need the tables created above
+					.then(() => {
+						// Publish committed outbox events to Kafka (and Redis Pub/Sub for the session events)
+						outboxRelay = new OutboxRelay({ pool: getPool() });
+						outboxRelay.start();
+
+						scheduleCalendarRescheduleProposals();
+						scheduleAnalyticsRollups();
+						scheduleFaceImageRetention();
+						scheduleLiveClassFinalizer();
+						scheduleCallRecordingRetention();
+					})
 					.catch((error: any) => {
 						logger.warn('Database initialization failed (service will continue)', { 
 							service: 'admin-service',
@@ -77,6 +97,7 @@ async function start(): Promise<void> {
 		// Graceful shutdown handler
 		const gracefulShutdown = (signal: string) => {
 			logger.info(`Received ${signal}, starting graceful shutdown`, { service: 'admin-service' });
+			outboxRelay?.stop();
 			
 			// Stop accepting new connections
 			httpServer.close(() => {
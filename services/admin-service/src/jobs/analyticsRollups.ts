@@ -0,0 +1,64 @@
+import logger from '@kodingcaravan/shared/config/logger';
+import { dashboardService, rollupDate } from '../services/dashboard.service';
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+// Sessions get confirmed or disputed and reviews arrive days after the class, so recent days are rebuilt every run
+const DEFAULT_LOOKBACK_DAYS = 7;
+
+function getNumericEnv(name: string, fallback: number): number {
+	const raw = process.env[name];
+	if (!raw) {
+		return fallback;
+	}
+
+	const parsed = Number(raw);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Periodically rebuild the operations dashboard rollups for the trailing days
+ */
+export function scheduleAnalyticsRollups(): void {
+	const flag = (process.env.ENABLE_ANALYTICS_ROLLUPS || 'true').toLowerCase();
+	if (flag === 'false' || flag === '0') {
+		logger.info('Analytics rollup job disabled via configuration', { service: 'admin-service' });
+		return;
+	}
+
+	const intervalMinutes = getNumericEnv('ANALYTICS_ROLLUP_INTERVAL_MINUTES', DEFAULT_INTERVAL_MINUTES);
+	const lookbackDays = getNumericEnv('ANALYTICS_ROLLUP_LOOKBACK_DAYS', DEFAULT_LOOKBACK_DAYS);
+
+	let running = false;
+	const execute = async () => {
+		if (running) {
+			return;
+		}
+		running = true;
+		try {
+			const result = await dashboardService.refreshRollups(rollupDate(-(lookbackDays - 1)), rollupDate());
+			if (result) {
+				logger.info('Analytics rollups refreshed', { ...result, service: 'admin-service' });
+			}
+		} catch (error) {
+			logger.error('Analytics rollup refresh failed', {
+				error: error instanceof Error ? error.message : String(error),
+				service: 'admin-service',
+			});
+		} finally {
+			running = false;
+		}
+	};
+
+	// Run once on startup without blocking
+	void execute();
+
+	setInterval(() => {
+		void execute();
+	}, intervalMinutes * 60 * 1000);
+
+	logger.info('Analytics rollup job scheduled', {
+		intervalMinutes,
+		lookbackDays,
+		service: 'admin-service',
+	});
+}
@@ -0,0 +1,59 @@
+import logger from '@kodingcaravan/shared/config/logger';
+import { holidayCalendarService } from '../services/holidayCalendar.service';
+
+const DEFAULT_INTERVAL_MINUTES = 30;
+
+function getNumericEnv(name: string, fallback: number): number {
+	const raw = process.env[name];
+	if (!raw) {
+		return fallback;
+	}
+
+	const parsed = Number(raw);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Periodically propose new dates for scheduled sessions that land on newly added holidays,
+ * exam blackouts or trainer leave
+ */
+export function scheduleCalendarRescheduleProposals(): void {
+	const flag = (process.env.ENABLE_CALENDAR_RESCHEDULE_PROPOSALS || 'true').toLowerCase();
+	if (flag === 'false' || flag === '0') {
+		logger.info('Calendar reschedule proposal job disabled via configuration', { service: 'admin-service' });
+		return;
+	}
+
+	const intervalMinutes = getNumericEnv('CALENDAR_RESCHEDULE_INTERVAL_MINUTES', DEFAULT_INTERVAL_MINUTES);
+
+	let running = false;
+	const execute = async () => {
+		// A scan over a long blackout can take a while; never let two runs overlap in one process
+		if (running) {
+			return;
+		}
+		running = true;
+		try {
+			await holidayCalendarService.scanForRescheduleProposals();
+		} catch (error) {
+			logger.error('Calendar reschedule proposal run failed', {
+				error: error instanceof Error ? error.message : String(error),
+				service: 'admin-service',
+			});
+		} finally {
+			running = false;
+		}
+	};
+
+	// Run once on startup without blocking
+	void execute();
+
+	setInterval(() => {
+		void execute();
+	}, intervalMinutes * 60 * 1000);
+
+	logger.info('Calendar reschedule proposal job scheduled', {
+		intervalMinutes,
+		service: 'admin-service',
+	});
+}
@@ -0,0 +1,60 @@
+import logger from '@kodingcaravan/shared/config/logger';
+import { callPolicyService } from '../services/callPolicy.service';
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+function getNumericEnv(name: string, fallback: number): number {
+	const raw = process.env[name];
+	if (!raw) {
+		return fallback;
+	}
+
+	const parsed = Number(raw);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Periodically drop call recording links that are past CALL_RECORDING_RETENTION_DAYS
+ */
+export function scheduleCallRecordingRetention(): void {
+	const flag = (process.env.ENABLE_CALL_RECORDING_RETENTION || 'true').toLowerCase();
+	if (flag === 'false' || flag === '0') {
+		logger.info('Call recording retention job disabled via configuration', { service: 'admin-service' });
+		return;
+	}
+
+	const intervalMinutes = getNumericEnv('CALL_RECORDING_RETENTION_INTERVAL_MINUTES', DEFAULT_INTERVAL_MINUTES);
+
+	let running = false;
+	const execute = async () => {
+		if (running) {
+			return;
+		}
+		running = true;
+		try {
+			const purged = await callPolicyService.purgeExpiredRecordings();
+			if (purged > 0) {
+				logger.info('Expired call recordings purged', { purged, service: 'admin-service' });
+			}
+		} catch (error) {
+			logger.error('Call recording retention run failed', {
+				error: error instanceof Error ? error.message : String(error),
+				service: 'admin-service',
+			});
+		} finally {
+			running = false;
+		}
+	};
+
+	// Run once on startup without blocking
+	void execute();
+
+	setInterval(() => {
+		void execute();
+	}, intervalMinutes * 60 * 1000);
+
+	logger.info('Call recording retention job scheduled', {
+		intervalMinutes,
+		service: 'admin-service',
+	});
+}
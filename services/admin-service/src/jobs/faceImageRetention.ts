@@ -0,0 +1,60 @@
+import logger from '@kodingcaravan/shared/config/logger';
+import { faceVerificationService } from '../services/faceVerification.service';
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+function getNumericEnv(name: string, fallback: number): number {
+	const raw = process.env[name];
+	if (!raw) {
+		return fallback;
+	}
+
+	const parsed = Number(raw);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Periodically delete trainer selfies and liveness frames that are past their retention period
+ */
+export function scheduleFaceImageRetention(): void {
+	const flag = (process.env.ENABLE_FACE_IMAGE_RETENTION || 'true').toLowerCase();
+	if (flag === 'false' || flag === '0') {
+		logger.info('Face image retention job disabled via configuration', { service: 'admin-service' });
+		return;
+	}
+
+	const intervalMinutes = getNumericEnv('FACE_IMAGE_RETENTION_INTERVAL_MINUTES', DEFAULT_INTERVAL_MINUTES);
+
+	let running = false;
+	const execute = async () => {
+		if (running) {
+			return;
+		}
+		running = true;
+		try {
+			const result = await faceVerificationService.purgeExpiredImages();
+			if (result.attemptsPurged > 0 || result.sessionImagesPurged > 0 || result.challengesDeleted > 0) {
+				logger.info('Expired face verification images purged', { ...result, service: 'admin-service' });
+			}
+		} catch (error) {
+			logger.error('Face image retention run failed', {
+				error: error instanceof Error ? error.message : String(error),
+				service: 'admin-service',
+			});
+		} finally {
+			running = false;
+		}
+	};
+
+	// Run once on startup without blocking
+	void execute();
+
+	setInterval(() => {
+		void execute();
+	}, intervalMinutes * 60 * 1000);
+
+	logger.info('Face image retention job scheduled', {
+		intervalMinutes,
+		service: 'admin-service',
+	});
+}
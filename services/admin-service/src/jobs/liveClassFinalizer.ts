@@ -0,0 +1,60 @@
+import logger from '@kodingcaravan/shared/config/logger';
+import { liveClassService } from '../services/liveClass.service';
+
+const DEFAULT_INTERVAL_SECONDS = 60;
+
+function getNumericEnv(name: string, fallback: number): number {
+	const raw = process.env[name];
+	if (!raw) {
+		return fallback;
+	}
+
+	const parsed = Number(raw);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+/**
+ * Periodically end online sessions whose trainer left the LiveKit room and did not rejoin
+ */
+export function scheduleLiveClassFinalizer(): void {
+	const flag = (process.env.ENABLE_LIVE_CLASS_FINALIZER || 'true').toLowerCase();
+	if (flag === 'false' || flag === '0') {
+		logger.info('Live class finalizer job disabled via configuration', { service: 'admin-service' });
+		return;
+	}
+
+	const intervalSeconds = getNumericEnv('LIVE_CLASS_FINALIZER_INTERVAL_SECONDS', DEFAULT_INTERVAL_SECONDS);
+
+	let running = false;
+	const execute = async () => {
+		if (running) {
+			return;
+		}
+		running = true;
+		try {
+			const ended = await liveClassService.finalizeAbandonedSessions();
+			if (ended > 0) {
+				logger.info('Online sessions ended after the trainer left the live class', { ended, service: 'admin-service' });
+			}
+		} catch (error) {
+			logger.error('Live class finalizer run failed', {
+				error: error instanceof Error ? error.message : String(error),
+				service: 'admin-service',
+			});
+		} finally {
+			running = false;
+		}
+	};
+
+	// Run once on startup without blocking
+	void execute();
+
+	setInterval(() => {
+		void execute();
+	}, intervalSeconds * 1000);
+
+	logger.info('Live class finalizer job scheduled', {
+		intervalSeconds,
+		service: 'admin-service',
+	});
+}
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { AppError, verifyAccessToken } from '@kodingcaravan/shared';
+import { AppError, verifyAccessTokenAsync } from '@kodingcaravan/shared';
 
 type AdminJwt = {
 	sub: string;
@@ -9,7 +9,7 @@ type AdminJwt = {
 	exp?: number;
 };
 
-export function requireAdminAuth(req: Request, _res: Response, next: NextFunction): void {
+export async function requireAdminAuth(req: Request, _res: Response, next: NextFunction): Promise<void> {
 	const header = req.headers.authorization;
 	if (!header || !header.startsWith('Bearer ')) {
 		return next(new AppError('Authorization header missing', 401));
@@ -22,7 +22,7 @@ export function requireAdminAuth(req: Request, _res: Response, next: NextFunctio
 
 	let payload: AdminJwt;
 	try {
-		payload = verifyAccessToken<AdminJwt>(token);
+		payload = await verifyAccessTokenAsync<AdminJwt>(token);
 	} catch (error) {
 		return next(new AppError('Invalid or expired access token', 401));
 	}
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { AppError } from '@kodingcaravan/shared';
 import { getAdminContext, checkPermission, type AdminContext } from '../services/permission.service';
+import { recordAdminAction } from '../services/auditLog.service';
 
 // Extend Express Request to include admin context
 declare global {
@@ -11,11 +12,65 @@ declare global {
 	}
 }
 
+/**
+ * How a permission-gated route appears in the audit log when its handler does not record
+ * an entry itself (handlers that know the before/after state call recordAdminAction)
+ */
+export type AuditOptions = {
+	action?: string;
+	entityType?: string;
+	/** Route param holding the target id (default: "id") */
+	entityIdParam?: string;
+};
+
+const READ_ONLY_METHODS = new Set(['GET', 'HEAD', 'OPTIONS']);
+
+/**
+ * Put the actor and permission on the request for recordAdminAction, and make sure every
+ * successful mutating request leaves at least one audit entry
+ */
+function attachAuditContext(
+	req: Request,
+	res: Response,
+	context: AdminContext,
+	permissionCode: string,
+	options?: AuditOptions
+): void {
+	const auditContext = {
+		actorId: context.admin.id,
+		actorRoles: context.roles.map((role) => role.code),
+		permission: permissionCode,
+		recorded: false,
+	};
+	req.auditContext = auditContext;
+
+	if (READ_ONLY_METHODS.has(req.method)) {
+		return;
+	}
+
+	// Captured now: params belong to the matched route and may be gone by the time the response finishes
+	const entityId = req.params[options?.entityIdParam ?? 'id'] ?? null;
+	const routePath = `${req.baseUrl}${req.route?.path ?? req.path}`;
+
+	res.on('finish', () => {
+		if (auditContext.recorded || res.statusCode >= 400) {
+			return;
+		}
+		void recordAdminAction(req, {
+			action: options?.action ?? `${req.method} ${routePath}`,
+			entityType: options?.entityType ?? 'unknown',
+			entityId,
+			reason: typeof req.body?.reason === 'string' ? req.body.reason : null,
+			metadata: { method: req.method, path: req.originalUrl, statusCode: res.statusCode },
+		});
+	});
+}
+
 /**
  * Middleware to require a specific permission
  * This middleware should be used AFTER requireAdminAuth middleware
  */
-export function requirePermission(permissionCode: string) {
+export function requirePermission(permissionCode: string, audit?: AuditOptions) {
 	return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
 		try {
 			const adminId = (req as any).adminId as string | undefined;
@@ -35,6 +90,7 @@ export function requirePermission(permissionCode: string) {
 				);
 			}
 
+			attachAuditContext(req, res, context, permissionCode, audit);
 			next();
 		} catch (error) {
 			next(error);
@@ -46,7 +102,7 @@ export function requirePermission(permissionCode: string) {
  * Middleware to require any of the specified permissions
  * This middleware should be used AFTER requireAdminAuth middleware
  */
-export function requireAnyPermission(permissionCodes: string[]) {
+export function requireAnyPermission(permissionCodes: string[], audit?: AuditOptions) {
 	return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
 		try {
 			const adminId = (req as any).adminId as string | undefined;
@@ -59,21 +115,22 @@ export function requireAnyPermission(permissionCodes: string[]) {
 			req.adminContext = context;
 
 			// Check if admin has any of the required permissions
-			let hasPermission = false;
+			let grantedPermission: string | null = null;
 			for (const permissionCode of permissionCodes) {
 				const has = await checkPermission(adminId, permissionCode);
 				if (has) {
-					hasPermission = true;
+					grantedPermission = permissionCode;
 					break;
 				}
 			}
 
-			if (!hasPermission) {
+			if (!grantedPermission) {
 				return next(
 					new AppError(`Permission denied: One of [${permissionCodes.join(', ')}] required`, 403)
 				);
 			}
 
+			attachAuditContext(req, res, context, grantedPermission, audit);
 			next();
 		} catch (error) {
 			next(error);
@@ -85,7 +142,7 @@ export function requireAnyPermission(permissionCodes: string[]) {
  * Middleware to require all of the specified permissions
  * This middleware should be used AFTER requireAdminAuth middleware
  */
-export function requireAllPermissions(permissionCodes: string[]) {
+export function requireAllPermissions(permissionCodes: string[], audit?: AuditOptions) {
 	return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
 		try {
 			const adminId = (req as any).adminId as string | undefined;
@@ -107,6 +164,7 @@ export function requireAllPermissions(permissionCodes: string[]) {
 				}
 			}
 
+			attachAuditContext(req, res, context, permissionCodes.join(','), audit);
 			next();
 		} catch (error) {
 			next(error);
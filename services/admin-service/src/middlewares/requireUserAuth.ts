@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { AppError, verifyAccessToken } from '@kodingcaravan/shared';
+import { AppError, verifyAccessTokenAsync } from '@kodingcaravan/shared';
 
 type UserJwt = {
 	sub: string;
@@ -12,7 +12,7 @@ type UserJwt = {
  * Middleware that accepts both admin and student/trainer tokens
  * Extracts user ID and role from the token
  */
-export function requireUserAuth(req: Request, _res: Response, next: NextFunction): void {
+export async function requireUserAuth(req: Request, _res: Response, next: NextFunction): Promise<void> {
 	const header = req.headers.authorization;
 	if (!header || !header.startsWith('Bearer ')) {
 		// For safety incidents, we allow reporting without auth (for emergencies)
@@ -27,7 +27,7 @@ export function requireUserAuth(req: Request, _res: Response, next: NextFunction
 
 	let payload: UserJwt;
 	try {
-		payload = verifyAccessToken<UserJwt>(token);
+		payload = await verifyAccessTokenAsync<UserJwt>(token);
 	} catch (error: any) {
 		// If a token was provided but is invalid/expired, return 401 to trigger frontend refresh
 		// This allows the frontend to automatically refresh tokens
@@ -65,7 +65,7 @@ export function requireUserAuth(req: Request, _res: Response, next: NextFunction
  * Middleware that requires authentication (admin, student, or trainer)
  * Use this when you need to ensure a user is authenticated
  */
-export function requireAuth(req: Request, _res: Response, next: NextFunction): void {
+export async function requireAuth(req: Request, _res: Response, next: NextFunction): Promise<void> {
 	const header = req.headers.authorization;
 	if (!header || !header.startsWith('Bearer ')) {
 		return next(new AppError('Authorization header missing', 401));
@@ -78,7 +78,7 @@ export function requireAuth(req: Request, _res: Response, next: NextFunction): v
 
 	let payload: UserJwt;
 	try {
-		payload = verifyAccessToken<UserJwt>(token);
+		payload = await verifyAccessTokenAsync<UserJwt>(token);
 	} catch (error) {
 		return next(new AppError('Invalid or expired access token', 401));
 	}
@@ -0,0 +1,512 @@
+import type { PoolClient } from 'pg';
+import { getPool } from '../config/database';
+
+/** Calendar days (and timestamp bucketing) follow Indian Standard Time */
+export const ROLLUP_TIME_ZONE = 'Asia/Kolkata';
+
+/** Geography keys are stored as '' when unknown so they can sit in the primary key */
+export type RollupGeography = {
+	state: string;
+	district: string;
+	zone: string;
+};
+
+export type DoubtResponseStat = {
+	day: string;
+	trainerId: string;
+	asked: number;
+	answered: number;
+	totalResponseMinutes: number;
+};
+
+export type RollupMetrics = {
+	bookings: number;
+	grossRevenueCents: number;
+	refundedCents: number;
+	sessionsTotal: number;
+	sessionsCompleted: number;
+	sessionsCancelled: number;
+	sessionsDisputed: number;
+	deliveredMinutes: number;
+	activeAllocations: number;
+	trainersAvailable: number;
+	trainersUtilised: number;
+	ratingSum: number;
+	ratingCount: number;
+	doubtsAsked: number;
+	doubtsAnswered: number;
+	doubtResponseMinutes: number;
+};
+
+export type DailyRollupTotals = RollupMetrics & { day: string };
+
+export type GeographyRollupTotals = RollupMetrics & RollupGeography;
+
+export type RollupRefreshResult = {
+	from: string;
+	to: string;
+	rows: number;
+	/** False when the chat-service stats were unavailable and previous doubt figures were kept */
+	doubtsRefreshed: boolean;
+};
+
+export async function ensureAnalyticsRollupTable(client: PoolClient): Promise<void> {
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS analytics_daily_rollups (
+			day DATE NOT NULL,
+			state TEXT NOT NULL DEFAULT '',
+			district TEXT NOT NULL DEFAULT '',
+			zone TEXT NOT NULL DEFAULT '',
+			bookings INT NOT NULL DEFAULT 0,
+			gross_revenue_cents BIGINT NOT NULL DEFAULT 0,
+			refunded_cents BIGINT NOT NULL DEFAULT 0,
+			sessions_total INT NOT NULL DEFAULT 0,
+			sessions_completed INT NOT NULL DEFAULT 0,
+			sessions_cancelled INT NOT NULL DEFAULT 0,
+			sessions_disputed INT NOT NULL DEFAULT 0,
+			delivered_minutes BIGINT NOT NULL DEFAULT 0,
+			active_allocations INT NOT NULL DEFAULT 0,
+			trainers_available INT NOT NULL DEFAULT 0,
+			trainers_utilised INT NOT NULL DEFAULT 0,
+			rating_sum NUMERIC(12, 1) NOT NULL DEFAULT 0,
+			rating_count INT NOT NULL DEFAULT 0,
+			doubts_asked INT NOT NULL DEFAULT 0,
+			doubts_answered INT NOT NULL DEFAULT 0,
+			doubt_response_minutes NUMERIC(14, 2) NOT NULL DEFAULT 0,
+			refreshed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+			PRIMARY KEY (day, state, district, zone)
+		);
+		CREATE INDEX IF NOT EXISTS idx_analytics_daily_rollups_geo ON analytics_daily_rollups(state, district, zone, day);
+	`);
+}
+
+/**
+ * Geography of every trainer: state and district from their latest address, zone from the
+ * zone assigned on their latest reviewed application
+ */
+const TRAINER_GEO_CTE = `
+	trainer_geo AS (
+		SELECT
+			tr.id AS trainer_id,
+			COALESCE(addr.state, '') AS state,
+			COALESCE(addr.district, '') AS district,
+			COALESCE(z.name, '') AS zone
+		FROM trainers tr
+		LEFT JOIN LATERAL (
+			SELECT ta.state, ta.district
+			FROM trainer_addresses ta
+			WHERE ta.trainer_id = tr.id
+			ORDER BY ta.updated_at DESC
+			LIMIT 1
+		) addr ON true
+		LEFT JOIN LATERAL (
+			SELECT app.zone_id
+			FROM trainer_applications app
+			WHERE app.trainer_id = tr.id AND app.zone_id IS NOT NULL
+			ORDER BY app.created_at DESC
+			LIMIT 1
+		) app ON true
+		LEFT JOIN zones z ON z.id = app.zone_id
+	)
+`;
+
+/** Payments carry no geography; attribute them to the trainer allocated to that student for that course */
+const PAYMENT_TRAINER_LATERAL = `
+	LEFT JOIN LATERAL (
+		SELECT a.trainer_id
+		FROM trainer_allocations a
+		WHERE a.student_id = p.student_id
+			AND a.trainer_id IS NOT NULL
+			AND (p.metadata->>'courseId' IS NULL OR a.course_id::text = p.metadata->>'courseId')
+		ORDER BY a.created_at DESC
+		LIMIT 1
+	) pay_alloc ON true
+	LEFT JOIN trainer_geo g ON g.trainer_id = pay_alloc.trainer_id
+`;
+
+const local = (column: string) => `(${column} AT TIME ZONE '${ROLLUP_TIME_ZONE}')::date`;
+
+/**
+ * Every fact source produces (day, state, district, zone) plus the 16 metric columns in RollupMetrics order
+ */
+const FACT_SOURCES_SQL = `
+	WITH
+	bounds AS (
+		SELECT
+			($1::date)::timestamp AT TIME ZONE '${ROLLUP_TIME_ZONE}' AS starts_at,
+			($2::date + 1)::timestamp AT TIME ZONE '${ROLLUP_TIME_ZONE}' AS ends_at
+	),
+	days AS (
+		SELECT generate_series($1::date, $2::date, interval '1 day')::date AS day
+	),
+	${TRAINER_GEO_CTE},
+	facts AS (
+		SELECT ${local('cp.created_at')} AS day, COALESCE(g.state, ''), COALESCE(g.district, ''), COALESCE(g.zone, z.name, ''),
+			COUNT(*), 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0
+		FROM course_purchases cp
+		CROSS JOIN bounds b
+		LEFT JOIN trainer_geo g ON g.trainer_id = cp.trainer_id
+		LEFT JOIN zones z ON z.id = cp.zone_id
+		WHERE cp.created_at >= b.starts_at AND cp.created_at < b.ends_at
+			AND cp.status <> 'INVALID_PURCHASE'
+		GROUP BY 1, 2, 3, 4
+
+		UNION ALL
+
+		SELECT ${local('p.confirmed_at')}, COALESCE(g.state, ''), COALESCE(g.district, ''), COALESCE(g.zone, ''),
+			0, SUM(p.amount_cents), 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0
+		FROM payments p
+		CROSS JOIN bounds b
+		${PAYMENT_TRAINER_LATERAL}
+		WHERE p.status IN ('succeeded', 'partially_refunded', 'refunded')
+			AND p.confirmed_at >= b.starts_at AND p.confirmed_at < b.ends_at
+		GROUP BY 1, 2, 3, 4
+
+		UNION ALL
+
+		SELECT ${local('r.processed_at')}, COALESCE(g.state, ''), COALESCE(g.district, ''), COALESCE(g.zone, ''),
+			0, 0, SUM(r.amount_cents), 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0
+		FROM payment_refunds r
+		JOIN payments p ON p.id = r.payment_id
+		CROSS JOIN bounds b
+		${PAYMENT_TRAINER_LATERAL}
+		WHERE r.status = 'processed'
+			AND r.processed_at >= b.starts_at AND r.processed_at < b.ends_at
+		GROUP BY 1, 2, 3, 4
+
+		UNION ALL
+
+		SELECT s.scheduled_date, COALESCE(g.state, ''), COALESCE(g.district, ''), COALESCE(g.zone, ''),
+			0, 0, 0,
+			COUNT(*),
+			COUNT(*) FILTER (WHERE s.status = 'completed'),
+			COUNT(*) FILTER (WHERE s.status = 'cancelled'),
+			COUNT(*) FILTER (WHERE s.status = 'disputed' OR s.disputed_at IS NOT NULL),
+			COALESCE(SUM(COALESCE(s.actual_duration, s.duration)) FILTER (WHERE s.status = 'completed'), 0),
+			0, 0,
+			COUNT(DISTINCT s.trainer_id) FILTER (WHERE s.status = 'completed'),
+			0, 0, 0, 0, 0
+		FROM tutoring_sessions s
+		LEFT JOIN trainer_geo g ON g.trainer_id = s.trainer_id
+		WHERE s.scheduled_date BETWEEN $1::date AND $2::date
+		GROUP BY 1, 2, 3, 4
+
+		UNION ALL
+
+		-- An allocation counts as active on every day from allocation until it completes or is cancelled
+		SELECT d.day, COALESCE(g.state, ''), COALESCE(g.district, ''), COALESCE(g.zone, ''),
+			0, 0, 0, 0, 0, 0, 0, 0,
+			COUNT(*),
+			COUNT(DISTINCT a.trainer_id),
+			0, 0, 0, 0, 0, 0
+		FROM days d
+		JOIN trainer_allocations a
+			ON a.trainer_id IS NOT NULL
+			AND ${local('COALESCE(a.allocated_at, a.created_at)')} <= d.day
+			AND (
+				a.status IN ('approved', 'active')
+				OR (a.status IN ('completed', 'cancelled') AND ${local('a.updated_at')} > d.day)
+			)
+		LEFT JOIN trainer_geo g ON g.trainer_id = a.trainer_id
+		GROUP BY 1, 2, 3, 4
+
+		UNION ALL
+
+		SELECT ${local('sr.created_at')}, COALESCE(g.state, ''), COALESCE(g.district, ''), COALESCE(g.zone, ''),
+			0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+			SUM(sr.rating), COUNT(*),
+			0, 0, 0
+		FROM session_reviews sr
+		CROSS JOIN bounds b
+		LEFT JOIN trainer_geo g ON g.trainer_id = sr.trainer_id
+		WHERE sr.review_type = 'student'
+			AND sr.created_at >= b.starts_at AND sr.created_at < b.ends_at
+		GROUP BY 1, 2, 3, 4
+
+		UNION ALL
+
+		SELECT ds.day::date, COALESCE(g.state, ''), COALESCE(g.district, ''), COALESCE(g.zone, ''),
+			0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+			SUM(ds.asked), SUM(ds.answered), SUM(ds.response_minutes)
+		FROM unnest($3::text[], $4::text[], $5::int[], $6::int[], $7::numeric[])
+			AS ds(day, trainer_id, asked, answered, response_minutes)
+		LEFT JOIN trainer_geo g ON g.trainer_id::text = ds.trainer_id
+		GROUP BY 1, 2, 3, 4
+	)
+`;
+
+const METRIC_COLUMNS = [
+	'bookings',
+	'gross_revenue_cents',
+	'refunded_cents',
+	'sessions_total',
+	'sessions_completed',
+	'sessions_cancelled',
+	'sessions_disputed',
+	'delivered_minutes',
+	'active_allocations',
+	'trainers_available',
+	'trainers_utilised',
+	'rating_sum',
+	'rating_count',
+	'doubts_asked',
+	'doubts_answered',
+	'doubt_response_minutes',
+] as const;
+
+const DOUBT_COLUMNS = new Set<string>(['doubts_asked', 'doubts_answered', 'doubt_response_minutes']);
+
+/**
+ * Recompute every rollup row for days in [from, to] (inclusive, YYYY-MM-DD) inside one transaction.
+ * Pass doubtStats = null when chat-service could not be reached; existing doubt figures are then kept.
+ * Returns null when another instance holds the refresh lock.
+ */
+export async function refreshDailyRollups(
+	from: string,
+	to: string,
+	doubtStats: DoubtResponseStat[] | null
+): Promise<RollupRefreshResult | null> {
+	const client = await getPool().connect();
+	try {
+		await client.query('BEGIN');
+
+		const lock = await client.query<{ locked: boolean }>(
+			`SELECT pg_try_advisory_xact_lock(hashtext('analytics_daily_rollups')) AS locked`
+		);
+		if (!lock.rows[0]?.locked) {
+			await client.query('ROLLBACK');
+			return null;
+		}
+
+		const stats = doubtStats ?? [];
+		const updates = METRIC_COLUMNS.map((column) =>
+			DOUBT_COLUMNS.has(column) && !doubtStats
+				? `${column} = analytics_daily_rollups.${column}`
+				: `${column} = EXCLUDED.${column}`
+		).join(',\n\t\t\t\t');
+
+		const result = await client.query(
+			`
+				${FACT_SOURCES_SQL}
+				INSERT INTO analytics_daily_rollups (day, state, district, zone, ${METRIC_COLUMNS.join(', ')}, refreshed_at)
+				SELECT f.day, f.state, f.district, f.zone,
+					${METRIC_COLUMNS.map((column) => `SUM(f.${column})`).join(', ')},
+					NOW()
+				FROM facts AS f(day, state, district, zone, ${METRIC_COLUMNS.join(', ')})
+				WHERE f.day BETWEEN $1::date AND $2::date
+				GROUP BY f.day, f.state, f.district, f.zone
+				ON CONFLICT (day, state, district, zone) DO UPDATE SET
+				${updates},
+				refreshed_at = EXCLUDED.refreshed_at
+			`,
+			[
+				from,
+				to,
+				stats.map((stat) => stat.day),
+				stats.map((stat) => stat.trainerId),
+				stats.map((stat) => stat.asked),
+				stats.map((stat) => stat.answered),
+				stats.map((stat) => stat.totalResponseMinutes),
+			]
+		);
+
+		// Rows not rewritten above have no facts left (e.g. a trainer moved zone). Without fresh doubt
+		// stats a row may exist only for its doubt figures, so keep everything until the next full run.
+		if (doubtStats) {
+			await client.query(
+				`DELETE FROM analytics_daily_rollups WHERE day BETWEEN $1::date AND $2::date AND refreshed_at < NOW()`,
+				[from, to]
+			);
+		}
+
+		await client.query('COMMIT');
+		return { from, to, rows: result.rowCount ?? 0, doubtsRefreshed: doubtStats !== null };
+	} catch (error) {
+		await client.query('ROLLBACK').catch(() => undefined);
+		throw error;
+	} finally {
+		client.release();
+	}
+}
+
+const METRIC_SELECT = `
+	COALESCE(SUM(bookings), 0)::int AS "bookings",
+	COALESCE(SUM(gross_revenue_cents), 0)::bigint AS "grossRevenueCents",
+	COALESCE(SUM(refunded_cents), 0)::bigint AS "refundedCents",
+	COALESCE(SUM(sessions_total), 0)::int AS "sessionsTotal",
+	COALESCE(SUM(sessions_completed), 0)::int AS "sessionsCompleted",
+	COALESCE(SUM(sessions_cancelled), 0)::int AS "sessionsCancelled",
+	COALESCE(SUM(sessions_disputed), 0)::int AS "sessionsDisputed",
+	COALESCE(SUM(delivered_minutes), 0)::bigint AS "deliveredMinutes",
+	COALESCE(SUM(active_allocations), 0)::int AS "activeAllocations",
+	COALESCE(SUM(trainers_available), 0)::int AS "trainersAvailable",
+	COALESCE(SUM(trainers_utilised), 0)::int AS "trainersUtilised",
+	COALESCE(SUM(rating_sum), 0) AS "ratingSum",
+	COALESCE(SUM(rating_count), 0)::int AS "ratingCount",
+	COALESCE(SUM(doubts_asked), 0)::int AS "doubtsAsked",
+	COALESCE(SUM(doubts_answered), 0)::int AS "doubtsAnswered",
+	COALESCE(SUM(doubt_response_minutes), 0) AS "doubtResponseMinutes"
+`;
+
+function toMetrics<T extends Record<string, any>>(row: T): T & RollupMetrics {
+	const metrics = { ...row } as any;
+	for (const key of [
+		'grossRevenueCents',
+		'refundedCents',
+		'deliveredMinutes',
+		'ratingSum',
+		'doubtResponseMinutes',
+	]) {
+		metrics[key] = Number(metrics[key]) || 0;
+	}
+	return metrics;
+}
+
+/**
+ * Distinct geographies with rollup rows in the range, narrowed by any requested filter
+ */
+export async function findRollupGeographies(
+	from: string,
+	to: string,
+	filter: Partial<RollupGeography>
+): Promise<RollupGeography[]> {
+	const conditions = ['day BETWEEN $1::date AND $2::date'];
+	const params: any[] = [from, to];
+
+	for (const key of ['state', 'district', 'zone'] as const) {
+		if (filter[key] !== undefined) {
+			params.push(filter[key]);
+			conditions.push(`LOWER(${key}) = LOWER($${params.length})`);
+		}
+	}
+
+	const result = await getPool().query<RollupGeography>(
+		`
+			SELECT DISTINCT state, district, zone
+			FROM analytics_daily_rollups
+			WHERE ${conditions.join(' AND ')}
+		`,
+		params
+	);
+	return result.rows;
+}
+
+function geographyParams(geographies: RollupGeography[]): any[] {
+	return [
+		geographies.map((geo) => geo.state),
+		geographies.map((geo) => geo.district),
+		geographies.map((geo) => geo.zone),
+	];
+}
+
+const IN_GEOGRAPHIES = `(state, district, zone) IN (SELECT * FROM unnest($3::text[], $4::text[], $5::text[]))`;
+
+/**
+ * Per-day totals over the given geographies
+ */
+export async function sumRollupsByDay(
+	from: string,
+	to: string,
+	geographies: RollupGeography[]
+): Promise<DailyRollupTotals[]> {
+	if (geographies.length === 0) {
+		return [];
+	}
+
+	const result = await getPool().query(
+		`
+			SELECT to_char(day, 'YYYY-MM-DD') AS "day", ${METRIC_SELECT}
+			FROM analytics_daily_rollups
+			WHERE day BETWEEN $1::date AND $2::date AND ${IN_GEOGRAPHIES}
+			GROUP BY day
+			ORDER BY day ASC
+		`,
+		[from, to, ...geographyParams(geographies)]
+	);
+	return result.rows.map(toMetrics);
+}
+
+/**
+ * Range totals over the given geographies, grouped down to one geography level
+ */
+export async function sumRollupsByGeography(
+	from: string,
+	to: string,
+	geographies: RollupGeography[],
+	level: keyof RollupGeography
+): Promise<GeographyRollupTotals[]> {
+	if (geographies.length === 0) {
+		return [];
+	}
+
+	const groupColumns = level === 'state' ? ['state'] : level === 'district' ? ['state', 'district'] : ['state', 'district', 'zone'];
+	const selectColumns = (['state', 'district', 'zone'] as const)
+		.map((column) => (groupColumns.includes(column) ? column : `'' AS ${column}`))
+		.join(', ');
+
+	const result = await getPool().query(
+		`
+			SELECT ${selectColumns}, ${METRIC_SELECT}
+			FROM analytics_daily_rollups
+			WHERE day BETWEEN $1::date AND $2::date AND ${IN_GEOGRAPHIES}
+			GROUP BY ${groupColumns.join(', ')}
+			ORDER BY ${groupColumns.join(', ')}
+		`,
+		[from, to, ...geographyParams(geographies)]
+	);
+	return result.rows.map(toMetrics);
+}
+
+export async function findLatestRollupRefresh(from: string, to: string): Promise<Date | null> {
+	const result = await getPool().query<{ refreshedAt: Date | null }>(
+		`SELECT MAX(refreshed_at) AS "refreshedAt" FROM analytics_daily_rollups WHERE day BETWEEN $1::date AND $2::date`,
+		[from, to]
+	);
+	return result.rows[0]?.refreshedAt ?? null;
+}
+
+export type CityCapacity = {
+	cityId: string;
+	cityName: string;
+	state: string | null;
+	district: string | null;
+	trainers: number;
+	activeAllocations: number;
+};
+
+/**
+ * Trainers based in each city (by address) and the allocations they currently hold
+ */
+export async function findCityCapacity(cityIds: string[]): Promise<CityCapacity[]> {
+	if (cityIds.length === 0) {
+		return [];
+	}
+
+	const result = await getPool().query<CityCapacity>(
+		`
+			WITH city_trainers AS (
+				SELECT DISTINCT ta.city_id, ta.trainer_id
+				FROM trainer_addresses ta
+				WHERE ta.city_id = ANY($1::uuid[])
+			)
+			SELECT
+				c.id AS "cityId",
+				c.name AS "cityName",
+				c.state,
+				c.district,
+				COUNT(DISTINCT ct.trainer_id)::int AS "trainers",
+				COALESCE(SUM(alloc.active), 0)::int AS "activeAllocations"
+			FROM cities c
+			LEFT JOIN city_trainers ct ON ct.city_id = c.id
+			LEFT JOIN LATERAL (
+				SELECT COUNT(*) AS active
+				FROM trainer_allocations a
+				WHERE a.trainer_id = ct.trainer_id AND a.status IN ('approved', 'active')
+			) alloc ON true
+			WHERE c.id = ANY($1::uuid[])
+			GROUP BY c.id, c.name, c.state, c.district
+		`,
+		[cityIds]
+	);
+	return result.rows;
+}
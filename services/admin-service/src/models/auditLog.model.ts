@@ -0,0 +1,176 @@
+import type { PoolClient } from 'pg';
+import {
+	ADMIN_AUDIT_LOG_COLUMNS,
+	appendAdminAuditLog,
+	ensureAdminAuditLogTable,
+	verifyAdminAuditChain,
+	type AdminAuditEntryInput,
+	type AdminAuditLogEntry,
+	type AuditChainVerification,
+	type AuditLogPool,
+} from '@kodingcaravan/shared/utils/adminAuditLog';
+import { getPool } from '../config/database';
+
+export type AuditLogFilters = {
+	actorId?: string;
+	action?: string;
+	permission?: string;
+	entityType?: string;
+	entityId?: string;
+	correlationId?: string;
+	service?: string;
+	/** Inclusive, ISO date or timestamp */
+	from?: string;
+	/** Exclusive, ISO date or timestamp */
+	to?: string;
+};
+
+export async function ensureAuditLogTable(client: PoolClient): Promise<void> {
+	await ensureAdminAuditLogTable(client);
+}
+
+function auditPool(): AuditLogPool {
+	return getPool() as unknown as AuditLogPool;
+}
+
+function buildWhereClause(filters: AuditLogFilters): { whereClause: string; params: any[] } {
+	const conditions: string[] = [];
+	const params: any[] = [];
+	let paramIdx = 1;
+
+	if (filters.actorId) {
+		conditions.push(`actor_id = $${paramIdx++}`);
+		params.push(filters.actorId);
+	}
+
+	if (filters.action) {
+		// "allocation." matches every allocation action
+		if (filters.action.endsWith('.')) {
+			conditions.push(`action LIKE $${paramIdx++}`);
+			params.push(`${filters.action}%`);
+		} else {
+			conditions.push(`action = $${paramIdx++}`);
+			params.push(filters.action);
+		}
+	}
+
+	if (filters.permission) {
+		conditions.push(`permission = $${paramIdx++}`);
+		params.push(filters.permission);
+	}
+
+	if (filters.entityType) {
+		conditions.push(`entity_type = $${paramIdx++}`);
+		params.push(filters.entityType);
+	}
+
+	if (filters.entityId) {
+		conditions.push(`entity_id = $${paramIdx++}`);
+		params.push(filters.entityId);
+	}
+
+	if (filters.correlationId) {
+		conditions.push(`correlation_id = $${paramIdx++}`);
+		params.push(filters.correlationId);
+	}
+
+	if (filters.service) {
+		conditions.push(`service = $${paramIdx++}`);
+		params.push(filters.service);
+	}
+
+	if (filters.from) {
+		conditions.push(`created_at >= $${paramIdx++}`);
+		params.push(filters.from);
+	}
+
+	if (filters.to) {
+		conditions.push(`created_at < $${paramIdx++}`);
+		params.push(filters.to);
+	}
+
+	return {
+		whereClause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+		params,
+	};
+}
+
+export async function createAuditLogEntry(input: AdminAuditEntryInput): Promise<AdminAuditLogEntry> {
+	return appendAdminAuditLog(auditPool(), input);
+}
+
+export async function findAuditLogs(
+	filters: AuditLogFilters,
+	limit = 50,
+	offset = 0
+): Promise<{ entries: AdminAuditLogEntry[]; total: number }> {
+	const { whereClause, params } = buildWhereClause(filters);
+
+	const [entries, count] = await Promise.all([
+		getPool().query<AdminAuditLogEntry>(
+			`
+				SELECT ${ADMIN_AUDIT_LOG_COLUMNS}
+				FROM admin_audit_log
+				${whereClause}
+				ORDER BY seq DESC
+				LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+			`,
+			[...params, limit, offset]
+		),
+		getPool().query<{ total: string }>(`SELECT COUNT(*) AS total FROM admin_audit_log ${whereClause}`, params),
+	]);
+
+	return {
+		entries: entries.rows.map((row) => ({ ...row, seq: Number(row.seq) })),
+		total: parseInt(count.rows[0]?.total || '0', 10),
+	};
+}
+
+export async function findAuditLogById(id: string): Promise<AdminAuditLogEntry | null> {
+	const result = await getPool().query<AdminAuditLogEntry>(
+		`SELECT ${ADMIN_AUDIT_LOG_COLUMNS} FROM admin_audit_log WHERE id = $1`,
+		[id]
+	);
+	return result.rows[0] ? { ...result.rows[0], seq: Number(result.rows[0].seq) } : null;
+}
+
+/**
+ * Page through matching entries oldest first (keyset on seq), for exports that may exceed one response page
+ */
+export async function forEachAuditLogBatch(
+	filters: AuditLogFilters,
+	handler: (entries: AdminAuditLogEntry[]) => void | Promise<void>,
+	batchSize = 1000
+): Promise<void> {
+	const { whereClause, params } = buildWhereClause(filters);
+	const seqCondition = whereClause ? `${whereClause} AND seq > $${params.length + 1}` : `WHERE seq > $1`;
+	let lastSeq = 0;
+
+	for (;;) {
+		const result = await getPool().query<AdminAuditLogEntry>(
+			`
+				SELECT ${ADMIN_AUDIT_LOG_COLUMNS}
+				FROM admin_audit_log
+				${seqCondition}
+				ORDER BY seq ASC
+				LIMIT $${params.length + 2}
+			`,
+			[...params, lastSeq, batchSize]
+		);
+
+		if (result.rows.length === 0) {
+			return;
+		}
+
+		await handler(result.rows.map((row) => ({ ...row, seq: Number(row.seq) })));
+		lastSeq = Number(result.rows[result.rows.length - 1].seq);
+
+		if (result.rows.length < batchSize) {
+			return;
+		}
+	}
+}
+
+export async function verifyAuditLogChain(): Promise<AuditChainVerification> {
+	return verifyAdminAuditChain(auditPool());
+}
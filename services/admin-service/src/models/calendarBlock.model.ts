@@ -0,0 +1,377 @@
+import type { Pool, PoolClient, QueryResult } from 'pg';
+import {
+	CALENDAR_BLOCK_COLUMNS,
+	ensureCalendarBlockTable,
+	type CalendarBlock,
+	type CalendarBlockKind,
+	type CalendarBlockScope,
+} from '@kodingcaravan/shared/utils/blackoutCalendar';
+
+export type ProposalStatus = 'pending' | 'applied' | 'dismissed';
+
+export interface CreateCalendarBlockInput {
+	scope: CalendarBlockScope;
+	scopeRef: string | null;
+	kind: CalendarBlockKind;
+	name: string;
+	startDate: string;
+	endDate: string;
+	notes?: string | null;
+	createdBy?: string | null;
+}
+
+export interface CalendarRescheduleProposalRecord {
+	id: string;
+	sessionId: string;
+	blockId: string;
+	allocationId: string;
+	studentId: string;
+	trainerId: string;
+	originalDate: string;
+	originalTime: string;
+	/** Null when no open date was found within the search window */
+	proposedDate: string | null;
+	proposedTime: string;
+	status: ProposalStatus;
+	resolvedBy: string | null;
+	resolvedAt: Date | null;
+	createdAt: Date;
+	blockName?: string;
+}
+
+export interface CreateProposalInput {
+	sessionId: string;
+	blockId: string;
+	allocationId: string;
+	studentId: string;
+	trainerId: string;
+	originalDate: string;
+	originalTime: string;
+	proposedDate: string | null;
+	proposedTime: string;
+}
+
+const PROPOSAL_COLUMNS = `
+	p.id,
+	p.session_id AS "sessionId",
+	p.block_id AS "blockId",
+	p.allocation_id AS "allocationId",
+	p.student_id AS "studentId",
+	p.trainer_id AS "trainerId",
+	to_char(p.original_date, 'YYYY-MM-DD') AS "originalDate",
+	p.original_time AS "originalTime",
+	to_char(p.proposed_date, 'YYYY-MM-DD') AS "proposedDate",
+	p.proposed_time AS "proposedTime",
+	p.status,
+	p.resolved_by AS "resolvedBy",
+	p.resolved_at AS "resolvedAt",
+	p.created_at AS "createdAt"
+`;
+
+function executeQuery<T extends Record<string, any> = any>(
+	pool: Pool,
+	client: PoolClient | undefined,
+	text: string,
+	params: any[] = []
+): Promise<QueryResult<T>> {
+	if (client) {
+		return client.query<T>(text, params);
+	}
+	return pool.query<T>(text, params);
+}
+
+export async function ensureCalendarTables(client: PoolClient): Promise<void> {
+	await ensureCalendarBlockTable(client);
+
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS calendar_reschedule_proposals (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			session_id UUID NOT NULL REFERENCES tutoring_sessions(id) ON DELETE CASCADE,
+			block_id UUID NOT NULL REFERENCES calendar_blocks(id) ON DELETE CASCADE,
+			allocation_id UUID NOT NULL,
+			student_id UUID NOT NULL,
+			trainer_id UUID NOT NULL,
+			original_date DATE NOT NULL,
+			original_time VARCHAR(20) NOT NULL,
+			proposed_date DATE,
+			proposed_time VARCHAR(20) NOT NULL,
+			status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'dismissed')),
+			resolved_by UUID,
+			resolved_at TIMESTAMPTZ,
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+			UNIQUE (session_id, block_id)
+		);
+		CREATE INDEX IF NOT EXISTS idx_calendar_reschedule_proposals_status ON calendar_reschedule_proposals(status, original_date);
+		CREATE INDEX IF NOT EXISTS idx_calendar_reschedule_proposals_block ON calendar_reschedule_proposals(block_id);
+	`);
+}
+
+export class CalendarBlockRepository {
+	constructor(private readonly pool: Pool) {}
+
+	async create(input: CreateCalendarBlockInput, client?: PoolClient): Promise<CalendarBlock> {
+		const result = await executeQuery<CalendarBlock>(
+			this.pool,
+			client,
+			`
+				INSERT INTO calendar_blocks (scope, scope_ref, kind, name, start_date, end_date, notes, created_by)
+				VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+				RETURNING ${CALENDAR_BLOCK_COLUMNS}
+			`,
+			[
+				input.scope,
+				input.scopeRef,
+				input.kind,
+				input.name,
+				input.startDate,
+				input.endDate,
+				input.notes ?? null,
+				input.createdBy ?? null,
+			]
+		);
+		return result.rows[0];
+	}
+
+	async findById(id: string, client?: PoolClient): Promise<CalendarBlock | null> {
+		const result = await executeQuery<CalendarBlock>(
+			this.pool,
+			client,
+			`SELECT ${CALENDAR_BLOCK_COLUMNS} FROM calendar_blocks WHERE id = $1`,
+			[id]
+		);
+		return result.rows[0] || null;
+	}
+
+	async findAll(filters?: {
+		scope?: CalendarBlockScope;
+		scopeRef?: string;
+		kind?: CalendarBlockKind;
+		from?: string;
+		to?: string;
+		includeInactive?: boolean;
+		limit?: number;
+		offset?: number;
+	}, client?: PoolClient): Promise<CalendarBlock[]> {
+		const conditions: string[] = [];
+		const params: any[] = [];
+		let paramIdx = 1;
+
+		if (!filters?.includeInactive) {
+			conditions.push('is_active = true');
+		}
+
+		if (filters?.scope) {
+			conditions.push(`scope = $${paramIdx++}`);
+			params.push(filters.scope);
+		}
+
+		if (filters?.scopeRef) {
+			conditions.push(`LOWER(scope_ref) = LOWER($${paramIdx++})`);
+			params.push(filters.scopeRef);
+		}
+
+		if (filters?.kind) {
+			conditions.push(`kind = $${paramIdx++}`);
+			params.push(filters.kind);
+		}
+
+		if (filters?.from) {
+			conditions.push(`end_date >= $${paramIdx++}`);
+			params.push(filters.from);
+		}
+
+		if (filters?.to) {
+			conditions.push(`start_date <= $${paramIdx++}`);
+			params.push(filters.to);
+		}
+
+		const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+		params.push(filters?.limit || 100, filters?.offset || 0);
+
+		const result = await executeQuery<CalendarBlock>(
+			this.pool,
+			client,
+			`
+				SELECT ${CALENDAR_BLOCK_COLUMNS}
+				FROM calendar_blocks
+				${whereClause}
+				ORDER BY start_date ASC, name ASC
+				LIMIT $${paramIdx++} OFFSET $${paramIdx++}
+			`,
+			params
+		);
+		return result.rows;
+	}
+
+	async deactivate(id: string, client?: PoolClient): Promise<CalendarBlock | null> {
+		const result = await executeQuery<CalendarBlock>(
+			this.pool,
+			client,
+			`
+				UPDATE calendar_blocks
+				SET is_active = false, updated_at = NOW()
+				WHERE id = $1 AND is_active = true
+				RETURNING ${CALENDAR_BLOCK_COLUMNS}
+			`,
+			[id]
+		);
+		return result.rows[0] || null;
+	}
+
+	/**
+	 * Active blocks not yet checked against scheduled sessions that still have days ahead
+	 */
+	async findUnscanned(limit: number, client?: PoolClient): Promise<CalendarBlock[]> {
+		const result = await executeQuery<CalendarBlock>(
+			this.pool,
+			client,
+			`
+				SELECT ${CALENDAR_BLOCK_COLUMNS}
+				FROM calendar_blocks
+				WHERE is_active = true
+					AND end_date >= CURRENT_DATE
+					AND (sessions_scanned_at IS NULL OR sessions_scanned_at < updated_at)
+				ORDER BY created_at ASC
+				LIMIT $1
+			`,
+			[limit]
+		);
+		return result.rows;
+	}
+
+	async markScanned(id: string, client?: PoolClient): Promise<void> {
+		await executeQuery(
+			this.pool,
+			client,
+			`UPDATE calendar_blocks SET sessions_scanned_at = GREATEST(NOW(), updated_at) WHERE id = $1`,
+			[id]
+		);
+	}
+}
+
+export class CalendarRescheduleProposalRepository {
+	constructor(private readonly pool: Pool) {}
+
+	/**
+	 * Returns null when a proposal for this session and block already exists
+	 */
+	async create(input: CreateProposalInput, client?: PoolClient): Promise<CalendarRescheduleProposalRecord | null> {
+		const result = await executeQuery<CalendarRescheduleProposalRecord>(
+			this.pool,
+			client,
+			`
+				INSERT INTO calendar_reschedule_proposals AS p (
+					session_id, block_id, allocation_id, student_id, trainer_id,
+					original_date, original_time, proposed_date, proposed_time
+				)
+				VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+				ON CONFLICT (session_id, block_id) DO NOTHING
+				RETURNING ${PROPOSAL_COLUMNS}
+			`,
+			[
+				input.sessionId,
+				input.blockId,
+				input.allocationId,
+				input.studentId,
+				input.trainerId,
+				input.originalDate,
+				input.originalTime,
+				input.proposedDate,
+				input.proposedTime,
+			]
+		);
+		return result.rows[0] || null;
+	}
+
+	async findById(id: string, client?: PoolClient, forUpdate = false): Promise<CalendarRescheduleProposalRecord | null> {
+		const result = await executeQuery<CalendarRescheduleProposalRecord>(
+			this.pool,
+			client,
+			`SELECT ${PROPOSAL_COLUMNS} FROM calendar_reschedule_proposals p WHERE p.id = $1${forUpdate ? ' FOR UPDATE' : ''}`,
+			[id]
+		);
+		return result.rows[0] || null;
+	}
+
+	async findAll(filters?: {
+		status?: ProposalStatus;
+		blockId?: string;
+		trainerId?: string;
+		limit?: number;
+		offset?: number;
+	}, client?: PoolClient): Promise<CalendarRescheduleProposalRecord[]> {
+		const conditions: string[] = [];
+		const params: any[] = [];
+		let paramIdx = 1;
+
+		if (filters?.status) {
+			conditions.push(`p.status = $${paramIdx++}`);
+			params.push(filters.status);
+		}
+
+		if (filters?.blockId) {
+			conditions.push(`p.block_id = $${paramIdx++}`);
+			params.push(filters.blockId);
+		}
+
+		if (filters?.trainerId) {
+			conditions.push(`p.trainer_id = $${paramIdx++}`);
+			params.push(filters.trainerId);
+		}
+
+		const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+		params.push(filters?.limit || 50, filters?.offset || 0);
+
+		const result = await executeQuery<CalendarRescheduleProposalRecord>(
+			this.pool,
+			client,
+			`
+				SELECT ${PROPOSAL_COLUMNS}, b.name AS "blockName"
+				FROM calendar_reschedule_proposals p
+				JOIN calendar_blocks b ON b.id = p.block_id
+				${whereClause}
+				ORDER BY p.original_date ASC, p.created_at ASC
+				LIMIT $${paramIdx++} OFFSET $${paramIdx++}
+			`,
+			params
+		);
+		return result.rows;
+	}
+
+	async resolve(
+		id: string,
+		status: Exclude<ProposalStatus, 'pending'>,
+		resolvedBy: string | null,
+		client?: PoolClient
+	): Promise<CalendarRescheduleProposalRecord | null> {
+		const result = await executeQuery<CalendarRescheduleProposalRecord>(
+			this.pool,
+			client,
+			`
+				UPDATE calendar_reschedule_proposals AS p
+				SET status = $2, resolved_by = $3, resolved_at = NOW()
+				WHERE p.id = $1 AND p.status = 'pending'
+				RETURNING ${PROPOSAL_COLUMNS}
+			`,
+			[id, status, resolvedBy]
+		);
+		return result.rows[0] || null;
+	}
+
+	/**
+	 * Dismiss open proposals when their block is removed
+	 */
+	async dismissPendingForBlock(blockId: string, client?: PoolClient): Promise<number> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				UPDATE calendar_reschedule_proposals
+				SET status = 'dismissed', resolved_at = NOW()
+				WHERE block_id = $1 AND status = 'pending'
+			`,
+			[blockId]
+		);
+		return result.rowCount ?? 0;
+	}
+}
@@ -0,0 +1,529 @@
+/**
+ * Call Policy Model - Exotel virtual-number pool and per-pair assignments, denied call attempts,
+ * safety flags raised from call patterns, and call_logs analytics/retention columns.
+ */
+
+import type { Pool, PoolClient } from 'pg';
+import type { CallAnomalyPattern, CallPolicyDenialReason } from '../utils/callPolicy';
+
+export interface VirtualNumberRecord {
+	number: string;
+	isActive: boolean;
+	/** Pairs currently assigned to the number */
+	assignedPairs: number;
+	createdAt: Date;
+}
+
+export interface NumberAssignmentRecord {
+	trainerId: string;
+	studentId: string;
+	virtualNumber: string;
+	assignedAt: Date;
+	lastUsedAt: Date | null;
+}
+
+export interface CallLogSummary {
+	callSid: string;
+	trainerId: string;
+	studentId: string;
+	sessionId: string | null;
+	callerRole: 'trainer' | 'student';
+	status: string;
+	direction: string;
+	duration: number | null;
+	virtualNumber: string | null;
+	recordingUrl: string | null;
+	recordingExpiresAt: Date | null;
+	recordingPurgedAt: Date | null;
+	startTime: Date | null;
+	endTime: Date | null;
+	createdAt: Date;
+}
+
+export interface TrainerCallReportRow {
+	trainerId: string;
+	trainerName: string | null;
+	calls: number;
+	connectedCalls: number;
+	totalDurationSeconds: number;
+	averageDurationSeconds: number;
+	deniedAttempts: number;
+	safetyFlags: number;
+}
+
+const CALL_LOG_COLUMNS = `
+	call_sid AS "callSid", trainer_id AS "trainerId", student_id AS "studentId", session_id AS "sessionId",
+	caller_role AS "callerRole", status, direction, duration, virtual_number AS "virtualNumber",
+	recording_url AS "recordingUrl", recording_expires_at AS "recordingExpiresAt",
+	recording_purged_at AS "recordingPurgedAt", start_time AS "startTime", end_time AS "endTime",
+	created_at AS "createdAt"
+`;
+
+/** Start of the current IST calendar day */
+const IST_DAY_START = `(date_trunc('day', NOW() AT TIME ZONE 'Asia/Kolkata') AT TIME ZONE 'Asia/Kolkata')`;
+
+async function executeQuery<T>(
+	pool: Pool,
+	client: PoolClient | undefined,
+	text: string,
+	params?: any[]
+): Promise<{ rows: T[]; rowCount: number }> {
+	const result = client
+		? await client.query(text, params)
+		: await pool.query(text, params);
+	return { rows: result.rows as T[], rowCount: result.rowCount ?? 0 };
+}
+
+export async function ensureCallPolicyTables(client: PoolClient): Promise<void> {
+	await client.query(`
+		DO $$
+		BEGIN
+			IF NOT EXISTS (
+				SELECT 1 FROM information_schema.columns
+				WHERE table_name='call_logs' AND column_name='virtual_number'
+			) THEN
+				ALTER TABLE call_logs ADD COLUMN virtual_number TEXT;
+			END IF;
+
+			IF NOT EXISTS (
+				SELECT 1 FROM information_schema.columns
+				WHERE table_name='call_logs' AND column_name='recording_expires_at'
+			) THEN
+				ALTER TABLE call_logs ADD COLUMN recording_expires_at TIMESTAMPTZ;
+			END IF;
+
+			IF NOT EXISTS (
+				SELECT 1 FROM information_schema.columns
+				WHERE table_name='call_logs' AND column_name='recording_purged_at'
+			) THEN
+				ALTER TABLE call_logs ADD COLUMN recording_purged_at TIMESTAMPTZ;
+			END IF;
+		END $$;
+	`);
+	await client.query(`
+		CREATE INDEX IF NOT EXISTS idx_call_logs_recording_expiry ON call_logs(recording_expires_at)
+			WHERE recording_url IS NOT NULL;
+	`);
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS call_virtual_numbers (
+			number TEXT PRIMARY KEY,
+			is_active BOOLEAN NOT NULL DEFAULT true,
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+	`);
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS call_number_assignments (
+			trainer_id UUID NOT NULL,
+			student_id UUID NOT NULL,
+			virtual_number TEXT NOT NULL REFERENCES call_virtual_numbers(number) ON DELETE CASCADE,
+			assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+			last_used_at TIMESTAMPTZ,
+			PRIMARY KEY (trainer_id, student_id)
+		);
+		CREATE INDEX IF NOT EXISTS idx_call_number_assignments_number ON call_number_assignments(virtual_number);
+	`);
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS call_policy_denials (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			trainer_id UUID NOT NULL,
+			student_id UUID NOT NULL,
+			caller_role TEXT NOT NULL CHECK (caller_role IN ('trainer', 'student')),
+			direction TEXT NOT NULL DEFAULT 'outbound',
+			reason TEXT NOT NULL CHECK (reason IN ('no_active_allocation', 'outside_session_window', 'daily_cap_reached')),
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+		CREATE INDEX IF NOT EXISTS idx_call_policy_denials_trainer ON call_policy_denials(trainer_id, created_at);
+	`);
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS call_safety_flags (
+			flag_key TEXT PRIMARY KEY,
+			pattern TEXT NOT NULL CHECK (pattern IN ('minor_quiet_hours', 'minor_long_call', 'repeated_denials')),
+			trainer_id UUID NOT NULL,
+			student_id UUID,
+			call_sid TEXT,
+			incident_id UUID,
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+		CREATE INDEX IF NOT EXISTS idx_call_safety_flags_trainer ON call_safety_flags(trainer_id, created_at);
+	`);
+}
+
+export class CallPolicyRepository {
+	constructor(private pool: Pool) {}
+
+	async hasActiveAllocation(trainerId: string, studentId: string, client?: PoolClient): Promise<boolean> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+			SELECT 1 FROM trainer_allocations
+			WHERE trainer_id = $1 AND student_id = $2 AND status IN ('approved', 'active')
+			LIMIT 1
+			`,
+			[trainerId, studentId]
+		);
+		return result.rowCount > 0;
+	}
+
+	/** Sessions of the pair scheduled from yesterday to tomorrow (enough for any call window) */
+	async findNearbySessions(
+		trainerId: string,
+		studentId: string,
+		client?: PoolClient
+	): Promise<Array<{ id: string; scheduledDate: Date; scheduledTime: string; duration: number }>> {
+		const result = await executeQuery<{ id: string; scheduledDate: Date; scheduledTime: string; duration: number }>(
+			this.pool,
+			client,
+			`
+			SELECT id, scheduled_date AS "scheduledDate", scheduled_time AS "scheduledTime", duration
+			FROM tutoring_sessions
+			WHERE trainer_id = $1 AND student_id = $2
+				AND status NOT IN ('cancelled')
+				AND scheduled_date BETWEEN (NOW() AT TIME ZONE 'Asia/Kolkata')::date - 1
+					AND (NOW() AT TIME ZONE 'Asia/Kolkata')::date + 1
+			`,
+			[trainerId, studentId]
+		);
+		return result.rows;
+	}
+
+	/** Calls (of any outcome) the pair placed today, IST */
+	async countCallsToday(trainerId: string, studentId: string, client?: PoolClient): Promise<number> {
+		const result = await executeQuery<{ count: string }>(
+			this.pool,
+			client,
+			`
+			SELECT COUNT(*) AS count FROM call_logs
+			WHERE trainer_id = $1 AND student_id = $2 AND created_at >= ${IST_DAY_START}
+			`,
+			[trainerId, studentId]
+		);
+		return Number(result.rows[0]?.count ?? 0);
+	}
+
+	async recordDenial(
+		input: {
+			trainerId: string;
+			studentId: string;
+			callerRole: 'trainer' | 'student';
+			direction: 'outbound' | 'inbound';
+			reason: CallPolicyDenialReason;
+		},
+		client?: PoolClient
+	): Promise<void> {
+		await executeQuery(
+			this.pool,
+			client,
+			`
+			INSERT INTO call_policy_denials (trainer_id, student_id, caller_role, direction, reason)
+			VALUES ($1, $2, $3, $4, $5)
+			`,
+			[input.trainerId, input.studentId, input.callerRole, input.direction, input.reason]
+		);
+	}
+
+	async countTrainerDenialsToday(trainerId: string, client?: PoolClient): Promise<number> {
+		const result = await executeQuery<{ count: string }>(
+			this.pool,
+			client,
+			`
+			SELECT COUNT(*) AS count FROM call_policy_denials
+			WHERE trainer_id = $1 AND caller_role = 'trainer' AND created_at >= ${IST_DAY_START}
+			`,
+			[trainerId]
+		);
+		return Number(result.rows[0]?.count ?? 0);
+	}
+
+	async upsertVirtualNumbers(numbers: string[], client?: PoolClient): Promise<void> {
+		if (numbers.length === 0) return;
+		await executeQuery(
+			this.pool,
+			client,
+			`
+			INSERT INTO call_virtual_numbers (number)
+			SELECT UNNEST($1::text[])
+			ON CONFLICT (number) DO NOTHING
+			`,
+			[numbers]
+		);
+	}
+
+	async setVirtualNumberActive(number: string, isActive: boolean, client?: PoolClient): Promise<VirtualNumberRecord | null> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+			INSERT INTO call_virtual_numbers (number, is_active)
+			VALUES ($1, $2)
+			ON CONFLICT (number) DO UPDATE SET is_active = EXCLUDED.is_active
+			RETURNING number
+			`,
+			[number, isActive]
+		);
+		if (!isActive) {
+			// Pairs on a retired number get a new one on their next call
+			await executeQuery(this.pool, client, `DELETE FROM call_number_assignments WHERE virtual_number = $1`, [number]);
+		}
+		return result.rowCount > 0 ? this.findVirtualNumber(number, client) : null;
+	}
+
+	async findVirtualNumber(number: string, client?: PoolClient): Promise<VirtualNumberRecord | null> {
+		const result = await executeQuery<VirtualNumberRecord>(
+			this.pool,
+			client,
+			`
+			SELECT n.number, n.is_active AS "isActive", n.created_at AS "createdAt",
+				(SELECT COUNT(*)::int FROM call_number_assignments a WHERE a.virtual_number = n.number) AS "assignedPairs"
+			FROM call_virtual_numbers n
+			WHERE n.number = $1
+			`,
+			[number]
+		);
+		return result.rows[0] ?? null;
+	}
+
+	async findVirtualNumbers(client?: PoolClient): Promise<VirtualNumberRecord[]> {
+		const result = await executeQuery<VirtualNumberRecord>(
+			this.pool,
+			client,
+			`
+			SELECT n.number, n.is_active AS "isActive", n.created_at AS "createdAt", COUNT(a.virtual_number)::int AS "assignedPairs"
+			FROM call_virtual_numbers n
+			LEFT JOIN call_number_assignments a ON a.virtual_number = n.number
+			GROUP BY n.number
+			ORDER BY n.created_at
+			`
+		);
+		return result.rows;
+	}
+
+	async findAssignment(trainerId: string, studentId: string, client?: PoolClient): Promise<NumberAssignmentRecord | null> {
+		const result = await executeQuery<NumberAssignmentRecord>(
+			this.pool,
+			client,
+			`
+			SELECT a.trainer_id AS "trainerId", a.student_id AS "studentId", a.virtual_number AS "virtualNumber",
+				a.assigned_at AS "assignedAt", a.last_used_at AS "lastUsedAt"
+			FROM call_number_assignments a
+			JOIN call_virtual_numbers n ON n.number = a.virtual_number AND n.is_active = true
+			WHERE a.trainer_id = $1 AND a.student_id = $2
+			`,
+			[trainerId, studentId]
+		);
+		return result.rows[0] ?? null;
+	}
+
+	/**
+	 * Assign the least-used active number that neither party already uses with someone else,
+	 * so an inbound call on (caller, virtual number) always identifies exactly one pair.
+	 * Returns null when the pool has no such number.
+	 */
+	async assignNumber(trainerId: string, studentId: string, client?: PoolClient): Promise<NumberAssignmentRecord | null> {
+		const result = await executeQuery<NumberAssignmentRecord>(
+			this.pool,
+			client,
+			`
+			INSERT INTO call_number_assignments AS a (trainer_id, student_id, virtual_number)
+			SELECT $1, $2, n.number
+			FROM call_virtual_numbers n
+			LEFT JOIN call_number_assignments used ON used.virtual_number = n.number
+			WHERE n.is_active = true
+				AND NOT EXISTS (
+					SELECT 1 FROM call_number_assignments clash
+					WHERE clash.virtual_number = n.number AND (clash.trainer_id = $1 OR clash.student_id = $2)
+				)
+			GROUP BY n.number
+			ORDER BY COUNT(used.virtual_number), n.created_at
+			LIMIT 1
+			ON CONFLICT (trainer_id, student_id) DO UPDATE SET virtual_number = EXCLUDED.virtual_number, assigned_at = NOW()
+			RETURNING a.trainer_id AS "trainerId", a.student_id AS "studentId", a.virtual_number AS "virtualNumber",
+				a.assigned_at AS "assignedAt", a.last_used_at AS "lastUsedAt"
+			`,
+			[trainerId, studentId]
+		);
+		return result.rows[0] ?? null;
+	}
+
+	async touchAssignment(trainerId: string, studentId: string, client?: PoolClient): Promise<void> {
+		await executeQuery(
+			this.pool,
+			client,
+			`UPDATE call_number_assignments SET last_used_at = NOW() WHERE trainer_id = $1 AND student_id = $2`,
+			[trainerId, studentId]
+		);
+	}
+
+	/**
+	 * Resolve an inbound call on a virtual number to its pair. The caller may be either party.
+	 */
+	async findPairByInboundCall(
+		virtualNumber: string,
+		callerPhone: string,
+		client?: PoolClient
+	): Promise<{ trainerId: string; studentId: string; trainerPhone: string; studentPhone: string; callerRole: 'trainer' | 'student' } | null> {
+		const result = await executeQuery<{
+			trainerId: string;
+			studentId: string;
+			trainerPhone: string;
+			studentPhone: string;
+			callerRole: 'trainer' | 'student';
+		}>(
+			this.pool,
+			client,
+			`
+			SELECT a.trainer_id AS "trainerId", a.student_id AS "studentId", t.phone AS "trainerPhone", s.phone AS "studentPhone",
+				CASE WHEN RIGHT(REGEXP_REPLACE(t.phone, '\\D', '', 'g'), 10) = RIGHT(REGEXP_REPLACE($2, '\\D', '', 'g'), 10)
+					THEN 'trainer' ELSE 'student' END AS "callerRole"
+			FROM call_number_assignments a
+			JOIN trainers t ON t.id = a.trainer_id
+			JOIN students s ON s.id = a.student_id
+			WHERE a.virtual_number = $1
+				AND RIGHT(REGEXP_REPLACE($2, '\\D', '', 'g'), 10) IN (
+					RIGHT(REGEXP_REPLACE(t.phone, '\\D', '', 'g'), 10),
+					RIGHT(REGEXP_REPLACE(s.phone, '\\D', '', 'g'), 10)
+				)
+			LIMIT 1
+			`,
+			[virtualNumber, callerPhone]
+		);
+		return result.rows[0] ?? null;
+	}
+
+	async findCall(callSid: string, client?: PoolClient): Promise<CallLogSummary | null> {
+		const result = await executeQuery<CallLogSummary>(
+			this.pool,
+			client,
+			`SELECT ${CALL_LOG_COLUMNS} FROM call_logs WHERE call_sid = $1`,
+			[callSid]
+		);
+		return result.rows[0] ?? null;
+	}
+
+	async setRecordingExpiry(callSid: string, retentionDays: number, client?: PoolClient): Promise<void> {
+		await executeQuery(
+			this.pool,
+			client,
+			`
+			UPDATE call_logs
+			SET recording_expires_at = COALESCE(recording_expires_at, COALESCE(end_time, NOW()) + ($2::int * INTERVAL '1 day'))
+			WHERE call_sid = $1 AND recording_url IS NOT NULL
+			`,
+			[callSid, retentionDays]
+		);
+	}
+
+	/** Drop recording links past their retention date */
+	async purgeExpiredRecordings(client?: PoolClient): Promise<number> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+			UPDATE call_logs
+			SET recording_url = NULL, recording_purged_at = NOW(), updated_at = NOW()
+			WHERE recording_url IS NOT NULL AND recording_expires_at IS NOT NULL AND recording_expires_at <= NOW()
+			`
+		);
+		return result.rowCount;
+	}
+
+	async findStudentAge(studentId: string, client?: PoolClient): Promise<number | null> {
+		const result = await executeQuery<{ age: number | null }>(
+			this.pool,
+			client,
+			`SELECT age FROM student_profiles WHERE student_id = $1`,
+			[studentId]
+		);
+		const age = result.rows[0]?.age;
+		return age === null || age === undefined ? null : Number(age);
+	}
+
+	/**
+	 * Claim a safety flag key. Returns false when the pattern was already flagged.
+	 */
+	async claimSafetyFlag(
+		input: { flagKey: string; pattern: CallAnomalyPattern; trainerId: string; studentId: string | null; callSid: string | null },
+		client?: PoolClient
+	): Promise<boolean> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+			INSERT INTO call_safety_flags (flag_key, pattern, trainer_id, student_id, call_sid)
+			VALUES ($1, $2, $3, $4, $5)
+			ON CONFLICT (flag_key) DO NOTHING
+			`,
+			[input.flagKey, input.pattern, input.trainerId, input.studentId, input.callSid]
+		);
+		return result.rowCount > 0;
+	}
+
+	async attachIncident(flagKey: string, incidentId: string, client?: PoolClient): Promise<void> {
+		await executeQuery(
+			this.pool,
+			client,
+			`UPDATE call_safety_flags SET incident_id = $2 WHERE flag_key = $1`,
+			[flagKey, incidentId]
+		);
+	}
+
+	/**
+	 * Call volume and duration per trainer for calls created in [from, to)
+	 */
+	async trainerReport(
+		from: Date,
+		to: Date,
+		trainerId: string | null,
+		client?: PoolClient
+	): Promise<TrainerCallReportRow[]> {
+		const result = await executeQuery<TrainerCallReportRow>(
+			this.pool,
+			client,
+			`
+			WITH calls AS (
+				SELECT trainer_id,
+					COUNT(*)::int AS calls,
+					COUNT(*) FILTER (WHERE status = 'completed' AND COALESCE(duration, 0) > 0)::int AS connected,
+					COALESCE(SUM(duration), 0)::int AS total_duration
+				FROM call_logs
+				WHERE created_at >= $1 AND created_at < $2 AND ($3::uuid IS NULL OR trainer_id = $3)
+				GROUP BY trainer_id
+			),
+			denials AS (
+				SELECT trainer_id, COUNT(*)::int AS denied
+				FROM call_policy_denials
+				WHERE created_at >= $1 AND created_at < $2 AND ($3::uuid IS NULL OR trainer_id = $3)
+				GROUP BY trainer_id
+			),
+			flags AS (
+				SELECT trainer_id, COUNT(*)::int AS flagged
+				FROM call_safety_flags
+				WHERE created_at >= $1 AND created_at < $2 AND ($3::uuid IS NULL OR trainer_id = $3)
+				GROUP BY trainer_id
+			),
+			trainers_in_range AS (
+				SELECT trainer_id FROM calls
+				UNION SELECT trainer_id FROM denials
+				UNION SELECT trainer_id FROM flags
+			)
+			SELECT
+				r.trainer_id AS "trainerId",
+				tp.full_name AS "trainerName",
+				COALESCE(c.calls, 0) AS calls,
+				COALESCE(c.connected, 0) AS "connectedCalls",
+				COALESCE(c.total_duration, 0) AS "totalDurationSeconds",
+				CASE WHEN COALESCE(c.connected, 0) > 0 THEN ROUND(c.total_duration::numeric / c.connected)::int ELSE 0 END AS "averageDurationSeconds",
+				COALESCE(d.denied, 0) AS "deniedAttempts",
+				COALESCE(f.flagged, 0) AS "safetyFlags"
+			FROM trainers_in_range r
+			LEFT JOIN calls c ON c.trainer_id = r.trainer_id
+			LEFT JOIN denials d ON d.trainer_id = r.trainer_id
+			LEFT JOIN flags f ON f.trainer_id = r.trainer_id
+			LEFT JOIN trainer_profiles tp ON tp.trainer_id = r.trainer_id
+			ORDER BY "totalDurationSeconds" DESC, calls DESC
+			`,
+			[from, to, trainerId]
+		);
+		return result.rows;
+	}
+}
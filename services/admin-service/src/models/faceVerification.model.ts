@@ -0,0 +1,469 @@
+import type { Pool, PoolClient, QueryResult } from 'pg';
+import type { FaceVerificationOutcome, LivenessPrompt } from '../utils/faceVerification';
+
+export type FaceReviewStatus = 'not_required' | 'pending' | 'approved' | 'rejected';
+
+export interface LivenessChallengeRecord {
+	id: string;
+	sessionId: string;
+	trainerId: string;
+	prompts: LivenessPrompt[];
+	expiresAt: Date;
+	usedAt: Date | null;
+	createdAt: Date;
+}
+
+export interface FaceVerificationAttemptRecord {
+	id: string;
+	sessionId: string;
+	trainerId: string;
+	cityId: string | null;
+	provider: string;
+	model: string | null;
+	challengeId: string | null;
+	prompts: LivenessPrompt[];
+	matchScore: number | null;
+	livenessScore: number | null;
+	matchThreshold: number;
+	livenessThreshold: number;
+	outcome: FaceVerificationOutcome;
+	reason: string | null;
+	reviewStatus: FaceReviewStatus;
+	reviewedBy: string | null;
+	reviewedAt: Date | null;
+	reviewNotes: string | null;
+	imageRetainUntil: Date;
+	imagesPurgedAt: Date | null;
+	createdAt: Date;
+}
+
+/** Attempt plus the stored images, while they are still within retention */
+export interface FaceVerificationAttemptWithImages extends FaceVerificationAttemptRecord {
+	probeImage: string | null;
+	livenessFrames: string[] | null;
+}
+
+export interface CreateAttemptInput {
+	sessionId: string;
+	trainerId: string;
+	cityId: string | null;
+	provider: string;
+	model: string | null;
+	challengeId: string | null;
+	prompts: LivenessPrompt[];
+	matchScore: number | null;
+	livenessScore: number | null;
+	matchThreshold: number;
+	livenessThreshold: number;
+	outcome: FaceVerificationOutcome;
+	reason: string | null;
+	reviewStatus: FaceReviewStatus;
+	probeImage: string;
+	livenessFrames: string[] | null;
+	imageRetainUntil: Date;
+}
+
+export interface CityFaceThresholdRecord {
+	cityId: string;
+	cityName?: string | null;
+	matchThreshold: number;
+	reviewMargin: number;
+	livenessThreshold: number;
+	requireLiveness: boolean;
+	updatedBy: string | null;
+	updatedAt: Date;
+}
+
+const ATTEMPT_COLUMNS = `
+	a.id,
+	a.session_id AS "sessionId",
+	a.trainer_id AS "trainerId",
+	a.city_id AS "cityId",
+	a.provider,
+	a.model,
+	a.challenge_id AS "challengeId",
+	a.prompts,
+	a.match_score::float AS "matchScore",
+	a.liveness_score::float AS "livenessScore",
+	a.match_threshold::float AS "matchThreshold",
+	a.liveness_threshold::float AS "livenessThreshold",
+	a.outcome,
+	a.reason,
+	a.review_status AS "reviewStatus",
+	a.reviewed_by AS "reviewedBy",
+	a.reviewed_at AS "reviewedAt",
+	a.review_notes AS "reviewNotes",
+	a.image_retain_until AS "imageRetainUntil",
+	a.images_purged_at AS "imagesPurgedAt",
+	a.created_at AS "createdAt"
+`;
+
+const CHALLENGE_COLUMNS = `
+	id,
+	session_id AS "sessionId",
+	trainer_id AS "trainerId",
+	prompts,
+	expires_at AS "expiresAt",
+	used_at AS "usedAt",
+	created_at AS "createdAt"
+`;
+
+const THRESHOLD_COLUMNS = `
+	t.city_id AS "cityId",
+	t.match_threshold::float AS "matchThreshold",
+	t.review_margin::float AS "reviewMargin",
+	t.liveness_threshold::float AS "livenessThreshold",
+	t.require_liveness AS "requireLiveness",
+	t.updated_by AS "updatedBy",
+	t.updated_at AS "updatedAt"
+`;
+
+function executeQuery<T extends Record<string, any> = any>(
+	pool: Pool,
+	client: PoolClient | undefined,
+	text: string,
+	params: any[] = []
+): Promise<QueryResult<T>> {
+	if (client) {
+		return client.query<T>(text, params);
+	}
+	return pool.query<T>(text, params);
+}
+
+export async function ensureFaceVerificationTables(client: PoolClient): Promise<void> {
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS face_liveness_challenges (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			session_id UUID NOT NULL REFERENCES tutoring_sessions(id) ON DELETE CASCADE,
+			trainer_id UUID NOT NULL,
+			prompts TEXT[] NOT NULL,
+			expires_at TIMESTAMPTZ NOT NULL,
+			used_at TIMESTAMPTZ,
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+		CREATE INDEX IF NOT EXISTS idx_face_liveness_challenges_session ON face_liveness_challenges(session_id);
+	`);
+
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS face_verification_attempts (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			session_id UUID NOT NULL REFERENCES tutoring_sessions(id) ON DELETE CASCADE,
+			trainer_id UUID NOT NULL,
+			city_id UUID,
+			provider TEXT NOT NULL,
+			model TEXT,
+			challenge_id UUID REFERENCES face_liveness_challenges(id) ON DELETE SET NULL,
+			prompts TEXT[] NOT NULL DEFAULT '{}',
+			match_score NUMERIC(5, 2),
+			liveness_score NUMERIC(5, 2),
+			match_threshold NUMERIC(5, 2) NOT NULL,
+			liveness_threshold NUMERIC(5, 2) NOT NULL,
+			outcome TEXT NOT NULL CHECK (outcome IN ('passed', 'borderline', 'failed')),
+			reason TEXT,
+			review_status TEXT NOT NULL DEFAULT 'not_required'
+				CHECK (review_status IN ('not_required', 'pending', 'approved', 'rejected')),
+			reviewed_by UUID,
+			reviewed_at TIMESTAMPTZ,
+			review_notes TEXT,
+			probe_image TEXT,
+			liveness_frames JSONB,
+			image_retain_until TIMESTAMPTZ NOT NULL,
+			images_purged_at TIMESTAMPTZ,
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+		CREATE INDEX IF NOT EXISTS idx_face_verification_attempts_session ON face_verification_attempts(session_id, created_at DESC);
+		CREATE INDEX IF NOT EXISTS idx_face_verification_attempts_trainer ON face_verification_attempts(trainer_id, created_at DESC);
+		CREATE INDEX IF NOT EXISTS idx_face_verification_attempts_review
+			ON face_verification_attempts(created_at) WHERE review_status = 'pending';
+		CREATE INDEX IF NOT EXISTS idx_face_verification_attempts_retention
+			ON face_verification_attempts(image_retain_until) WHERE images_purged_at IS NULL;
+	`);
+
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS face_verification_thresholds (
+			city_id UUID PRIMARY KEY,
+			match_threshold NUMERIC(5, 2) NOT NULL CHECK (match_threshold BETWEEN 0 AND 100),
+			review_margin NUMERIC(5, 2) NOT NULL CHECK (review_margin BETWEEN 0 AND 100),
+			liveness_threshold NUMERIC(5, 2) NOT NULL CHECK (liveness_threshold BETWEEN 0 AND 100),
+			require_liveness BOOLEAN NOT NULL DEFAULT true,
+			updated_by UUID,
+			updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+	`);
+}
+
+export class LivenessChallengeRepository {
+	constructor(private readonly pool: Pool) {}
+
+	async create(
+		input: { sessionId: string; trainerId: string; prompts: LivenessPrompt[]; expiresAt: Date },
+		client?: PoolClient
+	): Promise<LivenessChallengeRecord> {
+		const result = await executeQuery<LivenessChallengeRecord>(
+			this.pool,
+			client,
+			`
+				INSERT INTO face_liveness_challenges (session_id, trainer_id, prompts, expires_at)
+				VALUES ($1, $2, $3, $4)
+				RETURNING ${CHALLENGE_COLUMNS}
+			`,
+			[input.sessionId, input.trainerId, input.prompts, input.expiresAt]
+		);
+		return result.rows[0];
+	}
+
+	/**
+	 * Mark an unexpired, unused challenge for this session and trainer as used; null if none matches
+	 */
+	async consume(id: string, sessionId: string, trainerId: string, client?: PoolClient): Promise<LivenessChallengeRecord | null> {
+		const result = await executeQuery<LivenessChallengeRecord>(
+			this.pool,
+			client,
+			`
+				UPDATE face_liveness_challenges
+				SET used_at = NOW()
+				WHERE id = $1 AND session_id = $2 AND trainer_id = $3
+					AND used_at IS NULL AND expires_at > NOW()
+				RETURNING ${CHALLENGE_COLUMNS}
+			`,
+			[id, sessionId, trainerId]
+		);
+		return result.rows[0] || null;
+	}
+
+	async deleteExpired(olderThan: Date, client?: PoolClient): Promise<number> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`DELETE FROM face_liveness_challenges WHERE expires_at < $1 AND used_at IS NULL`,
+			[olderThan]
+		);
+		return result.rowCount ?? 0;
+	}
+}
+
+export class FaceVerificationAttemptRepository {
+	constructor(private readonly pool: Pool) {}
+
+	async create(input: CreateAttemptInput, client?: PoolClient): Promise<FaceVerificationAttemptRecord> {
+		const result = await executeQuery<FaceVerificationAttemptRecord>(
+			this.pool,
+			client,
+			`
+				INSERT INTO face_verification_attempts AS a (
+					session_id, trainer_id, city_id, provider, model, challenge_id, prompts,
+					match_score, liveness_score, match_threshold, liveness_threshold,
+					outcome, reason, review_status, probe_image, liveness_frames, image_retain_until
+				)
+				VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17)
+				RETURNING ${ATTEMPT_COLUMNS}
+			`,
+			[
+				input.sessionId,
+				input.trainerId,
+				input.cityId,
+				input.provider,
+				input.model,
+				input.challengeId,
+				input.prompts,
+				input.matchScore,
+				input.livenessScore,
+				input.matchThreshold,
+				input.livenessThreshold,
+				input.outcome,
+				input.reason,
+				input.reviewStatus,
+				input.probeImage,
+				input.livenessFrames ? JSON.stringify(input.livenessFrames) : null,
+				input.imageRetainUntil,
+			]
+		);
+		return result.rows[0];
+	}
+
+	async findById(id: string, client?: PoolClient): Promise<FaceVerificationAttemptWithImages | null> {
+		const result = await executeQuery<FaceVerificationAttemptWithImages>(
+			this.pool,
+			client,
+			`
+				SELECT ${ATTEMPT_COLUMNS}, a.probe_image AS "probeImage", a.liveness_frames AS "livenessFrames"
+				FROM face_verification_attempts a
+				WHERE a.id = $1
+			`,
+			[id]
+		);
+		return result.rows[0] || null;
+	}
+
+	async findAll(filters: {
+		reviewStatus?: FaceReviewStatus;
+		outcome?: FaceVerificationOutcome;
+		trainerId?: string;
+		sessionId?: string;
+		limit?: number;
+		offset?: number;
+	}): Promise<{ attempts: FaceVerificationAttemptRecord[]; total: number }> {
+		const conditions: string[] = [];
+		const params: any[] = [];
+		let paramIdx = 1;
+
+		if (filters.reviewStatus) {
+			conditions.push(`a.review_status = $${paramIdx++}`);
+			params.push(filters.reviewStatus);
+		}
+
+		if (filters.outcome) {
+			conditions.push(`a.outcome = $${paramIdx++}`);
+			params.push(filters.outcome);
+		}
+
+		if (filters.trainerId) {
+			conditions.push(`a.trainer_id = $${paramIdx++}`);
+			params.push(filters.trainerId);
+		}
+
+		if (filters.sessionId) {
+			conditions.push(`a.session_id = $${paramIdx++}`);
+			params.push(filters.sessionId);
+		}
+
+		const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+		// The review queue is worked oldest first; history views want newest first
+		const order = filters.reviewStatus === 'pending' ? 'ASC' : 'DESC';
+
+		const [rows, count] = await Promise.all([
+			this.pool.query<FaceVerificationAttemptRecord>(
+				`
+					SELECT ${ATTEMPT_COLUMNS}
+					FROM face_verification_attempts a
+					${whereClause}
+					ORDER BY a.created_at ${order}
+					LIMIT $${paramIdx} OFFSET $${paramIdx + 1}
+				`,
+				[...params, filters.limit ?? 50, filters.offset ?? 0]
+			),
+			this.pool.query<{ total: string }>(`SELECT COUNT(*) AS total FROM face_verification_attempts a ${whereClause}`, params),
+		]);
+
+		return {
+			attempts: rows.rows,
+			total: parseInt(count.rows[0]?.total || '0', 10),
+		};
+	}
+
+	/**
+	 * Record a decision on a pending attempt; null if it is not (or no longer) pending
+	 */
+	async review(
+		id: string,
+		input: { status: 'approved' | 'rejected'; reviewedBy: string; notes: string | null; imageRetainUntil: Date },
+		client?: PoolClient
+	): Promise<FaceVerificationAttemptRecord | null> {
+		const result = await executeQuery<FaceVerificationAttemptRecord>(
+			this.pool,
+			client,
+			`
+				UPDATE face_verification_attempts AS a
+				SET review_status = $2,
+					reviewed_by = $3,
+					reviewed_at = NOW(),
+					review_notes = $4,
+					image_retain_until = GREATEST(a.image_retain_until, $5)
+				WHERE a.id = $1 AND a.review_status = 'pending'
+				RETURNING ${ATTEMPT_COLUMNS}
+			`,
+			[id, input.status, input.reviewedBy, input.notes, input.imageRetainUntil]
+		);
+		return result.rows[0] || null;
+	}
+
+	/**
+	 * Drop stored images past retention. Attempts awaiting review keep their images.
+	 */
+	async purgeExpiredImages(now: Date, batchSize = 500, client?: PoolClient): Promise<number> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				UPDATE face_verification_attempts
+				SET probe_image = NULL, liveness_frames = NULL, images_purged_at = NOW()
+				WHERE id IN (
+					SELECT id FROM face_verification_attempts
+					WHERE images_purged_at IS NULL
+						AND image_retain_until < $1
+						AND review_status <> 'pending'
+					ORDER BY image_retain_until ASC
+					LIMIT $2
+				)
+			`,
+			[now, batchSize]
+		);
+		return result.rowCount ?? 0;
+	}
+}
+
+export class FaceVerificationThresholdRepository {
+	constructor(private readonly pool: Pool) {}
+
+	async findByCity(cityId: string, client?: PoolClient): Promise<CityFaceThresholdRecord | null> {
+		const result = await executeQuery<CityFaceThresholdRecord>(
+			this.pool,
+			client,
+			`SELECT ${THRESHOLD_COLUMNS} FROM face_verification_thresholds t WHERE t.city_id = $1`,
+			[cityId]
+		);
+		return result.rows[0] || null;
+	}
+
+	async findAll(client?: PoolClient): Promise<CityFaceThresholdRecord[]> {
+		const result = await executeQuery<CityFaceThresholdRecord>(
+			this.pool,
+			client,
+			`
+				SELECT ${THRESHOLD_COLUMNS}, c.name AS "cityName"
+				FROM face_verification_thresholds t
+				LEFT JOIN cities c ON c.id = t.city_id
+				ORDER BY c.name ASC NULLS LAST
+			`
+		);
+		return result.rows;
+	}
+
+	async upsert(
+		cityId: string,
+		input: { matchThreshold: number; reviewMargin: number; livenessThreshold: number; requireLiveness: boolean },
+		updatedBy: string | null,
+		client?: PoolClient
+	): Promise<CityFaceThresholdRecord> {
+		const result = await executeQuery<CityFaceThresholdRecord>(
+			this.pool,
+			client,
+			`
+				INSERT INTO face_verification_thresholds AS t (
+					city_id, match_threshold, review_margin, liveness_threshold, require_liveness, updated_by, updated_at
+				)
+				VALUES ($1, $2, $3, $4, $5, $6, NOW())
+				ON CONFLICT (city_id) DO UPDATE SET
+					match_threshold = EXCLUDED.match_threshold,
+					review_margin = EXCLUDED.review_margin,
+					liveness_threshold = EXCLUDED.liveness_threshold,
+					require_liveness = EXCLUDED.require_liveness,
+					updated_by = EXCLUDED.updated_by,
+					updated_at = NOW()
+				RETURNING ${THRESHOLD_COLUMNS}
+			`,
+			[cityId, input.matchThreshold, input.reviewMargin, input.livenessThreshold, input.requireLiveness, updatedBy]
+		);
+		return result.rows[0];
+	}
+
+	async delete(cityId: string, client?: PoolClient): Promise<boolean> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`DELETE FROM face_verification_thresholds WHERE city_id = $1`,
+			[cityId]
+		);
+		return (result.rowCount ?? 0) > 0;
+	}
+}
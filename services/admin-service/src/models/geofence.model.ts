@@ -0,0 +1,307 @@
+/**
+ * Geofence Model - per-zone radius overrides, the geofence resolved for each home session,
+ * and enter/exit events detected from the trainer's location stream.
+ */
+
+import type { Pool, PoolClient } from 'pg';
+import type { GeofenceAreaType } from '../utils/geofencing';
+
+export type GeofenceSource = 'zone_override' | 'zone_area_type' | 'zone_size' | 'default';
+export type GeofenceEventType = 'enter' | 'exit';
+/** Which stream produced the position */
+export type GeofenceEventOrigin = 'journey' | 'location_tracking' | 'session_start' | 'session_end';
+
+export interface ZoneGeofenceSettingRecord {
+	zoneId: string;
+	zoneName?: string | null;
+	areaType: GeofenceAreaType | null;
+	radiusMeters: number | null;
+	exitBufferMeters: number | null;
+	updatedBy: string | null;
+	updatedAt: Date;
+}
+
+export interface SessionGeofenceRecord {
+	sessionId: string;
+	latitude: number;
+	longitude: number;
+	radiusMeters: number;
+	exitBufferMeters: number;
+	areaType: GeofenceAreaType;
+	zoneId: string | null;
+	source: GeofenceSource;
+	createdAt: Date;
+}
+
+export interface GeofenceEventRecord {
+	id: string;
+	sessionId: string;
+	userId: string;
+	eventType: GeofenceEventType;
+	origin: GeofenceEventOrigin;
+	latitude: number;
+	longitude: number;
+	distanceMeters: number;
+	occurredAt: Date;
+}
+
+const ZONE_SETTING_COLUMNS = `
+	s.zone_id AS "zoneId",
+	s.area_type AS "areaType",
+	s.radius_meters AS "radiusMeters",
+	s.exit_buffer_meters AS "exitBufferMeters",
+	s.updated_by AS "updatedBy",
+	s.updated_at AS "updatedAt"
+`;
+
+const SESSION_GEOFENCE_COLUMNS = `
+	session_id AS "sessionId", latitude, longitude, radius_meters AS "radiusMeters",
+	exit_buffer_meters AS "exitBufferMeters", area_type AS "areaType", zone_id AS "zoneId",
+	source, created_at AS "createdAt"
+`;
+
+const EVENT_COLUMNS = `
+	id, session_id AS "sessionId", user_id AS "userId", event_type AS "eventType", origin,
+	latitude, longitude, distance_meters AS "distanceMeters", occurred_at AS "occurredAt"
+`;
+
+async function executeQuery<T>(
+	pool: Pool,
+	client: PoolClient | undefined,
+	text: string,
+	params?: any[]
+): Promise<{ rows: T[]; rowCount: number }> {
+	const result = client
+		? await client.query(text, params)
+		: await pool.query(text, params);
+	return { rows: result.rows as T[], rowCount: result.rowCount ?? 0 };
+}
+
+export async function ensureGeofenceTables(client: PoolClient): Promise<void> {
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS zone_geofence_settings (
+			zone_id UUID PRIMARY KEY,
+			area_type TEXT CHECK (area_type IN ('urban', 'suburban', 'rural')),
+			radius_meters INTEGER CHECK (radius_meters BETWEEN 25 AND 1000),
+			exit_buffer_meters INTEGER CHECK (exit_buffer_meters BETWEEN 0 AND 500),
+			updated_by UUID,
+			updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+	`);
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS session_geofences (
+			session_id UUID PRIMARY KEY REFERENCES tutoring_sessions(id) ON DELETE CASCADE,
+			latitude DOUBLE PRECISION NOT NULL,
+			longitude DOUBLE PRECISION NOT NULL,
+			radius_meters INTEGER NOT NULL,
+			exit_buffer_meters INTEGER NOT NULL,
+			area_type TEXT NOT NULL CHECK (area_type IN ('urban', 'suburban', 'rural')),
+			zone_id UUID,
+			source TEXT NOT NULL CHECK (source IN ('zone_override', 'zone_area_type', 'zone_size', 'default')),
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+	`);
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS session_geofence_events (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			session_id UUID NOT NULL REFERENCES tutoring_sessions(id) ON DELETE CASCADE,
+			user_id UUID NOT NULL,
+			event_type TEXT NOT NULL CHECK (event_type IN ('enter', 'exit')),
+			origin TEXT NOT NULL CHECK (origin IN ('journey', 'location_tracking', 'session_start', 'session_end')),
+			latitude DOUBLE PRECISION NOT NULL,
+			longitude DOUBLE PRECISION NOT NULL,
+			distance_meters INTEGER NOT NULL,
+			occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+		CREATE INDEX IF NOT EXISTS idx_session_geofence_events_session ON session_geofence_events(session_id, user_id, occurred_at);
+	`);
+}
+
+export class GeofenceRepository {
+	constructor(private pool: Pool) {}
+
+	async findZoneSetting(zoneId: string, client?: PoolClient): Promise<ZoneGeofenceSettingRecord | null> {
+		const result = await executeQuery<ZoneGeofenceSettingRecord>(
+			this.pool,
+			client,
+			`SELECT ${ZONE_SETTING_COLUMNS} FROM zone_geofence_settings s WHERE s.zone_id = $1`,
+			[zoneId]
+		);
+		return result.rows[0] ?? null;
+	}
+
+	async findAllZoneSettings(client?: PoolClient): Promise<ZoneGeofenceSettingRecord[]> {
+		const result = await executeQuery<ZoneGeofenceSettingRecord>(
+			this.pool,
+			client,
+			`
+			SELECT ${ZONE_SETTING_COLUMNS}, z.name AS "zoneName"
+			FROM zone_geofence_settings s
+			LEFT JOIN zones z ON z.id = s.zone_id
+			ORDER BY z.name NULLS LAST
+			`
+		);
+		return result.rows;
+	}
+
+	async upsertZoneSetting(
+		zoneId: string,
+		input: { areaType: GeofenceAreaType | null; radiusMeters: number | null; exitBufferMeters: number | null },
+		updatedBy: string | null,
+		client?: PoolClient
+	): Promise<ZoneGeofenceSettingRecord> {
+		const result = await executeQuery<ZoneGeofenceSettingRecord>(
+			this.pool,
+			client,
+			`
+			INSERT INTO zone_geofence_settings AS s (zone_id, area_type, radius_meters, exit_buffer_meters, updated_by, updated_at)
+			VALUES ($1, $2, $3, $4, $5, NOW())
+			ON CONFLICT (zone_id) DO UPDATE SET
+				area_type = EXCLUDED.area_type,
+				radius_meters = EXCLUDED.radius_meters,
+				exit_buffer_meters = EXCLUDED.exit_buffer_meters,
+				updated_by = EXCLUDED.updated_by,
+				updated_at = NOW()
+			RETURNING ${ZONE_SETTING_COLUMNS}
+			`,
+			[zoneId, input.areaType, input.radiusMeters, input.exitBufferMeters, updatedBy]
+		);
+		return result.rows[0];
+	}
+
+	async deleteZoneSetting(zoneId: string, client?: PoolClient): Promise<boolean> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`DELETE FROM zone_geofence_settings WHERE zone_id = $1`,
+			[zoneId]
+		);
+		return result.rowCount > 0;
+	}
+
+	/**
+	 * Active zone covering a point (closest centre wins when zones overlap)
+	 */
+	async findZoneForPoint(
+		latitude: number,
+		longitude: number,
+		client?: PoolClient
+	): Promise<{ id: string; radiusKm: number } | null> {
+		const result = await executeQuery<{ id: string; radiusKm: string }>(
+			this.pool,
+			client,
+			`
+			SELECT id, radius_km AS "radiusKm"
+			FROM (
+				SELECT
+					id,
+					radius_km,
+					6371 * 2 * ASIN(SQRT(
+						POWER(SIN(RADIANS(center_lat - $1) / 2), 2) +
+						COS(RADIANS($1)) * COS(RADIANS(center_lat)) * POWER(SIN(RADIANS(center_lng - $2) / 2), 2)
+					)) AS distance_km
+				FROM zones
+				WHERE is_active = true
+			) z
+			WHERE distance_km <= radius_km
+			ORDER BY distance_km
+			LIMIT 1
+			`,
+			[latitude, longitude]
+		);
+		const row = result.rows[0];
+		return row ? { id: row.id, radiusKm: Number(row.radiusKm) } : null;
+	}
+
+	async findSessionGeofence(sessionId: string, client?: PoolClient): Promise<SessionGeofenceRecord | null> {
+		const result = await executeQuery<SessionGeofenceRecord>(
+			this.pool,
+			client,
+			`SELECT ${SESSION_GEOFENCE_COLUMNS} FROM session_geofences WHERE session_id = $1`,
+			[sessionId]
+		);
+		return result.rows[0] ?? null;
+	}
+
+	/** First writer wins, so concurrent resolvers agree on one geofence */
+	async createSessionGeofence(
+		input: Omit<SessionGeofenceRecord, 'createdAt'>,
+		client?: PoolClient
+	): Promise<SessionGeofenceRecord> {
+		await executeQuery(
+			this.pool,
+			client,
+			`
+			INSERT INTO session_geofences (session_id, latitude, longitude, radius_meters, exit_buffer_meters, area_type, zone_id, source)
+			VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+			ON CONFLICT (session_id) DO NOTHING
+			`,
+			[
+				input.sessionId,
+				input.latitude,
+				input.longitude,
+				input.radiusMeters,
+				input.exitBufferMeters,
+				input.areaType,
+				input.zoneId,
+				input.source,
+			]
+		);
+		return (await this.findSessionGeofence(input.sessionId, client))!;
+	}
+
+	async findLastEvent(sessionId: string, userId: string, client?: PoolClient): Promise<GeofenceEventRecord | null> {
+		const result = await executeQuery<GeofenceEventRecord>(
+			this.pool,
+			client,
+			`
+			SELECT ${EVENT_COLUMNS} FROM session_geofence_events
+			WHERE session_id = $1 AND user_id = $2
+			ORDER BY occurred_at DESC
+			LIMIT 1
+			`,
+			[sessionId, userId]
+		);
+		return result.rows[0] ?? null;
+	}
+
+	async findEvents(sessionId: string, userId?: string, client?: PoolClient): Promise<GeofenceEventRecord[]> {
+		const result = await executeQuery<GeofenceEventRecord>(
+			this.pool,
+			client,
+			`
+			SELECT ${EVENT_COLUMNS} FROM session_geofence_events
+			WHERE session_id = $1 AND ($2::uuid IS NULL OR user_id = $2)
+			ORDER BY occurred_at ASC
+			`,
+			[sessionId, userId ?? null]
+		);
+		return result.rows;
+	}
+
+	async createEvent(
+		input: Omit<GeofenceEventRecord, 'id' | 'occurredAt'> & { occurredAt?: Date },
+		client?: PoolClient
+	): Promise<GeofenceEventRecord> {
+		const result = await executeQuery<GeofenceEventRecord>(
+			this.pool,
+			client,
+			`
+			INSERT INTO session_geofence_events (session_id, user_id, event_type, origin, latitude, longitude, distance_meters, occurred_at)
+			VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8, NOW()))
+			RETURNING ${EVENT_COLUMNS}
+			`,
+			[
+				input.sessionId,
+				input.userId,
+				input.eventType,
+				input.origin,
+				input.latitude,
+				input.longitude,
+				Math.round(input.distanceMeters),
+				input.occurredAt ?? null,
+			]
+		);
+		return result.rows[0];
+	}
+}
@@ -10,6 +10,35 @@ import { getPool } from '../config/database';
 export type JourneyStatus = 'created' | 'active' | 'completed' | 'cancelled';
 export type JourneyEndReason = 'arrived' | 'cancelled' | 'timeout' | 'trainer_replaced';
 
+export type JourneyAlertType = 'late_arrival' | 'long_stop' | 'route_deviation';
+
+export interface JourneyBreadcrumb {
+	sequence: number;
+	latitude: number;
+	longitude: number;
+	accuracy?: number | null;
+	speed?: number | null;
+	heading?: number | null;
+	recordedAt: string;
+}
+
+export interface JourneyAlertRecord {
+	id: string;
+	journeyId: string;
+	sessionId: string;
+	trainerId: string;
+	studentId: string;
+	type: JourneyAlertType;
+	message: string;
+	minutesLate: number | null;
+	stoppedMinutes: number | null;
+	distanceMeters: number | null;
+	estimatedArrivalAt: Date | null;
+	latitude: number | null;
+	longitude: number | null;
+	createdAt: Date;
+}
+
 export interface JourneyRecord {
 	id: string;
 	sessionId: string;
@@ -23,6 +52,13 @@ export interface JourneyRecord {
 	updatedAt: Date;
 }
 
+const ALERT_COLUMNS = `
+	id, journey_id AS "journeyId", session_id AS "sessionId", trainer_id AS "trainerId",
+	student_id AS "studentId", type, message, minutes_late AS "minutesLate",
+	stopped_minutes AS "stoppedMinutes", distance_meters AS "distanceMeters",
+	estimated_arrival_at AS "estimatedArrivalAt", latitude, longitude, created_at AS "createdAt"
+`;
+
 const JOURNEY_COLUMNS = `
 	id, session_id AS "sessionId", trainer_id AS "trainerId", student_id AS "studentId",
 	status, started_at AS "startedAt", ended_at AS "endedAt", end_reason AS "endReason",
@@ -165,4 +201,116 @@ export class JourneyRepository {
 		if (!result.rows.length) return null;
 		return mapRow(result.rows[0]);
 	}
+
+	/** Persist a completed journey's trail. Re-running for the same journey is a no-op. */
+	async saveBreadcrumbs(journeyId: string, points: JourneyBreadcrumb[], client?: PoolClient): Promise<number> {
+		if (!points.length) return 0;
+
+		const values: string[] = [];
+		const params: any[] = [journeyId];
+		for (const point of points) {
+			const base = params.length;
+			values.push(`($1, $${base + 1}, $${base + 2}, $${base + 3}, $${base + 4}, $${base + 5}, $${base + 6}, $${base + 7})`);
+			params.push(
+				point.sequence,
+				point.latitude,
+				point.longitude,
+				point.accuracy ?? null,
+				point.speed ?? null,
+				point.heading ?? null,
+				point.recordedAt
+			);
+		}
+
+		const result = await (client ?? this.pool).query(
+			`INSERT INTO journey_breadcrumbs (journey_id, sequence, latitude, longitude, accuracy, speed, heading, recorded_at)
+			 VALUES ${values.join(', ')} ON CONFLICT DO NOTHING`,
+			params
+		);
+		return result.rowCount ?? 0;
+	}
+
+	async getBreadcrumbs(journeyId: string, client?: PoolClient): Promise<JourneyBreadcrumb[]> {
+		const result = await executeQuery<JourneyBreadcrumb>(
+			this.pool,
+			client,
+			`SELECT sequence, latitude, longitude, accuracy, speed, heading, recorded_at AS "recordedAt"
+			 FROM journey_breadcrumbs WHERE journey_id = $1 ORDER BY sequence`,
+			[journeyId]
+		);
+		return result.rows;
+	}
+
+	async createAlert(
+		input: Omit<JourneyAlertRecord, 'id' | 'createdAt'>,
+		client?: PoolClient
+	): Promise<JourneyAlertRecord> {
+		const result = await executeQuery<JourneyAlertRecord>(
+			this.pool,
+			client,
+			`
+			INSERT INTO journey_alerts (
+				journey_id, session_id, trainer_id, student_id, type, message,
+				minutes_late, stopped_minutes, distance_meters, estimated_arrival_at, latitude, longitude
+			)
+			VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+			RETURNING ${ALERT_COLUMNS}
+			`,
+			[
+				input.journeyId,
+				input.sessionId,
+				input.trainerId,
+				input.studentId,
+				input.type,
+				input.message,
+				input.minutesLate,
+				input.stoppedMinutes,
+				input.distanceMeters,
+				input.estimatedArrivalAt,
+				input.latitude,
+				input.longitude,
+			]
+		);
+		return result.rows[0];
+	}
+
+	async findAlerts(filters: {
+		journeyId?: string;
+		trainerId?: string;
+		type?: JourneyAlertType;
+		since?: Date;
+		limit?: number;
+		offset?: number;
+	}, client?: PoolClient): Promise<JourneyAlertRecord[]> {
+		const conditions: string[] = [];
+		const params: any[] = [];
+		if (filters.journeyId) {
+			params.push(filters.journeyId);
+			conditions.push(`journey_id = $${params.length}`);
+		}
+		if (filters.trainerId) {
+			params.push(filters.trainerId);
+			conditions.push(`trainer_id = $${params.length}`);
+		}
+		if (filters.type) {
+			params.push(filters.type);
+			conditions.push(`type = $${params.length}`);
+		}
+		if (filters.since) {
+			params.push(filters.since);
+			conditions.push(`created_at >= $${params.length}`);
+		}
+		params.push(filters.limit ?? 100, filters.offset ?? 0);
+
+		const result = await executeQuery<JourneyAlertRecord>(
+			this.pool,
+			client,
+			`SELECT ${ALERT_COLUMNS} FROM journey_alerts
+			 ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+			 ORDER BY created_at DESC
+			 LIMIT $${params.length - 1} OFFSET $${params.length}`,
+			params
+		);
+		return result.rows;
+	}
 }
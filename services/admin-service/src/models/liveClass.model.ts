@@ -0,0 +1,378 @@
+/**
+ * Live Class Model - LiveKit room lifecycle for `session-{id}` rooms: processed webhook ids,
+ * room start/finish, per-participant attendance intervals and recording egress metadata.
+ */
+
+import type { Pool, PoolClient } from 'pg';
+
+export type LiveClassParticipantRole = 'trainer' | 'student' | 'other';
+export type LiveClassRecordingStatus = 'starting' | 'active' | 'ending' | 'complete' | 'failed' | 'aborted';
+
+export interface LiveClassRoomRecord {
+	sessionId: string;
+	roomName: string;
+	roomSid: string | null;
+	startedAt: Date | null;
+	finishedAt: Date | null;
+	/** Set once the session has been auto-ended (or left alone) from the attendance data */
+	finalizedAt: Date | null;
+	finalizeOutcome: string | null;
+}
+
+export interface LiveClassAttendanceRecord {
+	id: string;
+	sessionId: string;
+	identity: string;
+	participantSid: string;
+	role: LiveClassParticipantRole;
+	joinedAt: Date;
+	leftAt: Date | null;
+	/** participant_left / participant_connection_aborted / room_finished */
+	leaveReason: string | null;
+}
+
+export interface LiveClassRecordingRecord {
+	egressId: string;
+	sessionId: string;
+	status: LiveClassRecordingStatus;
+	fileName: string | null;
+	location: string | null;
+	durationSeconds: number | null;
+	sizeBytes: number | null;
+	startedAt: Date | null;
+	endedAt: Date | null;
+	error: string | null;
+	updatedAt: Date;
+}
+
+const ROOM_COLUMNS = `
+	session_id AS "sessionId", room_name AS "roomName", room_sid AS "roomSid", started_at AS "startedAt",
+	finished_at AS "finishedAt", finalized_at AS "finalizedAt", finalize_outcome AS "finalizeOutcome"
+`;
+
+const ATTENDANCE_COLUMNS = `
+	id, session_id AS "sessionId", identity, participant_sid AS "participantSid", role,
+	joined_at AS "joinedAt", left_at AS "leftAt", leave_reason AS "leaveReason"
+`;
+
+const RECORDING_COLUMNS = `
+	egress_id AS "egressId", session_id AS "sessionId", status, file_name AS "fileName", location,
+	duration_seconds AS "durationSeconds", size_bytes AS "sizeBytes", started_at AS "startedAt",
+	ended_at AS "endedAt", error, updated_at AS "updatedAt"
+`;
+
+async function executeQuery<T>(
+	pool: Pool,
+	client: PoolClient | undefined,
+	text: string,
+	params?: any[]
+): Promise<{ rows: T[]; rowCount: number }> {
+	const result = client
+		? await client.query(text, params)
+		: await pool.query(text, params);
+	return { rows: result.rows as T[], rowCount: result.rowCount ?? 0 };
+}
+
+function mapRecording(row: any): LiveClassRecordingRecord {
+	return {
+		...row,
+		sizeBytes: row.sizeBytes === null ? null : Number(row.sizeBytes),
+	};
+}
+
+export async function ensureLiveClassTables(client: PoolClient): Promise<void> {
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS livekit_webhook_events (
+			event_id TEXT PRIMARY KEY,
+			event TEXT NOT NULL,
+			room_name TEXT,
+			received_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+		CREATE INDEX IF NOT EXISTS idx_livekit_webhook_events_received ON livekit_webhook_events(received_at);
+	`);
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS live_class_rooms (
+			session_id UUID PRIMARY KEY REFERENCES tutoring_sessions(id) ON DELETE CASCADE,
+			room_name TEXT NOT NULL,
+			room_sid TEXT,
+			started_at TIMESTAMPTZ,
+			finished_at TIMESTAMPTZ,
+			finalized_at TIMESTAMPTZ,
+			finalize_outcome TEXT,
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+	`);
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS live_class_attendance (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			session_id UUID NOT NULL REFERENCES tutoring_sessions(id) ON DELETE CASCADE,
+			identity TEXT NOT NULL,
+			participant_sid TEXT NOT NULL,
+			role TEXT NOT NULL CHECK (role IN ('trainer', 'student', 'other')),
+			joined_at TIMESTAMPTZ NOT NULL,
+			left_at TIMESTAMPTZ,
+			leave_reason TEXT,
+			UNIQUE (session_id, participant_sid)
+		);
+		CREATE INDEX IF NOT EXISTS idx_live_class_attendance_session ON live_class_attendance(session_id, identity, joined_at);
+	`);
+	await client.query(`
+		CREATE TABLE IF NOT EXISTS live_class_recordings (
+			egress_id TEXT PRIMARY KEY,
+			session_id UUID NOT NULL REFERENCES tutoring_sessions(id) ON DELETE CASCADE,
+			status TEXT NOT NULL CHECK (status IN ('starting', 'active', 'ending', 'complete', 'failed', 'aborted')),
+			file_name TEXT,
+			location TEXT,
+			duration_seconds INTEGER,
+			size_bytes BIGINT,
+			started_at TIMESTAMPTZ,
+			ended_at TIMESTAMPTZ,
+			error TEXT,
+			updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+		CREATE INDEX IF NOT EXISTS idx_live_class_recordings_session ON live_class_recordings(session_id);
+	`);
+}
+
+export class LiveClassRepository {
+	constructor(private pool: Pool) {}
+
+	/**
+	 * Claim a webhook delivery. Returns false when LiveKit has already delivered this event id.
+	 */
+	async claimWebhookEvent(eventId: string, event: string, roomName: string | null, client?: PoolClient): Promise<boolean> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+			INSERT INTO livekit_webhook_events (event_id, event, room_name)
+			VALUES ($1, $2, $3)
+			ON CONFLICT (event_id) DO NOTHING
+			`,
+			[eventId, event, roomName]
+		);
+		return result.rowCount > 0;
+	}
+
+	/** Drop a claim whose processing failed, so the redelivered event is handled */
+	async releaseWebhookEvent(eventId: string, client?: PoolClient): Promise<void> {
+		await executeQuery(this.pool, client, 'DELETE FROM livekit_webhook_events WHERE event_id = $1', [eventId]);
+	}
+
+	async findRoom(sessionId: string, client?: PoolClient): Promise<LiveClassRoomRecord | null> {
+		const result = await executeQuery<LiveClassRoomRecord>(
+			this.pool,
+			client,
+			`SELECT ${ROOM_COLUMNS} FROM live_class_rooms WHERE session_id = $1`,
+			[sessionId]
+		);
+		return result.rows[0] ?? null;
+	}
+
+	/** A (re)started room is live again, so it needs finalizing again when it empties */
+	async markRoomStarted(
+		sessionId: string,
+		roomName: string,
+		roomSid: string | null,
+		startedAt: Date,
+		client?: PoolClient
+	): Promise<LiveClassRoomRecord> {
+		const result = await executeQuery<LiveClassRoomRecord>(
+			this.pool,
+			client,
+			`
+			INSERT INTO live_class_rooms (session_id, room_name, room_sid, started_at)
+			VALUES ($1, $2, $3, $4)
+			ON CONFLICT (session_id) DO UPDATE SET
+				room_sid = COALESCE(EXCLUDED.room_sid, live_class_rooms.room_sid),
+				started_at = COALESCE(live_class_rooms.started_at, EXCLUDED.started_at),
+				finished_at = NULL,
+				finalized_at = NULL,
+				finalize_outcome = NULL
+			RETURNING ${ROOM_COLUMNS}
+			`,
+			[sessionId, roomName, roomSid, startedAt]
+		);
+		return result.rows[0];
+	}
+
+	async markRoomFinished(sessionId: string, roomName: string, finishedAt: Date, client?: PoolClient): Promise<void> {
+		await executeQuery(
+			this.pool,
+			client,
+			`
+			INSERT INTO live_class_rooms (session_id, room_name, finished_at)
+			VALUES ($1, $2, $3)
+			ON CONFLICT (session_id) DO UPDATE SET finished_at = EXCLUDED.finished_at
+			`,
+			[sessionId, roomName, finishedAt]
+		);
+	}
+
+	/**
+	 * Mark the room finalized. Returns false when another worker got there first.
+	 */
+	async markFinalized(sessionId: string, outcome: string, client?: PoolClient): Promise<boolean> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+			UPDATE live_class_rooms
+			SET finalized_at = NOW(), finalize_outcome = $2
+			WHERE session_id = $1 AND finalized_at IS NULL
+			`,
+			[sessionId, outcome]
+		);
+		return result.rowCount > 0;
+	}
+
+	/**
+	 * Online sessions still in progress whose trainer has been out of the room for longer than the grace period
+	 */
+	async findSessionsAwaitingTrainer(graceMinutes: number, client?: PoolClient): Promise<string[]> {
+		const result = await executeQuery<{ sessionId: string }>(
+			this.pool,
+			client,
+			`
+			SELECT r.session_id AS "sessionId"
+			FROM live_class_rooms r
+			JOIN tutoring_sessions ts ON ts.id = r.session_id
+			WHERE r.finalized_at IS NULL
+				AND ts.status = 'in_progress'
+				AND EXISTS (
+					SELECT 1 FROM live_class_attendance a
+					WHERE a.session_id = r.session_id AND a.role = 'trainer'
+				)
+				AND NOT EXISTS (
+					SELECT 1 FROM live_class_attendance a
+					WHERE a.session_id = r.session_id AND a.role = 'trainer'
+						AND (a.left_at IS NULL OR a.left_at > NOW() - ($1::int * INTERVAL '1 minute'))
+				)
+			`,
+			[graceMinutes]
+		);
+		return result.rows.map((row) => row.sessionId);
+	}
+
+	async openInterval(
+		input: Omit<LiveClassAttendanceRecord, 'id' | 'leftAt' | 'leaveReason'>,
+		client?: PoolClient
+	): Promise<void> {
+		await executeQuery(
+			this.pool,
+			client,
+			`
+			INSERT INTO live_class_attendance (session_id, identity, participant_sid, role, joined_at)
+			VALUES ($1, $2, $3, $4, $5)
+			ON CONFLICT (session_id, participant_sid) DO NOTHING
+			`,
+			[input.sessionId, input.identity, input.participantSid, input.role, input.joinedAt]
+		);
+	}
+
+	/**
+	 * Close the participant's interval. A leave without a matching join (webhook lost) still records
+	 * an interval, starting at the join time LiveKit reports on the participant.
+	 */
+	async closeInterval(
+		input: Omit<LiveClassAttendanceRecord, 'id' | 'leftAt' | 'leaveReason'> & { leftAt: Date; leaveReason: string },
+		client?: PoolClient
+	): Promise<void> {
+		await executeQuery(
+			this.pool,
+			client,
+			`
+			INSERT INTO live_class_attendance (session_id, identity, participant_sid, role, joined_at, left_at, leave_reason)
+			VALUES ($1, $2, $3, $4, $5, $6, $7)
+			ON CONFLICT (session_id, participant_sid) DO UPDATE SET
+				left_at = EXCLUDED.left_at,
+				leave_reason = EXCLUDED.leave_reason
+			WHERE live_class_attendance.left_at IS NULL
+			`,
+			[input.sessionId, input.identity, input.participantSid, input.role, input.joinedAt, input.leftAt, input.leaveReason]
+		);
+	}
+
+	/** Close every interval still open when the room finishes */
+	async closeOpenIntervals(sessionId: string, leftAt: Date, leaveReason: string, client?: PoolClient): Promise<number> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+			UPDATE live_class_attendance
+			SET left_at = GREATEST(joined_at, $2), leave_reason = $3
+			WHERE session_id = $1 AND left_at IS NULL
+			`,
+			[sessionId, leftAt, leaveReason]
+		);
+		return result.rowCount;
+	}
+
+	async findIntervals(sessionId: string, client?: PoolClient): Promise<LiveClassAttendanceRecord[]> {
+		const result = await executeQuery<LiveClassAttendanceRecord>(
+			this.pool,
+			client,
+			`
+			SELECT ${ATTENDANCE_COLUMNS} FROM live_class_attendance
+			WHERE session_id = $1
+			ORDER BY joined_at ASC
+			`,
+			[sessionId]
+		);
+		return result.rows;
+	}
+
+	async upsertRecording(
+		input: Omit<LiveClassRecordingRecord, 'updatedAt'>,
+		client?: PoolClient
+	): Promise<LiveClassRecordingRecord> {
+		const result = await executeQuery<LiveClassRecordingRecord>(
+			this.pool,
+			client,
+			`
+			INSERT INTO live_class_recordings AS r (
+				egress_id, session_id, status, file_name, location, duration_seconds, size_bytes, started_at, ended_at, error, updated_at
+			)
+			VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+			ON CONFLICT (egress_id) DO UPDATE SET
+				status = EXCLUDED.status,
+				file_name = COALESCE(EXCLUDED.file_name, r.file_name),
+				location = COALESCE(EXCLUDED.location, r.location),
+				duration_seconds = COALESCE(EXCLUDED.duration_seconds, r.duration_seconds),
+				size_bytes = COALESCE(EXCLUDED.size_bytes, r.size_bytes),
+				started_at = COALESCE(r.started_at, EXCLUDED.started_at),
+				ended_at = COALESCE(EXCLUDED.ended_at, r.ended_at),
+				error = COALESCE(EXCLUDED.error, r.error),
+				updated_at = NOW()
+			RETURNING ${RECORDING_COLUMNS}
+			`,
+			[
+				input.egressId,
+				input.sessionId,
+				input.status,
+				input.fileName,
+				input.location,
+				input.durationSeconds,
+				input.sizeBytes,
+				input.startedAt,
+				input.endedAt,
+				input.error,
+			]
+		);
+		return mapRecording(result.rows[0]);
+	}
+
+	async findRecordings(sessionId: string, client?: PoolClient): Promise<LiveClassRecordingRecord[]> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+			SELECT ${RECORDING_COLUMNS} FROM live_class_recordings
+			WHERE session_id = $1
+			ORDER BY started_at ASC NULLS LAST
+			`,
+			[sessionId]
+		);
+		return result.rows.map(mapRecording);
+	}
+}
@@ -130,3 +130,22 @@ export async function setPermissionsForRole(
 	);
 }
 
+
+/**
+ * Active admins holding a permission through any of their roles
+ */
+export async function findActiveAdminIdsWithPermission(permissionCode: string, client?: PoolClient): Promise<string[]> {
+	const result = await query<{ adminId: string }>(
+		`
+			SELECT DISTINCT au.id AS "adminId"
+			FROM admin_users au
+			INNER JOIN admin_user_roles aur ON aur.admin_id = au.id
+			INNER JOIN admin_role_permissions arp ON arp.role_id = aur.role_id
+			INNER JOIN admin_permissions ap ON ap.id = arp.permission_id
+			WHERE ap.code = $1 AND au.status = 'active'
+		`,
+		[permissionCode],
+		client
+	);
+	return result.rows.map((row) => row.adminId);
+}
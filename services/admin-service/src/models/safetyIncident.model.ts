@@ -15,7 +15,7 @@ export type SafetyIncidentRecord = {
 		latitude: number;
 		longitude: number;
 		address?: string;
-	};
+	} | null; // null for incidents without a physical location (chat moderation escalations)
 	severity: SafetyIncidentSeverity;
 	status: SafetyIncidentStatus;
 	reportedAt: Date;
@@ -37,7 +37,7 @@ export type CreateSafetyIncidentInput = {
 		latitude: number;
 		longitude: number;
 		address?: string;
-	};
+	} | null; // null for incidents without a physical location (chat moderation escalations)
 	severity: SafetyIncidentSeverity;
 	metadata?: Record<string, unknown>;
 };
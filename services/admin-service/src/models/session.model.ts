@@ -62,6 +62,10 @@ export interface SessionRecord {
 	resolvedAt: Date | null;
 	resolvedBy: string | null; // Admin ID
 	resolutionNotes: string | null;
+
+	// Geofence presence cross-check (set when the session ends)
+	presenceDisputed: boolean;
+	presenceDisputeReason: string | null;
 	
 	// Student OTP Verification (Reverse Flow)
 	studentOtp: string | null; // OTP generated when trainer arrives
@@ -103,6 +107,10 @@ export interface StartSessionInput {
 	};
 	faceVerificationImage: string; // Base64 encoded image
 	faceVerificationMethod?: 'selfie' | 'video';
+	/** Challenge issued by POST /sessions/:sessionId/face-challenge */
+	livenessChallengeId?: string | null;
+	/** Baseline frame then one frame per challenge prompt, as data URIs */
+	livenessFrames?: string[] | null;
 }
 
 export interface EndSessionInput {
@@ -151,6 +159,8 @@ const SESSION_COLUMNS = `
 	resolved_at AS "resolvedAt",
 	resolved_by AS "resolvedBy",
 	resolution_notes AS "resolutionNotes",
+	presence_disputed AS "presenceDisputed",
+	presence_dispute_reason AS "presenceDisputeReason",
 	student_otp AS "studentOtp",
 	student_otp_generated_at AS "studentOtpGeneratedAt",
 	student_otp_verified AS "studentOtpVerified",
@@ -236,6 +246,8 @@ function mapRow(row: any): SessionRecord {
 		resolvedAt: row.resolvedAt,
 		resolvedBy: row.resolvedBy,
 		resolutionNotes: row.resolutionNotes,
+		presenceDisputed: row.presenceDisputed ?? false,
+		presenceDisputeReason: row.presenceDisputeReason ?? null,
 		studentOtp: row.studentOtp,
 		studentOtpGeneratedAt: row.studentOtpGeneratedAt,
 		studentOtpVerified: row.studentOtpVerified,
@@ -302,6 +314,8 @@ export async function ensureSessionTable(poolOrClient: Pool | PoolClient): Promi
 			resolved_at TIMESTAMPTZ,
 			resolved_by UUID REFERENCES admin_users(id),
 			resolution_notes TEXT,
+			presence_disputed BOOLEAN NOT NULL DEFAULT false,
+			presence_dispute_reason TEXT,
 			
 			-- Student OTP Verification (Reverse Flow)
 			student_otp VARCHAR(10),
@@ -617,6 +631,21 @@ export async function ensureSessionTable(poolOrClient: Pool | PoolClient): Promi
 				ALTER TABLE tutoring_sessions ADD COLUMN resolution_notes TEXT;
 			END IF;
 
+			-- Add geofence presence cross-check columns if they don't exist
+			IF NOT EXISTS (
+				SELECT 1 FROM information_schema.columns 
+				WHERE table_name='tutoring_sessions' AND column_name='presence_disputed'
+			) THEN
+				ALTER TABLE tutoring_sessions ADD COLUMN presence_disputed BOOLEAN NOT NULL DEFAULT false;
+			END IF;
+
+			IF NOT EXISTS (
+				SELECT 1 FROM information_schema.columns 
+				WHERE table_name='tutoring_sessions' AND column_name='presence_dispute_reason'
+			) THEN
+				ALTER TABLE tutoring_sessions ADD COLUMN presence_dispute_reason TEXT;
+			END IF;
+
 			-- Add timing columns if they don't exist
 			IF NOT EXISTS (
 				SELECT 1 FROM information_schema.columns 
@@ -882,6 +911,8 @@ export class SessionRepository {
 					ts.resolved_at AS "resolvedAt",
 					ts.resolved_by AS "resolvedBy",
 					ts.resolution_notes AS "resolutionNotes",
+					ts.presence_disputed AS "presenceDisputed",
+					ts.presence_dispute_reason AS "presenceDisputeReason",
 					ts.student_otp AS "studentOtp",
 					ts.student_otp_generated_at AS "studentOtpGeneratedAt",
 					ts.student_otp_verified AS "studentOtpVerified",
@@ -1068,7 +1099,8 @@ export class SessionRepository {
 	async updateEndSession(
 		id: string,
 		updates: {
-			trainerEndLocation: { latitude: number; longitude: number; timestamp: Date };
+			/** null for online sessions ended from LiveKit attendance */
+			trainerEndLocation: { latitude: number; longitude: number; timestamp: Date } | null;
 			endedAt: Date;
 			actualDuration: number;
 			notes?: string | null;
@@ -1092,7 +1124,7 @@ export class SessionRepository {
 			`,
 			[
 				id,
-				JSON.stringify(updates.trainerEndLocation),
+				updates.trainerEndLocation ? JSON.stringify(updates.trainerEndLocation) : null,
 				updates.endedAt,
 				updates.actualDuration,
 				updates.notes || null,
@@ -1106,6 +1138,66 @@ export class SessionRepository {
 		return mapRow(result.rows[0]);
 	}
 
+	/**
+	 * Online session start, taken from the trainer joining the LiveKit room.
+	 * Only moves a session that has not started yet, so repeated joins are no-ops.
+	 */
+	async updateOnlineStart(id: string, startedAt: Date, client?: PoolClient): Promise<SessionRecord | null> {
+		const result = await executeQuery<SessionRecord>(
+			this.pool,
+			client,
+			`
+				UPDATE tutoring_sessions
+				SET
+					status = 'in_progress',
+					started_at = $2,
+					updated_at = NOW()
+				WHERE id = $1 AND status IN ('scheduled', 'pending_verification')
+				RETURNING ${SESSION_COLUMNS}
+			`,
+			[id, startedAt]
+		);
+
+		if (!result.rows.length) {
+			return null;
+		}
+
+		return mapRow(result.rows[0]);
+	}
+
+	/**
+	 * Record the presence cross-check (geofence or LiveKit attendance). A mismatch also sets
+	 * disputed_at/disputed_reason, so it reaches the admin dispute review and the dispute-rate
+	 * rollups; an earlier dispute (e.g. from the student) is kept.
+	 */
+	async updatePresenceCheck(
+		id: string,
+		updates: { disputed: boolean; reason: string | null },
+		client?: PoolClient
+	): Promise<SessionRecord | null> {
+		const result = await executeQuery<SessionRecord>(
+			this.pool,
+			client,
+			`
+				UPDATE tutoring_sessions
+				SET presence_disputed = $2,
+					presence_dispute_reason = $3,
+					disputed_at = CASE WHEN $2 THEN COALESCE(disputed_at, NOW()) ELSE disputed_at END,
+					disputed_reason = CASE WHEN $2 THEN COALESCE(disputed_reason, $3) ELSE disputed_reason END,
+					updated_at = NOW()
+				WHERE id = $1
+				RETURNING ${SESSION_COLUMNS}
+			`,
+			[id, updates.disputed, updates.reason]
+		);
+
+		if (!result.rows.length) {
+			return null;
+		}
+
+		return mapRow(result.rows[0]);
+	}
+
 	async updateConfirmation(
 		id: string,
 		updates: {
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import type { Router as ExpressRouter } from 'express';
+import { AccountLockoutController } from '../controllers/accountLockout.controller';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+
+const router: ExpressRouter = Router();
+
+// All routes require admin authentication
+// IMPORTANT: More specific routes must come before generic routes
+router.get('/events', requireAdminAuth, AccountLockoutController.listEvents);
+router.post('/ip/unlock', requireAdminAuth, AccountLockoutController.unlockIp);
+router.get('/:userType/:userId', requireAdminAuth, AccountLockoutController.getUserStatus);
+router.post('/:userType/:userId/unlock', requireAdminAuth, AccountLockoutController.unlockUser);
+
+export default router;
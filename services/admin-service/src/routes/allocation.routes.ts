@@ -3,16 +3,20 @@ import type { Router as ExpressRouter } from 'express';
 import { AllocationController } from '../controllers/allocation.controller';
 import { requireAdminAuth } from '../middlewares/requireAdminAuth';
 import { requireUserAuth } from '../middlewares/requireUserAuth';
+import { requirePermission } from '../middlewares/requirePermission';
+import { PERMISSIONS } from '../constants/permissions';
 
 const router: ExpressRouter = Router();
 
 // Admin-only routes
 router.post('/', requireAdminAuth, AllocationController.create);
-router.post('/:id/approve', requireAdminAuth, AllocationController.approve);
-router.post('/:id/reject', requireAdminAuth, AllocationController.reject);
-router.post('/allocate', requireAdminAuth, AllocationController.allocate);
-router.put('/:id', requireAdminAuth, AllocationController.update);
-router.post('/:id/cancel', requireAdminAuth, AllocationController.cancel);
+// Allocation decisions and overrides are permission-gated and audited
+const canAssign = requirePermission(PERMISSIONS.ASSIGN_TUTOR_TO_STUDENT, { entityType: 'allocation' });
+router.post('/:id/approve', requireAdminAuth, canAssign, AllocationController.approve);
+router.post('/:id/reject', requireAdminAuth, canAssign, AllocationController.reject);
+router.post('/allocate', requireAdminAuth, canAssign, AllocationController.allocate);
+router.put('/:id', requireAdminAuth, canAssign, AllocationController.update);
+router.post('/:id/cancel', requireAdminAuth, canAssign, AllocationController.cancel);
 
 // Auto-assignment route (internal service call, no auth required for now)
 // TODO: Add service-to-service authentication in production
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import type { Router as ExpressRouter } from 'express';
+import { AuditLogController } from '../controllers/auditLog.controller';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+import { requireAnyPermission } from '../middlewares/requirePermission';
+import { PERMISSIONS } from '../constants/permissions';
+
+const router: ExpressRouter = Router();
+
+const canViewAudit = requireAnyPermission([PERMISSIONS.VIEW_AUDIT_TRAIL, PERMISSIONS.VIEW_WHO_CHANGED_WHAT]);
+
+// IMPORTANT: More specific routes must come before generic routes
+router.get('/export.csv', requireAdminAuth, canViewAudit, AuditLogController.exportCsv);
+router.get('/verify', requireAdminAuth, canViewAudit, AuditLogController.verify);
+router.get('/:id', requireAdminAuth, canViewAudit, AuditLogController.getById);
+router.get('/', requireAdminAuth, canViewAudit, AuditLogController.list);
+
+export default router;
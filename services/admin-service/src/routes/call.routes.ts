@@ -2,6 +2,9 @@ import { Router } from 'express';
 import type { Router as ExpressRouter } from 'express';
 import * as CallController from '../controllers/call.controller';
 import { requireUserAuth } from '../middlewares/requireUserAuth';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+import { requireAnyPermission, requirePermission } from '../middlewares/requirePermission';
+import { PERMISSIONS } from '../constants/permissions';
 
 const router: ExpressRouter = Router();
 
@@ -18,6 +21,12 @@ router.post(
 	CallController.handleWebhook
 );
 
+// Exotel connect applet for calls to a pair's virtual number (no auth required - Exotel calls this)
+router.get(
+	'/connect',
+	CallController.connectInboundCall
+);
+
 // Get call history
 router.get(
 	'/history',
@@ -25,5 +34,36 @@ router.get(
 	CallController.getCallHistory
 );
 
-export default router;
+// Admin: reporting, virtual-number pool and recording access
+router.get(
+	'/reports/trainers',
+	requireAdminAuth,
+	requirePermission(PERMISSIONS.VIEW_TUTOR_ACTIVITY),
+	CallController.getTrainerCallReport
+);
+router.get(
+	'/virtual-numbers',
+	requireAdminAuth,
+	requirePermission(PERMISSIONS.MANAGE_CLASSES),
+	CallController.listVirtualNumbers
+);
+router.post(
+	'/virtual-numbers',
+	requireAdminAuth,
+	requirePermission(PERMISSIONS.MANAGE_CLASSES, { action: 'call.virtual_number_add', entityType: 'virtual_number' }),
+	CallController.addVirtualNumber
+);
+router.delete(
+	'/virtual-numbers/:number',
+	requireAdminAuth,
+	requirePermission(PERMISSIONS.MANAGE_CLASSES, { action: 'call.virtual_number_deactivate', entityType: 'virtual_number', entityIdParam: 'number' }),
+	CallController.deactivateVirtualNumber
+);
+router.get(
+	'/:callSid/recording',
+	requireAdminAuth,
+	requireAnyPermission([PERMISSIONS.HANDLE_COMPLAINTS, PERMISSIONS.HANDLE_PARENTAL_COMPLAINTS, PERMISSIONS.VIEW_ALL_SOS_ALERTS]),
+	CallController.getCallRecording
+);
 
+export default router;
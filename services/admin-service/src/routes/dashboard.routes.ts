@@ -0,0 +1,21 @@
+import { Router } from 'express';
+import type { Router as ExpressRouter } from 'express';
+import { AnalyticsDashboardController } from '../controllers/analyticsDashboard.controller';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+import { requireAnyPermission, requirePermission } from '../middlewares/requirePermission';
+import { PERMISSIONS } from '../constants/permissions';
+
+const router: ExpressRouter = Router();
+
+const canViewDashboard = requireAnyPermission([PERMISSIONS.VIEW_PLATFORM_ANALYTICS, PERMISSIONS.VIEW_DISTRICT_PERFORMANCE]);
+
+router.get('/operations', requireAdminAuth, canViewDashboard, AnalyticsDashboardController.getOperations);
+router.get('/demand-capacity', requireAdminAuth, canViewDashboard, AnalyticsDashboardController.getDemandCapacity);
+router.post(
+	'/rollups/refresh',
+	requireAdminAuth,
+	requirePermission(PERMISSIONS.VIEW_PLATFORM_ANALYTICS, { action: 'analytics.rollups_refresh', entityType: 'analytics_rollup' }),
+	AnalyticsDashboardController.refreshRollups
+);
+
+export default router;
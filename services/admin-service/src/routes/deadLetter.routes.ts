@@ -0,0 +1,22 @@
+/**
+ * Dead Letter Queue Routes
+ *
+ * Admin API for browsing and replaying failed Kafka worker events.
+ */
+
+import { Router } from 'express';
+import type { Router as ExpressRouter } from 'express';
+import { DeadLetterController } from '../controllers/deadLetter.controller';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+
+export function createDeadLetterRoutes(): Router {
+  const router: ExpressRouter = Router();
+
+  // All routes require admin authentication
+  router.get('/messages', requireAdminAuth, DeadLetterController.list);
+  router.get('/messages/:eventId', requireAdminAuth, DeadLetterController.get);
+  router.post('/messages/:eventId/replay', requireAdminAuth, DeadLetterController.replay);
+  router.post('/replay', requireAdminAuth, DeadLetterController.replayBulk);
+
+  return router;
+}
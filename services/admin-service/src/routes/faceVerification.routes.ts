@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import type { Router as ExpressRouter } from 'express';
+import { FaceVerificationController } from '../controllers/faceVerification.controller';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+import { requireAnyPermission, requirePermission } from '../middlewares/requirePermission';
+import { PERMISSIONS } from '../constants/permissions';
+
+const router: ExpressRouter = Router();
+
+const canViewAttempts = requireAnyPermission([PERMISSIONS.TRACK_TUTOR_ARRIVAL, PERMISSIONS.VIEW_TUTOR_ATTENDANCE]);
+
+// IMPORTANT: More specific routes must come before generic routes
+router.get('/thresholds', requireAdminAuth, requirePermission(PERMISSIONS.MANAGE_TUTORS), FaceVerificationController.listThresholds);
+router.put(
+	'/thresholds/:cityId',
+	requireAdminAuth,
+	requirePermission(PERMISSIONS.MANAGE_TUTORS, { action: 'face_verification.thresholds_update', entityType: 'city', entityIdParam: 'cityId' }),
+	FaceVerificationController.setThresholds
+);
+router.delete(
+	'/thresholds/:cityId',
+	requireAdminAuth,
+	requirePermission(PERMISSIONS.MANAGE_TUTORS, { action: 'face_verification.thresholds_clear', entityType: 'city', entityIdParam: 'cityId' }),
+	FaceVerificationController.clearThresholds
+);
+
+router.get('/', requireAdminAuth, canViewAttempts, FaceVerificationController.listAttempts);
+router.post(
+	'/:id/review',
+	requireAdminAuth,
+	requirePermission(PERMISSIONS.TRACK_TUTOR_ARRIVAL, { action: 'face_verification.review', entityType: 'face_verification_attempt', entityIdParam: 'id' }),
+	FaceVerificationController.reviewAttempt
+);
+router.get('/:id', requireAdminAuth, canViewAttempts, FaceVerificationController.getAttempt);
+
+export default router;
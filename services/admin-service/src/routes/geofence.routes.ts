@@ -0,0 +1,30 @@
+import { Router } from 'express';
+import type { Router as ExpressRouter } from 'express';
+import { GeofenceController } from '../controllers/geofence.controller';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+import { requireAnyPermission, requirePermission } from '../middlewares/requirePermission';
+import { PERMISSIONS } from '../constants/permissions';
+
+const router: ExpressRouter = Router();
+
+router.get('/zones', requireAdminAuth, requirePermission(PERMISSIONS.UPDATE_ZONE), GeofenceController.listZoneSettings);
+router.put(
+	'/zones/:zoneId',
+	requireAdminAuth,
+	requirePermission(PERMISSIONS.UPDATE_ZONE, { action: 'geofence.zone_update', entityType: 'zone', entityIdParam: 'zoneId' }),
+	GeofenceController.setZoneSetting
+);
+router.delete(
+	'/zones/:zoneId',
+	requireAdminAuth,
+	requirePermission(PERMISSIONS.UPDATE_ZONE, { action: 'geofence.zone_clear', entityType: 'zone', entityIdParam: 'zoneId' }),
+	GeofenceController.clearZoneSetting
+);
+router.get(
+	'/sessions/:sessionId',
+	requireAdminAuth,
+	requireAnyPermission([PERMISSIONS.TRACK_TUTOR_ARRIVAL_EXIT, PERMISSIONS.TRACK_TUTOR_ARRIVAL, PERMISSIONS.MONITOR_ATTENDANCE]),
+	GeofenceController.getSessionPresence
+);
+
+export default router;
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import type { Router as ExpressRouter } from 'express';
+import { HolidayCalendarController } from '../controllers/holidayCalendar.controller';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+
+const router: ExpressRouter = Router();
+
+// All routes require admin authentication
+router.get('/blocks', requireAdminAuth, HolidayCalendarController.listBlocks);
+router.post('/blocks', requireAdminAuth, HolidayCalendarController.createBlock);
+router.delete('/blocks/:id', requireAdminAuth, HolidayCalendarController.removeBlock);
+
+// IMPORTANT: More specific routes must come before generic routes
+router.get('/reschedule-proposals', requireAdminAuth, HolidayCalendarController.listProposals);
+router.post('/reschedule-proposals/scan', requireAdminAuth, HolidayCalendarController.scanProposals);
+router.post('/reschedule-proposals/:id/apply', requireAdminAuth, HolidayCalendarController.applyProposal);
+router.post('/reschedule-proposals/:id/dismiss', requireAdminAuth, HolidayCalendarController.dismissProposal);
+
+export default router;
@@ -2,9 +2,20 @@ import { Router } from 'express';
 import type { Router as ExpressRouter } from 'express';
 import * as JourneyController from '../controllers/journey.controller';
 import { requireUserAuth } from '../middlewares/requireUserAuth';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+import { requireAnyPermission } from '../middlewares/requirePermission';
+import { PERMISSIONS } from '../constants/permissions';
 
 const router: ExpressRouter = Router();
 
+const canTrackJourneys = requireAnyPermission([PERMISSIONS.TRACK_TUTOR_ARRIVAL_EXIT, PERMISSIONS.TRACK_TUTOR_ARRIVAL]);
+
+// GET /journeys/alerts — late / long-stop / off-route alerts (ops desk)
+router.get('/journeys/alerts', requireAdminAuth, canTrackJourneys, JourneyController.listJourneyAlerts);
+
+// GET /journeys/:journeyId/breadcrumbs — persisted trail of an ended journey (ops desk)
+router.get('/journeys/:journeyId/breadcrumbs', requireAdminAuth, canTrackJourneys, JourneyController.getJourneyBreadcrumbs);
+
 // POST /journeys/start — start journey, returns journeyId (trainer)
 router.post('/journeys/start', requireUserAuth, JourneyController.startJourney);
 
@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import type { Router as ExpressRouter } from 'express';
+import { LiveClassController } from '../controllers/liveClass.controller';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+import { requireAnyPermission } from '../middlewares/requirePermission';
+import { PERMISSIONS } from '../constants/permissions';
+
+const router: ExpressRouter = Router();
+
+// The LiveKit webhook is registered in app.ts ahead of the JSON body parser
+
+router.get(
+	'/sessions/:sessionId',
+	requireAdminAuth,
+	requireAnyPermission([PERMISSIONS.VIEW_TUTOR_ATTENDANCE, PERMISSIONS.MONITOR_ATTENDANCE]),
+	LiveClassController.getSessionAttendance
+);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import {
 	createIncident,
+	createModerationIncident,
 	getIncident,
 	getMyIncidents,
 	getAllIncidents,
@@ -16,6 +17,9 @@ const router: ExpressRouter = Router();
 // For emergencies, we allow reporting without auth (user can provide userId in body)
 router.post('/incidents', requireUserAuth, createIncident);
 
+// Escalation from chat-service moderation - requires admin auth (forwarded admin token)
+router.post('/incidents/moderation', requireAdminAuth, createModerationIncident);
+
 // Get my incidents - allows userId in query params or from token
 router.get('/incidents', requireUserAuth, getMyIncidents);
 
@@ -22,6 +22,13 @@ router.get(
 	JourneyController.getJourneyStatusForSession
 );
 
+// Issue liveness challenge for the start selfie - requires trainer auth
+router.post(
+	'/sessions/:sessionId/face-challenge',
+	requireUserAuth,
+	SessionController.issueFaceChallenge
+);
+
 // Start session - requires trainer auth
 router.post(
 	'/sessions/:sessionId/start',
@@ -2,14 +2,26 @@ import { Router } from 'express';
 import type { Router as ExpressRouter } from 'express';
 import { TrainerApprovalController } from '../controllers/trainerApproval.controller';
 import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+import { requirePermission } from '../middlewares/requirePermission';
+import { PERMISSIONS } from '../constants/permissions';
 
 const router: ExpressRouter = Router();
 
 // All routes require admin authentication
 // IMPORTANT: More specific routes must come before generic routes
 router.get('/statistics', requireAdminAuth, TrainerApprovalController.getStatistics);
-router.post('/:trainerId/approve', requireAdminAuth, TrainerApprovalController.approveTrainer);
-router.post('/:trainerId/reject', requireAdminAuth, TrainerApprovalController.rejectTrainer);
+router.post(
+	'/:trainerId/approve',
+	requireAdminAuth,
+	requirePermission(PERMISSIONS.APPROVE_TUTOR, { action: 'trainer.approve', entityType: 'trainer', entityIdParam: 'trainerId' }),
+	TrainerApprovalController.approveTrainer
+);
+router.post(
+	'/:trainerId/reject',
+	requireAdminAuth,
+	requirePermission(PERMISSIONS.REJECT_TUTOR, { action: 'trainer.reject', entityType: 'trainer', entityIdParam: 'trainerId' }),
+	TrainerApprovalController.rejectTrainer
+);
 router.get('/:trainerId', requireAdminAuth, TrainerApprovalController.getTrainerById);
 router.get('/', requireAdminAuth, TrainerApprovalController.getTrainersByStatus);
 
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import type { Router as ExpressRouter } from 'express';
+import { TrainerSessionController } from '../controllers/trainerSession.controller';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+
+const router: ExpressRouter = Router();
+
+// All routes require admin authentication
+router.get('/:trainerId/sessions', requireAdminAuth, TrainerSessionController.listSessions);
+router.post('/:trainerId/force-logout', requireAdminAuth, TrainerSessionController.forceLogout);
+
+export default router;
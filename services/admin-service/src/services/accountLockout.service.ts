@@ -0,0 +1,179 @@
+import { AppError, createAccountLockout, type AccountLockout, type LockoutState } from '@kodingcaravan/shared';
+import { getPool } from '../config/database';
+
+export type LockoutUserType = 'student' | 'trainer';
+
+export interface UserLockoutStatus {
+	userType: LockoutUserType;
+	userId: string;
+	locks: LockoutState[];
+}
+
+export interface LockoutEventRecord {
+	id: string;
+	scope: string;
+	subjectType: 'identifier' | 'ip';
+	subject: string;
+	userId: string | null;
+	event: 'locked' | 'unlocked';
+	lockLevel: number | null;
+	lockedUntil: Date | null;
+	attempts: number | null;
+	ip: string | null;
+	actorType: 'system' | 'admin';
+	actorId: string | null;
+	reason: string | null;
+	createdAt: Date;
+}
+
+const USER_TABLES: Record<LockoutUserType, string> = {
+	student: 'students',
+	trainer: 'trainers',
+};
+
+/**
+ * Admin side of the shared Redis-backed account lockout used by student-auth-service and
+ * trainer-auth-service. Login is locked per email (`<type>:login`), OTP per phone (`<type>:otp`).
+ */
+export class AccountLockoutService {
+	private pool = getPool();
+	private lockouts = new Map<string, AccountLockout>();
+
+	private auditPool = {
+		query: (text: string, params?: unknown[]) => this.pool.query(text, params as any[]),
+	};
+
+	private lockout(scope: string): AccountLockout {
+		let lockout = this.lockouts.get(scope);
+		if (!lockout) {
+			lockout = createAccountLockout({ scope, auditPool: this.auditPool });
+			this.lockouts.set(scope, lockout);
+		}
+		return lockout;
+	}
+
+	/**
+	 * Lockout subjects for a user: email for password login, phone (digits only, as the auth services store it) for OTP
+	 */
+	private async getSubjects(
+		userType: LockoutUserType,
+		userId: string
+	): Promise<Array<{ lockout: AccountLockout; subject: string }>> {
+		const result = await this.pool.query<{ email: string | null; phone: string | null }>(
+			`SELECT email, phone FROM ${USER_TABLES[userType]} WHERE id = $1`,
+			[userId]
+		);
+		const user = result.rows[0];
+		if (!user) {
+			throw new AppError(`${userType === 'student' ? 'Student' : 'Trainer'} not found`, 404);
+		}
+
+		return [
+			...(user.email ? [{ lockout: this.lockout(`${userType}:login`), subject: user.email }] : []),
+			...(user.phone ? [{ lockout: this.lockout(`${userType}:otp`), subject: user.phone.replace(/\D/g, '') }] : []),
+		];
+	}
+
+	async getUserStatus(userType: LockoutUserType, userId: string): Promise<UserLockoutStatus> {
+		const subjects = await this.getSubjects(userType, userId);
+		const locks = await Promise.all(
+			subjects.map(({ lockout, subject }) => lockout.getState('identifier', subject))
+		);
+		return { userType, userId, locks };
+	}
+
+	/**
+	 * Clear login and OTP lockouts for a user. Returns the scopes that were actually locked.
+	 */
+	async unlockUser(
+		userType: LockoutUserType,
+		userId: string,
+		adminId: string,
+		reason?: string
+	): Promise<{ unlockedScopes: string[] }> {
+		const subjects = await this.getSubjects(userType, userId);
+		const unlockedScopes: string[] = [];
+
+		for (const { lockout, subject } of subjects) {
+			const wasLocked = await lockout.unlock(
+				'identifier',
+				subject,
+				{ type: 'admin', id: adminId, ...(reason && { reason }) },
+				userId
+			);
+			if (wasLocked) {
+				unlockedScopes.push(lockout.scope);
+			}
+		}
+
+		return { unlockedScopes };
+	}
+
+	/**
+	 * Clear an IP lock in every scope (e.g. a school or office network behind one address)
+	 */
+	async unlockIp(ip: string, adminId: string, reason?: string): Promise<{ unlockedScopes: string[] }> {
+		const unlockedScopes: string[] = [];
+		for (const userType of Object.keys(USER_TABLES) as LockoutUserType[]) {
+			for (const kind of ['login', 'otp']) {
+				const lockout = this.lockout(`${userType}:${kind}`);
+				if (await lockout.unlock('ip', ip, { type: 'admin', id: adminId, ...(reason && { reason }) })) {
+					unlockedScopes.push(lockout.scope);
+				}
+			}
+		}
+		return { unlockedScopes };
+	}
+
+	async listEvents(filters: {
+		userId?: string;
+		subject?: string;
+		event?: 'locked' | 'unlocked';
+		limit?: number;
+	}): Promise<LockoutEventRecord[]> {
+		const conditions: string[] = [];
+		const params: unknown[] = [];
+
+		if (filters.userId) {
+			params.push(filters.userId);
+			conditions.push(`user_id = $${params.length}`);
+		}
+		if (filters.subject) {
+			params.push(filters.subject.trim().toLowerCase());
+			conditions.push(`subject = $${params.length}`);
+		}
+		if (filters.event) {
+			params.push(filters.event);
+			conditions.push(`event = $${params.length}`);
+		}
+		params.push(Math.min(Math.max(filters.limit ?? 50, 1), 200));
+
+		const result = await this.pool.query<LockoutEventRecord>(
+			`
+				SELECT
+					id::text,
+					scope,
+					subject_type AS "subjectType",
+					subject,
+					user_id AS "userId",
+					event,
+					lock_level AS "lockLevel",
+					locked_until AS "lockedUntil",
+					attempts,
+					ip,
+					actor_type AS "actorType",
+					actor_id AS "actorId",
+					reason,
+					created_at AS "createdAt"
+				FROM account_lockout_events
+				${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+				ORDER BY created_at DESC
+				LIMIT $${params.length}
+			`,
+			params
+		);
+		return result.rows;
+	}
+}
+
+export const accountLockoutService = new AccountLockoutService();
@@ -1,5 +1,11 @@
 import { AppError } from '@kodingcaravan/shared';
+import { getMaxAllocationsForRating, MIN_TRAINER_ALLOCATIONS } from '@kodingcaravan/shared/utils/trainerCapacity';
 import { shouldSkipDateForSessions } from '@kodingcaravan/shared/src/utils/dateUtils';
+import {
+	loadBlockedDates,
+	resolveCalendarScopeForLocation,
+	type BlockedDates,
+} from '@kodingcaravan/shared/utils/blackoutCalendar';
 import type { SessionsGeneratedEvent } from '@kodingcaravan/shared/events/types';
 import logger from '@kodingcaravan/shared/config/logger';
 import { getPool } from '../config/database';
@@ -24,6 +30,9 @@ import type { CreateSessionInput } from '../models/session.model';
 import { PayrollAllocationSyncService } from './payrollAllocationSync.service';
 import { DemandTrackingService } from './demandTracking.service';
 
+/** Blackout calendar window loaded when generating sessions */
+const CALENDAR_LOOKAHEAD_DAYS = 365;
+
 export class AllocationService {
 	private allocationRepo: TrainerAllocationRepository;
 	private pool = getPool();
@@ -68,41 +77,17 @@ export class AllocationService {
 			);
 
 			const rating = ratingResult.rows[0]?.rating_average;
-			
-			// If no rating, default to minimum (4)
-			if (!rating || rating === null) {
+			if (!rating) {
 				logger.info('Trainer has no rating, using default min allocation', {
 					trainerId,
-					defaultAllocation: 4,
+					defaultAllocation: MIN_TRAINER_ALLOCATIONS,
 					service: 'allocation-service',
 				});
-				return 4;
+				return MIN_TRAINER_ALLOCATIONS;
 			}
 
-			// Map rating to allocation tier (4-8)
-			// Rating scale: 0-5 stars
-			// Higher rating = more allocations
-			// Rating 0-2.0: 4 allocations (min)
-			// Rating 2.1-3.0: 4 allocations
-			// Rating 3.1-3.5: 5 allocations
-			// Rating 3.6-4.0: 6 allocations
-			// Rating 4.1-4.5: 7 allocations
-			// Rating 4.6-5.0: 8 allocations (max)
-			let maxAllocation = 4; // Default minimum
-			
-			if (rating >= 4.6) {
-				maxAllocation = 8;
-			} else if (rating >= 4.1) {
-				maxAllocation = 7;
-			} else if (rating >= 3.6) {
-				maxAllocation = 6;
-			} else if (rating >= 3.1) {
-				maxAllocation = 5;
-			} else if (rating >= 2.1) {
-				maxAllocation = 4;
-			} else {
-				maxAllocation = 4;
-			}
+			// Higher rating = more allocations (see trainerCapacity for the tiers)
+			const maxAllocation = getMaxAllocationsForRating(rating);
 
 			logger.info('Trainer rating and max allocation determined', {
 				trainerId,
@@ -119,7 +104,7 @@ export class AllocationService {
 				service: 'allocation-service',
 			});
 			// Default to minimum on error
-			return 4;
+			return MIN_TRAINER_ALLOCATIONS;
 		}
 	}
 
@@ -898,8 +883,11 @@ export class AllocationService {
 		let currentDate = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
 		let sessionsCreated = 0;
 
+		// Holidays, exam blackouts and trainer leave push sessions past their original end date
+		const blockedDates = await this.loadAllocationBlockedDates(allocation, studentHomeLocation, startDate);
+
 		// Track attempts to prevent infinite loops
-		let maxAttempts = sessionCount * 2; // Allow some extra attempts for Sunday-only
+		let maxAttempts = sessionCount * 2 + blockedDates.size * (isSundayOnly ? 7 : 1); // Allow some extra attempts for Sunday-only
 		let attempts = 0;
 		const failedDates: string[] = [];
 
@@ -933,6 +921,20 @@ export class AllocationService {
 				continue;
 			}
 
+			// Skip dates blocked in the blackout calendar
+			const block = blockedDates.blockFor(sessionDate);
+			if (block) {
+				logger.debug('Skipping blocked date', {
+					date: `${sessionDate.getFullYear()}-${String(sessionDate.getMonth() + 1).padStart(2, '0')}-${String(sessionDate.getDate()).padStart(2, '0')}`,
+					block: block.name,
+					kind: block.kind,
+					allocationId: allocation.id,
+					service: 'allocation-service',
+				});
+				currentDate.setDate(currentDate.getDate() + (isSundayOnly ? 7 : 1));
+				continue;
+			}
+
 			// BUSINESS RULE: Skip Sunday holidays (Sundays until July 31st)
 			// Exception: Sunday-only courses are allowed (they're special)
 			if (!isSundayOnly && shouldSkipDateForSessions(sessionDate)) {
@@ -1249,6 +1251,21 @@ export class AllocationService {
 		}
 	}
 
+	/**
+	 * Blackout calendar for an allocation: holidays for the student's city, state and franchise,
+	 * plus the trainer's leave, from startDate onwards
+	 */
+	private async loadAllocationBlockedDates(
+		allocation: TrainerAllocationRecord,
+		studentHomeLocation: { latitude: number; longitude: number },
+		startDate: Date
+	): Promise<BlockedDates> {
+		const scope = await resolveCalendarScopeForLocation(this.pool, studentHomeLocation);
+		const endDate = new Date(startDate);
+		endDate.setDate(endDate.getDate() + CALENDAR_LOOKAHEAD_DAYS);
+		return loadBlockedDates(this.pool, { ...scope, trainerId: allocation.trainerId }, startDate, endDate);
+	}
+
 	/**
 	 * Create additional sessions for course upgrade
 	 * This function adds only the additional sessions, starting from the last existing session
@@ -1409,7 +1426,10 @@ export class AllocationService {
 			const createdSessions = [];
 			let currentDate = new Date(startDate);
 			let sessionsCreated = 0;
-			let maxAttempts = additionalSessions * 2;
+			// Holidays, exam blackouts and trainer leave push sessions past their original end date
+			const blockedDates = await this.loadAllocationBlockedDates(allocation, studentHomeLocation, startDate);
+
+			let maxAttempts = additionalSessions * 2 + blockedDates.size * (isSundayOnly ? 7 : 1);
 			let attempts = 0;
 
 			while (sessionsCreated < additionalSessions && attempts < maxAttempts) {
@@ -1436,6 +1456,20 @@ export class AllocationService {
 					continue;
 				}
 
+				// Skip dates blocked in the blackout calendar
+				const block = blockedDates.blockFor(sessionDate);
+				if (block) {
+					logger.debug('Skipping blocked date for upgrade', {
+						date: `${sessionDate.getFullYear()}-${String(sessionDate.getMonth() + 1).padStart(2, '0')}-${String(sessionDate.getDate()).padStart(2, '0')}`,
+						block: block.name,
+						kind: block.kind,
+						allocationId: allocation.id,
+						service: 'allocation-service',
+					});
+					currentDate.setDate(currentDate.getDate() + (isSundayOnly ? 7 : 1));
+					continue;
+				}
+
 				// BUSINESS RULE: Skip Sunday holidays (Sundays until July 31st)
 				// Exception: Sunday-only courses are allowed (they're special)
 				if (!isSundayOnly && shouldSkipDateForSessions(sessionDate)) {
@@ -1955,6 +1989,9 @@ export class AllocationService {
 				metadata: {
 					allocatedBy: adminId,
 					notes: options?.notes,
+					// Batch key for 1-on-2 / 1-on-3 group chats (chat-service)
+					groupSize: (approved.metadata as any)?.groupSize ?? null,
+					timeSlot: (approved.metadata as any)?.schedule?.timeSlot || (approved.metadata as any)?.timeSlot || null,
 				},
 			};
 			
@@ -3045,6 +3082,29 @@ export class AllocationService {
 			throw new AppError('Failed to cancel allocation', 500);
 		}
 
+		// Let listeners (chat-service group membership) drop the student
+		try {
+			const { getEventBus } = await import('@kodingcaravan/shared/events/eventBus');
+			await getEventBus().emit({
+				type: 'STUDENT_DEALLOCATED',
+				timestamp: Date.now(),
+				userId: adminId,
+				role: 'admin',
+				allocationId: updated.id,
+				trainerId: allocation.trainerId ?? '',
+				studentId: updated.studentId,
+				courseId: updated.courseId ?? '',
+				reason: 'cancelled',
+				deallocatedAt: new Date().toISOString(),
+			});
+		} catch (error: any) {
+			logger.error('Failed to emit STUDENT_DEALLOCATED (non-critical)', {
+				error: error?.message || String(error),
+				allocationId: updated.id,
+				service: 'allocation-service',
+			});
+		}
+
 		// TODO: Send notification to student and trainer
 
 		return updated;
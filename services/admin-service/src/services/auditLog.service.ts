@@ -0,0 +1,128 @@
+import type { Request } from 'express';
+import logger from '@kodingcaravan/shared/config/logger';
+import { auditRequestContext, type AdminAuditLogEntry } from '@kodingcaravan/shared/utils/adminAuditLog';
+import { createAuditLogEntry } from '../models/auditLog.model';
+
+/**
+ * Set on the request by requirePermission once the permission check passes
+ */
+export type AdminAuditContext = {
+	actorId: string;
+	actorRoles: string[];
+	permission: string;
+	/** True once the handler (or the fallback) has written an entry for this request */
+	recorded: boolean;
+};
+
+declare global {
+	namespace Express {
+		interface Request {
+			auditContext?: AdminAuditContext;
+		}
+	}
+}
+
+export type AdminActionInput = {
+	action: string;
+	entityType: string;
+	entityId?: string | null;
+	before?: unknown;
+	after?: unknown;
+	reason?: string | null;
+	metadata?: Record<string, unknown> | null;
+};
+
+/**
+ * Record a privileged admin action. Actor, permission, IP and correlation id come from the request;
+ * handlers only describe what changed. A failed write is logged and does not fail the request.
+ */
+export async function recordAdminAction(req: Request, input: AdminActionInput): Promise<void> {
+	const context = req.auditContext;
+	const actorId = context?.actorId ?? (req as any).adminId ?? null;
+
+	try {
+		await createAuditLogEntry({
+			actorId,
+			actorType: actorId ? 'admin' : 'system',
+			actorRoles: context?.actorRoles ?? (req as any).adminRoles ?? [],
+			permission: context?.permission ?? null,
+			action: input.action,
+			entityType: input.entityType,
+			entityId: input.entityId ?? null,
+			before: input.before,
+			after: input.after,
+			reason: input.reason ?? null,
+			...auditRequestContext(req),
+			service: 'admin-service',
+			metadata: input.metadata ?? null,
+		});
+		if (context) {
+			context.recorded = true;
+		}
+	} catch (error: any) {
+		logger.error('Failed to write admin audit log entry', {
+			action: input.action,
+			entityType: input.entityType,
+			entityId: input.entityId,
+			actorId,
+			error: error?.message || String(error),
+			service: 'admin-service',
+		});
+	}
+}
+
+function csvField(value: unknown): string {
+	if (value === null || value === undefined) {
+		return '';
+	}
+	const text = typeof value === 'object' && !(value instanceof Date) ? JSON.stringify(value) : String(value instanceof Date ? value.toISOString() : value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export const AUDIT_CSV_HEADER = [
+	'seq',
+	'created_at',
+	'actor_id',
+	'actor_type',
+	'actor_roles',
+	'permission',
+	'action',
+	'entity_type',
+	'entity_id',
+	'reason',
+	'changes',
+	'before',
+	'after',
+	'ip_address',
+	'user_agent',
+	'correlation_id',
+	'service',
+	'prev_hash',
+	'entry_hash',
+].join(',');
+
+export function toAuditCsvRow(entry: AdminAuditLogEntry): string {
+	return [
+		entry.seq,
+		entry.createdAt,
+		entry.actorId,
+		entry.actorType,
+		entry.actorRoles.join(' '),
+		entry.permission,
+		entry.action,
+		entry.entityType,
+		entry.entityId,
+		entry.reason,
+		entry.changes,
+		entry.before,
+		entry.after,
+		entry.ipAddress,
+		entry.userAgent,
+		entry.correlationId,
+		entry.service,
+		entry.prevHash,
+		entry.entryHash,
+	]
+		.map(csvField)
+		.join(',');
+}
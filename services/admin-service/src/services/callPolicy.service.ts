@@ -0,0 +1,338 @@
+import { AppError } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import { getPool } from '../config/database';
+import {
+	CallPolicyRepository,
+	type CallLogSummary,
+	type NumberAssignmentRecord,
+	type TrainerCallReportRow,
+	type VirtualNumberRecord,
+} from '../models/callPolicy.model';
+import { createSafetyIncident } from '../models/safetyIncident.model';
+import {
+	detectCallAnomalies,
+	evaluateCallPolicy,
+	type CallAnomaly,
+	type CallAnomalyConfig,
+	type CallPolicyConfig,
+	type CallPolicyDecision,
+	type SessionWindow,
+} from '../utils/callPolicy';
+import { parseScheduledStart } from '../utils/journeyEta';
+
+function getNumericEnv(name: string, fallback: number): number {
+	const raw = process.env[name];
+	if (!raw) {
+		return fallback;
+	}
+
+	const parsed = Number(raw);
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function policyConfig(): CallPolicyConfig {
+	return {
+		windowBeforeMinutes: getNumericEnv('CALL_WINDOW_BEFORE_MINUTES', 120),
+		windowAfterMinutes: getNumericEnv('CALL_WINDOW_AFTER_MINUTES', 60),
+		dailyCapPerPair: getNumericEnv('CALL_DAILY_CAP_PER_PAIR', 5),
+	};
+}
+
+function anomalyConfig(): CallAnomalyConfig {
+	return {
+		quietHoursStart: getNumericEnv('CALL_QUIET_HOURS_START', 21),
+		quietHoursEnd: getNumericEnv('CALL_QUIET_HOURS_END', 7),
+		minorAgeLimit: getNumericEnv('CALL_MINOR_AGE_LIMIT', 18),
+		minorMaxCallMinutes: getNumericEnv('CALL_MINOR_MAX_MINUTES', 30),
+		denialAlertThreshold: getNumericEnv('CALL_DENIAL_ALERT_THRESHOLD', 5),
+	};
+}
+
+function normalizeNumber(number: string): string {
+	return number.replace(/[^\d+]/g, '');
+}
+
+export interface CallPartyContext {
+	trainerId: string;
+	studentId: string;
+	callerRole: 'trainer' | 'student';
+	direction: 'outbound' | 'inbound';
+}
+
+/**
+ * Masked calling policy for Exotel calls between trainers and students.
+ * Calls need an active allocation, must fall inside the window around one of the pair's sessions
+ * and stay under a per-day cap. Each pair keeps a stable number from the virtual-number pool
+ * (seeded from EXOTEL_VIRTUAL_NUMBERS). Completed calls are checked for patterns that open a
+ * SafetyIncident; recording links expire after CALL_RECORDING_RETENTION_DAYS.
+ */
+export class CallPolicyService {
+	private pool = getPool();
+	private repo = new CallPolicyRepository(this.pool);
+	private poolSeeded = false;
+
+	/**
+	 * Evaluate the policy for a call; denials are recorded (and repeated trainer denials flagged).
+	 */
+	async evaluate(context: CallPartyContext, at: Date = new Date()): Promise<CallPolicyDecision> {
+		const [hasActiveAllocation, sessionRows, callsToday] = await Promise.all([
+			this.repo.hasActiveAllocation(context.trainerId, context.studentId),
+			this.repo.findNearbySessions(context.trainerId, context.studentId),
+			this.repo.countCallsToday(context.trainerId, context.studentId),
+		]);
+
+		const sessions: SessionWindow[] = [];
+		for (const row of sessionRows) {
+			const scheduledStart = parseScheduledStart(new Date(row.scheduledDate), row.scheduledTime);
+			if (scheduledStart) {
+				sessions.push({ sessionId: row.id, scheduledStart, durationMinutes: row.duration });
+			}
+		}
+
+		const decision = evaluateCallPolicy({ hasActiveAllocation, sessions, callsToday, at }, policyConfig());
+
+		if (!decision.allowed && decision.reason) {
+			await this.repo.recordDenial({ ...context, reason: decision.reason });
+			logger.info('Call blocked by policy', {
+				service: 'admin-service',
+				trainerId: context.trainerId,
+				studentId: context.studentId,
+				callerRole: context.callerRole,
+				reason: decision.reason,
+			});
+			if (context.callerRole === 'trainer') {
+				await this.checkRepeatedDenials(context.trainerId, context.studentId).catch((error: any) => {
+					logger.error('Repeated call denial check failed', {
+						service: 'admin-service',
+						trainerId: context.trainerId,
+						error: error?.message || String(error),
+					});
+				});
+			}
+		}
+
+		return decision;
+	}
+
+	/**
+	 * The pair's masked number, assigning one from the pool on first use.
+	 * Null when the pool is empty or exhausted (callers fall back to EXOTEL_VIRTUAL_NUMBER).
+	 */
+	async getPairNumber(trainerId: string, studentId: string): Promise<NumberAssignmentRecord | null> {
+		await this.seedPoolFromEnv();
+
+		const assignment =
+			(await this.repo.findAssignment(trainerId, studentId)) ?? (await this.repo.assignNumber(trainerId, studentId));
+		if (!assignment) {
+			logger.warn('No virtual number available for trainer-student pair', {
+				service: 'admin-service',
+				trainerId,
+				studentId,
+			});
+			return null;
+		}
+
+		await this.repo.touchAssignment(trainerId, studentId);
+		return assignment;
+	}
+
+	/**
+	 * Exotel connect applet: route a call to a virtual number to the other party of its pair.
+	 */
+	async routeInboundCall(
+		virtualNumber: string,
+		callerPhone: string
+	): Promise<{
+		decision: CallPolicyDecision;
+		pair: { trainerId: string; studentId: string; trainerPhone: string; studentPhone: string; callerRole: 'trainer' | 'student' } | null;
+		destination: string | null;
+	}> {
+		const pair = await this.repo.findPairByInboundCall(normalizeNumber(virtualNumber), callerPhone);
+		if (!pair) {
+			return {
+				decision: { allowed: false, reason: null, message: 'Number is not assigned to this caller', sessionId: null },
+				pair: null,
+				destination: null,
+			};
+		}
+
+		const decision = await this.evaluate({
+			trainerId: pair.trainerId,
+			studentId: pair.studentId,
+			callerRole: pair.callerRole,
+			direction: 'inbound',
+		});
+		if (decision.allowed) {
+			await this.repo.touchAssignment(pair.trainerId, pair.studentId);
+		}
+
+		return {
+			decision,
+			pair,
+			destination: decision.allowed ? (pair.callerRole === 'trainer' ? pair.studentPhone : pair.trainerPhone) : null,
+		};
+	}
+
+	/**
+	 * After Exotel reports a call's final status: set the recording's retention date and
+	 * open SafetyIncidents for unusual patterns.
+	 */
+	async reviewCall(callSid: string): Promise<CallAnomaly[]> {
+		const call = await this.repo.findCall(callSid);
+		if (!call) {
+			return [];
+		}
+
+		if (call.recordingUrl) {
+			await this.repo.setRecordingExpiry(callSid, getNumericEnv('CALL_RECORDING_RETENTION_DAYS', 90));
+		}
+
+		if (!call.startTime && !call.duration) {
+			return [];
+		}
+
+		const anomalies = detectCallAnomalies(
+			{
+				startedAt: new Date(call.startTime ?? call.createdAt),
+				durationSeconds: call.duration,
+				studentAge: await this.repo.findStudentAge(call.studentId),
+			},
+			anomalyConfig()
+		);
+
+		for (const anomaly of anomalies) {
+			await this.openIncident(`${anomaly.pattern}:${callSid}`, anomaly, call.trainerId, call.studentId, call);
+		}
+		return anomalies;
+	}
+
+	/** Recording link for an authorised reviewer; null once it has expired or been purged */
+	async getRecording(callSid: string): Promise<CallLogSummary> {
+		const call = await this.repo.findCall(callSid);
+		if (!call) {
+			throw new AppError('Call not found', 404);
+		}
+		if (!call.recordingUrl) {
+			throw new AppError(call.recordingPurgedAt ? 'Call recording has passed its retention period' : 'Call has no recording', 404);
+		}
+		return call;
+	}
+
+	async purgeExpiredRecordings(): Promise<number> {
+		return this.repo.purgeExpiredRecordings();
+	}
+
+	async getTrainerReport(from: Date, to: Date, trainerId: string | null): Promise<TrainerCallReportRow[]> {
+		if (from >= to) {
+			throw new AppError('from must be before to', 400);
+		}
+		return this.repo.trainerReport(from, to, trainerId);
+	}
+
+	async listVirtualNumbers(): Promise<VirtualNumberRecord[]> {
+		await this.seedPoolFromEnv();
+		return this.repo.findVirtualNumbers();
+	}
+
+	async getVirtualNumber(number: string): Promise<VirtualNumberRecord | null> {
+		return this.repo.findVirtualNumber(normalizeNumber(number));
+	}
+
+	async addVirtualNumber(number: string): Promise<VirtualNumberRecord> {
+		const normalized = normalizeNumber(number);
+		if (normalized.replace('+', '').length < 8) {
+			throw new AppError('Invalid virtual number', 400);
+		}
+		return (await this.repo.setVirtualNumberActive(normalized, true))!;
+	}
+
+	/** Retire a number; its pairs are reassigned on their next call */
+	async deactivateVirtualNumber(number: string): Promise<VirtualNumberRecord> {
+		const normalized = normalizeNumber(number);
+		if (!(await this.repo.findVirtualNumber(normalized))) {
+			throw new AppError('Virtual number not found', 404);
+		}
+		return (await this.repo.setVirtualNumberActive(normalized, false))!;
+	}
+
+	private async seedPoolFromEnv(): Promise<void> {
+		if (this.poolSeeded) {
+			return;
+		}
+		const numbers = (process.env.EXOTEL_VIRTUAL_NUMBERS || '')
+			.split(',')
+			.map((number) => normalizeNumber(number.trim()))
+			.filter(Boolean);
+		await this.repo.upsertVirtualNumbers(numbers);
+		this.poolSeeded = true;
+	}
+
+	private async checkRepeatedDenials(trainerId: string, studentId: string): Promise<void> {
+		const config = anomalyConfig();
+		const denials = await this.repo.countTrainerDenialsToday(trainerId);
+		if (denials < config.denialAlertThreshold) {
+			return;
+		}
+
+		const day = new Date(Date.now() + 330 * 60 * 1000).toISOString().slice(0, 10);
+		await this.openIncident(
+			`repeated_denials:${trainerId}:${day}`,
+			{
+				pattern: 'repeated_denials',
+				severity: 'medium',
+				description: `Trainer attempted ${denials} calls outside the calling policy today`,
+			},
+			trainerId,
+			studentId,
+			null
+		);
+	}
+
+	private async openIncident(
+		flagKey: string,
+		anomaly: CallAnomaly,
+		trainerId: string,
+		studentId: string,
+		call: CallLogSummary | null
+	): Promise<void> {
+		const claimed = await this.repo.claimSafetyFlag({
+			flagKey,
+			pattern: anomaly.pattern,
+			trainerId,
+			studentId,
+			callSid: call?.callSid ?? null,
+		});
+		if (!claimed) {
+			return;
+		}
+
+		const incident = await createSafetyIncident({
+			userId: trainerId,
+			userRole: 'trainer',
+			type: 'safety',
+			description: anomaly.description,
+			location: null,
+			severity: anomaly.severity,
+			metadata: {
+				source: 'call_monitoring',
+				pattern: anomaly.pattern,
+				studentId,
+				callSid: call?.callSid ?? null,
+				callStartedAt: call?.startTime ?? call?.createdAt ?? null,
+				durationSeconds: call?.duration ?? null,
+			},
+		});
+		await this.repo.attachIncident(flagKey, incident.id);
+
+		logger.warn('Safety incident opened from call pattern', {
+			service: 'admin-service',
+			incidentId: incident.id,
+			pattern: anomaly.pattern,
+			trainerId,
+			studentId,
+			callSid: call?.callSid ?? null,
+		});
+	}
+}
+
+export const callPolicyService = new CallPolicyService();
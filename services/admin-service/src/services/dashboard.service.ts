@@ -0,0 +1,352 @@
+import axios from 'axios';
+import { AppError } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import {
+	ROLLUP_TIME_ZONE,
+	findCityCapacity,
+	findLatestRollupRefresh,
+	findRollupGeographies,
+	refreshDailyRollups,
+	sumRollupsByDay,
+	sumRollupsByGeography,
+	type DoubtResponseStat,
+	type RollupGeography,
+	type RollupMetrics,
+	type RollupRefreshResult,
+} from '../models/analyticsRollup.model';
+import { PERMISSIONS } from '../constants/permissions';
+import { DemandTrackingService } from './demandTracking.service';
+import {
+	canAccessDistrict,
+	canAccessState,
+	canAccessZone,
+	type AdminContext,
+} from './permission.service';
+
+const CHAT_SERVICE_URL = process.env.CHAT_SERVICE_URL || 'http://localhost:3008';
+
+/** Stand-in for unknown geography parts so scoped admins never match them */
+const UNASSIGNED = '(unassigned)';
+
+const REVENUE_PERMISSIONS: string[] = [
+	PERMISSIONS.VIEW_REVENUE,
+	PERMISSIONS.VIEW_DISTRICT_REVENUE,
+	PERMISSIONS.VIEW_ZONE_REVENUE,
+	PERMISSIONS.VIEW_FINANCIAL_DATA,
+];
+
+export type DashboardFilter = {
+	/** Inclusive, YYYY-MM-DD (IST) */
+	from: string;
+	/** Inclusive, YYYY-MM-DD (IST) */
+	to: string;
+	state?: string;
+	district?: string;
+	zone?: string;
+};
+
+export type OperationsKpis = {
+	bookings: number;
+	/** Null when the admin holds no revenue permission */
+	revenue: {
+		currency: 'INR';
+		grossCents: number;
+		refundedCents: number;
+		netCents: number;
+	} | null;
+	/** Allocations active on the last day of the range */
+	activeAllocations: number;
+	sessions: {
+		total: number;
+		completed: number;
+		cancelled: number;
+		disputed: number;
+		completionRate: number | null;
+		cancellationRate: number | null;
+		disputeRate: number | null;
+		deliveredMinutes: number;
+	};
+	/** Trainer-days with a completed session over trainer-days holding an active allocation */
+	trainerUtilisation: number | null;
+	averageRating: number | null;
+	ratingCount: number;
+	doubts: {
+		asked: number;
+		answered: number;
+		answerRate: number | null;
+		averageResponseMinutes: number | null;
+	};
+};
+
+type GeographyLabel = {
+	state: string | null;
+	district: string | null;
+	zone: string | null;
+};
+
+export type OperationsDashboard = {
+	filter: DashboardFilter;
+	refreshedAt: Date | null;
+	totals: OperationsKpis;
+	series: Array<OperationsKpis & { day: string }>;
+	breakdownLevel: keyof RollupGeography | null;
+	breakdown: Array<OperationsKpis & GeographyLabel>;
+};
+
+export type DemandCapacityRow = {
+	cityId: string;
+	cityName: string | null;
+	state: string | null;
+	district: string | null;
+	totalSignals: number;
+	/** Purchases blocked for lack of a trainer plus waitlist registrations */
+	unmetDemand: number;
+	trainers: number;
+	activeAllocations: number;
+	unmetDemandPerTrainer: number | null;
+};
+
+function ratio(numerator: number, denominator: number, digits = 4): number | null {
+	if (!denominator) {
+		return null;
+	}
+	return Number((numerator / denominator).toFixed(digits));
+}
+
+function emptyMetrics(): RollupMetrics {
+	return {
+		bookings: 0,
+		grossRevenueCents: 0,
+		refundedCents: 0,
+		sessionsTotal: 0,
+		sessionsCompleted: 0,
+		sessionsCancelled: 0,
+		sessionsDisputed: 0,
+		deliveredMinutes: 0,
+		activeAllocations: 0,
+		trainersAvailable: 0,
+		trainersUtilised: 0,
+		ratingSum: 0,
+		ratingCount: 0,
+		doubtsAsked: 0,
+		doubtsAnswered: 0,
+		doubtResponseMinutes: 0,
+	};
+}
+
+function toKpis(metrics: RollupMetrics, includeRevenue: boolean): OperationsKpis {
+	return {
+		bookings: metrics.bookings,
+		revenue: includeRevenue
+			? {
+					currency: 'INR',
+					grossCents: metrics.grossRevenueCents,
+					refundedCents: metrics.refundedCents,
+					netCents: metrics.grossRevenueCents - metrics.refundedCents,
+				}
+			: null,
+		activeAllocations: metrics.activeAllocations,
+		sessions: {
+			total: metrics.sessionsTotal,
+			completed: metrics.sessionsCompleted,
+			cancelled: metrics.sessionsCancelled,
+			disputed: metrics.sessionsDisputed,
+			completionRate: ratio(metrics.sessionsCompleted, metrics.sessionsTotal),
+			cancellationRate: ratio(metrics.sessionsCancelled, metrics.sessionsTotal),
+			disputeRate: ratio(metrics.sessionsDisputed, metrics.sessionsTotal),
+			deliveredMinutes: metrics.deliveredMinutes,
+		},
+		trainerUtilisation: ratio(metrics.trainersUtilised, metrics.trainersAvailable),
+		averageRating: ratio(metrics.ratingSum, metrics.ratingCount, 2),
+		ratingCount: metrics.ratingCount,
+		doubts: {
+			asked: metrics.doubtsAsked,
+			answered: metrics.doubtsAnswered,
+			answerRate: ratio(metrics.doubtsAnswered, metrics.doubtsAsked),
+			averageResponseMinutes: ratio(metrics.doubtResponseMinutes, metrics.doubtsAnswered, 1),
+		},
+	};
+}
+
+function labelGeography(geo: RollupGeography): GeographyLabel {
+	return {
+		state: geo.state || null,
+		district: geo.district || null,
+		zone: geo.zone || null,
+	};
+}
+
+/**
+ * Today's date (or an offset from it) in the rollup time zone, as YYYY-MM-DD
+ */
+export function rollupDate(offsetDays = 0): string {
+	const date = new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000);
+	return date.toLocaleDateString('en-CA', { timeZone: ROLLUP_TIME_ZONE });
+}
+
+export class DashboardService {
+	private demandTracking = new DemandTrackingService();
+
+	/**
+	 * Rebuild rollups for [from, to]. Doubt stats come from chat-service; when it is unreachable the
+	 * other metrics are still refreshed and the previous doubt figures are kept.
+	 */
+	async refreshRollups(from: string, to: string): Promise<RollupRefreshResult | null> {
+		const doubtStats = await this.fetchDoubtResponseStats(from, to);
+		const result = await refreshDailyRollups(from, to, doubtStats);
+
+		if (!result) {
+			logger.info('Analytics rollup refresh skipped; another instance holds the lock', {
+				from,
+				to,
+				service: 'admin-service',
+			});
+		}
+		return result;
+	}
+
+	private async fetchDoubtResponseStats(from: string, to: string): Promise<DoubtResponseStat[] | null> {
+		try {
+			const response = await axios.get(`${CHAT_SERVICE_URL}/api/admin/doubts/response-stats`, {
+				params: { from, to },
+				timeout: 30000,
+			});
+			const data = response.data?.data;
+			return Array.isArray(data) ? data : [];
+		} catch (error: any) {
+			logger.warn('Doubt response stats unavailable; keeping previous doubt rollups', {
+				from,
+				to,
+				error: error?.message || String(error),
+				service: 'admin-service',
+			});
+			return null;
+		}
+	}
+
+	/**
+	 * Operations KPIs for a date range and geography, read from the daily rollups.
+	 * Only geographies the admin can reach via canAccessZone are included.
+	 */
+	async getOperationsDashboard(context: AdminContext, filter: DashboardFilter): Promise<OperationsDashboard> {
+		this.assertFilterAccess(context, filter);
+
+		const candidates = await findRollupGeographies(filter.from, filter.to, filter);
+		const geographies = candidates.filter((geo) =>
+			canAccessZone(context, geo.zone || UNASSIGNED, geo.district || UNASSIGNED, geo.state || UNASSIGNED)
+		);
+
+		const breakdownLevel: keyof RollupGeography | null = filter.zone
+			? null
+			: filter.district
+				? 'zone'
+				: filter.state
+					? 'district'
+					: 'state';
+
+		const [days, breakdown, refreshedAt] = await Promise.all([
+			sumRollupsByDay(filter.from, filter.to, geographies),
+			breakdownLevel ? sumRollupsByGeography(filter.from, filter.to, geographies, breakdownLevel) : Promise.resolve([]),
+			findLatestRollupRefresh(filter.from, filter.to),
+		]);
+
+		const includeRevenue = context.permissions.some((permission) => REVENUE_PERMISSIONS.includes(permission));
+
+		const totals = emptyMetrics();
+		for (const day of days) {
+			for (const key of Object.keys(totals) as Array<keyof RollupMetrics>) {
+				totals[key] += day[key];
+			}
+		}
+		// Allocations are a point-in-time count, so summing days would overcount
+		const lastDay = days[days.length - 1];
+		totals.activeAllocations = lastDay && lastDay.day === filter.to ? lastDay.activeAllocations : 0;
+
+		return {
+			filter,
+			refreshedAt,
+			totals: toKpis(totals, includeRevenue),
+			series: days.map((day) => ({ day: day.day, ...toKpis(day, includeRevenue) })),
+			breakdownLevel,
+			breakdown: breakdown.map((row) => ({
+				...labelGeography(row),
+				...toKpis(row, includeRevenue),
+			})),
+		};
+	}
+
+	/**
+	 * Unmet demand from DemandTrackingService against trainer capacity, per city.
+	 * Demand is tracked per city, so a zone filter narrows it no further than its district.
+	 */
+	async getDemandVsCapacity(context: AdminContext, filter: DashboardFilter): Promise<DemandCapacityRow[]> {
+		this.assertFilterAccess(context, filter);
+
+		let analytics: Awaited<ReturnType<DemandTrackingService['getAllCoursesDemandAnalytics']>>;
+		try {
+			const end = new Date(`${filter.to}T00:00:00+05:30`);
+			end.setUTCDate(end.getUTCDate() + 1);
+			analytics = await this.demandTracking.getAllCoursesDemandAnalytics(new Date(`${filter.from}T00:00:00+05:30`), end);
+		} catch (error: any) {
+			logger.warn('Demand analytics unavailable for dashboard', {
+				error: error?.message || String(error),
+				service: 'admin-service',
+			});
+			return [];
+		}
+
+		const demandByCity = new Map<string, { totalSignals: number; unmetDemand: number }>();
+		for (const row of analytics) {
+			if (!row.cityId) {
+				continue;
+			}
+			const entry = demandByCity.get(row.cityId) ?? { totalSignals: 0, unmetDemand: 0 };
+			entry.totalSignals += row.totalSignals;
+			entry.unmetDemand += row.purchaseBlockedCount + row.waitlistCount;
+			demandByCity.set(row.cityId, entry);
+		}
+
+		const capacity = await findCityCapacity([...demandByCity.keys()]);
+
+		return capacity
+			.filter((city) => this.matchesFilter(city, filter))
+			.filter((city) => canAccessDistrict(context, city.district || UNASSIGNED, city.state || UNASSIGNED))
+			.map((city) => {
+				const demand = demandByCity.get(city.cityId)!;
+				return {
+					cityId: city.cityId,
+					cityName: city.cityName ?? null,
+					state: city.state,
+					district: city.district,
+					totalSignals: demand.totalSignals,
+					unmetDemand: demand.unmetDemand,
+					trainers: city.trainers,
+					activeAllocations: city.activeAllocations,
+					unmetDemandPerTrainer: ratio(demand.unmetDemand, city.trainers, 2),
+				};
+			})
+			.sort((a, b) => b.unmetDemand - a.unmetDemand);
+	}
+
+	private matchesFilter(city: { state: string | null; district: string | null }, filter: DashboardFilter): boolean {
+		const same = (value: string | null, wanted?: string) =>
+			wanted === undefined || (value ?? '').toLowerCase() === wanted.toLowerCase();
+		return same(city.state, filter.state) && same(city.district, filter.district);
+	}
+
+	private assertFilterAccess(context: AdminContext, filter: DashboardFilter): void {
+		const allowed = filter.zone
+			? canAccessZone(context, filter.zone, filter.district, filter.state)
+			: filter.district
+				? canAccessDistrict(context, filter.district, filter.state)
+				: filter.state
+					? canAccessState(context, filter.state)
+					: true;
+
+		if (!allowed) {
+			throw new AppError('You do not have access to this geography', 403);
+		}
+	}
+}
+
+export const dashboardService = new DashboardService();
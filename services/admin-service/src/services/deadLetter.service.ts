@@ -0,0 +1,103 @@
+import { AppError } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import {
+  DeadLetterBrowser,
+  type DeadLetterEntry,
+  type DeadLetterFilter,
+  type ReplayOptions,
+  type ReplayResult,
+} from '@kodingcaravan/shared/worker';
+import { getPool } from '../config/database';
+
+export interface BulkReplaySummary {
+  dryRun: boolean;
+  matched: number;
+  replayed: number;
+  skipped: number;
+  failed: number;
+  results: ReplayResult[];
+}
+
+/**
+ * Dead Letter Queue Service
+ *
+ * Browses the Kafka DLQ and replays failed worker events to their original topic.
+ * Replays check processed_events through IdempotencyGuard (admin-service shares the
+ * database with the workers) unless force is set.
+ */
+export class DeadLetterService {
+  private browser: DeadLetterBrowser | null = null;
+
+  async list(filter: DeadLetterFilter): Promise<DeadLetterEntry[]> {
+    return this.getBrowser().list(filter);
+  }
+
+  async get(eventId: string): Promise<DeadLetterEntry> {
+    const entry = await this.getBrowser().get(eventId);
+    if (!entry) {
+      throw new AppError('DLQ message not found', 404);
+    }
+    return entry;
+  }
+
+  async replay(eventId: string, options: ReplayOptions, adminId: string): Promise<ReplayResult> {
+    const entry = await this.get(eventId);
+    const result = await this.getBrowser().replay(entry, options);
+
+    logger.info('DLQ replay requested', {
+      adminId,
+      eventId,
+      eventType: result.eventType,
+      outcome: result.outcome,
+      dryRun: options.dryRun === true,
+      force: options.force === true,
+      service: 'admin-service',
+    });
+
+    if (result.outcome === 'failed') {
+      throw new AppError(result.error || 'Failed to replay DLQ message', 502);
+    }
+    return result;
+  }
+
+  async replayMany(
+    filter: DeadLetterFilter,
+    options: ReplayOptions,
+    adminId: string
+  ): Promise<BulkReplaySummary> {
+    const results = await this.getBrowser().replayMany(filter, options);
+    const summary: BulkReplaySummary = {
+      dryRun: options.dryRun === true,
+      matched: results.length,
+      replayed: results.filter((r) => r.outcome === 'replayed' || r.outcome === 'would_replay').length,
+      skipped: results.filter((r) => r.outcome === 'skipped_processed').length,
+      failed: results.filter((r) => r.outcome === 'failed').length,
+      results,
+    };
+
+    logger.info('DLQ bulk replay requested', {
+      adminId,
+      filter,
+      matched: summary.matched,
+      replayed: summary.replayed,
+      skipped: summary.skipped,
+      failed: summary.failed,
+      dryRun: summary.dryRun,
+      force: options.force === true,
+      service: 'admin-service',
+    });
+
+    return summary;
+  }
+
+  private getBrowser(): DeadLetterBrowser {
+    if (!this.browser) {
+      this.browser = new DeadLetterBrowser({
+        pool: getPool(),
+        scanTimeoutMs: 20000, // Stay inside the 30s request timeout
+        ...(process.env.KAFKA_DLQ_TOPIC ? { dlqTopic: process.env.KAFKA_DLQ_TOPIC } : {}),
+      });
+    }
+    return this.browser;
+  }
+}
@@ -69,6 +69,8 @@ export class ExotelService {
 			studentId: string;
 			sessionId?: string;
 			callerRole: 'trainer' | 'student';
+			/** Pair's masked number from the virtual-number pool (defaults to EXOTEL_VIRTUAL_NUMBER) */
+			callerId?: string;
 		}
 	): Promise<{ callSid: string; status: string }> {
 		try {
@@ -87,7 +89,7 @@ export class ExotelService {
 			const requestData: ExotelCallRequest = {
 				from: this.normalizePhone(from),
 				to: this.normalizePhone(to),
-				callerId: this.virtualNumber,
+				callerId: metadata.callerId || this.virtualNumber,
 				customField,
 			};
 
@@ -140,6 +142,7 @@ export class ExotelService {
 				callerRole: metadata.callerRole,
 				status,
 				direction: 'outbound',
+				virtualNumber: requestData.callerId,
 			});
 
 			console.log('[Exotel] Call initiated successfully:', { callSid, status });
@@ -182,6 +185,28 @@ export class ExotelService {
 		}
 	}
 
+	/**
+	 * Log a call a party placed to their pair's virtual number (Exotel connect applet)
+	 */
+	async logInboundCall(data: {
+		callSid: string;
+		trainerId: string;
+		studentId: string;
+		sessionId?: string | null;
+		trainerPhone: string;
+		studentPhone: string;
+		callerRole: 'trainer' | 'student';
+		virtualNumber: string;
+	}): Promise<void> {
+		await this.logCall({
+			...data,
+			trainerPhone: this.normalizePhone(data.trainerPhone),
+			studentPhone: this.normalizePhone(data.studentPhone),
+			status: 'in-progress',
+			direction: 'inbound',
+		});
+	}
+
 	/**
 	 * Log call in database
 	 */
@@ -195,6 +220,7 @@ export class ExotelService {
 		callerRole: 'trainer' | 'student';
 		status: string;
 		direction: string;
+		virtualNumber?: string | null;
 	}): Promise<void> {
 		const pool = getPool();
 		try {
@@ -202,8 +228,8 @@ export class ExotelService {
 				`INSERT INTO call_logs (
 					call_sid, trainer_id, student_id, session_id,
 					trainer_phone, student_phone, caller_role,
-					status, direction, created_at
-				) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW())
+					status, direction, virtual_number, created_at
+				) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
 				ON CONFLICT (call_sid) DO UPDATE SET
 					status = EXCLUDED.status,
 					updated_at = NOW()`,
@@ -217,6 +243,7 @@ export class ExotelService {
 					data.callerRole,
 					data.status,
 					data.direction,
+					data.virtualNumber || null,
 				]
 			);
 		} catch (error: any) {
@@ -298,7 +325,8 @@ export class ExotelService {
 				`SELECT 
 					call_sid, trainer_id, student_id, session_id,
 					trainer_phone, student_phone, caller_role,
-					status, direction, duration, recording_url,
+					status, direction, duration, virtual_number,
+					(recording_url IS NOT NULL) AS has_recording,
 					start_time, end_time, created_at, updated_at
 				FROM call_logs
 				WHERE trainer_id = $1 AND student_id = $2
@@ -349,5 +377,8 @@ export const exotelService = {
 	get getCallHistory() {
 		return getExotelService().getCallHistory.bind(getExotelService());
 	},
+	get logInboundCall() {
+		return getExotelService().logInboundCall.bind(getExotelService());
+	},
 };
 
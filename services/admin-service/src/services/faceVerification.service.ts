@@ -0,0 +1,355 @@
+import { randomInt } from 'crypto';
+import { AppError } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import { resolveCalendarScopeForLocation } from '@kodingcaravan/shared/utils/blackoutCalendar';
+import { getPool } from '../config/database';
+import {
+	FaceVerificationAttemptRepository,
+	FaceVerificationThresholdRepository,
+	LivenessChallengeRepository,
+	type CityFaceThresholdRecord,
+	type FaceReviewStatus,
+	type FaceVerificationAttemptRecord,
+	type FaceVerificationAttemptWithImages,
+	type LivenessChallengeRecord,
+} from '../models/faceVerification.model';
+import type { SessionRecord } from '../models/session.model';
+import type { FaceVerificationOutcome } from '../utils/faceVerification';
+import {
+	LIVENESS_PROMPTS,
+	classifyFaceMatch,
+	decodeImage,
+	getFaceMatcher,
+	loadReferenceImage,
+	validateImage,
+	type FaceVerificationResult,
+	type FaceVerificationThresholds,
+	type LivenessPrompt,
+} from '../utils/faceVerification';
+
+const CHALLENGE_TTL_SECONDS = 120;
+const CHALLENGE_PROMPT_COUNT = 2;
+const MAX_LIVENESS_FRAMES = 8;
+
+function getNumericEnv(name: string, fallback: number): number {
+	const raw = process.env[name];
+	if (!raw) {
+		return fallback;
+	}
+
+	const parsed = Number(raw);
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Thresholds used where a city has no override
+ */
+export function defaultFaceThresholds(): FaceVerificationThresholds {
+	const requireLiveness = (process.env.FACE_LIVENESS_REQUIRED || 'true').toLowerCase();
+	return {
+		matchThreshold: getNumericEnv('FACE_MATCH_THRESHOLD', 80),
+		reviewMargin: getNumericEnv('FACE_MATCH_REVIEW_MARGIN', 10),
+		livenessThreshold: getNumericEnv('FACE_LIVENESS_THRESHOLD', 70),
+		requireLiveness: requireLiveness !== 'false' && requireLiveness !== '0',
+	};
+}
+
+/**
+ * How long stored selfies and liveness frames are kept, in days
+ */
+export function faceImageRetentionDays(): { passed: number; flagged: number; reviewed: number } {
+	return {
+		passed: getNumericEnv('FACE_IMAGE_RETENTION_DAYS_PASSED', 7),
+		flagged: getNumericEnv('FACE_IMAGE_RETENTION_DAYS_FLAGGED', 90),
+		reviewed: getNumericEnv('FACE_IMAGE_RETENTION_DAYS_REVIEWED', 30),
+	};
+}
+
+function daysFromNow(days: number): Date {
+	return new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+}
+
+export interface FaceCheckInput {
+	faceVerificationImage: string;
+	livenessChallengeId?: string | null;
+	livenessFrames?: string[] | null;
+}
+
+export class FaceVerificationService {
+	private pool = getPool();
+	private challengeRepo = new LivenessChallengeRepository(this.pool);
+	private attemptRepo = new FaceVerificationAttemptRepository(this.pool);
+	private thresholdRepo = new FaceVerificationThresholdRepository(this.pool);
+
+	/**
+	 * Issue a blink/turn challenge the trainer's app must film before starting the session
+	 */
+	async issueChallenge(session: SessionRecord, trainerId: string): Promise<LivenessChallengeRecord & { frameCount: number }> {
+		if (session.trainerId !== trainerId) {
+			throw new AppError('Unauthorized: You do not own this session', 403);
+		}
+
+		const pool = [...LIVENESS_PROMPTS];
+		const prompts: LivenessPrompt[] = [];
+		while (prompts.length < CHALLENGE_PROMPT_COUNT && pool.length > 0) {
+			prompts.push(pool.splice(randomInt(pool.length), 1)[0]);
+		}
+
+		const challenge = await this.challengeRepo.create({
+			sessionId: session.id,
+			trainerId,
+			prompts,
+			expiresAt: new Date(Date.now() + CHALLENGE_TTL_SECONDS * 1000),
+		});
+
+		// Baseline frame plus one frame per prompt
+		return { ...challenge, frameCount: prompts.length + 1 };
+	}
+
+	/**
+	 * Thresholds for the city the session takes place in (resolved from the student's home)
+	 */
+	async getThresholdsForSession(session: SessionRecord): Promise<{ cityId: string | null; thresholds: FaceVerificationThresholds }> {
+		const defaults = defaultFaceThresholds();
+		if (!session.studentHomeLocation) {
+			return { cityId: null, thresholds: defaults };
+		}
+
+		const scope = await resolveCalendarScopeForLocation(this.pool, session.studentHomeLocation);
+		if (!scope.cityId) {
+			return { cityId: null, thresholds: defaults };
+		}
+
+		try {
+			const override = await this.thresholdRepo.findByCity(scope.cityId);
+			return {
+				cityId: scope.cityId,
+				thresholds: override
+					? {
+							matchThreshold: override.matchThreshold,
+							reviewMargin: override.reviewMargin,
+							livenessThreshold: override.livenessThreshold,
+							requireLiveness: override.requireLiveness,
+						}
+					: defaults,
+			};
+		} catch (error: any) {
+			logger.warn('Could not load city face thresholds, using defaults', {
+				cityId: scope.cityId,
+				error: error?.message || String(error),
+				service: 'admin-service',
+			});
+			return { cityId: scope.cityId, thresholds: defaults };
+		}
+	}
+
+	/**
+	 * Match the selfie against the trainer's reference image, score the liveness frames and store the
+	 * attempt. Failed and borderline matches are queued for admin review.
+	 */
+	async verifyForSession(
+		session: SessionRecord,
+		trainerId: string,
+		referenceImage: string,
+		input: FaceCheckInput
+	): Promise<FaceVerificationResult> {
+		const frames = input.livenessFrames ?? [];
+		if (frames.length > MAX_LIVENESS_FRAMES) {
+			throw new AppError(`At most ${MAX_LIVENESS_FRAMES} liveness frames are accepted`, 400);
+		}
+		for (const frame of frames) {
+			const validation = validateImage(frame);
+			if (!validation.valid) {
+				throw new AppError(`Invalid liveness frame: ${validation.reason}`, 400);
+			}
+		}
+
+		const { cityId, thresholds } = await this.getThresholdsForSession(session);
+
+		let challenge: LivenessChallengeRecord | null = null;
+		if (input.livenessChallengeId) {
+			challenge = await this.challengeRepo.consume(input.livenessChallengeId, session.id, trainerId);
+			if (!challenge) {
+				throw new AppError('Liveness challenge is invalid, expired or already used. Request a new one.', 400);
+			}
+		}
+
+		const matcher = getFaceMatcher();
+		let matchScore: number | null = null;
+		let livenessScore: number | null = null;
+		let model: string | null = null;
+		let outcome: FaceVerificationOutcome;
+		let reason: string | undefined;
+		let reviewStatus: FaceReviewStatus;
+
+		try {
+			const reference = await loadReferenceImage(referenceImage);
+			const probe = decodeImage(input.faceVerificationImage);
+
+			const match = await matcher.compare(probe, reference);
+			matchScore = match.similarity;
+			model = match.model;
+
+			let livenessReason: string | undefined;
+			if (challenge && frames.length > 0) {
+				const liveness = await matcher.checkLiveness(frames.map(decodeImage), challenge.prompts);
+				livenessScore = liveness.score;
+				livenessReason = liveness.reason;
+			}
+
+			const classification = classifyFaceMatch(matchScore, livenessScore, thresholds);
+			outcome = classification.outcome;
+			reason = [classification.reason, outcome !== 'passed' ? livenessReason : undefined].filter(Boolean).join('; ') || undefined;
+			// A missing liveness capture is the app's fault, not a doubtful identity; nothing to review
+			reviewStatus = outcome === 'passed' || (livenessScore === null && thresholds.requireLiveness) ? 'not_required' : 'pending';
+		} catch (error: any) {
+			logger.error('Face matcher failed', {
+				provider: matcher.name,
+				sessionId: session.id,
+				trainerId,
+				error: error?.message || String(error),
+				service: 'admin-service',
+			});
+			outcome = 'failed';
+			reason = 'Face verification service unavailable';
+			reviewStatus = 'pending';
+		}
+
+		const retention = faceImageRetentionDays();
+		const attempt = await this.attemptRepo.create({
+			sessionId: session.id,
+			trainerId,
+			cityId,
+			provider: matcher.name,
+			model,
+			challengeId: challenge?.id ?? null,
+			prompts: challenge?.prompts ?? [],
+			matchScore,
+			livenessScore,
+			matchThreshold: thresholds.matchThreshold,
+			livenessThreshold: thresholds.livenessThreshold,
+			outcome,
+			reason: reason ?? null,
+			reviewStatus,
+			probeImage: input.faceVerificationImage,
+			livenessFrames: frames.length > 0 ? frames : null,
+			imageRetainUntil: daysFromNow(outcome === 'passed' ? retention.passed : retention.flagged),
+		});
+
+		return {
+			passed: outcome === 'passed',
+			confidence: Math.round(matchScore ?? 0),
+			reason,
+			outcome,
+			attemptId: attempt.id,
+			liveness: {
+				required: thresholds.requireLiveness,
+				passed: livenessScore !== null && livenessScore >= thresholds.livenessThreshold,
+				score: livenessScore,
+			},
+			underReview: reviewStatus === 'pending',
+		};
+	}
+
+	async listAttempts(filters: {
+		reviewStatus?: FaceReviewStatus;
+		outcome?: FaceVerificationOutcome;
+		trainerId?: string;
+		sessionId?: string;
+		limit?: number;
+		offset?: number;
+	}): Promise<{ attempts: FaceVerificationAttemptRecord[]; total: number }> {
+		return this.attemptRepo.findAll(filters);
+	}
+
+	async getAttempt(id: string): Promise<FaceVerificationAttemptWithImages> {
+		const attempt = await this.attemptRepo.findById(id);
+		if (!attempt) {
+			throw new AppError('Face verification attempt not found', 404);
+		}
+		return attempt;
+	}
+
+	/**
+	 * Confirm (approve) or uphold the failure of (reject) a queued attempt
+	 */
+	async reviewAttempt(
+		id: string,
+		decision: 'approved' | 'rejected',
+		adminId: string,
+		notes: string | null
+	): Promise<{ before: FaceVerificationAttemptRecord; after: FaceVerificationAttemptRecord }> {
+		const before = await this.getAttempt(id);
+		if (before.reviewStatus !== 'pending') {
+			throw new AppError(`Attempt is not awaiting review (status: ${before.reviewStatus})`, 409);
+		}
+
+		const after = await this.attemptRepo.review(id, {
+			status: decision,
+			reviewedBy: adminId,
+			notes,
+			imageRetainUntil: daysFromNow(faceImageRetentionDays().reviewed),
+		});
+		if (!after) {
+			throw new AppError('Attempt was reviewed by someone else', 409);
+		}
+
+		const { probeImage: _probe, livenessFrames: _frames, ...summary } = before;
+		return { before: summary, after };
+	}
+
+	async listCityThresholds(): Promise<{ defaults: FaceVerificationThresholds; cities: CityFaceThresholdRecord[] }> {
+		return { defaults: defaultFaceThresholds(), cities: await this.thresholdRepo.findAll() };
+	}
+
+	async getCityThresholds(cityId: string): Promise<CityFaceThresholdRecord | null> {
+		return this.thresholdRepo.findByCity(cityId);
+	}
+
+	async setCityThresholds(
+		cityId: string,
+		input: FaceVerificationThresholds,
+		adminId: string | null
+	): Promise<CityFaceThresholdRecord> {
+		const city = await this.pool.query('SELECT 1 FROM cities WHERE id = $1', [cityId]);
+		if (city.rowCount === 0) {
+			throw new AppError('City not found', 404);
+		}
+		return this.thresholdRepo.upsert(cityId, input, adminId);
+	}
+
+	async clearCityThresholds(cityId: string): Promise<boolean> {
+		return this.thresholdRepo.delete(cityId);
+	}
+
+	/**
+	 * Apply image retention: purge attempt images past their retain-until date, legacy selfies on
+	 * tutoring_sessions, and long-expired challenges
+	 */
+	async purgeExpiredImages(): Promise<{ attemptsPurged: number; sessionImagesPurged: number; challengesDeleted: number }> {
+		let attemptsPurged = 0;
+		for (;;) {
+			const purged = await this.attemptRepo.purgeExpiredImages(new Date());
+			attemptsPurged += purged;
+			if (purged < 500) {
+				break;
+			}
+		}
+
+		const sessions = await this.pool.query(
+			`
+				UPDATE tutoring_sessions
+				SET trainer_face_verification_image = NULL
+				WHERE trainer_face_verification_image IS NOT NULL
+					AND updated_at < $1
+			`,
+			[daysFromNow(-faceImageRetentionDays().flagged)]
+		);
+
+		const challengesDeleted = await this.challengeRepo.deleteExpired(daysFromNow(-1));
+
+		return { attemptsPurged, sessionImagesPurged: sessions.rowCount ?? 0, challengesDeleted };
+	}
+}
+
+export const faceVerificationService = new FaceVerificationService();
@@ -0,0 +1,339 @@
+import { AppError } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import { getPool } from '../config/database';
+import {
+	GeofenceRepository,
+	type GeofenceEventOrigin,
+	type GeofenceEventRecord,
+	type GeofenceSource,
+	type SessionGeofenceRecord,
+	type ZoneGeofenceSettingRecord,
+} from '../models/geofence.model';
+import { SessionRepository, type SessionRecord } from '../models/session.model';
+import type { LocationUpdateRecord } from '../models/locationTracking.model';
+import { getRecommendedRadius } from '../utils/gpsVerification';
+import {
+	inferAreaTypeFromZoneRadius,
+	isInsideGeofence,
+	type GeofenceAreaType,
+} from '../utils/geofencing';
+
+const AREA_TYPES: GeofenceAreaType[] = ['urban', 'suburban', 'rural'];
+
+function getNumericEnv(name: string, fallback: number): number {
+	const raw = process.env[name];
+	if (!raw) {
+		return fallback;
+	}
+
+	const parsed = Number(raw);
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function defaultAreaType(): GeofenceAreaType {
+	const configured = (process.env.GEOFENCE_DEFAULT_AREA_TYPE || '').toLowerCase() as GeofenceAreaType;
+	return AREA_TYPES.includes(configured) ? configured : 'suburban';
+}
+
+export interface GeofencePositionResult {
+	geofence: SessionGeofenceRecord;
+	inside: boolean;
+	distance: number;
+	/** Set when this position crossed the boundary */
+	event: GeofenceEventRecord | null;
+}
+
+export interface PresenceCheckResult {
+	disputed: boolean;
+	reason: string | null;
+	arrivedAt: Date | null;
+	departedAt: Date | null;
+	/** Minutes between startedAt and endedAt the trainer was inside the geofence */
+	presentMinutes: number;
+	outsideMinutes: number;
+}
+
+/**
+ * Per-session geofences around the student's home.
+ * Radius: zone override > zone area type > area type inferred from zone size > GEOFENCE_DEFAULT_AREA_TYPE.
+ * The geofence is fixed the first time it is resolved so later setting changes don't move a session's goalposts.
+ */
+export class GeofenceService {
+	private pool = getPool();
+	private repo = new GeofenceRepository(this.pool);
+	private sessionRepo = new SessionRepository(this.pool);
+
+	async getSessionGeofence(session: SessionRecord): Promise<SessionGeofenceRecord | null> {
+		const existing = await this.repo.findSessionGeofence(session.id);
+		if (existing) {
+			return existing;
+		}
+
+		const home = session.studentHomeLocation;
+		if (!home) {
+			return null;
+		}
+
+		const zone = await this.repo.findZoneForPoint(home.latitude, home.longitude);
+		const setting = zone ? await this.repo.findZoneSetting(zone.id) : null;
+		const inferred = inferAreaTypeFromZoneRadius(zone?.radiusKm ?? null);
+
+		let source: GeofenceSource;
+		let areaType: GeofenceAreaType;
+		let radiusMeters: number;
+		if (setting?.radiusMeters) {
+			source = 'zone_override';
+			areaType = setting.areaType ?? inferred ?? defaultAreaType();
+			radiusMeters = setting.radiusMeters;
+		} else if (setting?.areaType) {
+			source = 'zone_area_type';
+			areaType = setting.areaType;
+			radiusMeters = getRecommendedRadius(areaType);
+		} else if (inferred) {
+			source = 'zone_size';
+			areaType = inferred;
+			radiusMeters = getRecommendedRadius(areaType);
+		} else {
+			source = 'default';
+			areaType = defaultAreaType();
+			radiusMeters = getRecommendedRadius(areaType);
+		}
+
+		return this.repo.createSessionGeofence({
+			sessionId: session.id,
+			latitude: home.latitude,
+			longitude: home.longitude,
+			radiusMeters,
+			exitBufferMeters: setting?.exitBufferMeters ?? getNumericEnv('GEOFENCE_EXIT_BUFFER_METERS', 50),
+			areaType,
+			zoneId: zone?.id ?? null,
+			source,
+		});
+	}
+
+	async getSessionGeofenceById(sessionId: string): Promise<SessionGeofenceRecord | null> {
+		const existing = await this.repo.findSessionGeofence(sessionId);
+		if (existing) {
+			return existing;
+		}
+
+		const session = await this.sessionRepo.findById(sessionId);
+		return session ? this.getSessionGeofence(session) : null;
+	}
+
+	/**
+	 * Feed one of the user's positions into the session geofence and record an enter/exit event
+	 * when it crosses the boundary. Returns null when the session has no home location.
+	 */
+	async recordPosition(
+		sessionId: string,
+		userId: string,
+		position: { latitude: number; longitude: number },
+		origin: GeofenceEventOrigin,
+		occurredAt?: Date
+	): Promise<GeofencePositionResult | null> {
+		const geofence = await this.getSessionGeofenceById(sessionId);
+		if (!geofence) {
+			return null;
+		}
+
+		const last = await this.repo.findLastEvent(sessionId, userId);
+		const wasInside = last?.eventType === 'enter';
+		const { inside, distance } = isInsideGeofence(geofence, position.latitude, position.longitude, wasInside);
+
+		let event: GeofenceEventRecord | null = null;
+		if (inside !== wasInside) {
+			event = await this.repo.createEvent({
+				sessionId,
+				userId,
+				eventType: inside ? 'enter' : 'exit',
+				origin,
+				latitude: position.latitude,
+				longitude: position.longitude,
+				distanceMeters: distance,
+				occurredAt,
+			});
+		}
+
+		return { geofence, inside, distance, event };
+	}
+
+	/**
+	 * Location-tracking stream hook: trainer positions on a tracking session tied to a tutoring
+	 * session (metadata.tutoringSessionId) produce arrival/departure events.
+	 */
+	async handleTrackingUpdate(update: LocationUpdateRecord): Promise<GeofencePositionResult | null> {
+		if (update.userRole !== 'trainer') {
+			return null;
+		}
+
+		const tracking = await this.pool.query<{ tutoringSessionId: string | null }>(
+			`SELECT metadata->>'tutoringSessionId' AS "tutoringSessionId" FROM location_tracking_sessions WHERE id = $1`,
+			[update.sessionId]
+		);
+		const tutoringSessionId = tracking.rows[0]?.tutoringSessionId;
+		if (!tutoringSessionId) {
+			return null;
+		}
+
+		const session = await this.sessionRepo.findById(tutoringSessionId);
+		if (!session || session.trainerId !== update.userId) {
+			return null;
+		}
+		if (!['scheduled', 'pending_verification', 'in_progress'].includes(session.status)) {
+			return null;
+		}
+
+		const result = await this.recordPosition(
+			session.id,
+			update.userId,
+			{ latitude: update.latitude, longitude: update.longitude },
+			'location_tracking',
+			update.timestamp
+		);
+
+		if (result?.event?.eventType === 'exit' && session.status === 'in_progress') {
+			logger.warn('Trainer left the student home geofence during a session', {
+				service: 'admin-service',
+				sessionId: session.id,
+				trainerId: session.trainerId,
+				distance: Math.round(result.distance),
+			});
+		}
+
+		return result;
+	}
+
+	/**
+	 * Compare the trainer's geofence presence with the session's startedAt/endedAt and flag the
+	 * session (presence_disputed) when they disagree by more than GEOFENCE_PRESENCE_TOLERANCE_MINUTES.
+	 */
+	async crossCheckPresence(session: SessionRecord): Promise<PresenceCheckResult | null> {
+		if (!session.startedAt || !session.endedAt) {
+			return null;
+		}
+
+		const geofence = await this.getSessionGeofence(session);
+		if (!geofence) {
+			return null;
+		}
+
+		const toleranceMs = getNumericEnv('GEOFENCE_PRESENCE_TOLERANCE_MINUTES', 10) * 60 * 1000;
+		const start = session.startedAt.getTime();
+		const end = session.endedAt.getTime();
+		const events = await this.repo.findEvents(session.id, session.trainerId);
+
+		let arrivedAt: Date | null = null;
+		let departedAt: Date | null = null;
+		let inside = false;
+		let cursor = start;
+		let presentMs = 0;
+
+		for (const event of events) {
+			const at = new Date(event.occurredAt).getTime();
+			if (at <= start) {
+				inside = event.eventType === 'enter';
+				if (inside) arrivedAt = new Date(at);
+				continue;
+			}
+			if (at > end) {
+				break;
+			}
+			if (inside) presentMs += at - cursor;
+			cursor = at;
+			inside = event.eventType === 'enter';
+			if (inside) {
+				arrivedAt = arrivedAt ?? new Date(at);
+				departedAt = null;
+			} else {
+				departedAt = new Date(at);
+			}
+		}
+		if (inside) presentMs += end - cursor;
+
+		const sessionMs = Math.max(0, end - start);
+		const outsideMs = sessionMs - presentMs;
+
+		let reason: string | null = null;
+		if (!arrivedAt || arrivedAt.getTime() > start + toleranceMs) {
+			reason = arrivedAt
+				? `Trainer reached the student's home ${Math.round((arrivedAt.getTime() - start) / 60000)} minutes after the session was started`
+				: "No arrival at the student's home was recorded for this session";
+		} else if (departedAt && end - departedAt.getTime() > toleranceMs) {
+			reason = `Session was ended ${Math.round((end - departedAt.getTime()) / 60000)} minutes after the trainer left the student's home`;
+		} else if (outsideMs > toleranceMs) {
+			reason = `Trainer was away from the student's home for ${Math.round(outsideMs / 60000)} minutes during the session`;
+		}
+
+		await this.sessionRepo.updatePresenceCheck(session.id, { disputed: reason !== null, reason });
+
+		if (reason) {
+			logger.warn('Session presence mismatch flagged', {
+				service: 'admin-service',
+				sessionId: session.id,
+				trainerId: session.trainerId,
+				reason,
+			});
+		}
+
+		return {
+			disputed: reason !== null,
+			reason,
+			arrivedAt,
+			departedAt,
+			presentMinutes: Math.round(presentMs / 60000),
+			outsideMinutes: Math.round(outsideMs / 60000),
+		};
+	}
+
+	/**
+	 * Geofence, boundary events and presence flag for one session (ops view)
+	 */
+	async getSessionPresence(sessionId: string): Promise<{
+		geofence: SessionGeofenceRecord | null;
+		events: GeofenceEventRecord[];
+		presenceDisputed: boolean;
+		presenceDisputeReason: string | null;
+	}> {
+		const session = await this.sessionRepo.findById(sessionId);
+		if (!session) {
+			throw new AppError('Session not found', 404);
+		}
+
+		return {
+			geofence: await this.getSessionGeofence(session),
+			events: await this.repo.findEvents(sessionId),
+			presenceDisputed: session.presenceDisputed,
+			presenceDisputeReason: session.presenceDisputeReason,
+		};
+	}
+
+	async listZoneSettings(): Promise<ZoneGeofenceSettingRecord[]> {
+		return this.repo.findAllZoneSettings();
+	}
+
+	async getZoneSetting(zoneId: string): Promise<ZoneGeofenceSettingRecord | null> {
+		return this.repo.findZoneSetting(zoneId);
+	}
+
+	async setZoneSetting(
+		zoneId: string,
+		input: { areaType: GeofenceAreaType | null; radiusMeters: number | null; exitBufferMeters: number | null },
+		adminId: string | null
+	): Promise<ZoneGeofenceSettingRecord> {
+		const zone = await this.pool.query('SELECT 1 FROM zones WHERE id = $1', [zoneId]);
+		if (zone.rowCount === 0) {
+			throw new AppError('Zone not found', 404);
+		}
+		if (!input.areaType && !input.radiusMeters) {
+			throw new AppError('Either areaType or radiusMeters is required', 400);
+		}
+		return this.repo.upsertZoneSetting(zoneId, input, adminId);
+	}
+
+	async clearZoneSetting(zoneId: string): Promise<boolean> {
+		return this.repo.deleteZoneSetting(zoneId);
+	}
+}
+
+export const geofenceService = new GeofenceService();
@@ -0,0 +1,29 @@
+import { getPool } from '../config/database';
+
+export type GuardianConsentKey = 'locationSharing' | 'faceVerification';
+
+/**
+ * Guardian consents recorded on guardian_student_links (owned by student-auth-service).
+ * Students without an active guardian need no consent; otherwise every active guardian
+ * must have granted it, so one guardian cannot override another's refusal.
+ */
+export class GuardianConsentService {
+	private pool = getPool();
+
+	async hasConsent(studentId: string, key: GuardianConsentKey): Promise<boolean> {
+		const result = await this.pool.query<{ guardians: number; granted: number }>(
+			`
+				SELECT
+					COUNT(*)::int AS guardians,
+					COUNT(*) FILTER (WHERE (consents->$2->>'granted')::boolean IS TRUE)::int AS granted
+				FROM guardian_student_links
+				WHERE student_id = $1 AND status = 'active'
+			`,
+			[studentId, key]
+		);
+		const { guardians, granted } = result.rows[0] ?? { guardians: 0, granted: 0 };
+		return guardians === granted;
+	}
+}
+
+export const guardianConsentService = new GuardianConsentService();
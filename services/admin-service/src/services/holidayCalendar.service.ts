@@ -0,0 +1,307 @@
+import { AppError } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import { shouldSkipDateForSessions } from '@kodingcaravan/shared/src/utils/dateUtils';
+import {
+	calendarBlockAppliesTo,
+	loadBlockedDates,
+	resolveCalendarScopeForLocation,
+	toDateKey,
+	type CalendarBlock,
+	type CalendarScopeContext,
+} from '@kodingcaravan/shared/utils/blackoutCalendar';
+import { getPool } from '../config/database';
+import {
+	CalendarBlockRepository,
+	CalendarRescheduleProposalRepository,
+	type CalendarRescheduleProposalRecord,
+	type CreateCalendarBlockInput,
+} from '../models/calendarBlock.model';
+
+/** How far past the blocked date to look for an open day */
+const PROPOSAL_SEARCH_DAYS = 60;
+const SCAN_BLOCK_BATCH = 20;
+
+export interface ProposalScanResult {
+	blocksScanned: number;
+	sessionsAffected: number;
+	proposalsCreated: number;
+}
+
+type AffectedSessionRow = {
+	id: string;
+	allocation_id: string;
+	student_id: string;
+	trainer_id: string;
+	scheduled_date: string;
+	scheduled_time: string;
+	student_home_location: { latitude?: number; longitude?: number } | string | null;
+	allocation_metadata: Record<string, unknown> | null;
+};
+
+function addDays(dateKey: string, days: number): string {
+	const date = new Date(`${dateKey}T00:00:00`);
+	date.setDate(date.getDate() + days);
+	return toDateKey(date);
+}
+
+/**
+ * Holiday / blackout calendar administration, and reschedule proposals for sessions that
+ * were already scheduled when a block was added
+ */
+export class HolidayCalendarService {
+	private pool = getPool();
+	private blockRepo: CalendarBlockRepository;
+	private proposalRepo: CalendarRescheduleProposalRepository;
+
+	constructor() {
+		this.blockRepo = new CalendarBlockRepository(this.pool);
+		this.proposalRepo = new CalendarRescheduleProposalRepository(this.pool);
+	}
+
+	async createBlock(input: CreateCalendarBlockInput): Promise<CalendarBlock> {
+		if (input.endDate < input.startDate) {
+			throw new AppError('endDate must be on or after startDate', 400);
+		}
+		const block = await this.blockRepo.create(input);
+		logger.info('Calendar block created', {
+			blockId: block.id,
+			scope: block.scope,
+			scopeRef: block.scopeRef,
+			kind: block.kind,
+			startDate: block.startDate,
+			endDate: block.endDate,
+			createdBy: input.createdBy,
+			service: 'admin-service',
+		});
+		return block;
+	}
+
+	async listBlocks(filters: Parameters<CalendarBlockRepository['findAll']>[0]): Promise<CalendarBlock[]> {
+		return this.blockRepo.findAll(filters);
+	}
+
+	/**
+	 * Deactivate a block. Its pending reschedule proposals no longer apply and are dismissed.
+	 */
+	async removeBlock(blockId: string, adminId: string): Promise<{ block: CalendarBlock; proposalsDismissed: number }> {
+		const block = await this.blockRepo.deactivate(blockId);
+		if (!block) {
+			throw new AppError('Calendar block not found', 404);
+		}
+		const proposalsDismissed = await this.proposalRepo.dismissPendingForBlock(blockId);
+		logger.info('Calendar block removed', {
+			blockId,
+			proposalsDismissed,
+			adminId,
+			service: 'admin-service',
+		});
+		return { block, proposalsDismissed };
+	}
+
+	async listProposals(
+		filters: Parameters<CalendarRescheduleProposalRepository['findAll']>[0]
+	): Promise<CalendarRescheduleProposalRecord[]> {
+		return this.proposalRepo.findAll(filters);
+	}
+
+	/**
+	 * Move the session to the proposed date
+	 */
+	async applyProposal(
+		proposalId: string,
+		adminId: string,
+		override?: { date?: string; time?: string }
+	): Promise<CalendarRescheduleProposalRecord> {
+		const client = await this.pool.connect();
+		try {
+			await client.query('BEGIN');
+
+			const proposal = await this.proposalRepo.findById(proposalId, client, true);
+			if (!proposal) {
+				throw new AppError('Reschedule proposal not found', 404);
+			}
+			if (proposal.status !== 'pending') {
+				throw new AppError(`Cannot apply proposal with status: ${proposal.status}`, 400);
+			}
+
+			const newDate = override?.date ?? proposal.proposedDate;
+			const newTime = override?.time ?? proposal.proposedTime;
+			if (!newDate) {
+				throw new AppError('No open date was found for this session; provide a date', 400);
+			}
+			if (newDate <= toDateKey(new Date())) {
+				throw new AppError('New date must be in the future', 400);
+			}
+
+			const updated = await client.query(
+				`
+					UPDATE tutoring_sessions
+					SET scheduled_date = $1,
+						scheduled_time = $2,
+						updated_at = NOW()
+					WHERE id = $3 AND status = 'scheduled'
+				`,
+				[newDate, newTime, proposal.sessionId]
+			);
+			if ((updated.rowCount ?? 0) === 0) {
+				throw new AppError('Session is no longer scheduled', 409);
+			}
+
+			const resolved = await this.proposalRepo.resolve(proposalId, 'applied', adminId, client);
+			await client.query('COMMIT');
+
+			logger.info('Holiday reschedule applied', {
+				proposalId,
+				sessionId: proposal.sessionId,
+				from: proposal.originalDate,
+				to: newDate,
+				adminId,
+				service: 'admin-service',
+			});
+			return resolved!;
+		} catch (error) {
+			await client.query('ROLLBACK');
+			throw error;
+		} finally {
+			client.release();
+		}
+	}
+
+	async dismissProposal(proposalId: string, adminId: string): Promise<CalendarRescheduleProposalRecord> {
+		const resolved = await this.proposalRepo.resolve(proposalId, 'dismissed', adminId);
+		if (!resolved) {
+			const existing = await this.proposalRepo.findById(proposalId);
+			throw existing
+				? new AppError(`Cannot dismiss proposal with status: ${existing.status}`, 400)
+				: new AppError('Reschedule proposal not found', 404);
+		}
+		return resolved;
+	}
+
+	/**
+	 * Find scheduled sessions that fall on blocks added (or changed) since the last scan and
+	 * propose the next open date for each. Run by the calendar reschedule job.
+	 */
+	async scanForRescheduleProposals(): Promise<ProposalScanResult> {
+		const result: ProposalScanResult = { blocksScanned: 0, sessionsAffected: 0, proposalsCreated: 0 };
+		const blocks = await this.blockRepo.findUnscanned(SCAN_BLOCK_BATCH);
+
+		for (const block of blocks) {
+			const sessions = await this.findSessionsOnBlock(block);
+			const scopeCache = new Map<string, CalendarScopeContext>();
+
+			for (const session of sessions) {
+				const scope = await this.resolveSessionScope(session, scopeCache);
+				if (!calendarBlockAppliesTo(block, scope)) {
+					continue;
+				}
+				result.sessionsAffected++;
+
+				const proposedDate = await this.findOpenDate(session, scope);
+				const proposal = await this.proposalRepo.create({
+					sessionId: session.id,
+					blockId: block.id,
+					allocationId: session.allocation_id,
+					studentId: session.student_id,
+					trainerId: session.trainer_id,
+					originalDate: session.scheduled_date,
+					originalTime: session.scheduled_time,
+					proposedDate,
+					proposedTime: session.scheduled_time,
+				});
+				if (proposal) {
+					result.proposalsCreated++;
+				}
+			}
+
+			await this.blockRepo.markScanned(block.id);
+			result.blocksScanned++;
+		}
+
+		if (result.blocksScanned > 0) {
+			logger.info('Calendar reschedule scan completed', { ...result, service: 'admin-service' });
+		}
+		return result;
+	}
+
+	private async findSessionsOnBlock(block: CalendarBlock): Promise<AffectedSessionRow[]> {
+		const params: unknown[] = [block.startDate, block.endDate];
+		const trainerFilter = block.scope === 'trainer' ? `AND ts.trainer_id = $${params.push(block.scopeRef)}` : '';
+		const result = await this.pool.query<AffectedSessionRow>(
+			`
+				SELECT ts.id, ts.allocation_id, ts.student_id, ts.trainer_id,
+					to_char(ts.scheduled_date, 'YYYY-MM-DD') AS scheduled_date,
+					ts.scheduled_time, ts.student_home_location,
+					ta.metadata AS allocation_metadata
+				FROM tutoring_sessions ts
+				JOIN trainer_allocations ta ON ta.id = ts.allocation_id
+				WHERE ts.status = 'scheduled'
+					AND ts.scheduled_date BETWEEN GREATEST($1::date, CURRENT_DATE) AND $2::date
+					${trainerFilter}
+				ORDER BY ts.scheduled_date ASC
+			`,
+			params
+		);
+		return result.rows;
+	}
+
+	/**
+	 * City / state / franchise of the student's home (cached per allocation), plus the trainer
+	 */
+	private async resolveSessionScope(
+		session: AffectedSessionRow,
+		cache: Map<string, CalendarScopeContext>
+	): Promise<CalendarScopeContext> {
+		let scope = cache.get(session.allocation_id);
+		if (!scope) {
+			const location =
+				typeof session.student_home_location === 'string'
+					? JSON.parse(session.student_home_location)
+					: session.student_home_location;
+			scope =
+				typeof location?.latitude === 'number' && typeof location?.longitude === 'number'
+					? await resolveCalendarScopeForLocation(this.pool, { latitude: location.latitude, longitude: location.longitude })
+					: {};
+			cache.set(session.allocation_id, scope);
+		}
+		return { ...scope, trainerId: session.trainer_id };
+	}
+
+	/**
+	 * First date after the session's current one that is not blocked, not already taken by
+	 * another session of the allocation, and on a Sunday for Sunday-only courses
+	 */
+	private async findOpenDate(session: AffectedSessionRow, scope: CalendarScopeContext): Promise<string | null> {
+		const isSundayOnly = session.allocation_metadata?.isSundayOnly === true;
+		const step = isSundayOnly ? 7 : 1;
+		const today = toDateKey(new Date());
+		const searchEnd = addDays(session.scheduled_date, PROPOSAL_SEARCH_DAYS);
+
+		const [blocked, taken] = await Promise.all([
+			loadBlockedDates(this.pool, scope, session.scheduled_date, searchEnd),
+			this.pool.query<{ date: string }>(
+				`
+					SELECT DISTINCT to_char(scheduled_date, 'YYYY-MM-DD') AS date
+					FROM tutoring_sessions
+					WHERE allocation_id = $1 AND status <> 'cancelled'
+						AND scheduled_date > $2::date AND scheduled_date <= $3::date
+				`,
+				[session.allocation_id, session.scheduled_date, searchEnd]
+			),
+		]);
+		const takenDates = new Set(taken.rows.map((row) => row.date));
+
+		for (let candidate = addDays(session.scheduled_date, step); candidate <= searchEnd; candidate = addDays(candidate, step)) {
+			if (candidate <= today || takenDates.has(candidate) || blocked.isBlocked(candidate)) {
+				continue;
+			}
+			if (!isSundayOnly && shouldSkipDateForSessions(candidate)) {
+				continue;
+			}
+			return candidate;
+		}
+		return null;
+	}
+}
+
+export const holidayCalendarService = new HolidayCalendarService();
@@ -4,6 +4,9 @@
  * - Redis: live:journey:{journeyId} TTL 120s, sequence validation
  * - No DB reads on location hot path
  * - Trainer replacement revokes tracking (journey ended)
+ * - ETA to the student's home and late / long-stop / off-route alerts are computed from the stream;
+ *   the trail is buffered in Redis and persisted to journey_breadcrumbs when the journey ends
+ * - Entering the session geofence marks the journey arrived automatically
  */
 
 import { AppError } from '@kodingcaravan/shared';
@@ -15,15 +18,74 @@ import {
 } from '@kodingcaravan/shared/utils/redisWithTimeout';
 import { getPool } from '../config/database';
 import { SessionRepository } from '../models/session.model';
-import { JourneyRepository } from '../models/journey.model';
+import { JourneyRepository, type JourneyAlertRecord, type JourneyBreadcrumb } from '../models/journey.model';
+import { findActiveAdminIdsWithPermission } from '../models/permission.model';
+import { geofenceService } from './geofence.service';
+import { PERMISSIONS } from '../constants/permissions';
+import {
+	advanceProgress,
+	detectJourneyAlerts,
+	estimateEta,
+	initialProgress,
+	parseScheduledStart,
+	type GeoPoint,
+	type JourneyAlertCandidate,
+	type JourneyAlertConfig,
+	type JourneyAlertType,
+	type JourneyEta,
+	type JourneyProgress,
+} from '../utils/journeyEta';
 import {
 	publishTrainerJourneyStarted,
 	publishTrainerJourneyEnded,
 } from '@kodingcaravan/shared/utils/eventBridgeClient';
+import { emitNotificationRequested } from '@kodingcaravan/shared/utils/notificationEventEmitter';
 import logger from '@kodingcaravan/shared/config/logger';
 
 const LIVE_JOURNEY_TTL_SEC = 120;
 const LIVE_JOURNEY_PREFIX = 'live:journey:';
+const TRAIL_SUFFIX = ':trail';
+// Trail outlives the live key so a journey that lapses and is ended late still keeps its breadcrumbs
+const TRAIL_TTL_SEC = 6 * 60 * 60;
+const MAX_TRAIL_POINTS = 5000;
+const BREADCRUMB_BATCH_SIZE = 500;
+const OPS_RECIPIENTS_CACHE_MS = 5 * 60 * 1000;
+
+function getNumericEnv(name: string, fallback: number): number {
+	const raw = process.env[name];
+	if (!raw) {
+		return fallback;
+	}
+
+	const parsed = Number(raw);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function journeyAlertConfig(): JourneyAlertConfig {
+	return {
+		lateAlertMinutes: getNumericEnv('JOURNEY_LATE_ALERT_MINUTES', 10),
+		lateEscalationMinutes: getNumericEnv('JOURNEY_LATE_ESCALATION_MINUTES', 15),
+		longStopMinutes: getNumericEnv('JOURNEY_LONG_STOP_MINUTES', 8),
+		stopRadiusMeters: getNumericEnv('JOURNEY_STOP_RADIUS_METERS', 75),
+		arrivalRadiusMeters: getNumericEnv('JOURNEY_ARRIVAL_RADIUS_METERS', 150),
+		deviationMinMeters: getNumericEnv('JOURNEY_DEVIATION_MIN_METERS', 1500),
+	};
+}
+
+const STUDENT_ALERT_COPY: Record<JourneyAlertType, { title: string; body: (alert: JourneyAlertCandidate) => string }> = {
+	late_arrival: {
+		title: 'Trainer running late',
+		body: (alert) => `Your trainer is expected about ${alert.minutesLate} minutes after the scheduled time.`,
+	},
+	long_stop: {
+		title: 'Trainer delayed on the way',
+		body: () => 'Your trainer has been stopped for a while. Our team is keeping an eye on it.',
+	},
+	route_deviation: {
+		title: 'Trainer taking a different route',
+		body: () => 'Your trainer seems to be taking a longer route. Our team is checking in.',
+	},
+};
 
 export interface StartJourneyInput {
 	sessionId: string;
@@ -56,6 +118,7 @@ export interface LiveLocationResponse {
 	} | null;
 	isActive: boolean;
 	lastUpdate: string | null;
+	eta: JourneyEta | null;
 }
 
 interface LiveJourneyRedisValue {
@@ -73,12 +136,22 @@ interface LiveJourneyRedisValue {
 		timestamp: string;
 	};
 	startedAt: string;
+	/** Student's home, cached at start so ETA needs no DB read (absent on journeys started before ETA support) */
+	destination?: GeoPoint | null;
+	scheduledStartAt?: string | null;
+	/** Session geofence radius; reaching it ends the journey as arrived */
+	arrivalRadiusMeters?: number | null;
+	progress?: JourneyProgress;
+	eta?: JourneyEta | null;
+	/** Alerts already raised, for de-duplication */
+	alerts?: Partial<Record<JourneyAlertType, { sentAt: string; minutesLate: number | null }>>;
 }
 
 export class JourneyService {
 	private pool = getPool();
 	private sessionRepo = new SessionRepository(this.pool);
 	private journeyRepo = new JourneyRepository(this.pool);
+	private opsRecipients: { adminIds: string[]; fetchedAt: number } | null = null;
 
 	/**
 	 * Start journey: create journey row, set Redis key (TTL 120s), return journeyId.
@@ -106,6 +179,8 @@ export class JourneyService {
 			throw new AppError('An active journey already exists for this session', 409);
 		}
 
+		const geofence = await geofenceService.getSessionGeofence(session);
+
 		const journey = await this.journeyRepo.create({
 			sessionId,
 			trainerId,
@@ -123,6 +198,12 @@ export class JourneyService {
 			studentId: session.studentId,
 			sequence: 0,
 			startedAt: new Date().toISOString(),
+			destination: session.studentHomeLocation
+				? { latitude: session.studentHomeLocation.latitude, longitude: session.studentHomeLocation.longitude }
+				: null,
+			scheduledStartAt: parseScheduledStart(session.scheduledDate, session.scheduledTime)?.toISOString() ?? null,
+			arrivalRadiusMeters: geofence?.radiusMeters ?? null,
+			alerts: {},
 		};
 
 		try {
@@ -178,6 +259,9 @@ export class JourneyService {
 		timestamp: string;
 		sequence: number;
 		ttl: number;
+		eta: JourneyEta | null;
+		/** True when this point entered the session geofence and the journey was ended as arrived */
+		arrived: boolean;
 	}> {
 		const { journeyId, trainerId, sequence, latitude, longitude, accuracy, speed, heading } = input;
 
@@ -223,7 +307,8 @@ export class JourneyService {
 			}
 		}
 
-		const timestamp = new Date().toISOString();
+		const now = new Date();
+		const timestamp = now.toISOString();
 		const updated: LiveJourneyRedisValue = {
 			...data,
 			sequence,
@@ -236,6 +321,7 @@ export class JourneyService {
 				timestamp,
 			},
 		};
+		const newAlerts = this.trackProgress(data, updated, now);
 
 		const ok = await redisSetexWithTimeout(
 			liveKey,
@@ -254,17 +340,40 @@ export class JourneyService {
 				JSON.stringify({
 					journeyId,
 					location: updated.location,
+					eta: updated.eta ?? null,
 					sequence,
 					timestamp,
 				})
 			);
 		} catch (_) {}
 
+		this.appendBreadcrumb(journeyId, {
+			sequence,
+			latitude,
+			longitude,
+			accuracy: accuracy ?? null,
+			speed: speed ?? null,
+			heading: heading ?? null,
+			recordedAt: timestamp,
+		});
+
+		for (const alert of newAlerts) {
+			void this.raiseAlert(updated, alert);
+		}
+
+		const arrived =
+			!!updated.arrivalRadiusMeters &&
+			!!updated.eta &&
+			updated.eta.distanceMeters <= updated.arrivalRadiusMeters &&
+			(await this.autoArrive(updated, now));
+
 		return {
 			journeyId,
 			timestamp,
 			sequence,
 			ttl: LIVE_JOURNEY_TTL_SEC,
+			eta: updated.eta ?? null,
+			arrived,
 		};
 	}
 
@@ -283,6 +392,7 @@ export class JourneyService {
 				location: null,
 				isActive: false,
 				lastUpdate: null,
+				eta: null,
 			};
 		}
 
@@ -297,6 +407,7 @@ export class JourneyService {
 				location: null,
 				isActive: false,
 				lastUpdate: null,
+				eta: null,
 			};
 		}
 
@@ -316,6 +427,7 @@ export class JourneyService {
 				: null,
 			isActive: true,
 			lastUpdate: data.location?.timestamp ?? null,
+			eta: data.eta ?? null,
 		};
 	}
 
@@ -337,6 +449,7 @@ export class JourneyService {
 		await this.journeyRepo.setEnded(journeyId, reason);
 		const liveKey = `${LIVE_JOURNEY_PREFIX}${journeyId}`;
 		await redisDelWithTimeout(liveKey);
+		await this.persistBreadcrumbs(journeyId);
 
 		const endedAt = new Date().toISOString();
 		try {
@@ -393,6 +506,16 @@ export class JourneyService {
 			);
 		}
 
+		await geofenceService
+			.recordPosition(data.sessionId, trainerId, data.location, 'journey')
+			.catch((e: unknown) => {
+				logger.warn('Failed to record arrival geofence event', {
+					journeyId,
+					error: e instanceof Error ? e.message : String(e),
+					service: 'admin-service',
+				});
+			});
+
 		const { endedAt } = await this.endJourney(journeyId, trainerId, 'arrived');
 		return { journeyId, arrivedAt: endedAt, distance: Math.round(distance) };
 	}
@@ -409,6 +532,254 @@ export class JourneyService {
 		return true;
 	}
 
+	/**
+	 * Resolve the student for a guardian watching a journey. Returns null unless the guardian
+	 * has an active link (guardian_student_links, owned by student-auth-service) to the journey's student.
+	 */
+	async resolveGuardianJourneyStudent(journeyId: string, guardianId: string): Promise<string | null> {
+		const result = await this.pool.query<{ student_id: string }>(
+			`
+				SELECT j.student_id
+				FROM journeys j
+				JOIN guardian_student_links l
+					ON l.student_id = j.student_id
+					AND l.guardian_id = $2
+					AND l.status = 'active'
+				WHERE j.id = $1
+				LIMIT 1
+			`,
+			[journeyId, guardianId]
+		);
+		return result.rows[0]?.student_id ?? null;
+	}
+
+	/** Persisted trail of a journey, in sequence order */
+	async getBreadcrumbs(journeyId: string): Promise<JourneyBreadcrumb[]> {
+		const journey = await this.journeyRepo.findById(journeyId);
+		if (!journey) throw new AppError('Journey not found', 404);
+		return this.journeyRepo.getBreadcrumbs(journeyId);
+	}
+
+	async listAlerts(filters: {
+		journeyId?: string;
+		trainerId?: string;
+		type?: JourneyAlertType;
+		since?: Date;
+		limit?: number;
+		offset?: number;
+	}): Promise<JourneyAlertRecord[]> {
+		return this.journeyRepo.findAlerts(filters);
+	}
+
+	/**
+	 * Update progress and ETA on `updated` in place and return alerts not raised before.
+	 * Journeys without a cached destination (started before ETA support) are left alone.
+	 */
+	private trackProgress(
+		previous: LiveJourneyRedisValue,
+		updated: LiveJourneyRedisValue,
+		now: Date
+	): JourneyAlertCandidate[] {
+		const destination = previous.destination;
+		if (!destination || !updated.location) {
+			return [];
+		}
+
+		const config = journeyAlertConfig();
+		const current: GeoPoint = { latitude: updated.location.latitude, longitude: updated.location.longitude };
+		const progress = previous.progress && previous.location
+			? advanceProgress(previous.progress, previous.location, current, destination, now, config, updated.location.speed)
+			: initialProgress(current, destination, now);
+		const scheduledStart = previous.scheduledStartAt ? new Date(previous.scheduledStartAt) : null;
+		const eta = estimateEta(current, destination, progress, scheduledStart, now);
+
+		const sent = { ...(previous.alerts ?? {}) };
+		const fresh = detectJourneyAlerts(progress, eta, now, config).filter((alert) => {
+			const last = sent[alert.type];
+			if (!last) return true;
+			if (alert.type === 'late_arrival') {
+				return (alert.minutesLate ?? 0) >= (last.minutesLate ?? 0) + config.lateEscalationMinutes;
+			}
+			if (alert.type === 'long_stop') {
+				// A new stop after the trainer moved on again
+				return new Date(last.sentAt) < new Date(progress.stopAnchor.since);
+			}
+			return false;
+		});
+		for (const alert of fresh) {
+			sent[alert.type] = { sentAt: now.toISOString(), minutesLate: alert.minutesLate };
+		}
+
+		updated.progress = progress;
+		updated.eta = eta;
+		updated.alerts = sent;
+		return fresh;
+	}
+
+	/**
+	 * Record an alert and fan it out: journey:updates for live subscribers and the ops desk socket,
+	 * push notifications for the student and ops admins. Never throws (runs off the hot path).
+	 */
+	private async raiseAlert(journey: LiveJourneyRedisValue, alert: JourneyAlertCandidate): Promise<void> {
+		try {
+			const record = await this.journeyRepo.createAlert({
+				journeyId: journey.journeyId,
+				sessionId: journey.sessionId,
+				trainerId: journey.trainerId,
+				studentId: journey.studentId,
+				type: alert.type,
+				message: alert.message,
+				minutesLate: alert.minutesLate,
+				stoppedMinutes: alert.stoppedMinutes,
+				distanceMeters: journey.eta?.distanceMeters ?? null,
+				estimatedArrivalAt: journey.eta ? new Date(journey.eta.estimatedArrivalAt) : null,
+				latitude: journey.location?.latitude ?? null,
+				longitude: journey.location?.longitude ?? null,
+			});
+
+			try {
+				getRedisClient().publish(
+					'journey:updates',
+					JSON.stringify({
+						journeyId: journey.journeyId,
+						type: 'alert',
+						alert: record,
+						eta: journey.eta ?? null,
+						timestamp: record.createdAt,
+					})
+				);
+			} catch (_) {}
+
+			const data = {
+				type: 'journey_alert',
+				alertType: alert.type,
+				alertId: record.id,
+				journeyId: journey.journeyId,
+				sessionId: journey.sessionId,
+			};
+			const copy = STUDENT_ALERT_COPY[alert.type];
+			await emitNotificationRequested(
+				{
+					userId: journey.studentId,
+					role: 'student',
+					notificationType: 'session',
+					title: copy.title,
+					body: copy.body(alert),
+					data,
+				},
+				journey.sessionId
+			);
+
+			for (const adminId of await this.getOpsRecipients()) {
+				await emitNotificationRequested(
+					{
+						userId: adminId,
+						role: 'admin',
+						notificationType: 'warning',
+						title: 'Journey alert',
+						body: alert.message,
+						data: { ...data, trainerId: journey.trainerId, studentId: journey.studentId },
+					},
+					journey.sessionId
+				);
+			}
+
+			logger.info('Journey alert raised', {
+				service: 'admin-service',
+				journeyId: journey.journeyId,
+				alertType: alert.type,
+				minutesLate: alert.minutesLate,
+			});
+		} catch (e) {
+			logger.error('Failed to raise journey alert', {
+				journeyId: journey.journeyId,
+				alertType: alert.type,
+				error: e instanceof Error ? e.message : String(e),
+				service: 'admin-service',
+			});
+		}
+	}
+
+	/**
+	 * Trainer entered the session geofence: record the arrival and end the journey.
+	 * Returns false (journey stays live) if either step fails.
+	 */
+	private async autoArrive(journey: LiveJourneyRedisValue, at: Date): Promise<boolean> {
+		try {
+			if (journey.location) {
+				await geofenceService.recordPosition(
+					journey.sessionId,
+					journey.trainerId,
+					{ latitude: journey.location.latitude, longitude: journey.location.longitude },
+					'journey',
+					at
+				);
+			}
+			await this.endJourney(journey.journeyId, journey.trainerId, 'arrived');
+			return true;
+		} catch (e) {
+			logger.error('Automatic journey arrival failed', {
+				journeyId: journey.journeyId,
+				error: e instanceof Error ? e.message : String(e),
+				service: 'admin-service',
+			});
+			return false;
+		}
+	}
+
+	/** Ops desk = admins who can track tutor arrival/exit; cached briefly since alerts come in bursts */
+	private async getOpsRecipients(): Promise<string[]> {
+		if (this.opsRecipients && Date.now() - this.opsRecipients.fetchedAt < OPS_RECIPIENTS_CACHE_MS) {
+			return this.opsRecipients.adminIds;
+		}
+		const adminIds = await findActiveAdminIdsWithPermission(PERMISSIONS.TRACK_TUTOR_ARRIVAL_EXIT);
+		this.opsRecipients = { adminIds, fetchedAt: Date.now() };
+		return adminIds;
+	}
+
+	private appendBreadcrumb(journeyId: string, point: JourneyBreadcrumb): void {
+		const trailKey = `${LIVE_JOURNEY_PREFIX}${journeyId}${TRAIL_SUFFIX}`;
+		getRedisClient()
+			.multi()
+			.rpush(trailKey, JSON.stringify(point))
+			.ltrim(trailKey, -MAX_TRAIL_POINTS, -1)
+			.expire(trailKey, TRAIL_TTL_SEC)
+			.exec()
+			.catch((e: unknown) => {
+				logger.warn('Failed to buffer journey breadcrumb', {
+					journeyId,
+					error: e instanceof Error ? e.message : String(e),
+					service: 'admin-service',
+				});
+			});
+	}
+
+	/** Move the buffered trail from Redis into journey_breadcrumbs. Failures are logged, not thrown. */
+	private async persistBreadcrumbs(journeyId: string): Promise<void> {
+		const trailKey = `${LIVE_JOURNEY_PREFIX}${journeyId}${TRAIL_SUFFIX}`;
+		try {
+			const raw = await getRedisClient().lrange(trailKey, 0, -1);
+			const points: JourneyBreadcrumb[] = [];
+			for (const entry of raw) {
+				try {
+					points.push(JSON.parse(entry) as JourneyBreadcrumb);
+				} catch {
+					// Skip corrupt entries
+				}
+			}
+			for (let i = 0; i < points.length; i += BREADCRUMB_BATCH_SIZE) {
+				await this.journeyRepo.saveBreadcrumbs(journeyId, points.slice(i, i + BREADCRUMB_BATCH_SIZE));
+			}
+			await redisDelWithTimeout(trailKey);
+		} catch (e) {
+			logger.error('Failed to persist journey breadcrumbs', {
+				journeyId,
+				error: e instanceof Error ? e.message : String(e),
+				service: 'admin-service',
+			});
+		}
+	}
+
 	private haversineMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
 		const R = 6371000;
 		const dLat = ((lat2 - lat1) * Math.PI) / 180;
@@ -0,0 +1,385 @@
+import { AppError } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import { EgressStatus, type EgressInfo, type WebhookEvent } from 'livekit-server-sdk';
+import { getPool } from '../config/database';
+import {
+	LiveClassRepository,
+	type LiveClassAttendanceRecord,
+	type LiveClassParticipantRole,
+	type LiveClassRecordingRecord,
+	type LiveClassRecordingStatus,
+	type LiveClassRoomRecord,
+} from '../models/liveClass.model';
+import { SessionRepository, type SessionRecord } from '../models/session.model';
+import { checkTrainerExit, coveredMs } from '../utils/liveClassAttendance';
+import { parseScheduledStart } from '../utils/journeyEta';
+import { LiveKitService } from './livekit.service';
+import { SessionService } from './session.service';
+
+const ROOM_NAME_PATTERN = /^session-([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+const RECORDING_STATUS: Record<number, LiveClassRecordingStatus> = {
+	[EgressStatus.EGRESS_STARTING]: 'starting',
+	[EgressStatus.EGRESS_ACTIVE]: 'active',
+	[EgressStatus.EGRESS_ENDING]: 'ending',
+	[EgressStatus.EGRESS_COMPLETE]: 'complete',
+	[EgressStatus.EGRESS_FAILED]: 'failed',
+	[EgressStatus.EGRESS_ABORTED]: 'aborted',
+};
+
+function getNumericEnv(name: string, fallback: number): number {
+	const raw = process.env[name];
+	if (!raw) {
+		return fallback;
+	}
+
+	const parsed = Number(raw);
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function isEnabled(name: string, fallback: boolean): boolean {
+	const raw = process.env[name];
+	if (!raw) {
+		return fallback;
+	}
+	return raw.toLowerCase() === 'true' || raw === '1';
+}
+
+/** LiveKit timestamps: seconds on events/participants, nanoseconds on egress */
+function fromSeconds(value: bigint | undefined): Date | null {
+	return value ? new Date(Number(value) * 1000) : null;
+}
+
+function fromNanos(value: bigint | undefined): Date | null {
+	return value ? new Date(Number(value) / 1e6) : null;
+}
+
+function isOnlineSession(session: SessionRecord): boolean {
+	return session.metadata?.sessionType === 'online';
+}
+
+export interface LiveClassWebhookResult {
+	event: string;
+	sessionId: string | null;
+	/** False for duplicates, rooms that are not session rooms and events we do not track */
+	handled: boolean;
+}
+
+export interface LiveClassParticipantSummary {
+	identity: string;
+	role: LiveClassParticipantRole;
+	joins: number;
+	firstJoinedAt: Date;
+	lastLeftAt: Date | null;
+	presentMinutes: number;
+}
+
+export interface LiveClassFinalizeResult {
+	outcome: 'ended' | 'ended_disputed' | 'skipped';
+	session: SessionRecord | null;
+	disputeReason: string | null;
+}
+
+/**
+ * LiveKit room lifecycle for online sessions (rooms are named `session-{id}`).
+ * Webhooks open/close per-participant attendance intervals; the trainer's first join starts the
+ * session and the trainer leaving for good (room finished, or out longer than
+ * LIVEKIT_TRAINER_REJOIN_GRACE_MINUTES) ends it, flagging presence_disputed when they left early.
+ * Egress webhooks keep recording metadata against the session for QA review.
+ */
+export class LiveClassService {
+	private pool = getPool();
+	private repo = new LiveClassRepository(this.pool);
+	private sessionRepo = new SessionRepository(this.pool);
+	private sessionService = new SessionService();
+	private liveKit = new LiveKitService(this.pool);
+
+	async handleWebhook(rawBody: string, authHeader: string | undefined): Promise<LiveClassWebhookResult> {
+		let event: WebhookEvent;
+		try {
+			event = await this.liveKit.receiveWebhook(rawBody, authHeader);
+		} catch (error: any) {
+			logger.warn('Rejected LiveKit webhook', {
+				service: 'admin-service',
+				error: error?.message || String(error),
+			});
+			throw new AppError('Invalid LiveKit webhook signature', 401);
+		}
+
+		const roomName = event.room?.name || event.egressInfo?.roomName || '';
+		const sessionId = ROOM_NAME_PATTERN.exec(roomName)?.[1] ?? null;
+		if (!sessionId) {
+			return { event: event.event, sessionId: null, handled: false };
+		}
+
+		if (event.id && !(await this.repo.claimWebhookEvent(event.id, event.event, roomName))) {
+			return { event: event.event, sessionId, handled: false };
+		}
+
+		try {
+			const handled = await this.applyWebhookEvent(event, sessionId, roomName);
+			return { event: event.event, sessionId, handled };
+		} catch (error) {
+			// Release the claim so LiveKit's retry of this delivery is processed instead of skipped
+			if (event.id) {
+				await this.repo.releaseWebhookEvent(event.id).catch((releaseError: any) => {
+					logger.error('Failed to release LiveKit webhook claim', {
+						service: 'admin-service',
+						eventId: event.id,
+						error: releaseError?.message || String(releaseError),
+					});
+				});
+			}
+			throw error;
+		}
+	}
+
+	private async applyWebhookEvent(event: WebhookEvent, sessionId: string, roomName: string): Promise<boolean> {
+		const session = await this.sessionRepo.findById(sessionId);
+		if (!session) {
+			logger.warn('LiveKit webhook for unknown session room', { service: 'admin-service', roomName, event: event.event });
+			return false;
+		}
+
+		const at = fromSeconds(event.createdAt) ?? new Date();
+
+		switch (event.event) {
+			case 'room_started':
+				await this.repo.markRoomStarted(sessionId, roomName, event.room?.sid || null, at);
+				await this.maybeStartRecording(session, roomName);
+				break;
+
+			case 'participant_joined': {
+				const participant = event.participant;
+				if (!participant) break;
+				const joinedAt = fromSeconds(participant.joinedAt) ?? at;
+				const role = this.roleOf(session, participant.identity);
+				await this.repo.markRoomStarted(sessionId, roomName, event.room?.sid || null, joinedAt);
+				await this.repo.openInterval({
+					sessionId,
+					identity: participant.identity,
+					participantSid: participant.sid,
+					role,
+					joinedAt,
+				});
+				if (role === 'trainer' && isOnlineSession(session)) {
+					await this.sessionService.startOnlineSession(sessionId, joinedAt);
+				}
+				break;
+			}
+
+			case 'participant_left':
+			case 'participant_connection_aborted': {
+				const participant = event.participant;
+				if (!participant) break;
+				await this.repo.closeInterval({
+					sessionId,
+					identity: participant.identity,
+					participantSid: participant.sid,
+					role: this.roleOf(session, participant.identity),
+					joinedAt: fromSeconds(participant.joinedAt) ?? at,
+					leftAt: at,
+					leaveReason: event.event,
+				});
+				break;
+			}
+
+			case 'room_finished':
+				await this.repo.markRoomFinished(sessionId, roomName, at);
+				await this.repo.closeOpenIntervals(sessionId, at, 'room_finished');
+				await this.finalizeSession(sessionId);
+				break;
+
+			case 'egress_started':
+			case 'egress_updated':
+			case 'egress_ended':
+				if (event.egressInfo) {
+					await this.saveRecording(sessionId, event.egressInfo);
+				}
+				break;
+
+			default:
+				return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * End an in-progress online session from the trainer's attendance. Runs once per room
+	 * (live_class_rooms.finalized_at); sessions the trainer already ended are left alone.
+	 */
+	async finalizeSession(sessionId: string): Promise<LiveClassFinalizeResult> {
+		const session = await this.sessionRepo.findById(sessionId);
+		if (!session || session.status !== 'in_progress' || !session.startedAt || !isOnlineSession(session)) {
+			await this.repo.markFinalized(sessionId, session ? `skipped:${session.status}` : 'skipped:missing');
+			return { outcome: 'skipped', session, disputeReason: null };
+		}
+
+		const intervals = await this.repo.findIntervals(sessionId);
+		const trainerIntervals = intervals.filter((interval) => interval.role === 'trainer');
+		if (trainerIntervals.length === 0 || trainerIntervals.some((interval) => !interval.leftAt)) {
+			// Trainer still in the room (or never joined it) - nothing to finalize yet
+			return { outcome: 'skipped', session, disputeReason: null };
+		}
+
+		const endedAt = new Date(Math.max(...trainerIntervals.map((interval) => interval.leftAt!.getTime())));
+		const scheduledStart = parseScheduledStart(session.scheduledDate, session.scheduledTime);
+		const expectedEnd = new Date((scheduledStart ?? session.startedAt).getTime() + session.duration * 60000);
+		const check = checkTrainerExit(
+			trainerIntervals,
+			session.startedAt,
+			endedAt,
+			expectedEnd,
+			session.duration,
+			getNumericEnv('LIVEKIT_EARLY_EXIT_TOLERANCE_MINUTES', 10)
+		);
+
+		const outcome = check.disputeReason ? 'ended_disputed' : 'ended';
+		if (!(await this.repo.markFinalized(sessionId, outcome))) {
+			return { outcome: 'skipped', session, disputeReason: null };
+		}
+
+		let updated = await this.sessionService.endOnlineSession(sessionId, {
+			endedAt,
+			actualDuration: check.presentMinutes,
+		});
+		updated = (await this.sessionRepo.updatePresenceCheck(sessionId, {
+			disputed: check.disputeReason !== null,
+			reason: check.disputeReason,
+		})) ?? updated;
+
+		const studentMinutes = Math.round(
+			coveredMs(intervals.filter((interval) => interval.role === 'student'), session.startedAt, endedAt) / 60000
+		);
+		const log = check.disputeReason ? logger.warn.bind(logger) : logger.info.bind(logger);
+		log('Online session ended from LiveKit attendance', {
+			service: 'admin-service',
+			sessionId,
+			trainerId: session.trainerId,
+			trainerMinutes: check.presentMinutes,
+			studentMinutes,
+			disputeReason: check.disputeReason,
+		});
+
+		return { outcome, session: updated, disputeReason: check.disputeReason };
+	}
+
+	/**
+	 * Sweep for sessions whose trainer left and has not rejoined within the grace period
+	 * (students may keep the room alive, so room_finished cannot be relied on)
+	 */
+	async finalizeAbandonedSessions(): Promise<number> {
+		const graceMinutes = getNumericEnv('LIVEKIT_TRAINER_REJOIN_GRACE_MINUTES', 5);
+		const sessionIds = await this.repo.findSessionsAwaitingTrainer(graceMinutes);
+
+		let ended = 0;
+		for (const sessionId of sessionIds) {
+			try {
+				const result = await this.finalizeSession(sessionId);
+				if (result.outcome !== 'skipped') ended++;
+			} catch (error: any) {
+				logger.error('Failed to finalize online session', {
+					service: 'admin-service',
+					sessionId,
+					error: error?.message || String(error),
+				});
+			}
+		}
+		return ended;
+	}
+
+	/**
+	 * Room lifecycle, attendance intervals with per-participant totals, and recordings (ops/QA view)
+	 */
+	async getSessionAttendance(sessionId: string): Promise<{
+		room: LiveClassRoomRecord | null;
+		participants: LiveClassParticipantSummary[];
+		intervals: LiveClassAttendanceRecord[];
+		recordings: LiveClassRecordingRecord[];
+		presenceDisputed: boolean;
+		presenceDisputeReason: string | null;
+	}> {
+		const session = await this.sessionRepo.findById(sessionId);
+		if (!session) {
+			throw new AppError('Session not found', 404);
+		}
+
+		const [room, intervals, recordings] = await Promise.all([
+			this.repo.findRoom(sessionId),
+			this.repo.findIntervals(sessionId),
+			this.repo.findRecordings(sessionId),
+		]);
+
+		const byIdentity = new Map<string, LiveClassAttendanceRecord[]>();
+		for (const interval of intervals) {
+			byIdentity.set(interval.identity, [...(byIdentity.get(interval.identity) ?? []), interval]);
+		}
+
+		const now = new Date();
+		const participants = [...byIdentity.values()].map((own): LiveClassParticipantSummary => {
+			const open = own.some((interval) => !interval.leftAt);
+			return {
+				identity: own[0].identity,
+				role: own[0].role,
+				joins: own.length,
+				firstJoinedAt: own[0].joinedAt,
+				lastLeftAt: open ? null : new Date(Math.max(...own.map((interval) => interval.leftAt!.getTime()))),
+				presentMinutes: Math.round(coveredMs(own, new Date(0), now) / 60000),
+			};
+		});
+
+		return {
+			room,
+			participants,
+			intervals,
+			recordings,
+			presenceDisputed: session.presenceDisputed,
+			presenceDisputeReason: session.presenceDisputeReason,
+		};
+	}
+
+	private roleOf(session: SessionRecord, identity: string): LiveClassParticipantRole {
+		if (identity === session.trainerId) return 'trainer';
+		if (identity === session.studentId) return 'student';
+		return 'other';
+	}
+
+	/** LIVEKIT_RECORDING_ENABLED: record online session rooms as soon as they start */
+	private async maybeStartRecording(session: SessionRecord, roomName: string): Promise<void> {
+		if (!isEnabled('LIVEKIT_RECORDING_ENABLED', false) || !isOnlineSession(session)) {
+			return;
+		}
+
+		try {
+			const info = await this.liveKit.startRoomRecording(roomName);
+			await this.saveRecording(session.id, info);
+		} catch (error: any) {
+			// Recording is best-effort; the class goes ahead without it
+			logger.error('Failed to start live class recording', {
+				service: 'admin-service',
+				sessionId: session.id,
+				error: error?.message || String(error),
+			});
+		}
+	}
+
+	private async saveRecording(sessionId: string, info: EgressInfo): Promise<LiveClassRecordingRecord> {
+		const file = info.fileResults[0] ?? (info.result.case === 'file' ? info.result.value : undefined);
+
+		return this.repo.upsertRecording({
+			egressId: info.egressId,
+			sessionId,
+			status: RECORDING_STATUS[info.status] ?? 'failed',
+			fileName: file?.filename || null,
+			location: file?.location || null,
+			durationSeconds: file?.duration ? Math.round(Number(file.duration) / 1e9) : null,
+			sizeBytes: file?.size ? Number(file.size) : null,
+			startedAt: fromNanos(info.startedAt),
+			endedAt: fromNanos(info.endedAt),
+			error: info.error || null,
+		});
+	}
+}
+
+export const liveClassService = new LiveClassService();
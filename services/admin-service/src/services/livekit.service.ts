@@ -3,7 +3,14 @@
  * Handles LiveKit room token generation and room management for live classes
  */
 
-import { AccessToken } from 'livekit-server-sdk';
+import {
+	AccessToken,
+	EgressClient,
+	EncodedFileOutput,
+	WebhookReceiver,
+	type EgressInfo,
+	type WebhookEvent,
+} from 'livekit-server-sdk';
 import type { Pool } from 'pg';
 
 export interface LiveKitTokenRequest {
@@ -163,6 +170,40 @@ export class LiveKitService {
 		}
 	}
 
+	/**
+	 * Verify a LiveKit webhook (signed JWT in the Authorization header carrying the body's sha256)
+	 * and parse the event. Throws when the signature or body hash does not match.
+	 */
+	async receiveWebhook(rawBody: string, authHeader: string | undefined): Promise<WebhookEvent> {
+		if (!this.apiKey || !this.apiSecret) {
+			throw new Error('LiveKit is not configured. Please set LIVEKIT_API_KEY and LIVEKIT_API_SECRET environment variables.');
+		}
+		if (!authHeader) {
+			throw new Error('Missing LiveKit webhook authorization header');
+		}
+
+		return new WebhookReceiver(this.apiKey, this.apiSecret).receive(rawBody, authHeader);
+	}
+
+	/**
+	 * Start a room composite recording (MP4) for a session room. Uploads go to the storage
+	 * configured on the LiveKit egress service; LIVEKIT_RECORDING_FILEPATH may override the path template.
+	 */
+	async startRoomRecording(roomName: string): Promise<EgressInfo> {
+		if (!this.url || !this.apiKey || !this.apiSecret) {
+			throw new Error('LiveKit is not configured. Please set LIVEKIT_URL, LIVEKIT_API_KEY, and LIVEKIT_API_SECRET environment variables.');
+		}
+
+		const egress = new EgressClient(this.url, this.apiKey, this.apiSecret);
+		const output = new EncodedFileOutput({
+			filepath: process.env.LIVEKIT_RECORDING_FILEPATH || 'live-classes/{room_name}/{time}.mp4',
+		});
+
+		return egress.startRoomCompositeEgress(roomName, output, {
+			layout: process.env.LIVEKIT_RECORDING_LAYOUT || 'speaker',
+		});
+	}
+
 	/**
 	 * Get room information (for debugging/monitoring)
 	 */
@@ -12,6 +12,22 @@ import {
 	CreateTrackingSessionInput,
 	CreateLocationUpdateInput,
 } from '../models/locationTracking.model';
+import { geofenceService } from './geofence.service';
+import { guardianConsentService } from './guardianConsent.service';
+import { isInsideGeofence } from '../utils/geofencing';
+import logger from '@kodingcaravan/shared/config/logger';
+
+/**
+ * A student with guardians is only tracked when every active guardian consented to location sharing
+ */
+async function assertStudentLocationConsent(userId: string, userRole: 'student' | 'trainer'): Promise<void> {
+	if (userRole !== 'student') {
+		return;
+	}
+	if (!(await guardianConsentService.hasConsent(userId, 'locationSharing'))) {
+		throw new AppError('Location sharing needs consent from every linked guardian', 403);
+	}
+}
 
 export async function startLocationTrackingSession(
 	input: CreateTrackingSessionInput
@@ -24,6 +40,8 @@ export async function startLocationTrackingSession(
 		throw new AppError('User role must be student or trainer', 400);
 	}
 
+	await assertStudentLocationConsent(input.userId, input.userRole);
+
 	return await createTrackingSession(input);
 }
 
@@ -75,7 +93,22 @@ export async function sendLocationUpdateToServer(
 		throw new AppError('Longitude must be between -180 and 180', 400);
 	}
 
-	return await createLocationUpdate(input);
+	await assertStudentLocationConsent(input.userId, input.userRole);
+
+	const update = await createLocationUpdate(input);
+
+	// Trainer arrival/departure detection against the session geofence
+	try {
+		await geofenceService.handleTrackingUpdate(update);
+	} catch (error) {
+		logger.warn('Geofence check failed for location update', {
+			service: 'admin-service',
+			userId: input.userId,
+			error: error instanceof Error ? error.message : String(error),
+		});
+	}
+
+	return update;
 }
 
 export async function getLiveLocationForUser(
@@ -273,53 +306,29 @@ export async function getLocationHistoryForTutoringSession(
 
 /**
  * Check location safety during a tutoring session
- * Alerts if user has moved too far from the session location
+ * Alerts if user has left the session geofence (radius plus exit buffer)
  */
 export async function checkLocationSafety(
 	userId: string,
 	tutoringSessionId: string,
 	currentLocation: { latitude: number; longitude: number }
 ): Promise<{ safe: boolean; distance?: number; alert?: string }> {
-	const { getPool } = await import('../config/database');
-	const pool = getPool();
-
-	// Get tutoring session to find student home location
-	const sessionResult = await pool.query<{
-		student_home_location: { latitude: number; longitude: number } | null;
-	}>(
-		`SELECT student_home_location FROM tutoring_sessions WHERE id = $1`,
-		[tutoringSessionId]
-	);
-
-	if (sessionResult.rows.length === 0 || !sessionResult.rows[0].student_home_location) {
+	const geofence = await geofenceService.getSessionGeofenceById(tutoringSessionId);
+	if (!geofence) {
 		return {
 			safe: true,
 			alert: 'Session location not found',
 		};
 	}
 
-	const sessionLocation = sessionResult.rows[0].student_home_location;
-
-	// Calculate distance using Haversine formula
-	const R = 6371e3; // Earth's radius in meters
-	const φ1 = (sessionLocation.latitude * Math.PI) / 180;
-	const φ2 = (currentLocation.latitude * Math.PI) / 180;
-	const Δφ = ((currentLocation.latitude - sessionLocation.latitude) * Math.PI) / 180;
-	const Δλ = ((currentLocation.longitude - sessionLocation.longitude) * Math.PI) / 180;
-
-	const a =
-		Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
-		Math.cos(φ1) * Math.cos(φ2) * Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
-	const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+	const { inside, distance } = isInsideGeofence(geofence, currentLocation.latitude, currentLocation.longitude, true);
+	const maxAllowed = geofence.radiusMeters + geofence.exitBufferMeters;
 
-	const distance = R * c; // Distance in meters
-
-	// Alert if moved more than 500m from session location
-	if (distance > 500) {
+	if (!inside) {
 		return {
 			safe: false,
 			distance: Math.round(distance),
-			alert: `User has moved ${Math.round(distance)}m from session location (max allowed: 500m)`,
+			alert: `User has moved ${Math.round(distance)}m from session location (max allowed: ${maxAllowed}m)`,
 		};
 	}
 
@@ -328,4 +337,3 @@ export async function checkLocationSafety(
 		distance: Math.round(distance),
 	};
 }
-
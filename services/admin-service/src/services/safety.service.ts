@@ -27,6 +27,28 @@ export async function reportSafetyIncident(input: CreateSafetyIncidentInput): Pr
 	return incident;
 }
 
+/**
+ * Safety incident escalated from chat-service moderation (no physical location)
+ */
+export async function reportModerationIncident(
+	input: Omit<CreateSafetyIncidentInput, 'type' | 'location'>
+): Promise<SafetyIncidentRecord> {
+	if (!input.userId) {
+		throw new AppError('User ID is required', 400);
+	}
+
+	if (!input.description || input.description.trim().length === 0) {
+		throw new AppError('Description is required', 400);
+	}
+
+	return createSafetyIncident({
+		...input,
+		type: 'safety',
+		location: null,
+		metadata: { ...input.metadata, source: 'chat_moderation' },
+	});
+}
+
 export async function getSafetyIncidentById(id: string): Promise<SafetyIncidentRecord> {
 	const incident = await findSafetyIncidentById(id);
 	if (!incident) {
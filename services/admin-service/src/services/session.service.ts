@@ -1,7 +1,8 @@
 import { AppError } from '@kodingcaravan/shared';
 import logger from '@kodingcaravan/shared/config/logger';
-import type { CourseProgressUpdatedEvent } from '@kodingcaravan/shared/events/types';
-import { getPool } from '../config/database';
+import { emitInTransaction } from '@kodingcaravan/shared/events/outbox';
+import type { CourseProgressUpdatedEvent, SessionCompletedEvent } from '@kodingcaravan/shared/events/types';
+import { getPool, withTransaction } from '../config/database';
 import {
 	SessionRepository,
 	type SessionRecord,
@@ -11,7 +12,10 @@ import {
 	type ConfirmSessionInput,
 } from '../models/session.model';
 import { verifyGPSLocation, type GPSVerificationResult } from '../utils/gpsVerification';
-import { verifyFace, validateImage, type FaceVerificationResult } from '../utils/faceVerification';
+import { validateImage, type FaceVerificationResult } from '../utils/faceVerification';
+import { faceVerificationService } from './faceVerification.service';
+import { guardianConsentService } from './guardianConsent.service';
+import { geofenceService } from './geofence.service';
 // PHASE 3 FIX: Replaced HTTP notification calls with event emissions
 import {
 	emitSessionOtpNotification,
@@ -133,6 +137,22 @@ export class SessionService {
 		return session;
 	}
 
+	/**
+	 * Issue the liveness challenge the trainer films before calling startSession
+	 */
+	async issueFaceChallenge(sessionId: string, trainerId: string) {
+		const session = await this.sessionRepo.findById(sessionId);
+		if (!session) {
+			throw new AppError('Session not found', 404);
+		}
+
+		if (session.status !== 'scheduled' && session.status !== 'pending_verification') {
+			throw new AppError(`Cannot start session with status: ${session.status}`, 400);
+		}
+
+		return faceVerificationService.issueChallenge(session, trainerId);
+	}
+
 	/**
 	 * Start session with GPS + Face verification
 	 * Both must pass for session to start
@@ -163,16 +183,22 @@ export class SessionService {
 			throw new AppError(`Cannot start session with status: ${session.status}`, 400);
 		}
 
-		// 4. Validate image format
-		const imageValidation = validateImage(input.faceVerificationImage);
-		if (!imageValidation.valid) {
-			throw new AppError(imageValidation.reason || 'Invalid image format', 400);
-		}
+		// 4. Face checks are recorded in the student's home, so a student with guardians needs every
+		// guardian's consent; without it the selfie is discarded and GPS + student OTP decide alone
+		const faceConsent = await guardianConsentService.hasConsent(session.studentId, 'faceVerification');
+
+		let referenceImage: string | null = null;
+		if (faceConsent) {
+			const imageValidation = validateImage(input.faceVerificationImage);
+			if (!imageValidation.valid) {
+				throw new AppError(imageValidation.reason || 'Invalid image format', 400);
+			}
 
-		// 5. Get trainer's reference image (from trainer profile)
-		const referenceImage = await this.getTrainerReferenceImage(trainerId);
-		if (!referenceImage) {
-			throw new AppError('Trainer reference image not found. Please complete profile setup.', 400);
+			// 5. Get trainer's reference image (from trainer profile)
+			referenceImage = await this.getTrainerReferenceImage(trainerId);
+			if (!referenceImage) {
+				throw new AppError('Trainer reference image not found. Please complete profile setup.', 400);
+			}
 		}
 
 		// 6. Perform GPS verification
@@ -180,19 +206,33 @@ export class SessionService {
 			throw new AppError('Student home location not set', 400);
 		}
 
+		// Radius comes from the session geofence (zone override or area type)
+		const geofence = await geofenceService.getSessionGeofence(session);
 		const gpsVerification = verifyGPSLocation(
 			session.studentHomeLocation,
 			input.trainerLocation,
-			100 // Default 100m radius
+			geofence?.radiusMeters ?? 100
 		);
+		await geofenceService
+			.recordPosition(sessionId, trainerId, input.trainerLocation, 'session_start')
+			.catch((error: any) => {
+				logger.warn('Failed to record session start geofence position', {
+					service: 'admin-service',
+					sessionId,
+					error: error?.message || String(error),
+				});
+			});
 
-		// 7. Perform Face verification
-		const faceVerification = await verifyFace(
-			trainerId,
-			input.faceVerificationImage,
-			referenceImage,
-			{ minConfidence: 80 }
-		);
+		// 7. Perform Face verification (match + liveness, thresholds for the session's city).
+		// The attempt and its images are stored under retention rules; failed and borderline
+		// matches are queued for admin review.
+		const faceVerification: FaceVerificationResult = referenceImage
+			? await faceVerificationService.verifyForSession(session, trainerId, referenceImage, {
+				faceVerificationImage: input.faceVerificationImage,
+				livenessChallengeId: input.livenessChallengeId,
+				livenessFrames: input.livenessFrames,
+			})
+			: { passed: true, confidence: 0, reason: 'Skipped: guardian consent for face verification not given' };
 
 		// 8. Both verifications must pass
 		const verificationPassed = gpsVerification.passed && faceVerification.passed;
@@ -205,10 +245,9 @@ export class SessionService {
 			},
 			gpsVerificationPassed: gpsVerification.passed,
 			gpsVerificationDistance: gpsVerification.distance,
-			trainerFaceVerificationImage: input.faceVerificationImage,
 			faceVerificationPassed: faceVerification.passed,
 			faceVerificationConfidence: faceVerification.confidence,
-			faceVerificationMethod: input.faceVerificationMethod || 'selfie',
+			faceVerificationMethod: referenceImage ? input.faceVerificationMethod || 'selfie' : undefined,
 			verificationPassed,
 			verificationFailedReason: verificationPassed
 				? null
@@ -222,33 +261,11 @@ export class SessionService {
 
 		// 10. If verification passed, generate student OTP and send notification
 		if (verificationPassed) {
-			const studentOtp = this.generateOTP();
-			const now = new Date();
-
-			// Update session with student OTP
-			await this.sessionRepo.updateStudentOtp(sessionId, {
-				studentOtp,
-				studentOtpGeneratedAt: now,
-				studentOtpVerified: false,
-				studentOtpVerifiedAt: null,
-			});
-
-			// Get trainer name for notification
-			const trainerName = await this.getTrainerName(trainerId);
-
-			// PHASE 3 FIX: Emit notification event (replaces HTTP call)
-			await emitSessionOtpNotification(
-				session.studentId,
-				studentOtp,
-				trainerName || 'Your trainer',
-				sessionId // correlationId
-			);
+			const { studentOtp, generatedAt } = await this.issueStudentOtp(session);
 
-			// Update status to pending_otp (waiting for student OTP)
-			await this.sessionRepo.updateStatus(sessionId, 'pending_verification');
 			updatedSession.status = 'pending_verification';
 			updatedSession.studentOtp = studentOtp;
-			updatedSession.studentOtpGeneratedAt = now;
+			updatedSession.studentOtpGeneratedAt = generatedAt;
 		} else {
 			await this.sessionRepo.updateStatus(sessionId, 'pending_verification');
 			updatedSession.status = 'pending_verification';
@@ -262,6 +279,64 @@ export class SessionService {
 		};
 	}
 
+	/**
+	 * An admin overturned a failed or borderline face match. If the session is still waiting to start
+	 * and GPS passed, mark it verified and send the student their OTP.
+	 */
+	async applyFaceReviewApproval(sessionId: string): Promise<SessionRecord | null> {
+		const session = await this.sessionRepo.findById(sessionId);
+		if (!session || session.status !== 'pending_verification' || session.verificationPassed) {
+			return null;
+		}
+
+		const updatedSession = await this.sessionRepo.updateVerification(sessionId, {
+			faceVerificationPassed: true,
+			verificationPassed: session.gpsVerificationPassed === true,
+			verificationFailedReason: session.gpsVerificationPassed === true
+				? null
+				: 'GPS verification failed: Trainer not at student home location',
+		});
+		if (!updatedSession || !updatedSession.verificationPassed) {
+			return updatedSession;
+		}
+
+		const { studentOtp, generatedAt } = await this.issueStudentOtp(session);
+		updatedSession.studentOtp = studentOtp;
+		updatedSession.studentOtpGeneratedAt = generatedAt;
+		return updatedSession;
+	}
+
+	/**
+	 * Generate the student's start OTP, notify them and park the session until they share it
+	 */
+	private async issueStudentOtp(session: SessionRecord): Promise<{ studentOtp: string; generatedAt: Date }> {
+		const studentOtp = this.generateOTP();
+		const now = new Date();
+
+		// Update session with student OTP
+		await this.sessionRepo.updateStudentOtp(session.id, {
+			studentOtp,
+			studentOtpGeneratedAt: now,
+			studentOtpVerified: false,
+			studentOtpVerifiedAt: null,
+		});
+
+		// Get trainer name for notification
+		const trainerName = await this.getTrainerName(session.trainerId);
+
+		// PHASE 3 FIX: Emit notification event (replaces HTTP call)
+		await emitSessionOtpNotification(
+			session.studentId,
+			studentOtp,
+			trainerName || 'Your trainer',
+			session.id // correlationId
+		);
+
+		// Update status to pending_otp (waiting for student OTP)
+		await this.sessionRepo.updateStatus(session.id, 'pending_verification');
+		return { studentOtp, generatedAt: now };
+	}
+
 	/**
 	 * End session
 	 * Trainer marks session as completed
@@ -297,8 +372,8 @@ export class SessionService {
 		const endTime = new Date().getTime();
 		const actualDuration = Math.round((endTime - startTime) / (1000 * 60)); // minutes
 
-		// 6. Update session
-		const updatedSession = await this.sessionRepo.updateEndSession(sessionId, {
+		// 6. Update session (SESSION_COMPLETED goes to the outbox in the same transaction)
+		const updatedSession = await this.completeSession(sessionId, {
 			trainerEndLocation: {
 				...input.trainerLocation,
 				timestamp: new Date(),
@@ -308,8 +383,20 @@ export class SessionService {
 			notes: input.notes,
 		});
 
-		if (!updatedSession) {
-			throw new AppError('Failed to update session', 500);
+		// 6b. Cross-check geofence presence against startedAt/endedAt; a mismatch flags the session
+		try {
+			await geofenceService.recordPosition(sessionId, trainerId, input.trainerLocation, 'session_end');
+			const presence = await geofenceService.crossCheckPresence(updatedSession);
+			if (presence) {
+				updatedSession.presenceDisputed = presence.disputed;
+				updatedSession.presenceDisputeReason = presence.reason;
+			}
+		} catch (error: any) {
+			logger.error('Geofence presence cross-check failed', {
+				service: 'admin-service',
+				sessionId,
+				error: error?.message || String(error),
+			});
 		}
 
 		// 7. Auto-stop location tracking for both trainer and student
@@ -349,36 +436,99 @@ export class SessionService {
 			// Don't throw - location tracking failure shouldn't break session end
 		}
 
-		// 8. PHASE 3 FIX: Emit notification event (replaces HTTP call)
-		await emitSessionConfirmationRequest(session.studentId, sessionId, sessionId);
+		// 8. Ask the student to confirm and announce completion
+		await this.emitSessionEnded(updatedSession);
 
-		// Emit SESSION_COMPLETED event
-		try {
-			const { getEventBus } = await import('@kodingcaravan/shared/events/eventBus');
-			const eventBus = getEventBus();
-			
-			await eventBus.emit({
-				type: 'SESSION_COMPLETED',
-				timestamp: Date.now(),
-				userId: trainerId,
-				role: 'trainer',
-				sessionId: updatedSession.id,
-				trainerId: updatedSession.trainerId || '',
-				studentId: updatedSession.studentId,
-				courseId: updatedSession.courseId || undefined, // Include courseId for progress-worker
-				completedAt: updatedSession.endedAt?.toISOString() || new Date().toISOString(),
-				duration: updatedSession.actualDuration || 60,
-			});
-		} catch (error: any) {
-			logger.error('Failed to emit SESSION_COMPLETED event (non-critical)', { 
+		return updatedSession;
+	}
+
+	/**
+	 * Start an online session when the trainer joins its LiveKit room.
+	 * Returns null when the session was already started (or is not startable).
+	 */
+	async startOnlineSession(sessionId: string, startedAt: Date): Promise<SessionRecord | null> {
+		const session = await this.sessionRepo.updateOnlineStart(sessionId, startedAt);
+		if (session) {
+			logger.info('Online session started from LiveKit room join', {
 				service: 'admin-service',
-				error: error?.message
+				sessionId,
+				trainerId: session.trainerId,
 			});
 		}
+		return session;
+	}
+
+	/**
+	 * End an online session from LiveKit attendance (trainer left and did not rejoin, or the room finished).
+	 * Same outcome as endSession minus the GPS/location steps; the caller decides on any presence dispute.
+	 */
+	async endOnlineSession(
+		sessionId: string,
+		input: { endedAt: Date; actualDuration: number }
+	): Promise<SessionRecord> {
+		const session = await this.sessionRepo.findById(sessionId);
+		if (!session) {
+			throw new AppError('Session not found', 404);
+		}
+		if (session.status !== 'in_progress') {
+			throw new AppError(`Cannot end session with status: ${session.status}`, 400);
+		}
+
+		const updatedSession = await this.completeSession(sessionId, {
+			trainerEndLocation: null,
+			endedAt: input.endedAt,
+			actualDuration: input.actualDuration,
+		});
+
+		await this.emitSessionEnded(updatedSession);
 
 		return updatedSession;
 	}
 
+	/**
+	 * Mark the session ended and record SESSION_COMPLETED in the outbox in one transaction
+	 */
+	private async completeSession(
+		sessionId: string,
+		updates: Parameters<SessionRepository['updateEndSession']>[1]
+	): Promise<SessionRecord> {
+		return withTransaction(async (client) => {
+			const updatedSession = await this.sessionRepo.updateEndSession(sessionId, updates, client);
+			if (!updatedSession) {
+				throw new AppError('Failed to update session', 500);
+			}
+
+			await emitInTransaction(client, this.buildSessionCompletedEvent(updatedSession), {
+				correlationId: updatedSession.id,
+				source: 'admin-service',
+				idempotencyKey: `session:${updatedSession.id}:SESSION_COMPLETED`,
+			});
+			return updatedSession;
+		});
+	}
+
+	private buildSessionCompletedEvent(updatedSession: SessionRecord): SessionCompletedEvent {
+		return {
+			type: 'SESSION_COMPLETED',
+			timestamp: Date.now(),
+			userId: updatedSession.trainerId,
+			role: 'trainer',
+			sessionId: updatedSession.id,
+			trainerId: updatedSession.trainerId || '',
+			studentId: updatedSession.studentId,
+			courseId: updatedSession.courseId || undefined, // Include courseId for progress-worker
+			completedAt: updatedSession.endedAt?.toISOString() || new Date().toISOString(),
+			duration: updatedSession.actualDuration || 60,
+		};
+	}
+
+	private async emitSessionEnded(updatedSession: SessionRecord): Promise<void> {
+		// PHASE 3 FIX: Emit notification event (replaces HTTP call)
+		// SESSION_COMPLETED itself was written to the outbox with the session update; the relay
+		// publishes it to Kafka and Redis Pub/Sub
+		await emitSessionConfirmationRequest(updatedSession.studentId, updatedSession.id, updatedSession.id);
+	}
+
 	/**
 	 * Student/Parent confirms session completion
 	 */
@@ -1,7 +1,9 @@
 import { AppError } from '@kodingcaravan/shared';
 import logger from '@kodingcaravan/shared/config/logger';
-import { getPool } from '../config/database';
-import type { Pool } from 'pg';
+import { emitInTransaction } from '@kodingcaravan/shared/events/outbox';
+import type { SessionSubstitutedEvent } from '@kodingcaravan/shared/events/types';
+import { getPool, withTransaction } from '../config/database';
+import type { Pool, PoolClient } from 'pg';
 
 // Import substitution model types and repository
 // Note: We'll define the repository inline to avoid cross-service dependencies
@@ -24,13 +26,13 @@ interface TrainerSessionSubstitution {
 class TrainerSessionSubstitutionRepository {
   constructor(private pool: Pool) {}
 
-  async create(input: CreateSubstitutionInput): Promise<TrainerSessionSubstitution> {
+  async create(input: CreateSubstitutionInput, client?: PoolClient): Promise<TrainerSessionSubstitution> {
     const dayOfWeek = new Date(input.sessionDate).getDay();
     if (dayOfWeek === 0) {
       throw new Error('Substitutions cannot be scheduled on Sundays');
     }
 
-    const result = await this.pool.query(
+    const result = await (client ?? this.pool).query(
       `
         INSERT INTO trainer_session_substitutions (
           session_date,
@@ -185,26 +187,22 @@ export class SubstitutionService {
       return this.mapSubstitutionRow(result.rows[0]);
     }
 
-    // Create new substitution
-    const substitution = await this.substitutionRepo.create(input);
-    
-    // Emit SESSION_SUBSTITUTED event
-    try {
-      const { getEventBus } = await import('@kodingcaravan/shared/events/eventBus');
-      const eventBus = getEventBus();
-      
+    // Create new substitution and record SESSION_SUBSTITUTED in the outbox in one transaction
+    const substitution = await withTransaction(async (client) => {
+      const substitution = await this.substitutionRepo.create(input, client);
+
       // Get session info if available
-      const sessionResult = await this.pool.query(
+      const sessionResult = await client.query(
         `SELECT id, scheduled_time FROM tutoring_sessions 
          WHERE trainer_id = $1 AND student_id = $2 AND DATE(scheduled_date) = $3
          LIMIT 1`,
         [input.originalTrainerId, input.studentId, input.sessionDate]
       );
-      
+
       const sessionId = sessionResult.rows[0]?.id || '';
       const timeSlot = sessionResult.rows[0]?.scheduled_time || '4:00 PM';
-      
-      await eventBus.emit({
+
+      const event: SessionSubstitutedEvent = {
         type: 'SESSION_SUBSTITUTED',
         timestamp: Date.now(),
         userId: adminId,
@@ -218,11 +216,17 @@ export class SubstitutionService {
         metadata: {
           createdBy: adminId,
         },
+      };
+
+      await emitInTransaction(client, event, {
+        correlationId: substitution.id,
+        source: 'admin-service',
+        idempotencyKey: `substitution:${substitution.id}:SESSION_SUBSTITUTED`,
       });
-    } catch (error: any) {
-      console.error('[Substitution Service] Failed to emit SESSION_SUBSTITUTED event (non-critical):', error?.message);
-    }
-    
+
+      return substitution;
+    });
+
     return this.mapSubstitutionRow(substitution);
   }
 
@@ -1192,6 +1192,25 @@ export class TrainerApprovalService {
 
 		return stats;
 	}
+
+	/**
+	 * Approval-related state of a trainer, for the audit log (null if the trainer does not exist)
+	 */
+	async getApprovalSnapshot(trainerId: string): Promise<{ approvalStatus: string; applicationStatus: string | null } | null> {
+		const result = await this.pool.query(
+			`
+				SELECT
+					t.approval_status as "approvalStatus",
+					a.review_status as "applicationStatus"
+				FROM trainers t
+				LEFT JOIN trainer_applications a ON a.trainer_id = t.id
+				WHERE t.id = $1
+			`,
+			[trainerId]
+		);
+
+		return result.rows[0] || null;
+	}
 }
 
 export const trainerApprovalService = new TrainerApprovalService();
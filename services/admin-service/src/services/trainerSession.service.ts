@@ -0,0 +1,84 @@
+import { AppError } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import {
+	deleteAllUserSessions,
+	listUserSessions,
+	toSessionSummary,
+	type SessionSummary,
+} from '@kodingcaravan/shared/utils/sessionManager';
+import { emitNotificationRequested } from '@kodingcaravan/shared/utils/notificationEventEmitter';
+import { getPool } from '../config/database';
+
+export interface ForceLogoutResult {
+	trainerId: string;
+	revokedRefreshTokens: number;
+	deletedSessions: number;
+}
+
+/**
+ * Admin view of trainer login sessions, and force-logout for compromised accounts.
+ * Sessions live in Redis (shared sessionManager); refresh tokens in trainer_refresh_tokens
+ * (owned by trainer-auth-service).
+ */
+export class TrainerSessionService {
+	private pool = getPool();
+
+	private async assertTrainerExists(trainerId: string): Promise<void> {
+		const result = await this.pool.query('SELECT 1 FROM trainers WHERE id = $1', [trainerId]);
+		if (!result.rowCount) {
+			throw new AppError('Trainer not found', 404);
+		}
+	}
+
+	async listSessions(trainerId: string): Promise<SessionSummary[]> {
+		await this.assertTrainerExists(trainerId);
+		const sessions = await listUserSessions(trainerId);
+		return sessions.map((session) => toSessionSummary(session));
+	}
+
+	/**
+	 * Revoke every refresh token and delete every session for the trainer.
+	 * Access tokens already issued stay valid until they expire (JWT_ACCESS_EXPIRES_IN, 10 minutes by default).
+	 */
+	async forceLogout(trainerId: string, adminId: string, reason?: string): Promise<ForceLogoutResult> {
+		await this.assertTrainerExists(trainerId);
+
+		const revoked = await this.pool.query(
+			`
+				UPDATE trainer_refresh_tokens
+				SET revoked_at = NOW()
+				WHERE trainer_id = $1 AND revoked_at IS NULL
+			`,
+			[trainerId]
+		);
+		const deletedSessions = await deleteAllUserSessions(trainerId);
+
+		logger.warn('Trainer force-logged out by admin', {
+			trainerId,
+			adminId,
+			reason: reason ?? null,
+			revokedRefreshTokens: revoked.rowCount ?? 0,
+			deletedSessions,
+			service: 'admin-service',
+		});
+
+		emitNotificationRequested({
+			userId: trainerId,
+			role: 'trainer',
+			notificationType: 'warning',
+			title: 'You have been signed out',
+			body: 'For your security, an administrator signed your account out on all devices. Please sign in again and change your password.',
+			data: { type: 'force_logout' },
+		}).catch(() => {
+			// Non-critical: emitter already logs failures
+		});
+
+		return {
+			trainerId,
+			revokedRefreshTokens: revoked.rowCount ?? 0,
+			deletedSessions,
+		};
+	}
+}
+
+export const trainerSessionService = new TrainerSessionService();
@@ -0,0 +1,145 @@
+/**
+ * Masked calling policy and call-pattern heuristics.
+ * Pure functions so the same rules apply to click-to-call, inbound calls on a pair's
+ * virtual number and after-the-fact review of completed calls.
+ */
+
+export type CallPolicyDenialReason = 'no_active_allocation' | 'outside_session_window' | 'daily_cap_reached';
+
+export type CallAnomalyPattern = 'minor_quiet_hours' | 'minor_long_call' | 'repeated_denials';
+
+export interface CallPolicyConfig {
+	/** Calls open this long before a session's scheduled start */
+	windowBeforeMinutes: number;
+	/** ...and close this long after its scheduled end */
+	windowAfterMinutes: number;
+	/** Connected or attempted calls per trainer-student pair per IST day */
+	dailyCapPerPair: number;
+}
+
+export interface CallAnomalyConfig {
+	/** IST hour (0-23) quiet hours begin */
+	quietHoursStart: number;
+	/** IST hour (0-23) quiet hours end */
+	quietHoursEnd: number;
+	minorAgeLimit: number;
+	minorMaxCallMinutes: number;
+	denialAlertThreshold: number;
+}
+
+export interface SessionWindow {
+	sessionId: string;
+	scheduledStart: Date;
+	durationMinutes: number;
+}
+
+export interface CallPolicyDecision {
+	allowed: boolean;
+	reason: CallPolicyDenialReason | null;
+	message: string;
+	/** Session whose window the call falls in */
+	sessionId: string | null;
+}
+
+export interface CallAnomaly {
+	pattern: CallAnomalyPattern;
+	severity: 'medium' | 'high';
+	description: string;
+}
+
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+export function istHour(at: Date): number {
+	return new Date(at.getTime() + IST_OFFSET_MS).getUTCHours();
+}
+
+/** Quiet hours may wrap midnight (e.g. 21 -> 7) */
+export function isQuietHour(at: Date, config: Pick<CallAnomalyConfig, 'quietHoursStart' | 'quietHoursEnd'>): boolean {
+	const hour = istHour(at);
+	const { quietHoursStart: start, quietHoursEnd: end } = config;
+	if (start === end) return false;
+	return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+/**
+ * Allow a call only between parties of an active allocation, inside the window around one of
+ * their sessions, and under the pair's daily cap.
+ */
+export function evaluateCallPolicy(
+	input: {
+		hasActiveAllocation: boolean;
+		sessions: SessionWindow[];
+		callsToday: number;
+		at: Date;
+	},
+	config: CallPolicyConfig
+): CallPolicyDecision {
+	if (!input.hasActiveAllocation) {
+		return {
+			allowed: false,
+			reason: 'no_active_allocation',
+			message: 'Calls are only available between a trainer and student with an active allocation',
+			sessionId: null,
+		};
+	}
+
+	const now = input.at.getTime();
+	const session = input.sessions.find((candidate) => {
+		const opens = candidate.scheduledStart.getTime() - config.windowBeforeMinutes * 60000;
+		const closes = candidate.scheduledStart.getTime() + (candidate.durationMinutes + config.windowAfterMinutes) * 60000;
+		return now >= opens && now <= closes;
+	});
+	if (!session) {
+		return {
+			allowed: false,
+			reason: 'outside_session_window',
+			message: `Calls are only available from ${config.windowBeforeMinutes} minutes before a session until ${config.windowAfterMinutes} minutes after it ends`,
+			sessionId: null,
+		};
+	}
+
+	if (input.callsToday >= config.dailyCapPerPair) {
+		return {
+			allowed: false,
+			reason: 'daily_cap_reached',
+			message: `Daily call limit of ${config.dailyCapPerPair} reached for this trainer and student`,
+			sessionId: session.sessionId,
+		};
+	}
+
+	return { allowed: true, reason: null, message: 'Call allowed', sessionId: session.sessionId };
+}
+
+/**
+ * Patterns on a finished call that warrant a safety incident
+ */
+export function detectCallAnomalies(
+	call: { startedAt: Date; durationSeconds: number | null; studentAge: number | null },
+	config: CallAnomalyConfig
+): CallAnomaly[] {
+	const anomalies: CallAnomaly[] = [];
+	const isMinor = call.studentAge !== null && call.studentAge < config.minorAgeLimit;
+	if (!isMinor) {
+		return anomalies;
+	}
+
+	const hour = String(istHour(call.startedAt)).padStart(2, '0');
+	if (isQuietHour(call.startedAt, config)) {
+		anomalies.push({
+			pattern: 'minor_quiet_hours',
+			severity: 'high',
+			description: `Trainer call with a minor (age ${call.studentAge}) at ${hour}:00 IST, during quiet hours`,
+		});
+	}
+
+	const minutes = Math.round((call.durationSeconds ?? 0) / 60);
+	if (minutes > config.minorMaxCallMinutes) {
+		anomalies.push({
+			pattern: 'minor_long_call',
+			severity: 'medium',
+			description: `Trainer call with a minor (age ${call.studentAge}) lasted ${minutes} minutes`,
+		});
+	}
+
+	return anomalies;
+}
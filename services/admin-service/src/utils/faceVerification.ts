@@ -1,119 +1,172 @@
 /**
  * Face Verification Utility
- * Verifies trainer's face matches their registered profile
- * 
- * Note: This is a placeholder implementation. You'll need to integrate with
- * a face recognition service like:
- * - AWS Rekognition
- * - Azure Face API
- * - Google Cloud Vision API
- * - FaceIO
- * - Custom ML model
+ * Verifies the trainer at the door matches their registered profile photo.
+ *
+ * Matching and liveness scoring are delegated to a pluggable FaceMatcher backend
+ * (FACE_MATCHER_PROVIDER): "local" is a CPU-only embedding model for dev/test (refused in production),
+ * "http" calls an external face recognition service. Other backends can be added
+ * with registerFaceMatcher.
  */
 
+import axios from 'axios';
+import { LocalFaceMatcher } from './localFaceMatcher';
+import { HttpFaceMatcher } from './httpFaceMatcher';
+
+export type LivenessPrompt = 'blink' | 'turn_left' | 'turn_right';
+
+export const LIVENESS_PROMPTS: readonly LivenessPrompt[] = ['blink', 'turn_left', 'turn_right'];
+
+export type FaceVerificationOutcome = 'passed' | 'borderline' | 'failed';
+
+export interface FaceImage {
+	mimeType: string;
+	data: Buffer;
+}
+
+export interface FaceMatchScore {
+	/** 0-100 */
+	similarity: number;
+	model: string;
+}
+
+export interface LivenessScore {
+	/** 0-100 */
+	score: number;
+	reason?: string;
+}
+
+/**
+ * A face recognition backend. Implementations must be stateless and safe to share.
+ */
+export interface FaceMatcher {
+	readonly name: string;
+	compare(probe: FaceImage, reference: FaceImage): Promise<FaceMatchScore>;
+	/**
+	 * Score a short frame sequence: frames[0] is the neutral baseline, then one frame per prompt in order
+	 */
+	checkLiveness(frames: FaceImage[], prompts: LivenessPrompt[]): Promise<LivenessScore>;
+}
+
+export interface FaceVerificationThresholds {
+	/** Minimum match confidence (0-100) to pass */
+	matchThreshold: number;
+	/** Scores within this many points below matchThreshold are borderline and go to review */
+	reviewMargin: number;
+	/** Minimum liveness score (0-100) to pass */
+	livenessThreshold: number;
+	requireLiveness: boolean;
+}
+
 export interface FaceVerificationResult {
 	passed: boolean;
 	confidence: number; // 0-100
 	reason?: string;
+	outcome?: FaceVerificationOutcome;
+	/** Stored attempt, for the admin review queue */
+	attemptId?: string;
+	liveness?: {
+		required: boolean;
+		passed: boolean;
+		score: number | null;
+	};
+	/** True when the attempt was queued for an admin to confirm or overturn */
+	underReview?: boolean;
 }
 
-export interface FaceVerificationOptions {
-	minConfidence?: number; // Minimum confidence threshold (default: 80)
-	model?: 'standard' | 'high_precision';
+const matcherFactories = new Map<string, () => FaceMatcher>();
+let activeMatcher: FaceMatcher | null = null;
+
+export function registerFaceMatcher(name: string, factory: () => FaceMatcher): void {
+	matcherFactories.set(name, factory);
+	if (activeMatcher?.name === name) {
+		activeMatcher = null;
+	}
 }
 
 /**
- * Verify trainer's face against registered profile
- * 
- * This is a placeholder. You need to:
- * 1. Store trainer's reference face image during registration
- * 2. Compare selfie against reference image
- * 3. Return match confidence
- * 
- * @param trainerId - Trainer's ID
- * @param selfieImage - Base64 encoded selfie image
- * @param referenceImage - Base64 encoded reference image (from trainer profile)
- * @param options - Verification options
- * @returns Verification result with confidence score
+ * The configured backend (FACE_MATCHER_PROVIDER, default "local" outside production).
+ * Production refuses the local matcher, so a missing setting fails closed instead of
+ * verifying faces with the dev model.
  */
-export async function verifyFace(
-	trainerId: string,
-	selfieImage: string,
-	referenceImage: string,
-	options: FaceVerificationOptions = {}
-): Promise<FaceVerificationResult> {
-	const minConfidence = options.minConfidence || 80;
+export function getFaceMatcher(): FaceMatcher {
+	const isProduction = process.env.NODE_ENV === 'production';
+	const name = (process.env.FACE_MATCHER_PROVIDER || (isProduction ? '' : 'local')).toLowerCase();
+	if (activeMatcher && activeMatcher.name === name) {
+		return activeMatcher;
+	}
 
-	try {
-		// TODO: Implement actual face recognition
-		// Example integration with AWS Rekognition:
-		/*
-		const rekognition = new AWS.Rekognition();
-		const params = {
-			SourceImage: {
-				Bytes: Buffer.from(selfieImage, 'base64'),
-			},
-			TargetImage: {
-				Bytes: Buffer.from(referenceImage, 'base64'),
-			},
-			SimilarityThreshold: minConfidence,
-		};
+	if (isProduction && (!name || name === 'local')) {
+		throw new Error('FACE_MATCHER_PROVIDER must name a production face matcher (e.g. "http") when NODE_ENV=production');
+	}
 
-		const result = await rekognition.compareFaces(params).promise();
-		
-		if (result.FaceMatches && result.FaceMatches.length > 0) {
-			const match = result.FaceMatches[0];
-			const confidence = match.Similarity || 0;
-			
-			return {
-				passed: confidence >= minConfidence,
-				confidence: Math.round(confidence),
-				reason: confidence >= minConfidence 
-					? undefined 
-					: `Face match confidence ${Math.round(confidence)}% is below threshold of ${minConfidence}%`,
-			};
-		}
+	const factory = matcherFactories.get(name);
+	if (!factory) {
+		throw new Error(`Unknown face matcher provider "${name}"`);
+	}
 
+	activeMatcher = factory();
+	return activeMatcher;
+}
+
+registerFaceMatcher('local', () => new LocalFaceMatcher());
+registerFaceMatcher('http', () => new HttpFaceMatcher());
+
+/**
+ * Classify a match score (and optional liveness score) against the thresholds
+ */
+export function classifyFaceMatch(
+	similarity: number,
+	liveness: number | null,
+	thresholds: FaceVerificationThresholds
+): { outcome: FaceVerificationOutcome; reason?: string } {
+	if (thresholds.requireLiveness && liveness === null) {
+		return { outcome: 'failed', reason: 'Liveness check is required' };
+	}
+
+	if (liveness !== null && liveness < thresholds.livenessThreshold) {
 		return {
-			passed: false,
-			confidence: 0,
-			reason: 'No face match found',
-		};
-		*/
-
-		// Placeholder: Always pass for now (for development)
-		// TODO: Replace with actual face recognition API call
-		console.warn('[Face Verification] Using placeholder - always passes. Implement actual face recognition.');
-		
-		const mockConfidence = 85 + Math.random() * 10; // Mock confidence between 85-95%
-		
-		return {
-			passed: mockConfidence >= minConfidence,
-			confidence: Math.round(mockConfidence),
-			reason: mockConfidence >= minConfidence
-				? undefined
-				: `Face match confidence ${Math.round(mockConfidence)}% is below threshold of ${minConfidence}%`,
-		};
-	} catch (error: any) {
-		console.error('[Face Verification] Error:', error);
-		return {
-			passed: false,
-			confidence: 0,
-			reason: `Face verification failed: ${error.message}`,
+			outcome: 'failed',
+			reason: `Liveness score ${Math.round(liveness)} is below threshold of ${thresholds.livenessThreshold}`,
 		};
 	}
+
+	if (similarity >= thresholds.matchThreshold) {
+		return { outcome: 'passed' };
+	}
+
+	const reason = `Face match confidence ${Math.round(similarity)}% is below threshold of ${thresholds.matchThreshold}%`;
+	if (similarity >= thresholds.matchThreshold - thresholds.reviewMargin) {
+		return { outcome: 'borderline', reason };
+	}
+	return { outcome: 'failed', reason };
+}
+
+/**
+ * Decode a data URI (or bare base64, assumed JPEG) into raw bytes
+ */
+export function decodeImage(imageBase64: string): FaceImage {
+	const match = /^data:(image\/[a-z+]+);base64,(.*)$/s.exec(imageBase64);
+	if (match) {
+		return { mimeType: match[1] === 'image/jpg' ? 'image/jpeg' : match[1], data: Buffer.from(match[2], 'base64') };
+	}
+	return { mimeType: 'image/jpeg', data: Buffer.from(imageBase64, 'base64') };
 }
 
 /**
- * Extract face from image (preprocessing step)
- * Useful for normalizing images before comparison
+ * Load a reference image stored either inline (data URI / base64) or as an http(s) URL
  */
-export async function extractFace(imageBase64: string): Promise<string> {
-	// TODO: Implement face extraction/cropping
-	// This could use face detection to crop and normalize the image
-	// before comparison
-	
-	return imageBase64; // Placeholder
+export async function loadReferenceImage(reference: string): Promise<FaceImage> {
+	if (!/^https?:\/\//i.test(reference)) {
+		return decodeImage(reference);
+	}
+
+	const response = await axios.get<ArrayBuffer>(reference, {
+		responseType: 'arraybuffer',
+		timeout: 10000,
+		maxContentLength: 5 * 1024 * 1024,
+	});
+	const contentType = String(response.headers['content-type'] || 'image/jpeg').split(';')[0].trim();
+	return { mimeType: contentType, data: Buffer.from(response.data) };
 }
 
 /**
@@ -145,4 +198,3 @@ export function validateImage(imageBase64: string): { valid: boolean; reason?: s
 		return { valid: false, reason: `Image validation failed: ${error.message}` };
 	}
 }
-
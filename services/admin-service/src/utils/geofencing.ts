@@ -36,3 +36,37 @@ export function isWithinRadius(
 	return distance <= radiusMeters;
 }
 
+
+export type GeofenceAreaType = 'urban' | 'suburban' | 'rural';
+
+export interface Geofence {
+	latitude: number;
+	longitude: number;
+	/** Inside when within this distance */
+	radiusMeters: number;
+	/** Extra distance before an inside point counts as having left, so GPS jitter at the edge doesn't flap */
+	exitBufferMeters: number;
+}
+
+/**
+ * Whether a point is inside the geofence, given whether the previous point was.
+ * Entering uses the radius; leaving needs radius + exit buffer.
+ */
+export function isInsideGeofence(fence: Geofence, latitude: number, longitude: number, wasInside: boolean): { inside: boolean; distance: number } {
+	const distance = calculateDistance(fence.latitude, fence.longitude, latitude, longitude);
+	const boundary = wasInside ? fence.radiusMeters + fence.exitBufferMeters : fence.radiusMeters;
+	return { inside: distance <= boundary, distance };
+}
+
+/**
+ * Guess area type from the size of the operating zone the address falls in: dense cities are
+ * carved into small zones, rural areas into large ones.
+ */
+export function inferAreaTypeFromZoneRadius(zoneRadiusKm: number | null): GeofenceAreaType | null {
+	if (zoneRadiusKm === null || !Number.isFinite(zoneRadiusKm) || zoneRadiusKm <= 0) {
+		return null;
+	}
+	if (zoneRadiusKm <= 5) return 'urban';
+	if (zoneRadiusKm <= 15) return 'suburban';
+	return 'rural';
+}
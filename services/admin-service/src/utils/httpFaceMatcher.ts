@@ -0,0 +1,64 @@
+/**
+ * Face matcher backed by an external recognition service.
+ *
+ * Expects FACE_MATCHER_URL to expose:
+ *   POST /compare  { probe, reference }  -> { similarity: 0-100, model? }
+ *   POST /liveness { frames, prompts }   -> { score: 0-100, reason? }
+ * Images are sent as data URIs. FACE_MATCHER_API_KEY, when set, is sent as a bearer token.
+ */
+
+import axios, { type AxiosInstance } from 'axios';
+import type { FaceImage, FaceMatchScore, FaceMatcher, LivenessPrompt, LivenessScore } from './faceVerification';
+
+function toDataUri(image: FaceImage): string {
+	return `data:${image.mimeType};base64,${image.data.toString('base64')}`;
+}
+
+function clampScore(value: unknown): number {
+	const parsed = Number(value);
+	if (!Number.isFinite(parsed)) {
+		throw new Error('Face matcher returned a non-numeric score');
+	}
+	return Math.min(100, Math.max(0, parsed));
+}
+
+export class HttpFaceMatcher implements FaceMatcher {
+	readonly name = 'http';
+	private client: AxiosInstance;
+
+	constructor(
+		baseUrl: string | undefined = process.env.FACE_MATCHER_URL,
+		apiKey: string | undefined = process.env.FACE_MATCHER_API_KEY
+	) {
+		if (!baseUrl) {
+			throw new Error('FACE_MATCHER_URL must be set to use the http face matcher');
+		}
+		this.client = axios.create({
+			baseURL: baseUrl.replace(/\/$/, ''),
+			timeout: Number(process.env.FACE_MATCHER_TIMEOUT_MS) || 15000,
+			headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+		});
+	}
+
+	async compare(probe: FaceImage, reference: FaceImage): Promise<FaceMatchScore> {
+		const response = await this.client.post('/compare', {
+			probe: toDataUri(probe),
+			reference: toDataUri(reference),
+		});
+		return {
+			similarity: clampScore(response.data?.similarity),
+			model: typeof response.data?.model === 'string' ? response.data.model : 'http',
+		};
+	}
+
+	async checkLiveness(frames: FaceImage[], prompts: LivenessPrompt[]): Promise<LivenessScore> {
+		const response = await this.client.post('/liveness', {
+			frames: frames.map(toDataUri),
+			prompts,
+		});
+		return {
+			score: clampScore(response.data?.score),
+			reason: typeof response.data?.reason === 'string' ? response.data.reason : undefined,
+		};
+	}
+}
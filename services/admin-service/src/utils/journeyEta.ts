@@ -0,0 +1,214 @@
+/**
+ * Journey ETA and alert heuristics.
+ * Pure functions over the live journey state kept in Redis, so the location hot path stays DB-free.
+ *
+ * ETA = straight-line distance x ROAD_FACTOR / smoothed ground speed. Speeds are clamped to a
+ * plausible city range so a red light or a GPS jump does not swing the estimate wildly.
+ */
+
+import { calculateDistance } from './geofencing';
+
+export type JourneyAlertType = 'late_arrival' | 'long_stop' | 'route_deviation';
+
+export interface GeoPoint {
+	latitude: number;
+	longitude: number;
+}
+
+export interface JourneyEta {
+	/** Straight-line distance to the student's home */
+	distanceMeters: number;
+	etaSeconds: number;
+	estimatedArrivalAt: string;
+	/** Minutes after scheduled start the trainer is predicted to arrive (negative = early); null if unknown */
+	minutesLate: number | null;
+}
+
+/** Running state derived from the location stream */
+export interface JourneyProgress {
+	origin: GeoPoint;
+	/** Straight-line origin -> home distance */
+	originDistanceMeters: number;
+	/** Closest the trainer has been to home so far */
+	closestDistanceMeters: number;
+	/** Sum of distances between consecutive points */
+	travelledMeters: number;
+	/** Exponentially smoothed ground speed (m/s) */
+	speedMps: number | null;
+	/** Where the trainer last came to rest, and since when (reset whenever they move away) */
+	stopAnchor: GeoPoint & { since: string };
+}
+
+export interface JourneyAlertConfig {
+	lateAlertMinutes: number;
+	/** Re-alert lateness each time the prediction worsens by this much */
+	lateEscalationMinutes: number;
+	longStopMinutes: number;
+	stopRadiusMeters: number;
+	/** Within this distance of home the trainer is arriving, not stopping or deviating */
+	arrivalRadiusMeters: number;
+	deviationMinMeters: number;
+}
+
+export interface JourneyAlertCandidate {
+	type: JourneyAlertType;
+	message: string;
+	minutesLate: number | null;
+	stoppedMinutes: number | null;
+}
+
+const ROAD_FACTOR = 1.4;
+const DEFAULT_SPEED_MPS = 5; // ~18 km/h urban two-wheeler average
+const MIN_SPEED_MPS = 2.5;
+const MAX_SPEED_MPS = 12;
+const SPEED_SMOOTHING = 0.3;
+/** Detour ratio (travelled + remaining) / direct above which the route is implausible */
+const MAX_DETOUR_RATIO = 1.8;
+const IST_OFFSET = '+05:30';
+
+export function distanceBetween(a: GeoPoint, b: GeoPoint): number {
+	return calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+}
+
+/**
+ * Session start as an instant. Sessions are scheduled in IST as "HH:MM", "HH:MM:SS" or "h:mm AM/PM".
+ */
+export function parseScheduledStart(scheduledDate: Date, scheduledTime: string): Date | null {
+	const match = /^(\d{1,2}):(\d{2})(?::\d{2})?\s*(AM|PM)?$/i.exec(scheduledTime.trim());
+	if (!match) {
+		return null;
+	}
+
+	let hours = parseInt(match[1], 10);
+	const minutes = parseInt(match[2], 10);
+	const meridiem = match[3]?.toUpperCase();
+	if (meridiem === 'PM' && hours < 12) hours += 12;
+	if (meridiem === 'AM' && hours === 12) hours = 0;
+	if (hours > 23 || minutes > 59) {
+		return null;
+	}
+
+	// scheduledDate carries the calendar day in local date components (see session.model mapRow)
+	const day = [
+		scheduledDate.getFullYear(),
+		String(scheduledDate.getMonth() + 1).padStart(2, '0'),
+		String(scheduledDate.getDate()).padStart(2, '0'),
+	].join('-');
+	const start = new Date(`${day}T${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:00${IST_OFFSET}`);
+	return Number.isNaN(start.getTime()) ? null : start;
+}
+
+export function initialProgress(origin: GeoPoint, destination: GeoPoint, at: Date): JourneyProgress {
+	const originDistanceMeters = distanceBetween(origin, destination);
+	return {
+		origin,
+		originDistanceMeters,
+		closestDistanceMeters: originDistanceMeters,
+		travelledMeters: 0,
+		speedMps: null,
+		stopAnchor: { ...origin, since: at.toISOString() },
+	};
+}
+
+/**
+ * Fold a new point into the progress. `reportedSpeed` is the device's own speed reading, if any.
+ */
+export function advanceProgress(
+	progress: JourneyProgress,
+	previous: GeoPoint & { timestamp: string },
+	current: GeoPoint,
+	destination: GeoPoint,
+	at: Date,
+	config: JourneyAlertConfig,
+	reportedSpeed?: number
+): JourneyProgress {
+	const step = distanceBetween(previous, current);
+	const seconds = (at.getTime() - new Date(previous.timestamp).getTime()) / 1000;
+	const observed = reportedSpeed !== undefined && reportedSpeed >= 0
+		? reportedSpeed
+		: seconds > 0 ? step / seconds : null;
+
+	let speedMps = progress.speedMps;
+	if (observed !== null) {
+		speedMps = speedMps === null ? observed : speedMps + SPEED_SMOOTHING * (observed - speedMps);
+	}
+
+	const movedAway = distanceBetween(progress.stopAnchor, current) > config.stopRadiusMeters;
+
+	return {
+		...progress,
+		closestDistanceMeters: Math.min(progress.closestDistanceMeters, distanceBetween(current, destination)),
+		travelledMeters: progress.travelledMeters + step,
+		speedMps,
+		stopAnchor: movedAway ? { ...current, since: at.toISOString() } : progress.stopAnchor,
+	};
+}
+
+export function estimateEta(
+	current: GeoPoint,
+	destination: GeoPoint,
+	progress: JourneyProgress,
+	scheduledStart: Date | null,
+	at: Date
+): JourneyEta {
+	const distanceMeters = distanceBetween(current, destination);
+	const speed = Math.min(MAX_SPEED_MPS, Math.max(MIN_SPEED_MPS, progress.speedMps ?? DEFAULT_SPEED_MPS));
+	const etaSeconds = Math.round((distanceMeters * ROAD_FACTOR) / speed);
+	const arrival = new Date(at.getTime() + etaSeconds * 1000);
+
+	return {
+		distanceMeters: Math.round(distanceMeters),
+		etaSeconds,
+		estimatedArrivalAt: arrival.toISOString(),
+		minutesLate: scheduledStart ? Math.round((arrival.getTime() - scheduledStart.getTime()) / 60000) : null,
+	};
+}
+
+/**
+ * Alerts that the current state warrants. The caller de-duplicates against alerts already sent.
+ */
+export function detectJourneyAlerts(
+	progress: JourneyProgress,
+	eta: JourneyEta,
+	at: Date,
+	config: JourneyAlertConfig
+): JourneyAlertCandidate[] {
+	const alerts: JourneyAlertCandidate[] = [];
+	const arriving = eta.distanceMeters <= config.arrivalRadiusMeters;
+
+	if (eta.minutesLate !== null && eta.minutesLate >= config.lateAlertMinutes && !arriving) {
+		alerts.push({
+			type: 'late_arrival',
+			message: `Trainer is expected about ${eta.minutesLate} minutes late`,
+			minutesLate: eta.minutesLate,
+			stoppedMinutes: null,
+		});
+	}
+
+	const stoppedMinutes = Math.floor((at.getTime() - new Date(progress.stopAnchor.since).getTime()) / 60000);
+	if (stoppedMinutes >= config.longStopMinutes && !arriving) {
+		alerts.push({
+			type: 'long_stop',
+			message: `Trainer has not moved for ${stoppedMinutes} minutes`,
+			minutesLate: eta.minutesLate,
+			stoppedMinutes,
+		});
+	}
+
+	// Moving away from home well past the closest point, or a path far longer than any sensible route
+	const slack = Math.max(config.deviationMinMeters, progress.originDistanceMeters * 0.3);
+	const drifting = eta.distanceMeters - progress.closestDistanceMeters > slack;
+	const detour =
+		progress.originDistanceMeters > 0 &&
+		progress.travelledMeters + eta.distanceMeters > progress.originDistanceMeters * MAX_DETOUR_RATIO + config.deviationMinMeters;
+	if ((drifting || detour) && !arriving) {
+		alerts.push({
+			type: 'route_deviation',
+			message: 'Trainer appears to be off the expected route',
+			minutesLate: eta.minutesLate,
+			stoppedMinutes: null,
+		});
+	}
+
+	return alerts;
+}
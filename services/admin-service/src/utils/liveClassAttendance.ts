@@ -0,0 +1,75 @@
+/**
+ * Live class attendance arithmetic over LiveKit join/leave intervals.
+ * A participant may hold several overlapping connections (phone + laptop, reconnects),
+ * so intervals are merged before they are measured.
+ */
+
+export interface AttendanceInterval {
+	joinedAt: Date;
+	leftAt: Date | null;
+}
+
+export interface TrainerExitCheck {
+	/** Minutes the trainer was in the room between start and end */
+	presentMinutes: number;
+	/** Minutes between start and end the trainer was out of the room */
+	absentMinutes: number;
+	/** Minutes before the expected end the trainer left (0 when on time) */
+	minutesEarly: number;
+	disputeReason: string | null;
+}
+
+/**
+ * Milliseconds covered by the union of intervals, clipped to [from, to].
+ * Open intervals count up to `to`.
+ */
+export function coveredMs(intervals: AttendanceInterval[], from: Date, to: Date): number {
+	const spans = intervals
+		.map((interval) => [
+			Math.max(interval.joinedAt.getTime(), from.getTime()),
+			Math.min((interval.leftAt ?? to).getTime(), to.getTime()),
+		])
+		.filter(([start, end]) => end > start)
+		.sort((a, b) => a[0] - b[0]);
+
+	let total = 0;
+	let cursorStart = -1;
+	let cursorEnd = -1;
+	for (const [start, end] of spans) {
+		if (start > cursorEnd) {
+			total += cursorEnd - cursorStart;
+			cursorStart = start;
+			cursorEnd = end;
+		} else {
+			cursorEnd = Math.max(cursorEnd, end);
+		}
+	}
+	return total + (cursorEnd - cursorStart);
+}
+
+/**
+ * Decide whether the trainer's attendance warrants a dispute.
+ * Leaving early only counts when the trainer also taught less than the booked duration, so a
+ * class that started late and ran its full length is not flagged.
+ */
+export function checkTrainerExit(
+	intervals: AttendanceInterval[],
+	startedAt: Date,
+	endedAt: Date,
+	expectedEnd: Date,
+	durationMinutes: number,
+	toleranceMinutes: number
+): TrainerExitCheck {
+	const presentMinutes = Math.round(coveredMs(intervals, startedAt, endedAt) / 60000);
+	const absentMinutes = Math.max(0, Math.round((endedAt.getTime() - startedAt.getTime()) / 60000) - presentMinutes);
+	const minutesEarly = Math.max(0, Math.round((expectedEnd.getTime() - endedAt.getTime()) / 60000));
+
+	let disputeReason: string | null = null;
+	if (minutesEarly > toleranceMinutes && presentMinutes < durationMinutes - toleranceMinutes) {
+		disputeReason = `Trainer left the live class ${minutesEarly} minutes before the scheduled end (${presentMinutes} of ${durationMinutes} minutes attended)`;
+	} else if (absentMinutes > toleranceMinutes) {
+		disputeReason = `Trainer was out of the live class for ${absentMinutes} minutes during the session`;
+	}
+
+	return { presentMinutes, absentMinutes, minutesEarly, disputeReason };
+}
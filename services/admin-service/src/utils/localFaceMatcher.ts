@@ -0,0 +1,262 @@
+/**
+ * CPU-only face matcher for development and tests.
+ *
+ * The "embedding" is a mean-centred, L2-normalised 16x16 luminance grid of the whole frame, so it
+ * recognises the same capture setup rather than a face. PNG frames are decoded in-process; JPEG and
+ * WEBP fall back to a byte-histogram embedding that only matches near-identical files.
+ * Never use this backend where a real trainer's identity is at stake.
+ */
+
+import { inflateSync } from 'zlib';
+import type { FaceImage, FaceMatchScore, FaceMatcher, LivenessPrompt, LivenessScore } from './faceVerification';
+
+const GRID_SIZE = 16;
+/** Mean absolute luminance change (0-1) between frames below which a frame counts as a still */
+const MIN_FRAME_MOTION = 0.015;
+/** Frames must stay this similar to the baseline to count as the same person */
+const MIN_SAME_SUBJECT_SIMILARITY = 0.6;
+
+type Embedding = {
+	model: 'local-grid-v1' | 'local-bytes-v1';
+	vector: Float64Array;
+	/** Row-major GRID_SIZE x GRID_SIZE luminance (0-1); only for decoded frames */
+	grid: Float64Array | null;
+};
+
+type DecodedImage = {
+	width: number;
+	height: number;
+	/** One luminance value (0-255) per pixel */
+	luma: Uint8Array;
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+function paeth(a: number, b: number, c: number): number {
+	const p = a + b - c;
+	const pa = Math.abs(p - a);
+	const pb = Math.abs(p - b);
+	const pc = Math.abs(p - c);
+	if (pa <= pb && pa <= pc) return a;
+	return pb <= pc ? b : c;
+}
+
+/**
+ * Minimal PNG decoder: 8-bit greyscale, RGB, greyscale+alpha and RGBA, non-interlaced.
+ * Returns null for anything else.
+ */
+function decodePng(data: Buffer): DecodedImage | null {
+	if (data.length < 8 || !data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+		return null;
+	}
+
+	let offset = 8;
+	let width = 0;
+	let height = 0;
+	let channels = 0;
+	const idat: Buffer[] = [];
+
+	while (offset + 8 <= data.length) {
+		const length = data.readUInt32BE(offset);
+		const type = data.toString('ascii', offset + 4, offset + 8);
+		const body = data.subarray(offset + 8, offset + 8 + length);
+		offset += 12 + length;
+
+		if (type === 'IHDR') {
+			width = body.readUInt32BE(0);
+			height = body.readUInt32BE(4);
+			const bitDepth = body[8];
+			const colorType = body[9];
+			const interlace = body[12];
+			channels = ({ 0: 1, 2: 3, 4: 2, 6: 4 } as Record<number, number>)[colorType] ?? 0;
+			if (bitDepth !== 8 || interlace !== 0 || channels === 0) {
+				return null;
+			}
+		} else if (type === 'IDAT') {
+			idat.push(body);
+		} else if (type === 'IEND') {
+			break;
+		}
+	}
+
+	if (!width || !height || idat.length === 0) {
+		return null;
+	}
+
+	const raw = inflateSync(Buffer.concat(idat));
+	const stride = width * channels;
+	if (raw.length < height * (stride + 1)) {
+		return null;
+	}
+
+	const pixels = Buffer.alloc(height * stride);
+	for (let y = 0; y < height; y++) {
+		const filter = raw[y * (stride + 1)];
+		const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+		const out = y * stride;
+		const prev = out - stride;
+		for (let x = 0; x < stride; x++) {
+			const left = x >= channels ? pixels[out + x - channels] : 0;
+			const up = y > 0 ? pixels[prev + x] : 0;
+			const upLeft = y > 0 && x >= channels ? pixels[prev + x - channels] : 0;
+			let value = row[x];
+			switch (filter) {
+				case 1:
+					value += left;
+					break;
+				case 2:
+					value += up;
+					break;
+				case 3:
+					value += (left + up) >> 1;
+					break;
+				case 4:
+					value += paeth(left, up, upLeft);
+					break;
+			}
+			pixels[out + x] = value & 0xff;
+		}
+	}
+
+	const luma = new Uint8Array(width * height);
+	for (let i = 0; i < width * height; i++) {
+		const p = i * channels;
+		luma[i] = channels >= 3 ? Math.round(0.299 * pixels[p] + 0.587 * pixels[p + 1] + 0.114 * pixels[p + 2]) : pixels[p];
+	}
+
+	return { width, height, luma };
+}
+
+function downsample(image: DecodedImage): Float64Array {
+	const grid = new Float64Array(GRID_SIZE * GRID_SIZE);
+	const counts = new Uint32Array(GRID_SIZE * GRID_SIZE);
+	for (let y = 0; y < image.height; y++) {
+		const gy = Math.min(GRID_SIZE - 1, Math.floor((y * GRID_SIZE) / image.height));
+		for (let x = 0; x < image.width; x++) {
+			const gx = Math.min(GRID_SIZE - 1, Math.floor((x * GRID_SIZE) / image.width));
+			grid[gy * GRID_SIZE + gx] += image.luma[y * image.width + x] / 255;
+			counts[gy * GRID_SIZE + gx]++;
+		}
+	}
+	for (let i = 0; i < grid.length; i++) {
+		grid[i] = counts[i] ? grid[i] / counts[i] : 0;
+	}
+	return grid;
+}
+
+function normalise(values: Float64Array): Float64Array {
+	const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+	const centred = values.map((value) => value - mean);
+	const norm = Math.sqrt(centred.reduce((sum, value) => sum + value * value, 0));
+	return norm > 0 ? centred.map((value) => value / norm) : centred;
+}
+
+function embed(image: FaceImage): Embedding {
+	const decoded = image.mimeType === 'image/png' ? decodePng(image.data) : null;
+	if (decoded) {
+		const grid = downsample(decoded);
+		return { model: 'local-grid-v1', vector: normalise(grid), grid };
+	}
+
+	const histogram = new Float64Array(256);
+	for (const byte of image.data) {
+		histogram[byte]++;
+	}
+	return { model: 'local-bytes-v1', vector: normalise(histogram), grid: null };
+}
+
+function cosine(a: Float64Array, b: Float64Array): number {
+	let dot = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+	}
+	return dot;
+}
+
+function meanAbsDiff(a: Float64Array, b: Float64Array, rows: [number, number] = [0, GRID_SIZE]): number {
+	let total = 0;
+	let count = 0;
+	for (let y = rows[0]; y < rows[1]; y++) {
+		for (let x = 0; x < GRID_SIZE; x++) {
+			total += Math.abs(a[y * GRID_SIZE + x] - b[y * GRID_SIZE + x]);
+			count++;
+		}
+	}
+	return count ? total / count : 0;
+}
+
+/** Horizontal centre of brightness, -1 (left edge) to 1 (right edge) */
+function horizontalCentroid(grid: Float64Array): number {
+	let weighted = 0;
+	let total = 0;
+	for (let y = 0; y < GRID_SIZE; y++) {
+		for (let x = 0; x < GRID_SIZE; x++) {
+			const value = grid[y * GRID_SIZE + x];
+			weighted += value * ((x + 0.5) / GRID_SIZE - 0.5) * 2;
+			total += value;
+		}
+	}
+	return total > 0 ? weighted / total : 0;
+}
+
+/**
+ * Heuristic prompt check against the baseline frame: a blink changes the upper half more than the
+ * lower half; a head turn shifts the brightness centroid sideways. Direction is not checked because
+ * front cameras may mirror the image.
+ */
+function promptSatisfied(prompt: LivenessPrompt, baseline: Float64Array, frame: Float64Array): boolean {
+	if (prompt === 'blink') {
+		const upper = meanAbsDiff(baseline, frame, [0, GRID_SIZE / 2]);
+		const lower = meanAbsDiff(baseline, frame, [GRID_SIZE / 2, GRID_SIZE]);
+		return upper >= MIN_FRAME_MOTION && upper > lower;
+	}
+	return Math.abs(horizontalCentroid(frame) - horizontalCentroid(baseline)) >= 0.02;
+}
+
+export class LocalFaceMatcher implements FaceMatcher {
+	readonly name = 'local';
+
+	async compare(probe: FaceImage, reference: FaceImage): Promise<FaceMatchScore> {
+		const a = embed(probe);
+		const b = embed(reference);
+		if (a.model !== b.model) {
+			// Different embedding spaces are not comparable
+			return { similarity: 0, model: a.model };
+		}
+		const similarity = Math.max(0, cosine(a.vector, b.vector)) * 100;
+		return { similarity: Math.round(similarity * 100) / 100, model: a.model };
+	}
+
+	async checkLiveness(frames: FaceImage[], prompts: LivenessPrompt[]): Promise<LivenessScore> {
+		if (frames.length < prompts.length + 1) {
+			return { score: 0, reason: `Expected ${prompts.length + 1} frames (baseline plus one per prompt)` };
+		}
+
+		const embeddings = frames.map(embed);
+		const grids = embeddings.map((embedding) => embedding.grid);
+		if (grids.some((grid) => grid === null)) {
+			return { score: 0, reason: 'Local liveness check needs PNG frames' };
+		}
+		const [baseline, ...rest] = grids as Float64Array[];
+		const baselineVector = embeddings[0]!.vector;
+
+		for (let i = 1; i < embeddings.length; i++) {
+			if (cosine(baselineVector, embeddings[i]!.vector) < MIN_SAME_SUBJECT_SIMILARITY) {
+				return { score: 0, reason: 'Frames do not show the same subject' };
+			}
+		}
+
+		for (let i = 1; i < grids.length; i++) {
+			if (meanAbsDiff(grids[i - 1] as Float64Array, grids[i] as Float64Array) < MIN_FRAME_MOTION) {
+				return { score: 0, reason: 'No movement between frames; possible photo replay' };
+			}
+		}
+
+		const satisfied = prompts.filter((prompt, index) => promptSatisfied(prompt, baseline!, rest[index]!)).length;
+		const score = prompts.length ? (satisfied / prompts.length) * 100 : 100;
+		return {
+			score: Math.round(score * 100) / 100,
+			reason: satisfied < prompts.length ? `${prompts.length - satisfied} prompt(s) not followed` : undefined,
+		};
+	}
+}
@@ -323,6 +323,13 @@ async function handlePurchaseCreated(event: EnrichedEvent): Promise<void> {
         (purchaseEvent.metadata?.startDate as string) ||
         new Date().toISOString().split('T')[0]) as string,
       endDate: (purchaseEvent.metadata?.expiryDate as string || '') as string,
+      metadata: {
+        // Batch key for 1-on-2 / 1-on-3 group chats (chat-service)
+        groupSize: completeMetadata.groupSize ?? null,
+        timeSlot: ((completeMetadata.schedule as Record<string, unknown>)?.timeSlot as string) ||
+          (completeMetadata.timeSlot as string) ||
+          null,
+      },
     };
 
     // Emit to Kafka (for workers)
@@ -119,6 +119,7 @@ app.use((req, res, next) => {
 app.use('/api/v1/students/auth', authRateLimiter);
 app.use('/api/v1/trainers/auth', authRateLimiter);
 app.use('/api/v1/admin/auth', authRateLimiter);
+app.use('/api/v1/guardians/auth', authRateLimiter);
 
 // Role-based rate limiting (applied after auth middleware extracts user role)
 app.use(roleBasedRateLimiter);
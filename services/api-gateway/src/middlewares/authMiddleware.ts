@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyAccessToken } from '@kodingcaravan/shared';
+import { verifyAccessTokenAsync } from '@kodingcaravan/shared';
 import logger from '@kodingcaravan/shared/config/logger';
 
 type UserJwt = {
@@ -52,6 +52,7 @@ function isPublicEndpoint(path: string): boolean {
 		'/api/v1/students/auth',
 		'/api/v1/trainers/auth',
 		'/api/v1/admin/auth',
+		'/api/v1/guardians/auth',
 		'/api/students/auth',
 		'/api/trainers/auth',
 		'/api/admin/auth',
@@ -65,7 +66,7 @@ function isPublicEndpoint(path: string): boolean {
  * Extracts user info from token if present, but doesn't block requests
  * This is useful for logging, analytics, and passing user context to services
  */
-export function optionalAuthMiddleware(req: Request, _res: Response, next: NextFunction): void {
+export async function optionalAuthMiddleware(req: Request, _res: Response, next: NextFunction): Promise<void> {
 	const header = req.headers.authorization;
 	
 	if (!header || !header.startsWith('Bearer ')) {
@@ -78,7 +79,7 @@ export function optionalAuthMiddleware(req: Request, _res: Response, next: NextF
 	}
 
 	try {
-		const payload = verifyAccessToken<UserJwt>(token);
+		const payload = await verifyAccessTokenAsync<UserJwt>(token);
 		
 		if (payload && payload.sub) {
 			// Store user info in request for downstream services
@@ -106,8 +107,9 @@ export function optionalAuthMiddleware(req: Request, _res: Response, next: NextF
  * - Only validates tokens for protected routes (not public/auth endpoints)
  * - Returns a clean 401 response for invalid/expired tokens
  * - Prevents invalid tokens from being proxied to downstream services
+ * - Resolves the signing key by `kid`, fetching JWKS from the auth services after a rotation
  */
-export function validateAuthMiddleware(req: Request, res: Response, next: NextFunction): void {
+export async function validateAuthMiddleware(req: Request, res: Response, next: NextFunction): Promise<void> {
 	// Skip validation for public endpoints
 	if (isPublicEndpoint(req.path)) {
 		return next();
@@ -128,7 +130,7 @@ export function validateAuthMiddleware(req: Request, res: Response, next: NextFu
 
 	// Validate token
 	try {
-		const payload = verifyAccessToken<UserJwt>(token);
+		const payload = await verifyAccessTokenAsync<UserJwt>(token);
 		
 		if (payload && payload.sub) {
 			// Token is valid - store user info and continue
@@ -22,7 +22,8 @@ const serviceProxyDefinitions: ServiceProxyDefinition[] = [
   },
   {
     name: 'student-auth-service',
-    routes: ['/api/v1/students/auth'],
+    // Guardian accounts, links and consents live in student-auth-service as well
+    routes: ['/api/v1/students/auth', '/api/v1/guardians/auth', '/api/v1/guardians/links', '/api/v1/guardians/consents'],
     portEnv: 'STUDENT_AUTH_SERVICE_PORT',
     defaultPort: 3001,
   },
@@ -48,7 +49,8 @@ const serviceProxyDefinitions: ServiceProxyDefinition[] = [
   },
   {
     name: 'student-service',
-    routes: ['/api/v1/students'],
+    // Guardian read views (sessions, progress, payments, journeys) are served by student-service
+    routes: ['/api/v1/students', '/api/v1/guardians/students'],
     portEnv: 'STUDENT_SERVICE_PORT',
     defaultPort: 3003,
     proxyOptions: {
@@ -61,6 +63,7 @@ const serviceProxyDefinitions: ServiceProxyDefinition[] = [
       },
       pathRewrite: {
         '^/api/v1/students': '/api/students',
+        '^/api/v1/guardians': '/api/guardians',
       },
     },
   },
@@ -106,7 +109,7 @@ const serviceProxyDefinitions: ServiceProxyDefinition[] = [
   },
   {
     name: 'chat-service',
-    routes: ['/api/v1/chat', '/api/v1/doubts', '/api/v1/trainer/doubts', '/api/v1/admin/doubts'],
+    routes: ['/api/v1/chat', '/api/v1/doubts', '/api/v1/trainer/doubts', '/api/v1/admin/doubts', '/api/v1/admin/moderation'],
     portEnv: 'CHAT_SERVICE_PORT',
     defaultPort: 3008,
     proxyOptions: {
@@ -115,6 +118,7 @@ const serviceProxyDefinitions: ServiceProxyDefinition[] = [
         '^/api/v1/doubts': '/api/doubts',
         '^/api/v1/trainer/doubts': '/api/trainer/doubts',
         '^/api/v1/admin/doubts': '/api/admin/doubts',
+        '^/api/v1/admin/moderation': '/api/admin/moderation',
       },
     },
   },
@@ -18,8 +18,8 @@ let redisSubscriber: any = null;
 async function verifyToken(token: string): Promise<{ id: string; role: string } | null> {
   try {
     // Import JWT verification utility
-    const { verifyAccessToken } = await import('@kodingcaravan/shared/utils/tokenManager');
-    const decoded = verifyAccessToken<any>(token);
+    const { verifyAccessTokenAsync } = await import('@kodingcaravan/shared/utils/tokenManager');
+    const decoded = await verifyAccessTokenAsync<any>(token);
     
     // Log decoded token structure for debugging
     logger.debug('Decoded token fields', {
@@ -306,6 +306,11 @@ export function setupEventWebSocket(io: SocketIOServer): void {
       });
     }
 
+    // Ops desk: admins receive journey alerts (late arrival, long stop, off-route) for all journeys
+    if (role === 'admin') {
+      socket.join('ops:journeys');
+    }
+
     // PHASE 4 FIX: No longer subscribe via eventBus (in-memory only)
     // Events will be routed via Redis Pub/Sub subscriber (see below)
     
@@ -407,7 +412,11 @@ function setupRedisPubSubSubscriber(
     redisSubscriber.on('message', async (channel: string, message: string) => {
       try {
         if (channel === 'journey:updates') {
-          const payload = JSON.parse(message) as { journeyId: string; location: any; sequence: number; timestamp: string };
+          const payload = JSON.parse(message) as { journeyId: string; type?: 'alert'; location?: any; eta?: any; sequence?: number; timestamp: string };
+          if (payload.type === 'alert') {
+            io.to(`journey:${payload.journeyId}`).to('ops:journeys').emit('journey:alert', payload);
+            return;
+          }
           io.to(`journey:${payload.journeyId}`).emit('journey:location', payload);
           return;
         }
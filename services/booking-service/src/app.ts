@@ -6,6 +6,7 @@ import express, { type Application } from 'express';
 import timeout from 'connect-timeout';
 import { globalErrorHandler, createHealthCheckEndpoints, getRedisClient } from '@kodingcaravan/shared';
 import logger from '@kodingcaravan/shared/config/logger';
+import { ensureCalendarBlockTable } from '@kodingcaravan/shared/utils/blackoutCalendar';
 import { getPool } from './config/database';
 import { CityRepository } from './models/city.model';
 import { ClusterRepository } from './models/cluster.model';
@@ -29,8 +30,12 @@ import { BookingController } from './controllers/booking.controller';
 import { createBookingRoutes } from './routes/booking.routes';
 import { ensureFeatureFlagTable } from './models/featureFlag.model';
 import { ensureCouponTables } from './models/coupon.model';
+import { ensureCouponCampaignTable } from './models/couponCampaign.model';
 import { ensurePricingConfigTable } from './models/pricingConfig.model';
+import { ensurePricingRuleTable } from './models/pricingRule.model';
 import { ensurePreBookingCapacityTable } from './models/preBookingCapacity.model';
+import { ensureTrainerMatchingWeightsTable } from './models/trainerMatchingWeights.model';
+import { ensureTrainerAssignmentScoreTable } from './models/trainerAssignmentScore.model';
 
 const app: Application = express();
 
@@ -100,9 +105,14 @@ const autoAssignmentService = new AutoTrainerAssignmentService(
 (async () => {
 	try {
 		await ensureFeatureFlagTable(pool);
+		await ensureCouponCampaignTable(pool);
 		await ensureCouponTables(pool);
 		await ensurePricingConfigTable(pool);
+		await ensurePricingRuleTable(pool);
 		await ensurePreBookingCapacityTable(pool);
+		await ensureTrainerMatchingWeightsTable(pool);
+		await ensureTrainerAssignmentScoreTable(pool);
+		await ensureCalendarBlockTable(pool);
 		logger.info('New tables initialized', { service: 'booking-service' });
 	} catch (error) {
 		logger.error('Error initializing tables', { 
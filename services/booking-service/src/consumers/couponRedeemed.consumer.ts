@@ -0,0 +1,105 @@
+/**
+ * COUPON_REDEEMED consumer
+ *
+ * payment-service writes COUPON_REDEEMED to its outbox in the same transaction that marks a
+ * coupon payment as succeeded. Recording it here (instead of a fire-and-forget HTTP call)
+ * means a redemption is never lost: failures are retried, then dead-lettered, and Kafka
+ * redelivers until the offset is committed. Recording is idempotent per payment.
+ */
+
+import type { Pool } from 'pg';
+import logger from '@kodingcaravan/shared/config/logger';
+import type { CouponRedeemedEvent } from '@kodingcaravan/shared/events/types';
+import {
+	createKafkaConsumer,
+	executeWithRetry,
+	getDeadLetterPublisher,
+	getEventCorrelationId,
+	getEventId,
+	type KafkaConsumer,
+} from '@kodingcaravan/shared/worker';
+import { CouponCampaignService } from '../services/couponCampaign.service';
+
+const TOPIC = 'coupon-redeemed';
+const CONSUMER_GROUP = 'booking-service-coupon-redemptions';
+const MAX_ATTEMPTS = 3;
+
+export async function startCouponRedeemedConsumer(pool: Pool): Promise<KafkaConsumer> {
+	const campaignService = new CouponCampaignService(pool);
+	const dlqPublisher = getDeadLetterPublisher();
+
+	const consumer = createKafkaConsumer({
+		groupId: CONSUMER_GROUP,
+		clientId: `booking-service-${process.pid}`,
+		topics: [TOPIC],
+	});
+
+	await consumer.start(async (event, payload) => {
+		if ((event as any).type !== 'COUPON_REDEEMED') {
+			return;
+		}
+
+		const redeemed = event as unknown as CouponRedeemedEvent;
+		const correlationId = getEventCorrelationId(event);
+		const eventId = getEventId(event);
+
+		try {
+			const result = await executeWithRetry(
+				() => campaignService.recordRedemption({
+					code: redeemed.couponCode,
+					studentId: redeemed.studentId,
+					paymentId: redeemed.paymentId,
+					discountApplied: redeemed.discountApplied,
+					metadata: {
+						amountCents: redeemed.amountCents,
+						courseId: redeemed.courseId ?? undefined,
+					},
+				}),
+				{ maxAttempts: MAX_ATTEMPTS, initialDelayMs: 1000, maxDelayMs: 30000, multiplier: 2 },
+				{ correlationId, eventId, operation: 'record_coupon_redemption' }
+			);
+
+			if (!result) {
+				logger.warn('COUPON_REDEEMED for an unknown coupon code', {
+					paymentId: redeemed.paymentId,
+					code: redeemed.couponCode,
+					eventId,
+					service: 'booking-service',
+				});
+			} else if (result.status === 'rejected') {
+				// The discount was already charged; finance has to follow up on the payment
+				logger.error('Coupon redemption rejected after payment', {
+					paymentId: redeemed.paymentId,
+					studentId: redeemed.studentId,
+					code: redeemed.couponCode,
+					reason: result.reason,
+					eventId,
+					service: 'booking-service',
+				});
+			}
+		} catch (error: any) {
+			await dlqPublisher.publish({
+				originalEvent: event,
+				originalTopic: payload.topic,
+				originalPartition: payload.partition,
+				originalOffset: payload.message.offset,
+				failureReason: error?.message || String(error),
+				failureTimestamp: Date.now(),
+				attempts: MAX_ATTEMPTS,
+				correlationId,
+				eventId,
+			});
+
+			// Re-throw to prevent offset commit (Kafka will redeliver)
+			throw error;
+		}
+	});
+
+	logger.info('COUPON_REDEEMED consumer started', {
+		topic: TOPIC,
+		consumerGroup: CONSUMER_GROUP,
+		service: 'booking-service',
+	});
+
+	return consumer;
+}
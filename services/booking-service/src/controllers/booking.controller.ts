@@ -512,6 +512,8 @@ export class BookingController {
 				preferredTimeSlot,
 				studentLocation,
 				students,
+				cityId,
+				preferences,
 			} = req.body;
 
 			// Validate required fields
@@ -653,6 +655,18 @@ export class BookingController {
 						longitude: studentLocation.longitude,
 					},
 					students,
+					cityId: typeof cityId === 'string' && uuidRegex.test(cityId) ? cityId : null,
+					...(preferences && typeof preferences === 'object' && {
+						preferences: {
+							languages: Array.isArray(preferences.languages)
+								? preferences.languages.filter((l: unknown): l is string => typeof l === 'string')
+								: [],
+							trainerGender:
+								preferences.trainerGender === 'male' || preferences.trainerGender === 'female'
+									? preferences.trainerGender
+									: null,
+						},
+					}),
 				},
 				fetchTrainers
 			);
@@ -665,6 +679,8 @@ export class BookingController {
 					purchaseId: result.purchaseId,
 					trainerId: result.trainerId,
 					message: result.message,
+					matchScore: result.matchScore,
+					explanation: result.explanation,
 				},
 			});
 		} catch (error: any) {
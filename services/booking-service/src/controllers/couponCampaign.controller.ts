@@ -0,0 +1,500 @@
+/**
+ * Coupon Campaign Controller
+ * Admin campaign management, bulk code generation and attribution reporting
+ */
+
+import { Request, Response } from 'express';
+import { CouponCampaignService } from '../services/couponCampaign.service';
+import {
+	CouponCampaignRepository,
+	type CouponCampaignCreateInput,
+	type CouponCampaignUpdateInput,
+} from '../models/couponCampaign.model';
+import type { CouponType } from '../models/coupon.model';
+import { validateEnum, validateUUID, type ValidationErrorDetail } from '../middlewares/validation.middleware';
+import { getPool } from '../config/database';
+import logger from '@kodingcaravan/shared/config/logger';
+
+const COUPON_TYPES = ['school', 'influencer', 'promotional', 'referral'] as const;
+const CLASS_TYPES = ['1-on-1', '1-on-2', '1-on-3', 'hybrid'] as const;
+const DISCOUNT_TYPES = ['percentage', 'fixed', 'summer_pricing'] as const;
+
+export class CouponCampaignController {
+	private campaignService: CouponCampaignService;
+	private campaignRepo: CouponCampaignRepository;
+
+	constructor() {
+		const pool = getPool();
+		this.campaignService = new CouponCampaignService(pool);
+		this.campaignRepo = new CouponCampaignRepository(pool);
+	}
+
+	/**
+	 * GET /api/v1/booking/coupons/campaigns
+	 * List coupon campaigns (admin)
+	 */
+	listCampaigns = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { couponType, isActive, limit, offset } = req.query;
+			const filters: Parameters<CouponCampaignRepository['findAll']>[0] = {};
+			if (typeof couponType === 'string' && (COUPON_TYPES as readonly string[]).includes(couponType)) {
+				filters.couponType = couponType as CouponType;
+			}
+			if (isActive !== undefined) {
+				filters.isActive = isActive === 'true';
+			}
+			if (limit !== undefined) {
+				filters.limit = Math.min(parseInt(String(limit), 10) || 100, 500);
+			}
+			if (offset !== undefined) {
+				filters.offset = parseInt(String(offset), 10) || 0;
+			}
+
+			const campaigns = await this.campaignRepo.findAll(filters);
+
+			res.json({
+				success: true,
+				data: campaigns,
+			});
+		} catch (error: any) {
+			res.status(500).json({
+				success: false,
+				message: error.message || 'Failed to list coupon campaigns',
+			});
+		}
+	};
+
+	/**
+	 * POST /api/v1/booking/coupons/campaigns
+	 * Create a coupon campaign (admin)
+	 */
+	createCampaign = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { input, errors } = parseCampaignBody(req.body, false);
+			if (errors.length) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation failed',
+					errors,
+				});
+				return;
+			}
+
+			const campaign = await this.campaignService.createCampaign({
+				...(input as CouponCampaignCreateInput),
+				createdBy: (req as any).adminId ?? null,
+			});
+
+			logger.info('Coupon campaign created', {
+				campaignId: campaign.id,
+				couponType: campaign.couponType,
+				adminId: (req as any).adminId,
+				correlationId: (req as any).correlationId,
+				service: 'booking-service',
+			});
+
+			res.status(201).json({
+				success: true,
+				data: campaign,
+			});
+		} catch (error: any) {
+			const isDuplicate = error?.code === '23505';
+			res.status(isDuplicate ? 409 : 400).json({
+				success: false,
+				message: isDuplicate ? 'A campaign with this name already exists' : error.message || 'Failed to create coupon campaign',
+			});
+		}
+	};
+
+	/**
+	 * GET /api/v1/booking/coupons/campaigns/:campaignId
+	 * Campaign with its attribution summary and per-code breakdown (admin)
+	 */
+	getCampaign = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { campaignId } = req.params;
+			const idError = validateUUID(campaignId, 'campaignId');
+			if (idError) {
+				res.status(400).json({ success: false, message: idError });
+				return;
+			}
+
+			const details = await this.campaignService.getCampaignDetails(campaignId!);
+			if (!details) {
+				res.status(404).json({ success: false, message: 'Coupon campaign not found' });
+				return;
+			}
+
+			res.json({
+				success: true,
+				data: details,
+			});
+		} catch (error: any) {
+			res.status(500).json({
+				success: false,
+				message: error.message || 'Failed to get coupon campaign',
+			});
+		}
+	};
+
+	/**
+	 * PATCH /api/v1/booking/coupons/campaigns/:campaignId
+	 * Update campaign rules (admin)
+	 */
+	updateCampaign = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { campaignId } = req.params;
+			const { input, errors } = parseCampaignBody(req.body, true);
+			const idError = validateUUID(campaignId, 'campaignId');
+			if (idError) {
+				errors.push({ field: 'campaignId', message: idError });
+			}
+			if (errors.length) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation failed',
+					errors,
+				});
+				return;
+			}
+
+			const campaign = await this.campaignRepo.update(campaignId!, input);
+			if (!campaign) {
+				res.status(404).json({ success: false, message: 'Coupon campaign not found' });
+				return;
+			}
+
+			res.json({
+				success: true,
+				data: campaign,
+			});
+		} catch (error: any) {
+			res.status(500).json({
+				success: false,
+				message: error.message || 'Failed to update coupon campaign',
+			});
+		}
+	};
+
+	/**
+	 * POST /api/v1/booking/coupons/campaigns/:campaignId/codes
+	 * Bulk-generate codes for a campaign (admin)
+	 */
+	generateCodes = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { campaignId } = req.params;
+			const errors: ValidationErrorDetail[] = [];
+			const idError = validateUUID(campaignId, 'campaignId');
+			if (idError) errors.push({ field: 'campaignId', message: idError });
+
+			const {
+				count,
+				referrerStudentIds,
+				prefix,
+				suffixLength,
+				discountType,
+				discountValue,
+				maxRedemptionsPerCode,
+				validFrom,
+				validUntil,
+			} = req.body ?? {};
+
+			if (count !== undefined && (!Number.isInteger(count) || count < 1)) {
+				errors.push({ field: 'count', message: 'count must be a positive integer' });
+			}
+			if (referrerStudentIds !== undefined && (!Array.isArray(referrerStudentIds) || referrerStudentIds.some((id: any) => validateUUID(id, 'referrerStudentId')))) {
+				errors.push({ field: 'referrerStudentIds', message: 'referrerStudentIds must be an array of UUIDs' });
+			}
+			if (prefix !== undefined && (typeof prefix !== 'string' || prefix.length > 12)) {
+				errors.push({ field: 'prefix', message: 'prefix must be a string of at most 12 characters' });
+			}
+			if (discountType !== undefined) {
+				const enumError = validateEnum(discountType, DISCOUNT_TYPES, 'discountType');
+				if (enumError) errors.push({ field: 'discountType', message: enumError });
+			}
+			if (discountValue !== undefined && discountValue !== null && (typeof discountValue !== 'number' || discountValue < 0)) {
+				errors.push({ field: 'discountValue', message: 'discountValue must be a non-negative number' });
+			}
+			if (maxRedemptionsPerCode !== undefined && maxRedemptionsPerCode !== null && (!Number.isInteger(maxRedemptionsPerCode) || maxRedemptionsPerCode < 1)) {
+				errors.push({ field: 'maxRedemptionsPerCode', message: 'maxRedemptionsPerCode must be a positive integer' });
+			}
+			const parsedValidFrom = validFrom !== undefined ? new Date(validFrom) : undefined;
+			const parsedValidUntil = validUntil !== undefined ? new Date(validUntil) : undefined;
+			if (parsedValidFrom && isNaN(parsedValidFrom.getTime())) {
+				errors.push({ field: 'validFrom', message: 'validFrom must be a valid date' });
+			}
+			if (parsedValidUntil && isNaN(parsedValidUntil.getTime())) {
+				errors.push({ field: 'validUntil', message: 'validUntil must be a valid date' });
+			}
+
+			if (errors.length) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation failed',
+					errors,
+				});
+				return;
+			}
+
+			const result = await this.campaignService.generateCodes(campaignId!, {
+				count,
+				referrerStudentIds,
+				prefix,
+				suffixLength,
+				discountType,
+				discountValue,
+				maxRedemptionsPerCode,
+				...(parsedValidFrom ? { validFrom: parsedValidFrom } : {}),
+				...(parsedValidUntil ? { validUntil: parsedValidUntil } : {}),
+				createdBy: (req as any).adminId ?? null,
+			});
+
+			if (!result) {
+				res.status(404).json({ success: false, message: 'Coupon campaign not found' });
+				return;
+			}
+
+			res.status(201).json({
+				success: true,
+				data: {
+					campaignId: result.campaign.id,
+					generated: result.codes.length,
+					codes: result.codes,
+				},
+			});
+		} catch (error: any) {
+			res.status(400).json({
+				success: false,
+				message: error.message || 'Failed to generate coupon codes',
+			});
+		}
+	};
+
+	/**
+	 * GET /api/v1/booking/coupons/campaigns/attribution
+	 * Redemptions, revenue and conversion per campaign (admin)
+	 */
+	getAttribution = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { from, to, couponType } = req.query;
+			const filters: Parameters<CouponCampaignService['getAttribution']>[0] = {};
+
+			if (typeof from === 'string') {
+				const date = new Date(from);
+				if (isNaN(date.getTime())) {
+					res.status(400).json({ success: false, message: 'from must be a valid date' });
+					return;
+				}
+				filters.from = date;
+			}
+			if (typeof to === 'string') {
+				const date = new Date(to);
+				if (isNaN(date.getTime())) {
+					res.status(400).json({ success: false, message: 'to must be a valid date' });
+					return;
+				}
+				filters.to = date;
+			}
+			if (typeof couponType === 'string' && (COUPON_TYPES as readonly string[]).includes(couponType)) {
+				filters.couponType = couponType as CouponType;
+			}
+
+			const attribution = await this.campaignService.getAttribution(filters);
+
+			res.json({
+				success: true,
+				data: attribution,
+			});
+		} catch (error: any) {
+			res.status(500).json({
+				success: false,
+				message: error.message || 'Failed to get coupon attribution',
+			});
+		}
+	};
+
+	/**
+	 * POST /api/v1/booking/coupons/redemptions
+	 * Record a coupon redemption by hand, e.g. to backfill a payment (service token required).
+	 * Payments normally arrive as COUPON_REDEEMED events (consumers/couponRedeemed.consumer.ts).
+	 */
+	recordRedemption = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { code, studentId, paymentId, bookingId, discountApplied, metadata } = req.body ?? {};
+			const errors: ValidationErrorDetail[] = [];
+
+			if (!code || typeof code !== 'string') {
+				errors.push({ field: 'code', message: 'code is required' });
+			}
+			const studentError = validateUUID(studentId, 'studentId');
+			if (studentError) errors.push({ field: 'studentId', message: studentError });
+			if (paymentId !== undefined) {
+				const paymentError = validateUUID(paymentId, 'paymentId');
+				if (paymentError) errors.push({ field: 'paymentId', message: paymentError });
+			}
+			if (typeof discountApplied !== 'number' || discountApplied < 0) {
+				errors.push({ field: 'discountApplied', message: 'discountApplied must be a non-negative number' });
+			}
+
+			if (errors.length) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation failed',
+					errors,
+				});
+				return;
+			}
+
+			const result = await this.campaignService.recordRedemption({
+				code,
+				studentId,
+				paymentId,
+				bookingId,
+				discountApplied,
+				metadata,
+			});
+
+			if (!result) {
+				res.status(404).json({ success: false, message: 'Coupon not found' });
+				return;
+			}
+
+			if (result.status === 'rejected') {
+				res.status(409).json({ success: false, message: result.reason });
+				return;
+			}
+
+			res.status(result.status === 'duplicate' ? 200 : 201).json({
+				success: true,
+				data: {
+					redemption: result.status === 'recorded' ? result.redemption : null,
+					duplicate: result.status === 'duplicate',
+				},
+			});
+		} catch (error: any) {
+			logger.error('Failed to record coupon redemption', {
+				error: error?.message || String(error),
+				correlationId: (req as any).correlationId,
+				service: 'booking-service',
+			});
+			res.status(500).json({
+				success: false,
+				message: error.message || 'Failed to record coupon redemption',
+			});
+		}
+	};
+}
+
+/**
+ * Validate and normalise a campaign request body.
+ * With partial=true only the provided fields are validated (PATCH semantics).
+ */
+function parseCampaignBody(
+	body: any,
+	partial: boolean
+): { input: CouponCampaignUpdateInput & { couponType?: CouponType }; errors: ValidationErrorDetail[] } {
+	const errors: ValidationErrorDetail[] = [];
+	const input: CouponCampaignUpdateInput & { couponType?: CouponType } = {};
+	const has = (field: string) => body?.[field] !== undefined;
+
+	if (!partial && !has('name')) {
+		errors.push({ field: 'name', message: 'name is required' });
+	} else if (has('name')) {
+		if (typeof body.name !== 'string' || !body.name.trim()) {
+			errors.push({ field: 'name', message: 'name must be a non-empty string' });
+		} else {
+			input.name = body.name.trim();
+		}
+	}
+
+	if (!partial) {
+		const enumError = validateEnum(body?.couponType, COUPON_TYPES, 'couponType');
+		if (enumError) errors.push({ field: 'couponType', message: enumError });
+		else input.couponType = body.couponType;
+	} else if (has('couponType')) {
+		errors.push({ field: 'couponType', message: 'couponType cannot be changed' });
+	}
+
+	for (const field of ['ownerName', 'ownerContact', 'description'] as const) {
+		if (has(field)) {
+			input[field] = body[field] === null ? null : String(body[field]);
+		}
+	}
+
+	if (has('perStudentLimit')) {
+		if (!Number.isInteger(body.perStudentLimit) || body.perStudentLimit < 1) {
+			errors.push({ field: 'perStudentLimit', message: 'perStudentLimit must be a positive integer' });
+		} else {
+			input.perStudentLimit = body.perStudentLimit;
+		}
+	}
+
+	if (has('redemptionCap')) {
+		if (body.redemptionCap !== null && (!Number.isInteger(body.redemptionCap) || body.redemptionCap < 1)) {
+			errors.push({ field: 'redemptionCap', message: 'redemptionCap must be a positive integer or null' });
+		} else {
+			input.redemptionCap = body.redemptionCap;
+		}
+	}
+
+	if (has('minSessionCount')) {
+		if (body.minSessionCount !== null && ![10, 20, 30].includes(body.minSessionCount)) {
+			errors.push({ field: 'minSessionCount', message: 'minSessionCount must be 10, 20, 30 or null' });
+		} else {
+			input.minSessionCount = body.minSessionCount;
+		}
+	}
+
+	if (has('eligibleClassTypes')) {
+		if (body.eligibleClassTypes !== null && (!Array.isArray(body.eligibleClassTypes) || body.eligibleClassTypes.some((value: any) => !CLASS_TYPES.includes(value)))) {
+			errors.push({ field: 'eligibleClassTypes', message: `eligibleClassTypes must be an array of: ${CLASS_TYPES.join(', ')}` });
+		} else {
+			input.eligibleClassTypes = body.eligibleClassTypes;
+		}
+	}
+
+	if (has('eligibleCourseIds')) {
+		if (body.eligibleCourseIds !== null && (!Array.isArray(body.eligibleCourseIds) || body.eligibleCourseIds.some((value: any) => validateUUID(value, 'courseId')))) {
+			errors.push({ field: 'eligibleCourseIds', message: 'eligibleCourseIds must be an array of UUIDs' });
+		} else {
+			input.eligibleCourseIds = body.eligibleCourseIds;
+		}
+	}
+
+	for (const field of ['validFrom', 'validUntil'] as const) {
+		if (has(field)) {
+			if (body[field] === null) {
+				input[field] = null;
+			} else {
+				const date = new Date(body[field]);
+				if (isNaN(date.getTime())) {
+					errors.push({ field, message: `${field} must be a valid date` });
+				} else {
+					input[field] = date;
+				}
+			}
+		}
+	}
+
+	if (input.validFrom && input.validUntil && input.validUntil <= input.validFrom) {
+		errors.push({ field: 'validUntil', message: 'validUntil must be after validFrom' });
+	}
+
+	if (has('isActive')) {
+		if (typeof body.isActive !== 'boolean') {
+			errors.push({ field: 'isActive', message: 'isActive must be a boolean' });
+		} else {
+			input.isActive = body.isActive;
+		}
+	}
+
+	if (has('metadata')) {
+		if (body.metadata !== null && (typeof body.metadata !== 'object' || Array.isArray(body.metadata))) {
+			errors.push({ field: 'metadata', message: 'metadata must be an object' });
+		} else {
+			input.metadata = body.metadata;
+		}
+	}
+
+	return { input, errors };
+}
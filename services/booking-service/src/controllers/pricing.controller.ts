@@ -4,9 +4,19 @@
  */
 
 import { Request, Response } from 'express';
-import { PricingService } from '../services/pricing.service';
+import { PricingService, type PricingCalculationInput } from '../services/pricing.service';
 import { CouponRepository } from '../models/coupon.model';
 import { FeatureFlagRepository } from '../models/featureFlag.model';
+import {
+	PricingRuleRepository,
+	PRICING_RULE_ADJUSTMENT_TYPES,
+	PRICING_RULE_STACKING_MODES,
+	PRICING_RULE_TRIGGERS,
+	type PricingRuleCreateInput,
+	type PricingRuleTrigger,
+	type PricingRuleUpdateInput,
+} from '../models/pricingRule.model';
+import { validateEnum, validateUUID, type ValidationErrorDetail } from '../middlewares/validation.middleware';
 import { getPool } from '../config/database';
 import logger from '@kodingcaravan/shared/config/logger';
 
@@ -14,12 +24,14 @@ export class PricingController {
 	private pricingService: PricingService;
 	private couponRepo: CouponRepository;
 	private featureFlagRepo: FeatureFlagRepository;
+	private pricingRuleRepo: PricingRuleRepository;
 
 	constructor() {
 		const pool = getPool();
 		this.pricingService = new PricingService(pool);
 		this.couponRepo = new CouponRepository(pool);
 		this.featureFlagRepo = new FeatureFlagRepository(pool);
+		this.pricingRuleRepo = new PricingRuleRepository(pool);
 	}
 
 	/**
@@ -28,7 +40,7 @@ export class PricingController {
 	 */
 	calculatePricing = async (req: Request, res: Response): Promise<void> => {
 		try {
-			const { classType, couponCode, claimDeal } = req.query;
+			const { classType, couponCode, claimDeal, courseId, sessionCount, cityId, zoneId, franchiseId } = req.query;
 
 			logger.debug('Pricing calculation request received', {
 				classType,
@@ -47,13 +59,37 @@ export class PricingController {
 				return;
 			}
 
-			const pricingInput: { classType: '1-on-1' | '1-on-2' | '1-on-3' | 'hybrid'; couponCode?: string; claimDeal?: boolean; date: Date } = {
+			const pricingInput: PricingCalculationInput & { date: Date } = {
 				classType: classType as '1-on-1' | '1-on-2' | '1-on-3' | 'hybrid',
 				date: new Date(),
 			};
 			if (couponCode) {
 				pricingInput.couponCode = couponCode as string;
 			}
+			// Optional rule-matching context (course, session tier, geography)
+			if (typeof courseId === 'string' && courseId) {
+				pricingInput.courseId = courseId;
+			}
+			if (sessionCount !== undefined) {
+				const parsedSessionCount = parseInt(String(sessionCount), 10);
+				if (![10, 20, 30].includes(parsedSessionCount)) {
+					res.status(400).json({
+						success: false,
+						message: 'Invalid sessionCount. Must be 10, 20, or 30',
+					});
+					return;
+				}
+				pricingInput.sessionCount = parsedSessionCount;
+			}
+			if (typeof cityId === 'string' && cityId) {
+				pricingInput.cityId = cityId;
+			}
+			if (typeof zoneId === 'string' && zoneId) {
+				pricingInput.zoneId = zoneId;
+			}
+			if (typeof franchiseId === 'string' && franchiseId) {
+				pricingInput.franchiseId = franchiseId;
+			}
 			// Handle claimDeal parameter - explicitly check for true/1
 			// Query params come as strings, so 'true' string means true
 			// CRITICAL: Must check for string 'true' since query params are always strings
@@ -124,7 +160,7 @@ export class PricingController {
 	 */
 	validateCoupon = async (req: Request, res: Response): Promise<void> => {
 		try {
-			const { code, sessionCount, studentId } = req.body;
+			const { code, sessionCount, studentId, classType, courseId } = req.body;
 
 			if (!code) {
 				res.status(400).json({
@@ -138,7 +174,11 @@ export class PricingController {
 				code,
 				sessionCount || 30,
 				new Date(),
-				studentId
+				studentId,
+				{
+					...(['1-on-1', '1-on-2', '1-on-3', 'hybrid'].includes(classType) ? { classType: classType as '1-on-1' | '1-on-2' | '1-on-3' | 'hybrid' } : {}),
+					...(typeof courseId === 'string' ? { courseId } : {}),
+				}
 			);
 
 			if (!validation.valid) {
@@ -203,5 +243,328 @@ export class PricingController {
 			});
 		}
 	};
+
+	/**
+	 * GET /api/v1/booking/pricing/rules
+	 * List pricing rules (admin)
+	 */
+	listPricingRules = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { isActive, trigger, cityId, limit, offset } = req.query;
+			const filters: Parameters<PricingRuleRepository['findAll']>[0] = {};
+			if (isActive !== undefined) {
+				filters.isActive = isActive === 'true';
+			}
+			if (typeof trigger === 'string' && PRICING_RULE_TRIGGERS.includes(trigger as PricingRuleTrigger)) {
+				filters.trigger = trigger as PricingRuleTrigger;
+			}
+			if (typeof cityId === 'string' && cityId) {
+				filters.cityId = cityId;
+			}
+			if (limit !== undefined) {
+				filters.limit = Math.min(parseInt(String(limit), 10) || 100, 500);
+			}
+			if (offset !== undefined) {
+				filters.offset = parseInt(String(offset), 10) || 0;
+			}
+
+			const rules = await this.pricingRuleRepo.findAll(filters);
+
+			res.json({
+				success: true,
+				data: rules,
+			});
+		} catch (error: any) {
+			res.status(500).json({
+				success: false,
+				message: error.message || 'Failed to list pricing rules',
+			});
+		}
+	};
+
+	/**
+	 * POST /api/v1/booking/pricing/rules
+	 * Create a pricing rule (admin)
+	 */
+	createPricingRule = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { input, errors } = parsePricingRuleBody(req.body, false);
+			if (errors.length) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation failed',
+					errors,
+				});
+				return;
+			}
+
+			const rule = await this.pricingRuleRepo.create({
+				...(input as PricingRuleCreateInput),
+				createdBy: (req as any).adminId ?? null,
+			});
+
+			logger.info('Pricing rule created', {
+				ruleId: rule.id,
+				name: rule.name,
+				adminId: (req as any).adminId,
+				correlationId: (req as any).correlationId,
+				service: 'booking-service',
+			});
+
+			res.status(201).json({
+				success: true,
+				data: rule,
+			});
+		} catch (error: any) {
+			const isDuplicate = error?.code === '23505';
+			res.status(isDuplicate ? 409 : 500).json({
+				success: false,
+				message: isDuplicate ? 'A pricing rule with this name already exists' : error.message || 'Failed to create pricing rule',
+			});
+		}
+	};
+
+	/**
+	 * PATCH /api/v1/booking/pricing/rules/:ruleId
+	 * Update a pricing rule (admin)
+	 */
+	updatePricingRule = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { ruleId } = req.params;
+			const { input, errors } = parsePricingRuleBody(req.body, true);
+			const idError = validateUUID(ruleId, 'ruleId');
+			if (idError) {
+				errors.push({ field: 'ruleId', message: idError });
+			}
+			if (errors.length) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation failed',
+					errors,
+				});
+				return;
+			}
+
+			const rule = await this.pricingRuleRepo.update(ruleId!, input);
+			if (!rule) {
+				res.status(404).json({
+					success: false,
+					message: 'Pricing rule not found',
+				});
+				return;
+			}
+
+			logger.info('Pricing rule updated', {
+				ruleId: rule.id,
+				fields: Object.keys(input),
+				adminId: (req as any).adminId,
+				correlationId: (req as any).correlationId,
+				service: 'booking-service',
+			});
+
+			res.json({
+				success: true,
+				data: rule,
+			});
+		} catch (error: any) {
+			res.status(500).json({
+				success: false,
+				message: error.message || 'Failed to update pricing rule',
+			});
+		}
+	};
+
+	/**
+	 * DELETE /api/v1/booking/pricing/rules/:ruleId
+	 * Deactivate a pricing rule (admin)
+	 */
+	deactivatePricingRule = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { ruleId } = req.params;
+			const idError = validateUUID(ruleId, 'ruleId');
+			if (idError) {
+				res.status(400).json({
+					success: false,
+					message: idError,
+				});
+				return;
+			}
+
+			const rule = await this.pricingRuleRepo.deactivate(ruleId!);
+			if (!rule) {
+				res.status(404).json({
+					success: false,
+					message: 'Pricing rule not found',
+				});
+				return;
+			}
+
+			logger.info('Pricing rule deactivated', {
+				ruleId: rule.id,
+				adminId: (req as any).adminId,
+				correlationId: (req as any).correlationId,
+				service: 'booking-service',
+			});
+
+			res.json({
+				success: true,
+				data: rule,
+			});
+		} catch (error: any) {
+			res.status(500).json({
+				success: false,
+				message: error.message || 'Failed to deactivate pricing rule',
+			});
+		}
+	};
 }
 
+const CLASS_TYPES = ['1-on-1', '1-on-2', '1-on-3', 'hybrid'] as const;
+
+/**
+ * Validate and normalise a pricing rule request body.
+ * With partial=true only the provided fields are validated (PATCH semantics).
+ */
+function parsePricingRuleBody(
+	body: any,
+	partial: boolean
+): { input: PricingRuleUpdateInput; errors: ValidationErrorDetail[] } {
+	const errors: ValidationErrorDetail[] = [];
+	const input: PricingRuleUpdateInput = {};
+	const has = (field: string) => body?.[field] !== undefined;
+	const requireField = (field: string) => {
+		if (!partial && !has(field)) {
+			errors.push({ field, message: `${field} is required` });
+			return false;
+		}
+		return has(field);
+	};
+
+	if (requireField('name')) {
+		if (typeof body.name !== 'string' || !body.name.trim()) {
+			errors.push({ field: 'name', message: 'name must be a non-empty string' });
+		} else {
+			input.name = body.name.trim();
+		}
+	}
+
+	if (has('description')) {
+		input.description = body.description === null ? null : String(body.description);
+	}
+
+	if (requireField('trigger')) {
+		const error = validateEnum(body.trigger, PRICING_RULE_TRIGGERS, 'trigger');
+		if (error) errors.push({ field: 'trigger', message: error });
+		else input.trigger = body.trigger;
+	}
+
+	if (requireField('adjustmentType')) {
+		const error = validateEnum(body.adjustmentType, PRICING_RULE_ADJUSTMENT_TYPES, 'adjustmentType');
+		if (error) errors.push({ field: 'adjustmentType', message: error });
+		else input.adjustmentType = body.adjustmentType;
+	}
+
+	if (requireField('adjustmentValue')) {
+		const value = Number(body.adjustmentValue);
+		if (!Number.isFinite(value) || value < 0) {
+			errors.push({ field: 'adjustmentValue', message: 'adjustmentValue must be a non-negative number' });
+		} else if (body.adjustmentType === 'percentage_discount' && value > 100) {
+			errors.push({ field: 'adjustmentValue', message: 'percentage_discount cannot exceed 100' });
+		} else {
+			input.adjustmentValue = value;
+		}
+	}
+
+	if (has('priority')) {
+		if (!Number.isInteger(body.priority)) {
+			errors.push({ field: 'priority', message: 'priority must be an integer' });
+		} else {
+			input.priority = body.priority;
+		}
+	}
+
+	if (has('stacking')) {
+		const error = validateEnum(body.stacking, PRICING_RULE_STACKING_MODES, 'stacking');
+		if (error) errors.push({ field: 'stacking', message: error });
+		else input.stacking = body.stacking;
+	}
+
+	if (has('classTypes')) {
+		if (body.classTypes !== null && (!Array.isArray(body.classTypes) || body.classTypes.some((value: any) => !CLASS_TYPES.includes(value)))) {
+			errors.push({ field: 'classTypes', message: `classTypes must be an array of: ${CLASS_TYPES.join(', ')}` });
+		} else {
+			input.classTypes = body.classTypes;
+		}
+	}
+
+	if (has('sessionCounts')) {
+		if (body.sessionCounts !== null && (!Array.isArray(body.sessionCounts) || body.sessionCounts.some((value: any) => ![10, 20, 30].includes(value)))) {
+			errors.push({ field: 'sessionCounts', message: 'sessionCounts must be an array of 10, 20 or 30' });
+		} else {
+			input.sessionCounts = body.sessionCounts;
+		}
+	}
+
+	if (has('courseIds')) {
+		if (body.courseIds !== null && (!Array.isArray(body.courseIds) || body.courseIds.some((value: any) => validateUUID(value, 'courseId')))) {
+			errors.push({ field: 'courseIds', message: 'courseIds must be an array of UUIDs' });
+		} else {
+			input.courseIds = body.courseIds;
+		}
+	}
+
+	for (const field of ['couponTypes', 'couponCodes'] as const) {
+		if (has(field)) {
+			if (body[field] !== null && (!Array.isArray(body[field]) || body[field].some((value: any) => typeof value !== 'string'))) {
+				errors.push({ field, message: `${field} must be an array of strings` });
+			} else {
+				input[field] = body[field];
+			}
+		}
+	}
+
+	for (const field of ['cityId', 'zoneId', 'franchiseId'] as const) {
+		if (has(field)) {
+			const error = body[field] === null ? null : validateUUID(body[field], field);
+			if (error) errors.push({ field, message: error });
+			else input[field] = body[field];
+		}
+	}
+
+	for (const field of ['validFrom', 'validUntil'] as const) {
+		if (has(field)) {
+			if (body[field] === null) {
+				input[field] = null;
+			} else {
+				const date = new Date(body[field]);
+				if (isNaN(date.getTime())) {
+					errors.push({ field, message: `${field} must be a valid date` });
+				} else {
+					input[field] = date;
+				}
+			}
+		}
+	}
+
+	if (input.validFrom && input.validUntil && input.validUntil <= input.validFrom) {
+		errors.push({ field: 'validUntil', message: 'validUntil must be after validFrom' });
+	}
+
+	if (has('isActive')) {
+		if (typeof body.isActive !== 'boolean') {
+			errors.push({ field: 'isActive', message: 'isActive must be a boolean' });
+		} else {
+			input.isActive = body.isActive;
+		}
+	}
+
+	if (has('metadata')) {
+		if (body.metadata !== null && (typeof body.metadata !== 'object' || Array.isArray(body.metadata))) {
+			errors.push({ field: 'metadata', message: 'metadata must be an object' });
+		} else {
+			input.metadata = body.metadata;
+		}
+	}
+
+	return { input, errors };
+}
@@ -0,0 +1,106 @@
+/**
+ * Substitute Candidate Controller
+ * Ranks substitutes for a trainer's leave (called by trainer-service)
+ */
+
+import { Request, Response } from 'express';
+import { ZoneRepository } from '../models/zone.model';
+import { ScheduleSlotRepository } from '../models/scheduleSlot.model';
+import { TrainerEligibilityCheckerService } from '../services/trainerEligibilityChecker.service';
+import { SubstituteCandidateService, type SubstituteSessionInput } from '../services/substituteCandidate.service';
+import { TrainerServiceClient } from '../utils/trainerServiceClient';
+import { validateUUID, type ValidationErrorDetail } from '../middlewares/validation.middleware';
+import { getPool } from '../config/database';
+
+const MAX_SESSIONS_PER_REQUEST = 100;
+
+export class SubstituteCandidateController {
+	private candidateService: SubstituteCandidateService;
+	private trainerServiceClient: TrainerServiceClient;
+
+	constructor() {
+		const pool = getPool();
+		this.candidateService = new SubstituteCandidateService(
+			new ZoneRepository(pool),
+			new TrainerEligibilityCheckerService(new ScheduleSlotRepository(pool), pool),
+			pool
+		);
+		this.trainerServiceClient = new TrainerServiceClient();
+	}
+
+	/**
+	 * POST /api/v1/booking/substitute-candidates
+	 * Body: { originalTrainerId, courseId, studentLocation: { latitude, longitude },
+	 *         sessions: [{ date: 'YYYY-MM-DD', time, sessionType? }], limit? }
+	 */
+	findCandidates = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { originalTrainerId, courseId, studentLocation, sessions, limit } = req.body ?? {};
+			const errors: ValidationErrorDetail[] = [];
+
+			const trainerIdError = validateUUID(originalTrainerId, 'originalTrainerId');
+			if (trainerIdError) {
+				errors.push({ field: 'originalTrainerId', message: trainerIdError });
+			}
+			const courseIdError = validateUUID(courseId, 'courseId');
+			if (courseIdError) {
+				errors.push({ field: 'courseId', message: courseIdError });
+			}
+			if (
+				!studentLocation ||
+				typeof studentLocation.latitude !== 'number' ||
+				typeof studentLocation.longitude !== 'number'
+			) {
+				errors.push({ field: 'studentLocation', message: 'studentLocation must have numeric latitude and longitude' });
+			}
+
+			const parsedSessions: SubstituteSessionInput[] = [];
+			if (!Array.isArray(sessions) || sessions.length === 0 || sessions.length > MAX_SESSIONS_PER_REQUEST) {
+				errors.push({ field: 'sessions', message: `sessions must be a non-empty array of at most ${MAX_SESSIONS_PER_REQUEST}` });
+			} else {
+				sessions.forEach((session: any, index: number) => {
+					const match = typeof session?.date === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(session.date) : null;
+					if (!match || typeof session.time !== 'string' || !session.time) {
+						errors.push({ field: `sessions[${index}]`, message: 'Each session needs a YYYY-MM-DD date and a time' });
+						return;
+					}
+					parsedSessions.push({
+						sessionDate: new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])),
+						sessionTime: session.time,
+						sessionType: session.sessionType === 'online' ? 'online' : 'offline',
+					});
+				});
+			}
+
+			if (errors.length) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation failed',
+					errors,
+				});
+				return;
+			}
+
+			const candidates = await this.candidateService.findCandidates(
+				{
+					originalTrainerId,
+					courseId,
+					studentLocation,
+					sessions: parsedSessions,
+					...(typeof limit === 'number' && limit > 0 && { limit: Math.min(Math.floor(limit), 20) }),
+				},
+				filters => this.trainerServiceClient.fetchTrainers(filters)
+			);
+
+			res.json({
+				success: true,
+				data: candidates,
+			});
+		} catch (error: any) {
+			res.status(500).json({
+				success: false,
+				message: error.message || 'Failed to rank substitute candidates',
+			});
+		}
+	};
+}
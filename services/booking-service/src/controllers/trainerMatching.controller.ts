@@ -0,0 +1,207 @@
+/**
+ * Trainer Matching Controller
+ * Admin management of per-city match weights and assignment explanations
+ */
+
+import { Request, Response } from 'express';
+import {
+	TrainerMatchingWeightsRepository,
+	sanitizeMatchWeights,
+} from '../models/trainerMatchingWeights.model';
+import { TrainerAssignmentScoreRepository } from '../models/trainerAssignmentScore.model';
+import { validateUUID, type ValidationErrorDetail } from '../middlewares/validation.middleware';
+import { DEFAULT_MATCH_WEIGHTS, DEFAULT_MAX_TRAVEL_KM, MATCH_FACTORS } from '../utils/trainerMatchScore';
+import { getPool } from '../config/database';
+import logger from '@kodingcaravan/shared/config/logger';
+
+/** Path value addressing the platform-wide default row */
+const DEFAULT_CITY_KEY = 'default';
+
+export class TrainerMatchingController {
+	private weightsRepo: TrainerMatchingWeightsRepository;
+	private scoreRepo: TrainerAssignmentScoreRepository;
+
+	constructor() {
+		const pool = getPool();
+		this.weightsRepo = new TrainerMatchingWeightsRepository(pool);
+		this.scoreRepo = new TrainerAssignmentScoreRepository(pool);
+	}
+
+	/**
+	 * GET /api/v1/booking/matching-weights
+	 * List configured weights (admin)
+	 */
+	listWeights = async (_req: Request, res: Response): Promise<void> => {
+		try {
+			const rows = await this.weightsRepo.findAll();
+			res.json({
+				success: true,
+				data: {
+					builtin: { weights: DEFAULT_MATCH_WEIGHTS, maxTravelKm: DEFAULT_MAX_TRAVEL_KM },
+					configured: rows,
+				},
+			});
+		} catch (error: any) {
+			res.status(500).json({
+				success: false,
+				message: error.message || 'Failed to list matching weights',
+			});
+		}
+	};
+
+	/**
+	 * PUT /api/v1/booking/matching-weights/:cityId
+	 * Set weights for a city, or the platform default with cityId "default" (admin)
+	 */
+	upsertWeights = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { cityId: cityParam } = req.params;
+			const { weights, maxTravelKm } = req.body ?? {};
+			const errors: ValidationErrorDetail[] = [];
+
+			const cityId = cityParam === DEFAULT_CITY_KEY ? null : cityParam ?? null;
+			if (cityId !== null) {
+				const idError = validateUUID(cityId, 'cityId');
+				if (idError) {
+					errors.push({ field: 'cityId', message: `${idError} or "${DEFAULT_CITY_KEY}"` });
+				}
+			}
+
+			if (!weights || typeof weights !== 'object' || Array.isArray(weights)) {
+				errors.push({ field: 'weights', message: 'weights must be an object' });
+			} else {
+				for (const key of Object.keys(weights)) {
+					if (!(MATCH_FACTORS as readonly string[]).includes(key)) {
+						errors.push({ field: `weights.${key}`, message: `Unknown factor. Must be one of: ${MATCH_FACTORS.join(', ')}` });
+					} else if (!(typeof weights[key] === 'number' && Number.isFinite(weights[key]) && weights[key] >= 0)) {
+						errors.push({ field: `weights.${key}`, message: 'Weight must be a non-negative number' });
+					}
+				}
+			}
+
+			if (
+				maxTravelKm !== undefined &&
+				maxTravelKm !== null &&
+				!(typeof maxTravelKm === 'number' && Number.isFinite(maxTravelKm) && maxTravelKm > 0 && maxTravelKm < 10000)
+			) {
+				errors.push({ field: 'maxTravelKm', message: 'maxTravelKm must be a positive number of kilometres' });
+			}
+
+			if (errors.length) {
+				res.status(400).json({
+					success: false,
+					message: 'Validation failed',
+					errors,
+				});
+				return;
+			}
+
+			const row = await this.weightsRepo.upsert({
+				cityId,
+				weights: sanitizeMatchWeights(weights),
+				maxTravelKm: maxTravelKm ?? null,
+				updatedBy: (req as any).adminId ?? null,
+			});
+
+			logger.info('Trainer matching weights updated', {
+				cityId: cityId ?? DEFAULT_CITY_KEY,
+				weights: row.weights,
+				maxTravelKm: row.maxTravelKm,
+				adminId: (req as any).adminId,
+				correlationId: (req as any).correlationId,
+				service: 'booking-service',
+			});
+
+			res.json({
+				success: true,
+				data: row,
+			});
+		} catch (error: any) {
+			res.status(500).json({
+				success: false,
+				message: error.message || 'Failed to update matching weights',
+			});
+		}
+	};
+
+	/**
+	 * DELETE /api/v1/booking/matching-weights/:cityId
+	 * Remove a city's weights so it falls back to the default (admin)
+	 */
+	deleteWeights = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { cityId } = req.params;
+			const idError = validateUUID(cityId, 'cityId');
+			if (idError) {
+				res.status(400).json({
+					success: false,
+					message: idError,
+				});
+				return;
+			}
+
+			const deleted = await this.weightsRepo.deleteByCityId(cityId!);
+			if (!deleted) {
+				res.status(404).json({
+					success: false,
+					message: 'No matching weights configured for this city',
+				});
+				return;
+			}
+
+			logger.info('Trainer matching weights removed', {
+				cityId,
+				adminId: (req as any).adminId,
+				correlationId: (req as any).correlationId,
+				service: 'booking-service',
+			});
+
+			res.json({
+				success: true,
+				message: 'City matching weights removed',
+			});
+		} catch (error: any) {
+			res.status(500).json({
+				success: false,
+				message: error.message || 'Failed to remove matching weights',
+			});
+		}
+	};
+
+	/**
+	 * GET /api/v1/booking/purchases/:purchaseId/assignment-explanation
+	 * Why auto-assignment picked (or waitlisted) this purchase's trainer (admin)
+	 */
+	getAssignmentExplanation = async (req: Request, res: Response): Promise<void> => {
+		try {
+			const { purchaseId } = req.params;
+			const idError = validateUUID(purchaseId, 'purchaseId');
+			if (idError) {
+				res.status(400).json({
+					success: false,
+					message: idError,
+				});
+				return;
+			}
+
+			const score = await this.scoreRepo.findLatestByPurchaseId(purchaseId!);
+			if (!score) {
+				res.status(404).json({
+					success: false,
+					message: 'No assignment explanation recorded for this purchase',
+				});
+				return;
+			}
+
+			res.json({
+				success: true,
+				data: score,
+			});
+		} catch (error: any) {
+			res.status(500).json({
+				success: false,
+				message: error.message || 'Failed to load assignment explanation',
+			});
+		}
+	};
+}
@@ -5,12 +5,15 @@
 import "@kodingcaravan/shared/config";
 import { getServicePortSync } from '@kodingcaravan/shared';
 import logger, { logServiceStart } from '@kodingcaravan/shared/config/logger';
+import type { KafkaConsumer } from '@kodingcaravan/shared/worker';
 import app from './app';
-import { initializeDatabase } from './config/database';
+import { getPool, initializeDatabase } from './config/database';
+import { startCouponRedeemedConsumer } from './consumers/couponRedeemed.consumer';
 
 const PORT = getServicePortSync('Booking Service', 'BOOKING_SERVICE_PORT', 3011);
 
 let server: ReturnType<typeof app.listen> | null = null;
+let couponConsumer: KafkaConsumer | null = null;
 
 async function start() {
 	try {
@@ -22,6 +25,18 @@ async function start() {
 			logServiceStart('Booking Service', PORT);
 		});
 
+		// Coupon redemptions from payment-service's outbox; HTTP keeps serving if Kafka is down
+		startCouponRedeemedConsumer(getPool())
+			.then((consumer) => {
+				couponConsumer = consumer;
+			})
+			.catch((error) => {
+				logger.error('Failed to start COUPON_REDEEMED consumer', {
+					service: 'booking-service',
+					error: error instanceof Error ? error.message : String(error),
+				});
+			});
+
 		server.on('error', (err: NodeJS.ErrnoException) => {
 			if (err.code === 'EADDRINUSE') {
 				logger.error(`Port ${PORT} is already in use`, { 
@@ -44,6 +59,13 @@ async function start() {
 		// Graceful shutdown handler
 		const gracefulShutdown = (signal: string) => {
 			logger.info(`Received ${signal}, starting graceful shutdown`, { service: 'booking-service' });
+
+			couponConsumer?.stop().catch((error) => {
+				logger.warn('Error stopping COUPON_REDEEMED consumer', {
+					service: 'booking-service',
+					error: error instanceof Error ? error.message : String(error),
+				});
+			});
 			
 			if (server) {
 				server.close(() => {
@@ -0,0 +1,27 @@
+import { timingSafeEqual } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '@kodingcaravan/shared';
+
+/**
+ * Guard for endpoints only other services may call.
+ * Callers send INTERNAL_SERVICE_TOKEN in the X-Service-Token header; requests are refused when it is unset.
+ */
+export function requireServiceAuth(req: Request, _res: Response, next: NextFunction): void {
+	const expected = process.env.INTERNAL_SERVICE_TOKEN;
+	if (!expected) {
+		return next(new AppError('Service authentication is not configured', 503));
+	}
+
+	const provided = req.headers['x-service-token'];
+	if (typeof provided !== 'string' || !provided) {
+		return next(new AppError('Service token missing', 401));
+	}
+
+	const expectedBuffer = Buffer.from(expected);
+	const providedBuffer = Buffer.from(provided);
+	if (expectedBuffer.length !== providedBuffer.length || !timingSafeEqual(expectedBuffer, providedBuffer)) {
+		return next(new AppError('Invalid service token', 401));
+	}
+
+	next();
+}
@@ -1,11 +1,17 @@
 /**
  * Coupon Model
- * Manages coupons for schools, influencers, and promotional campaigns
+ * Manages coupons for schools, influencers, referrals and promotional campaigns
+ *
+ * Coupons that belong to a campaign (coupon_campaigns) inherit its eligibility
+ * rules: per-student limit, campaign-wide cap, minimum session tier and
+ * eligible class types / courses. Standalone coupons keep the original
+ * one-coupon-per-student-lifetime rule.
  */
 
 import type { Pool, PoolClient, QueryResult } from 'pg';
+import type { ClassType } from './pricingConfig.model';
 
-export type CouponType = 'school' | 'influencer' | 'promotional';
+export type CouponType = 'school' | 'influencer' | 'promotional' | 'referral';
 export type DiscountType = 'percentage' | 'fixed' | 'summer_pricing';
 
 export interface Coupon {
@@ -21,11 +27,21 @@ export interface Coupon {
 	validUntil: Date;
 	isActive: boolean;
 	metadata: Record<string, unknown> | null;
+	campaignId: string | null;
+	referrerStudentId: string | null;
 	createdBy: string | null;
 	createdAt: Date;
 	updatedAt: Date;
 }
 
+/**
+ * Booking context used to check campaign eligibility during validation
+ */
+export interface CouponValidationContext {
+	classType?: ClassType;
+	courseId?: string;
+}
+
 export interface CouponRedemption {
 	id: string;
 	couponId: string;
@@ -38,6 +54,11 @@ export interface CouponRedemption {
 	createdAt: Date;
 }
 
+export type CouponRedemptionOutcome =
+	| { status: 'recorded'; redemption: CouponRedemption }
+	| { status: 'duplicate' }
+	| { status: 'rejected'; reason: string };
+
 export async function ensureCouponTables(poolOrClient: Pool | PoolClient): Promise<void> {
 	const queryFn = (text: string, params?: any[]) => {
 		return poolOrClient.query(text, params);
@@ -48,7 +69,7 @@ export async function ensureCouponTables(poolOrClient: Pool | PoolClient): Promi
 			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
 			code TEXT UNIQUE NOT NULL,
 			name TEXT NOT NULL,
-			type TEXT NOT NULL CHECK (type IN ('school', 'influencer', 'promotional')),
+			type TEXT NOT NULL CHECK (type IN ('school', 'influencer', 'promotional', 'referral')),
 			discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed', 'summer_pricing')),
 			discount_value NUMERIC(10, 2),
 			max_redemptions INTEGER,
@@ -80,7 +101,30 @@ export async function ensureCouponTables(poolOrClient: Pool | PoolClient): Promi
 		);
 	`);
 
+	// Campaign linkage and referral attribution (migration for existing tables)
+	await queryFn(`
+		ALTER TABLE coupons ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES coupon_campaigns(id) ON DELETE SET NULL;
+		ALTER TABLE coupons ADD COLUMN IF NOT EXISTS referrer_student_id UUID REFERENCES students(id) ON DELETE SET NULL;
+		ALTER TABLE coupons DROP CONSTRAINT IF EXISTS coupons_type_check;
+		ALTER TABLE coupons ADD CONSTRAINT coupons_type_check CHECK (type IN ('school', 'influencer', 'promotional', 'referral'));
+	`);
+
+	// Every validation attempt is recorded so campaigns can report conversion
+	await queryFn(`
+		CREATE TABLE IF NOT EXISTS coupon_applications (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			coupon_id UUID NOT NULL REFERENCES coupons(id) ON DELETE CASCADE,
+			student_id UUID REFERENCES students(id) ON DELETE SET NULL,
+			is_valid BOOLEAN NOT NULL,
+			error TEXT,
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+	`);
+
 	await queryFn(`
+		CREATE INDEX IF NOT EXISTS idx_coupons_campaign ON coupons(campaign_id) WHERE campaign_id IS NOT NULL;
+		CREATE INDEX IF NOT EXISTS idx_coupons_referrer ON coupons(referrer_student_id) WHERE referrer_student_id IS NOT NULL;
+		CREATE INDEX IF NOT EXISTS idx_coupon_applications_coupon ON coupon_applications(coupon_id, created_at);
 		CREATE INDEX IF NOT EXISTS idx_coupons_code ON coupons(code);
 		CREATE INDEX IF NOT EXISTS idx_coupons_type ON coupons(type);
 		CREATE INDEX IF NOT EXISTS idx_coupons_active ON coupons(is_active, valid_from, valid_until) WHERE is_active = true;
@@ -109,6 +153,8 @@ export class CouponRepository {
 					valid_until AS "validUntil",
 					is_active AS "isActive",
 					metadata,
+					campaign_id AS "campaignId",
+					referrer_student_id AS "referrerStudentId",
 					created_by AS "createdBy",
 					created_at AS "createdAt",
 					updated_at AS "updatedAt"
@@ -129,7 +175,24 @@ export class CouponRepository {
 		code: string,
 		sessionCount: number,
 		date: Date = new Date(),
-		studentId?: string
+		studentId?: string,
+		context: CouponValidationContext = {}
+	): Promise<{ valid: boolean; coupon: Coupon | null; appliesSummerPricing: boolean; error?: string }> {
+		const result = await this.checkCoupon(code, sessionCount, date, studentId, context);
+
+		if (result.coupon) {
+			await this.recordApplication(result.coupon.id, studentId ?? null, result.valid, result.error ?? null);
+		}
+
+		return result;
+	}
+
+	private async checkCoupon(
+		code: string,
+		sessionCount: number,
+		date: Date,
+		studentId: string | undefined,
+		context: CouponValidationContext
 	): Promise<{ valid: boolean; coupon: Coupon | null; appliesSummerPricing: boolean; error?: string }> {
 		const coupon = await this.findByCode(code);
 
@@ -150,19 +213,62 @@ export class CouponRepository {
 			return { valid: false, coupon, appliesSummerPricing: false, error: 'Coupon redemption limit reached' };
 		}
 
-		// Check if student has already used ANY coupon OR claimed deal (one discount per user lifetime restriction)
+		const campaign = coupon.campaignId ? await this.findCampaignRules(coupon.campaignId) : null;
+		if (campaign) {
+			if (!campaign.isActive) {
+				return { valid: false, coupon, appliesSummerPricing: false, error: 'Coupon campaign has ended' };
+			}
+			if ((campaign.validFrom && now < campaign.validFrom) || (campaign.validUntil && now > campaign.validUntil)) {
+				return { valid: false, coupon, appliesSummerPricing: false, error: 'Coupon is expired or not yet valid' };
+			}
+			if (campaign.redemptionCap !== null && campaign.totalRedemptions >= campaign.redemptionCap) {
+				return { valid: false, coupon, appliesSummerPricing: false, error: 'Coupon redemption limit reached' };
+			}
+			if (campaign.minSessionCount !== null && sessionCount < campaign.minSessionCount) {
+				return { valid: false, coupon, appliesSummerPricing: false, error: `Coupon requires a package of at least ${campaign.minSessionCount} sessions` };
+			}
+			if (campaign.eligibleClassTypes?.length && context.classType && !campaign.eligibleClassTypes.includes(context.classType)) {
+				return { valid: false, coupon, appliesSummerPricing: false, error: 'Coupon is not valid for this class type' };
+			}
+			if (campaign.eligibleCourseIds?.length && context.courseId && !campaign.eligibleCourseIds.includes(context.courseId)) {
+				return { valid: false, coupon, appliesSummerPricing: false, error: 'Coupon is not valid for this course' };
+			}
+		}
+
 		if (studentId) {
-			const previousRedemptionResult = await this.pool.query(
-				`
-					SELECT id FROM coupon_redemptions
-					WHERE student_id = $1
-					LIMIT 1
-				`,
-				[studentId]
-			);
+			if (coupon.referrerStudentId === studentId) {
+				return { valid: false, coupon, appliesSummerPricing: false, error: 'You cannot use your own referral code' };
+			}
+
+			if (campaign) {
+				// Campaign coupons: per-student limit across all codes in the campaign
+				const campaignRedemptionResult = await this.pool.query(
+					`
+						SELECT COUNT(*)::int AS count
+						FROM coupon_redemptions cr
+						JOIN coupons c ON c.id = cr.coupon_id
+						WHERE cr.student_id = $1 AND c.campaign_id = $2
+					`,
+					[studentId, campaign.id]
+				);
+
+				if ((campaignRedemptionResult.rows[0]?.count ?? 0) >= campaign.perStudentLimit) {
+					return { valid: false, coupon, appliesSummerPricing: false, error: 'You have already used this coupon the maximum number of times.' };
+				}
+			} else {
+				// Standalone coupons: student may not have used ANY coupon before (one discount per user lifetime restriction)
+				const previousRedemptionResult = await this.pool.query(
+					`
+						SELECT id FROM coupon_redemptions
+						WHERE student_id = $1
+						LIMIT 1
+					`,
+					[studentId]
+				);
 
-			if (previousRedemptionResult.rows.length > 0) {
-				return { valid: false, coupon, appliesSummerPricing: false, error: 'You have already used a coupon code. Each user can only use one coupon code.' };
+				if (previousRedemptionResult.rows.length > 0) {
+					return { valid: false, coupon, appliesSummerPricing: false, error: 'You have already used a coupon code. Each user can only use one coupon code.' };
+				}
 			}
 
 			// Check if student has claimed their deal (claim deal and coupon are mutually exclusive)
@@ -185,6 +291,73 @@ export class CouponRepository {
 		return { valid: true, coupon, appliesSummerPricing };
 	}
 
+	/**
+	 * Eligibility rules of a coupon's campaign, with its current redemption total
+	 */
+	private async findCampaignRules(campaignId: string): Promise<{
+		id: string;
+		isActive: boolean;
+		validFrom: Date | null;
+		validUntil: Date | null;
+		perStudentLimit: number;
+		redemptionCap: number | null;
+		totalRedemptions: number;
+		minSessionCount: number | null;
+		eligibleClassTypes: ClassType[] | null;
+		eligibleCourseIds: string[] | null;
+	} | null> {
+		const result = await this.pool.query(
+			`
+				SELECT
+					cc.id,
+					cc.is_active AS "isActive",
+					cc.valid_from AS "validFrom",
+					cc.valid_until AS "validUntil",
+					cc.per_student_limit AS "perStudentLimit",
+					cc.redemption_cap AS "redemptionCap",
+					cc.min_session_count AS "minSessionCount",
+					cc.eligible_class_types AS "eligibleClassTypes",
+					cc.eligible_course_ids AS "eligibleCourseIds",
+					(
+						SELECT COUNT(*)::int
+						FROM coupon_redemptions cr
+						JOIN coupons c ON c.id = cr.coupon_id
+						WHERE c.campaign_id = cc.id
+					) AS "totalRedemptions"
+				FROM coupon_campaigns cc
+				WHERE cc.id = $1
+			`,
+			[campaignId]
+		);
+
+		return result.rows[0] ?? null;
+	}
+
+	private async recordApplication(
+		couponId: string,
+		studentId: string | null,
+		isValid: boolean,
+		error: string | null
+	): Promise<void> {
+		// Attribution is best-effort and must never block a checkout
+		try {
+			await this.pool.query(
+				`
+					INSERT INTO coupon_applications (coupon_id, student_id, is_valid, error)
+					VALUES ($1, $2, $3, $4)
+				`,
+				[couponId, studentId, isValid, error]
+			);
+		} catch {
+			// Ignore - table may not exist yet on older deployments
+		}
+	}
+
+	/**
+	 * Record a redemption. The coupon row and its campaign row are locked, so concurrent redemptions
+	 * are counted one at a time and the code's max_redemptions, the campaign's redemption_cap and
+	 * per-student limit cannot be exceeded. A repeated payment is reported as a duplicate.
+	 */
 	async recordRedemption(
 		couponId: string,
 		studentId: string,
@@ -192,11 +365,49 @@ export class CouponRepository {
 		paymentId?: string,
 		bookingId?: string,
 		metadata?: Record<string, unknown>
-	): Promise<CouponRedemption> {
+	): Promise<CouponRedemptionOutcome> {
 		const client = await this.pool.connect();
 		try {
 			await client.query('BEGIN');
 
+			const couponResult = await client.query(
+				`
+					SELECT
+						campaign_id AS "campaignId",
+						max_redemptions AS "maxRedemptions",
+						current_redemptions AS "currentRedemptions"
+					FROM coupons
+					WHERE id = $1
+					FOR UPDATE
+				`,
+				[couponId]
+			);
+			const coupon = couponResult.rows[0];
+			if (!coupon) {
+				await client.query('ROLLBACK');
+				return { status: 'rejected', reason: 'Invalid coupon code' };
+			}
+
+			if (paymentId) {
+				const existing = await client.query(
+					`
+						SELECT id FROM coupon_redemptions
+						WHERE coupon_id = $1 AND student_id = $2 AND payment_id = $3
+					`,
+					[couponId, studentId, paymentId]
+				);
+				if (existing.rows.length > 0) {
+					await client.query('ROLLBACK');
+					return { status: 'duplicate' };
+				}
+			}
+
+			const rejection = await this.checkRedemptionLimits(client, coupon, studentId);
+			if (rejection) {
+				await client.query('ROLLBACK');
+				return { status: 'rejected', reason: rejection };
+			}
+
 			// Record redemption
 			const redemptionResult = await client.query(
 				`
@@ -232,7 +443,7 @@ export class CouponRepository {
 
 			await client.query('COMMIT');
 
-			return this.mapRedemptionRow(redemptionResult.rows[0]);
+			return { status: 'recorded', redemption: this.mapRedemptionRow(redemptionResult.rows[0]) };
 		} catch (error) {
 			await client.query('ROLLBACK');
 			throw error;
@@ -241,6 +452,66 @@ export class CouponRepository {
 		}
 	}
 
+	/**
+	 * Caps re-checked inside the redemption transaction; returns the reason when one is reached.
+	 * Campaign rules are read with the campaign row locked so codes of one campaign serialise.
+	 */
+	private async checkRedemptionLimits(
+		client: PoolClient,
+		coupon: { campaignId: string | null; maxRedemptions: number | null; currentRedemptions: number },
+		studentId: string
+	): Promise<string | null> {
+		if (coupon.maxRedemptions && coupon.currentRedemptions >= coupon.maxRedemptions) {
+			return 'Coupon redemption limit reached';
+		}
+
+		if (!coupon.campaignId) {
+			// Standalone coupons: one coupon per student lifetime
+			const previous = await client.query(
+				`SELECT id FROM coupon_redemptions WHERE student_id = $1 LIMIT 1`,
+				[studentId]
+			);
+			return previous.rows.length > 0 ? 'Student has already used a coupon code' : null;
+		}
+
+		const campaignResult = await client.query(
+			`
+				SELECT
+					per_student_limit AS "perStudentLimit",
+					redemption_cap AS "redemptionCap"
+				FROM coupon_campaigns
+				WHERE id = $1
+				FOR UPDATE
+			`,
+			[coupon.campaignId]
+		);
+		const campaign = campaignResult.rows[0];
+		if (!campaign) {
+			return null;
+		}
+
+		const countResult = await client.query(
+			`
+				SELECT
+					COUNT(*)::int AS total,
+					COUNT(*) FILTER (WHERE cr.student_id = $2)::int AS "byStudent"
+				FROM coupon_redemptions cr
+				JOIN coupons c ON c.id = cr.coupon_id
+				WHERE c.campaign_id = $1
+			`,
+			[coupon.campaignId, studentId]
+		);
+		const { total, byStudent } = countResult.rows[0];
+
+		if (campaign.redemptionCap !== null && total >= campaign.redemptionCap) {
+			return 'Coupon redemption limit reached';
+		}
+		if (byStudent >= campaign.perStudentLimit) {
+			return 'Student has already used this coupon the maximum number of times';
+		}
+		return null;
+	}
+
 	private mapRow(row: any): Coupon {
 		return {
 			id: row.id,
@@ -255,6 +526,8 @@ export class CouponRepository {
 			validUntil: row.validUntil,
 			isActive: row.isActive,
 			metadata: row.metadata ? (typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata) : null,
+			campaignId: row.campaignId ?? null,
+			referrerStudentId: row.referrerStudentId ?? null,
 			createdBy: row.createdBy,
 			createdAt: row.createdAt,
 			updatedAt: row.updatedAt,
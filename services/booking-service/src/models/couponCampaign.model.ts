@@ -0,0 +1,529 @@
+/**
+ * Coupon Campaign Model
+ * Groups coupon codes issued to a school, influencer, referrer or promotion
+ *
+ * A campaign owns the eligibility rules for its codes (see CouponRepository.validateCoupon):
+ * - per_student_limit: redemptions allowed per student across all codes in the campaign
+ * - redemption_cap: redemptions allowed across all codes (for school campaigns this is the per-school cap)
+ * - min_session_count: minimum session tier (10/20/30)
+ * - eligible_class_types / eligible_course_ids: NULL means any
+ */
+
+import type { Pool, PoolClient, QueryResult } from 'pg';
+import type { ClassType } from './pricingConfig.model';
+import type { CouponType, DiscountType } from './coupon.model';
+
+export interface CouponCampaign {
+	id: string;
+	name: string;
+	couponType: CouponType;
+	ownerName: string | null;
+	ownerContact: string | null;
+	description: string | null;
+	perStudentLimit: number;
+	redemptionCap: number | null;
+	minSessionCount: number | null;
+	eligibleClassTypes: ClassType[] | null;
+	eligibleCourseIds: string[] | null;
+	validFrom: Date | null;
+	validUntil: Date | null;
+	isActive: boolean;
+	metadata: Record<string, unknown> | null;
+	createdBy: string | null;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+export interface CouponCampaignCreateInput {
+	name: string;
+	couponType: CouponType;
+	ownerName?: string | null;
+	ownerContact?: string | null;
+	description?: string | null;
+	perStudentLimit?: number;
+	redemptionCap?: number | null;
+	minSessionCount?: number | null;
+	eligibleClassTypes?: ClassType[] | null;
+	eligibleCourseIds?: string[] | null;
+	validFrom?: Date | null;
+	validUntil?: Date | null;
+	isActive?: boolean;
+	metadata?: Record<string, unknown> | null;
+	createdBy?: string | null;
+}
+
+export type CouponCampaignUpdateInput = Partial<Omit<CouponCampaignCreateInput, 'couponType' | 'createdBy'>>;
+
+export interface CampaignCodeInput {
+	code: string;
+	referrerStudentId?: string | null;
+}
+
+export interface CampaignCodeOptions {
+	discountType: DiscountType;
+	discountValue: number | null;
+	maxRedemptionsPerCode: number | null;
+	validFrom: Date;
+	validUntil: Date;
+	createdBy?: string | null;
+}
+
+export interface CampaignAttributionRow {
+	campaignId: string;
+	campaignName: string;
+	couponType: CouponType;
+	ownerName: string | null;
+	codesIssued: number;
+	applications: number;
+	studentsApplied: number;
+	redemptions: number;
+	studentsRedeemed: number;
+	discountGiven: number;
+	revenue: number;
+	conversionRate: number;
+}
+
+export interface CodeAttributionRow {
+	couponId: string;
+	code: string;
+	referrerStudentId: string | null;
+	applications: number;
+	redemptions: number;
+	discountGiven: number;
+	revenue: number;
+}
+
+const CAMPAIGN_COLUMNS = `
+	id,
+	name,
+	coupon_type AS "couponType",
+	owner_name AS "ownerName",
+	owner_contact AS "ownerContact",
+	description,
+	per_student_limit AS "perStudentLimit",
+	redemption_cap AS "redemptionCap",
+	min_session_count AS "minSessionCount",
+	eligible_class_types AS "eligibleClassTypes",
+	eligible_course_ids AS "eligibleCourseIds",
+	valid_from AS "validFrom",
+	valid_until AS "validUntil",
+	is_active AS "isActive",
+	metadata,
+	created_by AS "createdBy",
+	created_at AS "createdAt",
+	updated_at AS "updatedAt"
+`;
+
+const UPDATABLE_COLUMNS: Record<keyof CouponCampaignUpdateInput, string> = {
+	name: 'name',
+	ownerName: 'owner_name',
+	ownerContact: 'owner_contact',
+	description: 'description',
+	perStudentLimit: 'per_student_limit',
+	redemptionCap: 'redemption_cap',
+	minSessionCount: 'min_session_count',
+	eligibleClassTypes: 'eligible_class_types',
+	eligibleCourseIds: 'eligible_course_ids',
+	validFrom: 'valid_from',
+	validUntil: 'valid_until',
+	isActive: 'is_active',
+	metadata: 'metadata',
+};
+
+function executeQuery<T extends Record<string, any> = any>(
+	pool: Pool,
+	client: PoolClient | undefined,
+	text: string,
+	params: any[] = []
+): Promise<QueryResult<T>> {
+	if (client) {
+		return client.query<T>(text, params);
+	}
+	return pool.query<T>(text, params);
+}
+
+function mapRow(row: any): CouponCampaign {
+	return {
+		id: row.id,
+		name: row.name,
+		couponType: row.couponType,
+		ownerName: row.ownerName,
+		ownerContact: row.ownerContact,
+		description: row.description,
+		perStudentLimit: row.perStudentLimit,
+		redemptionCap: row.redemptionCap,
+		minSessionCount: row.minSessionCount,
+		eligibleClassTypes: row.eligibleClassTypes,
+		eligibleCourseIds: row.eligibleCourseIds,
+		validFrom: row.validFrom,
+		validUntil: row.validUntil,
+		isActive: row.isActive,
+		metadata: row.metadata ? (typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata) : null,
+		createdBy: row.createdBy,
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt,
+	};
+}
+
+export async function ensureCouponCampaignTable(poolOrClient: Pool | PoolClient): Promise<void> {
+	const queryFn = (text: string, params?: any[]) => {
+		return poolOrClient.query(text, params);
+	};
+
+	await queryFn(`
+		CREATE TABLE IF NOT EXISTS coupon_campaigns (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			name TEXT UNIQUE NOT NULL,
+			coupon_type TEXT NOT NULL CHECK (coupon_type IN ('school', 'influencer', 'promotional', 'referral')),
+			owner_name TEXT,
+			owner_contact TEXT,
+			description TEXT,
+			per_student_limit INTEGER NOT NULL DEFAULT 1 CHECK (per_student_limit > 0),
+			redemption_cap INTEGER CHECK (redemption_cap IS NULL OR redemption_cap > 0),
+			min_session_count INTEGER CHECK (min_session_count IS NULL OR min_session_count IN (10, 20, 30)),
+			eligible_class_types TEXT[],
+			eligible_course_ids UUID[],
+			valid_from TIMESTAMPTZ,
+			valid_until TIMESTAMPTZ,
+			is_active BOOLEAN NOT NULL DEFAULT true,
+			metadata JSONB,
+			created_by UUID,
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+			updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+			CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from)
+		);
+	`);
+
+	await queryFn(`
+		CREATE INDEX IF NOT EXISTS idx_coupon_campaigns_type ON coupon_campaigns(coupon_type);
+		CREATE INDEX IF NOT EXISTS idx_coupon_campaigns_active ON coupon_campaigns(is_active) WHERE is_active = true;
+	`);
+}
+
+export class CouponCampaignRepository {
+	constructor(private readonly pool: Pool) {}
+
+	async create(input: CouponCampaignCreateInput, client?: PoolClient): Promise<CouponCampaign> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				INSERT INTO coupon_campaigns (
+					name, coupon_type, owner_name, owner_contact, description,
+					per_student_limit, redemption_cap, min_session_count,
+					eligible_class_types, eligible_course_ids, valid_from, valid_until,
+					is_active, metadata, created_by
+				)
+				VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+				RETURNING ${CAMPAIGN_COLUMNS}
+			`,
+			[
+				input.name,
+				input.couponType,
+				input.ownerName ?? null,
+				input.ownerContact ?? null,
+				input.description ?? null,
+				input.perStudentLimit ?? 1,
+				input.redemptionCap ?? null,
+				input.minSessionCount ?? null,
+				input.eligibleClassTypes ?? null,
+				input.eligibleCourseIds ?? null,
+				input.validFrom ?? null,
+				input.validUntil ?? null,
+				input.isActive ?? true,
+				input.metadata ? JSON.stringify(input.metadata) : null,
+				input.createdBy ?? null,
+			]
+		);
+
+		return mapRow(result.rows[0]);
+	}
+
+	async findById(id: string, client?: PoolClient): Promise<CouponCampaign | null> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`SELECT ${CAMPAIGN_COLUMNS} FROM coupon_campaigns WHERE id = $1`,
+			[id]
+		);
+
+		if (!result.rows.length) {
+			return null;
+		}
+
+		return mapRow(result.rows[0]);
+	}
+
+	async findAll(filters?: {
+		couponType?: CouponType;
+		isActive?: boolean;
+		limit?: number;
+		offset?: number;
+	}, client?: PoolClient): Promise<CouponCampaign[]> {
+		const conditions: string[] = [];
+		const params: any[] = [];
+		let paramIdx = 1;
+
+		if (filters?.couponType) {
+			conditions.push(`coupon_type = $${paramIdx++}`);
+			params.push(filters.couponType);
+		}
+
+		if (filters?.isActive !== undefined) {
+			conditions.push(`is_active = $${paramIdx++}`);
+			params.push(filters.isActive);
+		}
+
+		const whereClause = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				SELECT ${CAMPAIGN_COLUMNS}
+				FROM coupon_campaigns
+				${whereClause}
+				ORDER BY created_at DESC
+				LIMIT $${paramIdx++} OFFSET $${paramIdx++}
+			`,
+			[...params, filters?.limit ?? 100, filters?.offset ?? 0]
+		);
+
+		return result.rows.map(mapRow);
+	}
+
+	async update(id: string, input: CouponCampaignUpdateInput, client?: PoolClient): Promise<CouponCampaign | null> {
+		const setClauses: string[] = [];
+		const params: any[] = [];
+		let paramIdx = 1;
+
+		for (const [key, column] of Object.entries(UPDATABLE_COLUMNS) as Array<[keyof CouponCampaignUpdateInput, string]>) {
+			const value = input[key];
+			if (value === undefined) {
+				continue;
+			}
+			setClauses.push(`${column} = $${paramIdx++}`);
+			params.push(key === 'metadata' && value !== null ? JSON.stringify(value) : value);
+		}
+
+		if (!setClauses.length) {
+			return this.findById(id, client);
+		}
+
+		setClauses.push('updated_at = NOW()');
+		params.push(id);
+
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				UPDATE coupon_campaigns
+				SET ${setClauses.join(', ')}
+				WHERE id = $${paramIdx}
+				RETURNING ${CAMPAIGN_COLUMNS}
+			`,
+			params
+		);
+
+		if (!result.rows.length) {
+			return null;
+		}
+
+		return mapRow(result.rows[0]);
+	}
+
+	/**
+	 * Insert campaign codes in one statement. Codes that already exist are skipped
+	 * and the inserted codes are returned so callers can retry collisions.
+	 */
+	async insertCodes(
+		campaign: CouponCampaign,
+		codes: CampaignCodeInput[],
+		options: CampaignCodeOptions,
+		client?: PoolClient
+	): Promise<Array<{ id: string; code: string; referrerStudentId: string | null }>> {
+		if (!codes.length) {
+			return [];
+		}
+
+		const values: string[] = [];
+		const params: any[] = [];
+		let paramIdx = 1;
+
+		for (const entry of codes) {
+			values.push(
+				`($${paramIdx++}, $${paramIdx++}, $${paramIdx++}, $${paramIdx++}, $${paramIdx++}, $${paramIdx++}, $${paramIdx++}, $${paramIdx++}, $${paramIdx++}, $${paramIdx++}, $${paramIdx++})`
+			);
+			params.push(
+				entry.code,
+				campaign.name,
+				campaign.couponType,
+				options.discountType,
+				options.discountValue,
+				options.maxRedemptionsPerCode,
+				options.validFrom,
+				options.validUntil,
+				campaign.id,
+				entry.referrerStudentId ?? null,
+				options.createdBy ?? null
+			);
+		}
+
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				INSERT INTO coupons (
+					code, name, type, discount_type, discount_value, max_redemptions,
+					valid_from, valid_until, campaign_id, referrer_student_id, created_by
+				)
+				VALUES ${values.join(', ')}
+				ON CONFLICT (code) DO NOTHING
+				RETURNING id, code, referrer_student_id AS "referrerStudentId"
+			`,
+			params
+		);
+
+		return result.rows;
+	}
+
+	/**
+	 * Attribution per campaign: applications (validation attempts), redemptions,
+	 * discount given, revenue from the linked payments and application→redemption conversion.
+	 */
+	async getAttribution(filters: {
+		from?: Date;
+		to?: Date;
+		couponType?: CouponType;
+		campaignId?: string;
+	}, client?: PoolClient): Promise<CampaignAttributionRow[]> {
+		const conditions: string[] = [];
+		const params: any[] = [filters.from ?? null, filters.to ?? null];
+		let paramIdx = 3;
+
+		if (filters.couponType) {
+			conditions.push(`cc.coupon_type = $${paramIdx++}`);
+			params.push(filters.couponType);
+		}
+
+		if (filters.campaignId) {
+			conditions.push(`cc.id = $${paramIdx++}`);
+			params.push(filters.campaignId);
+		}
+
+		const whereClause = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				WITH applications AS (
+					SELECT c.campaign_id,
+						COUNT(*)::int AS applications,
+						COUNT(DISTINCT ca.student_id)::int AS students_applied
+					FROM coupon_applications ca
+					JOIN coupons c ON c.id = ca.coupon_id
+					WHERE c.campaign_id IS NOT NULL
+						AND ($1::timestamptz IS NULL OR ca.created_at >= $1)
+						AND ($2::timestamptz IS NULL OR ca.created_at <= $2)
+					GROUP BY c.campaign_id
+				),
+				redemptions AS (
+					SELECT c.campaign_id,
+						COUNT(*)::int AS redemptions,
+						COUNT(DISTINCT cr.student_id)::int AS students_redeemed,
+						COALESCE(SUM(cr.discount_applied), 0)::numeric AS discount_given,
+						COALESCE(SUM(p.amount_cents) FILTER (WHERE p.status = 'succeeded'), 0)::bigint AS revenue_cents
+					FROM coupon_redemptions cr
+					JOIN coupons c ON c.id = cr.coupon_id
+					LEFT JOIN payments p ON p.id = cr.payment_id
+					WHERE c.campaign_id IS NOT NULL
+						AND ($1::timestamptz IS NULL OR cr.redeemed_at >= $1)
+						AND ($2::timestamptz IS NULL OR cr.redeemed_at <= $2)
+					GROUP BY c.campaign_id
+				),
+				codes AS (
+					SELECT campaign_id, COUNT(*)::int AS codes_issued
+					FROM coupons
+					WHERE campaign_id IS NOT NULL
+					GROUP BY campaign_id
+				)
+				SELECT
+					cc.id AS "campaignId",
+					cc.name AS "campaignName",
+					cc.coupon_type AS "couponType",
+					cc.owner_name AS "ownerName",
+					COALESCE(codes.codes_issued, 0) AS "codesIssued",
+					COALESCE(a.applications, 0) AS "applications",
+					COALESCE(a.students_applied, 0) AS "studentsApplied",
+					COALESCE(r.redemptions, 0) AS "redemptions",
+					COALESCE(r.students_redeemed, 0) AS "studentsRedeemed",
+					COALESCE(r.discount_given, 0) AS "discountGiven",
+					COALESCE(r.revenue_cents, 0) AS "revenueCents"
+				FROM coupon_campaigns cc
+				LEFT JOIN codes ON codes.campaign_id = cc.id
+				LEFT JOIN applications a ON a.campaign_id = cc.id
+				LEFT JOIN redemptions r ON r.campaign_id = cc.id
+				${whereClause}
+				ORDER BY COALESCE(r.revenue_cents, 0) DESC, cc.created_at DESC
+			`,
+			params
+		);
+
+		return result.rows.map((row: any) => {
+			const studentsApplied = Number(row.studentsApplied);
+			const studentsRedeemed = Number(row.studentsRedeemed);
+			return {
+				campaignId: row.campaignId,
+				campaignName: row.campaignName,
+				couponType: row.couponType,
+				ownerName: row.ownerName,
+				codesIssued: Number(row.codesIssued),
+				applications: Number(row.applications),
+				studentsApplied,
+				redemptions: Number(row.redemptions),
+				studentsRedeemed,
+				discountGiven: parseFloat(row.discountGiven),
+				revenue: Number(row.revenueCents) / 100,
+				conversionRate: studentsApplied > 0 ? Math.round((studentsRedeemed / studentsApplied) * 10000) / 100 : 0,
+			};
+		});
+	}
+
+	/**
+	 * Per-code breakdown for one campaign (useful for referral campaigns where each code is one referrer)
+	 */
+	async getCodeAttribution(campaignId: string, client?: PoolClient): Promise<CodeAttributionRow[]> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				SELECT
+					c.id AS "couponId",
+					c.code,
+					c.referrer_student_id AS "referrerStudentId",
+					(SELECT COUNT(*)::int FROM coupon_applications ca WHERE ca.coupon_id = c.id) AS "applications",
+					COUNT(cr.id)::int AS "redemptions",
+					COALESCE(SUM(cr.discount_applied), 0) AS "discountGiven",
+					COALESCE(SUM(p.amount_cents) FILTER (WHERE p.status = 'succeeded'), 0)::bigint AS "revenueCents"
+				FROM coupons c
+				LEFT JOIN coupon_redemptions cr ON cr.coupon_id = c.id
+				LEFT JOIN payments p ON p.id = cr.payment_id
+				WHERE c.campaign_id = $1
+				GROUP BY c.id
+				ORDER BY COUNT(cr.id) DESC, c.code ASC
+			`,
+			[campaignId]
+		);
+
+		return result.rows.map((row: any) => ({
+			couponId: row.couponId,
+			code: row.code,
+			referrerStudentId: row.referrerStudentId,
+			applications: Number(row.applications),
+			redemptions: Number(row.redemptions),
+			discountGiven: parseFloat(row.discountGiven),
+			revenue: Number(row.revenueCents) / 100,
+		}));
+	}
+}
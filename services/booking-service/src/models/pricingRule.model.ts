@@ -0,0 +1,387 @@
+/**
+ * Pricing Rule Model
+ * Stores the discount and price-override rules evaluated by the pricing engine
+ *
+ * pricing_config holds the official base price per class type. pricing_rules
+ * holds everything that adjusts it: coupon discounts, the claim-deal welcome
+ * offer, seasonal promos and regional price overrides. Each rule carries a
+ * priority, an optional date window, an optional city/zone/franchise scope,
+ * optional class type / course / session-tier conditions and a stacking mode.
+ */
+
+import type { Pool, PoolClient, QueryResult } from 'pg';
+import type { ClassType } from './pricingConfig.model';
+
+export type PricingRuleTrigger = 'automatic' | 'coupon' | 'claim_deal';
+export type PricingRuleAdjustmentType = 'fixed_discount' | 'percentage_discount' | 'price_override';
+export type PricingRuleStacking = 'exclusive' | 'stackable';
+
+export const PRICING_RULE_TRIGGERS: readonly PricingRuleTrigger[] = ['automatic', 'coupon', 'claim_deal'];
+export const PRICING_RULE_ADJUSTMENT_TYPES: readonly PricingRuleAdjustmentType[] = [
+	'fixed_discount',
+	'percentage_discount',
+	'price_override',
+];
+export const PRICING_RULE_STACKING_MODES: readonly PricingRuleStacking[] = ['exclusive', 'stackable'];
+
+export interface PricingRule {
+	id: string;
+	name: string;
+	description: string | null;
+	trigger: PricingRuleTrigger;
+	adjustmentType: PricingRuleAdjustmentType;
+	adjustmentValue: number;
+	priority: number;
+	stacking: PricingRuleStacking;
+	classTypes: ClassType[] | null;
+	courseIds: string[] | null;
+	sessionCounts: number[] | null;
+	couponTypes: string[] | null;
+	couponCodes: string[] | null;
+	cityId: string | null;
+	zoneId: string | null;
+	franchiseId: string | null;
+	validFrom: Date | null;
+	validUntil: Date | null;
+	isActive: boolean;
+	metadata: Record<string, unknown> | null;
+	createdBy: string | null;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+export interface PricingRuleCreateInput {
+	name: string;
+	description?: string | null;
+	trigger: PricingRuleTrigger;
+	adjustmentType: PricingRuleAdjustmentType;
+	adjustmentValue: number;
+	priority?: number;
+	stacking?: PricingRuleStacking;
+	classTypes?: ClassType[] | null;
+	courseIds?: string[] | null;
+	sessionCounts?: number[] | null;
+	couponTypes?: string[] | null;
+	couponCodes?: string[] | null;
+	cityId?: string | null;
+	zoneId?: string | null;
+	franchiseId?: string | null;
+	validFrom?: Date | null;
+	validUntil?: Date | null;
+	isActive?: boolean;
+	metadata?: Record<string, unknown> | null;
+	createdBy?: string | null;
+}
+
+export type PricingRuleUpdateInput = Partial<Omit<PricingRuleCreateInput, 'createdBy'>>;
+
+const PRICING_RULE_COLUMNS = `
+	id,
+	name,
+	description,
+	trigger,
+	adjustment_type AS "adjustmentType",
+	adjustment_value AS "adjustmentValue",
+	priority,
+	stacking,
+	class_types AS "classTypes",
+	course_ids AS "courseIds",
+	session_counts AS "sessionCounts",
+	coupon_types AS "couponTypes",
+	coupon_codes AS "couponCodes",
+	city_id AS "cityId",
+	zone_id AS "zoneId",
+	franchise_id AS "franchiseId",
+	valid_from AS "validFrom",
+	valid_until AS "validUntil",
+	is_active AS "isActive",
+	metadata,
+	created_by AS "createdBy",
+	created_at AS "createdAt",
+	updated_at AS "updatedAt"
+`;
+
+/**
+ * Maps camelCase input keys to their column names for dynamic UPDATEs
+ */
+const UPDATABLE_COLUMNS: Record<keyof PricingRuleUpdateInput, string> = {
+	name: 'name',
+	description: 'description',
+	trigger: 'trigger',
+	adjustmentType: 'adjustment_type',
+	adjustmentValue: 'adjustment_value',
+	priority: 'priority',
+	stacking: 'stacking',
+	classTypes: 'class_types',
+	courseIds: 'course_ids',
+	sessionCounts: 'session_counts',
+	couponTypes: 'coupon_types',
+	couponCodes: 'coupon_codes',
+	cityId: 'city_id',
+	zoneId: 'zone_id',
+	franchiseId: 'franchise_id',
+	validFrom: 'valid_from',
+	validUntil: 'valid_until',
+	isActive: 'is_active',
+	metadata: 'metadata',
+};
+
+function executeQuery<T extends Record<string, any> = any>(
+	pool: Pool,
+	client: PoolClient | undefined,
+	text: string,
+	params: any[] = []
+): Promise<QueryResult<T>> {
+	if (client) {
+		return client.query<T>(text, params);
+	}
+	return pool.query<T>(text, params);
+}
+
+function mapRow(row: any): PricingRule {
+	return {
+		id: row.id,
+		name: row.name,
+		description: row.description,
+		trigger: row.trigger,
+		adjustmentType: row.adjustmentType,
+		adjustmentValue: parseFloat(row.adjustmentValue),
+		priority: row.priority,
+		stacking: row.stacking,
+		classTypes: row.classTypes,
+		courseIds: row.courseIds,
+		sessionCounts: row.sessionCounts,
+		couponTypes: row.couponTypes,
+		couponCodes: row.couponCodes,
+		cityId: row.cityId,
+		zoneId: row.zoneId,
+		franchiseId: row.franchiseId,
+		validFrom: row.validFrom,
+		validUntil: row.validUntil,
+		isActive: row.isActive,
+		metadata: row.metadata ? (typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata) : null,
+		createdBy: row.createdBy,
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt,
+	};
+}
+
+export async function ensurePricingRuleTable(poolOrClient: Pool | PoolClient): Promise<void> {
+	const queryFn = (text: string, params?: any[]) => {
+		return poolOrClient.query(text, params);
+	};
+
+	await queryFn(`
+		CREATE TABLE IF NOT EXISTS pricing_rules (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			name TEXT UNIQUE NOT NULL,
+			description TEXT,
+			trigger TEXT NOT NULL CHECK (trigger IN ('automatic', 'coupon', 'claim_deal')),
+			adjustment_type TEXT NOT NULL CHECK (adjustment_type IN ('fixed_discount', 'percentage_discount', 'price_override')),
+			adjustment_value NUMERIC(10, 2) NOT NULL CHECK (adjustment_value >= 0),
+			priority INTEGER NOT NULL DEFAULT 0,
+			stacking TEXT NOT NULL DEFAULT 'exclusive' CHECK (stacking IN ('exclusive', 'stackable')),
+			class_types TEXT[],
+			course_ids UUID[],
+			session_counts INTEGER[],
+			coupon_types TEXT[],
+			coupon_codes TEXT[],
+			city_id UUID,
+			zone_id UUID,
+			franchise_id UUID,
+			valid_from TIMESTAMPTZ,
+			valid_until TIMESTAMPTZ,
+			is_active BOOLEAN NOT NULL DEFAULT true,
+			metadata JSONB,
+			created_by UUID,
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+			updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+			CHECK (valid_until IS NULL OR valid_from IS NULL OR valid_until > valid_from),
+			CHECK (adjustment_type <> 'percentage_discount' OR adjustment_value <= 100)
+		);
+	`);
+
+	await queryFn(`
+		CREATE INDEX IF NOT EXISTS idx_pricing_rules_active ON pricing_rules(is_active, priority DESC) WHERE is_active = true;
+		CREATE INDEX IF NOT EXISTS idx_pricing_rules_trigger ON pricing_rules(trigger);
+		CREATE INDEX IF NOT EXISTS idx_pricing_rules_city ON pricing_rules(city_id) WHERE city_id IS NOT NULL;
+		CREATE INDEX IF NOT EXISTS idx_pricing_rules_zone ON pricing_rules(zone_id) WHERE zone_id IS NOT NULL;
+		CREATE INDEX IF NOT EXISTS idx_pricing_rules_franchise ON pricing_rules(franchise_id) WHERE franchise_id IS NOT NULL;
+	`);
+}
+
+export class PricingRuleRepository {
+	constructor(private readonly pool: Pool) {}
+
+	/**
+	 * Active rules whose date window contains the given date.
+	 * Scope and condition matching happens in the rule engine so that
+	 * evaluation stays testable without a database.
+	 */
+	async findActiveRules(date: Date = new Date(), client?: PoolClient): Promise<PricingRule[]> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				SELECT ${PRICING_RULE_COLUMNS}
+				FROM pricing_rules
+				WHERE is_active = true
+					AND (valid_from IS NULL OR valid_from <= $1)
+					AND (valid_until IS NULL OR valid_until >= $1)
+				ORDER BY priority DESC, created_at ASC
+			`,
+			[date]
+		);
+
+		return result.rows.map(mapRow);
+	}
+
+	async findAll(filters?: {
+		isActive?: boolean;
+		trigger?: PricingRuleTrigger;
+		cityId?: string;
+		limit?: number;
+		offset?: number;
+	}, client?: PoolClient): Promise<PricingRule[]> {
+		const conditions: string[] = [];
+		const params: any[] = [];
+		let paramIdx = 1;
+
+		if (filters?.isActive !== undefined) {
+			conditions.push(`is_active = $${paramIdx++}`);
+			params.push(filters.isActive);
+		}
+
+		if (filters?.trigger) {
+			conditions.push(`trigger = $${paramIdx++}`);
+			params.push(filters.trigger);
+		}
+
+		if (filters?.cityId) {
+			conditions.push(`city_id = $${paramIdx++}`);
+			params.push(filters.cityId);
+		}
+
+		const whereClause = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+		const limit = filters?.limit ?? 100;
+		const offset = filters?.offset ?? 0;
+
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				SELECT ${PRICING_RULE_COLUMNS}
+				FROM pricing_rules
+				${whereClause}
+				ORDER BY priority DESC, created_at ASC
+				LIMIT $${paramIdx++} OFFSET $${paramIdx++}
+			`,
+			[...params, limit, offset]
+		);
+
+		return result.rows.map(mapRow);
+	}
+
+	async findById(id: string, client?: PoolClient): Promise<PricingRule | null> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`SELECT ${PRICING_RULE_COLUMNS} FROM pricing_rules WHERE id = $1`,
+			[id]
+		);
+
+		if (!result.rows.length) {
+			return null;
+		}
+
+		return mapRow(result.rows[0]);
+	}
+
+	async create(input: PricingRuleCreateInput, client?: PoolClient): Promise<PricingRule> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				INSERT INTO pricing_rules (
+					name, description, trigger, adjustment_type, adjustment_value,
+					priority, stacking, class_types, course_ids, session_counts,
+					coupon_types, coupon_codes, city_id, zone_id, franchise_id,
+					valid_from, valid_until, is_active, metadata, created_by
+				)
+				VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20)
+				RETURNING ${PRICING_RULE_COLUMNS}
+			`,
+			[
+				input.name,
+				input.description ?? null,
+				input.trigger,
+				input.adjustmentType,
+				input.adjustmentValue,
+				input.priority ?? 0,
+				input.stacking ?? 'exclusive',
+				input.classTypes ?? null,
+				input.courseIds ?? null,
+				input.sessionCounts ?? null,
+				input.couponTypes ?? null,
+				input.couponCodes ?? null,
+				input.cityId ?? null,
+				input.zoneId ?? null,
+				input.franchiseId ?? null,
+				input.validFrom ?? null,
+				input.validUntil ?? null,
+				input.isActive ?? true,
+				input.metadata ? JSON.stringify(input.metadata) : null,
+				input.createdBy ?? null,
+			]
+		);
+
+		return mapRow(result.rows[0]);
+	}
+
+	async update(id: string, input: PricingRuleUpdateInput, client?: PoolClient): Promise<PricingRule | null> {
+		const setClauses: string[] = [];
+		const params: any[] = [];
+		let paramIdx = 1;
+
+		for (const [key, column] of Object.entries(UPDATABLE_COLUMNS) as Array<[keyof PricingRuleUpdateInput, string]>) {
+			const value = input[key];
+			if (value === undefined) {
+				continue;
+			}
+			setClauses.push(`${column} = $${paramIdx++}`);
+			params.push(key === 'metadata' && value !== null ? JSON.stringify(value) : value);
+		}
+
+		if (!setClauses.length) {
+			return this.findById(id, client);
+		}
+
+		setClauses.push('updated_at = NOW()');
+		params.push(id);
+
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				UPDATE pricing_rules
+				SET ${setClauses.join(', ')}
+				WHERE id = $${paramIdx}
+				RETURNING ${PRICING_RULE_COLUMNS}
+			`,
+			params
+		);
+
+		if (!result.rows.length) {
+			return null;
+		}
+
+		return mapRow(result.rows[0]);
+	}
+
+	/**
+	 * Rules are deactivated rather than deleted so historical prices stay explainable
+	 */
+	async deactivate(id: string, client?: PoolClient): Promise<PricingRule | null> {
+		return this.update(id, { isActive: false }, client);
+	}
+}
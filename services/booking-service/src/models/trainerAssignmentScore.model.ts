@@ -0,0 +1,144 @@
+/**
+ * Trainer Assignment Score Model
+ * Why auto-assignment picked a trainer: the weights used and the ranked candidates with
+ * per-factor scores. One row per auto-assignment attempt (including waitlisted ones).
+ */
+
+import type { Pool, PoolClient, QueryResult } from 'pg';
+import type { MatchContext, MatchWeights, TrainerMatchScore } from '../utils/trainerMatchScore';
+
+export interface TrainerAssignmentScore {
+	id: string;
+	purchaseId: string;
+	bookingId: string;
+	selectedTrainerId: string | null;
+	cityId: string | null;
+	weightsSource: string;
+	weights: MatchWeights;
+	context: MatchContext;
+	candidates: TrainerMatchScore[];
+	summary: string | null;
+	createdAt: Date;
+}
+
+export type TrainerAssignmentScoreCreateInput = Omit<TrainerAssignmentScore, 'id' | 'createdAt'>;
+
+const SCORE_COLUMNS = `
+	id,
+	purchase_id AS "purchaseId",
+	booking_id AS "bookingId",
+	selected_trainer_id AS "selectedTrainerId",
+	city_id AS "cityId",
+	weights_source AS "weightsSource",
+	weights,
+	context,
+	candidates,
+	summary,
+	created_at AS "createdAt"
+`;
+
+function executeQuery<T extends Record<string, any> = any>(
+	pool: Pool,
+	client: PoolClient | undefined,
+	text: string,
+	params: any[] = []
+): Promise<QueryResult<T>> {
+	if (client) {
+		return client.query<T>(text, params);
+	}
+	return pool.query<T>(text, params);
+}
+
+function parseJson<T>(value: unknown): T {
+	return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+}
+
+function mapRow(row: any): TrainerAssignmentScore {
+	return {
+		id: row.id,
+		purchaseId: row.purchaseId,
+		bookingId: row.bookingId,
+		selectedTrainerId: row.selectedTrainerId || null,
+		cityId: row.cityId || null,
+		weightsSource: row.weightsSource,
+		weights: parseJson<MatchWeights>(row.weights),
+		context: parseJson<MatchContext>(row.context),
+		candidates: parseJson<TrainerMatchScore[]>(row.candidates) || [],
+		summary: row.summary,
+		createdAt: row.createdAt,
+	};
+}
+
+export async function ensureTrainerAssignmentScoreTable(poolOrClient: Pool | PoolClient): Promise<void> {
+	const queryFn = (text: string, params?: any[]) => {
+		return poolOrClient.query(text, params);
+	};
+
+	await queryFn(`
+		CREATE TABLE IF NOT EXISTS trainer_assignment_scores (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			purchase_id UUID NOT NULL,
+			booking_id UUID NOT NULL,
+			selected_trainer_id UUID,
+			city_id UUID,
+			weights_source TEXT NOT NULL,
+			weights JSONB NOT NULL,
+			context JSONB NOT NULL,
+			candidates JSONB NOT NULL DEFAULT '[]'::jsonb,
+			summary TEXT,
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+	`);
+
+	await queryFn(`
+		CREATE INDEX IF NOT EXISTS idx_trainer_assignment_scores_purchase ON trainer_assignment_scores(purchase_id, created_at DESC);
+		CREATE INDEX IF NOT EXISTS idx_trainer_assignment_scores_trainer ON trainer_assignment_scores(selected_trainer_id)
+			WHERE selected_trainer_id IS NOT NULL;
+	`);
+}
+
+export class TrainerAssignmentScoreRepository {
+	constructor(private readonly pool: Pool) {}
+
+	async create(input: TrainerAssignmentScoreCreateInput, client?: PoolClient): Promise<TrainerAssignmentScore> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				INSERT INTO trainer_assignment_scores (
+					purchase_id, booking_id, selected_trainer_id, city_id, weights_source, weights, context, candidates, summary
+				)
+				VALUES ($1, $2, $3, $4, $5, $6::jsonb, $7::jsonb, $8::jsonb, $9)
+				RETURNING ${SCORE_COLUMNS}
+			`,
+			[
+				input.purchaseId,
+				input.bookingId,
+				input.selectedTrainerId,
+				input.cityId,
+				input.weightsSource,
+				JSON.stringify(input.weights),
+				JSON.stringify(input.context),
+				JSON.stringify(input.candidates),
+				input.summary,
+			]
+		);
+		return mapRow(result.rows[0]);
+	}
+
+	async findLatestByPurchaseId(purchaseId: string, client?: PoolClient): Promise<TrainerAssignmentScore | null> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				SELECT ${SCORE_COLUMNS}
+				FROM trainer_assignment_scores
+				WHERE purchase_id = $1
+				ORDER BY created_at DESC
+				LIMIT 1
+			`,
+			[purchaseId]
+		);
+		return result.rows[0] ? mapRow(result.rows[0]) : null;
+	}
+}
@@ -0,0 +1,213 @@
+/**
+ * Trainer Matching Weights Model
+ * Per-city weights for the auto-assignment match score (see utils/trainerMatchScore)
+ *
+ * A row with city_id NULL holds the platform default. Weights stored here are merged over
+ * DEFAULT_MATCH_WEIGHTS, so a city only needs to list the factors it changes.
+ */
+
+import type { Pool, PoolClient, QueryResult } from 'pg';
+import {
+	DEFAULT_MATCH_WEIGHTS,
+	MATCH_FACTORS,
+	type MatchFactor,
+	type MatchWeights,
+} from '../utils/trainerMatchScore';
+
+export interface TrainerMatchingWeights {
+	id: string;
+	cityId: string | null;
+	weights: Partial<MatchWeights>;
+	maxTravelKm: number | null;
+	updatedBy: string | null;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+export interface EffectiveMatchingWeights {
+	weights: MatchWeights;
+	maxTravelKm: number | null;
+	/** Where the weights came from: the city's row, the default row, or built-in defaults */
+	source: 'city' | 'default' | 'builtin';
+	cityId: string | null;
+}
+
+export interface TrainerMatchingWeightsUpsertInput {
+	cityId: string | null;
+	weights: Partial<MatchWeights>;
+	maxTravelKm?: number | null;
+	updatedBy?: string | null;
+}
+
+const WEIGHTS_COLUMNS = `
+	id,
+	city_id AS "cityId",
+	weights,
+	max_travel_km AS "maxTravelKm",
+	updated_by AS "updatedBy",
+	created_at AS "createdAt",
+	updated_at AS "updatedAt"
+`;
+
+function executeQuery<T extends Record<string, any> = any>(
+	pool: Pool,
+	client: PoolClient | undefined,
+	text: string,
+	params: any[] = []
+): Promise<QueryResult<T>> {
+	if (client) {
+		return client.query<T>(text, params);
+	}
+	return pool.query<T>(text, params);
+}
+
+/**
+ * Keep only known factors with finite, non-negative values
+ */
+export function sanitizeMatchWeights(raw: unknown): Partial<MatchWeights> {
+	const weights: Partial<MatchWeights> = {};
+	if (!raw || typeof raw !== 'object') {
+		return weights;
+	}
+	for (const factor of MATCH_FACTORS) {
+		const value = Number((raw as Record<string, unknown>)[factor]);
+		if ((raw as Record<string, unknown>)[factor] !== undefined && Number.isFinite(value) && value >= 0) {
+			weights[factor as MatchFactor] = value;
+		}
+	}
+	return weights;
+}
+
+function mapRow(row: any): TrainerMatchingWeights {
+	const weights = typeof row.weights === 'string' ? JSON.parse(row.weights) : row.weights;
+	return {
+		id: row.id,
+		cityId: row.cityId || null,
+		weights: sanitizeMatchWeights(weights),
+		maxTravelKm: row.maxTravelKm === null ? null : parseFloat(row.maxTravelKm),
+		updatedBy: row.updatedBy || null,
+		createdAt: row.createdAt,
+		updatedAt: row.updatedAt,
+	};
+}
+
+export async function ensureTrainerMatchingWeightsTable(poolOrClient: Pool | PoolClient): Promise<void> {
+	const queryFn = (text: string, params?: any[]) => {
+		return poolOrClient.query(text, params);
+	};
+
+	await queryFn(`
+		CREATE TABLE IF NOT EXISTS trainer_matching_weights (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			city_id UUID, -- NULL = platform default
+			weights JSONB NOT NULL DEFAULT '{}'::jsonb,
+			max_travel_km NUMERIC(6, 2) CHECK (max_travel_km IS NULL OR max_travel_km > 0),
+			updated_by UUID,
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+			updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+	`);
+
+	await queryFn(`
+		CREATE UNIQUE INDEX IF NOT EXISTS idx_trainer_matching_weights_city
+			ON trainer_matching_weights(city_id) WHERE city_id IS NOT NULL;
+		CREATE UNIQUE INDEX IF NOT EXISTS idx_trainer_matching_weights_default
+			ON trainer_matching_weights((city_id IS NULL)) WHERE city_id IS NULL;
+	`);
+}
+
+export class TrainerMatchingWeightsRepository {
+	constructor(private readonly pool: Pool) {}
+
+	async findAll(client?: PoolClient): Promise<TrainerMatchingWeights[]> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`SELECT ${WEIGHTS_COLUMNS} FROM trainer_matching_weights ORDER BY city_id NULLS FIRST`
+		);
+		return result.rows.map(mapRow);
+	}
+
+	async findByCityId(cityId: string | null, client?: PoolClient): Promise<TrainerMatchingWeights | null> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			cityId
+				? `SELECT ${WEIGHTS_COLUMNS} FROM trainer_matching_weights WHERE city_id = $1`
+				: `SELECT ${WEIGHTS_COLUMNS} FROM trainer_matching_weights WHERE city_id IS NULL`,
+			cityId ? [cityId] : []
+		);
+		return result.rows[0] ? mapRow(result.rows[0]) : null;
+	}
+
+	/**
+	 * City row over default row over built-in defaults
+	 */
+	async getEffective(cityId: string | null, client?: PoolClient): Promise<EffectiveMatchingWeights> {
+		const result = await executeQuery(
+			this.pool,
+			client,
+			`
+				SELECT ${WEIGHTS_COLUMNS}
+				FROM trainer_matching_weights
+				WHERE city_id IS NULL OR city_id = $1
+				ORDER BY city_id NULLS LAST
+			`,
+			[cityId]
+		);
+		const rows = result.rows.map(mapRow);
+		const defaultRow = rows.find((row) => row.cityId === null);
+		const cityRow = cityId ? rows.find((row) => row.cityId === cityId) : undefined;
+
+		return {
+			weights: { ...DEFAULT_MATCH_WEIGHTS, ...defaultRow?.weights, ...cityRow?.weights },
+			maxTravelKm: cityRow?.maxTravelKm ?? defaultRow?.maxTravelKm ?? null,
+			source: cityRow ? 'city' : defaultRow ? 'default' : 'builtin',
+			cityId,
+		};
+	}
+
+	async upsert(input: TrainerMatchingWeightsUpsertInput, client?: PoolClient): Promise<TrainerMatchingWeights> {
+		const params = [
+			input.cityId,
+			JSON.stringify(input.weights),
+			input.maxTravelKm ?? null,
+			input.updatedBy ?? null,
+		];
+		// Two partial unique indexes (city rows / the single default row) → two conflict targets
+		const result = await executeQuery(
+			this.pool,
+			client,
+			input.cityId
+				? `
+					INSERT INTO trainer_matching_weights (city_id, weights, max_travel_km, updated_by)
+					VALUES ($1, $2::jsonb, $3, $4)
+					ON CONFLICT (city_id) WHERE city_id IS NOT NULL DO UPDATE SET
+						weights = EXCLUDED.weights,
+						max_travel_km = EXCLUDED.max_travel_km,
+						updated_by = EXCLUDED.updated_by,
+						updated_at = NOW()
+					RETURNING ${WEIGHTS_COLUMNS}
+				`
+				: `
+					INSERT INTO trainer_matching_weights (city_id, weights, max_travel_km, updated_by)
+					VALUES ($1, $2::jsonb, $3, $4)
+					ON CONFLICT ((city_id IS NULL)) WHERE city_id IS NULL DO UPDATE SET
+						weights = EXCLUDED.weights,
+						max_travel_km = EXCLUDED.max_travel_km,
+						updated_by = EXCLUDED.updated_by,
+						updated_at = NOW()
+					RETURNING ${WEIGHTS_COLUMNS}
+				`,
+			params
+		);
+		return mapRow(result.rows[0]);
+	}
+
+	async deleteByCityId(cityId: string, client?: PoolClient): Promise<boolean> {
+		const result = await executeQuery(this.pool, client, `DELETE FROM trainer_matching_weights WHERE city_id = $1`, [
+			cityId,
+		]);
+		return (result.rowCount ?? 0) > 0;
+	}
+}
@@ -5,13 +5,21 @@
 import { Router } from 'express';
 import { BookingController } from '../controllers/booking.controller';
 import { PricingController } from '../controllers/pricing.controller';
+import { CouponCampaignController } from '../controllers/couponCampaign.controller';
 import { SessionSyncController } from '../controllers/sessionSync.controller';
+import { TrainerMatchingController } from '../controllers/trainerMatching.controller';
+import { SubstituteCandidateController } from '../controllers/substituteCandidate.controller';
 import { validateAutoAssignTrainer } from '../middlewares/validation.middleware';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+import { requireServiceAuth } from '../middlewares/requireServiceAuth';
 
 export function createBookingRoutes(controller: BookingController): Router {
 	const router = Router();
 	const sessionSyncController = new SessionSyncController();
 	const pricingController = new PricingController();
+	const couponCampaignController = new CouponCampaignController();
+	const trainerMatchingController = new TrainerMatchingController();
+	const substituteCandidateController = new SubstituteCandidateController();
 
 	// Existing booking routes
 	router.post('/check-service-availability', controller.checkServiceAvailability);
@@ -29,6 +37,32 @@ export function createBookingRoutes(controller: BookingController): Router {
 	router.post('/coupons/validate', pricingController.validateCoupon);
 	router.get('/feature-flags', pricingController.getFeatureFlags);
 
+	// Pricing rule administration (admin only)
+	router.get('/pricing/rules', requireAdminAuth, pricingController.listPricingRules);
+	router.post('/pricing/rules', requireAdminAuth, pricingController.createPricingRule);
+	router.patch('/pricing/rules/:ruleId', requireAdminAuth, pricingController.updatePricingRule);
+	router.delete('/pricing/rules/:ruleId', requireAdminAuth, pricingController.deactivatePricingRule);
+
+	// Coupon campaign administration (admin only)
+	router.get('/coupons/campaigns', requireAdminAuth, couponCampaignController.listCampaigns);
+	router.post('/coupons/campaigns', requireAdminAuth, couponCampaignController.createCampaign);
+	router.get('/coupons/campaigns/attribution', requireAdminAuth, couponCampaignController.getAttribution);
+	router.get('/coupons/campaigns/:campaignId', requireAdminAuth, couponCampaignController.getCampaign);
+	router.patch('/coupons/campaigns/:campaignId', requireAdminAuth, couponCampaignController.updateCampaign);
+	router.post('/coupons/campaigns/:campaignId/codes', requireAdminAuth, couponCampaignController.generateCodes);
+
+	// Coupon redemption recording (called by payment-service after a successful payment)
+	router.post('/coupons/redemptions', requireServiceAuth, couponCampaignController.recordRedemption);
+
+	// Trainer matching administration (admin only)
+	router.get('/matching-weights', requireAdminAuth, trainerMatchingController.listWeights);
+	router.put('/matching-weights/:cityId', requireAdminAuth, trainerMatchingController.upsertWeights);
+	router.delete('/matching-weights/:cityId', requireAdminAuth, trainerMatchingController.deleteWeights);
+	router.get('/purchases/:purchaseId/assignment-explanation', requireAdminAuth, trainerMatchingController.getAssignmentExplanation);
+
+	// Substitute ranking for trainer leave (called by trainer-service when a leave is approved)
+	router.post('/substitute-candidates', requireServiceAuth, substituteCandidateController.findCandidates);
+
 	// Pre-booking capacity routes
 	router.get('/pre-bookings/capacity', controller.getPreBookingCapacity);
 
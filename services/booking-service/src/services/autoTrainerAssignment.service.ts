@@ -5,6 +5,11 @@
 
 import type { Pool, PoolClient } from 'pg';
 import logger from '@kodingcaravan/shared/config/logger';
+import {
+	loadBlockedDates,
+	resolveCalendarScopeForLocation,
+	type CalendarScopeContext,
+} from '@kodingcaravan/shared/utils/blackoutCalendar';
 import { CoursePurchaseRepository, type CoursePurchase, type CoursePurchaseCreateInput } from '../models/coursePurchase.model';
 import { PurchaseSessionRepository } from '../models/purchaseSession.model';
 import { ScheduleSlotRepository } from '../models/scheduleSlot.model';
@@ -15,7 +20,12 @@ import { SessionScheduleGeneratorService } from './sessionScheduleGenerator.serv
 import { PurchaseValidatorService } from './purchaseValidator.service';
 import { TrainerEligibilityCheckerService, type TrainerInfo } from './trainerEligibilityChecker.service';
 import { SessionSyncService } from './sessionSync.service';
+import { TrainerMatchingService, type MatchPreferences, type TrainerMatchResult } from './trainerMatching.service';
+import { ClusterRepository } from '../models/cluster.model';
+import { TrainerMatchingWeightsRepository } from '../models/trainerMatchingWeights.model';
+import { TrainerAssignmentScoreRepository } from '../models/trainerAssignmentScore.model';
 import { calculateDistance } from '../utils/distance';
+import { summarizeMatchScore, type TrainerMatchScore } from '../utils/trainerMatchScore';
 
 export type AssignmentResult = 'ASSIGNED' | 'WAITLISTED' | 'SERVICE_NOT_AVAILABLE' | 'INVALID_PURCHASE';
 
@@ -37,6 +47,10 @@ export interface AutoAssignmentInput {
 		email?: string;
 		phone?: string;
 	}>;
+	/** City whose matching weights apply; resolved from the nearest cluster when omitted */
+	cityId?: string | null;
+	/** Overrides the first student's profile preferences (language, trainer gender) */
+	preferences?: MatchPreferences;
 }
 
 export interface AutoAssignmentOutput {
@@ -44,8 +58,19 @@ export interface AutoAssignmentOutput {
 	purchaseId?: string;
 	trainerId?: string | null;
 	message: string;
+	/** Match score (0-100) of the assigned trainer */
+	matchScore?: number;
+	/** Top contributing factors of the assigned trainer's score */
+	explanation?: string;
 }
 
+/** Ranked candidates re-verified inside the transaction before falling back to the waitlist */
+const MAX_FINAL_CANDIDATES = 3;
+/** Ranked candidates kept in the stored explanation */
+const MAX_STORED_CANDIDATES = 10;
+/** Blackout calendar window loaded for a new schedule (longest schedule plus room for skipped dates) */
+const CALENDAR_LOOKAHEAD_DAYS = 365;
+
 /**
  * Function type for fetching trainers from external service
  * 
@@ -60,6 +85,8 @@ export type FetchTrainersFunction = (filters: {
 
 export class AutoTrainerAssignmentService {
 	private sessionSyncService: SessionSyncService;
+	private matchingService: TrainerMatchingService;
+	private scoreRepo: TrainerAssignmentScoreRepository;
 
 	constructor(
 		private readonly purchaseRepo: CoursePurchaseRepository,
@@ -74,6 +101,12 @@ export class AutoTrainerAssignmentService {
 		private readonly pool: Pool
 	) {
 		this.sessionSyncService = new SessionSyncService(pool);
+		this.matchingService = new TrainerMatchingService(
+			pool,
+			new TrainerMatchingWeightsRepository(pool),
+			new ClusterRepository(pool)
+		);
+		this.scoreRepo = new TrainerAssignmentScoreRepository(pool);
 	}
 
 	/**
@@ -145,8 +178,13 @@ export class AutoTrainerAssignmentService {
 
 		const { zoneId, zoneFranchiseId, zoneOperator, zoneRadiusKm } = zoneInfo;
 
-		// Step 3: Generate session schedule
+		// Step 3: Generate session schedule, skipping holidays and blackouts for this location
 		// Note: purchaseId is temporary, will be replaced with actual purchase ID after creation
+		const calendarScope = await this.resolveCalendarScope(input, zoneFranchiseId);
+		const calendarEnd = new Date(input.startDate);
+		calendarEnd.setDate(calendarEnd.getDate() + CALENDAR_LOOKAHEAD_DAYS);
+		const blockedDates = await loadBlockedDates(this.pool, calendarScope, input.startDate, calendarEnd);
+
 		const schedule = this.scheduleGenerator.generateSchedule(
 			'temp', // Will be replaced with actual purchase ID
 			input.bookingId,
@@ -154,9 +192,18 @@ export class AutoTrainerAssignmentService {
 			input.totalSessions,
 			input.deliveryMode,
 			input.startDate,
-			input.preferredTimeSlot
+			input.preferredTimeSlot,
+			blockedDates
 		);
 
+		if (schedule.skippedDates.length > 0) {
+			logger.info('Schedule skipped blocked dates', {
+				bookingId: input.bookingId,
+				skippedDates: schedule.skippedDates,
+				service: 'booking-service',
+			});
+		}
+
 		// Validate schedule was generated correctly
 		if (schedule.sessions.length !== input.totalSessions) {
 			throw new Error(
@@ -187,11 +234,12 @@ export class AutoTrainerAssignmentService {
 			zoneRadiusKm
 		);
 
-		// Step 6: Select best trainer (prioritize by distance for offline sessions)
-		const selectedTrainer = this.selectBestTrainer(
+		// Step 6: Rank trainers by match score (distance, load, rating, expertise, language, gender, continuity)
+		const { candidates, match } = await this.rankCandidates(
 			eligibleTrainers.map(e => e.trainer),
-			input.studentLocation,
-			schedule.sessions
+			input,
+			schedule.sessions,
+			zoneRadiusKm
 		);
 
 		// Step 7: Create purchase and assign trainer (or waitlist)
@@ -200,10 +248,11 @@ export class AutoTrainerAssignmentService {
 			await client.query('BEGIN');
 
 			// Re-verify trainer availability within transaction to prevent race conditions
-			let finalSelectedTrainer = selectedTrainer;
-			if (selectedTrainer) {
+			// Take the best-ranked candidate that is still available
+			let finalSelectedTrainer: TrainerInfo | null = null;
+			for (const candidate of candidates.slice(0, MAX_FINAL_CANDIDATES)) {
 				const finalEligibilityCheck = await this.eligibilityChecker.filterEligibleTrainers(
-					[selectedTrainer],
+					[candidate],
 					input.courseId,
 					zoneOperator,
 					zoneFranchiseId,
@@ -214,11 +263,12 @@ export class AutoTrainerAssignmentService {
 					client // Use transaction client for consistent reads
 				);
 
-				if (finalEligibilityCheck.length === 0) {
-					// Trainer became unavailable, fall back to waitlist
-					finalSelectedTrainer = null;
+				if (finalEligibilityCheck.length > 0) {
+					finalSelectedTrainer = candidate;
+					break;
 				}
 			}
+			// No candidate still available → waitlist
 
 			const purchase = await this.purchaseRepo.create({
 				bookingId: input.bookingId,
@@ -236,6 +286,13 @@ export class AutoTrainerAssignmentService {
 				status: finalSelectedTrainer ? 'ASSIGNED' : 'WAITLISTED',
 			}, client);
 
+			const selectedScore = finalSelectedTrainer
+				? match?.ranked.find(score => score.trainerId === finalSelectedTrainer!.id)
+				: undefined;
+			if (match) {
+				await this.storeAssignmentScore(client, purchase.id, input.bookingId, finalSelectedTrainer?.id ?? null, match, selectedScore);
+			}
+
 			// Update session schedule with actual purchase ID
 			const sessionsWithPurchaseId = schedule.sessions.map(s => ({
 				...s,
@@ -326,6 +383,10 @@ export class AutoTrainerAssignmentService {
 				message: finalSelectedTrainer
 					? 'Trainer assigned successfully'
 					: 'No eligible trainer available, booking waitlisted',
+				...(selectedScore && {
+					matchScore: selectedScore.total,
+					explanation: summarizeMatchScore(selectedScore),
+				}),
 			};
 		} catch (error) {
 			await client.query('ROLLBACK');
@@ -390,9 +451,120 @@ export class AutoTrainerAssignmentService {
 		};
 	}
 
+	/**
+	 * Which holiday calendars apply: the booking's city (given or from the nearest cluster),
+	 * its state and the franchise operating the zone
+	 */
+	private async resolveCalendarScope(
+		input: AutoAssignmentInput,
+		zoneFranchiseId: string | null
+	): Promise<CalendarScopeContext> {
+		const scope = await resolveCalendarScopeForLocation(this.pool, input.studentLocation);
+		if (input.cityId && input.cityId !== scope.cityId) {
+			const city = await this.pool
+				.query<{ state: string | null; franchise_id: string | null }>(
+					`SELECT state, franchise_id FROM cities WHERE id = $1`,
+					[input.cityId]
+				)
+				.catch(() => null);
+			scope.cityId = input.cityId;
+			scope.state = city?.rows[0]?.state ?? scope.state ?? null;
+			scope.franchiseId = city?.rows[0]?.franchise_id ?? scope.franchiseId ?? null;
+		}
+		return { ...scope, franchiseId: zoneFranchiseId ?? scope.franchiseId ?? null };
+	}
+
+	/**
+	 * Order eligible trainers by match score, best first
+	 * Falls back to distance-only selection if scoring fails, so assignment never blocks on it
+	 */
+	private async rankCandidates(
+		trainers: TrainerInfo[],
+		input: AutoAssignmentInput,
+		sessions: Array<{ sessionType: 'offline' | 'online' }>,
+		zoneRadiusKm?: number
+	): Promise<{ candidates: TrainerInfo[]; match: TrainerMatchResult | null }> {
+		if (trainers.length === 0) {
+			return { candidates: [], match: null };
+		}
+
+		try {
+			const match = await this.matchingService.rank(trainers, {
+				courseId: input.courseId,
+				studentIds: input.students.map(s => s.id),
+				studentLocation: input.studentLocation,
+				hasOfflineSessions: sessions.some(s => s.sessionType === 'offline'),
+				cityId: input.cityId ?? null,
+				...(zoneRadiusKm !== undefined && { zoneRadiusKm }),
+				...(input.preferences && { preferences: input.preferences }),
+			});
+			const byId = new Map(trainers.map(t => [t.id, t]));
+			const candidates = match.ranked
+				.map(score => byId.get(score.trainerId))
+				.filter((t): t is TrainerInfo => !!t);
+			return { candidates, match };
+		} catch (error: any) {
+			logger.warn('Trainer match scoring failed, falling back to distance', {
+				bookingId: input.bookingId,
+				error: error?.message || String(error),
+				service: 'booking-service',
+			});
+			const fallback = this.selectBestTrainer(trainers, input.studentLocation, sessions);
+			return { candidates: fallback ? [fallback] : [], match: null };
+		}
+	}
+
+	/**
+	 * Record why this trainer was chosen. Runs in a savepoint: losing the explanation
+	 * must not roll back the assignment.
+	 */
+	private async storeAssignmentScore(
+		client: PoolClient,
+		purchaseId: string,
+		bookingId: string,
+		selectedTrainerId: string | null,
+		match: TrainerMatchResult,
+		selectedScore: TrainerMatchScore | undefined
+	): Promise<void> {
+		await client.query('SAVEPOINT assignment_score');
+		try {
+			await this.scoreRepo.create(
+				{
+					purchaseId,
+					bookingId,
+					selectedTrainerId,
+					cityId: match.weights.cityId,
+					weightsSource: match.weights.source,
+					weights: match.weights.weights,
+					context: match.context,
+					candidates: match.ranked.slice(0, MAX_STORED_CANDIDATES),
+					summary: selectedScore ? summarizeMatchScore(selectedScore) : null,
+				},
+				client
+			);
+			await client.query('RELEASE SAVEPOINT assignment_score');
+			logger.info('Trainer match score recorded', {
+				purchaseId,
+				trainerId: selectedTrainerId,
+				weightsSource: match.weights.source,
+				candidates: match.ranked.length,
+				summary: selectedScore ? summarizeMatchScore(selectedScore) : null,
+				service: 'booking-service',
+			});
+		} catch (error: any) {
+			await client.query('ROLLBACK TO SAVEPOINT assignment_score');
+			logger.warn('Failed to store trainer match score', {
+				purchaseId,
+				error: error?.message || String(error),
+				service: 'booking-service',
+			});
+		}
+	}
+
 	/**
 	 * Select best trainer from eligible trainers
 	 * Priority: distance (for offline sessions), then load balancing
+	 * Used only when match scoring is unavailable
 	 */
 	private selectBestTrainer(
 		trainers: TrainerInfo[],
@@ -0,0 +1,223 @@
+/**
+ * Coupon Campaign Service
+ * Campaign management, bulk code generation, redemption recording and attribution
+ *
+ * CODE GENERATION:
+ * - Codes are PREFIX + random suffix from an alphabet without look-alike characters (0/O, 1/I/L)
+ * - Referral campaigns issue one code per referrer student so redemptions attribute to them
+ * - Collisions with existing codes are retried a bounded number of times
+ *
+ * REDEMPTIONS:
+ * - Recorded from COUPON_REDEEMED, which payment-service writes to its outbox when a payment
+ *   that used a coupon succeeds (see consumers/couponRedeemed.consumer.ts)
+ * - Idempotent per (coupon, student, payment); caps are re-checked under row locks
+ */
+
+import { randomInt } from 'crypto';
+import type { Pool } from 'pg';
+import logger from '@kodingcaravan/shared/config/logger';
+import { CouponRepository, type CouponRedemptionOutcome, type DiscountType } from '../models/coupon.model';
+import {
+	CouponCampaignRepository,
+	type CampaignAttributionRow,
+	type CampaignCodeInput,
+	type CodeAttributionRow,
+	type CouponCampaign,
+	type CouponCampaignCreateInput,
+} from '../models/couponCampaign.model';
+
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const MAX_CODES_PER_BATCH = 5000;
+const MAX_GENERATION_ATTEMPTS = 5;
+
+export interface GenerateCodesInput {
+	count?: number;
+	referrerStudentIds?: string[];
+	prefix?: string;
+	suffixLength?: number;
+	discountType?: DiscountType;
+	discountValue?: number | null;
+	maxRedemptionsPerCode?: number | null;
+	validFrom?: Date;
+	validUntil?: Date;
+	createdBy?: string | null;
+}
+
+export interface RecordRedemptionInput {
+	code: string;
+	studentId: string;
+	paymentId?: string;
+	bookingId?: string;
+	discountApplied: number;
+	metadata?: Record<string, unknown>;
+}
+
+export function generateCouponCode(prefix: string, suffixLength: number): string {
+	let suffix = '';
+	for (let i = 0; i < suffixLength; i++) {
+		suffix += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+	}
+	return `${prefix}${suffix}`;
+}
+
+export class CouponCampaignService {
+	private campaignRepo: CouponCampaignRepository;
+	private couponRepo: CouponRepository;
+
+	constructor(pool: Pool) {
+		this.campaignRepo = new CouponCampaignRepository(pool);
+		this.couponRepo = new CouponRepository(pool);
+	}
+
+	async createCampaign(input: CouponCampaignCreateInput): Promise<CouponCampaign> {
+		if (input.couponType === 'referral' && (input.perStudentLimit ?? 1) > 1) {
+			throw new Error('Referral campaigns allow one redemption per student');
+		}
+		return this.campaignRepo.create(input);
+	}
+
+	/**
+	 * Generate codes for a campaign. Either `count` random codes, or one code per
+	 * entry in `referrerStudentIds` for referral-linked campaigns.
+	 */
+	async generateCodes(
+		campaignId: string,
+		input: GenerateCodesInput
+	): Promise<{ campaign: CouponCampaign; codes: Array<{ id: string; code: string; referrerStudentId: string | null }> } | null> {
+		const campaign = await this.campaignRepo.findById(campaignId);
+		if (!campaign) {
+			return null;
+		}
+
+		const referrers = input.referrerStudentIds ?? [];
+		if (referrers.length && campaign.couponType !== 'referral') {
+			throw new Error('referrerStudentIds can only be used with referral campaigns');
+		}
+		if (!referrers.length && campaign.couponType === 'referral') {
+			throw new Error('Referral campaigns require referrerStudentIds');
+		}
+
+		const count = referrers.length || input.count || 0;
+		if (count < 1 || count > MAX_CODES_PER_BATCH) {
+			throw new Error(`Code count must be between 1 and ${MAX_CODES_PER_BATCH}`);
+		}
+
+		const prefix = (input.prefix ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+		const suffixLength = input.suffixLength ?? 6;
+		if (suffixLength < 4 || suffixLength > 12) {
+			throw new Error('suffixLength must be between 4 and 12');
+		}
+
+		const validFrom = input.validFrom ?? campaign.validFrom ?? new Date();
+		const validUntil = input.validUntil ?? campaign.validUntil;
+		if (!validUntil) {
+			throw new Error('validUntil is required when the campaign has no end date');
+		}
+
+		const options = {
+			discountType: input.discountType ?? 'fixed',
+			discountValue: input.discountValue ?? null,
+			maxRedemptionsPerCode: input.maxRedemptionsPerCode ?? null,
+			validFrom,
+			validUntil,
+			createdBy: input.createdBy ?? null,
+		};
+
+		// Pending entries keep their referrer so collisions are retried for the same referrer
+		let pending: Array<{ referrerStudentId: string | null }> = referrers.length
+			? referrers.map((referrerStudentId) => ({ referrerStudentId }))
+			: Array.from({ length: count }, () => ({ referrerStudentId: null }));
+		const created: Array<{ id: string; code: string; referrerStudentId: string | null }> = [];
+
+		for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS && pending.length; attempt++) {
+			const seen = new Set<string>();
+			const batch: CampaignCodeInput[] = pending.map((entry) => {
+				let code = generateCouponCode(prefix, suffixLength);
+				while (seen.has(code)) {
+					code = generateCouponCode(prefix, suffixLength);
+				}
+				seen.add(code);
+				return { code, referrerStudentId: entry.referrerStudentId };
+			});
+
+			const inserted = await this.campaignRepo.insertCodes(campaign, batch, options);
+			created.push(...inserted);
+
+			const insertedCodes = new Set(inserted.map((row) => row.code));
+			pending = batch
+				.filter((entry) => !insertedCodes.has(entry.code))
+				.map((entry) => ({ referrerStudentId: entry.referrerStudentId ?? null }));
+		}
+
+		if (pending.length) {
+			logger.warn('Some coupon codes could not be generated after retries', {
+				campaignId,
+				requested: count,
+				created: created.length,
+				service: 'booking-service',
+			});
+		}
+
+		logger.info('Coupon codes generated', {
+			campaignId,
+			couponType: campaign.couponType,
+			count: created.length,
+			service: 'booking-service',
+		});
+
+		return { campaign, codes: created };
+	}
+
+	/**
+	 * Record a redemption against a coupon code. Returns null if the code does not exist.
+	 * Duplicate calls for the same payment are ignored; redemptions past a cap are rejected.
+	 */
+	async recordRedemption(input: RecordRedemptionInput): Promise<CouponRedemptionOutcome | null> {
+		const coupon = await this.couponRepo.findByCode(input.code);
+		if (!coupon) {
+			return null;
+		}
+
+		try {
+			return await this.couponRepo.recordRedemption(
+				coupon.id,
+				input.studentId,
+				input.discountApplied,
+				input.paymentId,
+				input.bookingId,
+				{
+					...(input.metadata ?? {}),
+					...(coupon.campaignId ? { campaignId: coupon.campaignId } : {}),
+					...(coupon.referrerStudentId ? { referrerStudentId: coupon.referrerStudentId } : {}),
+				}
+			);
+		} catch (error: any) {
+			if (error?.code === '23505') {
+				return { status: 'duplicate' };
+			}
+			throw error;
+		}
+	}
+
+	async getAttribution(filters: Parameters<CouponCampaignRepository['getAttribution']>[0]): Promise<CampaignAttributionRow[]> {
+		return this.campaignRepo.getAttribution(filters);
+	}
+
+	async getCampaignDetails(campaignId: string): Promise<{
+		campaign: CouponCampaign;
+		attribution: CampaignAttributionRow | null;
+		codes: CodeAttributionRow[];
+	} | null> {
+		const campaign = await this.campaignRepo.findById(campaignId);
+		if (!campaign) {
+			return null;
+		}
+
+		const [attribution, codes] = await Promise.all([
+			this.campaignRepo.getAttribution({ campaignId }),
+			this.campaignRepo.getCodeAttribution(campaignId),
+		]);
+
+		return { campaign, attribution: attribution[0] ?? null, codes };
+	}
+}
@@ -6,7 +6,7 @@
 import { PreBookingRepository, type PreBookingCreateInput } from '../models/preBooking.model';
 import { PreBookingCapacityRepository } from '../models/preBookingCapacity.model';
 import { FeatureFlagRepository } from '../models/featureFlag.model';
-import { PricingService, type ClassType } from './pricing.service';
+import { PricingService, type PricingCalculationInput } from './pricing.service';
 import { CouponRepository } from '../models/coupon.model';
 import type { Pool, PoolClient } from 'pg';
 
@@ -109,13 +109,18 @@ export class PreBookingService {
 		};
 		const classType = classTypeMap[input.mode] || '1-on-1';
 
-		const pricingInput: { classType: ClassType; couponCode?: string; date: Date } = {
+		const pricingInput: PricingCalculationInput & { date: Date } = {
 			classType,
 			date: input.startDate,
+			courseId: input.courseId,
+			sessionCount: input.sessionCount,
 		};
 		if (couponCode) {
 			pricingInput.couponCode = couponCode;
 		}
+		if (input.cityId) {
+			pricingInput.cityId = input.cityId;
+		}
 		const pricing = await this.pricingService.calculatePricing(pricingInput);
 
 		// If coupon code was provided and validated, get the coupon ID
@@ -124,7 +129,8 @@ export class PreBookingService {
 				couponCode,
 				input.sessionCount,
 				input.startDate,
-				input.studentId ?? undefined
+				input.studentId ?? undefined,
+				{ classType, courseId: input.courseId }
 			);
 			if (validation.valid && validation.coupon) {
 				couponId = validation.coupon.id;
@@ -1,13 +1,29 @@
 /**
  * Session Schedule Generator Service
  * Generates session schedules based on delivery mode and class type
+ * Blocked dates (holidays, exam blackouts, trainer leave) are skipped, pushing the end date out
  */
 
+import type { BlockedDateLookup } from '@kodingcaravan/shared/utils/blackoutCalendar';
 import type { ClassType, DeliveryMode } from '../models/coursePurchase.model';
 import type { PurchaseSessionCreateInput, SessionType } from '../models/purchaseSession.model';
 
+export interface SkippedScheduleDate {
+	date: string;
+	reason: string;
+}
+
 export interface SessionSchedule {
 	sessions: PurchaseSessionCreateInput[];
+	/** Dates passed over because of the blackout calendar */
+	skippedDates: SkippedScheduleDate[];
+}
+
+/** Give up rather than walk the calendar forever if everything ahead is blocked */
+const MAX_SKIPPED_DAYS = 366;
+
+function formatDateKey(date: Date): string {
+	return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
 }
 
 export class SessionScheduleGeneratorService {
@@ -21,7 +37,8 @@ export class SessionScheduleGeneratorService {
 		totalSessions: 10 | 20 | 30,
 		deliveryMode: DeliveryMode,
 		startDate: Date,
-		preferredTimeSlot: string
+		preferredTimeSlot: string,
+		blockedDates?: BlockedDateLookup
 	): SessionSchedule {
 		if (classType === 'HYBRID') {
 			return this.generateHybridSchedule(
@@ -29,7 +46,8 @@ export class SessionScheduleGeneratorService {
 				bookingId,
 				totalSessions,
 				startDate,
-				preferredTimeSlot
+				preferredTimeSlot,
+				blockedDates
 			);
 		}
 
@@ -39,7 +57,8 @@ export class SessionScheduleGeneratorService {
 				bookingId,
 				totalSessions,
 				startDate,
-				preferredTimeSlot
+				preferredTimeSlot,
+				blockedDates
 			);
 		}
 
@@ -49,7 +68,8 @@ export class SessionScheduleGeneratorService {
 				bookingId,
 				totalSessions,
 				startDate,
-				preferredTimeSlot
+				preferredTimeSlot,
+				blockedDates
 			);
 		}
 
@@ -66,13 +86,17 @@ export class SessionScheduleGeneratorService {
 		bookingId: string,
 		totalSessions: number,
 		startDate: Date,
-		preferredTimeSlot: string
+		preferredTimeSlot: string,
+		blockedDates?: BlockedDateLookup
 	): SessionSchedule {
+		const skippedDates: SkippedScheduleDate[] = [];
 		const sessions: PurchaseSessionCreateInput[] = [];
 		let currentDate = new Date(startDate);
 		let sessionNumber = 1;
 
 		while (sessions.length < totalSessions) {
+			this.skipBlockedDates(currentDate, 1, blockedDates, skippedDates);
+
 			// Include all days of the week (Mon-Sun, consecutive)
 			sessions.push({
 				purchaseId,
@@ -95,7 +119,7 @@ export class SessionScheduleGeneratorService {
 			);
 		}
 
-		return { sessions };
+		return { sessions, skippedDates };
 	}
 
 	/**
@@ -107,8 +131,10 @@ export class SessionScheduleGeneratorService {
 		bookingId: string,
 		totalSessions: number,
 		startDate: Date,
-		preferredTimeSlot: string
+		preferredTimeSlot: string,
+		blockedDates?: BlockedDateLookup
 	): SessionSchedule {
+		const skippedDates: SkippedScheduleDate[] = [];
 		const sessions: PurchaseSessionCreateInput[] = [];
 		let currentDate = new Date(startDate);
 
@@ -121,6 +147,8 @@ export class SessionScheduleGeneratorService {
 		const totalSundays = Math.ceil(totalSessions / 2);
 
 		for (let sunday = 0; sunday < totalSundays && sessions.length < totalSessions; sunday++) {
+			// A blocked Sunday moves both of its sessions to the next open Sunday
+			this.skipBlockedDates(currentDate, 7, blockedDates, skippedDates);
 			const sessionDate = new Date(currentDate);
 
 			// First session of the day
@@ -159,7 +187,7 @@ export class SessionScheduleGeneratorService {
 			);
 		}
 
-		return { sessions };
+		return { sessions, skippedDates };
 	}
 
 	/**
@@ -194,12 +222,14 @@ export class SessionScheduleGeneratorService {
 		bookingId: string,
 		totalSessions: number,
 		startDate: Date,
-		preferredTimeSlot: string
+		preferredTimeSlot: string,
+		blockedDates?: BlockedDateLookup
 	): SessionSchedule {
 		if (totalSessions !== 30) {
 			throw new Error('HYBRID mode requires exactly 30 sessions');
 		}
 
+		const skippedDates: SkippedScheduleDate[] = [];
 		const sessions: PurchaseSessionCreateInput[] = [];
 		let currentDate = new Date(startDate);
 		let sessionNumber = 1;
@@ -211,6 +241,7 @@ export class SessionScheduleGeneratorService {
 		// Phase 1: First 6 sessions must be ONLINE only
 		// Sessions 1-6: All ONLINE
 		for (let i = 0; i < 6; i++) {
+			this.skipBlockedDates(currentDate, 1, blockedDates, skippedDates);
 			sessions.push({
 				purchaseId,
 				bookingId,
@@ -235,6 +266,8 @@ export class SessionScheduleGeneratorService {
 		let shouldBeOnline = true; // Start with ONLINE after the first 6
 
 		while (onlineCount < targetOnlineSessions || offlineCount < targetOfflineSessions) {
+			this.skipBlockedDates(currentDate, 1, blockedDates, skippedDates);
+
 			// Determine session type based on alternation pattern and remaining counts
 			let sessionType: 'online' | 'offline';
 			
@@ -311,7 +344,28 @@ export class SessionScheduleGeneratorService {
 		// Sessions are already in chronological order (consecutive days)
 		// No need to sort or re-number as we generated them sequentially
 
-		return { sessions };
+		return { sessions, skippedDates };
+	}
+
+	/**
+	 * Move date forward in steps of stepDays until it is not blocked, recording what was skipped
+	 */
+	private skipBlockedDates(
+		date: Date,
+		stepDays: number,
+		blockedDates: BlockedDateLookup | undefined,
+		skippedDates: SkippedScheduleDate[]
+	): void {
+		if (!blockedDates) {
+			return;
+		}
+		for (let skipped = 0; blockedDates.isBlocked(date); skipped++) {
+			if (skipped >= MAX_SKIPPED_DAYS) {
+				throw new Error(`Schedule generation failed: no open date within ${MAX_SKIPPED_DAYS} days of ${formatDateKey(date)}`);
+			}
+			skippedDates.push({ date: formatDateKey(date), reason: blockedDates.blockFor(date)?.name ?? 'Blocked' });
+			date.setDate(date.getDate() + stepDays);
+		}
 	}
 
 	/**
@@ -0,0 +1,204 @@
+/**
+ * Substitute Candidate Service
+ * Finds trainers who can cover a student's sessions while their trainer is on leave,
+ * using the same eligibility rules as auto-assignment, ranked by free capacity on those days
+ */
+
+import type { Pool } from 'pg';
+import logger from '@kodingcaravan/shared/config/logger';
+import { MAX_TRAINER_ALLOCATIONS } from '@kodingcaravan/shared/utils/trainerCapacity';
+import { ZoneRepository, getZoneOperator, type ZoneOperator } from '../models/zone.model';
+import type { PurchaseSessionCreateInput } from '../models/purchaseSession.model';
+import { calculateDistance, type Coordinates } from '../utils/distance';
+import type { FetchTrainersFunction } from './autoTrainerAssignment.service';
+import type { TrainerEligibilityCheckerService } from './trainerEligibilityChecker.service';
+
+export interface SubstituteSessionInput {
+	sessionDate: Date;
+	sessionTime: string;
+	sessionType: 'offline' | 'online';
+}
+
+export interface SubstituteCandidateRequest {
+	originalTrainerId: string;
+	courseId: string;
+	studentLocation: Coordinates;
+	sessions: SubstituteSessionInput[];
+	limit?: number;
+}
+
+export interface SubstituteCandidate {
+	trainerId: string;
+	/** Session slots still open across the requested dates */
+	freeSlots: number;
+	distanceKm: number | null;
+}
+
+const DEFAULT_CANDIDATE_LIMIT = 5;
+
+function dateKey(date: Date): string {
+	return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+export class SubstituteCandidateService {
+	constructor(
+		private readonly zoneRepo: ZoneRepository,
+		private readonly eligibilityChecker: TrainerEligibilityCheckerService,
+		private readonly pool: Pool
+	) {}
+
+	/**
+	 * Eligible substitutes for all of the given sessions, most free capacity first, then nearest
+	 */
+	async findCandidates(
+		request: SubstituteCandidateRequest,
+		fetchTrainers: FetchTrainersFunction
+	): Promise<SubstituteCandidate[]> {
+		if (request.sessions.length === 0) {
+			return [];
+		}
+
+		const { zoneId, zoneFranchiseId, zoneOperator, zoneRadiusKm } = await this.determineZone(request.studentLocation);
+
+		const trainers = (
+			await fetchTrainers({
+				franchiseId: zoneFranchiseId,
+				zoneId,
+				courseId: request.courseId,
+				isActive: true,
+			})
+		).filter(t => t.id !== request.originalTrainerId);
+
+		const sessions: PurchaseSessionCreateInput[] = request.sessions.map((session, index) => ({
+			purchaseId: '',
+			bookingId: '',
+			sessionNumber: index + 1,
+			sessionDate: session.sessionDate,
+			sessionTime: session.sessionTime,
+			sessionType: session.sessionType,
+		}));
+
+		const eligible = await this.eligibilityChecker.filterEligibleTrainers(
+			trainers,
+			request.courseId,
+			zoneOperator,
+			zoneFranchiseId,
+			zoneId,
+			sessions,
+			request.studentLocation,
+			zoneRadiusKm
+		);
+		if (eligible.length === 0) {
+			return [];
+		}
+
+		const load = await this.loadDailySessions(
+			eligible.map(e => e.trainer.id),
+			request.sessions
+		);
+
+		const candidates: SubstituteCandidate[] = [];
+		for (const { trainer } of eligible) {
+			const days = load.get(trainer.id);
+			// Schedule slots only cover booking-service sessions; admin allocations live in tutoring_sessions
+			const clashes = request.sessions.some(s => days?.get(dateKey(s.sessionDate))?.times.has(s.sessionTime));
+			if (clashes) {
+				continue;
+			}
+
+			const dates = new Set(request.sessions.map(s => dateKey(s.sessionDate)));
+			let freeSlots = 0;
+			for (const date of dates) {
+				freeSlots += Math.max(0, MAX_TRAINER_ALLOCATIONS - (days?.get(date)?.count ?? 0));
+			}
+			if (freeSlots === 0) {
+				continue;
+			}
+
+			candidates.push({
+				trainerId: trainer.id,
+				freeSlots,
+				distanceKm: trainer.location
+					? Math.round(calculateDistance(request.studentLocation, trainer.location) * 100) / 100
+					: null,
+			});
+		}
+
+		candidates.sort((a, b) =>
+			b.freeSlots - a.freeSlots ||
+			(a.distanceKm ?? Number.POSITIVE_INFINITY) - (b.distanceKm ?? Number.POSITIVE_INFINITY)
+		);
+
+		logger.info('Substitute candidates ranked', {
+			originalTrainerId: request.originalTrainerId,
+			sessions: request.sessions.length,
+			fetched: trainers.length,
+			eligible: eligible.length,
+			candidates: candidates.length,
+			service: 'booking-service',
+		});
+
+		return candidates.slice(0, request.limit ?? DEFAULT_CANDIDATE_LIMIT);
+	}
+
+	/**
+	 * Sessions each trainer already teaches (own or covering) on the requested dates
+	 */
+	private async loadDailySessions(
+		trainerIds: string[],
+		sessions: SubstituteSessionInput[]
+	): Promise<Map<string, Map<string, { count: number; times: Set<string> }>>> {
+		const dates = [...new Set(sessions.map(s => dateKey(s.sessionDate)))];
+		const result = await this.pool.query<{ trainer_id: string; date: string; scheduled_time: string }>(
+			`
+				SELECT trainer_id, to_char(scheduled_date, 'YYYY-MM-DD') AS date, scheduled_time
+				FROM tutoring_sessions
+				WHERE trainer_id = ANY($1::uuid[])
+					AND scheduled_date = ANY($2::date[])
+					AND status <> 'cancelled'
+				UNION ALL
+				SELECT sub.substitute_trainer_id, to_char(sub.session_date, 'YYYY-MM-DD'), COALESCE(ts.scheduled_time, '')
+				FROM trainer_session_substitutions sub
+				LEFT JOIN tutoring_sessions ts
+					ON ts.trainer_id = sub.original_trainer_id
+					AND ts.student_id = sub.student_id
+					AND ts.scheduled_date = sub.session_date
+				WHERE sub.substitute_trainer_id = ANY($1::uuid[])
+					AND sub.session_date = ANY($2::date[])
+			`,
+			[trainerIds, dates]
+		);
+
+		const byTrainer = new Map<string, Map<string, { count: number; times: Set<string> }>>();
+		for (const row of result.rows) {
+			let days = byTrainer.get(row.trainer_id);
+			if (!days) {
+				days = new Map();
+				byTrainer.set(row.trainer_id, days);
+			}
+			const day = days.get(row.date) ?? { count: 0, times: new Set<string>() };
+			day.count++;
+			day.times.add(row.scheduled_time);
+			days.set(row.date, day);
+		}
+		return byTrainer;
+	}
+
+	private async determineZone(location: Coordinates): Promise<{
+		zoneId: string | null;
+		zoneFranchiseId: string | null;
+		zoneOperator: ZoneOperator;
+		zoneRadiusKm?: number;
+	}> {
+		const [zone] = await this.zoneRepo.findZonesContainingLocation(location.latitude, location.longitude);
+		if (!zone) {
+			return { zoneId: null, zoneFranchiseId: null, zoneOperator: 'COMPANY' };
+		}
+		return {
+			zoneId: zone.id,
+			zoneFranchiseId: zone.franchiseId,
+			zoneOperator: getZoneOperator(zone),
+			zoneRadiusKm: zone.radiusKm,
+		};
+	}
+}
@@ -4,6 +4,7 @@
  */
 
 import type { Pool, PoolClient } from 'pg';
+import { loadBlockedDates, toDateKey } from '@kodingcaravan/shared/utils/blackoutCalendar';
 import { calculateDistance, type Coordinates } from '../utils/distance';
 import { ScheduleSlotRepository } from '../models/scheduleSlot.model';
 import type { PurchaseSessionCreateInput } from '../models/purchaseSession.model';
@@ -121,6 +122,23 @@ export class TrainerEligibilityCheckerService {
 	): Promise<{ isAvailable: boolean; conflicts: string[] }> {
 		const conflicts: string[] = [];
 
+		// Trainer leave from the blackout calendar
+		if (sessions.length > 0) {
+			const dates = sessions.map(s => new Date(s.sessionDate).getTime());
+			const leave = await loadBlockedDates(
+				client || this.pool,
+				{ trainerId },
+				new Date(Math.min(...dates)),
+				new Date(Math.max(...dates))
+			);
+			for (const session of sessions) {
+				const block = leave.blockFor(session.sessionDate);
+				if (block?.scope === 'trainer') {
+					conflicts.push(`Trainer is on leave on ${toDateKey(session.sessionDate)} (${block.name})`);
+				}
+			}
+		}
+
 		// Check each session individually for conflicts
 		for (const session of sessions) {
 			const sessionDate = new Date(session.sessionDate);
@@ -0,0 +1,253 @@
+/**
+ * Trainer Matching Service
+ * Loads the signals for the match score (load, ratings, expertise, languages, history)
+ * in batch queries and ranks eligible trainers with the city's weights
+ */
+
+import type { Pool } from 'pg';
+import logger from '@kodingcaravan/shared/config/logger';
+import { getMaxAllocationsForRating } from '@kodingcaravan/shared/utils/trainerCapacity';
+import { ClusterRepository } from '../models/cluster.model';
+import { TrainerMatchingWeightsRepository, type EffectiveMatchingWeights } from '../models/trainerMatchingWeights.model';
+import type { TrainerInfo } from './trainerEligibilityChecker.service';
+import { calculateDistance, type Coordinates } from '../utils/distance';
+import {
+	DEFAULT_MAX_TRAVEL_KM,
+	rankTrainers,
+	type MatchContext,
+	type TrainerGender,
+	type TrainerMatchScore,
+	type TrainerMatchSignals,
+} from '../utils/trainerMatchScore';
+
+export interface MatchPreferences {
+	languages?: string[];
+	trainerGender?: TrainerGender | null;
+}
+
+export interface TrainerMatchRequest {
+	courseId: string;
+	studentIds: string[];
+	studentLocation: Coordinates;
+	hasOfflineSessions: boolean;
+	cityId?: string | null;
+	zoneRadiusKm?: number;
+	/** Explicit preferences from the booking; otherwise read from the first student's profile */
+	preferences?: MatchPreferences;
+}
+
+export interface TrainerMatchResult {
+	ranked: TrainerMatchScore[];
+	context: MatchContext;
+	weights: EffectiveMatchingWeights;
+}
+
+/** Nearest cluster further away than this is assumed to be another city */
+const CITY_LOOKUP_MAX_KM = 50;
+
+type ProfileRow = {
+	trainer_id: string;
+	rating_average: string | null;
+	years_of_experience: number | null;
+	preferred_languages: string[] | null;
+	gender: string | null;
+};
+
+function toGender(value: unknown): TrainerGender | null {
+	const normalized = typeof value === 'string' ? value.trim().toLowerCase() : '';
+	return normalized === 'male' || normalized === 'female' ? normalized : null;
+}
+
+export class TrainerMatchingService {
+	constructor(
+		private readonly pool: Pool,
+		private readonly weightsRepo: TrainerMatchingWeightsRepository,
+		private readonly clusterRepo: ClusterRepository
+	) {}
+
+	/**
+	 * Runs on the pool, outside the assignment transaction: a failed signal query must not abort it
+	 */
+	async rank(trainers: TrainerInfo[], request: TrainerMatchRequest): Promise<TrainerMatchResult> {
+		const cityId = request.cityId ?? (await this.resolveCityId(request.studentLocation));
+		const weights = await this.weightsRepo.getEffective(cityId);
+		const preferences = await this.resolvePreferences(request);
+
+		const context: MatchContext = {
+			hasOfflineSessions: request.hasOfflineSessions,
+			maxTravelKm: weights.maxTravelKm ?? request.zoneRadiusKm ?? DEFAULT_MAX_TRAVEL_KM,
+			preferredLanguages: preferences.languages ?? [],
+			preferredGender: preferences.trainerGender ?? null,
+		};
+
+		const signals = await this.loadSignals(trainers, request);
+		return { ranked: rankTrainers(signals, context, weights.weights), context, weights };
+	}
+
+	/**
+	 * City of the nearest active cluster; null (default weights) when none is close enough
+	 */
+	private async resolveCityId(location: Coordinates): Promise<string | null> {
+		try {
+			const cluster = await this.clusterRepo.findNearestCluster(location.latitude, location.longitude);
+			if (!cluster) {
+				return null;
+			}
+			const distance = calculateDistance(location, {
+				latitude: cluster.centerLatitude,
+				longitude: cluster.centerLongitude,
+			});
+			return distance <= CITY_LOOKUP_MAX_KM ? cluster.cityId : null;
+		} catch (error: any) {
+			logger.warn('Could not resolve city for matching weights', {
+				error: error?.message || String(error),
+				service: 'booking-service',
+			});
+			return null;
+		}
+	}
+
+	private async resolvePreferences(request: TrainerMatchRequest): Promise<MatchPreferences> {
+		if (request.preferences?.languages?.length || request.preferences?.trainerGender) {
+			return request.preferences;
+		}
+		const studentId = request.studentIds[0];
+		if (!studentId) {
+			return {};
+		}
+
+		try {
+			const result = await this.pool.query<{
+				preferred_languages: string[] | null;
+				learning_preferences: Record<string, unknown> | null;
+			}>(
+				`SELECT preferred_languages, learning_preferences FROM student_profiles WHERE student_id = $1`,
+				[studentId]
+			);
+			const row = result.rows[0];
+			return {
+				languages: row?.preferred_languages ?? [],
+				trainerGender: toGender(row?.learning_preferences?.trainerGenderPreference),
+			};
+		} catch (error: any) {
+			logger.warn('Could not load student matching preferences', {
+				studentId,
+				error: error?.message || String(error),
+				service: 'booking-service',
+			});
+			return {};
+		}
+	}
+
+	/**
+	 * Each query degrades to neutral values on failure: a missing signal must not block assignment
+	 */
+	private async loadSignals(
+		trainers: TrainerInfo[],
+		request: TrainerMatchRequest
+	): Promise<TrainerMatchSignals[]> {
+		const trainerIds = trainers.map((t) => t.id);
+		if (trainerIds.length === 0) {
+			return [];
+		}
+		const [profiles, ratings, loads, expertise, history] = await Promise.all([
+			this.safeQuery<ProfileRow>(
+				'profiles',
+				`
+					SELECT trainer_id, rating_average, years_of_experience, preferred_languages, gender
+					FROM trainer_profiles
+					WHERE trainer_id = ANY($1::uuid[])
+				`,
+				[trainerIds]
+			),
+			// Same source as ReviewService.getTrainerRatingStats (student reviews only)
+			this.safeQuery<{ trainer_id: string; average_rating: string; total_reviews: number }>(
+				'ratings',
+				`
+					SELECT trainer_id, AVG(rating)::NUMERIC(3, 2) AS average_rating, COUNT(*)::INTEGER AS total_reviews
+					FROM session_reviews
+					WHERE trainer_id = ANY($1::uuid[]) AND review_type = 'student'
+					GROUP BY trainer_id
+				`,
+				[trainerIds]
+			),
+			this.safeQuery<{ trainer_id: string; count: number }>(
+				'loads',
+				`
+					SELECT trainer_id, COUNT(*)::INTEGER AS count
+					FROM trainer_allocations
+					WHERE trainer_id = ANY($1::uuid[]) AND status IN ('approved', 'active')
+					GROUP BY trainer_id
+				`,
+				[trainerIds]
+			),
+			this.safeQuery<{ trainer_id: string; count: number }>(
+				'expertise',
+				`
+					SELECT trainer_id, COUNT(*)::INTEGER AS count
+					FROM trainer_allocations
+					WHERE trainer_id = ANY($1::uuid[]) AND course_id = $2 AND status = 'completed'
+					GROUP BY trainer_id
+				`,
+				[trainerIds, request.courseId]
+			),
+			request.studentIds.length
+				? this.safeQuery<{ trainer_id: string; count: number }>(
+						'history',
+						`
+							SELECT trainer_id, COUNT(*)::INTEGER AS count
+							FROM trainer_allocations
+							WHERE trainer_id = ANY($1::uuid[])
+								AND student_id = ANY($2::uuid[])
+								AND status NOT IN ('rejected', 'cancelled', 'pending')
+							GROUP BY trainer_id
+						`,
+						[trainerIds, request.studentIds]
+					)
+				: Promise.resolve([]),
+		]);
+
+		const byTrainer = <T extends { trainer_id: string }>(rows: T[]) => new Map(rows.map((row) => [row.trainer_id, row]));
+		const profileMap = byTrainer(profiles);
+		const ratingMap = byTrainer(ratings);
+		const loadMap = byTrainer(loads);
+		const expertiseMap = byTrainer(expertise);
+		const historyMap = byTrainer(history);
+
+		return trainers.map((trainer): TrainerMatchSignals => {
+			const profile = profileMap.get(trainer.id);
+			const rating = ratingMap.get(trainer.id);
+			return {
+				trainerId: trainer.id,
+				distanceKm: trainer.location ? calculateDistance(request.studentLocation, trainer.location) : null,
+				activeAllocations: loadMap.get(trainer.id)?.count ?? 0,
+				maxAllocations: getMaxAllocationsForRating(profile?.rating_average),
+				ratingAverage: rating ? parseFloat(rating.average_rating) : null,
+				ratingCount: rating?.total_reviews ?? 0,
+				completedCourseAllocations: expertiseMap.get(trainer.id)?.count ?? 0,
+				yearsOfExperience: profile?.years_of_experience ?? null,
+				languages: profile?.preferred_languages ?? [],
+				gender: profile?.gender ?? null,
+				pastAllocationsWithStudents: historyMap.get(trainer.id)?.count ?? 0,
+			};
+		});
+	}
+
+	private async safeQuery<T extends Record<string, any>>(
+		signal: string,
+		text: string,
+		params: unknown[]
+	): Promise<T[]> {
+		try {
+			const result = await this.pool.query<T>(text, params as any[]);
+			return result.rows;
+		} catch (error: any) {
+			logger.warn('Trainer matching signal unavailable, using neutral values', {
+				signal,
+				error: error?.message || String(error),
+				service: 'booking-service',
+			});
+			return [];
+		}
+	}
+}
@@ -0,0 +1,133 @@
+/**
+ * Pricing Rule Engine Test
+ * Validates rule matching, priority ordering and stacking behaviour
+ */
+
+import { evaluatePricingRules } from '../pricingRuleEngine';
+import type { PricingRule } from '../../models/pricingRule.model';
+
+function rule(overrides: Partial<PricingRule>): PricingRule {
+	return {
+		id: overrides.name ?? 'rule',
+		name: 'rule',
+		description: null,
+		trigger: 'automatic',
+		adjustmentType: 'fixed_discount',
+		adjustmentValue: 0,
+		priority: 0,
+		stacking: 'exclusive',
+		classTypes: null,
+		courseIds: null,
+		sessionCounts: null,
+		couponTypes: null,
+		couponCodes: null,
+		cityId: null,
+		zoneId: null,
+		franchiseId: null,
+		validFrom: null,
+		validUntil: null,
+		isActive: true,
+		metadata: null,
+		createdBy: null,
+		createdAt: new Date('2024-01-01'),
+		updatedAt: new Date('2024-01-01'),
+		...overrides,
+	};
+}
+
+const defaultRules: PricingRule[] = [
+	rule({ name: 'coupon-1-on-1', trigger: 'coupon', adjustmentValue: 2000, priority: 100, classTypes: ['1-on-1'] }),
+	rule({ name: 'coupon-1-on-2', trigger: 'coupon', adjustmentValue: 1500, priority: 100, classTypes: ['1-on-2'] }),
+	rule({ name: 'claim-deal', trigger: 'claim_deal', adjustmentValue: 1000, priority: 100 }),
+];
+
+describe('Pricing Rule Engine', () => {
+	const date = new Date('2025-05-10T10:00:00Z');
+
+	it('should apply the class-type coupon discount only when a coupon is present', () => {
+		const withCoupon = evaluatePricingRules(
+			defaultRules,
+			{ classType: '1-on-2', date, coupon: { code: 'KCFEB26', type: 'promotional' } },
+			7500
+		);
+		expect(withCoupon.discountAmount).toBe(1500);
+		expect(withCoupon.discountedBasePrice).toBe(6000);
+		expect(withCoupon.couponRuleApplied).toBe(true);
+
+		const withoutCoupon = evaluatePricingRules(defaultRules, { classType: '1-on-2', date }, 7500);
+		expect(withoutCoupon.discountAmount).toBe(0);
+		expect(withoutCoupon.appliedRules).toHaveLength(0);
+	});
+
+	it('should not stack exclusive coupon and claim-deal rules', () => {
+		const result = evaluatePricingRules(
+			defaultRules,
+			{ classType: '1-on-1', date, coupon: { code: 'KCFEB26', type: 'promotional' }, claimDeal: true },
+			9000
+		);
+		expect(result.appliedRules).toHaveLength(1);
+		expect(result.couponRuleApplied && result.claimDealRuleApplied).toBe(false);
+	});
+
+	it('should count a coupon-triggered price override as the coupon being applied', () => {
+		const rules = [rule({ name: 'coupon-override', trigger: 'coupon', adjustmentType: 'price_override', adjustmentValue: 5000, priority: 100 })];
+		const result = evaluatePricingRules(
+			rules,
+			{ classType: '1-on-1', date, coupon: { code: 'KCFEB26', type: 'promotional' } },
+			9000
+		);
+		expect(result.discountedBasePrice).toBe(5000);
+		expect(result.couponRuleApplied).toBe(true);
+	});
+
+	it('should stack stackable rules and respect date windows and scope', () => {
+		const cityId = '11111111-1111-1111-1111-111111111111';
+		const rules = [
+			rule({ name: 'claim-deal', trigger: 'claim_deal', adjustmentValue: 1000, priority: 100, stacking: 'stackable' }),
+			rule({
+				name: 'summer-vijayawada',
+				adjustmentType: 'percentage_discount',
+				adjustmentValue: 10,
+				priority: 50,
+				stacking: 'stackable',
+				cityId,
+				validFrom: new Date('2025-04-01T00:00:00Z'),
+				validUntil: new Date('2025-07-31T23:59:59Z'),
+			}),
+		];
+
+		const inCity = evaluatePricingRules(rules, { classType: '1-on-1', date, cityId, claimDeal: true }, 9000);
+		expect(inCity.discountAmount).toBe(1900);
+		expect(inCity.appliedRules.map((r) => r.name)).toEqual(['claim-deal', 'summer-vijayawada']);
+
+		const otherCity = evaluatePricingRules(rules, { classType: '1-on-1', date, claimDeal: true }, 9000);
+		expect(otherCity.discountAmount).toBe(1000);
+
+		const outOfSeason = evaluatePricingRules(
+			rules,
+			{ classType: '1-on-1', date: new Date('2025-09-01T00:00:00Z'), cityId, claimDeal: true },
+			9000
+		);
+		expect(outOfSeason.discountAmount).toBe(1000);
+	});
+
+	it('should prefer the more specific rule when priorities tie', () => {
+		const rules = [
+			rule({ name: 'all-tiers', adjustmentValue: 500, priority: 10 }),
+			rule({ name: 'tier-30', adjustmentValue: 800, priority: 10, sessionCounts: [30] }),
+		];
+		const result = evaluatePricingRules(rules, { classType: 'hybrid', date, sessionCount: 30 }, 5000);
+		expect(result.appliedRules.map((r) => r.name)).toEqual(['tier-30']);
+	});
+
+	it('should apply price overrides before discounts and never go below zero', () => {
+		const rules = [
+			rule({ name: 'regional-price', adjustmentType: 'price_override', adjustmentValue: 800, priority: 200 }),
+			rule({ name: 'big-discount', adjustmentValue: 2000, priority: 10 }),
+		];
+		const result = evaluatePricingRules(rules, { classType: '1-on-3', date }, 6000);
+		expect(result.basePrice).toBe(800);
+		expect(result.discountedBasePrice).toBe(0);
+		expect(result.discountAmount).toBe(800);
+	});
+});
@@ -0,0 +1,87 @@
+/**
+ * Schedule Blackout Test
+ * Validates that generated schedules skip blocked dates and extend the end date
+ */
+
+import type { BlockedDateLookup, CalendarBlock } from '@kodingcaravan/shared/utils/blackoutCalendar';
+import { SessionScheduleGeneratorService } from '../../services/sessionScheduleGenerator.service';
+
+function block(overrides: Partial<CalendarBlock>): CalendarBlock {
+	return {
+		id: overrides.name ?? 'block',
+		scope: 'national',
+		scopeRef: null,
+		kind: 'holiday',
+		name: 'Holiday',
+		startDate: '2025-01-01',
+		endDate: '2025-01-01',
+		notes: null,
+		isActive: true,
+		createdBy: null,
+		createdAt: new Date('2025-01-01'),
+		updatedAt: new Date('2025-01-01'),
+		...overrides,
+	};
+}
+
+function blockedDates(...blocks: CalendarBlock[]): BlockedDateLookup {
+	const byDate = new Map<string, CalendarBlock>();
+	for (const b of blocks) {
+		for (let d = new Date(`${b.startDate}T00:00:00`); d <= new Date(`${b.endDate}T00:00:00`); d.setDate(d.getDate() + 1)) {
+			byDate.set(key(d), b);
+		}
+	}
+	const toKey = (date: Date | string) => (typeof date === 'string' ? date : key(date));
+	return {
+		isBlocked: (date) => byDate.has(toKey(date)),
+		blockFor: (date) => byDate.get(toKey(date)),
+	};
+}
+
+function key(d: Date): string {
+	return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+const dateKeys = (sessions: Array<{ sessionDate: Date }>) =>
+	sessions.map((s) => key(s.sessionDate));
+
+describe('Schedule Blackouts', () => {
+	const generator = new SessionScheduleGeneratorService();
+	const startDate = new Date(2025, 0, 24); // Friday 24 Jan 2025
+
+	it('should skip a national holiday and extend WEEKDAY_DAILY schedules by a day', () => {
+		const blocked = blockedDates(block({ name: 'Republic Day', startDate: '2025-01-26', endDate: '2025-01-26' }));
+		const schedule = generator.generateSchedule('p', 'b', 'ONE_ON_ONE', 10, 'WEEKDAY_DAILY', startDate, '16:00', blocked);
+		const dates = dateKeys(schedule.sessions);
+
+		expect(schedule.sessions).toHaveLength(10);
+		expect(dates).not.toContain('2025-01-26');
+		expect(dates[dates.length - 1]).toBe('2025-02-03');
+		expect(schedule.skippedDates).toEqual([{ date: '2025-01-26', reason: 'Republic Day' }]);
+	});
+
+	it('should move both SUNDAY_ONLY sessions to the next open Sunday', () => {
+		const blocked = blockedDates(block({ name: 'Republic Day', startDate: '2025-01-26', endDate: '2025-01-26' }));
+		const schedule = generator.generateSchedule('p', 'b', 'ONE_ON_ONE', 4, 'SUNDAY_ONLY', startDate, '10:00', blocked);
+
+		expect(dateKeys(schedule.sessions)).toEqual(['2025-02-02', '2025-02-02', '2025-02-09', '2025-02-09']);
+	});
+
+	it('should skip a multi-day exam blackout', () => {
+		const blocked = blockedDates(
+			block({ name: 'Exams', kind: 'exam_blackout', scope: 'state', scopeRef: 'Andhra Pradesh', startDate: '2025-01-27', endDate: '2025-01-29' })
+		);
+		const schedule = generator.generateSchedule('p', 'b', 'ONE_ON_ONE', 5, 'WEEKDAY_DAILY', startDate, '16:00', blocked);
+
+		expect(dateKeys(schedule.sessions)).toEqual(['2025-01-24', '2025-01-25', '2025-01-26', '2025-01-30', '2025-01-31']);
+	});
+
+	it('should keep HYBRID counts when days are blocked', () => {
+		const blocked = blockedDates(block({ startDate: '2025-01-25', endDate: '2025-01-27' }));
+		const schedule = generator.generateSchedule('p', 'b', 'HYBRID', 30, 'WEEKDAY_DAILY', startDate, '16:00', blocked);
+
+		expect(schedule.sessions).toHaveLength(30);
+		expect(schedule.sessions.filter((s) => s.sessionType === 'online')).toHaveLength(18);
+		expect(schedule.skippedDates).toHaveLength(3);
+	});
+});
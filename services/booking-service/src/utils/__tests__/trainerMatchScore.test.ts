@@ -0,0 +1,118 @@
+/**
+ * Trainer Match Score Test
+ * Validates factor scoring, non-applicable factors and ranking order
+ */
+
+import {
+	DEFAULT_MATCH_WEIGHTS,
+	rankTrainers,
+	scoreTrainer,
+	summarizeMatchScore,
+	type MatchContext,
+	type TrainerMatchSignals,
+} from '../trainerMatchScore';
+
+function signals(overrides: Partial<TrainerMatchSignals>): TrainerMatchSignals {
+	return {
+		trainerId: 'trainer',
+		distanceKm: 5,
+		activeAllocations: 2,
+		maxAllocations: 4,
+		ratingAverage: null,
+		ratingCount: 0,
+		completedCourseAllocations: 0,
+		yearsOfExperience: null,
+		languages: [],
+		gender: null,
+		pastAllocationsWithStudents: 0,
+		...overrides,
+	};
+}
+
+const homeVisit: MatchContext = {
+	hasOfflineSessions: true,
+	maxTravelKm: 10,
+	preferredLanguages: [],
+	preferredGender: null,
+};
+
+describe('Trainer Match Score', () => {
+	it('should score each factor between 0 and 1 and skip factors that do not apply', () => {
+		const score = scoreTrainer(signals({}), homeVisit, DEFAULT_MATCH_WEIGHTS);
+		const byFactor = Object.fromEntries(score.factors.map((f) => [f.factor, f.score]));
+
+		expect(byFactor.distance).toBe(0.5);
+		expect(byFactor.load).toBe(0.5);
+		expect(byFactor.rating).toBe(0.7);
+		expect(byFactor.language).toBeNull();
+		expect(byFactor.gender).toBeNull();
+		expect(byFactor.continuity).toBe(0);
+		expect(score.total).toBeGreaterThan(0);
+		expect(score.total).toBeLessThanOrEqual(100);
+	});
+
+	it('should ignore distance and gender for online-only bookings', () => {
+		const online: MatchContext = { ...homeVisit, hasOfflineSessions: false, preferredGender: 'female' };
+		const near = scoreTrainer(signals({ trainerId: 'near', distanceKm: 1 }), online, DEFAULT_MATCH_WEIGHTS);
+		const far = scoreTrainer(signals({ trainerId: 'far', distanceKm: 50, gender: 'male' }), online, DEFAULT_MATCH_WEIGHTS);
+
+		expect(near.total).toBe(far.total);
+	});
+
+	it('should apply language and gender preferences for home visits', () => {
+		const context: MatchContext = { ...homeVisit, preferredLanguages: ['Telugu'], preferredGender: 'female' };
+		const match = scoreTrainer(signals({ languages: ['telugu', 'english'], gender: 'Female' }), context, DEFAULT_MATCH_WEIGHTS);
+		const mismatch = scoreTrainer(signals({ languages: ['hindi'], gender: 'male' }), context, DEFAULT_MATCH_WEIGHTS);
+
+		expect(match.factors.find((f) => f.factor === 'language')?.score).toBe(1);
+		expect(match.factors.find((f) => f.factor === 'gender')?.score).toBe(1);
+		expect(mismatch.factors.find((f) => f.factor === 'language')?.score).toBe(0);
+		expect(match.total).toBeGreaterThan(mismatch.total);
+	});
+
+	it('should pull ratings with few reviews towards the prior', () => {
+		const oneReview = scoreTrainer(signals({ ratingAverage: 5, ratingCount: 1 }), homeVisit, DEFAULT_MATCH_WEIGHTS);
+		const manyReviews = scoreTrainer(signals({ ratingAverage: 5, ratingCount: 50 }), homeVisit, DEFAULT_MATCH_WEIGHTS);
+
+		const rating = (s: typeof oneReview) => s.factors.find((f) => f.factor === 'rating')!.score!;
+		expect(rating(oneReview)).toBeLessThan(rating(manyReviews));
+		expect(rating(manyReviews)).toBeLessThan(1);
+	});
+
+	it('should let city weights change the winner', () => {
+		const candidates = [
+			signals({ trainerId: 'close', distanceKm: 1, pastAllocationsWithStudents: 0 }),
+			signals({ trainerId: 'familiar', distanceKm: 8, pastAllocationsWithStudents: 3 }),
+		];
+
+		expect(rankTrainers(candidates, homeVisit, DEFAULT_MATCH_WEIGHTS)[0]?.trainerId).toBe('close');
+		expect(
+			rankTrainers(candidates, homeVisit, { ...DEFAULT_MATCH_WEIGHTS, distance: 5, continuity: 60 })[0]?.trainerId
+		).toBe('familiar');
+	});
+
+	it('should break ties by distance, then by trainer id', () => {
+		const online: MatchContext = { ...homeVisit, hasOfflineSessions: false };
+		const ranked = rankTrainers(
+			[
+				signals({ trainerId: 'b', distanceKm: 3 }),
+				signals({ trainerId: 'c', distanceKm: 2 }),
+				signals({ trainerId: 'a', distanceKm: 3 }),
+			],
+			online,
+			DEFAULT_MATCH_WEIGHTS
+		);
+
+		expect(ranked.map((r) => r.trainerId)).toEqual(['c', 'a', 'b']);
+	});
+
+	it('should summarize the top contributing factors', () => {
+		const summary = summarizeMatchScore(
+			scoreTrainer(signals({ distanceKm: 0.5, pastAllocationsWithStudents: 1 }), homeVisit, DEFAULT_MATCH_WEIGHTS)
+		);
+
+		expect(summary).toMatch(/^Score \d+(\.\d)?: /);
+		expect(summary).toContain('0.5 km from the student');
+		expect(summary).toContain('Has taught this student before');
+	});
+});
@@ -0,0 +1,187 @@
+/**
+ * Pricing Rule Engine
+ * Pure evaluation of pricing_rules against a booking context
+ *
+ * Evaluation order:
+ * 1. Drop rules whose trigger, date window, scope or conditions do not match
+ * 2. Sort by priority (desc), then by specificity (more conditions wins ties)
+ * 3. Apply the first matching price_override to the base price
+ * 4. Walk the discount rules in order:
+ *    - an exclusive rule applies only if nothing has been applied yet, and stops the walk
+ *    - a stackable rule applies unless an exclusive rule already applied
+ *
+ * Percentage discounts are taken from the (possibly overridden) base price, not compounded.
+ * The discounted base price never drops below zero.
+ */
+
+import type { PricingRule } from '../models/pricingRule.model';
+import type { ClassType } from '../models/pricingConfig.model';
+
+export interface PricingRuleContext {
+	classType: ClassType;
+	date: Date;
+	courseId?: string | null;
+	sessionCount?: number | null;
+	cityId?: string | null;
+	zoneId?: string | null;
+	franchiseId?: string | null;
+	coupon?: { code: string; type: string } | null;
+	claimDeal?: boolean;
+}
+
+export interface AppliedPricingRule {
+	id: string;
+	name: string;
+	trigger: PricingRule['trigger'];
+	adjustmentType: PricingRule['adjustmentType'];
+	amount: number;
+}
+
+export interface PricingRuleEvaluation {
+	basePrice: number;
+	discountAmount: number;
+	discountedBasePrice: number;
+	appliedRules: AppliedPricingRule[];
+	couponRuleApplied: boolean;
+	claimDealRuleApplied: boolean;
+}
+
+function includesOrUnrestricted<T>(allowed: T[] | null, value: T | null | undefined): boolean {
+	if (!allowed || allowed.length === 0) {
+		return true;
+	}
+	return value !== null && value !== undefined && allowed.includes(value);
+}
+
+function scopeMatches(ruleValue: string | null, contextValue: string | null | undefined): boolean {
+	return ruleValue === null || ruleValue === contextValue;
+}
+
+function specificity(rule: PricingRule): number {
+	const conditions = [
+		rule.classTypes?.length,
+		rule.courseIds?.length,
+		rule.sessionCounts?.length,
+		rule.couponTypes?.length,
+		rule.couponCodes?.length,
+		rule.cityId,
+		rule.zoneId,
+		rule.franchiseId,
+	];
+	return conditions.filter(Boolean).length;
+}
+
+export function ruleMatchesContext(rule: PricingRule, context: PricingRuleContext): boolean {
+	if (!rule.isActive) {
+		return false;
+	}
+
+	if (rule.validFrom && context.date < new Date(rule.validFrom)) {
+		return false;
+	}
+	if (rule.validUntil && context.date > new Date(rule.validUntil)) {
+		return false;
+	}
+
+	if (rule.trigger === 'coupon') {
+		if (!context.coupon) {
+			return false;
+		}
+		const couponCodes = rule.couponCodes?.map((code) => code.toUpperCase()) ?? null;
+		if (!includesOrUnrestricted(couponCodes, context.coupon.code.toUpperCase())) {
+			return false;
+		}
+		if (!includesOrUnrestricted(rule.couponTypes, context.coupon.type)) {
+			return false;
+		}
+	}
+
+	if (rule.trigger === 'claim_deal' && !context.claimDeal) {
+		return false;
+	}
+
+	return (
+		includesOrUnrestricted(rule.classTypes, context.classType) &&
+		includesOrUnrestricted(rule.courseIds, context.courseId) &&
+		includesOrUnrestricted(rule.sessionCounts, context.sessionCount) &&
+		scopeMatches(rule.cityId, context.cityId) &&
+		scopeMatches(rule.zoneId, context.zoneId) &&
+		scopeMatches(rule.franchiseId, context.franchiseId)
+	);
+}
+
+export function sortRules(rules: PricingRule[]): PricingRule[] {
+	return [...rules].sort((a, b) => {
+		if (b.priority !== a.priority) {
+			return b.priority - a.priority;
+		}
+		return specificity(b) - specificity(a);
+	});
+}
+
+function roundCurrency(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+export function evaluatePricingRules(
+	rules: PricingRule[],
+	context: PricingRuleContext,
+	basePrice: number
+): PricingRuleEvaluation {
+	const matching = sortRules(rules.filter((rule) => ruleMatchesContext(rule, context)));
+	const appliedRules: AppliedPricingRule[] = [];
+
+	let effectiveBasePrice = basePrice;
+	const override = matching.find((rule) => rule.adjustmentType === 'price_override');
+	if (override) {
+		effectiveBasePrice = override.adjustmentValue;
+		appliedRules.push({
+			id: override.id,
+			name: override.name,
+			trigger: override.trigger,
+			adjustmentType: override.adjustmentType,
+			amount: roundCurrency(basePrice - override.adjustmentValue),
+		});
+	}
+
+	let discountAmount = 0;
+	let discountApplied = false;
+	for (const rule of matching) {
+		if (rule.adjustmentType === 'price_override') {
+			continue;
+		}
+		if (rule.stacking === 'exclusive' && discountApplied) {
+			continue;
+		}
+
+		const remaining = effectiveBasePrice - discountAmount;
+		const rawAmount = rule.adjustmentType === 'percentage_discount'
+			? (effectiveBasePrice * rule.adjustmentValue) / 100
+			: rule.adjustmentValue;
+		const amount = roundCurrency(Math.min(Math.max(rawAmount, 0), Math.max(remaining, 0)));
+
+		discountAmount += amount;
+		discountApplied = true;
+		appliedRules.push({
+			id: rule.id,
+			name: rule.name,
+			trigger: rule.trigger,
+			adjustmentType: rule.adjustmentType,
+			amount,
+		});
+
+		if (rule.stacking === 'exclusive') {
+			break;
+		}
+	}
+
+	// A coupon or claim deal counts as applied whether it discounted the price or overrode it
+	return {
+		basePrice: roundCurrency(effectiveBasePrice),
+		discountAmount: roundCurrency(discountAmount),
+		discountedBasePrice: roundCurrency(Math.max(0, effectiveBasePrice - discountAmount)),
+		appliedRules,
+		couponRuleApplied: appliedRules.some((rule) => rule.trigger === 'coupon'),
+		claimDealRuleApplied: appliedRules.some((rule) => rule.trigger === 'claim_deal'),
+	};
+}
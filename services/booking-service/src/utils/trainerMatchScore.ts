@@ -0,0 +1,227 @@
+/**
+ * Trainer Match Score
+ * Pure scoring of eligible trainers for auto-assignment
+ *
+ * Each factor yields a score between 0 and 1:
+ * - distance:   1 at the student's door, 0 at maxTravelKm or beyond (offline sessions only)
+ * - load:       free capacity against the rating-based allocation limit
+ * - rating:     average student rating, pulled towards 3.5 while a trainer has few reviews
+ * - expertise:  completed allocations for this course, plus years of experience
+ * - language:   speaks one of the student's preferred languages (only when a preference exists)
+ * - gender:     matches the requested trainer gender (home visits only, when requested)
+ * - continuity: has taught one of these students before
+ *
+ * The total is the weighted mean of the applicable factors, scaled to 0-100, so a factor
+ * that doesn't apply (e.g. distance for online courses) neither helps nor hurts anyone.
+ */
+
+export type MatchFactor = 'distance' | 'load' | 'rating' | 'expertise' | 'language' | 'gender' | 'continuity';
+
+export const MATCH_FACTORS: readonly MatchFactor[] = [
+	'distance',
+	'load',
+	'rating',
+	'expertise',
+	'language',
+	'gender',
+	'continuity',
+];
+
+export type MatchWeights = Record<MatchFactor, number>;
+
+export const DEFAULT_MATCH_WEIGHTS: MatchWeights = {
+	distance: 30,
+	load: 20,
+	rating: 20,
+	expertise: 10,
+	language: 10,
+	gender: 15,
+	continuity: 15,
+};
+
+export const DEFAULT_MAX_TRAVEL_KM = 15;
+
+const RATING_PRIOR = 3.5;
+const RATING_PRIOR_WEIGHT = 5;
+const EXPERTISE_FULL_ALLOCATIONS = 5;
+const EXPERTISE_FULL_YEARS = 5;
+
+export type TrainerGender = 'male' | 'female';
+
+export interface TrainerMatchSignals {
+	trainerId: string;
+	/** Straight-line distance to the student, null when the trainer has no location */
+	distanceKm: number | null;
+	activeAllocations: number;
+	maxAllocations: number;
+	ratingAverage: number | null;
+	ratingCount: number;
+	completedCourseAllocations: number;
+	yearsOfExperience: number | null;
+	languages: string[];
+	gender: string | null;
+	/** Allocations (any status but rejected/cancelled) with any of the booking's students */
+	pastAllocationsWithStudents: number;
+}
+
+export interface MatchContext {
+	hasOfflineSessions: boolean;
+	maxTravelKm: number;
+	preferredLanguages: string[];
+	preferredGender: TrainerGender | null;
+}
+
+export interface FactorScore {
+	factor: MatchFactor;
+	weight: number;
+	/** 0-1, null when the factor doesn't apply to this booking */
+	score: number | null;
+	detail: string;
+}
+
+export interface TrainerMatchScore {
+	trainerId: string;
+	/** Weighted score, 0-100 */
+	total: number;
+	factors: FactorScore[];
+}
+
+function clamp01(value: number): number {
+	return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number, digits = 2): number {
+	const factor = Math.pow(10, digits);
+	return Math.round(value * factor) / factor;
+}
+
+function scoreFactor(
+	factor: MatchFactor,
+	signals: TrainerMatchSignals,
+	context: MatchContext
+): { score: number | null; detail: string } {
+	switch (factor) {
+		case 'distance': {
+			if (!context.hasOfflineSessions) {
+				return { score: null, detail: 'Online sessions only' };
+			}
+			if (signals.distanceKm === null) {
+				return { score: 0, detail: 'No location on file' };
+			}
+			return {
+				score: clamp01(1 - signals.distanceKm / context.maxTravelKm),
+				detail: `${signals.distanceKm.toFixed(1)} km from the student (limit ${context.maxTravelKm} km)`,
+			};
+		}
+		case 'load': {
+			const free = signals.maxAllocations - signals.activeAllocations;
+			return {
+				score: signals.maxAllocations > 0 ? clamp01(free / signals.maxAllocations) : 0,
+				detail:
+					free > 0
+						? `${signals.activeAllocations} of ${signals.maxAllocations} allocations in use`
+						: `At capacity (${signals.activeAllocations}/${signals.maxAllocations})`,
+			};
+		}
+		case 'rating': {
+			if (signals.ratingCount === 0 || signals.ratingAverage === null) {
+				return { score: RATING_PRIOR / 5, detail: 'No reviews yet' };
+			}
+			const adjusted =
+				(signals.ratingAverage * signals.ratingCount + RATING_PRIOR * RATING_PRIOR_WEIGHT) /
+				(signals.ratingCount + RATING_PRIOR_WEIGHT);
+			return {
+				score: clamp01(adjusted / 5),
+				detail: `${signals.ratingAverage.toFixed(1)} from ${signals.ratingCount} review${signals.ratingCount === 1 ? '' : 's'}`,
+			};
+		}
+		case 'expertise': {
+			const years = signals.yearsOfExperience ?? 0;
+			return {
+				score: clamp01(
+					0.7 * Math.min(1, signals.completedCourseAllocations / EXPERTISE_FULL_ALLOCATIONS) +
+						0.3 * Math.min(1, years / EXPERTISE_FULL_YEARS)
+				),
+				detail: `${signals.completedCourseAllocations} completed allocation${signals.completedCourseAllocations === 1 ? '' : 's'} for this course, ${years} year${years === 1 ? '' : 's'} of experience`,
+			};
+		}
+		case 'language': {
+			if (context.preferredLanguages.length === 0) {
+				return { score: null, detail: 'No language preference' };
+			}
+			const spoken = new Set(signals.languages.map((language) => language.trim().toLowerCase()));
+			const match = context.preferredLanguages.find((language) => spoken.has(language.trim().toLowerCase()));
+			return match
+				? { score: 1, detail: `Speaks ${match}` }
+				: { score: 0, detail: `Doesn't speak ${context.preferredLanguages.join(' / ')}` };
+		}
+		case 'gender': {
+			if (!context.preferredGender || !context.hasOfflineSessions) {
+				return { score: null, detail: 'No gender preference for home visits' };
+			}
+			const matches = signals.gender?.trim().toLowerCase() === context.preferredGender;
+			return {
+				score: matches ? 1 : 0,
+				detail: matches ? `Matches ${context.preferredGender} trainer preference` : `Not a ${context.preferredGender} trainer`,
+			};
+		}
+		case 'continuity': {
+			return signals.pastAllocationsWithStudents > 0
+				? { score: 1, detail: 'Has taught this student before' }
+				: { score: 0, detail: 'New to this student' };
+		}
+	}
+}
+
+export function scoreTrainer(signals: TrainerMatchSignals, context: MatchContext, weights: MatchWeights): TrainerMatchScore {
+	let weighted = 0;
+	let totalWeight = 0;
+
+	const factors = MATCH_FACTORS.map((factor): FactorScore => {
+		const weight = Math.max(0, weights[factor] ?? 0);
+		const { score, detail } = scoreFactor(factor, signals, context);
+		if (score !== null && weight > 0) {
+			weighted += weight * score;
+			totalWeight += weight;
+		}
+		return { factor, weight, score: score === null ? null : round(score), detail };
+	});
+
+	return {
+		trainerId: signals.trainerId,
+		total: totalWeight > 0 ? round((weighted / totalWeight) * 100, 1) : 0,
+		factors,
+	};
+}
+
+/**
+ * Score and sort, best first. Ties go to the closer trainer, then to the lower id
+ * so the same inputs always produce the same order.
+ */
+export function rankTrainers(
+	candidates: TrainerMatchSignals[],
+	context: MatchContext,
+	weights: MatchWeights
+): TrainerMatchScore[] {
+	const distances = new Map(candidates.map((c) => [c.trainerId, c.distanceKm ?? Number.POSITIVE_INFINITY]));
+	return candidates
+		.map((candidate) => scoreTrainer(candidate, context, weights))
+		.sort(
+			(a, b) =>
+				b.total - a.total ||
+				distances.get(a.trainerId)! - distances.get(b.trainerId)! ||
+				a.trainerId.localeCompare(b.trainerId)
+		);
+}
+
+/**
+ * One-line summary of the factors that contributed most, for logs and admin lists
+ */
+export function summarizeMatchScore(score: TrainerMatchScore): string {
+	const contributions = score.factors
+		.filter((f) => f.score !== null && f.weight > 0)
+		.sort((a, b) => b.weight * (b.score ?? 0) - a.weight * (a.score ?? 0))
+		.slice(0, 3)
+		.map((f) => f.detail);
+	return `Score ${score.total}: ${contributions.join('; ')}`;
+}
@@ -7,6 +7,7 @@
  * - PURCHASE_CREATED: Purchase record created
  * - TRAINER_ALLOCATED: Trainer assigned to student
  * - SESSIONS_GENERATED: Sessions created for allocation
+ * - STUDENT_DEALLOCATED: Allocation cancelled (e.g. after a refund)
  * 
  * Flow:
  * 1. Consume events from Kafka
@@ -32,13 +33,14 @@ import type { Pool } from 'pg';
 import type { 
   PurchaseCreatedEvent, 
   TrainerAllocatedEvent, 
-  SessionsGeneratedEvent 
+  SessionsGeneratedEvent,
+  StudentDeallocatedEvent
 } from '@kodingcaravan/shared/events/types';
 import type { EnrichedEvent } from '@kodingcaravan/shared/events/kafkaEventBus';
 import { getKafkaEventBus } from '@kodingcaravan/shared/events/kafkaEventBus';
 
 const SERVICE_NAME = 'cache-worker';
-const KAFKA_TOPICS = ['purchase-created', 'trainer-allocated', 'sessions-generated'];
+const KAFKA_TOPICS = ['purchase-created', 'trainer-allocated', 'sessions-generated', 'student-deallocated'];
 const CONSUMER_GROUP = 'cache-invalidation-workers';
 
 const REDIS_RETRY_ATTEMPTS = 5;
@@ -371,6 +373,75 @@ async function handleSessionsGenerated(event: EnrichedEvent): Promise<void> {
   }
 }
 
+/**
+ * Handle STUDENT_DEALLOCATED event
+ */
+async function handleStudentDeallocated(event: EnrichedEvent): Promise<void> {
+  const deallocatedEvent = event as StudentDeallocatedEvent & { _metadata: EnrichedEvent['_metadata'] };
+  const correlationId = getEventCorrelationId(event);
+  const eventId = getEventId(event);
+
+  const context = {
+    correlationId,
+    eventId,
+    workerName: SERVICE_NAME,
+    operation: 'invalidate_cache',
+    eventType: 'STUDENT_DEALLOCATED',
+    studentId: deallocatedEvent.studentId,
+    courseId: deallocatedEvent.courseId,
+    allocationId: deallocatedEvent.allocationId,
+  };
+
+  logWithContext('info', 'Processing STUDENT_DEALLOCATED event for cache invalidation', context);
+
+  try {
+    const alreadyProcessed = await idempotencyGuard.isProcessed({
+      eventId,
+      correlationId,
+      eventType: 'STUDENT_DEALLOCATED',
+    });
+
+    if (alreadyProcessed) {
+      logWithContext('info', 'Event already processed, skipping', context);
+      return;
+    }
+
+    await invalidateStudentCaches(
+      deallocatedEvent.studentId,
+      'STUDENT_DEALLOCATED',
+      {
+        allocationId: deallocatedEvent.allocationId,
+        courseId: deallocatedEvent.courseId,
+        reason: deallocatedEvent.reason,
+      }
+    );
+
+    try {
+      await idempotencyGuard.markProcessed(
+        eventId,
+        correlationId,
+        'STUDENT_DEALLOCATED',
+        deallocatedEvent,
+        SERVICE_NAME
+      );
+    } catch (error: any) {
+      logger.warn('[CacheWorker] Failed to mark event as processed (non-critical)', {
+        ...context,
+        error: error.message,
+      });
+    }
+
+    logWithContext('info', 'Cache invalidation completed', context);
+  } catch (error: any) {
+    logWithContext('error', 'Failed to invalidate cache', {
+      ...context,
+      error: error.message,
+      stack: error.stack,
+    });
+    // Don't throw - cache invalidation is non-critical
+  }
+}
+
 /**
  * Main worker function
  */
@@ -405,6 +476,9 @@ async function main(): Promise<void> {
           case 'SESSIONS_GENERATED':
             handler = handleSessionsGenerated;
             break;
+          case 'STUDENT_DEALLOCATED':
+            handler = handleStudentDeallocated;
+            break;
           default:
             logger.warn('[CacheWorker] Unknown event type, skipping', {
               eventType,
@@ -1,7 +1,8 @@
 import express from 'express';
 import timeout from 'connect-timeout';
 import type { Express } from 'express';
-import { globalErrorHandler, createHealthCheckEndpoints } from '@kodingcaravan/shared';
+import { globalErrorHandler, createHealthCheckEndpoints, getEventBus } from '@kodingcaravan/shared';
+import type { BusinessEvent } from '@kodingcaravan/shared';
 import logger from '@kodingcaravan/shared/config/logger';
 import { initMongo, getMongo } from './config/mongo';
 import { ChatService } from './services/chat.service';
@@ -10,6 +11,12 @@ import { createChatRoutes } from './routes/chat.routes';
 import { DoubtService } from './services/doubt.service';
 import { DoubtController } from './controllers/doubt.controller';
 import { createDoubtRoutes } from './routes/doubt.routes';
+import { GroupChatService } from './services/groupChat.service';
+import { GroupChatController } from './controllers/groupChat.controller';
+import { createGroupChatRoutes } from './routes/groupChat.routes';
+import { ModerationService } from './services/moderation.service';
+import { ModerationController } from './controllers/moderation.controller';
+import { createModerationRoutes } from './routes/moderation.routes';
 
 const app: Express = express();
 
@@ -74,20 +81,91 @@ async function initializeRoutes() {
 
   await initMongo();
 
+  // One moderation pipeline for chat, group messages, doubts and replies
+  const moderationService = new ModerationService();
+
   // Chat routes (legacy - can be deprecated)
-  const chatService = new ChatService();
+  const chatService = new ChatService(moderationService);
   const chatController = new ChatController(chatService);
   app.use('/api/chat', createChatRoutes(chatController));
 
+  // Group conversations (trainer, students, guardians, admin observers)
+  const groupChatService = new GroupChatService(moderationService);
+  const groupChatController = new GroupChatController(groupChatService);
+  app.use('/api/chat', createGroupChatRoutes(groupChatController));
+  setupMembershipListeners(groupChatService);
+
   // Doubt clarification system routes
-  const doubtService = new DoubtService();
+  const doubtService = new DoubtService(moderationService);
   const doubtController = new DoubtController(doubtService);
   app.use('/api', createDoubtRoutes(doubtController));
 
+  // Moderation review queue
+  const moderationController = new ModerationController(moderationService);
+  app.use('/api', createModerationRoutes(moderationController));
+
   routesInitialized = true;
   logger.info('Chat Service routes initialized', { service: 'chat-service' });
 }
 
+/**
+ * Keep group membership in step with allocations and substitutions
+ */
+function setupMembershipListeners(groupChatService: GroupChatService): void {
+  try {
+    const eventBus = getEventBus();
+
+    eventBus.subscribe(
+      async (event: BusinessEvent) => {
+        try {
+          switch (event.type) {
+            case 'TRAINER_ALLOCATED':
+              await groupChatService.syncAllocation({
+                allocationId: event.allocationId,
+                trainerId: event.trainerId,
+                studentId: event.studentId,
+                courseId: event.courseId || null,
+                groupSize: typeof event.metadata?.groupSize === 'number' ? event.metadata.groupSize : null,
+                timeSlot: typeof event.metadata?.timeSlot === 'string' ? event.metadata.timeSlot : null,
+              });
+              break;
+            case 'STUDENT_DEALLOCATED':
+              await groupChatService.removeAllocation(event.allocationId, event.studentId);
+              break;
+            case 'SESSION_SUBSTITUTED':
+              await groupChatService.applySubstitution({
+                originalTrainerId: event.originalTrainerId,
+                substituteTrainerId: event.substituteTrainerId,
+                studentId: event.studentId,
+                date: event.date,
+              });
+              break;
+            default:
+              break;
+          }
+        } catch (error: any) {
+          logger.error('Failed to update group membership', {
+            service: 'chat-service',
+            eventType: event.type,
+            error: error?.message || String(error),
+          });
+        }
+      },
+      (event: BusinessEvent) =>
+        event.type === 'TRAINER_ALLOCATED' ||
+        event.type === 'STUDENT_DEALLOCATED' ||
+        event.type === 'SESSION_SUBSTITUTED'
+    );
+
+    logger.info('Group membership listeners initialized', { service: 'chat-service' });
+  } catch (error: any) {
+    logger.warn('Failed to setup group membership listeners (non-critical)', {
+      service: 'chat-service',
+      error: error?.message,
+    });
+  }
+}
+
 app.use(async (req, res, next) => {
   if (!routesInitialized && req.path !== '/' && req.path !== '/health') {
     try {
@@ -115,6 +193,9 @@ app.get('/', (_req, res) => {
       chat: {
         sendMessage: '/api/chat/messages',
         conversations: '/api/chat/conversations',
+        groups: 'GET /api/chat/groups',
+        groupMessages: 'GET|POST /api/chat/groups/:conversationId/messages',
+        groupMembers: 'POST /api/chat/groups/:conversationId/members',
       },
       doubts: {
         createDoubt: 'POST /api/doubts',
@@ -126,6 +207,11 @@ app.get('/', (_req, res) => {
         adminDoubts: 'GET /api/admin/doubts',
         reassign: 'POST /api/doubts/:doubtId/reassign',
       },
+      moderation: {
+        reviewQueue: 'GET /api/admin/moderation/cases',
+        caseAction: 'POST /api/admin/moderation/cases/:caseId/actions',
+        userHistory: 'GET /api/admin/moderation/users/:userId',
+      },
       health: '/health',
     },
   });
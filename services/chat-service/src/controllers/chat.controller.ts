@@ -72,7 +72,8 @@ export class ChatController {
     const body = sendMessageSchema.parse(req.body);
 
     try {
-      const message = await this.chatService.sendMessage(body);
+      // Moderation weighs the sender's role, so it comes from the verified token
+      const message = await this.chatService.sendMessage({ ...body, senderRole: (req as any).userRole });
       return successResponse(res, {
         statusCode: 201,
         message: 'Message sent successfully',
@@ -80,7 +81,7 @@ export class ChatController {
       });
     } catch (error: any) {
       return errorResponse(res, {
-        statusCode: 400,
+        statusCode: typeof error?.statusCode === 'number' ? error.statusCode : 400,
         message: error.message ?? 'Failed to send message',
       });
     }
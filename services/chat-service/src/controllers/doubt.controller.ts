@@ -71,7 +71,10 @@ const doubtListQuerySchema = z.object({
   page: z.coerce.number().int().positive().optional(),
 });
 
-
+const responseStatsQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD'),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD'),
+});
 
 type CreateDoubtRequest = ZodRequest<{ body: typeof createDoubtSchema }>;
 type CreateReplyRequest = ZodRequest<{ params: typeof doubtIdParamsSchema; body: typeof createReplySchema }>;
@@ -123,7 +126,7 @@ export class DoubtController {
         error?.name === 'MongoTimeoutError';
       
       // Return 500 for server/database errors, 400 for client errors
-      const statusCode = isMongoTimeout ? 500 : 400;
+      const statusCode = isMongoTimeout ? 500 : typeof error?.statusCode === 'number' ? error.statusCode : 400;
       
       return errorResponse(res, {
         statusCode,
@@ -316,7 +319,7 @@ export class DoubtController {
       });
     } catch (error: any) {
       return errorResponse(res, {
-        statusCode: 400,
+        statusCode: typeof error?.statusCode === 'number' ? error.statusCode : 400,
         message: error.message ?? 'Failed to submit reply',
       });
     }
@@ -452,5 +455,35 @@ export class DoubtController {
       });
     }
   });
-}
 
+  /**
+   * GET /admin/doubts/response-stats?from=YYYY-MM-DD&to=YYYY-MM-DD
+   * Daily first-response stats per trainer (inclusive IST dates), consumed by the admin dashboard rollup worker
+   */
+  getResponseStats = asyncHandler(async (req: ZodRequest<{ query: typeof responseStatsQuerySchema }>, res: Response) => {
+    const { from, to } = responseStatsQuerySchema.parse(req.query);
+    if (from > to) {
+      return errorResponse(res, {
+        statusCode: 400,
+        message: 'from must not be after to',
+      });
+    }
+
+    const start = new Date(`${from}T00:00:00+05:30`);
+    const end = new Date(`${to}T00:00:00+05:30`);
+    end.setUTCDate(end.getUTCDate() + 1);
+
+    try {
+      const stats = await this.doubtService.getResponseStats(start, end);
+      return successResponse(res, {
+        message: 'Doubt response stats fetched successfully',
+        data: stats,
+      });
+    } catch (error: any) {
+      return errorResponse(res, {
+        statusCode: 500,
+        message: error.message ?? 'Failed to fetch doubt response stats',
+      });
+    }
+  });
+}
@@ -0,0 +1,276 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '@kodingcaravan/shared';
+import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
+import type { ZodRequest } from '@kodingcaravan/shared/types/zodRequest';
+import { GroupChatService } from '../services/groupChat.service';
+import type { GroupConversationDocument } from '../models/groupConversation.model';
+import { successResponse, errorResponse } from '../utils/response';
+
+const uuid = z.string().uuid();
+
+const conversationIdParamsSchema = z.object({
+  conversationId: z.string().length(24),
+});
+
+const messageParamsSchema = z.object({
+  conversationId: z.string().length(24),
+  messageId: z.string().length(24),
+});
+
+const memberParamsSchema = z.object({
+  conversationId: z.string().length(24),
+  userId: uuid,
+});
+
+const groupListQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().optional(),
+  page: z.coerce.number().int().positive().optional(),
+});
+
+const groupMessagesQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().optional(),
+  cursor: z.string().optional(),
+});
+
+const sendGroupMessageSchema = z.object({
+  content: z.string().trim().min(1).max(5000),
+  metadata: z.record(z.any()).nullable().optional(),
+});
+
+const allocationBodySchema = z.object({
+  allocationId: uuid,
+  trainerId: uuid,
+  studentId: uuid,
+  courseId: uuid.nullable().optional(),
+  groupSize: z.number().int().min(1).max(3).nullable().optional(),
+  timeSlot: z.string().trim().min(1).nullable().optional(),
+});
+
+// Observers are always the acting admin (from the token); only guardians are named in the body
+const addMemberBodySchemaBase = z.object({
+  userId: uuid.optional(),
+  role: z.enum(['guardian', 'admin_observer']),
+  guardianOf: uuid.nullable().optional(),
+});
+
+const addMemberBodySchema = addMemberBodySchemaBase
+  .refine((data) => data.role !== 'guardian' || !!data.userId, {
+    message: 'userId is required for guardians',
+    path: ['userId'],
+  })
+  .refine((data) => data.role !== 'guardian' || !!data.guardianOf, {
+    message: 'guardianOf is required for guardians',
+    path: ['guardianOf'],
+  });
+
+type ConversationRequest = ZodRequest<{ params: typeof conversationIdParamsSchema }>;
+type GroupListRequest = ZodRequest<{ query: typeof groupListQuerySchema }>;
+type GroupMessagesRequest = ZodRequest<{ params: typeof conversationIdParamsSchema; query: typeof groupMessagesQuerySchema }>;
+type SendGroupMessageRequest = ZodRequest<{ params: typeof conversationIdParamsSchema; body: typeof sendGroupMessageSchema }>;
+type ReadReceiptsRequest = ZodRequest<{ params: typeof messageParamsSchema }>;
+type AllocationRequest = ZodRequest<{ body: typeof allocationBodySchema }>;
+type LinkAllocationRequest = ZodRequest<{ params: typeof conversationIdParamsSchema; body: typeof allocationBodySchema }>;
+type AddMemberRequest = ZodRequest<{ params: typeof conversationIdParamsSchema; body: typeof addMemberBodySchemaBase }>;
+type RemoveMemberRequest = ZodRequest<{ params: typeof memberParamsSchema }>;
+
+function failure(res: Response, error: any, fallback: string) {
+  return errorResponse(res, {
+    statusCode: typeof error?.statusCode === 'number' ? error.statusCode : 400,
+    message: error?.message ?? fallback,
+  });
+}
+
+// Members are identified by the verified access token (requireUserAuth), never by the request
+function callerId(req: unknown): string {
+  return (req as any).userId;
+}
+
+function formatConversation(conversation: GroupConversationDocument) {
+  return conversation.toObject({ virtuals: true });
+}
+
+export class GroupChatController {
+  constructor(private readonly groupChatService: GroupChatService) {}
+
+  listGroups = asyncHandler(async (req: GroupListRequest, res: Response) => {
+    const { limit, page } = groupListQuerySchema.parse(req.query);
+    const result = await this.groupChatService.listUserGroups({ userId: callerId(req), limit, page });
+
+    return successResponse(res, {
+      message: 'Group conversations fetched successfully',
+      data: {
+        items: result.items.map((item) => ({
+          ...formatConversation(item.conversation),
+          myRole: item.role,
+          unreadCount: item.unreadCount,
+        })),
+        pagination: {
+          total: result.total,
+          page: result.page,
+          limit: result.limit,
+          pages: Math.ceil(result.total / Math.max(result.limit, 1)),
+        },
+      },
+    });
+  });
+
+  getGroup = asyncHandler(async (req: ConversationRequest, res: Response) => {
+    const { conversationId } = conversationIdParamsSchema.parse(req.params);
+
+    try {
+      const conversation = await this.groupChatService.getConversation(conversationId, callerId(req));
+      return successResponse(res, {
+        message: 'Group conversation fetched successfully',
+        data: formatConversation(conversation),
+      });
+    } catch (error: any) {
+      return failure(res, error, 'Failed to fetch group conversation');
+    }
+  });
+
+  getMessages = asyncHandler(async (req: GroupMessagesRequest, res: Response) => {
+    const { conversationId } = conversationIdParamsSchema.parse(req.params);
+    const { limit, cursor } = groupMessagesQuerySchema.parse(req.query);
+
+    try {
+      const result = await this.groupChatService.getMessages({ conversationId, userId: callerId(req), limit, cursor });
+      return successResponse(res, {
+        message: 'Group messages fetched successfully',
+        data: {
+          items: result.items.map((message) => this.groupChatService.formatMessage(message)),
+          nextCursor: result.nextCursor,
+        },
+      });
+    } catch (error: any) {
+      return failure(res, error, 'Failed to fetch group messages');
+    }
+  });
+
+  sendMessage = asyncHandler(async (req: SendGroupMessageRequest, res: Response) => {
+    const { conversationId } = conversationIdParamsSchema.parse(req.params);
+    const body = sendGroupMessageSchema.parse(req.body);
+
+    try {
+      const message = await this.groupChatService.sendMessage({ conversationId, senderId: callerId(req), ...body });
+      return successResponse(res, {
+        statusCode: 201,
+        message: 'Message sent successfully',
+        data: this.groupChatService.formatMessage(message),
+      });
+    } catch (error: any) {
+      return failure(res, error, 'Failed to send message');
+    }
+  });
+
+  markRead = asyncHandler(async (req: ConversationRequest, res: Response) => {
+    const { conversationId } = conversationIdParamsSchema.parse(req.params);
+
+    try {
+      const count = await this.groupChatService.markRead(conversationId, callerId(req));
+      return successResponse(res, {
+        message: 'Group conversation marked as read',
+        data: {
+          updatedMessages: count,
+        },
+      });
+    } catch (error: any) {
+      return failure(res, error, 'Failed to mark group conversation as read');
+    }
+  });
+
+  getReadReceipts = asyncHandler(async (req: ReadReceiptsRequest, res: Response) => {
+    const { conversationId, messageId } = messageParamsSchema.parse(req.params);
+
+    try {
+      const receipts = await this.groupChatService.getReadReceipts(conversationId, messageId, callerId(req));
+      return successResponse(res, {
+        message: 'Read receipts fetched successfully',
+        data: receipts,
+      });
+    } catch (error: any) {
+      return failure(res, error, 'Failed to fetch read receipts');
+    }
+  });
+
+  /**
+   * POST /groups/allocations
+   * Admin: create (or resync) the group for an allocation
+   */
+  syncAllocation = asyncHandler(async (req: AllocationRequest, res: Response) => {
+    const body = allocationBodySchema.parse(req.body);
+
+    try {
+      const conversation = await this.groupChatService.syncAllocation(body);
+      return successResponse(res, {
+        message: 'Group conversation synced with allocation',
+        data: formatConversation(conversation),
+      });
+    } catch (error: any) {
+      return failure(res, error, 'Failed to sync group conversation');
+    }
+  });
+
+  /**
+   * POST /groups/:conversationId/allocations
+   * Admin: add a co-student's allocation to a group class
+   */
+  linkAllocation = asyncHandler(async (req: LinkAllocationRequest, res: Response) => {
+    const { conversationId } = conversationIdParamsSchema.parse(req.params);
+    const body = allocationBodySchema.parse(req.body);
+
+    try {
+      const conversation = await this.groupChatService.linkAllocation(conversationId, body);
+      return successResponse(res, {
+        message: 'Allocation linked to group conversation',
+        data: formatConversation(conversation),
+      });
+    } catch (error: any) {
+      return failure(res, error, 'Failed to link allocation');
+    }
+  });
+
+  /**
+   * POST /groups/:conversationId/members
+   * Admin: add a guardian, or join as an observer
+   */
+  addMember = asyncHandler(async (req: AddMemberRequest, res: Response) => {
+    const { conversationId } = conversationIdParamsSchema.parse(req.params);
+    const { userId, role, guardianOf } = addMemberBodySchema.parse(req.body);
+    const adminId: string = (req as any).adminId;
+
+    try {
+      if (role === 'admin_observer' && userId && userId !== adminId) {
+        throw new AppError('Admins can only add themselves as observers', 403);
+      }
+      const conversation = await this.groupChatService.addMember({
+        conversationId,
+        userId: role === 'admin_observer' ? adminId : userId!,
+        role,
+        guardianOf,
+        addedBy: adminId,
+      });
+      return successResponse(res, {
+        statusCode: 201,
+        message: 'Member added to group conversation',
+        data: formatConversation(conversation),
+      });
+    } catch (error: any) {
+      return failure(res, error, 'Failed to add member');
+    }
+  });
+
+  removeMember = asyncHandler(async (req: RemoveMemberRequest, res: Response) => {
+    const { conversationId, userId } = memberParamsSchema.parse(req.params);
+
+    try {
+      const conversation = await this.groupChatService.removeMember(conversationId, userId, (req as any).adminId);
+      return successResponse(res, {
+        message: 'Member removed from group conversation',
+        data: formatConversation(conversation),
+      });
+    } catch (error: any) {
+      return failure(res, error, 'Failed to remove member');
+    }
+  });
+}
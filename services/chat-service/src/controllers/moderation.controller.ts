@@ -0,0 +1,121 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
+import type { ZodRequest } from '@kodingcaravan/shared/types/zodRequest';
+import { ModerationService } from '../services/moderation.service';
+import { successResponse, errorResponse } from '../utils/response';
+
+const caseListQuerySchema = z.object({
+  status: z.enum(['open', 'actioned', 'dismissed']).optional(),
+  severity: z.enum(['low', 'medium', 'high', 'critical']).optional(),
+  source: z.enum(['chat_message', 'group_message', 'doubt', 'doubt_reply']).optional(),
+  userId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().positive().optional(),
+  page: z.coerce.number().int().positive().optional(),
+});
+
+const caseIdParamsSchema = z.object({
+  caseId: z.string().length(24),
+});
+
+const userIdParamsSchema = z.object({
+  userId: z.string().min(1),
+});
+
+const caseActionSchema = z.object({
+  action: z.enum(['warn', 'mute', 'escalate', 'dismiss']),
+  notes: z.string().max(2000).nullable().optional(),
+  muteHours: z.number().int().positive().max(24 * 90).optional(),
+});
+
+type CaseListRequest = ZodRequest<{ query: typeof caseListQuerySchema }>;
+type CaseRequest = ZodRequest<{ params: typeof caseIdParamsSchema }>;
+type CaseActionRequest = ZodRequest<{ params: typeof caseIdParamsSchema; body: typeof caseActionSchema }>;
+type UserHistoryRequest = ZodRequest<{ params: typeof userIdParamsSchema }>;
+
+export class ModerationController {
+  constructor(private readonly moderationService: ModerationService) {}
+
+  /**
+   * GET /admin/moderation/cases
+   * Review queue (open cases by default), most severe first
+   */
+  listCases = asyncHandler(async (req: CaseListRequest, res: Response) => {
+    const filters = caseListQuerySchema.parse(req.query);
+    const result = await this.moderationService.listCases(filters);
+
+    return successResponse(res, {
+      message: 'Moderation cases fetched successfully',
+      data: {
+        items: result.items.map((item) => this.moderationService.formatCase(item)),
+        pagination: {
+          total: result.total,
+          page: result.page,
+          limit: result.limit,
+          pages: Math.ceil(result.total / Math.max(result.limit, 1)),
+        },
+      },
+    });
+  });
+
+  getCase = asyncHandler(async (req: CaseRequest, res: Response) => {
+    const { caseId } = caseIdParamsSchema.parse(req.params);
+
+    try {
+      const moderationCase = await this.moderationService.getCase(caseId);
+      return successResponse(res, {
+        message: 'Moderation case fetched successfully',
+        data: this.moderationService.formatCase(moderationCase),
+      });
+    } catch (error: any) {
+      return errorResponse(res, {
+        statusCode: typeof error?.statusCode === 'number' ? error.statusCode : 400,
+        message: error.message ?? 'Failed to fetch moderation case',
+      });
+    }
+  });
+
+  /**
+   * POST /admin/moderation/cases/:caseId/actions
+   * Warn, mute, escalate to a safety incident, or dismiss
+   */
+  applyAction = asyncHandler(async (req: CaseActionRequest, res: Response) => {
+    const { caseId } = caseIdParamsSchema.parse(req.params);
+    const body = caseActionSchema.parse(req.body);
+
+    try {
+      const moderationCase = await this.moderationService.applyAction({
+        caseId,
+        ...body,
+        adminId: (req as any).adminId,
+        ...(req.headers.authorization ? { authorization: req.headers.authorization } : {}),
+      });
+      return successResponse(res, {
+        message: 'Moderation action applied',
+        data: this.moderationService.formatCase(moderationCase),
+      });
+    } catch (error: any) {
+      return errorResponse(res, {
+        statusCode: typeof error?.statusCode === 'number' ? error.statusCode : 400,
+        message: error.message ?? 'Failed to apply moderation action',
+      });
+    }
+  });
+
+  /**
+   * GET /admin/moderation/users/:userId
+   * Strike history and mute state
+   */
+  getUserHistory = asyncHandler(async (req: UserHistoryRequest, res: Response) => {
+    const { userId } = userIdParamsSchema.parse(req.params);
+    const history = await this.moderationService.getUserHistory(userId);
+
+    return successResponse(res, {
+      message: 'Moderation history fetched successfully',
+      data: {
+        ...history,
+        recentCases: history.recentCases.map((item) => this.moderationService.formatCase(item)),
+      },
+    });
+  });
+}
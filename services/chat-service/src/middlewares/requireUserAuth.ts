@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError, verifyAccessTokenAsync } from '@kodingcaravan/shared';
+
+export type AuthenticatedUserRole = 'student' | 'trainer' | 'guardian' | 'admin';
+
+type UserJwt = {
+  sub: string;
+  role: string;
+  iat?: number;
+  exp?: number;
+};
+
+const USER_ROLES = new Set<string>(['student', 'trainer', 'guardian', 'admin']);
+
+/**
+ * Signed-in users: the caller's id and role come from the verified token, never from the request
+ */
+export async function requireUserAuth(req: Request, _res: Response, next: NextFunction): Promise<void> {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return next(new AppError('Authorization header missing', 401));
+  }
+
+  const token = header.substring('Bearer '.length).trim();
+  if (!token) {
+    return next(new AppError('Access token missing', 401));
+  }
+
+  let payload: UserJwt;
+  try {
+    payload = await verifyAccessTokenAsync<UserJwt>(token);
+  } catch (error) {
+    return next(new AppError('Invalid or expired access token', 401));
+  }
+
+  if (!payload?.sub || !USER_ROLES.has(payload.role)) {
+    return next(new AppError('Unsupported account type', 403));
+  }
+
+  (req as any).userId = payload.sub;
+  (req as any).userRole = payload.role as AuthenticatedUserRole;
+  next();
+}
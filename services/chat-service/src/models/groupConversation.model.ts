@@ -0,0 +1,109 @@
+import mongoose, { Schema, model, Document } from 'mongoose';
+
+export type GroupMemberRole = 'trainer' | 'student' | 'guardian' | 'admin_observer';
+
+export interface GroupMember {
+  userId: string; // UUID from PostgreSQL
+  role: GroupMemberRole;
+  guardianOf: string | null; // Student the guardian is linked to (guardians only)
+  allocationId: string | null; // Allocation that brought the member in (students/trainers)
+  joinedAt: Date;
+  leftAt: Date | null; // Set when the member leaves; history is kept for read receipts
+  expiresAt: Date | null; // Substitute trainers are members only for the substituted session day
+}
+
+export interface GroupConversationDocument extends Document {
+  allocationIds: string[]; // TrainerAllocationRecord ids (several for 1-on-2 / 1-on-3 classes)
+  courseId: string | null;
+  classSize: number | null; // 2 or 3 for 1-on-2 / 1-on-3 batches; co-students join the same group
+  timeSlot: string | null; // Batch time slot (e.g. "4:00 PM")
+  title: string | null;
+  members: GroupMember[];
+  lastMessageAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GroupMemberSchema = new Schema<GroupMember>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: ['trainer', 'student', 'guardian', 'admin_observer'],
+      required: true,
+    },
+    guardianOf: {
+      type: String,
+      default: null,
+    },
+    allocationId: {
+      type: String,
+      default: null,
+    },
+    joinedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    leftAt: {
+      type: Date,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { _id: false },
+);
+
+const GroupConversationSchema = new Schema<GroupConversationDocument>(
+  {
+    allocationIds: {
+      type: [String],
+      required: true,
+      validate: [(value: string[]) => value.length >= 1, 'Group conversation requires an allocation'],
+    },
+    courseId: {
+      type: String,
+      default: null,
+    },
+    classSize: {
+      type: Number,
+      default: null,
+    },
+    timeSlot: {
+      type: String,
+      default: null,
+    },
+    title: {
+      type: String,
+      default: null,
+      trim: true,
+    },
+    members: {
+      type: [GroupMemberSchema],
+      default: [],
+    },
+    lastMessageAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'chat_group_conversations',
+  },
+);
+
+// An allocation belongs to at most one group conversation
+GroupConversationSchema.index({ allocationIds: 1 }, { unique: true });
+GroupConversationSchema.index({ 'members.userId': 1, lastMessageAt: -1 });
+GroupConversationSchema.index({ courseId: 1, timeSlot: 1, classSize: 1 });
+
+// CRITICAL: Safe guard pattern - prevents OverwriteModelError during retries
+// WHY: Mongoose models must be idempotent - check if model exists before creating
+export const GroupConversation =
+  mongoose.models.GroupConversation || model<GroupConversationDocument>('GroupConversation', GroupConversationSchema);
@@ -0,0 +1,88 @@
+import mongoose, { Schema, model, Types, Document } from 'mongoose';
+import type { GroupMemberRole } from './groupConversation.model';
+
+export type GroupMessageType = 'text' | 'system';
+
+export interface GroupReadReceipt {
+  userId: string; // UUID from PostgreSQL
+  readAt: Date;
+}
+
+export interface GroupMessageDocument extends Document {
+  conversationId: Types.ObjectId;
+  senderId: string | null; // null for system messages (membership changes)
+  senderRole: GroupMemberRole | null;
+  content: string | null; // Encrypted
+  type: GroupMessageType;
+  metadata?: Record<string, unknown> | null;
+  readBy: GroupReadReceipt[];
+  sentAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const GroupReadReceiptSchema = new Schema<GroupReadReceipt>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    readAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false },
+);
+
+const GroupMessageSchema = new Schema<GroupMessageDocument>(
+  {
+    conversationId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: 'GroupConversation',
+    },
+    senderId: {
+      type: String,
+      default: null,
+    },
+    senderRole: {
+      type: String,
+      enum: ['trainer', 'student', 'guardian', 'admin_observer', null],
+      default: null,
+    },
+    content: {
+      type: String,
+      default: null,
+    },
+    type: {
+      type: String,
+      enum: ['text', 'system'],
+      default: 'text',
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    readBy: {
+      type: [GroupReadReceiptSchema],
+      default: [],
+    },
+    sentAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'chat_group_messages',
+  },
+);
+
+GroupMessageSchema.index({ conversationId: 1, sentAt: -1 });
+GroupMessageSchema.index({ conversationId: 1, 'readBy.userId': 1 });
+
+// CRITICAL: Safe guard pattern - prevents OverwriteModelError during retries
+// WHY: Mongoose models must be idempotent - check if model exists before creating
+export const GroupMessage =
+  mongoose.models.GroupMessage || model<GroupMessageDocument>('GroupMessage', GroupMessageSchema);
@@ -0,0 +1,147 @@
+import mongoose, { Schema, model, Document } from 'mongoose';
+import type {
+  ModerationCategory,
+  ModerationDecision,
+  ModerationSeverity,
+  ModerationUserRole,
+} from '../utils/moderationRules';
+
+export type ModerationSource = 'chat_message' | 'group_message' | 'doubt' | 'doubt_reply';
+export type ModerationCaseStatus = 'open' | 'actioned' | 'dismissed';
+export type ModerationAction = 'warn' | 'mute' | 'escalate' | 'dismiss';
+
+export interface ModerationCaseMatch {
+  ruleId: string;
+  category: ModerationCategory;
+  count: number;
+  points: number;
+  description: string;
+}
+
+export interface ModerationCaseDocument extends Document {
+  userId: string;
+  userRole: ModerationUserRole;
+  source: ModerationSource;
+  sourceId: string | null; // Message / doubt / reply id; null when the content was blocked
+  contextId: string | null; // Conversation or doubt the content belongs to
+  content: string; // Encrypted original text
+  decision: Exclude<ModerationDecision, 'allow'>;
+  severity: ModerationSeverity;
+  score: number;
+  matches: ModerationCaseMatch[];
+  status: ModerationCaseStatus;
+  action: ModerationAction | null;
+  actionedBy: string | null;
+  actionedAt: Date | null;
+  notes: string | null;
+  muteUntil: Date | null;
+  incidentId: string | null; // Safety incident created on escalation
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ModerationCaseMatchSchema = new Schema<ModerationCaseMatch>(
+  {
+    ruleId: { type: String, required: true },
+    category: { type: String, enum: ['pii', 'abuse', 'off_platform'], required: true },
+    count: { type: Number, required: true },
+    points: { type: Number, required: true },
+    description: { type: String, required: true },
+  },
+  { _id: false },
+);
+
+const ModerationCaseSchema = new Schema<ModerationCaseDocument>(
+  {
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    userRole: {
+      type: String,
+      enum: ['student', 'trainer', 'guardian', 'admin', 'unknown'],
+      default: 'unknown',
+    },
+    source: {
+      type: String,
+      enum: ['chat_message', 'group_message', 'doubt', 'doubt_reply'],
+      required: true,
+    },
+    sourceId: {
+      type: String,
+      default: null,
+    },
+    contextId: {
+      type: String,
+      default: null,
+    },
+    content: {
+      type: String,
+      required: true,
+    },
+    decision: {
+      type: String,
+      enum: ['flag', 'block'],
+      required: true,
+    },
+    severity: {
+      type: String,
+      enum: ['none', 'low', 'medium', 'high', 'critical'],
+      required: true,
+      index: true,
+    },
+    score: {
+      type: Number,
+      required: true,
+    },
+    matches: {
+      type: [ModerationCaseMatchSchema],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: ['open', 'actioned', 'dismissed'],
+      default: 'open',
+      index: true,
+    },
+    action: {
+      type: String,
+      enum: ['warn', 'mute', 'escalate', 'dismiss', null],
+      default: null,
+    },
+    actionedBy: {
+      type: String,
+      default: null,
+    },
+    actionedAt: {
+      type: Date,
+      default: null,
+    },
+    notes: {
+      type: String,
+      default: null,
+    },
+    muteUntil: {
+      type: Date,
+      default: null,
+    },
+    incidentId: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'moderation_cases',
+  },
+);
+
+// Review queue: open cases, most severe first
+ModerationCaseSchema.index({ status: 1, score: -1, createdAt: -1 });
+ModerationCaseSchema.index({ userId: 1, createdAt: -1 });
+
+// CRITICAL: Safe guard pattern - prevents OverwriteModelError during retries
+// WHY: Mongoose models must be idempotent - check if model exists before creating
+export const ModerationCase =
+  mongoose.models.ModerationCase || model<ModerationCaseDocument>('ModerationCase', ModerationCaseSchema);
@@ -0,0 +1,59 @@
+import mongoose, { Schema, model, Types, Document } from 'mongoose';
+import type { ModerationSeverity } from '../utils/moderationRules';
+
+export type StrikeReason = 'auto_block' | 'warning' | 'mute' | 'escalation';
+
+export interface ModerationStrikeDocument extends Document {
+  userId: string;
+  caseId: Types.ObjectId;
+  reason: StrikeReason;
+  severity: ModerationSeverity;
+  issuedBy: string | null; // Admin id; null for automatic strikes
+  voided: boolean; // Set when the case is dismissed
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ModerationStrikeSchema = new Schema<ModerationStrikeDocument>(
+  {
+    userId: {
+      type: String,
+      required: true,
+    },
+    caseId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+      ref: 'ModerationCase',
+    },
+    reason: {
+      type: String,
+      enum: ['auto_block', 'warning', 'mute', 'escalation'],
+      required: true,
+    },
+    severity: {
+      type: String,
+      enum: ['none', 'low', 'medium', 'high', 'critical'],
+      required: true,
+    },
+    issuedBy: {
+      type: String,
+      default: null,
+    },
+    voided: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'moderation_strikes',
+  },
+);
+
+ModerationStrikeSchema.index({ userId: 1, voided: 1, createdAt: -1 });
+ModerationStrikeSchema.index({ caseId: 1 });
+
+// CRITICAL: Safe guard pattern - prevents OverwriteModelError during retries
+// WHY: Mongoose models must be idempotent - check if model exists before creating
+export const ModerationStrike =
+  mongoose.models.ModerationStrike || model<ModerationStrikeDocument>('ModerationStrike', ModerationStrikeSchema);
@@ -0,0 +1,42 @@
+import mongoose, { Schema, model, Document } from 'mongoose';
+
+export interface ModerationUserStateDocument extends Document {
+  userId: string;
+  mutedUntil: Date | null;
+  muteReason: string | null;
+  mutedBy: string | null; // Admin id; null for automatic mutes
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ModerationUserStateSchema = new Schema<ModerationUserStateDocument>(
+  {
+    userId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    mutedUntil: {
+      type: Date,
+      default: null,
+    },
+    muteReason: {
+      type: String,
+      default: null,
+    },
+    mutedBy: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'moderation_user_states',
+  },
+);
+
+// CRITICAL: Safe guard pattern - prevents OverwriteModelError during retries
+// WHY: Mongoose models must be idempotent - check if model exists before creating
+export const ModerationUserState =
+  mongoose.models.ModerationUserState ||
+  model<ModerationUserStateDocument>('ModerationUserState', ModerationUserStateSchema);
@@ -1,10 +1,11 @@
 import { Router } from 'express';
 import type { ChatController } from '../controllers/chat.controller';
+import { requireUserAuth } from '../middlewares/requireUserAuth';
 
 export function createChatRoutes(chatController: ChatController): Router {
   const router = Router();
 
-  router.post('/messages', chatController.sendMessage);
+  router.post('/messages', requireUserAuth, chatController.sendMessage);
   router.get('/messages/:messageId', chatController.getMessage);
   router.delete('/messages/:messageId', chatController.deleteMessage);
 
@@ -16,6 +16,7 @@ export function createDoubtRoutes(doubtController: DoubtController): Router {
 
   // Admin endpoints
   router.get('/admin/doubts', doubtController.getAdminDoubts);
+  router.get('/admin/doubts/response-stats', doubtController.getResponseStats);
   router.post('/doubts/:doubtId/reassign', doubtController.reassignDoubt);
 
   return router;
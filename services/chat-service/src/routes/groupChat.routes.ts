@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import type { GroupChatController } from '../controllers/groupChat.controller';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+import { requireUserAuth } from '../middlewares/requireUserAuth';
+
+export function createGroupChatRoutes(groupChatController: GroupChatController): Router {
+  const router = Router();
+
+  // Member endpoints (caller from the access token)
+  router.get('/groups', requireUserAuth, groupChatController.listGroups);
+  router.get('/groups/:conversationId', requireUserAuth, groupChatController.getGroup);
+  router.get('/groups/:conversationId/messages', requireUserAuth, groupChatController.getMessages);
+  router.post('/groups/:conversationId/messages', requireUserAuth, groupChatController.sendMessage);
+  router.patch('/groups/:conversationId/read', requireUserAuth, groupChatController.markRead);
+  router.get('/groups/:conversationId/messages/:messageId/receipts', requireUserAuth, groupChatController.getReadReceipts);
+
+  // Admin endpoints
+  router.post('/groups/allocations', requireAdminAuth, groupChatController.syncAllocation);
+  router.post('/groups/:conversationId/allocations', requireAdminAuth, groupChatController.linkAllocation);
+  router.post('/groups/:conversationId/members', requireAdminAuth, groupChatController.addMember);
+  router.delete('/groups/:conversationId/members/:userId', requireAdminAuth, groupChatController.removeMember);
+
+  return router;
+}
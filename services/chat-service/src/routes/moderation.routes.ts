@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import type { ModerationController } from '../controllers/moderation.controller';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
+
+export function createModerationRoutes(moderationController: ModerationController): Router {
+  const router = Router();
+
+  // Admin endpoints
+  router.get('/admin/moderation/cases', requireAdminAuth, moderationController.listCases);
+  router.get('/admin/moderation/cases/:caseId', requireAdminAuth, moderationController.getCase);
+  router.post('/admin/moderation/cases/:caseId/actions', requireAdminAuth, moderationController.applyAction);
+  router.get('/admin/moderation/users/:userId', requireAdminAuth, moderationController.getUserHistory);
+
+  return router;
+}
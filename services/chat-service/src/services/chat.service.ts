@@ -3,10 +3,13 @@ import logger from '@kodingcaravan/shared/config/logger';
 import { ChatMessage, type ChatMessageDocument, type MessageType } from '../models/message.model';
 import { MediaAttachment, type MediaAttachmentType } from '../models/mediaAttachment.model';
 import { decryptMessage, encryptMessage } from '../utils/encryption';
+import { ModerationService } from './moderation.service';
+import type { ModerationUserRole } from '../utils/moderationRules';
 
 export type SendMessageInput = {
   conversationId?: string;
   senderId: string;
+  senderRole?: ModerationUserRole;
   recipientIds: string[];
   content?: string | null;
   type?: MessageType;
@@ -33,6 +36,8 @@ export type ConversationMessagesOptions = {
 };
 
 export class ChatService {
+  constructor(private readonly moderation: ModerationService = new ModerationService()) {}
+
   async sendMessage(input: SendMessageInput): Promise<ChatMessageDocument> {
     const senderId = this.toObjectId(input.senderId);
     const recipientIds = input.recipientIds.map((id) => this.toObjectId(id));
@@ -46,6 +51,17 @@ export class ChatService {
       ? this.toObjectId(input.conversationId)
       : new Types.ObjectId();
 
+    const verdict =
+      typeof input.content === 'string' && input.content.length > 0
+        ? await this.moderation.check({
+            userId: input.senderId,
+            userRole: input.senderRole ?? 'unknown',
+            source: 'chat_message',
+            content: input.content,
+            contextId: conversationId.toHexString(),
+          })
+        : null;
+
     const encryptedContent =
       typeof input.content === 'string' && input.content.length > 0
         ? encryptMessage(input.content)
@@ -78,6 +94,10 @@ export class ChatService {
       await message.save();
     }
 
+    if (verdict) {
+      await this.moderation.recordFlag(verdict, String(message._id));
+    }
+
     await message.populate('attachments');
     return message;
   }
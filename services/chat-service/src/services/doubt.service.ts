@@ -1,7 +1,7 @@
 import { Types } from 'mongoose';
 import { Doubt, type DoubtDocument, type DoubtStatus } from '../models/doubt.model';
 import { DoubtReply, type DoubtReplyDocument } from '../models/doubtReply.model';
-import { filterPersonalInfo, validateNoPersonalInfo } from '../utils/contentFilter';
+import { ModerationService } from './moderation.service';
 import { getMongo, initMongo, ensureMongoReady } from '../config/mongo';
 import logger from '@kodingcaravan/shared/config/logger';
 import {
@@ -53,23 +53,32 @@ export type DoubtListFilters = {
   page?: number;
 };
 
+/**
+ * First-response figures for doubts raised on one day (IST) and routed to one trainer
+ */
+export type DoubtResponseStat = {
+  day: string;
+  trainerId: string;
+  asked: number;
+  answered: number;
+  /** Sum over answered doubts of minutes from creation to the first trainer reply */
+  totalResponseMinutes: number;
+};
+
 export class DoubtService {
+  constructor(private readonly moderation: ModerationService = new ModerationService()) {}
+
   /**
    * Create a new doubt ticket
    */
   async createDoubt(input: CreateDoubtInput): Promise<DoubtDocument> {
-    // Filter personal contact info from question first (before DB operations)
-    const filterResult = filterPersonalInfo(input.question);
-    if (filterResult.violations.length > 0) {
-      logger.warn('Content filter violations detected', {
-        violations: filterResult.violations,
-        studentId: input.studentId,
-        service: 'chat-service',
-      });
-      throw new Error(
-        `Your question contains personal contact information which is not allowed. Please remove: ${filterResult.violations.join(', ')}`,
-      );
-    }
+    // Moderate the question first (before DB operations)
+    const verdict = await this.moderation.check({
+      userId: input.studentId,
+      userRole: 'student',
+      source: 'doubt',
+      content: input.question,
+    });
 
     // studentId and trainerId are UUIDs (strings), not MongoDB ObjectIds
     logger.info('Creating doubt', {
@@ -199,7 +208,7 @@ export class DoubtService {
               trainerId: input.trainerId || null,
               subject: input.subject.trim(),
               topic: input.topic.trim(),
-              question: filterResult.filtered,
+              question: input.question,
               type: input.type,
               attachments: input.attachments || [],
               status: 'pending',
@@ -223,7 +232,7 @@ export class DoubtService {
                 trainerId: input.trainerId || null,
                 subject: input.subject.trim(),
                 topic: input.topic.trim(),
-                question: filterResult.filtered,
+                question: input.question,
                 type: input.type,
                 attachments: input.attachments || [],
                 status: 'pending',
@@ -282,6 +291,7 @@ export class DoubtService {
             studentId: input.studentId,
             service: 'chat-service',
           });
+          await this.moderation.recordFlag(verdict, String(doubt._id));
           return doubt;
         } catch (error) {
           // Clear timeout on error
@@ -991,12 +1001,13 @@ export class DoubtService {
     reply: DoubtReplyDocument;
     doubt: DoubtDocument;
   }> {
-    const filterResult = filterPersonalInfo(input.reply);
-    if (filterResult.violations.length > 0) {
-      throw new Error(
-        `Your reply contains personal contact information which is not allowed. Please remove: ${filterResult.violations.join(', ')}`,
-      );
-    }
+    const verdict = await this.moderation.check({
+      userId: input.trainerId,
+      userRole: 'trainer',
+      source: 'doubt_reply',
+      content: input.reply,
+      contextId: input.doubtId,
+    });
 
     if (!Types.ObjectId.isValid(input.doubtId)) {
       throw new Error('Invalid doubt ID');
@@ -1024,7 +1035,7 @@ export class DoubtService {
     const replyDoc = {
       doubtId,
       trainerId,
-      reply: filterResult.filtered,
+      reply: input.reply,
       attachments: input.attachments ?? [],
       createdAt: now,
       updatedAt: now,
@@ -1056,6 +1067,7 @@ export class DoubtService {
     await invalidateCache(`replies:${input.doubtId}`);
     await invalidateCache(`doubt:${input.doubtId}`);
     await invalidateCache('list');
+    await this.moderation.recordFlag(verdict, (insertResult.insertedId as { toString(): string }).toString());
 
     return {
       reply: this.rawToDoubtReplyDocument(
@@ -1304,6 +1316,66 @@ export class DoubtService {
     };
   }
 
+  /**
+   * Daily first-response stats per trainer for doubts created in [from, to)
+   * Uses native MongoDB driver to avoid Mongoose "initial connection" errors (bufferCommands = false).
+   */
+  async getResponseStats(from: Date, to: Date): Promise<DoubtResponseStat[]> {
+    await ensureMongoReady(10000);
+    const mongo = getMongo();
+    const db = mongo.connection.db;
+    if (!db) throw new Error('MongoDB database not available');
+
+    // answeredAt moves on every reply, so response time is measured to the earliest reply instead
+    const rows = await db
+      .collection('doubts')
+      .aggregate(
+        [
+          { $match: { createdAt: { $gte: from, $lt: to }, trainerId: { $ne: null } } },
+          {
+            $lookup: {
+              from: 'doubt_replies',
+              let: { doubtId: '$_id' },
+              pipeline: [
+                { $match: { $expr: { $eq: ['$doubtId', '$$doubtId'] } } },
+                { $sort: { createdAt: 1 } },
+                { $limit: 1 },
+                { $project: { _id: 0, createdAt: 1 } },
+              ],
+              as: 'firstReply',
+            },
+          },
+          {
+            $project: {
+              trainerId: 1,
+              day: { $dateToString: { format: '%Y-%m-%d', date: '$createdAt', timezone: 'Asia/Kolkata' } },
+              responseMs: {
+                $subtract: [{ $arrayElemAt: ['$firstReply.createdAt', 0] }, '$createdAt'],
+              },
+            },
+          },
+          {
+            $group: {
+              _id: { day: '$day', trainerId: '$trainerId' },
+              asked: { $sum: 1 },
+              answered: { $sum: { $cond: [{ $ne: [{ $type: '$responseMs' }, 'null'] }, 1, 0] } },
+              totalResponseMs: { $sum: { $ifNull: ['$responseMs', 0] } },
+            },
+          },
+        ],
+        { maxTimeMS: 30000 },
+      )
+      .toArray();
+
+    return rows.map((row) => ({
+      day: row._id.day as string,
+      trainerId: row._id.trainerId as string,
+      asked: Number(row.asked) || 0,
+      answered: Number(row.answered) || 0,
+      totalResponseMinutes: Math.round(((Number(row.totalResponseMs) || 0) / 60000) * 100) / 100,
+    }));
+  }
+
   /**
    * Format doubt for API response
    * Handles both Mongoose documents and plain objects (from native MongoDB driver queries)
@@ -0,0 +1,625 @@
+import { Types } from 'mongoose';
+import { AppError } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import {
+  GroupConversation,
+  type GroupConversationDocument,
+  type GroupMember,
+  type GroupMemberRole,
+} from '../models/groupConversation.model';
+import { GroupMessage, type GroupMessageDocument } from '../models/groupMessage.model';
+import { ModerationService } from './moderation.service';
+import { decryptMessage, encryptMessage } from '../utils/encryption';
+
+export type AllocationMembershipInput = {
+  allocationId: string;
+  trainerId: string;
+  studentId: string;
+  courseId?: string | null;
+  groupSize?: number | null; // 2 / 3 for group classes
+  timeSlot?: string | null;
+};
+
+export type SubstitutionInput = {
+  originalTrainerId: string;
+  substituteTrainerId: string;
+  studentId: string;
+  date: string; // YYYY-MM-DD
+};
+
+export type AddGroupMemberInput = {
+  conversationId: string;
+  userId: string;
+  role: Extract<GroupMemberRole, 'guardian' | 'admin_observer'>;
+  guardianOf?: string | null;
+  addedBy?: string | null; // Acting admin
+};
+
+export type SendGroupMessageInput = {
+  conversationId: string;
+  senderId: string;
+  content: string;
+  metadata?: Record<string, unknown> | null;
+};
+
+export type GroupMessagesOptions = {
+  conversationId: string;
+  userId: string;
+  limit?: number;
+  cursor?: string;
+};
+
+export type GroupListOptions = {
+  userId: string;
+  page?: number;
+  limit?: number;
+};
+
+export type ReadReceiptView = {
+  userId: string;
+  role: GroupMemberRole;
+  readAt: Date | null;
+};
+
+/**
+ * Group Chat Service
+ *
+ * Group conversations tied to trainer allocations: the trainer, the allocated students,
+ * their guardians and admin observers. Trainer and student membership is driven by
+ * allocation events (TRAINER_ALLOCATED, STUDENT_DEALLOCATED, SESSION_SUBSTITUTED);
+ * guardians and observers are added by admins.
+ *
+ * Members are never deleted, only marked as left, so message history and read receipts
+ * stay intact. Admin observers can read but not post.
+ */
+export class GroupChatService {
+  constructor(private readonly moderation: ModerationService = new ModerationService()) {}
+
+  /**
+   * Create the group for an allocation, or bring an existing group in line with it
+   * (new trainer on reallocation, student rejoining). A new allocation for a 1-on-2 / 1-on-3
+   * class joins its batch's group (same trainer, course and time slot) while it has room.
+   */
+  async syncAllocation(input: AllocationMembershipInput): Promise<GroupConversationDocument> {
+    const now = new Date();
+    let conversation = (await GroupConversation.findOne({
+      allocationIds: input.allocationId,
+    })) as GroupConversationDocument | null;
+
+    if (!conversation) {
+      const batch = await this.findBatchConversation(input, now);
+      if (batch) {
+        return this.linkAllocation(String(batch._id), input);
+      }
+
+      const isBatch = !!input.groupSize && input.groupSize > 1 && !!input.courseId && !!input.timeSlot;
+      conversation = (await GroupConversation.create({
+        allocationIds: [input.allocationId],
+        courseId: input.courseId ?? null,
+        classSize: isBatch ? input.groupSize : null,
+        timeSlot: isBatch ? input.timeSlot : null,
+        members: [
+          this.newMember(input.trainerId, 'trainer', { allocationId: input.allocationId }),
+          this.newMember(input.studentId, 'student', { allocationId: input.allocationId }),
+        ],
+      })) as GroupConversationDocument;
+
+      logger.info('Group conversation created for allocation', {
+        conversationId: String(conversation._id),
+        allocationId: input.allocationId,
+        service: 'chat-service',
+      });
+      return conversation;
+    }
+
+    const changes: string[] = [];
+
+    const trainer = this.findMember(conversation, input.trainerId, 'trainer');
+    if (!trainer || !this.isActive(trainer, now) || trainer.expiresAt) {
+      // Previous trainer of this allocation leaves unless another allocation in the group still uses them
+      for (const member of conversation.members) {
+        if (
+          member.role === 'trainer' &&
+          member.userId !== input.trainerId &&
+          member.allocationId === input.allocationId &&
+          this.isActive(member, now)
+        ) {
+          member.leftAt = now;
+          changes.push(`${member.userId} left as trainer`);
+        }
+      }
+      this.activateMember(conversation, input.trainerId, 'trainer', { allocationId: input.allocationId });
+      changes.push(`${input.trainerId} joined as trainer`);
+    }
+
+    const student = this.findMember(conversation, input.studentId, 'student');
+    if (!student || !this.isActive(student, now)) {
+      this.activateMember(conversation, input.studentId, 'student', { allocationId: input.allocationId });
+      changes.push(`${input.studentId} joined as student`);
+    }
+
+    if (changes.length > 0) {
+      conversation.markModified('members');
+      await conversation.save();
+      await this.postSystemMessage(conversation, 'membership_changed', { allocationId: input.allocationId, changes });
+    }
+
+    return conversation;
+  }
+
+  /**
+   * Attach another student's allocation to an existing group (1-on-2 / 1-on-3 classes).
+   */
+  async linkAllocation(conversationId: string, input: AllocationMembershipInput): Promise<GroupConversationDocument> {
+    const conversation = await this.getConversationOrThrow(conversationId);
+    if (conversation.allocationIds.includes(input.allocationId)) {
+      return this.syncAllocation(input);
+    }
+
+    const existing = await GroupConversation.findOne({ allocationIds: input.allocationId });
+    if (existing) {
+      throw new AppError('Allocation already belongs to another group conversation', 409);
+    }
+
+    const now = new Date();
+    const trainer = this.findMember(conversation, input.trainerId, 'trainer');
+    if (!trainer || !this.isActive(trainer, now)) {
+      throw new AppError('Allocation trainer is not the trainer of this group', 400);
+    }
+
+    conversation.allocationIds.push(input.allocationId);
+    this.activateMember(conversation, input.studentId, 'student', { allocationId: input.allocationId });
+    conversation.markModified('members');
+    await conversation.save();
+    await this.postSystemMessage(conversation, 'member_joined', { userId: input.studentId, role: 'student' });
+
+    return conversation;
+  }
+
+  /**
+   * Student leaves the group (refund, cancellation). Their guardians leave with them,
+   * and the trainer leaves once no students remain.
+   */
+  async removeAllocation(allocationId: string, studentId: string): Promise<GroupConversationDocument | null> {
+    const conversation = (await GroupConversation.findOne({ allocationIds: allocationId })) as GroupConversationDocument | null;
+    if (!conversation) {
+      return null;
+    }
+
+    const now = new Date();
+    const changes: string[] = [];
+    for (const member of conversation.members) {
+      if (!this.isActive(member, now)) continue;
+      if (
+        (member.role === 'student' && member.userId === studentId) ||
+        (member.role === 'guardian' && member.guardianOf === studentId)
+      ) {
+        member.leftAt = now;
+        changes.push(`${member.userId} left as ${member.role}`);
+      }
+    }
+
+    const hasStudents = conversation.members.some((m) => m.role === 'student' && this.isActive(m, now));
+    if (!hasStudents) {
+      for (const member of conversation.members) {
+        if (member.role === 'trainer' && this.isActive(member, now)) {
+          member.leftAt = now;
+          changes.push(`${member.userId} left as trainer`);
+        }
+      }
+    }
+
+    if (changes.length > 0) {
+      conversation.markModified('members');
+      await conversation.save();
+      await this.postSystemMessage(conversation, 'membership_changed', { allocationId, changes });
+    }
+
+    return conversation;
+  }
+
+  /**
+   * A substitute trainer joins the student's groups for the day of the substituted session.
+   * The original trainer stays a member.
+   */
+  async applySubstitution(input: SubstitutionInput): Promise<number> {
+    const now = new Date();
+    const expiresAt = new Date(`${input.date}T00:00:00.000Z`);
+    if (Number.isNaN(expiresAt.getTime())) {
+      throw new AppError(`Invalid substitution date: ${input.date}`, 400);
+    }
+    expiresAt.setUTCDate(expiresAt.getUTCDate() + 1);
+
+    const conversations = (await GroupConversation.find({
+      members: {
+        $elemMatch: { userId: input.studentId, role: 'student', leftAt: null },
+      },
+      'members.userId': input.originalTrainerId,
+    })) as GroupConversationDocument[];
+
+    let updated = 0;
+    for (const conversation of conversations) {
+      const original = this.findMember(conversation, input.originalTrainerId, 'trainer');
+      if (!original || !this.isActive(original, now)) continue;
+
+      const substitute = this.findMember(conversation, input.substituteTrainerId, 'trainer');
+      if (substitute && this.isActive(substitute, now) && !substitute.expiresAt) {
+        continue; // Already a regular trainer of this group
+      }
+
+      this.activateMember(conversation, input.substituteTrainerId, 'trainer', {
+        allocationId: original.allocationId,
+        expiresAt,
+      });
+      conversation.markModified('members');
+      await conversation.save();
+      await this.postSystemMessage(conversation, 'member_joined', {
+        userId: input.substituteTrainerId,
+        role: 'trainer',
+        substituteFor: input.originalTrainerId,
+        until: expiresAt.toISOString(),
+      });
+      updated += 1;
+    }
+
+    return updated;
+  }
+
+  async addMember(input: AddGroupMemberInput): Promise<GroupConversationDocument> {
+    const conversation = await this.getConversationOrThrow(input.conversationId);
+    const now = new Date();
+
+    let guardianOf: string | null = null;
+    if (input.role === 'guardian') {
+      const student = input.guardianOf ? this.findMember(conversation, input.guardianOf, 'student') : undefined;
+      if (!student || !this.isActive(student, now)) {
+        throw new AppError('Guardians must be linked to an active student of the group', 400);
+      }
+      guardianOf = student.userId;
+    }
+
+    const existing = this.findMember(conversation, input.userId, input.role);
+    if (existing && this.isActive(existing, now)) {
+      return conversation;
+    }
+
+    this.activateMember(conversation, input.userId, input.role, { guardianOf });
+    conversation.markModified('members');
+    await conversation.save();
+    await this.postSystemMessage(conversation, 'member_joined', {
+      userId: input.userId,
+      role: input.role,
+      addedBy: input.addedBy ?? null,
+    });
+
+    return conversation;
+  }
+
+  async removeMember(conversationId: string, userId: string, removedBy: string | null = null): Promise<GroupConversationDocument> {
+    const conversation = await this.getConversationOrThrow(conversationId);
+    const now = new Date();
+
+    const active = conversation.members.filter((m) => m.userId === userId && this.isActive(m, now));
+    if (active.length === 0) {
+      throw new AppError('User is not a member of this group', 404);
+    }
+
+    active.forEach((member) => {
+      member.leftAt = now;
+    });
+    conversation.markModified('members');
+    await conversation.save();
+    await this.postSystemMessage(conversation, 'member_left', { userId, removedBy });
+
+    return conversation;
+  }
+
+  async sendMessage(input: SendGroupMessageInput): Promise<GroupMessageDocument> {
+    const conversation = await this.getConversationOrThrow(input.conversationId);
+    const member = this.requireActiveMember(conversation, input.senderId);
+
+    if (member.role === 'admin_observer') {
+      throw new AppError('Admin observers cannot post in group conversations', 403);
+    }
+
+    // Same moderation pipeline as one-to-one chat and doubts
+    const verdict = await this.moderation.check({
+      userId: input.senderId,
+      userRole: member.role,
+      source: 'group_message',
+      content: input.content,
+      contextId: input.conversationId,
+    });
+
+    const sentAt = new Date();
+    const message = (await GroupMessage.create({
+      conversationId: conversation._id,
+      senderId: input.senderId,
+      senderRole: member.role,
+      content: encryptMessage(input.content),
+      type: 'text',
+      metadata: input.metadata ?? null,
+      readBy: [],
+      sentAt,
+    })) as GroupMessageDocument;
+
+    await GroupConversation.updateOne({ _id: conversation._id }, { $set: { lastMessageAt: sentAt } });
+    await this.moderation.recordFlag(verdict, String(message._id));
+    return message;
+  }
+
+  async getMessages(
+    options: GroupMessagesOptions,
+  ): Promise<{ items: GroupMessageDocument[]; nextCursor: string | null }> {
+    const conversation = await this.getConversationOrThrow(options.conversationId);
+    this.requireActiveMember(conversation, options.userId);
+
+    const limit = Math.min(Math.max(options.limit ?? 50, 1), 100);
+    const query: Record<string, unknown> = { conversationId: conversation._id };
+
+    if (options.cursor) {
+      const cursorDate = new Date(options.cursor);
+      if (!Number.isNaN(cursorDate.getTime())) {
+        query.sentAt = { $lt: cursorDate };
+      }
+    }
+
+    const messages = (await GroupMessage.find(query).sort({ sentAt: -1 }).limit(limit).exec()) as GroupMessageDocument[];
+    const nextCursor = messages.length === limit ? messages[messages.length - 1]!.sentAt.toISOString() : null;
+
+    return {
+      items: messages.reverse(),
+      nextCursor,
+    };
+  }
+
+  async listUserGroups(options: GroupListOptions): Promise<{
+    items: Array<{
+      conversation: GroupConversationDocument;
+      role: GroupMemberRole;
+      unreadCount: number;
+    }>;
+    page: number;
+    limit: number;
+    total: number;
+  }> {
+    const limit = Math.min(Math.max(options.limit ?? 20, 1), 100);
+    const page = Math.max(options.page ?? 1, 1);
+    const filter = {
+      members: { $elemMatch: { userId: options.userId, leftAt: null } },
+    };
+
+    const [conversations, total] = await Promise.all([
+      GroupConversation.find(filter)
+        .sort({ lastMessageAt: -1, updatedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec() as Promise<GroupConversationDocument[]>,
+      GroupConversation.countDocuments(filter),
+    ]);
+
+    const now = new Date();
+    const memberships = conversations
+      .map((conversation) => ({
+        conversation,
+        member: conversation.members.find((m) => m.userId === options.userId && this.isActive(m, now)),
+      }))
+      .filter((entry): entry is { conversation: GroupConversationDocument; member: GroupMember } => !!entry.member);
+
+    const unreadCounts = await GroupMessage.aggregate([
+      {
+        $match: {
+          conversationId: { $in: memberships.map((m) => m.conversation._id) },
+          senderId: { $ne: options.userId },
+          'readBy.userId': { $ne: options.userId },
+        },
+      },
+      { $group: { _id: '$conversationId', count: { $sum: 1 } } },
+    ]);
+    const unreadMap = new Map<string, number>(unreadCounts.map((entry: any) => [String(entry._id), entry.count]));
+
+    return {
+      items: memberships.map(({ conversation, member }) => ({
+        conversation,
+        role: member.role,
+        unreadCount: unreadMap.get(String(conversation._id)) ?? 0,
+      })),
+      page,
+      limit,
+      total,
+    };
+  }
+
+  /**
+   * Record a read receipt for the member on every message they have not read yet.
+   */
+  async markRead(conversationId: string, userId: string): Promise<number> {
+    const conversation = await this.getConversationOrThrow(conversationId);
+    this.requireActiveMember(conversation, userId);
+
+    const result = await GroupMessage.updateMany(
+      {
+        conversationId: conversation._id,
+        senderId: { $ne: userId },
+        'readBy.userId': { $ne: userId },
+      },
+      { $push: { readBy: { userId, readAt: new Date() } } },
+    );
+
+    return result.modifiedCount;
+  }
+
+  /**
+   * Per-member read state of one message, for the members active when it was sent.
+   */
+  async getReadReceipts(conversationId: string, messageId: string, userId: string): Promise<ReadReceiptView[]> {
+    const conversation = await this.getConversationOrThrow(conversationId);
+    this.requireActiveMember(conversation, userId);
+
+    const message = (await GroupMessage.findOne({
+      _id: this.toObjectId(messageId),
+      conversationId: conversation._id,
+    })) as GroupMessageDocument | null;
+    if (!message) {
+      throw new AppError('Message not found', 404);
+    }
+
+    const readAtByUser = new Map(message.readBy.map((receipt) => [receipt.userId, receipt.readAt]));
+    const seen = new Set<string>();
+
+    return conversation.members
+      .filter((member) => member.userId !== message.senderId && this.isActive(member, message.sentAt))
+      .filter((member) => (seen.has(member.userId) ? false : (seen.add(member.userId), true)))
+      .map((member) => ({
+        userId: member.userId,
+        role: member.role,
+        readAt: readAtByUser.get(member.userId) ?? null,
+      }));
+  }
+
+  async getConversation(conversationId: string, userId: string): Promise<GroupConversationDocument> {
+    const conversation = await this.getConversationOrThrow(conversationId);
+    this.requireActiveMember(conversation, userId);
+    return conversation;
+  }
+
+  formatMessage(message: GroupMessageDocument) {
+    const plain = message.toObject({ virtuals: true });
+    if (plain.content) {
+      try {
+        plain.content = decryptMessage(plain.content);
+      } catch (error) {
+        logger.warn('Failed to decrypt group message content', {
+          error: error instanceof Error ? error.message : String(error),
+          messageId: plain._id?.toString(),
+          service: 'chat-service',
+        });
+      }
+    }
+    return plain;
+  }
+
+  private async postSystemMessage(
+    conversation: GroupConversationDocument,
+    event: string,
+    metadata: Record<string, unknown>,
+  ): Promise<void> {
+    const sentAt = new Date();
+    await GroupMessage.create({
+      conversationId: conversation._id,
+      senderId: null,
+      senderRole: null,
+      content: null,
+      type: 'system',
+      metadata: { event, ...metadata },
+      readBy: [],
+      sentAt,
+    });
+    await GroupConversation.updateOne({ _id: conversation._id }, { $set: { lastMessageAt: sentAt } });
+  }
+
+  /**
+   * Group of the same trainer, course and time slot that still has a free student seat
+   */
+  private async findBatchConversation(
+    input: AllocationMembershipInput,
+    now: Date,
+  ): Promise<GroupConversationDocument | null> {
+    if (!input.groupSize || input.groupSize <= 1 || !input.courseId || !input.timeSlot) {
+      return null;
+    }
+
+    const candidates = (await GroupConversation.find({
+      courseId: input.courseId,
+      timeSlot: input.timeSlot,
+      classSize: input.groupSize,
+      members: { $elemMatch: { userId: input.trainerId, role: 'trainer', leftAt: null } },
+    }).sort({ createdAt: 1 })) as GroupConversationDocument[];
+
+    return (
+      candidates.find((candidate) => {
+        const students = candidate.members.filter((m) => m.role === 'student' && this.isActive(m, now));
+        return students.length > 0 && students.length < input.groupSize! && !students.some((m) => m.userId === input.studentId);
+      }) ?? null
+    );
+  }
+
+  private async getConversationOrThrow(conversationId: string): Promise<GroupConversationDocument> {
+    const conversation = (await GroupConversation.findById(this.toObjectId(conversationId))) as GroupConversationDocument | null;
+    if (!conversation) {
+      throw new AppError('Group conversation not found', 404);
+    }
+    return conversation;
+  }
+
+  private requireActiveMember(conversation: GroupConversationDocument, userId: string): GroupMember {
+    const now = new Date();
+    const active = conversation.members.filter((m) => m.userId === userId && this.isActive(m, now));
+    if (active.length === 0) {
+      throw new AppError('You are not a member of this group conversation', 403);
+    }
+    // A user holding several roles posts with the strongest one
+    const rank: Record<GroupMemberRole, number> = { trainer: 0, student: 1, guardian: 2, admin_observer: 3 };
+    return active.sort((a, b) => rank[a.role] - rank[b.role])[0]!;
+  }
+
+  private findMember(
+    conversation: GroupConversationDocument,
+    userId: string,
+    role: GroupMemberRole,
+  ): GroupMember | undefined {
+    return conversation.members.find((m) => m.userId === userId && m.role === role);
+  }
+
+  private activateMember(
+    conversation: GroupConversationDocument,
+    userId: string,
+    role: GroupMemberRole,
+    options: { allocationId?: string | null; guardianOf?: string | null; expiresAt?: Date | null } = {},
+  ): void {
+    const existing = this.findMember(conversation, userId, role);
+    if (existing) {
+      const now = new Date();
+      if (!this.isActive(existing, now)) {
+        existing.joinedAt = now; // Rejoining: history before this point stays hidden from receipts
+      }
+      existing.leftAt = null;
+      existing.expiresAt = options.expiresAt ?? null;
+      existing.allocationId = options.allocationId ?? existing.allocationId;
+      existing.guardianOf = options.guardianOf ?? existing.guardianOf;
+      return;
+    }
+    conversation.members.push(this.newMember(userId, role, options));
+  }
+
+  private newMember(
+    userId: string,
+    role: GroupMemberRole,
+    options: { allocationId?: string | null; guardianOf?: string | null; expiresAt?: Date | null } = {},
+  ): GroupMember {
+    return {
+      userId,
+      role,
+      guardianOf: options.guardianOf ?? null,
+      allocationId: options.allocationId ?? null,
+      joinedAt: new Date(),
+      leftAt: null,
+      expiresAt: options.expiresAt ?? null,
+    };
+  }
+
+  private isActive(member: GroupMember, at: Date): boolean {
+    return (
+      member.joinedAt.getTime() <= at.getTime() &&
+      (!member.leftAt || member.leftAt.getTime() > at.getTime()) &&
+      (!member.expiresAt || member.expiresAt.getTime() > at.getTime())
+    );
+  }
+
+  private toObjectId(value: string): Types.ObjectId {
+    if (!Types.ObjectId.isValid(value)) {
+      throw new AppError(`Invalid id: ${value}`, 400);
+    }
+    return new Types.ObjectId(value);
+  }
+}
@@ -0,0 +1,414 @@
+import { AppError } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import { emitNotificationRequested } from '@kodingcaravan/shared/utils/notificationEventEmitter';
+import {
+  ModerationCase,
+  type ModerationAction,
+  type ModerationCaseDocument,
+  type ModerationCaseStatus,
+  type ModerationSource,
+} from '../models/moderationCase.model';
+import { ModerationStrike, type ModerationStrikeDocument, type StrikeReason } from '../models/moderationStrike.model';
+import { ModerationUserState, type ModerationUserStateDocument } from '../models/moderationUserState.model';
+import { decryptMessage, encryptMessage } from '../utils/encryption';
+import {
+  evaluateContent,
+  type ModerationResult,
+  type ModerationSeverity,
+  type ModerationUserRole,
+} from '../utils/moderationRules';
+
+export type ModerationCheckInput = {
+  userId: string;
+  userRole: ModerationUserRole;
+  source: ModerationSource;
+  content: string;
+  contextId?: string | null;
+};
+
+export type ModerationVerdict = ModerationResult & {
+  input: ModerationCheckInput;
+};
+
+export type ModerationCaseFilters = {
+  status?: ModerationCaseStatus;
+  severity?: ModerationSeverity;
+  source?: ModerationSource;
+  userId?: string;
+  page?: number;
+  limit?: number;
+};
+
+export type ModerationActionInput = {
+  caseId: string;
+  action: ModerationAction;
+  adminId: string;
+  notes?: string | null;
+  muteHours?: number;
+  authorization?: string; // Admin bearer token, forwarded to admin-service on escalation
+};
+
+function getNumericEnv(key: string, fallback: number): number {
+  const value = Number(process.env[key]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const CATEGORY_MESSAGES: Record<string, string> = {
+  pii: 'personal contact information',
+  abuse: 'abusive language',
+  off_platform: 'attempts to move classes, contact or payments off the platform',
+};
+
+/**
+ * Moderation Service
+ *
+ * Runs every chat message, group message, doubt and doubt reply through the moderation
+ * rules before it is stored:
+ * - allow: stored as-is
+ * - flag: stored, and an open case goes to the admin review queue
+ * - block: rejected, an open case is created and the sender gets an automatic strike
+ *
+ * Muted users cannot post. Repeated automatic strikes inside the strike window mute the
+ * user automatically; admins can warn, mute, escalate to a safety incident or dismiss.
+ */
+export class ModerationService {
+  /**
+   * Check content before it is stored. Throws for muted users and blocked content;
+   * for flagged content call recordFlag once the content has an id.
+   */
+  async check(input: ModerationCheckInput): Promise<ModerationVerdict> {
+    await this.assertNotMuted(input.userId);
+
+    const result = evaluateContent(input.content, { userRole: input.userRole });
+    const verdict: ModerationVerdict = { ...result, input };
+
+    if (result.decision === 'block') {
+      const moderationCase = await this.createCase(verdict, null);
+      await this.addStrike(input.userId, moderationCase, 'auto_block', null);
+      await this.applyAutoMute(input.userId);
+
+      const categories = [...new Set(result.matches.map((m) => m.category))];
+      throw new AppError(
+        `Your message was blocked because it contains ${categories.map((c) => CATEGORY_MESSAGES[c] ?? c).join(', ')}. Please keep all communication on the platform.`,
+        400,
+      );
+    }
+
+    return verdict;
+  }
+
+  /**
+   * Queue flagged content for review now that it has been stored
+   */
+  async recordFlag(verdict: ModerationVerdict, sourceId: string): Promise<void> {
+    if (verdict.decision !== 'flag') {
+      return;
+    }
+
+    try {
+      await this.createCase(verdict, sourceId);
+    } catch (error: any) {
+      // The content is already delivered; a missing case must not fail the request
+      logger.error('Failed to record moderation case', {
+        error: error?.message || String(error),
+        userId: verdict.input.userId,
+        source: verdict.input.source,
+        sourceId,
+        service: 'chat-service',
+      });
+    }
+  }
+
+  async listCases(filters: ModerationCaseFilters): Promise<{
+    items: ModerationCaseDocument[];
+    page: number;
+    limit: number;
+    total: number;
+  }> {
+    const limit = Math.min(Math.max(filters.limit ?? 20, 1), 100);
+    const page = Math.max(filters.page ?? 1, 1);
+    const query: Record<string, unknown> = { status: filters.status ?? 'open' };
+    if (filters.severity) query.severity = filters.severity;
+    if (filters.source) query.source = filters.source;
+    if (filters.userId) query.userId = filters.userId;
+
+    const [items, total] = await Promise.all([
+      ModerationCase.find(query)
+        .sort({ score: -1, createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec() as Promise<ModerationCaseDocument[]>,
+      ModerationCase.countDocuments(query),
+    ]);
+
+    return { items, page, limit, total };
+  }
+
+  async getCase(caseId: string): Promise<ModerationCaseDocument> {
+    const moderationCase = (await ModerationCase.findById(caseId)) as ModerationCaseDocument | null;
+    if (!moderationCase) {
+      throw new AppError('Moderation case not found', 404);
+    }
+    return moderationCase;
+  }
+
+  async applyAction(input: ModerationActionInput): Promise<ModerationCaseDocument> {
+    const moderationCase = await this.getCase(input.caseId);
+    if (moderationCase.status !== 'open') {
+      throw new AppError(`Moderation case is already ${moderationCase.status}`, 409);
+    }
+
+    const now = new Date();
+    switch (input.action) {
+      case 'warn':
+        await this.addStrike(moderationCase.userId, moderationCase, 'warning', input.adminId);
+        await this.notifyUser(
+          moderationCase,
+          'Community guidelines warning',
+          'One of your messages broke our community guidelines. Repeated violations can lead to your account being muted.',
+        );
+        break;
+
+      case 'mute': {
+        const muteHours = input.muteHours ?? getNumericEnv('MODERATION_DEFAULT_MUTE_HOURS', 24);
+        const mutedUntil = new Date(now.getTime() + muteHours * 60 * 60 * 1000);
+        await this.addStrike(moderationCase.userId, moderationCase, 'mute', input.adminId);
+        await this.mute(moderationCase.userId, mutedUntil, `Moderation case ${moderationCase._id}`, input.adminId);
+        moderationCase.muteUntil = mutedUntil;
+        await this.notifyUser(
+          moderationCase,
+          'Messaging paused',
+          `You cannot send messages until ${mutedUntil.toISOString()} because of a community guidelines violation.`,
+        );
+        break;
+      }
+
+      case 'escalate':
+        moderationCase.incidentId = await this.createSafetyIncident(moderationCase, input);
+        await this.addStrike(moderationCase.userId, moderationCase, 'escalation', input.adminId);
+        break;
+
+      case 'dismiss':
+        await ModerationStrike.updateMany({ caseId: moderationCase._id }, { $set: { voided: true } });
+        break;
+
+      default:
+        throw new AppError(`Unknown moderation action: ${String(input.action)}`, 400);
+    }
+
+    moderationCase.status = input.action === 'dismiss' ? 'dismissed' : 'actioned';
+    moderationCase.action = input.action;
+    moderationCase.actionedBy = input.adminId;
+    moderationCase.actionedAt = now;
+    moderationCase.notes = input.notes ?? null;
+    await moderationCase.save();
+
+    logger.info('Moderation action applied', {
+      caseId: String(moderationCase._id),
+      action: input.action,
+      adminId: input.adminId,
+      userId: moderationCase.userId,
+      service: 'chat-service',
+    });
+
+    return moderationCase;
+  }
+
+  async getUserHistory(userId: string): Promise<{
+    userId: string;
+    activeStrikes: number;
+    strikes: ModerationStrikeDocument[];
+    mutedUntil: Date | null;
+    recentCases: ModerationCaseDocument[];
+  }> {
+    const [strikes, state, recentCases] = await Promise.all([
+      ModerationStrike.find({ userId }).sort({ createdAt: -1 }).limit(100).exec() as Promise<ModerationStrikeDocument[]>,
+      ModerationUserState.findOne({ userId }) as Promise<ModerationUserStateDocument | null>,
+      ModerationCase.find({ userId }).sort({ createdAt: -1 }).limit(20).exec() as Promise<ModerationCaseDocument[]>,
+    ]);
+
+    const mutedUntil = state?.mutedUntil && state.mutedUntil > new Date() ? state.mutedUntil : null;
+    return {
+      userId,
+      activeStrikes: strikes.filter((strike) => !strike.voided).length,
+      strikes,
+      mutedUntil,
+      recentCases,
+    };
+  }
+
+  formatCase(moderationCase: ModerationCaseDocument) {
+    const plain = moderationCase.toObject({ virtuals: true });
+    try {
+      plain.content = decryptMessage(plain.content);
+    } catch (error) {
+      logger.warn('Failed to decrypt moderation case content', {
+        error: error instanceof Error ? error.message : String(error),
+        caseId: plain._id?.toString(),
+        service: 'chat-service',
+      });
+    }
+    return plain;
+  }
+
+  private async assertNotMuted(userId: string): Promise<void> {
+    const state = (await ModerationUserState.findOne({ userId })) as ModerationUserStateDocument | null;
+    if (state?.mutedUntil && state.mutedUntil > new Date()) {
+      throw new AppError(`You cannot send messages until ${state.mutedUntil.toISOString()}`, 403);
+    }
+  }
+
+  private async createCase(verdict: ModerationVerdict, sourceId: string | null): Promise<ModerationCaseDocument> {
+    const moderationCase = (await ModerationCase.create({
+      userId: verdict.input.userId,
+      userRole: verdict.input.userRole,
+      source: verdict.input.source,
+      sourceId,
+      contextId: verdict.input.contextId ?? null,
+      content: encryptMessage(verdict.input.content),
+      decision: verdict.decision,
+      severity: verdict.severity,
+      score: verdict.score,
+      matches: verdict.matches,
+    })) as ModerationCaseDocument;
+
+    logger.warn('Content moderation case opened', {
+      caseId: String(moderationCase._id),
+      userId: verdict.input.userId,
+      userRole: verdict.input.userRole,
+      source: verdict.input.source,
+      decision: verdict.decision,
+      severity: verdict.severity,
+      rules: verdict.matches.map((m) => m.ruleId),
+      service: 'chat-service',
+    });
+
+    return moderationCase;
+  }
+
+  private async addStrike(
+    userId: string,
+    moderationCase: ModerationCaseDocument,
+    reason: StrikeReason,
+    issuedBy: string | null,
+  ): Promise<void> {
+    await ModerationStrike.create({
+      userId,
+      caseId: moderationCase._id,
+      reason,
+      severity: moderationCase.severity,
+      issuedBy,
+    });
+  }
+
+  /**
+   * Mute automatically once a user collects enough automatic strikes inside the window
+   */
+  private async applyAutoMute(userId: string): Promise<void> {
+    const threshold = getNumericEnv('MODERATION_AUTO_MUTE_STRIKES', 3);
+    const windowDays = getNumericEnv('MODERATION_STRIKE_WINDOW_DAYS', 30);
+    const since = new Date(Date.now() - windowDays * 24 * 60 * 60 * 1000);
+
+    const recent = await ModerationStrike.countDocuments({
+      userId,
+      voided: false,
+      createdAt: { $gte: since },
+    });
+    if (recent < threshold) {
+      return;
+    }
+
+    const muteHours = getNumericEnv('MODERATION_DEFAULT_MUTE_HOURS', 24);
+    const mutedUntil = new Date(Date.now() + muteHours * 60 * 60 * 1000);
+    await this.mute(userId, mutedUntil, `${recent} strikes in ${windowDays} days`, null);
+  }
+
+  private async mute(userId: string, mutedUntil: Date, reason: string, mutedBy: string | null): Promise<void> {
+    await ModerationUserState.updateOne(
+      { userId },
+      { $set: { mutedUntil, muteReason: reason, mutedBy } },
+      { upsert: true },
+    );
+
+    logger.warn('User muted by moderation', {
+      userId,
+      mutedUntil: mutedUntil.toISOString(),
+      reason,
+      mutedBy,
+      service: 'chat-service',
+    });
+  }
+
+  private async notifyUser(moderationCase: ModerationCaseDocument, title: string, body: string): Promise<void> {
+    if (moderationCase.userRole !== 'student' && moderationCase.userRole !== 'trainer') {
+      return;
+    }
+
+    try {
+      await emitNotificationRequested(
+        {
+          userId: moderationCase.userId,
+          role: moderationCase.userRole,
+          notificationType: 'warning',
+          title,
+          body,
+          data: { moderationCaseId: String(moderationCase._id) },
+        },
+        String(moderationCase._id),
+      );
+    } catch (error: any) {
+      logger.warn('Failed to notify user about moderation action (non-critical)', {
+        error: error?.message || String(error),
+        userId: moderationCase.userId,
+        service: 'chat-service',
+      });
+    }
+  }
+
+  /**
+   * Open a safety incident in admin-service for the case and return its id
+   */
+  private async createSafetyIncident(
+    moderationCase: ModerationCaseDocument,
+    input: ModerationActionInput,
+  ): Promise<string> {
+    const adminServiceUrl =
+      process.env.ADMIN_SERVICE_URL ||
+      `http://${process.env.SERVICES_HOST || 'localhost'}:${process.env.ADMIN_SERVICE_PORT || 3010}`;
+
+    const categories = [...new Set(moderationCase.matches.map((m) => m.category))];
+    const response = await fetch(`${adminServiceUrl}/api/v1/admin/safety/incidents/moderation`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(input.authorization ? { Authorization: input.authorization } : {}),
+      },
+      body: JSON.stringify({
+        userId: moderationCase.userId,
+        // Safety incidents only know students, trainers and admins; guardians report as the student side
+        userRole: moderationCase.userRole === 'trainer' || moderationCase.userRole === 'admin' ? moderationCase.userRole : 'student',
+        severity: moderationCase.severity === 'critical' ? 'critical' : moderationCase.severity === 'high' ? 'high' : 'medium',
+        description:
+          `Escalated from chat moderation (${moderationCase.source}): ${categories.join(', ')}` +
+          (input.notes ? ` - ${input.notes}` : ''),
+        metadata: {
+          moderationCaseId: String(moderationCase._id),
+          moderationUserRole: moderationCase.userRole,
+          source: moderationCase.source,
+          sourceId: moderationCase.sourceId,
+          contextId: moderationCase.contextId,
+          rules: moderationCase.matches.map((m) => m.ruleId),
+          escalatedBy: input.adminId,
+        },
+      }),
+    }).catch((error: Error) => {
+      throw new AppError(`Failed to reach admin-service: ${error.message}`, 502);
+    });
+
+    const payload = (await response.json().catch(() => null)) as { data?: { id?: string }; message?: string } | null;
+    if (!response.ok || !payload?.data?.id) {
+      throw new AppError(payload?.message || `Failed to create safety incident (HTTP ${response.status})`, 502);
+    }
+    return payload.data.id;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Moderation Rules Test
+ * Validates scoring, decisions, role weighting and multi-language word lists
+ */
+
+import { evaluateContent, type ModerationRuleSet } from '../moderationRules';
+
+describe('evaluateContent', () => {
+  it('allows ordinary learning conversation', () => {
+    const result = evaluateContent('Can you explain the loop example from today again?', { userRole: 'student' });
+
+    expect(result.decision).toBe('allow');
+    expect(result.score).toBe(0);
+    expect(result.matches).toHaveLength(0);
+  });
+
+  it('blocks personal contact information regardless of score', () => {
+    const result = evaluateContent('reach me at someone@example.com', { userRole: 'student' });
+
+    expect(result.decision).toBe('block');
+    expect(result.matches.map((m) => m.ruleId)).toContain('pii.email');
+    expect(result.severity).toBe('high');
+  });
+
+  it('flags social media links for review instead of blocking them', () => {
+    const result = evaluateContent('this post explains recursion well https://www.linkedin.com/posts', { userRole: 'student' });
+
+    expect(result.decision).toBe('flag');
+    expect(result.matches.map((m) => m.ruleId)).toEqual(['pii.link']);
+  });
+
+  it('flags mild abuse and blocks strong abuse', () => {
+    expect(evaluateContent('this is stupid', { userRole: 'student' }).decision).toBe('allow');
+    expect(evaluateContent('you are so stupid, idiot', { userRole: 'student' }).decision).toBe('flag');
+    expect(evaluateContent('saala harami', { userRole: 'student' }).decision).toBe('block');
+  });
+
+  it('recognises Hindi and Telugu transliterations', () => {
+    expect(evaluateContent('tum bewakoof ho, pagal', { userRole: 'student' }).matches[0]?.ruleId).toBe('abuse.hi.mild');
+    expect(evaluateContent('app bayata classes cheddam', { userRole: 'trainer' }).matches[0]?.category).toBe('off_platform');
+  });
+
+  it('weights off-platform solicitation more heavily for trainers', () => {
+    const message = 'we can do private classes';
+    const student = evaluateContent(message, { userRole: 'student' });
+    const trainer = evaluateContent(message, { userRole: 'trainer' });
+
+    expect(student.decision).toBe('flag');
+    expect(trainer.decision).toBe('block');
+    expect(trainer.score).toBe(student.score * 2);
+  });
+
+  it('caps repeated matches of a single rule', () => {
+    const result = evaluateContent('idiot idiot idiot idiot idiot idiot', { userRole: 'student' });
+
+    expect(result.matches[0]?.count).toBe(6);
+    expect(result.matches[0]?.points).toBe(3);
+  });
+
+  it('evaluates custom rule sets', () => {
+    const ruleSets: ModerationRuleSet[] = [
+      {
+        id: 'custom',
+        rules: [{ id: 'custom.word', category: 'abuse', patterns: [/\bbanana\b/gi], weight: 2, description: 'Test word' }],
+      },
+    ];
+
+    expect(evaluateContent('banana', { ruleSets }).decision).toBe('flag');
+    expect(evaluateContent('stupid idiot', { ruleSets }).decision).toBe('allow');
+  });
+});
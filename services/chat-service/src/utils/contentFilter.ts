@@ -3,17 +3,17 @@
  * Blocks personal contact information from being shared in doubts/replies
  */
 
-const PHONE_PATTERNS = [
+export const PHONE_PATTERNS = [
   /\b\d{10}\b/g, // 10 digit phone numbers
   /\b\d{3}[-.\s]?\d{3}[-.\s]?\d{4}\b/g, // Formatted phone numbers
   /\b\+?\d{1,3}[-.\s]?\(?\d{3}\)?[-.\s]?\d{3}[-.\s]?\d{4}\b/g, // International format
 ];
 
-const EMAIL_PATTERNS = [
+export const EMAIL_PATTERNS = [
   /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, // Standard email
 ];
 
-const SOCIAL_MEDIA_PATTERNS = [
+export const SOCIAL_MEDIA_PATTERNS = [
   /(?:instagram|ig|insta)[:\s]+@?[\w.]+/gi, // Require space/colon after keyword
   /(?:facebook|fb)[:\s]+[\w.]+/gi, // Require space/colon after keyword (prevents matching "fba" in words)
   /(?:twitter|tweet)[:\s]+@?[\w.]+/gi, // Require space/colon after keyword
@@ -23,7 +23,7 @@ const SOCIAL_MEDIA_PATTERNS = [
   /(?:telegram|tg)[:\s]+@?[\w.]+/gi, // Require space/colon after keyword
 ];
 
-const URL_PATTERNS = [
+export const URL_PATTERNS = [
   /(?:https?:\/\/)?(?:www\.)?(?:instagram|facebook|twitter|linkedin|snapchat|whatsapp|telegram)\.com\/[\w.]+/gi,
 ];
 
@@ -0,0 +1,235 @@
+/**
+ * Moderation Rules
+ * Pluggable rule sets and severity scoring for chat messages, doubts and doubt replies.
+ *
+ * Each rule contributes its weight once per match (capped per rule). Rules marked `block`
+ * reject the content regardless of score; otherwise the total score decides between
+ * allow, flag (delivered, queued for admin review) and block (rejected, strike recorded).
+ */
+
+import { EMAIL_PATTERNS, PHONE_PATTERNS, SOCIAL_MEDIA_PATTERNS, URL_PATTERNS } from './contentFilter';
+
+export type ModerationCategory = 'pii' | 'abuse' | 'off_platform';
+export type ModerationSeverity = 'none' | 'low' | 'medium' | 'high' | 'critical';
+export type ModerationDecision = 'allow' | 'flag' | 'block';
+export type ModerationUserRole = 'student' | 'trainer' | 'guardian' | 'admin' | 'unknown';
+
+export interface ModerationRule {
+  id: string;
+  category: ModerationCategory;
+  patterns: RegExp[];
+  weight: number;
+  block?: boolean; // Always reject on match (contact details)
+  description: string;
+}
+
+export interface ModerationRuleSet {
+  id: string;
+  rules: ModerationRule[];
+}
+
+export interface ModerationMatch {
+  ruleId: string;
+  category: ModerationCategory;
+  count: number;
+  points: number;
+  description: string;
+}
+
+export interface ModerationResult {
+  decision: ModerationDecision;
+  severity: ModerationSeverity;
+  score: number;
+  matches: ModerationMatch[];
+}
+
+// Points at which content is queued for review / rejected
+export const FLAG_THRESHOLD = 2;
+export const BLOCK_THRESHOLD = 6;
+
+// A rule counts at most this many matches, so one long rant does not dwarf everything else
+const MAX_MATCHES_PER_RULE = 3;
+
+// Trainers steering students off-platform is the costliest case for the business
+const ROLE_CATEGORY_MULTIPLIERS: Partial<Record<ModerationUserRole, Partial<Record<ModerationCategory, number>>>> = {
+  trainer: { off_platform: 2 },
+};
+
+function words(list: string[]): RegExp {
+  return new RegExp(`\\b(?:${list.join('|')})\\b`, 'gi');
+}
+
+const piiRuleSet: ModerationRuleSet = {
+  id: 'pii',
+  rules: [
+    { id: 'pii.phone', category: 'pii', patterns: PHONE_PATTERNS, weight: 4, block: true, description: 'Phone number' },
+    { id: 'pii.email', category: 'pii', patterns: EMAIL_PATTERNS, weight: 4, block: true, description: 'Email address' },
+    {
+      id: 'pii.social',
+      category: 'pii',
+      patterns: SOCIAL_MEDIA_PATTERNS,
+      weight: 4,
+      block: true,
+      description: 'Social media handle',
+    },
+    // Links are often shared for learning (articles, posts), so they go to review instead of blocking
+    {
+      id: 'pii.link',
+      category: 'pii',
+      patterns: URL_PATTERNS,
+      weight: FLAG_THRESHOLD,
+      description: 'Social media link',
+    },
+  ],
+};
+
+const abuseRuleSet: ModerationRuleSet = {
+  id: 'abuse',
+  rules: [
+    {
+      id: 'abuse.en.mild',
+      category: 'abuse',
+      patterns: [words(['idiot', 'stupid', 'dumb', 'moron', 'loser', 'shut up'])],
+      weight: 1,
+      description: 'Insult (English)',
+    },
+    {
+      id: 'abuse.en.strong',
+      category: 'abuse',
+      patterns: [words(['f+u+c+k\\w*', 'sh[i1]t\\w*', 'b[i1]tch\\w*', 'bastard\\w*', 'asshole\\w*', 'wtf'])],
+      weight: 3,
+      description: 'Profanity (English)',
+    },
+    {
+      id: 'abuse.hi.mild',
+      category: 'abuse',
+      patterns: [words(['bewakoof', 'pagal', 'gadha', 'ullu', 'nalayak', 'bakwas'])],
+      weight: 1,
+      description: 'Insult (Hindi, transliterated)',
+    },
+    {
+      id: 'abuse.hi.strong',
+      category: 'abuse',
+      patterns: [words(['chutiy\\w*', 'kamine?', 'kameena', 'harami', 'saala', 'saali', 'bhosd\\w*', 'madarchod', 'behenchod', 'gaandu'])],
+      weight: 3,
+      description: 'Profanity (Hindi, transliterated)',
+    },
+    {
+      id: 'abuse.te.mild',
+      category: 'abuse',
+      patterns: [words(['pichi', 'pichodu', 'bokka', 'chetta'])],
+      weight: 1,
+      description: 'Insult (Telugu, transliterated)',
+    },
+    {
+      id: 'abuse.te.strong',
+      category: 'abuse',
+      patterns: [words(['vedhava', 'vedava', 'lanja\\w*', 'dengu\\w*', 'dengey', 'erripuk\\w*', 'nee amma', 'nee yabba'])],
+      weight: 3,
+      description: 'Profanity (Telugu, transliterated)',
+    },
+  ],
+};
+
+const offPlatformRuleSet: ModerationRuleSet = {
+  id: 'off_platform',
+  rules: [
+    {
+      id: 'off_platform.payment',
+      category: 'off_platform',
+      patterns: [
+        /\b(?:pay|paying|payment|fees?|money)\s+(?:me\s+)?(?:directly|outside|in cash|by cash|personally)\b/gi,
+        /\b(?:gpay|g\s?pay|google\s?pay|phone\s?pe|paytm|upi(?:\s?id)?|bhim)\b/gi,
+        /\b(?:cheaper|lower|less|half)\s+(?:fee|fees|price|rate|charge)s?\b/gi,
+        /\b(?:direct|seedha|seedhe)\s+(?:payment|paise|pay)\b/gi, // Hindi
+        /\bdirect\s?ga\s+(?:pay|payment|dabbulu)\b/gi, // Telugu
+      ],
+      weight: 3,
+      description: 'Off-platform payment',
+    },
+    {
+      id: 'off_platform.contact',
+      category: 'off_platform',
+      patterns: [
+        /\b(?:call|text|message|ping|contact|whatsapp|dm)\s+me\s+(?:directly|personally|outside|on|at|privately)\b/gi,
+        /\b(?:my|personal|private)\s+(?:number|mobile|phone|contact|whatsapp)\b/gi,
+        /\b(?:mujhe|mujhse)\s+(?:direct|seedha|personally)?\s*(?:call|contact|message|baat)\b/gi, // Hindi
+        /\bmera\s+(?:number|mobile|phone)\b/gi, // Hindi
+        /\b(?:naaku|nannu)\s+(?:direct\s?ga\s+)?(?:call|message|contact)\s+(?:cheyyi|cheyandi|chey)\b/gi, // Telugu
+        /\bnaa\s+(?:number|phone|mobile)\b/gi, // Telugu
+      ],
+      weight: 3,
+      description: 'Attempt to move contact off-platform',
+    },
+    {
+      id: 'off_platform.classes',
+      category: 'off_platform',
+      patterns: [
+        /\b(?:outside|off|without)\s+(?:the\s+)?(?:app|platform|company|koding\s?caravan)\b/gi,
+        /\b(?:private|personal|separate)\s+(?:classes|class|tuition|tuitions|sessions|coaching)\b/gi,
+        /\b(?:leave|cancel|quit|stop)\s+(?:the\s+)?(?:app|platform|course)\s+(?:and|&)\s+(?:join|learn|study)\b/gi,
+        /\bapp\s+(?:ke|se)\s+bahar\b/gi, // Hindi
+        /\bapp\s+bayata\b/gi, // Telugu
+      ],
+      weight: 3,
+      description: 'Off-platform classes',
+    },
+  ],
+};
+
+const ruleSets = new Map<string, ModerationRuleSet>(
+  [piiRuleSet, abuseRuleSet, offPlatformRuleSet].map((set) => [set.id, set]),
+);
+
+/**
+ * Add or replace a rule set (e.g. a city-specific word list)
+ */
+export function registerModerationRuleSet(ruleSet: ModerationRuleSet): void {
+  ruleSets.set(ruleSet.id, ruleSet);
+}
+
+export function getModerationRuleSets(): ModerationRuleSet[] {
+  return Array.from(ruleSets.values());
+}
+
+export function severityForScore(score: number): ModerationSeverity {
+  if (score >= 10) return 'critical';
+  if (score >= BLOCK_THRESHOLD) return 'high';
+  if (score >= FLAG_THRESHOLD) return 'medium';
+  if (score > 0) return 'low';
+  return 'none';
+}
+
+/**
+ * Score content against every registered rule set
+ */
+export function evaluateContent(
+  content: string,
+  options: { userRole?: ModerationUserRole; ruleSets?: ModerationRuleSet[] } = {},
+): ModerationResult {
+  const multipliers = ROLE_CATEGORY_MULTIPLIERS[options.userRole ?? 'unknown'] ?? {};
+  const matches: ModerationMatch[] = [];
+  let blocked = false;
+
+  for (const ruleSet of options.ruleSets ?? getModerationRuleSets()) {
+    for (const rule of ruleSet.rules) {
+      let count = 0;
+      for (const pattern of rule.patterns) {
+        count += content.match(pattern)?.length ?? 0;
+      }
+      if (count === 0) continue;
+
+      const counted = Math.min(count, MAX_MATCHES_PER_RULE);
+      const points = rule.weight * counted * (multipliers[rule.category] ?? 1);
+      matches.push({ ruleId: rule.id, category: rule.category, count, points, description: rule.description });
+      blocked = blocked || rule.block === true;
+    }
+  }
+
+  const score = matches.reduce((sum, match) => sum + match.points, 0);
+  const decision: ModerationDecision =
+    blocked || score >= BLOCK_THRESHOLD ? 'block' : score >= FLAG_THRESHOLD ? 'flag' : 'allow';
+  const severity = severityForScore(blocked ? Math.max(score, BLOCK_THRESHOLD) : score);
+
+  return { decision, severity, score, matches };
+}
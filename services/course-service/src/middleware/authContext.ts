@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyAccessToken } from '@kodingcaravan/shared/utils/tokenManager';
+import { verifyAccessTokenAsync } from '@kodingcaravan/shared/utils/tokenManager';
 import logger from '@kodingcaravan/shared/config/logger';
 
 type RawUserPayload = {
@@ -25,7 +25,7 @@ function normaliseRoles(payload: RawUserPayload): string[] | undefined {
   return undefined;
 }
 
-export function attachUserContext(req: Request, res: Response, next: NextFunction): void | Response {
+export async function attachUserContext(req: Request, res: Response, next: NextFunction): Promise<void | Response> {
   const existingUser = (req as unknown as { user?: RawUserPayload }).user;
   if (existingUser) {
     next();
@@ -45,7 +45,7 @@ export function attachUserContext(req: Request, res: Response, next: NextFunctio
   }
 
   try {
-    const payload = verifyAccessToken<RawUserPayload>(token);
+    const payload = await verifyAccessTokenAsync<RawUserPayload>(token);
     (req as unknown as { user?: RawUserPayload }).user = {
       id: payload.sub || payload.userId || payload.id,
       email: payload.email,
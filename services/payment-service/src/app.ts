@@ -23,18 +23,19 @@ app.use((req, res, next) => {
 // Webhook route needs raw body for signature verification
 // Must be registered before JSON middleware
 app.post(
-	'/api/v1/payments/webhook/razorpay',
+	'/api/v1/payments/webhook/:provider',
 	express.raw({ type: 'application/json' }),
 	(req: express.Request, res: express.Response, next: express.NextFunction) => {
-		// Parse JSON from raw body
+		// Keep the raw bytes for the provider's signature check, then parse JSON
 		try {
-			(req as any).body = JSON.parse((req.body as Buffer).toString());
+			(req as any).rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from('');
+			(req as any).body = JSON.parse((req as any).rawBody.toString() || '{}');
 			next();
 		} catch (error) {
 			next(error);
 		}
 	},
-	PaymentController.handleRazorpayWebhook
+	PaymentController.handleProviderWebhook
 );
 
 app.use(express.json());
@@ -1,4 +1,5 @@
 import { createPostgresPool } from '@kodingcaravan/shared';
+import { ensureOutboxTable } from '@kodingcaravan/shared/events/outbox';
 
 export type PaymentQueryResult<T> = { rows: T[] };
 
@@ -106,6 +107,75 @@ export async function initializePaymentTables(): Promise<void> {
 			);
 		`);
 
+		// Refund ledger: one row per refund attempt, amounts reserved on payments.refunded_amount_cents
+		await client.query(`
+			ALTER TABLE payments ADD COLUMN IF NOT EXISTS refunded_amount_cents INTEGER NOT NULL DEFAULT 0;
+		`);
+
+		await client.query(`
+			CREATE TABLE IF NOT EXISTS payment_refunds (
+				id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+				payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+				student_id UUID NOT NULL,
+				amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+				status VARCHAR(20) NOT NULL DEFAULT 'pending'
+					CHECK (status IN ('pending', 'processed', 'failed')),
+				reason TEXT NOT NULL,
+				provider VARCHAR(50),
+				provider_refund_id TEXT,
+				sessions_total INTEGER,
+				sessions_completed INTEGER,
+				coins_reversed INTEGER NOT NULL DEFAULT 0,
+				revoke_access BOOLEAN NOT NULL DEFAULT false,
+				initiated_by UUID,
+				failure_reason TEXT,
+				metadata JSONB,
+				processed_at TIMESTAMPTZ,
+				created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+				updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+			);
+		`);
+
+		// Provider order id survives confirmation (provider_payment_id is replaced by the captured payment id)
+		await client.query(`
+			ALTER TABLE payments ADD COLUMN IF NOT EXISTS provider_order_id TEXT;
+		`);
+		await client.query(`
+			UPDATE payments SET provider_order_id = provider_payment_id
+			WHERE provider_order_id IS NULL AND status IN ('initiated', 'processing');
+		`);
+		await client.query(`
+			ALTER TABLE payments ADD COLUMN IF NOT EXISTS reconciliation_status VARCHAR(20);
+		`);
+		await client.query(`
+			ALTER TABLE payments ADD COLUMN IF NOT EXISTS reconciliation_note TEXT;
+		`);
+		await client.query(`
+			ALTER TABLE payments ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMPTZ;
+		`);
+
+		// Provider webhook deliveries, de-duplicated by the provider's event id
+		await client.query(`
+			CREATE TABLE IF NOT EXISTS payment_webhook_events (
+				id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+				provider VARCHAR(50) NOT NULL,
+				event_id TEXT NOT NULL,
+				event_type VARCHAR(100) NOT NULL,
+				status VARCHAR(20) NOT NULL DEFAULT 'received'
+					CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+				payment_id UUID,
+				attempts INTEGER NOT NULL DEFAULT 1,
+				error TEXT,
+				payload JSONB,
+				received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+				processed_at TIMESTAMPTZ,
+				UNIQUE(provider, event_id)
+			);
+		`);
+
+		// Transactional outbox for PURCHASE_CONFIRMED (published by OutboxRelay, see index.ts)
+		await ensureOutboxTable(client);
+
 		// Insert default coin configuration values if they don't exist
 		await client.query(`
 			INSERT INTO coin_configuration (key, value, description)
@@ -133,6 +203,19 @@ export async function initializePaymentTables(): Promise<void> {
 		await client.query(`
 			CREATE INDEX IF NOT EXISTS idx_coin_transactions_wallet ON coin_transactions(wallet_id);
 		`);
+		await client.query(`
+			CREATE INDEX IF NOT EXISTS idx_payment_refunds_payment ON payment_refunds(payment_id);
+		`);
+		await client.query(`
+			CREATE INDEX IF NOT EXISTS idx_payments_provider_order ON payments(provider, provider_order_id);
+		`);
+		await client.query(`
+			CREATE INDEX IF NOT EXISTS idx_payments_reconciliation
+			ON payments(reconciliation_status) WHERE reconciliation_status IS NOT NULL;
+		`);
+		await client.query(`
+			CREATE INDEX IF NOT EXISTS idx_payment_refunds_provider_refund ON payment_refunds(provider_refund_id);
+		`);
 		await client.query(`DROP INDEX IF EXISTS idx_coin_transactions_unique_reference;`);
 		await client.query(`
 			CREATE UNIQUE INDEX IF NOT EXISTS idx_coin_transactions_unique_reference
@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { successResponse, AppError } from '@kodingcaravan/shared';
 import logger from '@kodingcaravan/shared/config/logger';
+import { auditRequestContext } from '@kodingcaravan/shared/utils/adminAuditLog';
 import {
 	createPayment,
 	confirmPayment,
@@ -16,9 +17,14 @@ import {
 	getAllCoinConfigurationFromDB,
 	updateCoinConfigurationValue,
 	createSessionBookingPayment,
-	verifyAndConfirmRazorpayPayment,
+	verifyAndConfirmProviderPayment,
 } from '../services/payment.service';
-import { findPaymentByProviderPaymentId, type PaymentStatus } from '../models/payment.model';
+import { refundPayment, getRefundsForPayment } from '../services/refund.service';
+import { processProviderWebhook } from '../services/webhook.service';
+import { reconcilePendingPayments, getFlaggedPayments } from '../services/reconciliation.service';
+import { getPaymentProvider } from '../utils/paymentGateway';
+import type { AdminRequest } from '../middlewares/requireAdminAuth';
+import { simulateCheckout } from '../utils/providers/fakeProvider';
 
 function serializeWallet<T extends { balance: number | string }>(wallet: T): T & { balance: number } {
 	return {
@@ -209,6 +215,52 @@ export class PaymentController {
 		}
 	}
 
+	static async refundPayment(req: Request, res: Response, next: NextFunction) {
+		try {
+			const { paymentId } = req.params;
+			if (!paymentId) {
+				throw new AppError('Payment ID is required', 400);
+			}
+
+			logger.info('Refunding payment', {
+				paymentId,
+				amountCents: req.body.amountCents,
+				adminId: (req as AdminRequest).adminId,
+				correlationId: req.correlationId,
+				service: 'payment-service',
+			});
+
+			const result = await refundPayment(paymentId, {
+				...req.body,
+				initiatedBy: (req as AdminRequest).adminId ?? null,
+			});
+
+			return successResponse(res, {
+				statusCode: 201,
+				message: 'Refund initiated',
+				data: result,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async getPaymentRefunds(req: Request, res: Response, next: NextFunction) {
+		try {
+			const { paymentId } = req.params;
+			if (!paymentId) {
+				throw new AppError('Payment ID is required', 400);
+			}
+			const refunds = await getRefundsForPayment(paymentId);
+			return successResponse(res, {
+				message: 'Refunds retrieved',
+				data: refunds,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
 	static async awardCourseCompletion(req: Request, res: Response, next: NextFunction) {
 		try {
 			const result = await awardCoinsForCourseCompletion(req.body);
@@ -285,71 +337,121 @@ export class PaymentController {
 		}
 	}
 
-	static async handleRazorpayWebhook(req: Request, res: Response, next: NextFunction) {
+	static async verifyPayment(req: Request, res: Response, next: NextFunction) {
 		try {
-			const { event, payload } = req.body;
-
-
-			// Handle payment.captured event
-			if (event === 'payment.captured' || event === 'payment.authorized') {
-				const paymentEntity = payload.payment?.entity;
-				if (!paymentEntity) {
-					return res.status(400).json({ success: false, message: 'Invalid webhook payload' });
-				}
-
-				const { id: razorpayPaymentId, order_id: razorpayOrderId, status, method } = paymentEntity;
-
-				// Find payment by providerPaymentId (orderId)
-				const payment = await findPaymentByProviderPaymentId(razorpayOrderId);
-				
-				if (!payment) {
-					logger.warn('Payment not found for orderId in webhook', {
-						razorpayOrderId,
-						event,
-						service: 'payment-service',
-					});
-					return res.status(404).json({ success: false, message: 'Payment not found' });
-				}
-
-				// Determine payment status
-				let paymentStatus: PaymentStatus = 'processing';
-				if (status === 'captured' || status === 'authorized') {
-					paymentStatus = 'succeeded';
-				} else if (status === 'failed') {
-					paymentStatus = 'failed';
-				}
-
-				// Update payment status (enrollment will be handled in confirmPayment)
-				await confirmPayment(payment.id, {
-					status: paymentStatus,
-					providerPaymentId: razorpayPaymentId,
-					provider: 'razorpay',
-					paymentMethod: method || null,
+			const { paymentId } = req.params;
+			if (!paymentId) {
+				throw new AppError('Payment ID is required', 400);
+			}
+			const { orderId, providerPaymentId, signature } = req.body;
+			const payment = await verifyAndConfirmProviderPayment(paymentId, orderId, providerPaymentId, signature);
+			return successResponse(res, {
+				message: 'Payment verified',
+				data: payment,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Provider webhook (raw body, see app.ts). The provider is taken from the URL,
+	 * e.g. /webhook/razorpay or /webhook/fake. Redeliveries of the same event id are acknowledged
+	 * without being applied again.
+	 */
+	static async handleProviderWebhook(req: Request, res: Response, next: NextFunction) {
+		try {
+			const providerName = req.params.provider || 'razorpay';
+			let provider;
+			try {
+				provider = getPaymentProvider(providerName);
+			} catch (error) {
+				return res.status(404).json({ success: false, message: 'Unknown payment provider' });
+			}
+
+			const result = await processProviderWebhook(provider, {
+				rawBody: (req as any).rawBody as Buffer,
+				headers: req.headers,
+			});
+
+			return res.status(200).json({
+				success: true,
+				message: result.status === 'duplicate' ? 'Webhook already processed' : 'Webhook processed',
+				data: result,
+			});
+		} catch (error) {
+			if (error instanceof AppError && (error.statusCode === 400 || error.statusCode === 404)) {
+				logger.warn('Webhook rejected', {
+					provider: req.params.provider,
+					reason: error.message,
+					correlationId: req.correlationId,
+					service: 'payment-service',
 				});
+				return res.status(error.statusCode).json({ success: false, message: error.message });
+			}
+			next(error);
+		}
+	}
 
+	/**
+	 * Run payment reconciliation now (admin only); the job also runs on a schedule
+	 */
+	static async runReconciliation(req: Request, res: Response, next: NextFunction) {
+		try {
+			const summary = await reconcilePendingPayments(req.body ?? {});
+			return successResponse(res, {
+				message: 'Reconciliation completed',
+				data: summary,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async getFlaggedPayments(req: Request, res: Response, next: NextFunction) {
+		try {
+			const limit = req.query.limit ? Number(req.query.limit) : 50;
+			const offset = req.query.offset ? Number(req.query.offset) : 0;
+			if (Number.isNaN(limit) || limit < 1 || Number.isNaN(offset) || offset < 0) {
+				throw new AppError('Invalid pagination parameters', 400);
+			}
+			const payments = await getFlaggedPayments(limit, offset);
+			return successResponse(res, {
+				message: 'Flagged payments retrieved',
+				data: payments,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	/**
+	 * Simulate checkout for an order created by the fake provider (local development only)
+	 */
+	static async fakeCheckout(req: Request, res: Response, next: NextFunction) {
+		try {
+			try {
+				getPaymentProvider('fake');
+			} catch (error) {
+				throw new AppError('Fake payment provider is disabled', 403);
+			}
 
-				return res.status(200).json({ success: true, message: 'Webhook processed' });
+			const { orderId } = req.params;
+			if (!orderId) {
+				throw new AppError('Order ID is required', 400);
 			}
 
-			// Handle payment.failed event
-			if (event === 'payment.failed') {
-				const paymentEntity = payload.payment?.entity;
-				if (paymentEntity) {
-					const { order_id: razorpayOrderId } = paymentEntity;
-					const payment = await findPaymentByProviderPaymentId(razorpayOrderId);
-					
-					if (payment) {
-						await confirmPayment(payment.id, {
-							status: 'failed',
-							provider: 'razorpay',
-						});
-					}
-				}
-				return res.status(200).json({ success: true, message: 'Webhook processed' });
+			let result;
+			try {
+				result = simulateCheckout(orderId);
+			} catch (error) {
+				throw new AppError(error instanceof Error ? error.message : 'Unknown fake order', 404);
 			}
 
-			// Handle other events (unhandled events are logged at error level if needed)
-			return res.status(200).json({ success: true, message: 'Webhook received' });
+			return successResponse(res, {
+				message: 'Fake checkout completed',
+				data: result,
+			});
 		} catch (error) {
 			next(error);
 		}
@@ -511,10 +613,13 @@ export class PaymentController {
 				throw new AppError('Invalid configuration: key and positive value are required', 400);
 			}
 
-			// Get admin ID from request if available (from auth middleware)
-			const updatedBy = (req as any).user?.id || (req as any).admin?.id || null;
+			// Admin ID and roles from requireAdminAuth
+			const { adminId, adminRoles } = req as AdminRequest;
 
-			const updated = await updateCoinConfigurationValue(key, value, updatedBy);
+			const updated = await updateCoinConfigurationValue(key, value, adminId || null, {
+				actorRoles: adminRoles,
+				...auditRequestContext(req),
+			});
 			return successResponse(res, {
 				message: 'Coin configuration updated',
 				data: updated,
@@ -3,18 +3,28 @@ import { getServicePortSync } from '@kodingcaravan/shared';
 import { logServiceStart } from '@kodingcaravan/shared/config/logger';
 import logger from '@kodingcaravan/shared/config/logger';
 import app from './app';
-import { initializePaymentTables } from './config/database';
+import { OutboxRelay } from '@kodingcaravan/shared/events/outbox';
+import { getPool, initializePaymentTables } from './config/database';
+import { schedulePaymentReconciliation } from './jobs/paymentReconciliation';
+import { assertPaymentProvidersConfigured } from './utils/paymentGateway';
 
 let server: ReturnType<typeof app.listen> | null = null;
+let outboxRelay: OutboxRelay | null = null;
 
 async function start() {
 	try {
+		assertPaymentProvidersConfigured();
 		await initializePaymentTables();
 
+		// Publish committed outbox events to Kafka
+		outboxRelay = new OutboxRelay({ pool: getPool() });
+		outboxRelay.start();
+
 		const PORT = getServicePortSync('Payment Service', 'PAYMENT_SERVICE_PORT', 3007);
 
 		server = app.listen(PORT, () => {
 			logServiceStart('Payment Service', PORT);
+			schedulePaymentReconciliation();
 		});
 
 		server.on('error', (err: NodeJS.ErrnoException) => {
@@ -39,6 +49,7 @@ async function start() {
 		// Graceful shutdown handler
 		const gracefulShutdown = (signal: string) => {
 			logger.info(`Received ${signal}, starting graceful shutdown`, { service: 'payment-service' });
+			outboxRelay?.stop();
 			
 			if (server) {
 				server.close(() => {
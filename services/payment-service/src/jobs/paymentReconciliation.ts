@@ -0,0 +1,64 @@
+import logger from '@kodingcaravan/shared/config/logger';
+import { reconcilePendingPayments } from '../services/reconciliation.service';
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+const DEFAULT_MIN_AGE_MINUTES = 15; // Give the client verify call and webhook time to land first
+const DEFAULT_LOOKBACK_HOURS = 72;
+const DEFAULT_BATCH_SIZE = 100;
+
+function getNumericEnv(name: string, fallback: number): number {
+	const raw = process.env[name];
+	if (!raw) {
+		return fallback;
+	}
+
+	const parsed = Number(raw);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function schedulePaymentReconciliation(): void {
+	const flag = (process.env.ENABLE_PAYMENT_RECONCILIATION || 'true').toLowerCase();
+	if (flag === 'false' || flag === '0') {
+		logger.info('Payment reconciliation job disabled via configuration', { service: 'payment-service' });
+		return;
+	}
+
+	const intervalMinutes = getNumericEnv('PAYMENT_RECONCILIATION_INTERVAL_MINUTES', DEFAULT_INTERVAL_MINUTES);
+	const options = {
+		olderThanMinutes: getNumericEnv('PAYMENT_RECONCILIATION_MIN_AGE_MINUTES', DEFAULT_MIN_AGE_MINUTES),
+		lookbackHours: getNumericEnv('PAYMENT_RECONCILIATION_LOOKBACK_HOURS', DEFAULT_LOOKBACK_HOURS),
+		limit: getNumericEnv('PAYMENT_RECONCILIATION_BATCH_SIZE', DEFAULT_BATCH_SIZE),
+	};
+
+	let running = false;
+	const execute = async () => {
+		// Provider calls can be slow; never let two runs overlap in one process
+		if (running) {
+			return;
+		}
+		running = true;
+		try {
+			await reconcilePendingPayments(options);
+		} catch (error) {
+			logger.error('Payment reconciliation run failed', {
+				error: error instanceof Error ? error.message : String(error),
+				service: 'payment-service',
+			});
+		} finally {
+			running = false;
+		}
+	};
+
+	// Run once on startup without blocking
+	void execute();
+
+	setInterval(() => {
+		void execute();
+	}, intervalMinutes * 60 * 1000);
+
+	logger.info('Payment reconciliation job scheduled', {
+		intervalMinutes,
+		...options,
+		service: 'payment-service',
+	});
+}
@@ -0,0 +1,44 @@
+import { Request, Response, NextFunction } from 'express';
+import { AppError, verifyAccessTokenAsync } from '@kodingcaravan/shared';
+
+/** Request after requireAdminAuth: the admin and their role codes, from the verified token */
+export interface AdminRequest extends Request {
+	adminId: string;
+	adminRoles: string[];
+}
+
+type AdminJwt = {
+	sub: string;
+	role: string;
+	roles?: string[];
+	iat?: number;
+	exp?: number;
+};
+
+export async function requireAdminAuth(req: Request, _res: Response, next: NextFunction): Promise<void> {
+	const header = req.headers.authorization;
+	if (!header || !header.startsWith('Bearer ')) {
+		return next(new AppError('Authorization header missing', 401));
+	}
+
+	const token = header.substring('Bearer '.length).trim();
+	if (!token) {
+		return next(new AppError('Access token missing', 401));
+	}
+
+	let payload: AdminJwt;
+	try {
+		payload = await verifyAccessTokenAsync<AdminJwt>(token);
+	} catch (error) {
+		return next(new AppError('Invalid or expired access token', 401));
+	}
+
+	if (!payload || payload.role !== 'admin') {
+		return next(new AppError('Admin privileges required', 403));
+	}
+
+	(req as AdminRequest).adminId = payload.sub;
+	(req as AdminRequest).adminRoles = Array.isArray(payload.roles) ? payload.roles : [];
+	next();
+}
+
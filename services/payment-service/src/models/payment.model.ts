@@ -18,6 +18,7 @@ export type PaymentStatus =
 	| 'succeeded'
 	| 'failed'
 	| 'refunded'
+	| 'partially_refunded'
 	| 'cancelled';
 
 export type PaymentRecord = {
@@ -29,15 +30,22 @@ export type PaymentRecord = {
 	paymentMethod: string | null;
 	provider: string | null;
 	providerPaymentId: string | null;
+	providerOrderId: string | null;
 	description: string | null;
 	metadata: Record<string, unknown> | null;
 	paymentUrl: string | null;
 	expiresAt: Date | null;
 	confirmedAt: Date | null;
+	refundedAmountCents: number;
+	reconciliationStatus: ReconciliationStatus | null;
+	reconciliationNote: string | null;
+	reconciledAt: Date | null;
 	createdAt: Date;
 	updatedAt: Date;
 };
 
+export type ReconciliationStatus = 'fixed' | 'flagged';
+
 export type CoinWalletRecord = {
 	id: string;
 	studentId: string;
@@ -67,11 +75,16 @@ const paymentColumns = `
 	payment_method AS "paymentMethod",
 	provider,
 	provider_payment_id AS "providerPaymentId",
+	provider_order_id AS "providerOrderId",
 	description,
 	metadata,
 	payment_url AS "paymentUrl",
 	expires_at AS "expiresAt",
 	confirmed_at AS "confirmedAt",
+	refunded_amount_cents AS "refundedAmountCents",
+	reconciliation_status AS "reconciliationStatus",
+	reconciliation_note AS "reconciliationNote",
+	reconciled_at AS "reconciledAt",
 	created_at AS "createdAt",
 	updated_at AS "updatedAt"
 `;
@@ -105,6 +118,7 @@ export async function insertPayment(
 		paymentMethod?: string | null;
 		provider?: string | null;
 		providerPaymentId?: string | null;
+		providerOrderId?: string | null;
 		description?: string | null;
 		metadata?: Record<string, unknown> | null;
 		paymentUrl?: string | null;
@@ -122,12 +136,13 @@ export async function insertPayment(
 				payment_method,
 				provider,
 				provider_payment_id,
+				provider_order_id,
 				description,
 				metadata,
 				payment_url,
 				expires_at
 			)
-			VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+			VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
 			RETURNING ${paymentColumns}
 		`,
 		[
@@ -138,6 +153,7 @@ export async function insertPayment(
 			data.paymentMethod ?? null,
 			data.provider ?? null,
 			data.providerPaymentId ?? null,
+			data.providerOrderId ?? null,
 			data.description ?? null,
 			data.metadata ?? null,
 			data.paymentUrl ?? null,
@@ -170,6 +186,7 @@ export async function findPaymentById(
 }
 
 export async function findPaymentByProviderPaymentId(
+	provider: string,
 	providerPaymentId: string,
 	client?: PaymentPoolClient
 ): Promise<PaymentRecord | null> {
@@ -177,16 +194,105 @@ export async function findPaymentByProviderPaymentId(
 		`
 			SELECT ${paymentColumns}
 			FROM payments
-			WHERE provider_payment_id = $1
+			WHERE provider = $1 AND provider_payment_id = $2
+			ORDER BY created_at DESC
+			LIMIT 1
+		`,
+		[provider, providerPaymentId],
+		client
+	);
+	return result.rows[0] ?? null;
+}
+
+/**
+ * Look up a payment by the provider's order id. provider_payment_id starts out as the
+ * order id but is replaced by the captured payment id on confirmation, so webhooks and
+ * reconciliation match on provider_order_id first.
+ */
+export async function findPaymentByProviderOrderId(
+	provider: string,
+	orderId: string,
+	client?: PaymentPoolClient
+): Promise<PaymentRecord | null> {
+	const result = await query<PaymentRecord>(
+		`
+			SELECT ${paymentColumns}
+			FROM payments
+			WHERE provider = $1 AND provider_order_id = $2
 			ORDER BY created_at DESC
 			LIMIT 1
 		`,
-		[providerPaymentId],
+		[provider, orderId],
 		client
 	);
 	return result.rows[0] ?? null;
 }
 
+/**
+ * Payments still waiting on the provider that are old enough for the client flow to have
+ * finished. Oldest first so a backlog drains in order.
+ */
+export async function listPaymentsPendingReconciliation(
+	options: { olderThanMinutes: number; lookbackHours: number; limit: number },
+	client?: PaymentPoolClient
+): Promise<PaymentRecord[]> {
+	const result = await query<PaymentRecord>(
+		`
+			SELECT ${paymentColumns}
+			FROM payments
+			WHERE status IN ('initiated', 'processing')
+				AND provider_order_id IS NOT NULL
+				AND created_at < NOW() - ($1::int * INTERVAL '1 minute')
+				AND created_at > NOW() - ($2::int * INTERVAL '1 hour')
+				AND (reconciliation_status IS NULL OR reconciliation_status <> 'flagged')
+			ORDER BY created_at ASC
+			LIMIT $3
+		`,
+		[options.olderThanMinutes, options.lookbackHours, options.limit],
+		client
+	);
+	return result.rows;
+}
+
+export async function markPaymentReconciled(
+	id: string,
+	status: ReconciliationStatus,
+	note: string,
+	client?: PaymentPoolClient
+): Promise<void> {
+	await query(
+		`
+			UPDATE payments
+			SET reconciliation_status = $1,
+				reconciliation_note = $2,
+				reconciled_at = NOW(),
+				updated_at = NOW()
+			WHERE id = $3
+		`,
+		[status, note, id],
+		client
+	);
+}
+
+export async function listFlaggedPayments(
+	limit: number,
+	offset: number,
+	client?: PaymentPoolClient
+): Promise<PaymentRecord[]> {
+	const result = await query<PaymentRecord>(
+		`
+			SELECT ${paymentColumns}
+			FROM payments
+			WHERE reconciliation_status = 'flagged'
+			ORDER BY reconciled_at DESC
+			LIMIT $1 OFFSET $2
+		`,
+		[limit, offset],
+		client
+	);
+	return result.rows;
+}
+
 export async function updatePayment(
 	id: string,
 	updates: Partial<{
@@ -199,7 +305,8 @@ export async function updatePayment(
 		metadata: Record<string, unknown> | null;
 		confirmedAt: Date | null;
 		paymentMethod: string | null;
-	}>
+	}>,
+	client?: PaymentPoolClient
 ): Promise<PaymentRecord | null> {
 	const fields: string[] = [];
 	const params: any[] = [];
@@ -244,7 +351,7 @@ export async function updatePayment(
 	}
 
 	if (!fields.length) {
-		return findPaymentById(id);
+		return findPaymentById(id, client);
 	}
 
 	params.push(id);
@@ -257,7 +364,8 @@ export async function updatePayment(
 			WHERE id = $${idx}
 			RETURNING ${paymentColumns}
 		`,
-		params
+		params,
+		client
 	);
 
 	return result.rows[0] ?? null;
@@ -0,0 +1,294 @@
+import type { PaymentPoolClient, PaymentQueryResult } from '../config/database';
+import { getPool } from '../config/database';
+import type { PaymentRecord, PaymentStatus } from './payment.model';
+
+function query<T = any>(
+	text: string,
+	params: any[] = [],
+	client?: PaymentPoolClient
+): Promise<PaymentQueryResult<T>> {
+	if (client) {
+		return client.query<T>(text, params);
+	}
+	return getPool().query<T>(text, params);
+}
+
+export type RefundStatus = 'pending' | 'processed' | 'failed';
+
+export type RefundRecord = {
+	id: string;
+	paymentId: string;
+	studentId: string;
+	amountCents: number;
+	status: RefundStatus;
+	reason: string;
+	provider: string | null;
+	providerRefundId: string | null;
+	sessionsTotal: number | null;
+	sessionsCompleted: number | null;
+	coinsReversed: number;
+	revokeAccess: boolean;
+	initiatedBy: string | null;
+	failureReason: string | null;
+	metadata: Record<string, unknown> | null;
+	processedAt: Date | null;
+	createdAt: Date;
+	updatedAt: Date;
+};
+
+export type SessionUsageRecord = {
+	allocationId: string;
+	trainerId: string | null;
+	totalSessions: number;
+	completedSessions: number;
+};
+
+const refundColumns = `
+	id,
+	payment_id AS "paymentId",
+	student_id AS "studentId",
+	amount_cents AS "amountCents",
+	status,
+	reason,
+	provider,
+	provider_refund_id AS "providerRefundId",
+	sessions_total AS "sessionsTotal",
+	sessions_completed AS "sessionsCompleted",
+	coins_reversed AS "coinsReversed",
+	revoke_access AS "revokeAccess",
+	initiated_by AS "initiatedBy",
+	failure_reason AS "failureReason",
+	metadata,
+	processed_at AS "processedAt",
+	created_at AS "createdAt",
+	updated_at AS "updatedAt"
+`;
+
+/**
+ * Lock a payment row for the duration of the surrounding transaction.
+ * Serialises concurrent refunds so the refundable balance cannot be over-committed.
+ */
+export async function lockPaymentForRefund(
+	paymentId: string,
+	client: PaymentPoolClient
+): Promise<Pick<PaymentRecord, 'id' | 'status' | 'amountCents' | 'refundedAmountCents'> | null> {
+	const result = await query<Pick<PaymentRecord, 'id' | 'status' | 'amountCents' | 'refundedAmountCents'>>(
+		`
+			SELECT id, status, amount_cents AS "amountCents", refunded_amount_cents AS "refundedAmountCents"
+			FROM payments
+			WHERE id = $1
+			FOR UPDATE
+		`,
+		[paymentId],
+		client
+	);
+	return result.rows[0] ?? null;
+}
+
+export async function insertRefund(
+	data: {
+		paymentId: string;
+		studentId: string;
+		amountCents: number;
+		reason: string;
+		provider?: string | null;
+		sessionsTotal?: number | null;
+		sessionsCompleted?: number | null;
+		revokeAccess: boolean;
+		initiatedBy?: string | null;
+		metadata?: Record<string, unknown> | null;
+	},
+	client?: PaymentPoolClient
+): Promise<RefundRecord> {
+	const result = await query<RefundRecord>(
+		`
+			INSERT INTO payment_refunds (
+				payment_id,
+				student_id,
+				amount_cents,
+				reason,
+				provider,
+				sessions_total,
+				sessions_completed,
+				revoke_access,
+				initiated_by,
+				metadata
+			)
+			VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+			RETURNING ${refundColumns}
+		`,
+		[
+			data.paymentId,
+			data.studentId,
+			data.amountCents,
+			data.reason,
+			data.provider ?? null,
+			data.sessionsTotal ?? null,
+			data.sessionsCompleted ?? null,
+			data.revokeAccess,
+			data.initiatedBy ?? null,
+			data.metadata ?? null,
+		],
+		client
+	);
+
+	const record = result.rows[0];
+	if (!record) {
+		throw new Error('Failed to insert refund record');
+	}
+	return record;
+}
+
+export async function updateRefund(
+	id: string,
+	updates: {
+		status: RefundStatus;
+		providerRefundId?: string | null;
+		failureReason?: string | null;
+		coinsReversed?: number;
+	},
+	client?: PaymentPoolClient
+): Promise<RefundRecord | null> {
+	const result = await query<RefundRecord>(
+		`
+			UPDATE payment_refunds
+			SET status = $1,
+				provider_refund_id = COALESCE($2, provider_refund_id),
+				failure_reason = $3,
+				coins_reversed = COALESCE($4, coins_reversed),
+				processed_at = CASE WHEN $1 = 'processed' THEN NOW() ELSE processed_at END,
+				updated_at = NOW()
+			WHERE id = $5
+			RETURNING ${refundColumns}
+		`,
+		[
+			updates.status,
+			updates.providerRefundId ?? null,
+			updates.failureReason ?? null,
+			updates.coinsReversed ?? null,
+			id,
+		],
+		client
+	);
+	return result.rows[0] ?? null;
+}
+
+export async function findRefundByProviderRefundId(
+	provider: string,
+	providerRefundId: string,
+	client?: PaymentPoolClient
+): Promise<RefundRecord | null> {
+	const result = await query<RefundRecord>(
+		`
+			SELECT ${refundColumns}
+			FROM payment_refunds
+			WHERE provider = $1 AND provider_refund_id = $2
+			LIMIT 1
+		`,
+		[provider, providerRefundId],
+		client
+	);
+	return result.rows[0] ?? null;
+}
+
+/**
+ * Adjust the refunded total on a payment and move it to the given status.
+ * A negative delta releases an amount reserved by a refund that failed at the provider.
+ */
+export async function applyPaymentRefundDelta(
+	paymentId: string,
+	deltaCents: number,
+	status: PaymentStatus,
+	client?: PaymentPoolClient
+): Promise<void> {
+	await query(
+		`
+			UPDATE payments
+			SET refunded_amount_cents = refunded_amount_cents + $1,
+				status = $2,
+				updated_at = NOW()
+			WHERE id = $3
+		`,
+		[deltaCents, status, paymentId],
+		client
+	);
+}
+
+export async function listRefundsByPayment(
+	paymentId: string,
+	client?: PaymentPoolClient
+): Promise<RefundRecord[]> {
+	const result = await query<RefundRecord>(
+		`
+			SELECT ${refundColumns}
+			FROM payment_refunds
+			WHERE payment_id = $1
+			ORDER BY created_at DESC
+		`,
+		[paymentId],
+		client
+	);
+	return result.rows;
+}
+
+/**
+ * Coins redeemed against a payment (debited by redeemCoins with referenceId = paymentId)
+ * minus coins already returned by earlier refunds.
+ */
+export async function getReversibleCoins(
+	paymentId: string,
+	studentId: string,
+	client?: PaymentPoolClient
+): Promise<{ redeemed: number; reversed: number }> {
+	const result = await query<{ redeemed: string | number; reversed: string | number }>(
+		`
+			SELECT
+				COALESCE((
+					SELECT SUM(-amount) FROM coin_transactions
+					WHERE student_id = $2 AND reference_id = $1 AND type = 'redeem'
+				), 0) AS redeemed,
+				COALESCE((
+					SELECT SUM(coins_reversed) FROM payment_refunds
+					WHERE payment_id = $1 AND status <> 'failed'
+				), 0) AS reversed
+		`,
+		[paymentId, studentId],
+		client
+	);
+	const row = result.rows[0];
+	return {
+		redeemed: Number(row?.redeemed ?? 0),
+		reversed: Number(row?.reversed ?? 0),
+	};
+}
+
+/**
+ * Sessions consumed on the student's allocation for a course.
+ * Reads trainer_allocations/tutoring_sessions (owned by admin-service) from the shared database.
+ */
+export async function getSessionUsage(
+	studentId: string,
+	courseId: string,
+	client?: PaymentPoolClient
+): Promise<SessionUsageRecord | null> {
+	const result = await query<SessionUsageRecord>(
+		`
+			SELECT
+				ta.id AS "allocationId",
+				ta.trainer_id AS "trainerId",
+				COUNT(ts.id) FILTER (WHERE ts.status <> 'cancelled')::int AS "totalSessions",
+				COUNT(ts.id) FILTER (WHERE ts.status = 'completed')::int AS "completedSessions"
+			FROM trainer_allocations ta
+			LEFT JOIN tutoring_sessions ts ON ts.allocation_id = ta.id
+			WHERE ta.student_id = $1
+				AND ta.course_id = $2
+				AND ta.status IN ('approved', 'active', 'completed')
+			GROUP BY ta.id
+			ORDER BY ta.created_at DESC
+			LIMIT 1
+		`,
+		[studentId, courseId],
+		client
+	);
+	return result.rows[0] ?? null;
+}
@@ -0,0 +1,99 @@
+import type { PaymentPoolClient, PaymentQueryResult } from '../config/database';
+import { getPool } from '../config/database';
+
+function query<T = any>(
+	text: string,
+	params: any[] = [],
+	client?: PaymentPoolClient
+): Promise<PaymentQueryResult<T>> {
+	if (client) {
+		return client.query<T>(text, params);
+	}
+	return getPool().query<T>(text, params);
+}
+
+export type WebhookEventStatus = 'received' | 'processed' | 'ignored' | 'failed';
+
+export type WebhookEventRecord = {
+	id: string;
+	provider: string;
+	eventId: string;
+	eventType: string;
+	status: WebhookEventStatus;
+	paymentId: string | null;
+	attempts: number;
+	error: string | null;
+	payload: Record<string, unknown> | null;
+	receivedAt: Date;
+	processedAt: Date | null;
+};
+
+const webhookEventColumns = `
+	id,
+	provider,
+	event_id AS "eventId",
+	event_type AS "eventType",
+	status,
+	payment_id AS "paymentId",
+	attempts,
+	error,
+	payload,
+	received_at AS "receivedAt",
+	processed_at AS "processedAt"
+`;
+
+/**
+ * Record a provider webhook delivery and claim it for processing.
+ * Returns null when the event was already handled (or is being handled) so the caller can
+ * acknowledge a redelivery without acting on it again. Deliveries that previously failed
+ * are claimed again.
+ */
+export async function claimWebhookEvent(
+	data: {
+		provider: string;
+		eventId: string;
+		eventType: string;
+		payload: Record<string, unknown> | null;
+	},
+	client?: PaymentPoolClient
+): Promise<WebhookEventRecord | null> {
+	const result = await query<WebhookEventRecord>(
+		`
+			INSERT INTO payment_webhook_events (provider, event_id, event_type, payload)
+			VALUES ($1, $2, $3, $4)
+			ON CONFLICT (provider, event_id) DO UPDATE
+			SET status = 'received',
+				attempts = payment_webhook_events.attempts + 1,
+				error = NULL,
+				received_at = NOW()
+			WHERE payment_webhook_events.status = 'failed'
+			RETURNING ${webhookEventColumns}
+		`,
+		[data.provider, data.eventId, data.eventType, data.payload],
+		client
+	);
+	return result.rows[0] ?? null;
+}
+
+export async function completeWebhookEvent(
+	id: string,
+	updates: {
+		status: Exclude<WebhookEventStatus, 'received'>;
+		paymentId?: string | null;
+		error?: string | null;
+	},
+	client?: PaymentPoolClient
+): Promise<void> {
+	await query(
+		`
+			UPDATE payment_webhook_events
+			SET status = $1,
+				payment_id = COALESCE($2, payment_id),
+				error = $3,
+				processed_at = NOW()
+			WHERE id = $4
+		`,
+		[updates.status, updates.paymentId ?? null, updates.error ?? null, id],
+		client
+	);
+}
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { validateRequest } from '@kodingcaravan/shared';
 import { PaymentController } from '../controllers/payment.controller';
+import { requireAdminAuth } from '../middlewares/requireAdminAuth';
 import {
 	createPaymentSchema,
 	confirmPaymentSchema,
@@ -13,6 +14,9 @@ import {
 	redeemCoinsSchema,
 	createSessionBookingPaymentSchema,
 	updateCoinConfigurationSchema,
+	refundPaymentSchema,
+	verifyPaymentSchema,
+	runReconciliationSchema,
 } from '../schemas/paymentSchemas';
 
 const router: Router = Router();
@@ -27,6 +31,15 @@ router.post(
 	PaymentController.confirmPayment
 );
 
+router.post(
+	'/:paymentId/verify',
+	validateRequest({ params: paymentIdParamsSchema, body: verifyPaymentSchema }),
+	PaymentController.verifyPayment
+);
+
+// Simulated checkout for the fake provider (PAYMENT_PROVIDER=fake, local development)
+router.post('/fake/checkout/:orderId', PaymentController.fakeCheckout);
+
 router.get(
 	'/wallet/:studentId',
 	validateRequest({ params: studentIdParamsSchema }),
@@ -57,6 +70,31 @@ router.get(
 	PaymentController.verifyPurchaseStatus
 );
 
+// Provider reconciliation (admin only)
+router.post(
+	'/reconciliation/run',
+	requireAdminAuth,
+	validateRequest({ body: runReconciliationSchema }),
+	PaymentController.runReconciliation
+);
+
+router.get('/reconciliation/flagged', requireAdminAuth, PaymentController.getFlaggedPayments);
+
+// Refunds (admin only)
+router.post(
+	'/:paymentId/refunds',
+	requireAdminAuth,
+	validateRequest({ params: paymentIdParamsSchema, body: refundPaymentSchema }),
+	PaymentController.refundPayment
+);
+
+router.get(
+	'/:paymentId/refunds',
+	requireAdminAuth,
+	validateRequest({ params: paymentIdParamsSchema }),
+	PaymentController.getPaymentRefunds
+);
+
 router.post(
 	'/coins/course-completion',
 	validateRequest({ body: courseCompletionRewardSchema }),
@@ -87,10 +125,11 @@ router.post(
 	PaymentController.createSessionBookingPayment
 );
 
-// Coin configuration endpoints (admin access recommended)
+// Coin configuration endpoints (changes are admin-only and audited)
 router.get('/coins/configuration', PaymentController.getCoinConfiguration);
 router.put(
 	'/coins/configuration',
+	requireAdminAuth,
 	validateRequest({ body: updateCoinConfigurationSchema }),
 	PaymentController.updateCoinConfiguration
 );
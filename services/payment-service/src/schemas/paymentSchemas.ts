@@ -22,6 +22,12 @@ export const confirmPaymentSchema = z.object({
 	metadata: z.record(z.any()).optional(),
 });
 
+export const verifyPaymentSchema = z.object({
+	orderId: z.string().trim().min(3).max(200),
+	providerPaymentId: z.string().trim().min(3).max(200),
+	signature: z.string().trim().min(8).max(512),
+});
+
 export const paymentIdParamsSchema = z.object({
 	paymentId: z.string().uuid(),
 });
@@ -73,6 +79,21 @@ export const createSessionBookingPaymentSchema = z.object({
 	coinsToRedeem: z.number().int().nonnegative().optional(), // Number of coins to redeem (discount rate configurable via COIN_TO_RUPEE_RATE env var)
 });
 
+// Refund schema (amountCents omitted = refund the full refundable balance)
+export const refundPaymentSchema = z.object({
+	amountCents: z.number().int().positive().optional(),
+	reason: z.string().trim().min(3).max(500),
+	prorate: z.boolean().optional(),
+	revokeAccess: z.boolean().optional(),
+});
+
+// Manual reconciliation run (defaults come from the scheduled job settings)
+export const runReconciliationSchema = z.object({
+	olderThanMinutes: z.number().int().positive().max(10080).optional(),
+	lookbackHours: z.number().int().positive().max(720).optional(),
+	limit: z.number().int().positive().max(500).optional(),
+});
+
 // Coin configuration update schema
 export const updateCoinConfigurationSchema = z.object({
 	key: z.string().trim().min(1).max(100),
@@ -1,8 +1,8 @@
-import { AppError, addToRetryQueue, isRecord, httpGet, httpPut, httpPost, parseJsonResponse, isSuccessResponse, createPostgresPool } from '@kodingcaravan/shared';
-import { IdempotentEventEmitter } from '@kodingcaravan/shared/events/idempotentEventEmitter';
-import type { PurchaseConfirmedEvent } from '@kodingcaravan/shared/events/types';
-import type { Pool } from 'pg';
+import { AppError, addToRetryQueue, isRecord, httpGet, httpPut, httpPost, parseJsonResponse, isSuccessResponse } from '@kodingcaravan/shared';
+import { emitInTransaction } from '@kodingcaravan/shared/events/outbox';
+import type { CouponRedeemedEvent, PurchaseConfirmedEvent } from '@kodingcaravan/shared/events/types';
 import logger from '@kodingcaravan/shared/config/logger';
+import { appendAdminAuditLog, type AdminAuditEntryInput } from '@kodingcaravan/shared/utils/adminAuditLog';
 import {
 	changeCoinWalletBalance,
 	ensureCoinWallet,
@@ -23,8 +23,8 @@ import {
 	updateCoinConfiguration,
 	type CoinConfigurationRecord,
 } from '../models/payment.model';
-import { withTransaction } from '../config/database';
-import { createPaymentSession, verifyPaymentSignature, getPaymentDetails } from '../utils/paymentGateway';
+import { getPool, withTransaction } from '../config/database';
+import { getPaymentProvider } from '../utils/paymentGateway';
 import { calculateSessionPricing, rupeesToPaise, type SessionPricingConfig } from '../utils/pricing';
 // HTTP client utilities imported from shared package
 
@@ -189,11 +189,14 @@ export async function createPayment(input: CreatePaymentInput): Promise<{
 		throw new AppError('Amount must be greater than zero', 400);
 	}
 
-	const session = await createPaymentSession({
+	const fakeOutcome = isRecord(input.metadata) ? input.metadata.fakeOutcome : undefined;
+	const session = await getPaymentProvider().createOrder({
 		studentId: input.studentId,
 		amountCents: input.amountCents,
 		currency: input.currency ?? 'INR',
 		...(input.description ? { description: input.description } : {}),
+		// Only the fake provider reads this; it selects the simulated outcome
+		...(typeof fakeOutcome === 'string' ? { metadata: { fakeOutcome } } : {}),
 	});
 
 	const payment = await insertPayment({
@@ -204,6 +207,7 @@ export async function createPayment(input: CreatePaymentInput): Promise<{
 		paymentMethod: input.paymentMethod ?? null,
 		provider: session.provider,
 		providerPaymentId: session.providerPaymentId,
+		providerOrderId: session.orderId ?? session.providerPaymentId,
 		description: input.description ?? null,
 		metadata: input.metadata ?? null,
 		paymentUrl: session.paymentUrl,
@@ -265,6 +269,40 @@ async function enrollStudentInCourse(studentId: string, courseId: string, paymen
 	});
 }
 
+/**
+ * COUPON_REDEEMED for a succeeded payment that used a coupon, or null when no coupon was applied.
+ * booking-service consumes it to record the redemption, so campaign caps and attribution stay accurate.
+ * Coupon code comes from metadata.couponCode or metadata.pricing.couponApplied.code
+ */
+function buildCouponRedeemedEvent(payment: PaymentRecord): CouponRedeemedEvent | null {
+	if (!isRecord(payment.metadata)) {
+		return null;
+	}
+
+	const pricing = isRecord(payment.metadata.pricing) ? payment.metadata.pricing : {};
+	const couponApplied = isRecord(pricing.couponApplied) ? pricing.couponApplied : {};
+	const code = typeof payment.metadata.couponCode === 'string'
+		? payment.metadata.couponCode
+		: typeof couponApplied.code === 'string' ? couponApplied.code : undefined;
+
+	if (!code) {
+		return null;
+	}
+
+	return {
+		type: 'COUPON_REDEEMED',
+		timestamp: Date.now(),
+		userId: payment.studentId,
+		role: 'student',
+		paymentId: payment.id,
+		studentId: payment.studentId,
+		couponCode: code,
+		discountApplied: parseFloat(String(pricing.discountAmount ?? '0')) || 0,
+		courseId: typeof payment.metadata.courseId === 'string' ? payment.metadata.courseId : null,
+		amountCents: payment.amountCents,
+	};
+}
+
 /**
  * Invalidate student cache after purchase creation
  * This ensures purchased courses appear immediately in student screens
@@ -667,6 +705,17 @@ export async function confirmPayment(
 		throw new AppError('Payment already marked as succeeded', 409);
 	}
 
+	// Refunds are recorded through refundPayment; late provider callbacks must not revive the payment
+	if (existing.status === 'refunded' || existing.status === 'partially_refunded') {
+		logger.info('Ignoring status update for refunded payment', {
+			paymentId,
+			currentStatus: existing.status,
+			requestedStatus: updates.status,
+			service: 'payment-service',
+		});
+		return existing;
+	}
+
 		// Merge metadata instead of replacing it to preserve courseId
 		let mergedMetadata = existing.metadata;
 	if (updates.metadata || existing.metadata) {
@@ -683,16 +732,57 @@ export async function confirmPayment(
 		service: 'payment-service',
 	});
 
-	const next = await updatePayment(paymentId, {
-		status: updates.status,
-		providerPaymentId: updates.providerPaymentId ?? existing.providerPaymentId,
-		provider: updates.provider ?? existing.provider,
-		paymentMethod: updates.paymentMethod ?? existing.paymentMethod,
-		description: updates.description ?? existing.description,
-		metadata: mergedMetadata,
-		confirmedAt: updates.status === 'succeeded' ? new Date() : existing.confirmedAt,
-		paymentUrl: updates.status === 'succeeded' ? null : existing.paymentUrl,
-		expiresAt: updates.status === 'succeeded' ? null : existing.expiresAt,
+	// PURCHASE_CONFIRMED and COUPON_REDEEMED go into the outbox in the same transaction as the
+	// status change, so a crash after commit cannot lose them; OutboxRelay publishes them to Kafka
+	const next = await withTransaction(async (client) => {
+		const updated = await updatePayment(paymentId, {
+			status: updates.status,
+			providerPaymentId: updates.providerPaymentId ?? existing.providerPaymentId,
+			provider: updates.provider ?? existing.provider,
+			paymentMethod: updates.paymentMethod ?? existing.paymentMethod,
+			description: updates.description ?? existing.description,
+			metadata: mergedMetadata,
+			confirmedAt: updates.status === 'succeeded' ? new Date() : existing.confirmedAt,
+			paymentUrl: updates.status === 'succeeded' ? null : existing.paymentUrl,
+			expiresAt: updates.status === 'succeeded' ? null : existing.expiresAt,
+		}, client);
+
+		const courseId = isRecord(updated?.metadata) && typeof updated.metadata.courseId === 'string'
+			? updated.metadata.courseId
+			: undefined;
+		if (updated && isBecomingSucceeded && updated.status === 'succeeded' && courseId) {
+			const event: PurchaseConfirmedEvent = {
+				type: 'PURCHASE_CONFIRMED',
+				timestamp: Date.now(),
+				userId: updated.studentId,
+				role: 'student',
+				paymentId: updated.id,
+				studentId: updated.studentId,
+				courseId,
+				amountCents: updated.amountCents,
+				metadata: updated.metadata as Record<string, unknown> || {},
+			};
+
+			// Correlation ID = paymentId (ensures same payment doesn't emit duplicate events)
+			await emitInTransaction(client, event, {
+				correlationId: updated.id,
+				source: process.env.SERVICE_NAME || 'payment-service',
+				idempotencyKey: `payment:${updated.id}:PURCHASE_CONFIRMED`,
+			});
+		}
+
+		const couponEvent = updated && isBecomingSucceeded && updated.status === 'succeeded'
+			? buildCouponRedeemedEvent(updated)
+			: null;
+		if (couponEvent) {
+			await emitInTransaction(client, couponEvent, {
+				correlationId: updated!.id,
+				source: process.env.SERVICE_NAME || 'payment-service',
+				idempotencyKey: `payment:${updated!.id}:COUPON_REDEEMED`,
+			});
+		}
+
+		return updated;
 	});
 
 	if (!next) {
@@ -784,83 +874,16 @@ export async function confirmPayment(
 			}
 		}
 		
-		// ENTERPRISE FLOW: Emit PURCHASE_CONFIRMED event (fire-and-forget)
+		// ENTERPRISE FLOW: PURCHASE_CONFIRMED was recorded in the outbox with the status update
 		// All downstream processing (purchase creation, allocation, sessions) happens asynchronously
 		if (courseId) {
-			try {
-				// Initialize event emitter with shared PostgreSQL pool
-				// Use shared pool to ensure same database connection
-				const sharedPool = createPostgresPool({
-					max: 10,
-					connectionTimeoutMillis: 20000,
-				}) as unknown as Pool;
-				
-				const eventEmitter = new IdempotentEventEmitter({
-					pool: sharedPool,
-					serviceName: process.env.SERVICE_NAME || 'payment-service',
-					eventVersion: '1.0.0',
-				});
-
-				// Emit PURCHASE_CONFIRMED event
-				const event: PurchaseConfirmedEvent = {
-					type: 'PURCHASE_CONFIRMED',
-					timestamp: Date.now(),
-					userId: next.studentId,
-					role: 'student',
-					paymentId: next.id,
-					studentId: next.studentId,
-					courseId,
-					amountCents: next.amountCents,
-					metadata: next.metadata as Record<string, unknown> || {},
-				};
-
-				logger.info('Emitting PURCHASE_CONFIRMED event', {
-					paymentId: next.id,
-					studentId: next.studentId,
-					courseId,
-					eventType: event.type,
-					correlationId: next.id,
-					service: 'payment-service',
-				});
-
-				// Emit event (idempotent, fire-and-forget)
-				// Correlation ID = paymentId (ensures same payment doesn't emit duplicate events)
-				await eventEmitter.emit(event, next.id, {
-					idempotencyKey: `payment:${next.id}:PURCHASE_CONFIRMED`,
-				});
-
-				logger.info('PURCHASE_CONFIRMED event emitted successfully', {
-					paymentId: next.id,
-					studentId: next.studentId,
-					courseId,
-					correlationId: next.id,
-					service: 'payment-service',
-				});
-
-				// NOTE: Purchase creation, trainer allocation, and session creation
-				// will be handled by async workers consuming this event.
-				// Payment confirmation returns immediately (< 100ms).
-			} catch (eventError: any) {
-				// Event emission failure should not fail payment confirmation
-				// Payment is already confirmed in database
-				logger.error('Failed to emit PURCHASE_CONFIRMED event (non-critical)', {
-					error: eventError?.message || 'Unknown error',
-					stack: eventError?.stack,
-					paymentId: next.id,
-					studentId: next.studentId,
-					courseId,
-					service: 'payment-service',
-				});
-				
-				// Fallback: Add to retry queue for manual processing
-				// This ensures purchase creation happens even if event emission fails
-				addToRetryQueue('purchase_creation', {
-					studentId: next.studentId,
-					courseId,
-					purchaseTier: 30, // Default
-					metadata: next.metadata as Record<string, unknown> || {},
-				});
-			}
+			logger.info('PURCHASE_CONFIRMED event queued in outbox', {
+				paymentId: next.id,
+				studentId: next.studentId,
+				courseId,
+				correlationId: next.id,
+				service: 'payment-service',
+			});
 		} else {
 			logger.warn('Payment succeeded but no courseId in metadata', {
 				paymentId: next.id,
@@ -1071,13 +1094,42 @@ export async function getAllCoinConfigurationFromDB(): Promise<CoinConfiguration
 export async function updateCoinConfigurationValue(
 	key: string,
 	value: number,
-	updatedBy?: string | null
+	updatedBy?: string | null,
+	audit?: Pick<AdminAuditEntryInput, 'actorRoles' | 'ipAddress' | 'userAgent' | 'correlationId'>
 ): Promise<CoinConfigurationRecord> {
 	// Invalidate cache
 	coinConfigCache = null;
 	coinConfigCacheTime = 0;
 	
-	return updateCoinConfiguration(key, value, updatedBy);
+	const before = await getCoinConfiguration(key);
+	const updated = await updateCoinConfiguration(key, value, updatedBy);
+
+	// Coin values are money-like; every change goes to the admin audit log
+	try {
+		await appendAdminAuditLog(getPool(), {
+			actorId: updatedBy ?? null,
+			actorType: updatedBy ? 'admin' : 'system',
+			actorRoles: audit?.actorRoles,
+			action: 'coin_configuration.update',
+			entityType: 'coin_configuration',
+			entityId: key,
+			before: before ? { value: before.value } : null,
+			after: { value: updated.value },
+			ipAddress: audit?.ipAddress,
+			userAgent: audit?.userAgent,
+			correlationId: audit?.correlationId,
+			service: 'payment-service',
+		});
+	} catch (error: any) {
+		logger.error('Failed to write admin audit log entry', {
+			action: 'coin_configuration.update',
+			key,
+			error: error?.message || String(error),
+			service: 'payment-service',
+		});
+	}
+
+	return updated;
 }
 
 export type CreateSessionBookingPaymentInput = {
@@ -1316,41 +1368,50 @@ export async function createSessionBookingPayment(
 /**
  * Verify and confirm Razorpay payment
  */
-export async function verifyAndConfirmRazorpayPayment(
+/**
+ * Verify a checkout result returned to the client by the provider and confirm the payment.
+ * The provider is taken from the payment row, so this works for Razorpay and the fake provider alike.
+ */
+export async function verifyAndConfirmProviderPayment(
 	paymentId: string,
-	razorpayOrderId: string,
-	razorpayPaymentId: string,
-	razorpaySignature: string
+	orderId: string,
+	providerPaymentId: string,
+	signature: string
 ): Promise<PaymentRecord> {
+	const payment = await findPaymentById(paymentId);
+	if (!payment) {
+		throw new AppError('Payment not found', 404);
+	}
+
+	if (payment.providerPaymentId !== orderId && payment.providerPaymentId !== providerPaymentId) {
+		throw new AppError('Order does not belong to this payment', 400);
+	}
+
+	const provider = getPaymentProvider(payment.provider ?? undefined);
+
 	// Verify signature
-	const isValid = verifyPaymentSignature(razorpayOrderId, razorpayPaymentId, razorpaySignature);
+	const isValid = provider.verifySignature(orderId, providerPaymentId, signature);
 	if (!isValid) {
 		throw new AppError('Invalid payment signature', 400);
 	}
 
-	// Fetch payment details from Razorpay
-	const razorpayPayment = await getPaymentDetails(razorpayPaymentId);
+	// Fetch payment details from the provider
+	const providerPayment = await provider.fetchPayment(providerPaymentId);
 
 	// Determine status
 	let status: PaymentStatus = 'processing';
-	if (razorpayPayment.status === 'captured' || razorpayPayment.status === 'authorized') {
+	if (providerPayment.status === 'succeeded') {
 		status = 'succeeded';
-	} else if (razorpayPayment.status === 'failed') {
+	} else if (providerPayment.status === 'failed') {
 		status = 'failed';
 	}
 
-	// Get the payment to check for courseId in metadata
-	const payment = await findPaymentById(paymentId);
-	
-	// Confirm payment
-	const confirmedPayment = await confirmPayment(paymentId, {
+	// Confirm payment (enrollment and PURCHASE_CONFIRMED are handled in confirmPayment)
+	return confirmPayment(paymentId, {
 		status,
-		providerPaymentId: razorpayPaymentId,
-		provider: 'razorpay',
-		paymentMethod: razorpayPayment.method || null,
+		providerPaymentId,
+		provider: provider.name,
+		...(providerPayment.method ? { paymentMethod: providerPayment.method } : {}),
 	});
-
-	// Enrollment is handled in confirmPayment function
-	return confirmedPayment;
 }
 
@@ -0,0 +1,166 @@
+import logger from '@kodingcaravan/shared/config/logger';
+import {
+	listFlaggedPayments,
+	listPaymentsPendingReconciliation,
+	markPaymentReconciled,
+	type PaymentRecord,
+} from '../models/payment.model';
+import { getPaymentProvider, isKnownPaymentProvider } from '../utils/paymentGateway';
+import { confirmPayment } from './payment.service';
+
+export type ReconciliationOptions = {
+	olderThanMinutes?: number; // Leave recent payments to the client/webhook flow
+	lookbackHours?: number;
+	limit?: number;
+};
+
+export type ReconciliationOutcome = 'fixed' | 'flagged' | 'pending' | 'error';
+
+export type ReconciliationSummary = {
+	checked: number;
+	fixed: number;
+	flagged: number;
+	pending: number;
+	errors: number;
+	results: Array<{ paymentId: string; outcome: ReconciliationOutcome; note: string }>;
+};
+
+const DEFAULT_OLDER_THAN_MINUTES = 15;
+const DEFAULT_LOOKBACK_HOURS = 72;
+const DEFAULT_LIMIT = 100;
+
+/**
+ * Compare pending payments with the provider's order status.
+ *
+ * - A captured payment on the order confirms the local payment through confirmPayment
+ *   (which emits PURCHASE_CONFIRMED), e.g. when the app died after checkout and the
+ *   webhook was lost.
+ * - Once the payment session has expired with only failed attempts the payment is marked
+ *   failed, or cancelled when checkout was never attempted.
+ * - Anything that cannot be resolved safely (amount mismatch, order paid without a captured
+ *   payment, attempt still pending after expiry) is flagged for manual review and skipped
+ *   by later runs.
+ */
+export async function reconcilePendingPayments(
+	options: ReconciliationOptions = {}
+): Promise<ReconciliationSummary> {
+	const payments = await listPaymentsPendingReconciliation({
+		olderThanMinutes: options.olderThanMinutes ?? DEFAULT_OLDER_THAN_MINUTES,
+		lookbackHours: options.lookbackHours ?? DEFAULT_LOOKBACK_HOURS,
+		limit: options.limit ?? DEFAULT_LIMIT,
+	});
+
+	const summary: ReconciliationSummary = {
+		checked: payments.length,
+		fixed: 0,
+		flagged: 0,
+		pending: 0,
+		errors: 0,
+		results: [],
+	};
+
+	for (const payment of payments) {
+		let outcome: ReconciliationOutcome;
+		let note: string;
+		try {
+			({ outcome, note } = await reconcilePayment(payment));
+		} catch (error: any) {
+			outcome = 'error';
+			note = error?.message || String(error);
+			logger.error('Failed to reconcile payment', {
+				paymentId: payment.id,
+				provider: payment.provider,
+				error: note,
+				service: 'payment-service',
+			});
+		}
+
+		summary[outcome === 'error' ? 'errors' : outcome] += 1;
+		summary.results.push({ paymentId: payment.id, outcome, note });
+	}
+
+	if (summary.fixed > 0 || summary.flagged > 0 || summary.errors > 0) {
+		logger.info('Payment reconciliation completed', {
+			checked: summary.checked,
+			fixed: summary.fixed,
+			flagged: summary.flagged,
+			pending: summary.pending,
+			errors: summary.errors,
+			service: 'payment-service',
+		});
+	}
+
+	return summary;
+}
+
+export async function getFlaggedPayments(limit = 50, offset = 0): Promise<PaymentRecord[]> {
+	return listFlaggedPayments(limit, offset);
+}
+
+async function reconcilePayment(
+	payment: PaymentRecord
+): Promise<{ outcome: Exclude<ReconciliationOutcome, 'error'>; note: string }> {
+	if (!isKnownPaymentProvider(payment.provider) || !payment.providerOrderId) {
+		return flag(payment, `Unknown payment provider '${payment.provider}'`);
+	}
+
+	const provider = getPaymentProvider(payment.provider!);
+	const order = await provider.fetchOrder(payment.providerOrderId);
+	const captured = order.payments.find((attempt) => attempt.status === 'succeeded');
+
+	if (captured) {
+		if (captured.amountCents !== payment.amountCents) {
+			return flag(
+				payment,
+				`Captured amount ${captured.amountCents} does not match payment amount ${payment.amountCents}`
+			);
+		}
+
+		await confirmPayment(payment.id, {
+			status: 'succeeded',
+			providerPaymentId: captured.providerPaymentId,
+			provider: provider.name,
+			paymentMethod: captured.method,
+		});
+		return fix(payment, `Confirmed from captured provider payment ${captured.providerPaymentId}`);
+	}
+
+	if (order.status === 'paid') {
+		return flag(payment, 'Order is paid at the provider but has no captured payment');
+	}
+
+	const expired = payment.expiresAt !== null && new Date(payment.expiresAt).getTime() < Date.now();
+	if (!expired) {
+		return { outcome: 'pending', note: `Order ${order.status}; payment session still open` };
+	}
+
+	if (order.payments.some((attempt) => attempt.status === 'pending')) {
+		return flag(payment, 'Payment attempt still pending at the provider after session expiry');
+	}
+
+	const status = order.payments.length > 0 ? 'failed' : 'cancelled';
+	await confirmPayment(payment.id, { status, provider: provider.name });
+	return fix(payment, `Marked ${status}: session expired without a captured payment`);
+}
+
+async function fix(payment: PaymentRecord, note: string): Promise<{ outcome: 'fixed'; note: string }> {
+	await markPaymentReconciled(payment.id, 'fixed', note);
+	logger.info('Payment reconciled with provider', {
+		paymentId: payment.id,
+		note,
+		service: 'payment-service',
+	});
+	return { outcome: 'fixed', note };
+}
+
+async function flag(payment: PaymentRecord, note: string): Promise<{ outcome: 'flagged'; note: string }> {
+	await markPaymentReconciled(payment.id, 'flagged', note);
+	logger.warn('Payment flagged by reconciliation', {
+		paymentId: payment.id,
+		provider: payment.provider,
+		providerOrderId: payment.providerOrderId,
+		note,
+		service: 'payment-service',
+	});
+	return { outcome: 'flagged', note };
+}
@@ -0,0 +1,267 @@
+import { AppError, isRecord } from '@kodingcaravan/shared';
+import { emitInTransaction } from '@kodingcaravan/shared/events/outbox';
+import type { PurchaseRefundedEvent } from '@kodingcaravan/shared/events/types';
+import logger from '@kodingcaravan/shared/config/logger';
+import { findPaymentById, type PaymentRecord, type PaymentStatus } from '../models/payment.model';
+import {
+	applyPaymentRefundDelta,
+	getReversibleCoins,
+	getSessionUsage,
+	insertRefund,
+	listRefundsByPayment,
+	lockPaymentForRefund,
+	updateRefund,
+	type RefundRecord,
+} from '../models/refund.model';
+import { withTransaction, type PaymentPoolClient } from '../config/database';
+import { getPaymentProvider, isKnownPaymentProvider, type GatewayRefund } from '../utils/paymentGateway';
+import { adjustCoins } from './payment.service';
+
+const REFUNDABLE_STATUSES: PaymentStatus[] = ['succeeded', 'partially_refunded'];
+
+export type RefundPaymentInput = {
+	amountCents?: number; // Omit to refund the full refundable balance
+	reason: string;
+	prorate?: boolean; // Default true: cap the refund at the value of sessions not yet completed
+	revokeAccess?: boolean; // Default true for full refunds, false for partial ones
+	initiatedBy?: string | null;
+};
+
+/**
+ * Value of the sessions the student has not used yet.
+ * Without session data (or with prorate=false) the whole payment is refundable.
+ */
+export function calculateProratedCents(
+	amountCents: number,
+	sessionsTotal: number | null,
+	sessionsCompleted: number
+): number {
+	if (!sessionsTotal || sessionsTotal <= 0) {
+		return amountCents;
+	}
+	const remaining = Math.max(sessionsTotal - sessionsCompleted, 0);
+	return Math.floor((amountCents * remaining) / sessionsTotal);
+}
+
+/**
+ * Refund a succeeded payment in full or in part.
+ *
+ * The amount is reserved on payments.refunded_amount_cents under a row lock before the
+ * provider call, so concurrent refunds cannot exceed the refundable balance. If the
+ * provider rejects the refund the reservation is released. Redeemed coins are returned
+ * in proportion to the refunded amount (all remaining coins when access is revoked), and
+ * PURCHASE_REFUNDED is written to the outbox with the refund's final status so
+ * purchase-worker can deactivate the purchase and deallocate the trainer.
+ */
+export async function refundPayment(
+	paymentId: string,
+	input: RefundPaymentInput
+): Promise<{ refund: RefundRecord; payment: PaymentRecord }> {
+	const payment = await findPaymentById(paymentId);
+	if (!payment) {
+		throw new AppError('Payment not found', 404);
+	}
+
+	if (!REFUNDABLE_STATUSES.includes(payment.status)) {
+		throw new AppError(`Payment cannot be refunded in status '${payment.status}'`, 409);
+	}
+
+	if (!isKnownPaymentProvider(payment.provider) || !payment.providerPaymentId) {
+		throw new AppError('Payment has no captured provider payment to refund', 400);
+	}
+	const provider = getPaymentProvider(payment.provider!);
+
+	const metadata = isRecord(payment.metadata) ? payment.metadata : {};
+	const courseId = typeof metadata.courseId === 'string' ? metadata.courseId : null;
+	const usage = courseId ? await getSessionUsage(payment.studentId, courseId) : null;
+	const sessionsTotal = typeof metadata.sessionCount === 'number'
+		? metadata.sessionCount
+		: usage?.totalSessions || null;
+	const sessionsCompleted = usage?.completedSessions ?? 0;
+	const prorate = input.prorate ?? true;
+
+	const { refund, previousStatus } = await withTransaction(async (client) => {
+		const locked = await lockPaymentForRefund(paymentId, client);
+		if (!locked || !REFUNDABLE_STATUSES.includes(locked.status)) {
+			throw new AppError('Payment is no longer refundable', 409);
+		}
+
+		const maxRefundable = prorate
+			? calculateProratedCents(locked.amountCents, sessionsTotal, sessionsCompleted)
+			: locked.amountCents;
+		const available = maxRefundable - locked.refundedAmountCents;
+		if (available <= 0) {
+			throw new AppError('Nothing left to refund for this payment', 409);
+		}
+
+		const amountCents = input.amountCents ?? available;
+		if (amountCents > available) {
+			throw new AppError(`Refund amount exceeds refundable balance of ${available} paise`, 400);
+		}
+
+		const revokeAccess = input.revokeAccess ?? amountCents === available;
+		const fullyRefunded = locked.refundedAmountCents + amountCents >= locked.amountCents;
+		const nextStatus: PaymentStatus = revokeAccess || fullyRefunded ? 'refunded' : 'partially_refunded';
+
+		const created = await insertRefund(
+			{
+				paymentId,
+				studentId: payment.studentId,
+				amountCents,
+				reason: input.reason,
+				provider: payment.provider,
+				sessionsTotal,
+				sessionsCompleted,
+				revokeAccess,
+				initiatedBy: input.initiatedBy ?? null,
+				metadata: {
+					prorate,
+					maxRefundableCents: maxRefundable,
+					allocationId: usage?.allocationId ?? null,
+				},
+			},
+			client
+		);
+		await applyPaymentRefundDelta(paymentId, amountCents, nextStatus, client);
+
+		return { refund: created, previousStatus: locked.status };
+	});
+
+	let gatewayRefund: GatewayRefund;
+	try {
+		gatewayRefund = await provider.refund({
+			providerPaymentId: payment.providerPaymentId,
+			amountCents: refund.amountCents,
+			receipt: refund.id,
+			notes: { paymentId, refundId: refund.id },
+		});
+		if (gatewayRefund.status === 'failed') {
+			throw new Error('Refund rejected by payment provider');
+		}
+	} catch (error: any) {
+		await withTransaction(async (client) => {
+			await updateRefund(refund.id, { status: 'failed', failureReason: error?.message || String(error) }, client);
+			await applyPaymentRefundDelta(paymentId, -refund.amountCents, previousStatus, client);
+		});
+		throw new AppError(error?.message || 'Refund failed at payment provider', 502);
+	}
+
+	const coinsReversed = await reverseRedeemedCoins(payment, refund);
+
+	const { finalRefund, updatedPayment } = await withTransaction(async (client) => {
+		const updatedRefund = await updateRefund(
+			refund.id,
+			{
+				status: gatewayRefund.status,
+				providerRefundId: gatewayRefund.providerRefundId,
+				coinsReversed,
+			},
+			client
+		);
+		const finalRefund = updatedRefund ?? refund;
+		const updatedPayment = (await findPaymentById(paymentId, client)) ?? payment;
+		await emitPurchaseRefunded(client, updatedPayment, finalRefund, courseId);
+
+		return { finalRefund, updatedPayment };
+	});
+
+	logger.info('Payment refunded', {
+		paymentId,
+		refundId: refund.id,
+		amountCents: refund.amountCents,
+		providerRefundId: gatewayRefund.providerRefundId,
+		providerStatus: gatewayRefund.status,
+		sessionsTotal,
+		sessionsCompleted,
+		coinsReversed,
+		revokeAccess: refund.revokeAccess,
+		service: 'payment-service',
+	});
+
+	return { refund: finalRefund, payment: updatedPayment };
+}
+
+export async function getRefundsForPayment(paymentId: string): Promise<RefundRecord[]> {
+	const payment = await findPaymentById(paymentId);
+	if (!payment) {
+		throw new AppError('Payment not found', 404);
+	}
+	return listRefundsByPayment(paymentId);
+}
+
+/**
+ * Return coins that were redeemed against the payment. Idempotent per refund through the
+ * unique (student_id, type, reference_id) index on coin_transactions.
+ */
+async function reverseRedeemedCoins(payment: PaymentRecord, refund: RefundRecord): Promise<number> {
+	try {
+		const { redeemed, reversed } = await getReversibleCoins(payment.id, payment.studentId);
+		const remaining = redeemed - reversed;
+		if (remaining <= 0) {
+			return 0;
+		}
+
+		const coins = refund.revokeAccess
+			? remaining
+			: Math.min(Math.round((redeemed * refund.amountCents) / payment.amountCents), remaining);
+		if (coins <= 0) {
+			return 0;
+		}
+
+		await adjustCoins({
+			studentId: payment.studentId,
+			amount: coins,
+			type: 'refund_reversal',
+			referenceId: refund.id,
+			description: `Coins returned for refund of payment ${payment.id}`,
+			metadata: { paymentId: payment.id, refundId: refund.id },
+		});
+		return coins;
+	} catch (error: any) {
+		if (error instanceof AppError && error.statusCode === 409) {
+			return 0;
+		}
+		logger.error('Failed to reverse redeemed coins for refund', {
+			error: error?.message || String(error),
+			paymentId: payment.id,
+			refundId: refund.id,
+			service: 'payment-service',
+		});
+		return 0;
+	}
+}
+
+async function emitPurchaseRefunded(
+	client: PaymentPoolClient,
+	payment: PaymentRecord,
+	refund: RefundRecord,
+	courseId: string | null
+): Promise<void> {
+	const event: PurchaseRefundedEvent = {
+		type: 'PURCHASE_REFUNDED',
+		timestamp: Date.now(),
+		userId: payment.studentId,
+		role: 'student',
+		paymentId: payment.id,
+		refundId: refund.id,
+		studentId: payment.studentId,
+		courseId,
+		refundAmountCents: refund.amountCents,
+		totalRefundedCents: payment.refundedAmountCents,
+		coinsReversed: refund.coinsReversed,
+		revokeAccess: refund.revokeAccess,
+		reason: refund.reason,
+		metadata: {
+			sessionsTotal: refund.sessionsTotal,
+			sessionsCompleted: refund.sessionsCompleted,
+			initiatedBy: refund.initiatedBy,
+		},
+	};
+
+	// Correlation ID = refundId so each refund emits exactly once
+	await emitInTransaction(client, event, {
+		correlationId: refund.id,
+		source: process.env.SERVICE_NAME || 'payment-service',
+		idempotencyKey: `refund:${refund.id}:PURCHASE_REFUNDED`,
+	});
+}
@@ -0,0 +1,146 @@
+import { createHash } from 'crypto';
+import { AppError } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import { findPaymentByProviderOrderId, findPaymentByProviderPaymentId } from '../models/payment.model';
+import { findRefundByProviderRefundId, updateRefund } from '../models/refund.model';
+import { claimWebhookEvent, completeWebhookEvent } from '../models/webhookEvent.model';
+import type { PaymentProvider, ProviderWebhookEvent, WebhookRequest } from '../utils/paymentGateway';
+import { confirmPayment } from './payment.service';
+
+export type WebhookResult = {
+	status: 'processed' | 'ignored' | 'duplicate';
+	eventId: string;
+	paymentId: string | null;
+};
+
+/**
+ * Handle a provider webhook: verify the signature, de-duplicate by the provider's event id
+ * and apply the event.
+ *
+ * payment.captured / payment.failed go through confirmPayment, so PURCHASE_CONFIRMED fires
+ * even when the client never called /verify. refund.processed settles a pending refund.
+ * A delivery that fails is recorded as failed and claimed again when the provider retries.
+ */
+export async function processProviderWebhook(
+	provider: PaymentProvider,
+	request: WebhookRequest
+): Promise<WebhookResult> {
+	const event = provider.parseWebhook(request);
+	if (!event) {
+		throw new AppError('Invalid webhook signature', 400);
+	}
+
+	// Fall back to a body hash so a provider that omits the event id is still de-duplicated
+	const eventId = event.eventId ?? `sha256:${createHash('sha256').update(request.rawBody).digest('hex')}`;
+	const eventType = event.type === 'ignored' ? event.event : event.type;
+
+	const claimed = await claimWebhookEvent({
+		provider: provider.name,
+		eventId,
+		eventType,
+		payload: parsePayload(request.rawBody),
+	});
+
+	if (!claimed) {
+		logger.info('Duplicate webhook delivery ignored', {
+			provider: provider.name,
+			eventId,
+			eventType,
+			service: 'payment-service',
+		});
+		return { status: 'duplicate', eventId, paymentId: null };
+	}
+
+	try {
+		const result = await applyWebhookEvent(provider, event, eventId);
+		await completeWebhookEvent(claimed.id, {
+			status: result.status === 'ignored' ? 'ignored' : 'processed',
+			paymentId: result.paymentId,
+		});
+		return result;
+	} catch (error: any) {
+		await completeWebhookEvent(claimed.id, {
+			status: 'failed',
+			error: error?.message || String(error),
+		});
+		throw error;
+	}
+}
+
+async function applyWebhookEvent(
+	provider: PaymentProvider,
+	event: ProviderWebhookEvent,
+	eventId: string
+): Promise<WebhookResult> {
+	switch (event.type) {
+		case 'payment.succeeded':
+		case 'payment.failed': {
+			const payment = await findPaymentByProviderOrderId(provider.name, event.orderId)
+				?? await findPaymentByProviderPaymentId(provider.name, event.providerPaymentId);
+
+			if (!payment) {
+				logger.warn('Payment not found for orderId in webhook', {
+					orderId: event.orderId,
+					event: event.type,
+					provider: provider.name,
+					service: 'payment-service',
+				});
+				throw new AppError('Payment not found', 404);
+			}
+
+			// A failed attempt can arrive after a successful retry on the same order
+			if (event.type === 'payment.failed' && payment.status === 'succeeded') {
+				return { status: 'ignored', eventId, paymentId: payment.id };
+			}
+
+			// Update payment status (enrollment will be handled in confirmPayment)
+			await confirmPayment(payment.id, {
+				status: event.type === 'payment.succeeded' ? 'succeeded' : 'failed',
+				providerPaymentId: event.providerPaymentId,
+				provider: provider.name,
+				paymentMethod: event.method,
+			});
+
+			return { status: 'processed', eventId, paymentId: payment.id };
+		}
+
+		case 'refund.processed': {
+			const refund = await findRefundByProviderRefundId(provider.name, event.providerRefundId);
+
+			// Refunds issued from the provider dashboard have no local record; acknowledge them
+			if (!refund) {
+				logger.warn('Refund not found for refund.processed webhook', {
+					providerRefundId: event.providerRefundId,
+					providerPaymentId: event.providerPaymentId,
+					provider: provider.name,
+					service: 'payment-service',
+				});
+				return { status: 'ignored', eventId, paymentId: null };
+			}
+
+			if (refund.status === 'pending') {
+				await updateRefund(refund.id, { status: 'processed' });
+			} else if (refund.status === 'failed') {
+				logger.error('Provider processed a refund recorded locally as failed', {
+					refundId: refund.id,
+					paymentId: refund.paymentId,
+					providerRefundId: event.providerRefundId,
+					service: 'payment-service',
+				});
+			}
+
+			return { status: 'processed', eventId, paymentId: refund.paymentId };
+		}
+
+		case 'ignored':
+			return { status: 'ignored', eventId, paymentId: null };
+	}
+}
+
+function parsePayload(rawBody: Buffer): Record<string, unknown> | null {
+	try {
+		return JSON.parse(rawBody.toString('utf8'));
+	} catch {
+		return null;
+	}
+}
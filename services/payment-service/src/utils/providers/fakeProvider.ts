@@ -0,0 +1,287 @@
+import { createHmac, randomUUID } from 'crypto';
+import { httpPost } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import type {
+	CreatePaymentSessionInput,
+	CreateRefundInput,
+	GatewayRefund,
+	PaymentProvider,
+	PaymentSession,
+	ProviderOrder,
+	ProviderPayment,
+	ProviderWebhookEvent,
+	WebhookRequest,
+} from '../paymentGateway';
+
+/**
+ * Offline payment provider for local development and tests.
+ *
+ * Orders live in memory. The outcome of each order is fixed when it is created, from
+ * metadata.fakeOutcome or FAKE_PAYMENT_OUTCOME (default 'success'):
+ * - success:          checkout returns a valid signature, payment.captured webhook follows
+ * - failure:          checkout returns no signature, payment.failed webhook follows
+ * - timeout:          payment stays pending and no webhook is ever sent
+ * - delayed_webhook:  checkout returns nothing (app "died"); payment.captured webhook
+ *                     arrives after FAKE_PAYMENT_WEBHOOK_DELAY_MS
+ *
+ * Checkout is simulated with POST /api/v1/payments/fake/checkout/:orderId.
+ */
+
+export const FAKE_PAYMENT_OUTCOMES = ['success', 'failure', 'timeout', 'delayed_webhook'] as const;
+export type FakePaymentOutcome = (typeof FAKE_PAYMENT_OUTCOMES)[number];
+
+type FakeOrder = {
+	orderId: string;
+	amountCents: number;
+	currency: string;
+	outcome: FakePaymentOutcome;
+	paymentId: string | null;
+	status: ProviderPayment['status'];
+	refundedCents: number;
+};
+
+export type FakeCheckoutResult = {
+	orderId: string;
+	outcome: FakePaymentOutcome;
+	providerPaymentId: string | null;
+	signature: string | null;
+	status: ProviderPayment['status'];
+};
+
+const PROVIDER = 'fake';
+const FAKE_SECRET = process.env.FAKE_PAYMENT_SECRET || '';
+const FAKE_KEY_ID = 'fake_key';
+const SESSION_TTL_MINUTES = Number(process.env.PAYMENT_SESSION_TTL_MINUTES ?? 30);
+const WEBHOOK_DELAY_MS = Number(process.env.FAKE_PAYMENT_WEBHOOK_DELAY_MS ?? 5000);
+
+const orders = new Map<string, FakeOrder>();
+
+/** Fake payments and webhooks are accepted only with a FAKE_PAYMENT_SECRET; there is no default secret */
+export function isFakeProviderConfigured(): boolean {
+	return FAKE_SECRET.length > 0;
+}
+
+function sign(payload: string | Buffer): string {
+	if (!FAKE_SECRET) {
+		throw new Error('FAKE_PAYMENT_SECRET is not configured');
+	}
+	return createHmac('sha256', FAKE_SECRET).update(payload).digest('hex');
+}
+
+function shortId(prefix: string): string {
+	return `${prefix}_fake_${randomUUID().replace(/-/g, '').slice(0, 14)}`;
+}
+
+function resolveOutcome(metadata?: Record<string, unknown>): FakePaymentOutcome {
+	const requested = metadata?.fakeOutcome ?? process.env.FAKE_PAYMENT_OUTCOME ?? 'success';
+	return (FAKE_PAYMENT_OUTCOMES as readonly string[]).includes(String(requested))
+		? (requested as FakePaymentOutcome)
+		: 'success';
+}
+
+function getWebhookUrl(): string {
+	return process.env.FAKE_PAYMENT_WEBHOOK_URL ||
+		`http://localhost:${process.env.PAYMENT_SERVICE_PORT || 3007}/api/v1/payments/webhook/${PROVIDER}`;
+}
+
+function scheduleWebhook(event: 'payment.captured' | 'payment.failed', order: FakeOrder, delayMs: number): void {
+	setTimeout(() => {
+		const body = JSON.stringify({
+			id: shortId('evt'),
+			event,
+			payload: {
+				payment: {
+					entity: {
+						id: order.paymentId,
+						order_id: order.orderId,
+						status: order.status === 'succeeded' ? 'captured' : 'failed',
+						method: 'fake',
+						amount: order.amountCents,
+						currency: order.currency,
+					},
+				},
+			},
+		});
+
+		httpPost(getWebhookUrl(), body, {
+			headers: { 'X-Fake-Signature': sign(body) },
+			timeout: 5000,
+		}).catch((error) => {
+			logger.warn('Fake provider webhook delivery failed', {
+				orderId: order.orderId,
+				event,
+				error: error instanceof Error ? error.message : String(error),
+				service: 'payment-service',
+			});
+		});
+	}, delayMs).unref();
+}
+
+async function createOrder(input: CreatePaymentSessionInput): Promise<PaymentSession> {
+	if (input.amountCents <= 0) {
+		throw new Error('Amount must be greater than zero');
+	}
+
+	const orderId = shortId('order');
+	orders.set(orderId, {
+		orderId,
+		amountCents: input.amountCents,
+		currency: input.currency.toUpperCase(),
+		outcome: resolveOutcome(input.metadata),
+		paymentId: null,
+		status: 'pending',
+		refundedCents: 0,
+	});
+
+	return {
+		provider: PROVIDER,
+		providerPaymentId: orderId,
+		orderId,
+		paymentUrl: `/api/v1/payments/fake/checkout/${orderId}`,
+		expiresAt: new Date(Date.now() + SESSION_TTL_MINUTES * 60 * 1000),
+		keyId: FAKE_KEY_ID,
+	};
+}
+
+/**
+ * Simulate the student completing checkout for a fake order
+ */
+export function simulateCheckout(orderId: string): FakeCheckoutResult {
+	const order = orders.get(orderId);
+	if (!order) {
+		throw new Error(`Unknown fake order: ${orderId}`);
+	}
+
+	if (!order.paymentId) {
+		order.paymentId = shortId('pay');
+		switch (order.outcome) {
+			case 'success':
+				order.status = 'succeeded';
+				scheduleWebhook('payment.captured', order, 0);
+				break;
+			case 'failure':
+				order.status = 'failed';
+				scheduleWebhook('payment.failed', order, 0);
+				break;
+			case 'delayed_webhook':
+				order.status = 'succeeded';
+				scheduleWebhook('payment.captured', order, WEBHOOK_DELAY_MS);
+				break;
+			case 'timeout':
+				break;
+		}
+	}
+
+	const clientSeesResult = order.outcome === 'success' || order.outcome === 'failure';
+	return {
+		orderId,
+		outcome: order.outcome,
+		providerPaymentId: clientSeesResult ? order.paymentId : null,
+		signature: order.outcome === 'success' ? sign(`${orderId}|${order.paymentId}`) : null,
+		status: clientSeesResult ? order.status : 'pending',
+	};
+}
+
+function verifySignature(orderId: string, paymentId: string, signature: string): boolean {
+	return sign(`${orderId}|${paymentId}`) === signature;
+}
+
+async function fetchPayment(providerPaymentId: string): Promise<ProviderPayment> {
+	const order = [...orders.values()].find(
+		(candidate) => candidate.paymentId === providerPaymentId || candidate.orderId === providerPaymentId
+	);
+	if (!order) {
+		throw new Error(`Failed to fetch payment details: unknown fake payment ${providerPaymentId}`);
+	}
+
+	return {
+		providerPaymentId: order.paymentId ?? order.orderId,
+		orderId: order.orderId,
+		status: order.status,
+		amountCents: order.amountCents,
+		method: 'fake',
+	};
+}
+
+async function fetchOrder(orderId: string): Promise<ProviderOrder> {
+	const order = orders.get(orderId);
+	if (!order) {
+		throw new Error(`Failed to fetch order details: unknown fake order ${orderId}`);
+	}
+
+	return {
+		orderId,
+		status: order.status === 'succeeded' ? 'paid' : order.paymentId ? 'attempted' : 'created',
+		amountCents: order.amountCents,
+		payments: order.paymentId
+			? [{
+				providerPaymentId: order.paymentId,
+				orderId,
+				status: order.status,
+				amountCents: order.amountCents,
+				method: 'fake',
+			}]
+			: [],
+	};
+}
+
+async function refund(input: CreateRefundInput): Promise<GatewayRefund> {
+	const order = [...orders.values()].find((candidate) => candidate.paymentId === input.providerPaymentId);
+	if (!order || order.status !== 'succeeded') {
+		throw new Error('Failed to create refund: payment not captured');
+	}
+	if (order.refundedCents + input.amountCents > order.amountCents) {
+		throw new Error('Failed to create refund: amount exceeds captured amount');
+	}
+
+	order.refundedCents += input.amountCents;
+	return {
+		providerRefundId: shortId('rfnd'),
+		status: 'processed',
+		amountCents: input.amountCents,
+	};
+}
+
+function parseWebhook(request: WebhookRequest): ProviderWebhookEvent | null {
+	const signature = request.headers['x-fake-signature'];
+	if (!isFakeProviderConfigured() || typeof signature !== 'string' || sign(request.rawBody) !== signature) {
+		return null;
+	}
+
+	const body = JSON.parse(request.rawBody.toString('utf8'));
+	const entity = body?.payload?.payment?.entity;
+	const refundEntity = body?.payload?.refund?.entity;
+	const eventId = typeof body?.id === 'string' ? body.id : null;
+
+	if (body.event === 'refund.processed' && refundEntity?.id && refundEntity?.payment_id) {
+		return {
+			type: 'refund.processed',
+			eventId,
+			providerRefundId: refundEntity.id,
+			providerPaymentId: refundEntity.payment_id,
+			amountCents: Number(refundEntity.amount ?? 0),
+		};
+	}
+
+	if ((body.event === 'payment.captured' || body.event === 'payment.failed') && entity?.order_id) {
+		return {
+			type: body.event === 'payment.failed' ? 'payment.failed' : 'payment.succeeded',
+			eventId,
+			orderId: entity.order_id,
+			providerPaymentId: entity.id,
+			method: entity.method || null,
+		};
+	}
+
+	return { type: 'ignored', eventId, event: String(body?.event ?? 'unknown') };
+}
+
+export const fakeProvider: PaymentProvider = {
+	name: PROVIDER,
+	createOrder,
+	verifySignature,
+	fetchPayment,
+	fetchOrder,
+	refund,
+	parseWebhook,
+};
@@ -0,0 +1,336 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import Razorpay from 'razorpay';
+import logger from '@kodingcaravan/shared/config/logger';
+import type {
+	CreatePaymentSessionInput,
+	CreateRefundInput,
+	GatewayRefund,
+	PaymentProvider,
+	PaymentSession,
+	ProviderOrder,
+	ProviderPayment,
+	ProviderWebhookEvent,
+	WebhookRequest,
+} from '../paymentGateway';
+
+const RAZORPAY_KEY_ID = process.env.RAZORPAY_KEY_ID || '';
+const RAZORPAY_KEY_SECRET = process.env.RAZORPAY_KEY_SECRET || '';
+const RAZORPAY_WEBHOOK_SECRET = process.env.RAZORPAY_WEBHOOK_SECRET || '';
+const PROVIDER = 'razorpay';
+const SESSION_TTL_MINUTES = Number(process.env.PAYMENT_SESSION_TTL_MINUTES ?? 30);
+
+// Initialize Razorpay instance
+let razorpayInstance: Razorpay | null = null;
+
+function getRazorpayInstance(): Razorpay {
+	if (!razorpayInstance) {
+		if (!RAZORPAY_KEY_ID || !RAZORPAY_KEY_SECRET) {
+			throw new Error('Razorpay credentials not configured. Please set RAZORPAY_KEY_ID and RAZORPAY_KEY_SECRET');
+		}
+
+		// Validate key format
+		if (!RAZORPAY_KEY_ID.startsWith('rzp_')) {
+			logger.warn('Razorpay key ID should start with "rzp_"', {
+				service: 'payment-service',
+			});
+		}
+
+		try {
+			razorpayInstance = new Razorpay({
+				key_id: RAZORPAY_KEY_ID,
+				key_secret: RAZORPAY_KEY_SECRET,
+			});
+		} catch (error: any) {
+			logger.error('Failed to create Razorpay instance', {
+				error: error?.message || String(error),
+				stack: error?.stack,
+				service: 'payment-service',
+			});
+			throw new Error(`Failed to initialize Razorpay: ${error.message || 'Unknown error'}`);
+		}
+	}
+	return razorpayInstance;
+}
+
+function safeEqualHex(expected: string, actual: string): boolean {
+	const expectedBuffer = Buffer.from(expected, 'utf8');
+	const actualBuffer = Buffer.from(actual, 'utf8');
+	return expectedBuffer.length === actualBuffer.length && timingSafeEqual(expectedBuffer, actualBuffer);
+}
+
+function headerValue(headers: WebhookRequest['headers'], name: string): string | null {
+	const value = headers[name];
+	return Array.isArray(value) ? value[0] ?? null : value ?? null;
+}
+
+async function createOrder(input: CreatePaymentSessionInput): Promise<PaymentSession> {
+	const { studentId, amountCents, currency, description, metadata } = input;
+
+	// Validate amount
+	if (amountCents <= 0) {
+		throw new Error('Amount must be greater than zero');
+	}
+
+	// Razorpay minimum amount is 1 INR (100 paise)
+	const MIN_AMOUNT_PAISE = 100;
+	if (amountCents < MIN_AMOUNT_PAISE) {
+		throw new Error(`Amount must be at least ${MIN_AMOUNT_PAISE} paise (1 INR). Received: ${amountCents} paise`);
+	}
+
+	// Convert cents to rupees (Razorpay uses paise, which is same as cents)
+	const amount = amountCents; // Razorpay expects amount in smallest currency unit (paise for INR)
+
+	try {
+		const razorpay = getRazorpayInstance();
+
+		// Create Razorpay order
+		// Razorpay receipt field has a max length of 40 characters
+		// Format: "rcpt_" + first 8 chars of studentId + "_" + last 6 digits of timestamp = 20 chars max
+		const shortStudentId = studentId.substring(0, 8).replace(/-/g, '');
+		const shortTimestamp = Date.now().toString().slice(-6);
+		const receipt = `rcpt_${shortStudentId}_${shortTimestamp}`;
+
+		const orderOptions = {
+			amount: amount, // Amount in paise
+			currency: currency.toUpperCase(),
+			receipt: receipt, // Max 40 characters
+			notes: {
+				studentId,
+				description: description || 'Session booking payment',
+				...(metadata || {}),
+			},
+		};
+
+		const order = await razorpay.orders.create(orderOptions);
+
+		const expiresAt = new Date(Date.now() + SESSION_TTL_MINUTES * 60 * 1000);
+
+		return {
+			provider: PROVIDER,
+			providerPaymentId: order.id,
+			orderId: order.id,
+			paymentUrl: null, // Razorpay doesn't provide a direct payment URL, frontend handles it
+			expiresAt,
+			keyId: RAZORPAY_KEY_ID,
+		};
+	} catch (error: any) {
+		logger.error('Error creating payment session', {
+			error: error?.message || String(error),
+			description: error.error?.description,
+			code: error.error?.code,
+			statusCode: error.statusCode,
+			field: error.error?.field,
+			source: error.error?.source,
+			step: error.error?.step,
+			reason: error.error?.reason,
+			studentId,
+			amountCents,
+			service: 'payment-service',
+		});
+
+		// Extract detailed error message from Razorpay error structure
+		let errorMessage = 'Unknown error';
+		if (error.error?.description) {
+			errorMessage = error.error.description;
+		} else if (error.error?.reason) {
+			errorMessage = error.error.reason;
+		} else if (error.message) {
+			errorMessage = error.message;
+		} else if (typeof error === 'string') {
+			errorMessage = error;
+		}
+
+		throw new Error(`Failed to create payment session: ${errorMessage}`);
+	}
+}
+
+/**
+ * Verify Razorpay checkout signature (HMAC of "orderId|paymentId" with the key secret)
+ */
+function verifySignature(orderId: string, paymentId: string, signature: string): boolean {
+	try {
+		const text = `${orderId}|${paymentId}`;
+		const generatedSignature = createHmac('sha256', RAZORPAY_KEY_SECRET)
+			.update(text)
+			.digest('hex');
+
+		return safeEqualHex(generatedSignature, signature);
+	} catch (error) {
+		logger.error('Error verifying signature', {
+			error: error instanceof Error ? error.message : String(error),
+			orderId,
+			service: 'payment-service',
+		});
+		return false;
+	}
+}
+
+function toProviderPayment(payment: {
+	id: string;
+	order_id?: string | null;
+	status: string;
+	amount: number | string;
+	method?: string | null;
+}): ProviderPayment {
+	let status: ProviderPayment['status'] = 'pending';
+	if (payment.status === 'captured' || payment.status === 'authorized') {
+		status = 'succeeded';
+	} else if (payment.status === 'failed') {
+		status = 'failed';
+	}
+
+	return {
+		providerPaymentId: payment.id,
+		orderId: payment.order_id || null,
+		status,
+		amountCents: Number(payment.amount),
+		method: payment.method || null,
+	};
+}
+
+/**
+ * Get Razorpay payment details
+ */
+async function fetchPayment(paymentId: string): Promise<ProviderPayment> {
+	try {
+		const razorpay = getRazorpayInstance();
+		const payment = await razorpay.payments.fetch(paymentId);
+		return toProviderPayment(payment);
+	} catch (error: any) {
+		logger.error('Error fetching payment details', {
+			error: error?.message || String(error),
+			stack: error?.stack,
+			paymentId,
+			service: 'payment-service',
+		});
+		throw new Error(`Failed to fetch payment details: ${error.message || 'Unknown error'}`);
+	}
+}
+
+/**
+ * Get a Razorpay order with all payment attempts made against it
+ */
+async function fetchOrder(orderId: string): Promise<ProviderOrder> {
+	try {
+		const razorpay = getRazorpayInstance();
+		const [order, attempts] = await Promise.all([
+			razorpay.orders.fetch(orderId),
+			razorpay.orders.fetchPayments(orderId),
+		]);
+
+		return {
+			orderId: order.id,
+			status: order.status,
+			amountCents: Number(order.amount),
+			payments: (attempts.items || []).map(toProviderPayment),
+		};
+	} catch (error: any) {
+		logger.error('Error fetching order details', {
+			error: error?.message || String(error),
+			orderId,
+			service: 'payment-service',
+		});
+		throw new Error(`Failed to fetch order details: ${error.message || 'Unknown error'}`);
+	}
+}
+
+/**
+ * Refund a captured Razorpay payment (full or partial amount in paise)
+ */
+async function refund(input: CreateRefundInput): Promise<GatewayRefund> {
+	const { providerPaymentId, amountCents, receipt, notes } = input;
+
+	if (amountCents <= 0) {
+		throw new Error('Refund amount must be greater than zero');
+	}
+
+	try {
+		const razorpay = getRazorpayInstance();
+		const result = await razorpay.payments.refund(providerPaymentId, {
+			amount: amountCents,
+			receipt,
+			notes: notes || {},
+		});
+
+		return {
+			providerRefundId: result.id,
+			status: result.status === 'processed' ? 'processed' : result.status === 'failed' ? 'failed' : 'pending',
+			amountCents: Number(result.amount ?? amountCents),
+		};
+	} catch (error: any) {
+		logger.error('Error creating refund', {
+			error: error?.message || String(error),
+			description: error.error?.description,
+			code: error.error?.code,
+			statusCode: error.statusCode,
+			providerPaymentId,
+			amountCents,
+			service: 'payment-service',
+		});
+
+		const errorMessage = error.error?.description || error.message || 'Unknown error';
+		throw new Error(`Failed to create refund: ${errorMessage}`);
+	}
+}
+
+/**
+ * Verify X-Razorpay-Signature (HMAC of the raw body with the webhook secret) and
+ * normalise payment and refund events. Without RAZORPAY_WEBHOOK_SECRET the signature is
+ * not checked outside production; in production every webhook is rejected.
+ */
+function parseWebhook(request: WebhookRequest): ProviderWebhookEvent | null {
+	if (RAZORPAY_WEBHOOK_SECRET) {
+		const signature = headerValue(request.headers, 'x-razorpay-signature');
+		const expected = createHmac('sha256', RAZORPAY_WEBHOOK_SECRET).update(request.rawBody).digest('hex');
+		if (!signature || !safeEqualHex(expected, signature)) {
+			return null;
+		}
+	} else if (process.env.NODE_ENV === 'production') {
+		logger.error('RAZORPAY_WEBHOOK_SECRET not configured; rejecting webhook', {
+			service: 'payment-service',
+		});
+		return null;
+	} else {
+		logger.warn('RAZORPAY_WEBHOOK_SECRET not configured; webhook signature not verified', {
+			service: 'payment-service',
+		});
+	}
+
+	const body = JSON.parse(request.rawBody.toString('utf8'));
+	const eventId = headerValue(request.headers, 'x-razorpay-event-id');
+	const event: string = body?.event ?? 'unknown';
+	const entity = body?.payload?.payment?.entity;
+	const refundEntity = body?.payload?.refund?.entity;
+
+	if (event === 'refund.processed' && refundEntity?.id && refundEntity?.payment_id) {
+		return {
+			type: 'refund.processed',
+			eventId,
+			providerRefundId: refundEntity.id,
+			providerPaymentId: refundEntity.payment_id,
+			amountCents: Number(refundEntity.amount ?? 0),
+		};
+	}
+
+	if ((event === 'payment.captured' || event === 'payment.authorized' || event === 'payment.failed') && entity?.order_id) {
+		return {
+			type: event === 'payment.failed' ? 'payment.failed' : 'payment.succeeded',
+			eventId,
+			orderId: entity.order_id,
+			providerPaymentId: entity.id,
+			method: entity.method || null,
+		};
+	}
+
+	return { type: 'ignored', eventId, event };
+}
+
+export const razorpayProvider: PaymentProvider = {
+	name: PROVIDER,
+	createOrder,
+	verifySignature,
+	fetchPayment,
+	fetchOrder,
+	refund,
+	parseWebhook,
+};
@@ -2,6 +2,7 @@
  * Purchase Creation Worker
  * 
  * Consumes PURCHASE_CONFIRMED events and creates purchase records.
+ * Consumes PURCHASE_REFUNDED events and deactivates refunded purchases.
  * 
  * Flow:
  * 1. Consume PURCHASE_CONFIRMED from Kafka
@@ -10,6 +11,11 @@
  * 4. Mark event as processed
  * 5. Emit PURCHASE_CREATED event
  * 
+ * Refund flow (revokeAccess = true):
+ * 1. Deactivate the purchase, cancel the allocation and its upcoming sessions, and record
+ *    STUDENT_DEALLOCATED for each cancelled allocation in the outbox (one transaction)
+ * 2. The outbox relay publishes STUDENT_DEALLOCATED to Kafka and Redis Pub/Sub
+ * 
  * Idempotency: UNIQUE constraint on (student_id, course_id) WHERE is_active = true
  * Retry: Max 3 attempts, then DLQ
  */
@@ -25,12 +31,20 @@ import {
   getEventId,
 } from '@kodingcaravan/shared/worker';
 import type { Pool } from 'pg';
-import type { PurchaseConfirmedEvent, PurchaseCreatedEvent, CourseAccessGrantedEvent } from '@kodingcaravan/shared/events/types';
+import type {
+  PurchaseConfirmedEvent,
+  PurchaseCreatedEvent,
+  CourseAccessGrantedEvent,
+  PurchaseRefundedEvent,
+  StudentDeallocatedEvent,
+} from '@kodingcaravan/shared/events/types';
 import type { EnrichedEvent } from '@kodingcaravan/shared/events/kafkaEventBus';
 import { getKafkaEventBus } from '@kodingcaravan/shared/events/kafkaEventBus';
+import { emitInTransaction, OutboxRelay, startOutboxRelay } from '@kodingcaravan/shared/events/outbox';
 
 const SERVICE_NAME = 'purchase-worker';
 const KAFKA_TOPIC = 'purchase-confirmed';
+const REFUND_TOPIC = 'purchase-refunded';
 const CONSUMER_GROUP = 'purchase-creation-workers';
 const DLQ_TOPIC = 'dead-letter-queue';
 
@@ -40,6 +54,7 @@ let idempotencyGuard: IdempotencyGuard;
 let kafkaBus: ReturnType<typeof getKafkaEventBus>;
 let dlqPublisher: ReturnType<typeof getDeadLetterPublisher>;
 let consumerRef: ReturnType<typeof createKafkaConsumer> | null = null;
+let outboxRelay: OutboxRelay | null = null;
 
 /**
  * Initialize worker dependencies
@@ -52,6 +67,10 @@ async function initialize(): Promise<void> {
   dlqPublisher = getDeadLetterPublisher();
   await dlqPublisher.connect();
 
+  // Publish committed outbox events (STUDENT_DEALLOCATED after refunds) to Kafka and, for
+  // chat-service group membership, Redis Pub/Sub
+  outboxRelay = await startOutboxRelay({ pool });
+
   // Check if index exists on startup
   try {
     const indexExists = await checkIndexExists();
@@ -1004,6 +1023,130 @@ async function handlePurchaseConfirmed(event: EnrichedEvent): Promise<void> {
   }
 }
 
+/**
+ * Handle PURCHASE_REFUNDED event
+ *
+ * Partial refunds that keep access need no changes here. When access is revoked the
+ * purchase, allocation and upcoming sessions are closed in one transaction, together with
+ * the outbox rows for STUDENT_DEALLOCATED. The updates only touch rows that are still
+ * active, so redelivered events are no-ops.
+ */
+async function handlePurchaseRefunded(event: EnrichedEvent): Promise<void> {
+  const refundEvent = event as PurchaseRefundedEvent & { _metadata: EnrichedEvent['_metadata'] };
+  const correlationId = getEventCorrelationId(event);
+  const eventId = getEventId(event);
+
+  const context = {
+    correlationId,
+    eventId,
+    workerName: SERVICE_NAME,
+    operation: 'refund_purchase',
+    studentId: refundEvent.studentId,
+    courseId: refundEvent.courseId,
+    paymentId: refundEvent.paymentId,
+    refundId: refundEvent.refundId,
+  };
+
+  logWithContext('info', 'Processing PURCHASE_REFUNDED event', context);
+
+  if (!refundEvent.revokeAccess || !refundEvent.courseId) {
+    logWithContext('info', 'Refund keeps course access, nothing to deactivate', {
+      ...context,
+      revokeAccess: refundEvent.revokeAccess,
+    });
+    return;
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const purchaseResult = await client.query(
+      `UPDATE student_course_purchases
+       SET is_active = false,
+           metadata = COALESCE(metadata, '{}'::jsonb) || $3::jsonb,
+           updated_at = NOW()
+       WHERE student_id = $1 AND course_id = $2 AND is_active = true
+       RETURNING id`,
+      [
+        refundEvent.studentId,
+        refundEvent.courseId,
+        JSON.stringify({
+          refundedAt: new Date(refundEvent.timestamp).toISOString(),
+          refundId: refundEvent.refundId,
+          refundPaymentId: refundEvent.paymentId,
+        }),
+      ]
+    );
+
+    const allocationResult = await client.query<{ id: string; trainer_id: string | null }>(
+      `UPDATE trainer_allocations
+       SET status = 'cancelled',
+           notes = COALESCE(notes || E'\n', '') || $3,
+           updated_at = NOW()
+       WHERE student_id = $1 AND course_id = $2 AND status IN ('pending', 'approved', 'active')
+       RETURNING id, trainer_id`,
+      [refundEvent.studentId, refundEvent.courseId, `Cancelled after refund ${refundEvent.refundId}`]
+    );
+    const cancelledAllocations = allocationResult.rows;
+
+    if (cancelledAllocations.length > 0) {
+      await client.query(
+        `UPDATE tutoring_sessions
+         SET status = 'cancelled',
+             updated_at = NOW()
+         WHERE allocation_id = ANY($1::uuid[])
+           AND status = 'scheduled'
+           AND scheduled_date >= CURRENT_DATE`,
+        [cancelledAllocations.map((allocation) => allocation.id)]
+      );
+    }
+
+    for (const allocation of cancelledAllocations) {
+      const deallocatedEvent: StudentDeallocatedEvent = {
+        type: 'STUDENT_DEALLOCATED',
+        timestamp: Date.now(),
+        userId: refundEvent.studentId,
+        role: 'student',
+        allocationId: allocation.id,
+        trainerId: allocation.trainer_id ?? '',
+        studentId: refundEvent.studentId,
+        courseId: refundEvent.courseId,
+        reason: 'refund',
+        deallocatedAt: new Date().toISOString(),
+        metadata: {
+          refundId: refundEvent.refundId,
+          paymentId: refundEvent.paymentId,
+        },
+      };
+
+      await emitInTransaction(client, deallocatedEvent, {
+        correlationId,
+        source: SERVICE_NAME,
+        idempotencyKey: `student-deallocated-${allocation.id}`,
+      });
+    }
+
+    await client.query('COMMIT');
+
+    logWithContext('info', 'Refunded purchase deactivated', {
+      ...context,
+      purchasesDeactivated: purchaseResult.rows.length,
+      allocationsCancelled: cancelledAllocations.length,
+    });
+  } catch (error: any) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    logWithContext('error', 'Failed to process PURCHASE_REFUNDED event', {
+      ...context,
+      error: error.message,
+      stack: error.stack,
+    });
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
 /**
  * Main worker function
  */
@@ -1025,7 +1168,7 @@ async function main(): Promise<void> {
     const consumer = createKafkaConsumer({
       groupId: CONSUMER_GROUP,
       clientId: `${SERVICE_NAME}-${Date.now()}`,
-      topics: [KAFKA_TOPIC],
+      topics: [KAFKA_TOPIC, REFUND_TOPIC],
       fromBeginning: false,
     });
     consumerRef = consumer;
@@ -1035,7 +1178,9 @@ async function main(): Promise<void> {
     });
 
     await consumer.start(async (event, payload) => {
-      logger.info('[PurchaseWorker] 📨 Received PURCHASE_CONFIRMED event from Kafka', {
+      const eventType = (event as any).type;
+      logger.info('[PurchaseWorker] 📨 Received event from Kafka', {
+        eventType,
         eventId: getEventId(event),
         correlationId: getEventCorrelationId(event),
         topic: payload.topic,
@@ -1047,15 +1192,16 @@ async function main(): Promise<void> {
 
       try {
         // Execute with retry policy
+        const isRefund = eventType === 'PURCHASE_REFUNDED';
         await executeWithRetry(
-          () => handlePurchaseConfirmed(event),
+          () => (isRefund ? handlePurchaseRefunded(event) : handlePurchaseConfirmed(event)),
           {
             maxAttempts: 3,
             initialDelayMs: 1000,
             maxDelayMs: 30000,
             multiplier: 2,
           },
-          { correlationId, eventId, operation: 'create_purchase' }
+          { correlationId, eventId, operation: isRefund ? 'refund_purchase' : 'create_purchase' }
         );
       } catch (error: any) {
         // All retries exhausted - send to DLQ
@@ -1084,7 +1230,7 @@ async function main(): Promise<void> {
 
     logger.info('[PurchaseWorker] Started', {
       serviceName: SERVICE_NAME,
-      topic: KAFKA_TOPIC,
+      topics: [KAFKA_TOPIC, REFUND_TOPIC],
       consumerGroup: CONSUMER_GROUP,
     });
   } catch (error: any) {
@@ -1104,6 +1250,7 @@ process.on('SIGTERM', async () => {
   } catch (e: any) {
     logger.warn('[PurchaseWorker] Error stopping consumer', { error: e?.message });
   }
+  outboxRelay?.stop();
   try {
     if (pool) await pool.end();
   } catch (e: any) {
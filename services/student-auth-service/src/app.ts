@@ -1,11 +1,13 @@
 import express from 'express';
 import timeout from 'connect-timeout';
 import cookieParser from 'cookie-parser';
-import { globalErrorHandler, correlationIdMiddleware, createHealthCheckEndpoints, getRedisClient } from '@kodingcaravan/shared';
+import { globalErrorHandler, correlationIdMiddleware, createHealthCheckEndpoints, getRedisClient, jwksHandler } from '@kodingcaravan/shared';
 import logger from '@kodingcaravan/shared/config/logger';
 import { getPool } from './config/database';
 import otpRoutes from './routes/otp.routes';
 import studentAuthRoutes from './routes/studentAuth.routes';
+import guardianAuthRoutes from './routes/guardianAuth.routes';
+import guardianLinkRoutes from './routes/guardianLink.routes';
 
 const app: express.Application = express();
 
@@ -50,8 +52,13 @@ const { healthHandler, readyHandler } = createHealthCheckEndpoints({
 app.get('/health', healthHandler);
 app.get('/ready', readyHandler);
 
+// Public keys for verifying access tokens (api-gateway and other services resolve `kid` here)
+app.get('/.well-known/jwks.json', jwksHandler);
+
 app.use('/api/v1/otp', otpRoutes);
 app.use('/api/v1/students/auth', studentAuthRoutes);
+app.use('/api/v1/guardians/auth', guardianAuthRoutes);
+app.use('/api/v1/guardians', guardianLinkRoutes);
 
 // attach global error handler (from shared)
 app.use(globalErrorHandler);
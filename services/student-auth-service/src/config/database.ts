@@ -1,5 +1,5 @@
 import { Pool, PoolClient } from 'pg';
-import { createPostgresPool } from '@kodingcaravan/shared';
+import { createPostgresPool, ensureLockoutAuditTable } from '@kodingcaravan/shared';
 import logger from '@kodingcaravan/shared/config/logger';
 
 let pool: Pool | null = null;
@@ -169,6 +169,9 @@ export async function initializeStudentAuthTables(): Promise<void> {
 		await client.query(`ALTER TABLE student_refresh_tokens ADD COLUMN IF NOT EXISTS user_agent TEXT;`);
 		await client.query(`ALTER TABLE student_refresh_tokens ADD COLUMN IF NOT EXISTS ip_address TEXT;`);
 		await client.query(`ALTER TABLE student_refresh_tokens ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ;`);
+		// Login session (Redis) the token belongs to, so a single session can be revoked
+		await client.query(`ALTER TABLE student_refresh_tokens ADD COLUMN IF NOT EXISTS session_id TEXT;`);
+		await client.query(`CREATE INDEX IF NOT EXISTS idx_student_refresh_tokens_session ON student_refresh_tokens(session_id) WHERE session_id IS NOT NULL;`);
 		await client.query(`DROP INDEX IF EXISTS idx_student_refresh_tokens_token;`);
 		await client.query(`
 			DO $$
@@ -281,6 +284,82 @@ export async function initializeStudentAuthTables(): Promise<void> {
 			ON student_refresh_tokens(student_id, created_at DESC);
 		`);
 
+		// Guardian (parent) accounts - separate identities that are linked to one or more students
+		await client.query(`
+			CREATE TABLE IF NOT EXISTS guardians (
+				id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+				phone VARCHAR(15) UNIQUE,
+				email CITEXT UNIQUE,
+				full_name VARCHAR(150),
+				is_email_verified BOOLEAN NOT NULL DEFAULT false,
+				is_phone_verified BOOLEAN NOT NULL DEFAULT false,
+				google_id TEXT,
+				auth_provider VARCHAR(50),
+				last_login_at TIMESTAMPTZ,
+				created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+				updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+			);
+		`);
+
+		await client.query(`
+			CREATE TABLE IF NOT EXISTS guardian_refresh_tokens (
+				id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+				guardian_id UUID NOT NULL REFERENCES guardians(id) ON DELETE CASCADE,
+				token_hash TEXT NOT NULL UNIQUE,
+				expires_at TIMESTAMPTZ NOT NULL,
+				user_agent TEXT,
+				ip_address TEXT,
+				revoked_at TIMESTAMPTZ,
+				created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+			);
+		`);
+
+		// Guardian <-> student links (many-to-many) with an invite/accept handshake.
+		// guardian_id is NULL while a student's invite waits for the guardian to sign up with invitee_phone.
+		await client.query(`
+			CREATE TABLE IF NOT EXISTS guardian_student_links (
+				id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+				guardian_id UUID REFERENCES guardians(id) ON DELETE CASCADE,
+				student_id UUID NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+				invitee_phone VARCHAR(15),
+				relationship VARCHAR(30) NOT NULL DEFAULT 'parent'
+					CHECK (relationship IN ('parent', 'legal_guardian', 'relative', 'other')),
+				status VARCHAR(20) NOT NULL DEFAULT 'pending'
+					CHECK (status IN ('pending', 'active', 'declined', 'revoked', 'expired')),
+				initiated_by VARCHAR(20) NOT NULL CHECK (initiated_by IN ('student', 'guardian')),
+				consents JSONB NOT NULL DEFAULT '{}'::jsonb,
+				invite_expires_at TIMESTAMPTZ,
+				responded_at TIMESTAMPTZ,
+				revoked_at TIMESTAMPTZ,
+				revoked_by VARCHAR(20),
+				created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+				updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+				CHECK (guardian_id IS NOT NULL OR invitee_phone IS NOT NULL)
+			);
+		`);
+
+		await client.query(`
+			CREATE UNIQUE INDEX IF NOT EXISTS idx_guardian_student_links_open
+			ON guardian_student_links(guardian_id, student_id)
+			WHERE status IN ('pending', 'active') AND guardian_id IS NOT NULL;
+		`);
+		await client.query(`
+			CREATE INDEX IF NOT EXISTS idx_guardian_student_links_student
+			ON guardian_student_links(student_id, status);
+		`);
+		await client.query(`
+			CREATE INDEX IF NOT EXISTS idx_guardian_student_links_invitee_phone
+			ON guardian_student_links(invitee_phone)
+			WHERE guardian_id IS NULL AND status = 'pending';
+		`);
+		await client.query(`
+			CREATE INDEX IF NOT EXISTS idx_guardian_refresh_tokens_guardian
+			ON guardian_refresh_tokens(guardian_id, expires_at);
+		`);
+
+		// Lock / unlock audit trail for the shared account lockout
+		await ensureLockoutAuditTable(client);
+
 		await client.query('COMMIT');
 	} catch (error) {
 		await client.query('ROLLBACK');
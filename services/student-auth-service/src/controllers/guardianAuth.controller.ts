@@ -0,0 +1,202 @@
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, AppError } from '@kodingcaravan/shared';
+import { getClientIp } from '@kodingcaravan/shared/utils/deviceInfo';
+import {
+	requestGuardianPhoneOtp,
+	verifyGuardianPhoneOtp,
+	retryGuardianPhoneOtp,
+	authenticateGuardianWithGoogle,
+	refreshGuardianSession,
+	logoutGuardian,
+	logoutAllGuardianSessions,
+	getGuardianProfile,
+	updateGuardianProfile,
+} from '../services/guardianAuth.service';
+import type { GuardianRecord } from '../models/guardian.model';
+
+// Separate cookie names so a browser signed in as both a student and a guardian keeps both sessions
+const REFRESH_COOKIE = 'guardianRefreshToken';
+const SESSION_COOKIE = 'guardianSessionId';
+
+export function guardianToResponse(guardian: GuardianRecord) {
+	return {
+		id: guardian.id,
+		role: 'guardian' as const,
+		fullName: guardian.fullName,
+		email: guardian.email,
+		phone: guardian.phone,
+		isEmailVerified: guardian.isEmailVerified,
+		isPhoneVerified: guardian.isPhoneVerified,
+		lastLoginAt: guardian.lastLoginAt,
+		createdAt: guardian.createdAt,
+		updatedAt: guardian.updatedAt,
+	};
+}
+
+function requestMeta(req: Request): { ip?: string; userAgent: string } {
+	const ip = getClientIp(req);
+	return {
+		...(ip && { ip }),
+		userAgent: req.headers['user-agent'] || '',
+	};
+}
+
+/**
+ * Same platform-aware token delivery as the student endpoints: cookies for web,
+ * refresh token in the body for mobile only
+ */
+function sendAuthResult(
+	req: Request,
+	res: Response,
+	result: { tokens: { accessToken: string; refreshToken: string }; guardian: GuardianRecord; sessionId: string },
+	message: string
+) {
+	const clientTypeHeader = req.headers['x-client-type'];
+	const clientType = (Array.isArray(clientTypeHeader) ? clientTypeHeader[0] : clientTypeHeader)?.toLowerCase() || 'web';
+	const isMobile = clientType === 'mobile';
+	const isProduction = process.env.NODE_ENV === 'production';
+	const cookieOptions = {
+		httpOnly: true,
+		secure: isProduction,
+		sameSite: (isProduction ? 'strict' : 'lax') as 'strict' | 'lax',
+		maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+		path: '/',
+	};
+
+	res.cookie(REFRESH_COOKIE, result.tokens.refreshToken, cookieOptions);
+	if (result.sessionId) {
+		res.cookie(SESSION_COOKIE, result.sessionId, cookieOptions);
+	}
+
+	return successResponse(res, {
+		message,
+		data: {
+			user: guardianToResponse(result.guardian),
+			tokens: {
+				accessToken: result.tokens.accessToken,
+				...(isMobile && { refreshToken: result.tokens.refreshToken }), // Mobile only
+			},
+		},
+	});
+}
+
+export class GuardianAuthController {
+	static async requestPhoneOtp(req: Request, res: Response, next: NextFunction) {
+		try {
+			await requestGuardianPhoneOtp(req.body.phone);
+			return successResponse(res, {
+				message: 'OTP sent to phone',
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async verifyPhoneOtp(req: Request, res: Response, next: NextFunction) {
+		try {
+			const { phone, otp } = req.body;
+			const result = await verifyGuardianPhoneOtp(phone, otp, requestMeta(req));
+			return sendAuthResult(req, res, result, 'Phone verified successfully');
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async retryPhoneOtp(req: Request, res: Response, next: NextFunction) {
+		try {
+			const { phone, retryType } = req.body;
+			await retryGuardianPhoneOtp(phone, retryType || 'text');
+			return successResponse(res, {
+				message: 'OTP resent successfully',
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async googleAuth(req: Request, res: Response, next: NextFunction) {
+		try {
+			const result = await authenticateGuardianWithGoogle(req.body.idToken, requestMeta(req));
+			return sendAuthResult(req, res, result, 'Logged in with Google');
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async refresh(req: Request, res: Response, next: NextFunction) {
+		try {
+			const refreshToken = req.cookies?.[REFRESH_COOKIE] || req.body?.refreshToken;
+			const sessionId = req.cookies?.[SESSION_COOKIE];
+
+			if (!refreshToken) {
+				throw new AppError('Refresh token required. Please provide refreshToken in request body (mobile) or cookie (web).', 401);
+			}
+
+			const result = await refreshGuardianSession(refreshToken, {
+				...requestMeta(req),
+				...(sessionId && { sessionId }),
+			});
+			return sendAuthResult(req, res, result, 'Session refreshed');
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async logout(req: Request, res: Response, next: NextFunction) {
+		try {
+			const refreshToken = req.cookies?.[REFRESH_COOKIE] || req.body?.refreshToken;
+			const sessionId = req.cookies?.[SESSION_COOKIE];
+
+			if (refreshToken) {
+				await logoutGuardian(refreshToken, sessionId);
+			}
+
+			res.clearCookie(REFRESH_COOKIE, { path: '/' });
+			res.clearCookie(SESSION_COOKIE, { path: '/' });
+
+			return successResponse(res, {
+				message: 'Logged out successfully',
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async logoutAll(req: Request, res: Response, next: NextFunction) {
+		try {
+			const authUser = (req as any).authUser;
+			await logoutAllGuardianSessions(authUser.id);
+			return successResponse(res, {
+				message: 'All sessions revoked',
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async getProfile(req: Request, res: Response, next: NextFunction) {
+		try {
+			const authUser = (req as any).authUser;
+			const guardian = await getGuardianProfile(authUser.id);
+			return successResponse(res, {
+				message: 'Profile fetched',
+				data: guardianToResponse(guardian),
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async updateProfile(req: Request, res: Response, next: NextFunction) {
+		try {
+			const authUser = (req as any).authUser;
+			const guardian = await updateGuardianProfile(authUser.id, req.body);
+			return successResponse(res, {
+				message: 'Profile updated',
+				data: guardianToResponse(guardian),
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+}
@@ -0,0 +1,204 @@
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, AppError } from '@kodingcaravan/shared';
+import {
+	inviteGuardian,
+	requestStudentLink,
+	respondToGuardianLink,
+	revokeGuardianLink,
+	listLinksForGuardian,
+	listLinksForStudent,
+	updateGuardianConsents,
+	getStudentGuardianConsents,
+} from '../services/guardianLink.service';
+import { listActiveGuardianLinksForStudent, type GuardianLinkRecord } from '../models/guardianLink.model';
+import {
+	guardianConsentsSchema,
+	guardianInviteSchema,
+	guardianLinkRequestSchema,
+} from '../schemas/guardianSchema';
+
+function linkToResponse(link: GuardianLinkRecord) {
+	return {
+		id: link.id,
+		guardianId: link.guardianId,
+		studentId: link.studentId,
+		relationship: link.relationship,
+		status: link.status,
+		initiatedBy: link.initiatedBy,
+		consents: link.consents,
+		inviteExpiresAt: link.inviteExpiresAt,
+		respondedAt: link.respondedAt,
+		revokedAt: link.revokedAt,
+		revokedBy: link.revokedBy,
+		createdAt: link.createdAt,
+		updatedAt: link.updatedAt,
+	};
+}
+
+function authUserId(req: Request): string {
+	return (req as any).authUser.id;
+}
+
+export class GuardianLinkController {
+	// ---- Guardian side ----
+
+	static async listForGuardian(req: Request, res: Response, next: NextFunction) {
+		try {
+			const links = await listLinksForGuardian(authUserId(req));
+			return successResponse(res, {
+				message: 'Linked students fetched',
+				data: links.map((link) => ({
+					...linkToResponse(link),
+					student: { id: link.studentId, fullName: link.studentName, username: link.studentUsername },
+				})),
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async requestLink(req: Request, res: Response, next: NextFunction) {
+		try {
+			const body = guardianLinkRequestSchema.parse(req.body);
+			const link = await requestStudentLink(authUserId(req), {
+				relationship: body.relationship,
+				...(body.studentPhone && { studentPhone: body.studentPhone }),
+				...(body.studentEmail && { studentEmail: body.studentEmail }),
+			});
+			return successResponse(res, {
+				statusCode: 201,
+				message: 'Link request sent. The student needs to accept it.',
+				data: linkToResponse(link),
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async guardianAccept(req: Request, res: Response, next: NextFunction) {
+		try {
+			const link = await respondToGuardianLink(req.params.linkId!, { party: 'guardian', id: authUserId(req) }, true);
+			return successResponse(res, { message: 'Guardian link accepted', data: linkToResponse(link) });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async guardianDecline(req: Request, res: Response, next: NextFunction) {
+		try {
+			const link = await respondToGuardianLink(req.params.linkId!, { party: 'guardian', id: authUserId(req) }, false);
+			return successResponse(res, { message: 'Guardian link declined', data: linkToResponse(link) });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async guardianRevoke(req: Request, res: Response, next: NextFunction) {
+		try {
+			const link = await revokeGuardianLink(req.params.linkId!, { party: 'guardian', id: authUserId(req) });
+			return successResponse(res, { message: 'Guardian link removed', data: linkToResponse(link) });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async updateConsents(req: Request, res: Response, next: NextFunction) {
+		try {
+			const changes = guardianConsentsSchema.parse(req.body);
+			const link = await updateGuardianConsents(req.params.linkId!, authUserId(req), {
+				...(changes.locationSharing !== undefined && { locationSharing: changes.locationSharing }),
+				...(changes.faceVerification !== undefined && { faceVerification: changes.faceVerification }),
+			});
+			return successResponse(res, { message: 'Consents updated', data: linkToResponse(link) });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	// ---- Student side ----
+
+	static async listForStudent(req: Request, res: Response, next: NextFunction) {
+		try {
+			const links = await listLinksForStudent(authUserId(req));
+			return successResponse(res, {
+				message: 'Guardians fetched',
+				data: links.map((link) => ({
+					...linkToResponse(link),
+					guardian: {
+						id: link.guardianId,
+						fullName: link.guardianName,
+						phone: link.guardianPhone,
+						email: link.guardianEmail,
+					},
+				})),
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async inviteGuardian(req: Request, res: Response, next: NextFunction) {
+		try {
+			const body = guardianInviteSchema.parse(req.body);
+			const link = await inviteGuardian(authUserId(req), body);
+			return successResponse(res, {
+				statusCode: 201,
+				message: 'Guardian invited. They can accept after signing in with this phone number.',
+				data: linkToResponse(link),
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async studentAccept(req: Request, res: Response, next: NextFunction) {
+		try {
+			const link = await respondToGuardianLink(req.params.linkId!, { party: 'student', id: authUserId(req) }, true);
+			return successResponse(res, { message: 'Guardian link accepted', data: linkToResponse(link) });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async studentDecline(req: Request, res: Response, next: NextFunction) {
+		try {
+			const link = await respondToGuardianLink(req.params.linkId!, { party: 'student', id: authUserId(req) }, false);
+			return successResponse(res, { message: 'Guardian link declined', data: linkToResponse(link) });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async studentRevoke(req: Request, res: Response, next: NextFunction) {
+		try {
+			const link = await revokeGuardianLink(req.params.linkId!, { party: 'student', id: authUserId(req) });
+			return successResponse(res, { message: 'Guardian link removed', data: linkToResponse(link) });
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	// ---- Consent lookup (used by other services before location sharing / face verification) ----
+
+	static async getStudentConsents(req: Request, res: Response, next: NextFunction) {
+		try {
+			const { studentId } = req.params as { studentId: string };
+			const authUser = (req as any).authUser;
+
+			if (authUser.role === 'student' && authUser.id !== studentId) {
+				throw new AppError('Forbidden', 403);
+			}
+			if (authUser.role === 'guardian') {
+				const links = await listActiveGuardianLinksForStudent(studentId);
+				if (!links.some((link) => link.guardianId === authUser.id)) {
+					throw new AppError('Forbidden', 403);
+				}
+			}
+
+			const consents = await getStudentGuardianConsents(studentId);
+			return successResponse(res, { message: 'Guardian consents fetched', data: consents });
+		} catch (error) {
+			next(error);
+		}
+	}
+}
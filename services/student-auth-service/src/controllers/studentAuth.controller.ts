@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { successResponse, AppError } from '@kodingcaravan/shared';
 import logger from '@kodingcaravan/shared/config/logger';
+import { getSessionMetaFromRequest } from '@kodingcaravan/shared/utils/deviceInfo';
 import {
 	registerWithEmail,
 	resendEmailOtp,
@@ -12,6 +13,8 @@ import {
 	refreshSession,
 	logout,
 	logoutAllSessions,
+	listLoginSessions,
+	revokeLoginSession,
 	updateProfile,
 	authenticateWithGoogle,
 	authenticateWithGoogleNative,
@@ -103,10 +106,7 @@ export class StudentAuthController {
 	static async login(req: Request, res: Response, next: NextFunction) {
 		try {
 			const { email, password } = req.body;
-			const result = await loginWithEmailPassword(email, password, {
-				...(req.ip && { ip: req.ip }),
-				userAgent: req.headers['user-agent'] || '',
-			});
+			const result = await loginWithEmailPassword(email, password, getSessionMetaFromRequest(req));
 
 		// Platform-aware token delivery
 		const clientTypeHeader = req.headers['x-client-type'];
@@ -184,10 +184,7 @@ export class StudentAuthController {
 	static async verifyPhoneOtp(req: Request, res: Response, next: NextFunction) {
 		try {
 			const { phone, otp } = req.body;
-			const result = await verifyPhoneOtp(phone, otp, {
-				...(req.ip && { ip: req.ip }),
-				userAgent: req.headers['user-agent'] || '',
-			});
+			const result = await verifyPhoneOtp(phone, otp, getSessionMetaFromRequest(req));
 
 		// Platform-aware token delivery
 		const clientTypeHeader = req.headers['x-client-type'];
@@ -251,10 +248,7 @@ export class StudentAuthController {
 	static async googleAuth(req: Request, res: Response, next: NextFunction) {
 		try {
 			const { idToken } = req.body;
-			const result = await authenticateWithGoogle(idToken, {
-				...(req.ip && { ip: req.ip }),
-				userAgent: req.headers['user-agent'] || '',
-			});
+			const result = await authenticateWithGoogle(idToken, getSessionMetaFromRequest(req));
 
 		// Platform-aware token delivery
 		const clientTypeHeader = req.headers['x-client-type'];
@@ -309,10 +303,7 @@ export class StudentAuthController {
 			const { email, name, provider } = req.body;
 			const result = await authenticateWithGoogleNative(
 				{ email, name, provider },
-				{
-					...(req.ip && { ip: req.ip }),
-					userAgent: req.headers['user-agent'] || '',
-				}
+				getSessionMetaFromRequest(req)
 			);
 
 			const clientTypeHeader = req.headers['x-client-type'];
@@ -367,10 +358,7 @@ export class StudentAuthController {
 				code,
 				redirectUri,
 				codeVerifier,
-				{
-					...(req.ip && { ip: req.ip }),
-					userAgent: req.headers['user-agent'] || '',
-				}
+				getSessionMetaFromRequest(req)
 			);
 
 			const clientTypeHeader = req.headers['x-client-type'];
@@ -424,8 +412,7 @@ export class StudentAuthController {
 			}
 
 			const result = await refreshSession(refreshToken, {
-				...(req.ip && { ip: req.ip }),
-				userAgent: req.headers['user-agent'] || '',
+				...getSessionMetaFromRequest(req),
 				...(sessionId && { sessionId }),
 			});
 
@@ -509,6 +496,41 @@ export class StudentAuthController {
 		}
 	}
 
+	/**
+	 * Active logins (devices) for the signed-in student. The session behind this request is marked `current`.
+	 */
+	static async listSessions(req: Request, res: Response, next: NextFunction) {
+		try {
+			const authUser = (req as any).authUser;
+			if (!authUser) {
+				throw new AppError('Authentication required', 401);
+			}
+			const currentSessionId = authUser.sessionId || req.cookies?.sessionId;
+			const sessions = await listLoginSessions(authUser.id, currentSessionId);
+			return successResponse(res, {
+				message: 'Sessions fetched',
+				data: sessions,
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
+	static async revokeSession(req: Request, res: Response, next: NextFunction) {
+		try {
+			const authUser = (req as any).authUser;
+			if (!authUser) {
+				throw new AppError('Authentication required', 401);
+			}
+			await revokeLoginSession(authUser.id, req.params.sessionId!);
+			return successResponse(res, {
+				message: 'Session signed out',
+			});
+		} catch (error) {
+			next(error);
+		}
+	}
+
 	static async updateProfile(req: Request, res: Response, next: NextFunction) {
 		try {
 			const authUser = (req as any).authUser;
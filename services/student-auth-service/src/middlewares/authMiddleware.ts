@@ -1,11 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyAccessToken, AppError } from '@kodingcaravan/shared';
+import { verifyAccessTokenAsync, AppError } from '@kodingcaravan/shared';
 
 type AuthPayload = {
 	sub: string;
 	role: string;
 	email?: string;
 	phone?: string;
+	sid?: string;
 };
 
 export interface AuthenticatedRequest extends Request {
@@ -14,10 +15,15 @@ export interface AuthenticatedRequest extends Request {
 		role: string;
 		email?: string;
 		phone?: string;
+		/** Login session id (absent on tokens issued before sessions were bound) */
+		sessionId?: string;
 	};
 }
 
-export function requireAuth(req: Request, _res: Response, next: NextFunction) {
+/**
+ * Verifies the access token, resolving its signing key by `kid` (see jwtKeyRing)
+ */
+export async function requireAuth(req: Request, _res: Response, next: NextFunction) {
 	const header = req.headers.authorization;
 	if (!header || !header.startsWith('Bearer ')) {
 		return next(new AppError('Authentication required', 401));
@@ -25,7 +31,7 @@ export function requireAuth(req: Request, _res: Response, next: NextFunction) {
 
 	const token = header.slice(7);
 	try {
-		const payload = verifyAccessToken<AuthPayload>(token);
+		const payload = await verifyAccessTokenAsync<AuthPayload>(token);
 		const authUser: AuthenticatedRequest['authUser'] = {
 			id: payload.sub,
 			role: payload.role,
@@ -36,9 +42,26 @@ export function requireAuth(req: Request, _res: Response, next: NextFunction) {
 		if (payload.phone !== undefined) {
 			authUser.phone = payload.phone;
 		}
+		if (payload.sid !== undefined) {
+			authUser.sessionId = payload.sid;
+		}
 		(req as AuthenticatedRequest).authUser = authUser;
 		next();
 	} catch (error) {
 		next(new AppError('Invalid or expired token', 401));
 	}
 }
+
+/**
+ * Must run after requireAuth. Student and guardian tokens are signed with the same key,
+ * so routes for one account type must reject the other.
+ */
+export function requireRole(...roles: string[]) {
+	return (req: Request, _res: Response, next: NextFunction) => {
+		const authUser = (req as AuthenticatedRequest).authUser;
+		if (!authUser || !roles.includes(authUser.role)) {
+			return next(new AppError('Forbidden', 403));
+		}
+		next();
+	};
+}
@@ -0,0 +1,255 @@
+import { PoolClient, QueryResult } from 'pg';
+import { getPool } from '../config/database';
+
+export type GuardianRecord = {
+	id: string;
+	phone: string | null;
+	email: string | null;
+	fullName: string | null;
+	isEmailVerified: boolean;
+	isPhoneVerified: boolean;
+	googleId: string | null;
+	authProvider: string | null;
+	lastLoginAt: Date | null;
+	createdAt: Date;
+	updatedAt: Date;
+};
+
+export type GuardianRefreshTokenRecord = {
+	id: string;
+	guardianId: string;
+	tokenHash: string;
+	expiresAt: Date;
+	userAgent: string | null;
+	ipAddress: string | null;
+	revokedAt: Date | null;
+	createdAt: Date;
+};
+
+const guardianColumns = `
+	id,
+	phone,
+	email,
+	full_name as "fullName",
+	is_email_verified as "isEmailVerified",
+	is_phone_verified as "isPhoneVerified",
+	google_id as "googleId",
+	auth_provider as "authProvider",
+	last_login_at as "lastLoginAt",
+	created_at as "createdAt",
+	updated_at as "updatedAt"
+`;
+
+const refreshTokenColumns = `
+	id,
+	guardian_id as "guardianId",
+	token_hash as "tokenHash",
+	expires_at as "expiresAt",
+	user_agent as "userAgent",
+	ip_address as "ipAddress",
+	revoked_at as "revokedAt",
+	created_at as "createdAt"
+`;
+
+async function query<T extends Record<string, any> = Record<string, any>>(text: string, params: any[] = [], client?: PoolClient): Promise<QueryResult<T>> {
+	if (client) {
+		return client.query<T>(text, params);
+	}
+	return getPool().query<T>(text, params);
+}
+
+export async function createGuardian(
+	data: {
+		phone?: string | null;
+		email?: string | null;
+		fullName?: string | null;
+		googleId?: string | null;
+		authProvider?: string | null;
+	},
+	client?: PoolClient
+): Promise<GuardianRecord> {
+	const result = await query<GuardianRecord>(
+		`
+			INSERT INTO guardians (phone, email, full_name, google_id, auth_provider)
+			VALUES ($1, $2, $3, $4, $5)
+			RETURNING ${guardianColumns}
+		`,
+		[
+			data.phone || null,
+			data.email ? data.email.toLowerCase() : null,
+			data.fullName || null,
+			data.googleId || null,
+			data.authProvider || null,
+		],
+		client
+	);
+	if (!result.rows[0]) {
+		throw new Error('Failed to create guardian');
+	}
+	return result.rows[0];
+}
+
+export async function findGuardianById(id: string, client?: PoolClient): Promise<GuardianRecord | null> {
+	const result = await query<GuardianRecord>(
+		`SELECT ${guardianColumns} FROM guardians WHERE id = $1`,
+		[id],
+		client
+	);
+	return result.rows[0] || null;
+}
+
+export async function findGuardianByPhone(phone: string, client?: PoolClient): Promise<GuardianRecord | null> {
+	const result = await query<GuardianRecord>(
+		`SELECT ${guardianColumns} FROM guardians WHERE phone = $1`,
+		[phone],
+		client
+	);
+	return result.rows[0] || null;
+}
+
+export async function findGuardianByEmail(email: string, client?: PoolClient): Promise<GuardianRecord | null> {
+	const result = await query<GuardianRecord>(
+		`SELECT ${guardianColumns} FROM guardians WHERE email = $1`,
+		[email.toLowerCase()],
+		client
+	);
+	return result.rows[0] || null;
+}
+
+export async function findGuardianByGoogleId(googleId: string, client?: PoolClient): Promise<GuardianRecord | null> {
+	const result = await query<GuardianRecord>(
+		`SELECT ${guardianColumns} FROM guardians WHERE google_id = $1`,
+		[googleId],
+		client
+	);
+	return result.rows[0] || null;
+}
+
+export async function updateGuardian(
+	id: string,
+	updates: {
+		fullName?: string | null;
+		email?: string | null;
+		googleId?: string | null;
+		authProvider?: string | null;
+		isEmailVerified?: boolean;
+		isPhoneVerified?: boolean;
+		lastLoginAt?: Date;
+	},
+	client?: PoolClient
+): Promise<GuardianRecord | null> {
+	const fields: string[] = [];
+	const params: any[] = [];
+	let idx = 1;
+
+	if (Object.prototype.hasOwnProperty.call(updates, 'fullName')) {
+		fields.push(`full_name = $${idx++}`);
+		params.push(updates.fullName ?? null);
+	}
+	if (Object.prototype.hasOwnProperty.call(updates, 'email')) {
+		fields.push(`email = $${idx++}`);
+		params.push(updates.email ? updates.email.toLowerCase() : null);
+	}
+	if (Object.prototype.hasOwnProperty.call(updates, 'googleId')) {
+		fields.push(`google_id = $${idx++}`);
+		params.push(updates.googleId ?? null);
+	}
+	if (Object.prototype.hasOwnProperty.call(updates, 'authProvider')) {
+		fields.push(`auth_provider = $${idx++}`);
+		params.push(updates.authProvider ?? null);
+	}
+	if (typeof updates.isEmailVerified === 'boolean') {
+		fields.push(`is_email_verified = $${idx++}`);
+		params.push(updates.isEmailVerified);
+	}
+	if (typeof updates.isPhoneVerified === 'boolean') {
+		fields.push(`is_phone_verified = $${idx++}`);
+		params.push(updates.isPhoneVerified);
+	}
+	if (updates.lastLoginAt) {
+		fields.push(`last_login_at = $${idx++}`);
+		params.push(updates.lastLoginAt);
+	}
+
+	if (!fields.length) {
+		return findGuardianById(id, client);
+	}
+
+	fields.push(`updated_at = NOW()`);
+	params.push(id);
+
+	const result = await query<GuardianRecord>(
+		`
+			UPDATE guardians
+			SET ${fields.join(', ')}
+			WHERE id = $${idx}
+			RETURNING ${guardianColumns}
+		`,
+		params,
+		client
+	);
+	return result.rows[0] || null;
+}
+
+export async function storeGuardianRefreshToken(
+	guardianId: string,
+	tokenHash: string,
+	expiresAt: Date,
+	meta: { userAgent?: string | null; ipAddress?: string | null },
+	client?: PoolClient
+): Promise<GuardianRefreshTokenRecord> {
+	const result = await query<GuardianRefreshTokenRecord>(
+		`
+			INSERT INTO guardian_refresh_tokens (guardian_id, token_hash, expires_at, user_agent, ip_address)
+			VALUES ($1, $2, $3, $4, $5)
+			RETURNING ${refreshTokenColumns}
+		`,
+		[guardianId, tokenHash, expiresAt, meta.userAgent ?? null, meta.ipAddress ?? null],
+		client
+	);
+	if (!result.rows[0]) {
+		throw new Error('Failed to store guardian refresh token');
+	}
+	return result.rows[0];
+}
+
+export async function findGuardianRefreshTokenWithLock(
+	tokenHash: string,
+	client: PoolClient
+): Promise<GuardianRefreshTokenRecord | null> {
+	const result = await query<GuardianRefreshTokenRecord>(
+		`
+			SELECT ${refreshTokenColumns}
+			FROM guardian_refresh_tokens
+			WHERE token_hash = $1
+			FOR UPDATE
+		`,
+		[tokenHash],
+		client
+	);
+	return result.rows[0] || null;
+}
+
+export async function revokeGuardianRefreshToken(tokenHash: string, client?: PoolClient): Promise<void> {
+	await query(
+		`
+			UPDATE guardian_refresh_tokens
+			SET revoked_at = NOW()
+			WHERE token_hash = $1 AND revoked_at IS NULL
+		`,
+		[tokenHash],
+		client
+	);
+}
+
+export async function revokeAllGuardianRefreshTokens(guardianId: string, client?: PoolClient): Promise<void> {
+	await query(
+		`
+			UPDATE guardian_refresh_tokens
+			SET revoked_at = NOW()
+			WHERE guardian_id = $1 AND revoked_at IS NULL
+		`,
+		[guardianId],
+		client
+	);
+}
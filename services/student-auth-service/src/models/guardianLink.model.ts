@@ -0,0 +1,275 @@
+import { PoolClient, QueryResult } from 'pg';
+import { getPool } from '../config/database';
+
+export type GuardianRelationship = 'parent' | 'legal_guardian' | 'relative' | 'other';
+export type GuardianLinkStatus = 'pending' | 'active' | 'declined' | 'revoked' | 'expired';
+export type GuardianLinkParty = 'student' | 'guardian';
+
+export const GUARDIAN_CONSENT_KEYS = ['locationSharing', 'faceVerification'] as const;
+export type GuardianConsentKey = (typeof GUARDIAN_CONSENT_KEYS)[number];
+export type GuardianConsents = Partial<Record<GuardianConsentKey, { granted: boolean; updatedAt: string }>>;
+
+export type GuardianLinkRecord = {
+	id: string;
+	guardianId: string | null;
+	studentId: string;
+	inviteePhone: string | null;
+	relationship: GuardianRelationship;
+	status: GuardianLinkStatus;
+	initiatedBy: GuardianLinkParty;
+	consents: GuardianConsents;
+	inviteExpiresAt: Date | null;
+	respondedAt: Date | null;
+	revokedAt: Date | null;
+	revokedBy: GuardianLinkParty | null;
+	createdAt: Date;
+	updatedAt: Date;
+};
+
+export type GuardianLinkWithStudent = GuardianLinkRecord & {
+	studentName: string | null;
+	studentUsername: string | null;
+};
+
+export type GuardianLinkWithGuardian = GuardianLinkRecord & {
+	guardianName: string | null;
+	guardianPhone: string | null;
+	guardianEmail: string | null;
+};
+
+const linkColumns = `
+	l.id,
+	l.guardian_id as "guardianId",
+	l.student_id as "studentId",
+	l.invitee_phone as "inviteePhone",
+	l.relationship,
+	l.status,
+	l.initiated_by as "initiatedBy",
+	l.consents,
+	l.invite_expires_at as "inviteExpiresAt",
+	l.responded_at as "respondedAt",
+	l.revoked_at as "revokedAt",
+	l.revoked_by as "revokedBy",
+	l.created_at as "createdAt",
+	l.updated_at as "updatedAt"
+`;
+
+async function query<T extends Record<string, any> = Record<string, any>>(text: string, params: any[] = [], client?: PoolClient): Promise<QueryResult<T>> {
+	if (client) {
+		return client.query<T>(text, params);
+	}
+	return getPool().query<T>(text, params);
+}
+
+export async function createGuardianLink(
+	data: {
+		guardianId: string | null;
+		studentId: string;
+		inviteePhone?: string | null;
+		relationship: GuardianRelationship;
+		initiatedBy: GuardianLinkParty;
+		inviteExpiresAt: Date;
+	},
+	client?: PoolClient
+): Promise<GuardianLinkRecord> {
+	const result = await query<GuardianLinkRecord>(
+		`
+			INSERT INTO guardian_student_links AS l
+				(guardian_id, student_id, invitee_phone, relationship, initiated_by, invite_expires_at)
+			VALUES ($1, $2, $3, $4, $5, $6)
+			RETURNING ${linkColumns}
+		`,
+		[
+			data.guardianId,
+			data.studentId,
+			data.inviteePhone ?? null,
+			data.relationship,
+			data.initiatedBy,
+			data.inviteExpiresAt,
+		],
+		client
+	);
+	if (!result.rows[0]) {
+		throw new Error('Failed to create guardian link');
+	}
+	return result.rows[0];
+}
+
+export async function findGuardianLinkById(id: string, client?: PoolClient): Promise<GuardianLinkRecord | null> {
+	const result = await query<GuardianLinkRecord>(
+		`SELECT ${linkColumns} FROM guardian_student_links l WHERE l.id = $1`,
+		[id],
+		client
+	);
+	return result.rows[0] || null;
+}
+
+/**
+ * Pending or active link between a guardian and a student, including unclaimed phone invites
+ */
+export async function findOpenGuardianLink(
+	studentId: string,
+	guardian: { guardianId?: string | null; phone?: string | null },
+	client?: PoolClient
+): Promise<GuardianLinkRecord | null> {
+	const result = await query<GuardianLinkRecord>(
+		`
+			SELECT ${linkColumns}
+			FROM guardian_student_links l
+			WHERE l.student_id = $1
+				AND l.status IN ('pending', 'active')
+				AND (l.guardian_id = $2 OR (l.guardian_id IS NULL AND l.invitee_phone = $3))
+			LIMIT 1
+		`,
+		[studentId, guardian.guardianId ?? null, guardian.phone ?? null],
+		client
+	);
+	return result.rows[0] || null;
+}
+
+/**
+ * Attach invites that were sent to a phone number before the guardian had an account
+ */
+export async function claimGuardianInvites(guardianId: string, phone: string, client?: PoolClient): Promise<number> {
+	const result = await query(
+		`
+			UPDATE guardian_student_links l
+			SET guardian_id = $1,
+				updated_at = NOW()
+			WHERE l.guardian_id IS NULL
+				AND l.invitee_phone = $2
+				AND l.status = 'pending'
+				AND NOT EXISTS (
+					SELECT 1 FROM guardian_student_links o
+					WHERE o.guardian_id = $1
+						AND o.student_id = l.student_id
+						AND o.status IN ('pending', 'active')
+				)
+		`,
+		[guardianId, phone],
+		client
+	);
+	return result.rowCount ?? 0;
+}
+
+export async function expireStaleGuardianInvites(client?: PoolClient): Promise<number> {
+	const result = await query(
+		`
+			UPDATE guardian_student_links
+			SET status = 'expired',
+				updated_at = NOW()
+			WHERE status = 'pending'
+				AND invite_expires_at IS NOT NULL
+				AND invite_expires_at < NOW()
+		`,
+		[],
+		client
+	);
+	return result.rowCount ?? 0;
+}
+
+export async function updateGuardianLinkStatus(
+	id: string,
+	updates: {
+		status: GuardianLinkStatus;
+		respondedAt?: Date;
+		revokedAt?: Date;
+		revokedBy?: GuardianLinkParty;
+	},
+	client?: PoolClient
+): Promise<GuardianLinkRecord | null> {
+	const result = await query<GuardianLinkRecord>(
+		`
+			UPDATE guardian_student_links l
+			SET status = $2,
+				responded_at = COALESCE($3, l.responded_at),
+				revoked_at = COALESCE($4, l.revoked_at),
+				revoked_by = COALESCE($5, l.revoked_by),
+				updated_at = NOW()
+			WHERE l.id = $1
+			RETURNING ${linkColumns}
+		`,
+		[id, updates.status, updates.respondedAt ?? null, updates.revokedAt ?? null, updates.revokedBy ?? null],
+		client
+	);
+	return result.rows[0] || null;
+}
+
+export async function updateGuardianLinkConsents(
+	id: string,
+	consents: GuardianConsents,
+	client?: PoolClient
+): Promise<GuardianLinkRecord | null> {
+	const result = await query<GuardianLinkRecord>(
+		`
+			UPDATE guardian_student_links l
+			SET consents = l.consents || $2::jsonb,
+				updated_at = NOW()
+			WHERE l.id = $1
+			RETURNING ${linkColumns}
+		`,
+		[id, JSON.stringify(consents)],
+		client
+	);
+	return result.rows[0] || null;
+}
+
+export async function listGuardianLinksForGuardian(
+	guardianId: string,
+	client?: PoolClient
+): Promise<GuardianLinkWithStudent[]> {
+	const result = await query<GuardianLinkWithStudent>(
+		`
+			SELECT ${linkColumns},
+				p.full_name as "studentName",
+				s.username as "studentUsername"
+			FROM guardian_student_links l
+			JOIN students s ON s.id = l.student_id
+			LEFT JOIN student_profiles p ON p.student_id = l.student_id
+			WHERE l.guardian_id = $1
+				AND l.status IN ('pending', 'active')
+			ORDER BY l.created_at DESC
+		`,
+		[guardianId],
+		client
+	);
+	return result.rows;
+}
+
+export async function listGuardianLinksForStudent(
+	studentId: string,
+	client?: PoolClient
+): Promise<GuardianLinkWithGuardian[]> {
+	const result = await query<GuardianLinkWithGuardian>(
+		`
+			SELECT ${linkColumns},
+				g.full_name as "guardianName",
+				COALESCE(g.phone, l.invitee_phone) as "guardianPhone",
+				g.email as "guardianEmail"
+			FROM guardian_student_links l
+			LEFT JOIN guardians g ON g.id = l.guardian_id
+			WHERE l.student_id = $1
+				AND l.status IN ('pending', 'active')
+			ORDER BY l.created_at DESC
+		`,
+		[studentId],
+		client
+	);
+	return result.rows;
+}
+
+export async function listActiveGuardianLinksForStudent(
+	studentId: string,
+	client?: PoolClient
+): Promise<GuardianLinkRecord[]> {
+	const result = await query<GuardianLinkRecord>(
+		`
+			SELECT ${linkColumns}
+			FROM guardian_student_links l
+			WHERE l.student_id = $1 AND l.status = 'active'
+		`,
+		[studentId],
+		client
+	);
+	return result.rows;
+}
@@ -457,6 +457,7 @@ export type RefreshTokenRecord = {
 	expiresAt: Date;
 	userAgent: string | null;
 	ipAddress: string | null;
+	sessionId: string | null;
 	revokedAt: Date | null;
 	createdAt: Date;
 };
@@ -465,7 +466,7 @@ export async function storeRefreshToken(
 	studentId: string,
 	tokenHash: string,
 	expiresAt: Date,
-	meta: { userAgent?: string | null; ipAddress?: string | null },
+	meta: { userAgent?: string | null; ipAddress?: string | null; sessionId?: string | null },
 	client?: PoolClient
 ): Promise<RefreshTokenRecord> {
 	// First, cleanup old expired/revoked tokens for this user (non-blocking)
@@ -510,12 +511,13 @@ export async function storeRefreshToken(
 
 	const result = await query<RefreshTokenRecord>(
 		`
-			INSERT INTO student_refresh_tokens (student_id, token_hash, expires_at, user_agent, ip_address)
-			VALUES ($1, $2, $3, $4, $5)
+			INSERT INTO student_refresh_tokens (student_id, token_hash, expires_at, user_agent, ip_address, session_id)
+			VALUES ($1, $2, $3, $4, $5, $6)
 			ON CONFLICT (token_hash) DO UPDATE SET
 				expires_at = EXCLUDED.expires_at,
 				user_agent = EXCLUDED.user_agent,
 				ip_address = EXCLUDED.ip_address,
+				session_id = EXCLUDED.session_id,
 				revoked_at = NULL
 			RETURNING
 				id,
@@ -524,10 +526,11 @@ export async function storeRefreshToken(
 				expires_at as "expiresAt",
 				user_agent as "userAgent",
 				ip_address as "ipAddress",
+				session_id as "sessionId",
 				revoked_at as "revokedAt",
 				created_at as "createdAt"
 		`,
-		[studentId, tokenHash, expiresAt, meta.userAgent || null, meta.ipAddress || null],
+		[studentId, tokenHash, expiresAt, meta.userAgent || null, meta.ipAddress || null, meta.sessionId || null],
 		client
 	);
 	if (!result.rows[0]) {
@@ -548,6 +551,26 @@ export async function revokeRefreshToken(tokenHash: string, client?: PoolClient)
 	);
 }
 
+/**
+ * Revoke the refresh tokens bound to one login session. Returns how many were revoked.
+ */
+export async function revokeSessionRefreshTokens(
+	studentId: string,
+	sessionId: string,
+	client?: PoolClient
+): Promise<number> {
+	const result = await query(
+		`
+			UPDATE student_refresh_tokens
+			SET revoked_at = NOW()
+			WHERE student_id = $1 AND session_id = $2 AND revoked_at IS NULL
+		`,
+		[studentId, sessionId],
+		client
+	);
+	return result.rowCount ?? 0;
+}
+
 export async function revokeAllRefreshTokens(studentId: string, client?: PoolClient): Promise<void> {
 	await query(
 		`
@@ -602,6 +625,7 @@ export async function findRefreshToken(tokenHash: string, client?: PoolClient):
 				expires_at as "expiresAt",
 				user_agent as "userAgent",
 				ip_address as "ipAddress",
+				session_id as "sessionId",
 				revoked_at as "revokedAt",
 				created_at as "createdAt"
 			FROM student_refresh_tokens
@@ -627,6 +651,7 @@ export async function findRefreshTokenWithLock(tokenHash: string, client: PoolCl
 				expires_at as "expiresAt",
 				user_agent as "userAgent",
 				ip_address as "ipAddress",
+				session_id as "sessionId",
 				revoked_at as "revokedAt",
 				created_at as "createdAt"
 			FROM student_refresh_tokens
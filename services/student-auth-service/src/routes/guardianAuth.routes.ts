@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import type { Router as ExpressRouter } from 'express';
+import { validateRequest, authRateLimiter, otpRateLimiter } from '@kodingcaravan/shared';
+import {
+	phoneOtpRequestSchema,
+	phoneOtpVerifySchema,
+	phoneOtpRetrySchema,
+	refreshSchema,
+	logoutSchema,
+	googleAuthSchema,
+} from '../schemas/authSchema';
+import { guardianProfileSchema } from '../schemas/guardianSchema';
+import { GuardianAuthController } from '../controllers/guardianAuth.controller';
+import { requireAuth, requireRole } from '../middlewares/authMiddleware';
+
+const router: ExpressRouter = Router();
+
+router.post(
+	'/otp/request',
+	otpRateLimiter,
+	validateRequest({ body: phoneOtpRequestSchema }),
+	GuardianAuthController.requestPhoneOtp
+);
+router.post(
+	'/otp/verify',
+	authRateLimiter,
+	validateRequest({ body: phoneOtpVerifySchema }),
+	GuardianAuthController.verifyPhoneOtp
+);
+router.post(
+	'/otp/retry',
+	otpRateLimiter,
+	validateRequest({ body: phoneOtpRetrySchema }),
+	GuardianAuthController.retryPhoneOtp
+);
+router.post(
+	'/google',
+	authRateLimiter,
+	validateRequest({ body: googleAuthSchema }),
+	GuardianAuthController.googleAuth
+);
+router.post(
+	'/refresh',
+	validateRequest({ body: refreshSchema }),
+	GuardianAuthController.refresh
+);
+router.post(
+	'/logout',
+	validateRequest({ body: logoutSchema }),
+	GuardianAuthController.logout
+);
+router.post('/logout-all', requireAuth, requireRole('guardian'), GuardianAuthController.logoutAll);
+router.get('/profile', requireAuth, requireRole('guardian'), GuardianAuthController.getProfile);
+router.put(
+	'/profile',
+	requireAuth,
+	requireRole('guardian'),
+	validateRequest({ body: guardianProfileSchema }),
+	GuardianAuthController.updateProfile
+);
+
+export default router;
@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import type { Router as ExpressRouter } from 'express';
+import { validateRequest } from '@kodingcaravan/shared';
+import {
+	guardianConsentsSchema,
+	guardianLinkParamsSchema,
+	guardianLinkRequestSchema,
+	studentIdParamsSchema,
+} from '../schemas/guardianSchema';
+import { GuardianLinkController } from '../controllers/guardianLink.controller';
+import { requireAuth, requireRole } from '../middlewares/authMiddleware';
+
+const router: ExpressRouter = Router();
+
+router.use(requireAuth);
+
+// Guardian side of the link handshake
+router.get('/links', requireRole('guardian'), GuardianLinkController.listForGuardian);
+router.post(
+	'/links',
+	requireRole('guardian'),
+	validateRequest({ body: guardianLinkRequestSchema }),
+	GuardianLinkController.requestLink
+);
+router.post(
+	'/links/:linkId/accept',
+	requireRole('guardian'),
+	validateRequest({ params: guardianLinkParamsSchema }),
+	GuardianLinkController.guardianAccept
+);
+router.post(
+	'/links/:linkId/decline',
+	requireRole('guardian'),
+	validateRequest({ params: guardianLinkParamsSchema }),
+	GuardianLinkController.guardianDecline
+);
+router.delete(
+	'/links/:linkId',
+	requireRole('guardian'),
+	validateRequest({ params: guardianLinkParamsSchema }),
+	GuardianLinkController.guardianRevoke
+);
+router.put(
+	'/links/:linkId/consents',
+	requireRole('guardian'),
+	validateRequest({ params: guardianLinkParamsSchema, body: guardianConsentsSchema }),
+	GuardianLinkController.updateConsents
+);
+
+// Effective consents for a student (student, linked guardians, trainers and admins)
+router.get(
+	'/consents/:studentId',
+	requireRole('student', 'guardian', 'trainer', 'admin'),
+	validateRequest({ params: studentIdParamsSchema }),
+	GuardianLinkController.getStudentConsents
+);
+
+export default router;
@@ -11,6 +11,7 @@ import {
 	phoneOtpRetrySchema,
 	refreshSchema,
 	logoutSchema,
+	sessionParamsSchema,
 	profileSchema,
 	googleAuthSchema,
 	googleNativeAuthSchema,
@@ -19,8 +20,10 @@ import {
 	resetPasswordWithOtpSchema,
 	changePasswordSchema,
 } from '../schemas/authSchema';
+import { guardianInviteSchema, guardianLinkParamsSchema } from '../schemas/guardianSchema';
 import { StudentAuthController } from '../controllers/studentAuth.controller';
-import { requireAuth } from '../middlewares/authMiddleware';
+import { GuardianLinkController } from '../controllers/guardianLink.controller';
+import { requireAuth, requireRole } from '../middlewares/authMiddleware';
 
 const router: ExpressRouter = Router();
 
@@ -100,6 +103,14 @@ router.post(
 	StudentAuthController.logout
 );
 router.post('/logout-all', requireAuth, StudentAuthController.logoutAll);
+router.get('/sessions', requireAuth, requireRole('student'), StudentAuthController.listSessions);
+router.delete(
+	'/sessions/:sessionId',
+	requireAuth,
+	requireRole('student'),
+	validateRequest({ params: sessionParamsSchema }),
+	StudentAuthController.revokeSession
+);
 router.post(
 	'/password/forgot',
 	authRateLimiter,
@@ -126,5 +137,36 @@ router.put(
 	StudentAuthController.updateProfile
 );
 
+// Student side of the guardian link handshake
+router.get('/guardians', requireAuth, requireRole('student'), GuardianLinkController.listForStudent);
+router.post(
+	'/guardians/invites',
+	requireAuth,
+	requireRole('student'),
+	validateRequest({ body: guardianInviteSchema }),
+	GuardianLinkController.inviteGuardian
+);
+router.post(
+	'/guardians/:linkId/accept',
+	requireAuth,
+	requireRole('student'),
+	validateRequest({ params: guardianLinkParamsSchema }),
+	GuardianLinkController.studentAccept
+);
+router.post(
+	'/guardians/:linkId/decline',
+	requireAuth,
+	requireRole('student'),
+	validateRequest({ params: guardianLinkParamsSchema }),
+	GuardianLinkController.studentDecline
+);
+router.delete(
+	'/guardians/:linkId',
+	requireAuth,
+	requireRole('student'),
+	validateRequest({ params: guardianLinkParamsSchema }),
+	GuardianLinkController.studentRevoke
+);
+
 export default router;
 
@@ -63,6 +63,10 @@ export const logoutSchema = z.object({
 	refreshToken: z.string().min(10),
 });
 
+export const sessionParamsSchema = z.object({
+	sessionId: z.string().uuid(),
+});
+
 export const profileSchema = z.object({
 	fullName: z.string().min(2),
 	age: z.coerce.number().int().min(13).max(100),
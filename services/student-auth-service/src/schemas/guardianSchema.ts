@@ -0,0 +1,33 @@
+import { z } from 'zod';
+
+const relationshipSchema = z.enum(['parent', 'legal_guardian', 'relative', 'other']).default('parent');
+
+export const guardianProfileSchema = z.object({
+	fullName: z.string().trim().min(2).max(150).optional(),
+	email: z.string().trim().email().optional(),
+});
+
+export const guardianInviteSchema = z.object({
+	phone: z.string().trim().min(10).max(15),
+	relationship: relationshipSchema,
+});
+
+// One of studentPhone or studentEmail is required (checked in the service)
+export const guardianLinkRequestSchema = z.object({
+	studentPhone: z.string().trim().min(10).max(15).optional(),
+	studentEmail: z.string().trim().email().optional(),
+	relationship: relationshipSchema,
+});
+
+export const guardianLinkParamsSchema = z.object({
+	linkId: z.string().uuid(),
+});
+
+export const guardianConsentsSchema = z.object({
+	locationSharing: z.boolean().optional(),
+	faceVerification: z.boolean().optional(),
+});
+
+export const studentIdParamsSchema = z.object({
+	studentId: z.string().uuid(),
+});
@@ -0,0 +1,270 @@
+import { isBefore } from 'date-fns';
+import {
+	signAccessToken,
+	signRefreshToken,
+	verifyRefreshToken,
+	AppError,
+} from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import {
+	createGuardian,
+	findGuardianByEmail,
+	findGuardianByGoogleId,
+	findGuardianById,
+	findGuardianByPhone,
+	findGuardianRefreshTokenWithLock,
+	revokeAllGuardianRefreshTokens,
+	revokeGuardianRefreshToken,
+	storeGuardianRefreshToken,
+	updateGuardian,
+	type GuardianRecord,
+} from '../models/guardian.model';
+import { claimGuardianInvites } from '../models/guardianLink.model';
+import { withTransaction } from '../config/database';
+import { hashString } from '../utils/crypto';
+import { sendMsg91Otp, verifyMsg91Otp, retryMsg91Otp } from '../integrations/msg91';
+import { verifyGoogleIdToken } from '../integrations/googleAuth';
+import { createSession, deleteSession, deleteAllUserSessions } from '@kodingcaravan/shared/utils/sessionManager';
+
+type TokenPair = {
+	accessToken: string;
+	refreshToken: string;
+};
+
+type GuardianAuthResult = { tokens: TokenPair; guardian: GuardianRecord; sessionId: string };
+
+function issueGuardianTokens(guardian: GuardianRecord): TokenPair {
+	const payload = {
+		sub: guardian.id,
+		role: 'guardian',
+		phone: guardian.phone,
+		email: guardian.email,
+	};
+
+	return {
+		accessToken: signAccessToken(payload),
+		refreshToken: signRefreshToken(payload),
+	};
+}
+
+function normalizePhone(phone: string): string {
+	return phone.replace(/\D/g, '');
+}
+
+async function persistGuardianRefreshToken(
+	guardianId: string,
+	refreshToken: string,
+	meta: { ip?: string; userAgent?: string }
+): Promise<void> {
+	const payload = verifyRefreshToken<{ exp: number }>(refreshToken);
+	await storeGuardianRefreshToken(guardianId, hashString(refreshToken), new Date(payload.exp * 1000), {
+		userAgent: meta.userAgent ?? null,
+		ipAddress: meta.ip ?? null,
+	});
+}
+
+async function completeGuardianLogin(
+	guardian: GuardianRecord,
+	meta: { ip?: string; userAgent?: string }
+): Promise<GuardianAuthResult> {
+	const tokens = issueGuardianTokens(guardian);
+	await persistGuardianRefreshToken(guardian.id, tokens.refreshToken, meta);
+	const sessionId = await createSession(guardian.id, 'guardian', meta);
+	return { tokens, guardian, sessionId };
+}
+
+/**
+ * Guardians use the same MSG91 OTP flow as students
+ */
+export async function requestGuardianPhoneOtp(phoneInput: string): Promise<void> {
+	const phone = normalizePhone(phoneInput);
+	if (phone.length < 10) {
+		throw new AppError('Invalid phone number', 400);
+	}
+
+	const result = await sendMsg91Otp(phone);
+	logger.info('Guardian code dispatched', {
+		phone: phone.substring(0, 4) + '****',
+		provider: result.provider,
+		service: 'student-auth-service',
+	});
+}
+
+export async function retryGuardianPhoneOtp(
+	phoneInput: string,
+	retryType: 'text' | 'voice' = 'text'
+): Promise<void> {
+	const phone = normalizePhone(phoneInput);
+	if (phone.length < 10) {
+		throw new AppError('Invalid phone number', 400);
+	}
+
+	const result = await retryMsg91Otp(phone, retryType);
+	if (!result.success) {
+		throw new AppError(result.error || 'Failed to resend OTP', 400);
+	}
+}
+
+/**
+ * Verify the OTP, creating the guardian on first login. Invites sent to this phone
+ * number before the guardian signed up are attached to the new account.
+ */
+export async function verifyGuardianPhoneOtp(
+	phoneInput: string,
+	otp: string,
+	meta: { ip?: string; userAgent?: string }
+): Promise<GuardianAuthResult> {
+	const phone = normalizePhone(phoneInput);
+	const sanitizedOtp = otp.replace(/\s+/g, '').trim();
+	if (!/^\d{4,6}$/.test(sanitizedOtp)) {
+		throw new AppError('Invalid code format', 400);
+	}
+
+	const verifyResult = await verifyMsg91Otp(phone, sanitizedOtp);
+	if (!verifyResult.success) {
+		throw new AppError(verifyResult.error || 'Invalid or expired OTP', 400);
+	}
+
+	const guardian = await withTransaction(async (client) => {
+		const existing = await findGuardianByPhone(phone, client);
+		const record = existing ?? (await createGuardian({ phone, authProvider: 'phone' }, client));
+
+		const claimed = await claimGuardianInvites(record.id, phone, client);
+		if (claimed > 0) {
+			logger.info('Attached pending guardian invites', {
+				guardianId: record.id,
+				claimed,
+				service: 'student-auth-service',
+			});
+		}
+
+		return updateGuardian(record.id, { isPhoneVerified: true, lastLoginAt: new Date() }, client);
+	});
+
+	if (!guardian) {
+		throw new AppError('Failed to sign in guardian', 500);
+	}
+
+	return completeGuardianLogin(guardian, meta);
+}
+
+export async function authenticateGuardianWithGoogle(
+	idToken: string,
+	meta: { ip?: string; userAgent?: string }
+): Promise<GuardianAuthResult> {
+	const payload = await verifyGoogleIdToken(idToken);
+	if (!payload || !payload.email || !payload.sub) {
+		throw new AppError('Unable to verify Google account', 401);
+	}
+
+	const email = payload.email.toLowerCase();
+	let guardian = (await findGuardianByGoogleId(payload.sub)) || (await findGuardianByEmail(email));
+
+	if (!guardian) {
+		guardian = await createGuardian({
+			email,
+			fullName: payload.name ?? null,
+			googleId: payload.sub,
+			authProvider: 'google',
+		});
+	}
+
+	const updated = await updateGuardian(guardian.id, {
+		...(!guardian.googleId && { googleId: payload.sub }),
+		isEmailVerified: true,
+		lastLoginAt: new Date(),
+	});
+
+	return completeGuardianLogin(updated ?? guardian, meta);
+}
+
+export async function refreshGuardianSession(
+	refreshToken: string,
+	meta: { ip?: string; userAgent?: string; sessionId?: string }
+): Promise<GuardianAuthResult> {
+	let payload: { sub: string; role?: string };
+	try {
+		payload = verifyRefreshToken<{ sub: string; role?: string }>(refreshToken);
+	} catch {
+		throw new AppError('Invalid refresh token', 401);
+	}
+
+	if (payload.role !== 'guardian') {
+		throw new AppError('Invalid refresh token', 401);
+	}
+
+	const result = await withTransaction(async (client) => {
+		const guardian = await findGuardianById(payload.sub, client);
+		if (!guardian) {
+			throw new AppError('Account not found', 401);
+		}
+
+		const tokenHash = hashString(refreshToken);
+		const stored = await findGuardianRefreshTokenWithLock(tokenHash, client);
+		if (!stored || stored.revokedAt) {
+			throw new AppError('Refresh token revoked', 401);
+		}
+		if (isBefore(stored.expiresAt, new Date())) {
+			throw new AppError('Refresh token expired', 401);
+		}
+
+		// Store the new token before revoking the old one (same ordering as student refresh)
+		const tokens = issueGuardianTokens(guardian);
+		const tokenPayload = verifyRefreshToken<{ exp: number }>(tokens.refreshToken);
+		await storeGuardianRefreshToken(
+			guardian.id,
+			hashString(tokens.refreshToken),
+			new Date(tokenPayload.exp * 1000),
+			{ userAgent: meta.userAgent || null, ipAddress: meta.ip || null },
+			client
+		);
+		await revokeGuardianRefreshToken(tokenHash, client);
+
+		return { tokens, guardian };
+	});
+
+	const sessionId = meta.sessionId ?? (await createSession(result.guardian.id, 'guardian', meta));
+	return { ...result, sessionId };
+}
+
+export async function logoutGuardian(refreshToken: string, sessionId?: string): Promise<void> {
+	await revokeGuardianRefreshToken(hashString(refreshToken));
+	if (sessionId) {
+		await deleteSession(sessionId);
+	}
+}
+
+export async function logoutAllGuardianSessions(guardianId: string): Promise<void> {
+	await revokeAllGuardianRefreshTokens(guardianId);
+	await deleteAllUserSessions(guardianId);
+}
+
+export async function getGuardianProfile(guardianId: string): Promise<GuardianRecord> {
+	const guardian = await findGuardianById(guardianId);
+	if (!guardian) {
+		throw new AppError('Account not found', 404);
+	}
+	return guardian;
+}
+
+export async function updateGuardianProfile(
+	guardianId: string,
+	updates: { fullName?: string; email?: string }
+): Promise<GuardianRecord> {
+	const guardian = await getGuardianProfile(guardianId);
+
+	if (updates.email && updates.email.toLowerCase() !== guardian.email) {
+		const owner = await findGuardianByEmail(updates.email);
+		if (owner && owner.id !== guardian.id) {
+			throw new AppError('Email already in use', 409);
+		}
+	}
+
+	const updated = await updateGuardian(guardian.id, {
+		...(updates.fullName !== undefined && { fullName: updates.fullName }),
+		// A changed email must be verified again (Google login marks it verified)
+		...(updates.email !== undefined &&
+			updates.email.toLowerCase() !== guardian.email && { email: updates.email, isEmailVerified: false }),
+	});
+	return updated ?? guardian;
+}
@@ -0,0 +1,296 @@
+import { addDays } from 'date-fns';
+import { AppError } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import { emitNotificationRequested } from '@kodingcaravan/shared/utils/notificationEventEmitter';
+import { findStudentByEmail, findStudentById, findStudentByPhone } from '../models/student.model';
+import { findGuardianById, findGuardianByPhone } from '../models/guardian.model';
+import {
+	GUARDIAN_CONSENT_KEYS,
+	createGuardianLink,
+	expireStaleGuardianInvites,
+	findGuardianLinkById,
+	findOpenGuardianLink,
+	listActiveGuardianLinksForStudent,
+	listGuardianLinksForGuardian,
+	listGuardianLinksForStudent,
+	updateGuardianLinkConsents,
+	updateGuardianLinkStatus,
+	type GuardianConsentKey,
+	type GuardianConsents,
+	type GuardianLinkParty,
+	type GuardianLinkRecord,
+	type GuardianLinkWithGuardian,
+	type GuardianLinkWithStudent,
+	type GuardianRelationship,
+} from '../models/guardianLink.model';
+
+type LinkActor = {
+	party: GuardianLinkParty;
+	id: string;
+};
+
+export type StudentGuardianConsents = {
+	studentId: string;
+	hasActiveGuardian: boolean;
+	consents: Record<GuardianConsentKey, boolean>;
+};
+
+function getInviteExpiryDays(): number {
+	const days = Number(process.env.GUARDIAN_INVITE_EXPIRY_DAYS);
+	return Number.isFinite(days) && days > 0 ? days : 7;
+}
+
+function normalizePhone(phone: string): string {
+	return phone.replace(/\D/g, '');
+}
+
+function isLinkParty(link: GuardianLinkRecord, actor: LinkActor): boolean {
+	return actor.party === 'student' ? link.studentId === actor.id : link.guardianId === actor.id;
+}
+
+async function getLinkForActor(linkId: string, actor: LinkActor): Promise<GuardianLinkRecord> {
+	await expireStaleGuardianInvites();
+	const link = await findGuardianLinkById(linkId);
+	// Same response for missing and foreign links so ids cannot be probed
+	if (!link || !isLinkParty(link, actor)) {
+		throw new AppError('Guardian link not found', 404);
+	}
+	return link;
+}
+
+/**
+ * Student invites a guardian by phone. The guardian does not need an account yet:
+ * the invite is attached when they first sign in with that phone number.
+ */
+export async function inviteGuardian(
+	studentId: string,
+	input: { phone: string; relationship: GuardianRelationship }
+): Promise<GuardianLinkRecord> {
+	const student = await findStudentById(studentId);
+	if (!student) {
+		throw new AppError('Account not found', 404);
+	}
+
+	const phone = normalizePhone(input.phone);
+	if (phone.length < 10) {
+		throw new AppError('Invalid phone number', 400);
+	}
+	if (student.phone && normalizePhone(student.phone) === phone) {
+		throw new AppError('You cannot invite yourself as a guardian', 400);
+	}
+
+	await expireStaleGuardianInvites();
+	const guardian = await findGuardianByPhone(phone);
+	const existing = await findOpenGuardianLink(studentId, { guardianId: guardian?.id ?? null, phone });
+	if (existing) {
+		throw new AppError(
+			existing.status === 'active' ? 'This guardian is already linked' : 'An invite for this guardian is already pending',
+			409
+		);
+	}
+
+	const link = await createGuardianLink({
+		guardianId: guardian?.id ?? null,
+		studentId,
+		inviteePhone: phone,
+		relationship: input.relationship,
+		initiatedBy: 'student',
+		inviteExpiresAt: addDays(new Date(), getInviteExpiryDays()),
+	});
+
+	logger.info('Guardian invite created', {
+		linkId: link.id,
+		studentId,
+		guardianId: guardian?.id ?? null,
+		service: 'student-auth-service',
+	});
+
+	return link;
+}
+
+/**
+ * Guardian asks to be linked to a student identified by phone or email.
+ * The student has to accept before the guardian can see anything.
+ */
+export async function requestStudentLink(
+	guardianId: string,
+	input: { studentPhone?: string; studentEmail?: string; relationship: GuardianRelationship }
+): Promise<GuardianLinkRecord> {
+	const guardian = await findGuardianById(guardianId);
+	if (!guardian) {
+		throw new AppError('Account not found', 404);
+	}
+
+	if (!input.studentPhone && !input.studentEmail) {
+		throw new AppError('Provide the student phone number or email', 400);
+	}
+
+	const student = input.studentPhone
+		? await findStudentByPhone(normalizePhone(input.studentPhone))
+		: await findStudentByEmail(input.studentEmail!);
+	if (!student) {
+		throw new AppError('Student account not found', 404);
+	}
+
+	await expireStaleGuardianInvites();
+	const existing = await findOpenGuardianLink(student.id, { guardianId, phone: guardian.phone });
+	if (existing) {
+		throw new AppError(
+			existing.status === 'active' ? 'This student is already linked' : 'A link request for this student is already pending',
+			409
+		);
+	}
+
+	const link = await createGuardianLink({
+		guardianId,
+		studentId: student.id,
+		relationship: input.relationship,
+		initiatedBy: 'guardian',
+		inviteExpiresAt: addDays(new Date(), getInviteExpiryDays()),
+	});
+
+	emitNotificationRequested({
+		userId: student.id,
+		role: 'student',
+		notificationType: 'info',
+		title: 'Guardian link request',
+		body: `${guardian.fullName || 'A guardian'} wants to follow your classes and progress. Open the app to accept or decline.`,
+		data: { type: 'guardian_link_request', linkId: link.id },
+	}).catch((error: any) => {
+		logger.warn('Failed to notify student about guardian link request', {
+			error: error?.message || String(error),
+			linkId: link.id,
+			service: 'student-auth-service',
+		});
+	});
+
+	return link;
+}
+
+/**
+ * Accept or decline a pending link. Only the party that did not start the handshake can respond.
+ */
+export async function respondToGuardianLink(
+	linkId: string,
+	actor: LinkActor,
+	accept: boolean
+): Promise<GuardianLinkRecord> {
+	const link = await getLinkForActor(linkId, actor);
+
+	if (link.status !== 'pending') {
+		throw new AppError(`Guardian link is ${link.status}`, 409);
+	}
+	if (link.initiatedBy === actor.party) {
+		throw new AppError('Waiting for the other party to respond', 403);
+	}
+
+	const updated = await updateGuardianLinkStatus(link.id, {
+		status: accept ? 'active' : 'declined',
+		respondedAt: new Date(),
+	});
+	if (!updated) {
+		throw new AppError('Guardian link not found', 404);
+	}
+
+	logger.info(accept ? 'Guardian link accepted' : 'Guardian link declined', {
+		linkId: link.id,
+		studentId: link.studentId,
+		guardianId: link.guardianId,
+		respondedBy: actor.party,
+		service: 'student-auth-service',
+	});
+
+	return updated;
+}
+
+/**
+ * Either party can end an active link or withdraw a pending one
+ */
+export async function revokeGuardianLink(linkId: string, actor: LinkActor): Promise<GuardianLinkRecord> {
+	const link = await getLinkForActor(linkId, actor);
+
+	if (link.status !== 'pending' && link.status !== 'active') {
+		throw new AppError(`Guardian link is already ${link.status}`, 409);
+	}
+
+	const updated = await updateGuardianLinkStatus(link.id, {
+		status: 'revoked',
+		revokedAt: new Date(),
+		revokedBy: actor.party,
+	});
+	if (!updated) {
+		throw new AppError('Guardian link not found', 404);
+	}
+	return updated;
+}
+
+export async function listLinksForGuardian(guardianId: string): Promise<GuardianLinkWithStudent[]> {
+	await expireStaleGuardianInvites();
+	return listGuardianLinksForGuardian(guardianId);
+}
+
+export async function listLinksForStudent(studentId: string): Promise<GuardianLinkWithGuardian[]> {
+	await expireStaleGuardianInvites();
+	return listGuardianLinksForStudent(studentId);
+}
+
+/**
+ * Guardians record consent per linked student (e.g. location sharing, face verification)
+ */
+export async function updateGuardianConsents(
+	linkId: string,
+	guardianId: string,
+	changes: Partial<Record<GuardianConsentKey, boolean>>
+): Promise<GuardianLinkRecord> {
+	const link = await getLinkForActor(linkId, { party: 'guardian', id: guardianId });
+	if (link.status !== 'active') {
+		throw new AppError('Consents can only be set on an active guardian link', 409);
+	}
+
+	if (!GUARDIAN_CONSENT_KEYS.some((key) => typeof changes[key] === 'boolean')) {
+		throw new AppError('Provide at least one consent', 400);
+	}
+
+	const updatedAt = new Date().toISOString();
+	const consents: GuardianConsents = {};
+	for (const key of GUARDIAN_CONSENT_KEYS) {
+		const granted = changes[key];
+		if (typeof granted === 'boolean') {
+			consents[key] = { granted, updatedAt };
+		}
+	}
+
+	const updated = await updateGuardianLinkConsents(link.id, consents);
+	if (!updated) {
+		throw new AppError('Guardian link not found', 404);
+	}
+
+	logger.info('Guardian consents updated', {
+		linkId: link.id,
+		studentId: link.studentId,
+		guardianId,
+		changes,
+		service: 'student-auth-service',
+	});
+
+	return updated;
+}
+
+/**
+ * Effective consents for a student: a consent counts as granted only when every active guardian
+ * granted it, so one guardian cannot override another's refusal. admin-service enforces the same
+ * rule where location sharing and face verification run.
+ */
+export async function getStudentGuardianConsents(studentId: string): Promise<StudentGuardianConsents> {
+	const links = await listActiveGuardianLinksForStudent(studentId);
+
+	const consents = Object.fromEntries(
+		GUARDIAN_CONSENT_KEYS.map((key) => [key, links.every((link) => link.consents?.[key]?.granted === true)])
+	) as Record<GuardianConsentKey, boolean>;
+
+	return {
+		studentId,
+		hasActiveGuardian: links.length > 0,
+		consents,
+	};
+}
@@ -5,10 +5,8 @@ import {
 	signRefreshToken,
 	verifyRefreshToken,
 	AppError,
-	isAccountLocked,
-	recordFailedAttempt,
-	clearFailedAttempts,
-	getRemainingAttempts,
+	createAccountLockout,
+	type LockStatus,
 } from '@kodingcaravan/shared';
 import logger from '@kodingcaravan/shared/config/logger';
 import {
@@ -27,6 +25,7 @@ import {
 	updateStudentIdentity,
 	updateStudentPassword,
 	revokeAllRefreshTokens,
+	revokeSessionRefreshTokens,
 	revokeRefreshToken,
 	storeRefreshToken,
 	findRefreshTokenWithLock,
@@ -35,7 +34,7 @@ import {
 	type StudentRecord,
 	type StudentProfileRecord,
 } from '../models/student.model';
-import { withTransaction } from '../config/database';
+import { getPool, withTransaction } from '../config/database';
 import { generateNumericOtp, hashString } from '../utils/crypto';
 import { sendMsg91Otp, verifyMsg91Otp, retryMsg91Otp } from '../integrations/msg91';
 import { sendEmailOtp } from '../integrations/mailer';
@@ -44,9 +43,14 @@ import {
 	createSession,
 	updateSessionActivity,
 	deleteSession,
+	deleteUserSession,
+	listUserSessions,
+	toSessionSummary,
 	acquireRefreshLock,
 	releaseRefreshLock,
 	waitForRefreshLock,
+	type SessionMeta,
+	type SessionSummary,
 } from '@kodingcaravan/shared/utils/sessionManager';
 
 const OTP_EXPIRY_MINUTES = 10;
@@ -144,6 +148,23 @@ async function getRegistrationCoins(): Promise<number> {
 	return 10; // Default fallback
 }
 
+// Redis-backed, so limits hold across all service instances. Lock/unlock events go to account_lockout_events.
+const lockoutAuditPool = {
+	query: (text: string, params?: unknown[]) => getPool().query(text, params as any[]),
+};
+const loginLockout = createAccountLockout({ scope: 'student:login', auditPool: lockoutAuditPool });
+const otpLockout = createAccountLockout({ scope: 'student:otp', auditPool: lockoutAuditPool });
+
+function lockedOutError(status: LockStatus): AppError {
+	const minutesRemaining = Math.max(1, Math.ceil((status.retryAfterSeconds ?? 60) / 60));
+	return new AppError(
+		status.subjectType === 'ip'
+			? `Too many failed attempts from this network. Please try again after ${minutesRemaining} minutes.`
+			: `Account locked due to too many failed login attempts. Please try again after ${minutesRemaining} minutes.`,
+		423
+	);
+}
+
 type TokenPair = {
 	accessToken: string;
 	refreshToken: string;
@@ -154,12 +175,16 @@ type RegisterWithEmailResult = {
 	status: 'created' | 'otp_resent';
 };
 
-function issueTokens(student: StudentRecord): TokenPair {
+/**
+ * `sid` ties the tokens to the login session so the current device can be identified and revoked
+ */
+function issueTokens(student: StudentRecord, sessionId: string): TokenPair {
 	const payload = {
 		sub: student.id,
 		role: 'student',
 		phone: student.phone,
 		email: student.email,
+		sid: sessionId,
 	};
 
 	const accessToken = signAccessToken(payload);
@@ -579,22 +604,37 @@ export async function verifyEmailOtpForStudent(email: string, otp: string): Prom
 export async function loginWithEmailPassword(
 	email: string,
 	password: string,
-	meta: { ip?: string; userAgent?: string }
+	meta: SessionMeta
 ): Promise<{ tokens: TokenPair; student: StudentRecord; sessionId: string }> {
-	const student = await findStudentByEmail(email.toLowerCase());
+	const normalizedEmail = email.toLowerCase();
+
+	// Checked before the account lookup so unknown and locked identifiers look the same
+	const lockStatus = await loginLockout.check(normalizedEmail, meta.ip);
+	if (lockStatus.locked) {
+		logger.warn('Login failed - locked out', {
+			email: normalizedEmail,
+			lockedBy: lockStatus.subjectType,
+			retryAfterSeconds: lockStatus.retryAfterSeconds,
+			ip: meta.ip,
+			service: 'student-auth-service',
+		});
+		throw lockedOutError(lockStatus);
+	}
+
+	const student = await findStudentByEmail(normalizedEmail);
 	if (!student || !student.passwordHash) {
-		// Record failed attempt even if user doesn't exist (prevent user enumeration)
+		// Count attempts against unknown accounts too, so the per-IP limit catches enumeration
+		await loginLockout.recordFailure(normalizedEmail, { ...(meta.ip && { ip: meta.ip }), userId: student?.id ?? null });
 		if (student) {
-			recordFailedAttempt(student.id);
 			logger.warn('Login failed - invalid credentials', {
-				email: email.toLowerCase(),
+				email: normalizedEmail,
 				studentId: student.id,
 				ip: meta.ip,
 				service: 'student-auth-service',
 			});
 		} else {
 			logger.warn('Login failed - account not found', {
-				email: email.toLowerCase(),
+				email: normalizedEmail,
 				ip: meta.ip,
 				service: 'student-auth-service',
 			});
@@ -602,38 +642,22 @@ export async function loginWithEmailPassword(
 		throw new AppError('Invalid credentials', 401);
 	}
 
-	// Check if account is locked
-	const lockStatus = isAccountLocked(student.id);
-	if (lockStatus.locked) {
-		const minutesRemaining = Math.ceil(
-			(lockStatus.lockedUntil!.getTime() - Date.now()) / (60 * 1000)
-		);
-		logger.warn('Login failed - account locked', {
-			email: email.toLowerCase(),
-			studentId: student.id,
-			minutesRemaining,
-			ip: meta.ip,
-			service: 'student-auth-service',
-		});
-		throw new AppError(
-			`Account locked due to too many failed login attempts. Please try again after ${minutesRemaining} minutes.`,
-			423
-		);
-	}
-
 	const match = await bcrypt.compare(password, student.passwordHash);
 	if (!match) {
-		recordFailedAttempt(student.id);
-		const remaining = getRemainingAttempts(student.id);
+		const failure = await loginLockout.recordFailure(normalizedEmail, {
+			...(meta.ip && { ip: meta.ip }),
+			userId: student.id,
+		});
 		logger.warn('Login failed - password mismatch', {
-			email: email.toLowerCase(),
+			email: normalizedEmail,
 			studentId: student.id,
-			remainingAttempts: remaining,
+			remainingAttempts: failure.remainingAttempts,
+			lockedUntil: failure.lockedUntil?.toISOString(),
 			ip: meta.ip,
 			service: 'student-auth-service',
 		});
-		if (remaining > 0) {
-			throw new AppError(`Invalid credentials. ${remaining} attempt(s) remaining.`, 401);
+		if (failure.remainingAttempts > 0) {
+			throw new AppError(`Invalid credentials. ${failure.remainingAttempts} attempt(s) remaining.`, 401);
 		}
 		throw new AppError('Invalid credentials', 401);
 	}
@@ -643,21 +667,21 @@ export async function loginWithEmailPassword(
 	}
 
 	// Clear failed attempts on successful login
-	clearFailedAttempts(student.id);
+	await loginLockout.recordSuccess(normalizedEmail);
 
 	logger.info('Login successful', {
-		email: email.toLowerCase(),
+		email: normalizedEmail,
 		studentId: student.id,
 		ip: meta.ip,
 		service: 'student-auth-service',
 	});
 
-	const tokens = issueTokens(student);
-	await persistRefreshToken(student.id, tokens.refreshToken, meta);
 	await updateStudentVerification(student.id, { lastLoginAt: new Date() });
 
-	// Create Redis session
+	// Create Redis session and bind the refresh token to it (so the session can be revoked)
 	const sessionId = await createSession(student.id, 'student', meta);
+	const tokens = issueTokens(student, sessionId);
+	await persistRefreshToken(student.id, tokens.refreshToken, { ...meta, sessionId });
 
 	return { tokens, student, sessionId };
 }
@@ -776,7 +800,7 @@ export async function requestPhoneOtp(phoneInput: string): Promise<{ devOtp?: st
 export async function verifyPhoneOtp(
 	phoneInput: string,
 	otp: string,
-	meta: { ip?: string; userAgent?: string }
+	meta: SessionMeta
 ): Promise<{ tokens: TokenPair; student: StudentRecord; sessionId: string }> {
 	const phone = normalizePhone(phoneInput);
 	const sanitizedOtp = normalizeOtpInput(otp);
@@ -784,11 +808,33 @@ export async function verifyPhoneOtp(
 		throw new AppError('Invalid code format', 400);
 	}
 
+	const otpLockStatus = await otpLockout.check(phone, meta.ip);
+	if (otpLockStatus.locked) {
+		logger.warn('OTP verification blocked - locked out', {
+			phone: phone.substring(0, 4) + '****',
+			lockedBy: otpLockStatus.subjectType,
+			retryAfterSeconds: otpLockStatus.retryAfterSeconds,
+			ip: meta.ip,
+			service: 'student-auth-service',
+		});
+		throw lockedOutError(otpLockStatus);
+	}
+
 	// Verify OTP using MSG91's verify endpoint
 	const verifyResult = await verifyMsg91Otp(phone, sanitizedOtp);
 	if (!verifyResult.success) {
+		const failure = await otpLockout.recordFailure(phone, { ...(meta.ip && { ip: meta.ip }) });
+		if (failure.lockedUntil) {
+			throw lockedOutError({
+				locked: true,
+				lockedUntil: failure.lockedUntil,
+				retryAfterSeconds: Math.ceil((failure.lockedUntil.getTime() - Date.now()) / 1000),
+				subjectType: 'identifier',
+			});
+		}
 		throw new AppError(verifyResult.error || 'Invalid or expired OTP', 400);
 	}
+	await otpLockout.recordSuccess(phone);
 
 	let student = await findStudentByPhone(phone);
 	const isNewStudent = !student;
@@ -815,11 +861,11 @@ export async function verifyPhoneOtp(
 		await awardRegistrationCoins(student.id);
 	}
 
-	const tokens = issueTokens(student);
-	await persistRefreshToken(student.id, tokens.refreshToken, meta);
 
-	// Create Redis session
+	// Create Redis session and bind the refresh token to it (so the session can be revoked)
 	const sessionId = await createSession(student.id, 'student', meta);
+	const tokens = issueTokens(student, sessionId);
+	await persistRefreshToken(student.id, tokens.refreshToken, { ...meta, sessionId });
 
 	return { tokens, student, sessionId };
 }
@@ -855,7 +901,7 @@ export async function authenticateWithGoogleNative(
 		name?: string;
 		provider: 'google';
 	},
-	meta: { ip?: string; userAgent?: string }
+	meta: SessionMeta
 ): Promise<{ tokens: TokenPair; student: StudentRecord; sessionId: string }> {
 	// Validate input
 	if (!userInfo.email || !userInfo.email.includes('@')) {
@@ -899,11 +945,11 @@ export async function authenticateWithGoogleNative(
 		await awardRegistrationCoins(student.id);
 	}
 
-	const tokens = issueTokens(student);
-	await persistRefreshToken(student.id, tokens.refreshToken, meta);
 
-	// Create Redis session
+	// Create Redis session and bind the refresh token to it (so the session can be revoked)
 	const sessionId = await createSession(student.id, 'student', meta);
+	const tokens = issueTokens(student, sessionId);
+	await persistRefreshToken(student.id, tokens.refreshToken, { ...meta, sessionId });
 
 	return { tokens, student: { ...student, isEmailVerified: true }, sessionId };
 }
@@ -917,7 +963,7 @@ export async function authenticateWithGoogleWeb(
 	code: string,
 	redirectUri: string,
 	codeVerifier?: string,
-	meta: { ip?: string; userAgent?: string } = {}
+	meta: SessionMeta = {}
 ): Promise<{ tokens: TokenPair; student: StudentRecord; sessionId: string }> {
 	// Step 1: Exchange authorization code for ID token (server-side)
 	const idToken = await exchangeCodeForIdToken(code, redirectUri, codeVerifier);
@@ -968,11 +1014,11 @@ export async function authenticateWithGoogleWeb(
 		await awardRegistrationCoins(student.id);
 	}
 
-	const tokens = issueTokens(student);
-	await persistRefreshToken(student.id, tokens.refreshToken, meta);
 
-	// Create Redis session
+	// Create Redis session and bind the refresh token to it (so the session can be revoked)
 	const sessionId = await createSession(student.id, 'student', meta);
+	const tokens = issueTokens(student, sessionId);
+	await persistRefreshToken(student.id, tokens.refreshToken, { ...meta, sessionId });
 
 	return { tokens, student: { ...student, isEmailVerified: true }, sessionId };
 }
@@ -985,7 +1031,7 @@ export async function authenticateWithGoogleWeb(
  */
 export async function authenticateWithGoogle(
 	idToken: string,
-	meta: { ip?: string; userAgent?: string }
+	meta: SessionMeta
 ): Promise<{ tokens: TokenPair; student: StudentRecord; sessionId: string }> {
 	const payload = await verifyGoogleIdToken(idToken);
 	if (!payload || !payload.email || !payload.sub) {
@@ -1024,11 +1070,11 @@ export async function authenticateWithGoogle(
 		await awardRegistrationCoins(student.id);
 	}
 
-	const tokens = issueTokens(student);
-	await persistRefreshToken(student.id, tokens.refreshToken, meta);
 
-	// Create Redis session
+	// Create Redis session and bind the refresh token to it (so the session can be revoked)
 	const sessionId = await createSession(student.id, 'student', meta);
+	const tokens = issueTokens(student, sessionId);
+	await persistRefreshToken(student.id, tokens.refreshToken, { ...meta, sessionId });
 
 	return { tokens, student: { ...student, isEmailVerified: true }, sessionId };
 }
@@ -1036,17 +1082,21 @@ export async function authenticateWithGoogle(
 export async function persistRefreshToken(
 	studentId: string,
 	refreshToken: string,
-	meta: { ip?: string; userAgent?: string }
+	meta: SessionMeta & { sessionId?: string }
 ): Promise<void> {
 	const payload = verifyRefreshToken<{ exp: number }>(refreshToken);
 	const expiresAt = new Date(payload.exp * 1000);
 	const tokenHash = hashString(refreshToken);
-	await storeRefreshToken(studentId, tokenHash, expiresAt, meta);
+	await storeRefreshToken(studentId, tokenHash, expiresAt, {
+		userAgent: meta.userAgent ?? null,
+		ipAddress: meta.ip ?? null,
+		sessionId: meta.sessionId ?? null,
+	});
 }
 
 export async function refreshSession(
 	refreshToken: string,
-	meta: { ip?: string; userAgent?: string; sessionId?: string }
+	meta: SessionMeta & { sessionId?: string }
 ): Promise<{ tokens: TokenPair; student: StudentRecord; sessionId: string }> {
 	let payload: any;
 	try {
@@ -1062,11 +1112,12 @@ export async function refreshSession(
 
 	const studentId = payload.sub as string;
 	
-	// Get or create session ID
-	let sessionId = meta.sessionId;
+	// Session the refresh token is bound to (`sid`, or the token row for tokens issued before `sid`),
+	// then the session cookie. Only create a new session when none is known, otherwise every
+	// mobile refresh would add a session.
+	let sessionId: string | undefined =
+		payload.sid ?? (await findRefreshToken(hashString(refreshToken)))?.sessionId ?? meta.sessionId;
 	if (!sessionId) {
-		// Try to find existing session for this user
-		// For now, create a new session if none exists
 		sessionId = await createSession(studentId, 'student', meta);
 	}
 
@@ -1109,7 +1160,7 @@ export async function refreshSession(
 				// CRITICAL FIX: Issue new tokens FIRST, then revoke old token
 				// This prevents race conditions where concurrent refreshes see the token as revoked
 				// before the new token is stored
-				const tokens = issueTokens(student);
+				const tokens = issueTokens(student, sessionId);
 				
 				// Persist new refresh token FIRST using the transaction client
 				const tokenPayload = verifyRefreshToken<{ exp: number }>(tokens.refreshToken);
@@ -1119,7 +1170,7 @@ export async function refreshSession(
 					student.id, 
 					newTokenHash, 
 					expiresAt, 
-					{ userAgent: meta.userAgent || null, ipAddress: meta.ip || null }, 
+					{ userAgent: meta.userAgent || null, ipAddress: meta.ip || null, sessionId },
 					client
 				);
 
@@ -1156,11 +1207,13 @@ export async function refreshSession(
 
 export async function logout(refreshToken: string, sessionId?: string): Promise<void> {
 	const tokenHash = hashString(refreshToken);
+	// Mobile clients have no session cookie; fall back to the session the token is bound to
+	const boundSessionId = sessionId ?? (await findRefreshToken(tokenHash))?.sessionId ?? undefined;
 	await revokeRefreshToken(tokenHash);
 	
-	// Delete Redis session if sessionId provided
-	if (sessionId) {
-		await deleteSession(sessionId);
+	// Delete Redis session if known
+	if (boundSessionId) {
+		await deleteSession(boundSessionId);
 	}
 }
 
@@ -1172,6 +1225,33 @@ export async function logoutAllSessions(studentId: string): Promise<void> {
 	await deleteAllUserSessions(studentId);
 }
 
+/**
+ * Active logins (devices) for the student, most recently active first
+ */
+export async function listLoginSessions(studentId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+	const sessions = await listUserSessions(studentId);
+	return sessions.map((session) => toSessionSummary(session, currentSessionId));
+}
+
+/**
+ * Sign out one device: delete the Redis session and revoke the refresh tokens bound to it.
+ * Access tokens already issued to that device stay valid until they expire (JWT_ACCESS_EXPIRES_IN).
+ */
+export async function revokeLoginSession(studentId: string, sessionId: string): Promise<void> {
+	const deleted = await deleteUserSession(studentId, sessionId);
+	const revoked = await revokeSessionRefreshTokens(studentId, sessionId);
+	if (!deleted && revoked === 0) {
+		throw new AppError('Session not found', 404);
+	}
+
+	logger.info('Login session revoked', {
+		studentId,
+		sessionId,
+		revokedRefreshTokens: revoked,
+		service: 'student-auth-service',
+	});
+}
+
 /**
  * Profile ownership: student-service is the single source of truth for student_profiles.
  * Auth does NOT write to student_profiles. This endpoint proxies to student-service
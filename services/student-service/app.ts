@@ -12,10 +12,13 @@ import { ensureSupportTicketTable, SupportTicketRepository } from './models/supp
 import { StudentService } from './services/student.service';
 import { AggregationService } from './services/aggregation.service';
 import { RescheduleService } from './services/reschedule.service';
+import { GuardianService } from './services/guardian.service';
 import { StudentController } from './controllers/student.controller';
 import { RequestRescheduleController } from './controllers/requestReschedule.controller';
+import { GuardianController } from './controllers/guardian.controller';
 import { createStudentRoutes } from './routes/student.routes';
 import { createRescheduleRoutes } from './routes/reschedule.routes';
+import { createGuardianRoutes } from './routes/guardian.routes';
 
 const app: Express = express();
 
@@ -110,12 +113,15 @@ async function initializeServices() {
   const studentService = new StudentService(profileRepo, progressRepo, projectRepo, supportTicketRepo, pool);
   const aggregationService = new AggregationService(studentService, pool);
   const rescheduleService = new RescheduleService(rescheduleRepo, pool);
+  const guardianService = new GuardianService(studentService, pool);
 
   const studentController = new StudentController(studentService, aggregationService);
   const rescheduleController = new RequestRescheduleController(rescheduleService);
+  const guardianController = new GuardianController(guardianService);
 
   app.use('/api/students', createStudentRoutes(studentController));
   app.use('/api/reschedules', createRescheduleRoutes(rescheduleController));
+  app.use('/api/guardians', createGuardianRoutes(guardianController));
 
   // Setup event listeners for cache invalidation
   setupEventListeners(aggregationService);
@@ -222,6 +228,7 @@ app.get('/', (_req, res) => {
     endpoints: {
       students: '/api/students',
       reschedules: '/api/reschedules',
+      guardians: '/api/guardians',
       health: '/health',
     },
   });
@@ -0,0 +1,78 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { successResponse } from '@kodingcaravan/shared/utils/responseBuilder';
+import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
+import type { GuardianService } from '../services/guardian.service';
+import type { GuardianRequest } from '../middlewares/requireGuardian';
+
+const studentIdParamsSchema = z.object({
+  studentId: z.string().uuid(),
+});
+
+const sessionsQuerySchema = z.object({
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  status: z.string().trim().min(1).max(40).optional(),
+  limit: z.coerce.number().int().positive().optional(),
+});
+
+const listQuerySchema = z.object({
+  status: z.string().trim().min(1).max(40).optional(),
+  limit: z.coerce.number().int().positive().optional(),
+});
+
+export class GuardianController {
+  constructor(private readonly guardianService: GuardianService) {}
+
+  listStudents = asyncHandler(async (req: Request, res: Response) => {
+    const students = await this.guardianService.listStudents((req as GuardianRequest).guardianId);
+
+    return successResponse(res, {
+      message: 'Linked students retrieved successfully',
+      data: students,
+    });
+  });
+
+  getSessions = asyncHandler(async (req: Request, res: Response) => {
+    const { studentId } = studentIdParamsSchema.parse(req.params);
+    const options = sessionsQuerySchema.parse(req.query);
+    const sessions = await this.guardianService.getSessions((req as GuardianRequest).guardianId, studentId, options);
+
+    return successResponse(res, {
+      message: 'Student sessions retrieved successfully',
+      data: sessions,
+    });
+  });
+
+  getProgress = asyncHandler(async (req: Request, res: Response) => {
+    const { studentId } = studentIdParamsSchema.parse(req.params);
+    const progress = await this.guardianService.getProgress((req as GuardianRequest).guardianId, studentId);
+
+    return successResponse(res, {
+      message: 'Student progress retrieved successfully',
+      data: progress,
+    });
+  });
+
+  getPayments = asyncHandler(async (req: Request, res: Response) => {
+    const { studentId } = studentIdParamsSchema.parse(req.params);
+    const options = listQuerySchema.parse(req.query);
+    const payments = await this.guardianService.getPayments((req as GuardianRequest).guardianId, studentId, options);
+
+    return successResponse(res, {
+      message: 'Student payments retrieved successfully',
+      data: payments,
+    });
+  });
+
+  getJourneys = asyncHandler(async (req: Request, res: Response) => {
+    const { studentId } = studentIdParamsSchema.parse(req.params);
+    const options = listQuerySchema.parse(req.query);
+    const journeys = await this.guardianService.getJourneys((req as GuardianRequest).guardianId, studentId, options);
+
+    return successResponse(res, {
+      message: 'Student journeys retrieved successfully',
+      data: journeys,
+    });
+  });
+}
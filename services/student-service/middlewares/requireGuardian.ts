@@ -0,0 +1,28 @@
+import type { Request, Response, NextFunction } from 'express';
+import { verifyAccessTokenAsync, AppError } from '@kodingcaravan/shared';
+
+export interface GuardianRequest extends Request {
+  guardianId: string;
+}
+
+/**
+ * Guardian routes identify the guardian from the access token (issued by student-auth-service),
+ * never from the path, so a guardian can only read their own linked students.
+ */
+export async function requireGuardian(req: Request, _res: Response, next: NextFunction): Promise<void> {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return next(new AppError('Authentication required', 401));
+  }
+
+  try {
+    const payload = await verifyAccessTokenAsync<{ sub: string; role?: string }>(header.slice(7).trim());
+    if (payload.role !== 'guardian' || !payload.sub) {
+      return next(new AppError('Guardian account required', 403));
+    }
+    (req as GuardianRequest).guardianId = payload.sub;
+    next();
+  } catch {
+    next(new AppError('Invalid or expired token', 401));
+  }
+}
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import type { GuardianController } from '../controllers/guardian.controller';
+import { requireGuardian } from '../middlewares/requireGuardian';
+
+export function createGuardianRoutes(guardianController: GuardianController): Router {
+  const router = Router();
+
+  router.use(requireGuardian);
+
+  router.get('/students', guardianController.listStudents);
+  router.get('/students/:studentId/sessions', guardianController.getSessions);
+  router.get('/students/:studentId/progress', guardianController.getProgress);
+  router.get('/students/:studentId/payments', guardianController.getPayments);
+  router.get('/students/:studentId/journeys', guardianController.getJourneys);
+
+  return router;
+}
@@ -0,0 +1,218 @@
+/**
+ * Guardian Service
+ *
+ * Read-only views of a student's sessions, progress, payments and journeys for guardians.
+ * Guardian accounts and guardian_student_links are owned by student-auth-service; every read
+ * here first checks that the guardian has an active link to the student.
+ */
+
+import type { Pool } from 'pg';
+import { AppError } from '@kodingcaravan/shared';
+import type { StudentService } from './student.service';
+import type { StudentCourseProgress } from '../models/studentProgress.model';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+export interface GuardianStudentSummary {
+  linkId: string;
+  studentId: string;
+  relationship: string;
+  fullName: string | null;
+  avatarUrl: string | null;
+  consents: Record<string, { granted: boolean; updatedAt: string }>;
+  linkedAt: Date | null;
+}
+
+export interface GuardianSessionView {
+  id: string;
+  courseId: string | null;
+  courseTitle: string | null;
+  trainerId: string;
+  trainerName: string | null;
+  scheduledDate: string;
+  scheduledTime: string;
+  duration: number;
+  status: string;
+  startedAt: Date | null;
+  endedAt: Date | null;
+  studentConfirmed: boolean | null;
+}
+
+export interface GuardianPaymentView {
+  id: string;
+  amountCents: number;
+  currency: string;
+  status: string;
+  paymentMethod: string | null;
+  description: string | null;
+  confirmedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface GuardianJourneyView {
+  id: string;
+  sessionId: string;
+  trainerId: string;
+  trainerName: string | null;
+  status: string;
+  startedAt: Date | null;
+  endedAt: Date | null;
+  endReason: string | null;
+  scheduledDate: string | null;
+  scheduledTime: string | null;
+}
+
+export type GuardianListOptions = {
+  from?: string;
+  to?: string;
+  status?: string;
+  limit?: number;
+};
+
+function clampLimit(limit?: number): number {
+  return Math.min(Math.max(limit ?? DEFAULT_LIMIT, 1), MAX_LIMIT);
+}
+
+export class GuardianService {
+  constructor(
+    private readonly studentService: StudentService,
+    private readonly pool: Pool,
+  ) {}
+
+  async listStudents(guardianId: string): Promise<GuardianStudentSummary[]> {
+    const result = await this.pool.query<GuardianStudentSummary>(
+      `
+        SELECT
+          l.id AS "linkId",
+          l.student_id AS "studentId",
+          l.relationship,
+          l.consents,
+          l.responded_at AS "linkedAt",
+          p.full_name AS "fullName",
+          p.avatar_url AS "avatarUrl"
+        FROM guardian_student_links l
+        LEFT JOIN student_profiles p ON p.student_id = l.student_id
+        WHERE l.guardian_id = $1 AND l.status = 'active'
+        ORDER BY p.full_name NULLS LAST
+      `,
+      [guardianId],
+    );
+    return result.rows;
+  }
+
+  /**
+   * Throws 404 (not 403) for unlinked students so guardians cannot probe student ids
+   */
+  async assertLinked(guardianId: string, studentId: string): Promise<void> {
+    const result = await this.pool.query(
+      `
+        SELECT 1
+        FROM guardian_student_links
+        WHERE guardian_id = $1 AND student_id = $2 AND status = 'active'
+        LIMIT 1
+      `,
+      [guardianId, studentId],
+    );
+    if (!result.rowCount) {
+      throw new AppError('Student not found', 404);
+    }
+  }
+
+  async getSessions(guardianId: string, studentId: string, options: GuardianListOptions = {}): Promise<GuardianSessionView[]> {
+    await this.assertLinked(guardianId, studentId);
+
+    // Verification artefacts (OTP, face images, GPS) are deliberately not exposed
+    const result = await this.pool.query<GuardianSessionView>(
+      `
+        SELECT
+          s.id,
+          s.course_id AS "courseId",
+          c.title AS "courseTitle",
+          s.trainer_id AS "trainerId",
+          tp.full_name AS "trainerName",
+          s.scheduled_date::text AS "scheduledDate",
+          s.scheduled_time AS "scheduledTime",
+          s.duration,
+          s.status,
+          s.started_at AS "startedAt",
+          s.ended_at AS "endedAt",
+          s.student_confirmed AS "studentConfirmed"
+        FROM tutoring_sessions s
+        LEFT JOIN courses c ON c.id = s.course_id
+        LEFT JOIN trainer_profiles tp ON tp.trainer_id = s.trainer_id
+        WHERE s.student_id = $1
+          AND ($2::date IS NULL OR s.scheduled_date >= $2::date)
+          AND ($3::date IS NULL OR s.scheduled_date <= $3::date)
+          AND ($4::text IS NULL OR s.status = $4)
+        ORDER BY s.scheduled_date DESC, s.scheduled_time DESC
+        LIMIT $5
+      `,
+      [studentId, options.from ?? null, options.to ?? null, options.status ?? null, clampLimit(options.limit)],
+    );
+    return result.rows;
+  }
+
+  async getProgress(guardianId: string, studentId: string): Promise<StudentCourseProgress[]> {
+    await this.assertLinked(guardianId, studentId);
+    return this.studentService.getProgress(studentId);
+  }
+
+  async getPayments(guardianId: string, studentId: string, options: GuardianListOptions = {}): Promise<GuardianPaymentView[]> {
+    await this.assertLinked(guardianId, studentId);
+
+    const result = await this.pool.query<GuardianPaymentView>(
+      `
+        SELECT
+          id,
+          amount_cents AS "amountCents",
+          currency,
+          status,
+          payment_method AS "paymentMethod",
+          description,
+          confirmed_at AS "confirmedAt",
+          created_at AS "createdAt"
+        FROM payments
+        WHERE student_id = $1
+          AND ($2::text IS NULL OR status = $2)
+        ORDER BY created_at DESC
+        LIMIT $3
+      `,
+      [studentId, options.status ?? null, clampLimit(options.limit)],
+    );
+    return result.rows;
+  }
+
+  /**
+   * Trainer journeys to the student's home. Live location for an active journey is served by
+   * admin-service (GET /api/v1/admin/journeys/:journeyId/live), which accepts guardian tokens.
+   */
+  async getJourneys(guardianId: string, studentId: string, options: GuardianListOptions = {}): Promise<GuardianJourneyView[]> {
+    await this.assertLinked(guardianId, studentId);
+
+    const result = await this.pool.query<GuardianJourneyView>(
+      `
+        SELECT
+          j.id,
+          j.session_id AS "sessionId",
+          j.trainer_id AS "trainerId",
+          tp.full_name AS "trainerName",
+          j.status,
+          j.started_at AS "startedAt",
+          j.ended_at AS "endedAt",
+          j.end_reason AS "endReason",
+          s.scheduled_date::text AS "scheduledDate",
+          s.scheduled_time AS "scheduledTime"
+        FROM journeys j
+        LEFT JOIN tutoring_sessions s ON s.id = j.session_id
+        LEFT JOIN trainer_profiles tp ON tp.trainer_id = j.trainer_id
+        WHERE j.student_id = $1
+          AND ($2::text IS NULL OR j.status = $2)
+        ORDER BY j.created_at DESC
+        LIMIT $3
+      `,
+      [studentId, options.status ?? null, clampLimit(options.limit)],
+    );
+    return result.rows;
+  }
+}
@@ -1,7 +1,7 @@
 import express from 'express';
 import timeout from 'connect-timeout';
 import cookieParser from 'cookie-parser';
-import { globalErrorHandler, createHealthCheckEndpoints, getRedisClient } from '@kodingcaravan/shared';
+import { globalErrorHandler, createHealthCheckEndpoints, getRedisClient, jwksHandler } from '@kodingcaravan/shared';
 import trainerAuthRoutes from './routes/trainerAuth.routes';
 import otpRoutes from './routes/otp.routes';
 import { getPool } from './config/database';
@@ -30,6 +30,9 @@ const { healthHandler, readyHandler } = createHealthCheckEndpoints({
 app.get('/health', healthHandler);
 app.get('/ready', readyHandler);
 
+// Public keys for verifying access tokens (api-gateway and other services resolve `kid` here)
+app.get('/.well-known/jwks.json', jwksHandler);
+
 app.use('/api/v1/otp', otpRoutes);
 app.use('/api/v1/trainers/auth', trainerAuthRoutes);
 
@@ -1,5 +1,5 @@
 import { Pool, PoolClient } from 'pg';
-import { createPostgresPool } from '@kodingcaravan/shared';
+import { createPostgresPool, ensureLockoutAuditTable } from '@kodingcaravan/shared';
 
 let pool: Pool | null = null;
 
@@ -273,6 +273,9 @@ export async function initializeTrainerAuthTables(): Promise<void> {
 	await client.query(`ALTER TABLE trainer_refresh_tokens ADD COLUMN IF NOT EXISTS user_agent TEXT;`);
 	await client.query(`ALTER TABLE trainer_refresh_tokens ADD COLUMN IF NOT EXISTS ip_address TEXT;`);
 	await client.query(`ALTER TABLE trainer_refresh_tokens ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ;`);
+	// Login session (Redis) the token belongs to, so a single session can be revoked
+	await client.query(`ALTER TABLE trainer_refresh_tokens ADD COLUMN IF NOT EXISTS session_id TEXT;`);
+	await client.query(`CREATE INDEX IF NOT EXISTS idx_trainer_refresh_tokens_session ON trainer_refresh_tokens(session_id) WHERE session_id IS NOT NULL;`);
 	await client.query(`DROP INDEX IF EXISTS idx_trainer_refresh_tokens_token;`);
 	await client.query(`
 		DO $$
@@ -882,6 +885,9 @@ export async function initializeTrainerAuthTables(): Promise<void> {
 			ON trainer_availability(employment_type);
 		`);
 
+		// Lock / unlock audit trail for the shared account lockout
+		await ensureLockoutAuditTable(client);
+
 		await client.query('COMMIT');
 	} catch (error) {
 		await client.query('ROLLBACK');
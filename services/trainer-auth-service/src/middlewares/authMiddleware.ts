@@ -1,11 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyAccessToken, AppError } from '@kodingcaravan/shared';
+import { verifyAccessTokenAsync, AppError } from '@kodingcaravan/shared';
 
 type AuthPayload = {
 	sub: string;
 	role: string;
 	email?: string;
 	phone?: string;
+	sid?: string;
 };
 
 export interface AuthenticatedRequest extends Request {
@@ -14,10 +15,15 @@ export interface AuthenticatedRequest extends Request {
 		role: string;
 		email?: string;
 		phone?: string;
+		/** Login session id (absent on tokens issued before sessions were bound) */
+		sessionId?: string;
 	};
 }
 
-export function requireAuth(req: Request, _res: Response, next: NextFunction) {
+/**
+ * Verifies the access token, resolving its signing key by `kid` (see jwtKeyRing)
+ */
+export async function requireAuth(req: Request, _res: Response, next: NextFunction) {
 	const header = req.headers.authorization;
 	if (!header || !header.startsWith('Bearer ')) {
 		return next(new AppError('Authentication required', 401));
@@ -25,12 +31,13 @@ export function requireAuth(req: Request, _res: Response, next: NextFunction) {
 
 	const token = header.slice(7);
 	try {
-		const payload = verifyAccessToken<AuthPayload>(token);
+		const payload = await verifyAccessTokenAsync<AuthPayload>(token);
 		(req as AuthenticatedRequest).authUser = {
 			id: payload.sub,
 			role: payload.role,
 			email: payload.email,
 			phone: payload.phone,
+			sessionId: payload.sid,
 		};
 		next();
 	} catch (error) {
@@ -593,6 +593,7 @@ export type RefreshTokenRecord = {
 	expiresAt: Date;
 	userAgent: string | null;
 	ipAddress: string | null;
+	sessionId: string | null;
 	revokedAt: Date | null;
 	createdAt: Date;
 };
@@ -601,7 +602,7 @@ export async function storeRefreshToken(
 	trainerId: string,
 	tokenHash: string,
 	expiresAt: Date,
-	meta: { userAgent?: string | null; ipAddress?: string | null },
+	meta: { userAgent?: string | null; ipAddress?: string | null; sessionId?: string | null },
 	client?: PoolClient
 ): Promise<RefreshTokenRecord> {
 	// First, cleanup old expired/revoked tokens for this user (non-blocking)
@@ -646,8 +647,8 @@ export async function storeRefreshToken(
 
 	const result = await query<RefreshTokenRecord>(
 		`
-			INSERT INTO trainer_refresh_tokens (trainer_id, token_hash, expires_at, user_agent, ip_address)
-			VALUES ($1, $2, $3, $4, $5)
+			INSERT INTO trainer_refresh_tokens (trainer_id, token_hash, expires_at, user_agent, ip_address, session_id)
+			VALUES ($1, $2, $3, $4, $5, $6)
 			RETURNING
 				id,
 				trainer_id as "trainerId",
@@ -655,10 +656,11 @@ export async function storeRefreshToken(
 				expires_at as "expiresAt",
 				user_agent as "userAgent",
 				ip_address as "ipAddress",
+				session_id as "sessionId",
 				revoked_at as "revokedAt",
 				created_at as "createdAt"
 		`,
-		[trainerId, tokenHash, expiresAt, meta.userAgent || null, meta.ipAddress || null],
+		[trainerId, tokenHash, expiresAt, meta.userAgent || null, meta.ipAddress || null, meta.sessionId || null],
 		client
 	);
 		if (!result.rows[0]) {
@@ -679,6 +681,26 @@ export async function revokeRefreshToken(tokenHash: string, client?: PoolClient)
 	);
 }
 
+/**
+ * Revoke the refresh tokens bound to one login session. Returns how many were revoked.
+ */
+export async function revokeSessionRefreshTokens(
+	trainerId: string,
+	sessionId: string,
+	client?: PoolClient
+): Promise<number> {
+	const result = await query(
+		`
+			UPDATE trainer_refresh_tokens
+			SET revoked_at = NOW()
+			WHERE trainer_id = $1 AND session_id = $2 AND revoked_at IS NULL
+		`,
+		[trainerId, sessionId],
+		client
+	);
+	return result.rowCount ?? 0;
+}
+
 export async function revokeAllRefreshTokens(trainerId: string, client?: PoolClient): Promise<void> {
 	await query(
 		`
@@ -701,6 +723,7 @@ export async function findRefreshToken(tokenHash: string, client?: PoolClient):
 				expires_at as "expiresAt",
 				user_agent as "userAgent",
 				ip_address as "ipAddress",
+				session_id as "sessionId",
 				revoked_at as "revokedAt",
 				created_at as "createdAt"
 			FROM trainer_refresh_tokens
@@ -726,6 +749,7 @@ export async function findRefreshTokenWithLock(tokenHash: string, client: PoolCl
 				expires_at as "expiresAt",
 				user_agent as "userAgent",
 				ip_address as "ipAddress",
+				session_id as "sessionId",
 				revoked_at as "revokedAt",
 				created_at as "createdAt"
 			FROM trainer_refresh_tokens
@@ -10,6 +10,7 @@ import {
 	phoneOtpRetrySchema,
 	refreshSchema,
 	logoutSchema,
+	sessionParamsSchema,
 	profileSchema,
 	googleAuthSchema,
 	googleNativeAuthSchema,
@@ -101,6 +102,13 @@ router.post(
 	TrainerAuthController.logout
 );
 router.post('/logout-all', requireAuth, TrainerAuthController.logoutAll);
+router.get('/sessions', requireAuth, TrainerAuthController.listSessions);
+router.delete(
+	'/sessions/:sessionId',
+	requireAuth,
+	validateRequest({ params: sessionParamsSchema }),
+	TrainerAuthController.revokeSession
+);
 router.post(
 	'/password/forgot',
 	authRateLimiter,
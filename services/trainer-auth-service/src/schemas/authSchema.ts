@@ -61,6 +61,10 @@ export const logoutSchema = z.object({
 	refreshToken: z.string().min(10),
 });
 
+export const sessionParamsSchema = z.object({
+	sessionId: z.string().uuid(),
+});
+
 export const profileSchema = z.object({
 	fullName: z.string().min(2).optional(),
 	age: z.coerce.number().int().min(18).max(100).optional(),
@@ -5,10 +5,8 @@ import {
 	signRefreshToken,
 	verifyRefreshToken,
 	AppError,
-	isAccountLocked,
-	recordFailedAttempt,
-	clearFailedAttempts,
-	getRemainingAttempts,
+	createAccountLockout,
+	type LockStatus,
 } from '@kodingcaravan/shared';
 import logger from '@kodingcaravan/shared/config/logger';
 import {
@@ -17,6 +15,13 @@ import {
 	releaseRefreshLock,
 	waitForRefreshLock,
 	updateSessionActivity,
+	deleteSession,
+	deleteUserSession,
+	deleteAllUserSessions,
+	listUserSessions,
+	toSessionSummary,
+	type SessionMeta,
+	type SessionSummary,
 } from '@kodingcaravan/shared/utils/sessionManager';
 import {
 	createTrainer,
@@ -31,6 +36,7 @@ import {
 	incrementEmailOtpAttempts,
 	linkGoogleAccount,
 	revokeAllRefreshTokens,
+	revokeSessionRefreshTokens,
 	revokeRefreshToken,
 	storeRefreshToken,
 	updateTrainerAccount,
@@ -43,7 +49,7 @@ import {
 	type TrainerRecord,
 	type TrainerProfileRecord,
 } from '../models/trainerAuth.model';
-import { withTransaction } from '../config/database';
+import { getPool, withTransaction } from '../config/database';
 import { generateNumericOtp, hashString } from '../utils/crypto';
 import { sendMsg91Otp, verifyMsg91Otp, retryMsg91Otp } from '../integrations/msg91';
 import { sendEmailOtp } from '../integrations/mailer';
@@ -66,17 +72,38 @@ const BCRYPT_ROUNDS = (() => {
 	return rounds;
 })();
 
+// Redis-backed, so limits hold across all service instances. Lock/unlock events go to account_lockout_events.
+const lockoutAuditPool = {
+	query: (text: string, params?: unknown[]) => getPool().query(text, params as any[]),
+};
+const loginLockout = createAccountLockout({ scope: 'trainer:login', auditPool: lockoutAuditPool });
+const otpLockout = createAccountLockout({ scope: 'trainer:otp', auditPool: lockoutAuditPool });
+
+function lockedOutError(status: LockStatus): AppError {
+	const minutesRemaining = Math.max(1, Math.ceil((status.retryAfterSeconds ?? 60) / 60));
+	return new AppError(
+		status.subjectType === 'ip'
+			? `Too many failed attempts from this network. Please try again after ${minutesRemaining} minutes.`
+			: `Account locked due to too many failed login attempts. Please try again after ${minutesRemaining} minutes.`,
+		423
+	);
+}
+
 type TokenPair = {
 	accessToken: string;
 	refreshToken: string;
 };
 
-function issueTokens(trainer: TrainerRecord): TokenPair {
+/**
+ * `sid` ties the tokens to the login session so the current device can be identified and revoked
+ */
+function issueTokens(trainer: TrainerRecord, sessionId: string): TokenPair {
 	const payload = {
 		sub: trainer.id,
 		role: 'trainer',
 		phone: trainer.phone,
 		email: trainer.email,
+		sid: sessionId,
 	};
 
 	return {
@@ -233,22 +260,37 @@ export async function verifyEmailOtpForTrainer(email: string, otp: string): Prom
 export async function loginWithEmailPassword(
 	email: string,
 	password: string,
-	meta: { ip?: string; userAgent?: string }
+	meta: SessionMeta
 ): Promise<{ tokens: TokenPair; trainer: TrainerRecord; sessionId: string }> {
-	const trainer = await findTrainerByEmail(email.toLowerCase());
+	const normalizedEmail = email.toLowerCase();
+
+	// Checked before the account lookup so unknown and locked identifiers look the same
+	const lockStatus = await loginLockout.check(normalizedEmail, meta.ip);
+	if (lockStatus.locked) {
+		logger.warn('Login failed - locked out', {
+			email: normalizedEmail,
+			lockedBy: lockStatus.subjectType,
+			retryAfterSeconds: lockStatus.retryAfterSeconds,
+			ip: meta.ip,
+			service: 'trainer-auth-service',
+		});
+		throw lockedOutError(lockStatus);
+	}
+
+	const trainer = await findTrainerByEmail(normalizedEmail);
 	if (!trainer || !trainer.passwordHash) {
-		// Record failed attempt even if user doesn't exist (prevent user enumeration)
+		// Count attempts against unknown accounts too, so the per-IP limit catches enumeration
+		await loginLockout.recordFailure(normalizedEmail, { ...(meta.ip && { ip: meta.ip }), userId: trainer?.id ?? null });
 		if (trainer) {
-			recordFailedAttempt(trainer.id);
 			logger.warn('Login failed - invalid credentials', {
-				email: email.toLowerCase(),
+				email: normalizedEmail,
 				trainerId: trainer.id,
 				ip: meta.ip,
 				service: 'trainer-auth-service',
 			});
 		} else {
 			logger.warn('Login failed - account not found', {
-				email: email.toLowerCase(),
+				email: normalizedEmail,
 				ip: meta.ip,
 				service: 'trainer-auth-service',
 			});
@@ -256,38 +298,22 @@ export async function loginWithEmailPassword(
 		throw new AppError('Invalid credentials', 401);
 	}
 
-	// Check if account is locked
-	const lockStatus = isAccountLocked(trainer.id);
-	if (lockStatus.locked) {
-		const minutesRemaining = Math.ceil(
-			(lockStatus.lockedUntil!.getTime() - Date.now()) / (60 * 1000)
-		);
-		logger.warn('Login failed - account locked', {
-			email: email.toLowerCase(),
-			trainerId: trainer.id,
-			minutesRemaining,
-			ip: meta.ip,
-			service: 'trainer-auth-service',
-		});
-		throw new AppError(
-			`Account locked due to too many failed login attempts. Please try again after ${minutesRemaining} minutes.`,
-			423
-		);
-	}
-
 	const match = await bcrypt.compare(password, trainer.passwordHash);
 	if (!match) {
-		recordFailedAttempt(trainer.id);
-		const remaining = getRemainingAttempts(trainer.id);
+		const failure = await loginLockout.recordFailure(normalizedEmail, {
+			...(meta.ip && { ip: meta.ip }),
+			userId: trainer.id,
+		});
 		logger.warn('Login failed - password mismatch', {
-			email: email.toLowerCase(),
+			email: normalizedEmail,
 			trainerId: trainer.id,
-			remainingAttempts: remaining,
+			remainingAttempts: failure.remainingAttempts,
+			lockedUntil: failure.lockedUntil?.toISOString(),
 			ip: meta.ip,
 			service: 'trainer-auth-service',
 		});
-		if (remaining > 0) {
-			throw new AppError(`Invalid credentials. ${remaining} attempt(s) remaining.`, 401);
+		if (failure.remainingAttempts > 0) {
+			throw new AppError(`Invalid credentials. ${failure.remainingAttempts} attempt(s) remaining.`, 401);
 		}
 		throw new AppError('Invalid credentials', 401);
 	}
@@ -297,21 +323,21 @@ export async function loginWithEmailPassword(
 	}
 
 	// Clear failed attempts on successful login
-	clearFailedAttempts(trainer.id);
+	await loginLockout.recordSuccess(normalizedEmail);
 
 	logger.info('Login successful', {
-		email: email.toLowerCase(),
+		email: normalizedEmail,
 		trainerId: trainer.id,
 		ip: meta.ip,
 		service: 'trainer-auth-service',
 	});
 
-	const tokens = issueTokens(trainer);
-	await persistRefreshToken(trainer.id, tokens.refreshToken, meta);
 	await updateTrainerVerification(trainer.id, { lastLoginAt: new Date() });
 
-	// Create Redis session
+	// Create Redis session and bind the refresh token to it (so the session can be revoked)
 	const sessionId = await createSession(trainer.id, 'trainer', meta);
+	const tokens = issueTokens(trainer, sessionId);
+	await persistRefreshToken(trainer.id, tokens.refreshToken, { ...meta, sessionId });
 
 	return { tokens, trainer, sessionId };
 }
@@ -435,7 +461,7 @@ export async function requestPhoneOtp(phoneInput: string): Promise<{ devOtp?: st
 export async function verifyPhoneOtp(
 	phoneInput: string,
 	otp: string,
-	meta: { ip?: string; userAgent?: string }
+	meta: SessionMeta
 ): Promise<{ tokens: TokenPair; trainer: TrainerRecord; sessionId: string }> {
 	const phone = normalizePhone(phoneInput);
 	const sanitizedOtp = normalizeOtpInput(otp);
@@ -443,11 +469,33 @@ export async function verifyPhoneOtp(
 		throw new AppError('Invalid code format', 400);
 	}
 
+	const otpLockStatus = await otpLockout.check(phone, meta.ip);
+	if (otpLockStatus.locked) {
+		logger.warn('OTP verification blocked - locked out', {
+			phone: phone.substring(0, 4) + '****',
+			lockedBy: otpLockStatus.subjectType,
+			retryAfterSeconds: otpLockStatus.retryAfterSeconds,
+			ip: meta.ip,
+			service: 'trainer-auth-service',
+		});
+		throw lockedOutError(otpLockStatus);
+	}
+
 	// Verify OTP using MSG91's verify endpoint
 	const verifyResult = await verifyMsg91Otp(phone, sanitizedOtp);
 	if (!verifyResult.success) {
+		const failure = await otpLockout.recordFailure(phone, { ...(meta.ip && { ip: meta.ip }) });
+		if (failure.lockedUntil) {
+			throw lockedOutError({
+				locked: true,
+				lockedUntil: failure.lockedUntil,
+				retryAfterSeconds: Math.ceil((failure.lockedUntil.getTime() - Date.now()) / 1000),
+				subjectType: 'identifier',
+			});
+		}
 		throw new AppError(verifyResult.error || 'Invalid or expired OTP', 400);
 	}
+	await otpLockout.recordSuccess(phone);
 
 	let trainer = await findTrainerByPhone(phone);
 	if (!trainer) {
@@ -468,11 +516,11 @@ export async function verifyPhoneOtp(
 		lastLoginAt: new Date(),
 	};
 
-	const tokens = issueTokens(trainer);
-	await persistRefreshToken(trainer.id, tokens.refreshToken, meta);
 
-	// Create Redis session
+	// Create Redis session and bind the refresh token to it (so the session can be revoked)
 	const sessionId = await createSession(trainer.id, 'trainer', meta);
+	const tokens = issueTokens(trainer, sessionId);
+	await persistRefreshToken(trainer.id, tokens.refreshToken, { ...meta, sessionId });
 
 	return { tokens, trainer, sessionId };
 }
@@ -508,7 +556,7 @@ export async function authenticateWithGoogleNative(
 		name?: string;
 		provider: 'google';
 	},
-	meta: { ip?: string; userAgent?: string }
+	meta: SessionMeta
 ): Promise<{ tokens: TokenPair; trainer: TrainerRecord; sessionId: string }> {
 	// Validate input
 	if (!userInfo.email || !userInfo.email.includes('@')) {
@@ -547,11 +595,11 @@ export async function authenticateWithGoogleNative(
 		trainer = updated;
 	}
 
-	const tokens = issueTokens(trainer);
-	await persistRefreshToken(trainer.id, tokens.refreshToken, meta);
 
-	// Create Redis session
+	// Create Redis session and bind the refresh token to it (so the session can be revoked)
 	const sessionId = await createSession(trainer.id, 'trainer', meta);
+	const tokens = issueTokens(trainer, sessionId);
+	await persistRefreshToken(trainer.id, tokens.refreshToken, { ...meta, sessionId });
 
 	return { tokens, trainer: { ...trainer, isEmailVerified: true }, sessionId };
 }
@@ -565,7 +613,7 @@ export async function authenticateWithGoogleWeb(
 	code: string,
 	redirectUri: string,
 	codeVerifier?: string,
-	meta: { ip?: string; userAgent?: string } = {}
+	meta: SessionMeta = {}
 ): Promise<{ tokens: TokenPair; trainer: TrainerRecord; sessionId: string }> {
 	// Step 1: Exchange authorization code for ID token (server-side)
 	const idToken = await exchangeCodeForIdToken(code, redirectUri, codeVerifier);
@@ -611,11 +659,11 @@ export async function authenticateWithGoogleWeb(
 		trainer = updated;
 	}
 
-	const tokens = issueTokens(trainer);
-	await persistRefreshToken(trainer.id, tokens.refreshToken, meta);
 
-	// Create Redis session
+	// Create Redis session and bind the refresh token to it (so the session can be revoked)
 	const sessionId = await createSession(trainer.id, 'trainer', meta);
+	const tokens = issueTokens(trainer, sessionId);
+	await persistRefreshToken(trainer.id, tokens.refreshToken, { ...meta, sessionId });
 
 	return { tokens, trainer: { ...trainer, isEmailVerified: true }, sessionId };
 }
@@ -628,7 +676,7 @@ export async function authenticateWithGoogleWeb(
  */
 export async function authenticateWithGoogle(
 	idToken: string,
-	meta: { ip?: string; userAgent?: string }
+	meta: SessionMeta
 ): Promise<{ tokens: TokenPair; trainer: TrainerRecord; sessionId: string }> {
 	const payload = await verifyGoogleIdToken(idToken);
 	if (!payload || !payload.email || !payload.sub) {
@@ -661,11 +709,11 @@ export async function authenticateWithGoogle(
 		trainer = updated;
 	}
 
-	const tokens = issueTokens(trainer);
-	await persistRefreshToken(trainer.id, tokens.refreshToken, meta);
 
-	// Create Redis session
+	// Create Redis session and bind the refresh token to it (so the session can be revoked)
 	const sessionId = await createSession(trainer.id, 'trainer', meta);
+	const tokens = issueTokens(trainer, sessionId);
+	await persistRefreshToken(trainer.id, tokens.refreshToken, { ...meta, sessionId });
 
 	return { tokens, trainer: { ...trainer, isEmailVerified: true }, sessionId };
 }
@@ -673,17 +721,21 @@ export async function authenticateWithGoogle(
 export async function persistRefreshToken(
 	trainerId: string,
 	refreshToken: string,
-	meta: { ip?: string; userAgent?: string }
+	meta: SessionMeta & { sessionId?: string }
 ): Promise<void> {
 	const payload = verifyRefreshToken<{ exp: number }>(refreshToken);
 	const expiresAt = new Date(payload.exp * 1000);
 	const tokenHash = hashString(refreshToken);
-	await storeRefreshToken(trainerId, tokenHash, expiresAt, meta);
+	await storeRefreshToken(trainerId, tokenHash, expiresAt, {
+		userAgent: meta.userAgent ?? null,
+		ipAddress: meta.ip ?? null,
+		sessionId: meta.sessionId ?? null,
+	});
 }
 
 export async function refreshSession(
 	refreshToken: string,
-	meta: { ip?: string; userAgent?: string; sessionId?: string }
+	meta: SessionMeta & { sessionId?: string }
 ): Promise<{ tokens: TokenPair; trainer: TrainerRecord; sessionId: string }> {
 	let payload: any;
 	try {
@@ -699,11 +751,12 @@ export async function refreshSession(
 
 	const trainerId = payload.sub as string;
 	
-	// Get or create session ID
-	let sessionId = meta.sessionId;
+	// Session the refresh token is bound to (`sid`, or the token row for tokens issued before `sid`),
+	// then the session cookie. Only create a new session when none is known, otherwise every
+	// mobile refresh would add a session.
+	let sessionId: string | undefined =
+		payload.sid ?? (await findRefreshToken(hashString(refreshToken)))?.sessionId ?? meta.sessionId;
 	if (!sessionId) {
-		// Try to find existing session for this user
-		// For now, create a new session if none exists
 		sessionId = await createSession(trainerId, 'trainer', meta);
 	}
 
@@ -779,7 +832,7 @@ export async function refreshSession(
 			// CRITICAL FIX: Issue new tokens FIRST, then revoke old token
 			// This prevents race conditions where concurrent refreshes see the token as revoked
 			// before the new token is stored
-			const tokens = issueTokens(trainer);
+			const tokens = issueTokens(trainer, sessionId);
 			
 			// Persist new refresh token FIRST using the transaction client
 			const tokenPayload = verifyRefreshToken<{ exp: number }>(tokens.refreshToken);
@@ -789,7 +842,7 @@ export async function refreshSession(
 				trainer.id, 
 				newTokenHash, 
 				expiresAt, 
-				{ userAgent: meta.userAgent || null, ipAddress: meta.ip || null }, 
+				{ userAgent: meta.userAgent || null, ipAddress: meta.ip || null, sessionId },
 				client
 			);
 
@@ -841,11 +894,45 @@ export async function refreshSession(
 
 export async function logout(refreshToken: string): Promise<void> {
 	const tokenHash = hashString(refreshToken);
+	const stored = await findRefreshToken(tokenHash);
 	await revokeRefreshToken(tokenHash);
+
+	// Remove the login session the token was bound to so it no longer shows in /sessions
+	if (stored?.sessionId) {
+		await deleteSession(stored.sessionId);
+	}
 }
 
 export async function logoutAllSessions(trainerId: string): Promise<void> {
 	await revokeAllRefreshTokens(trainerId);
+	await deleteAllUserSessions(trainerId);
+}
+
+/**
+ * Active logins (devices) for the trainer, most recently active first
+ */
+export async function listLoginSessions(trainerId: string, currentSessionId?: string): Promise<SessionSummary[]> {
+	const sessions = await listUserSessions(trainerId);
+	return sessions.map((session) => toSessionSummary(session, currentSessionId));
+}
+
+/**
+ * Sign out one device: delete the Redis session and revoke the refresh tokens bound to it.
+ * Access tokens already issued to that device stay valid until they expire (JWT_ACCESS_EXPIRES_IN).
+ */
+export async function revokeLoginSession(trainerId: string, sessionId: string): Promise<void> {
+	const deleted = await deleteUserSession(trainerId, sessionId);
+	const revoked = await revokeSessionRefreshTokens(trainerId, sessionId);
+	if (!deleted && revoked === 0) {
+		throw new AppError('Session not found', 404);
+	}
+
+	logger.info('Login session revoked', {
+		trainerId,
+		sessionId,
+		revokedRefreshTokens: revoked,
+		service: 'trainer-auth-service',
+	});
 }
 
 export async function updateProfile(
@@ -3,6 +3,7 @@ import timeout from 'connect-timeout';
 import type { Express } from 'express';
 import { globalErrorHandler, createHealthCheckEndpoints, getRedisClient } from '@kodingcaravan/shared';
 import logger from '@kodingcaravan/shared/config/logger';
+import { ensureCalendarBlockTable } from '@kodingcaravan/shared/utils/blackoutCalendar';
 import { initPostgres, getPostgresPool } from './config/database';
 import { ensureTrainerProfileTable, TrainerProfileRepository } from './models/trainerProfile.model';
 import { ensureTrainerPerformanceTable, TrainerPerformanceRepository } from './models/trainerPerformance.model';
@@ -12,23 +13,30 @@ import { ensureTrainerBaseLocationTable, TrainerBaseLocationRepository } from '.
 import { ensureTrainerBankDetailsTable, TrainerBankDetailsRepository } from './models/trainerBankDetails.model';
 import { ensureTrainerSessionSubstitutionsTable } from './models/trainerSessionSubstitution.model';
 import { ensureTrainerStudentAllocationsTable } from './models/trainerStudentAllocation.model';
+import { ensureTrainerLeaveTables } from './models/trainerLeave.model';
+import { ensurePayrollRunTables } from './models/payrollRun.model';
 import { TrainerService } from './services/trainer.service';
 import { VerificationService } from './services/verification.service';
 import { FleetService } from './services/fleet.service';
 import { BankDetailsService } from './services/bankDetails.service';
 import { PayrollService } from './services/payroll.service';
+import { TrainerLeaveService } from './services/trainerLeave.service';
+import { PayrollRunService } from './services/payrollRun.service';
 import { TrainerController } from './controllers/trainer.controller';
 import { VerificationController } from './controllers/verification.controller';
 import { FleetController } from './controllers/fleet.controller';
 import { BankDetailsController } from './controllers/bankDetails.controller';
 import { PayrollController } from './controllers/payroll.controller';
 import { SubstitutionController } from './controllers/substitution.controller';
+import { TrainerLeaveController } from './controllers/trainerLeave.controller';
+import { PayrollRunController } from './controllers/payrollRun.controller';
 import { createTrainerRoutes } from './routes/trainer.routes';
 import { createVerificationRoutes } from './routes/verification.routes';
 import { createFleetRoutes } from './routes/fleet.routes';
 import { createBankDetailsRoutes } from './routes/bankDetails.routes';
 import { createPayrollRoutes } from './routes/payroll.routes';
 import { createSubstitutionRoutes } from './routes/substitution.routes';
+import { createTrainerLeaveRoutes } from './routes/trainerLeave.routes';
 
 const app: Express = express();
 
@@ -103,6 +111,9 @@ async function initializeServices(): Promise<void> {
   await ensureTrainerBankDetailsTable(pool);
   await ensureTrainerStudentAllocationsTable(pool);
   await ensureTrainerSessionSubstitutionsTable(pool);
+  await ensureCalendarBlockTable(pool);
+  await ensureTrainerLeaveTables(pool);
+  await ensurePayrollRunTables(pool);
 
   const profileRepo = new TrainerProfileRepository(pool);
   const performanceRepo = new TrainerPerformanceRepository(pool);
@@ -116,6 +127,8 @@ async function initializeServices(): Promise<void> {
   const fleetService = new FleetService(locationRepo, profileRepo);
   const bankDetailsService = new BankDetailsService(bankDetailsRepo, pool);
   const payrollService = new PayrollService(pool);
+  const leaveService = new TrainerLeaveService(pool);
+  const payrollRunService = new PayrollRunService(pool, payrollService);
 
   const trainerController = new TrainerController(trainerService);
   const verificationController = new VerificationController(verificationService);
@@ -123,12 +136,15 @@ async function initializeServices(): Promise<void> {
   const bankDetailsController = new BankDetailsController(bankDetailsService);
   const payrollController = new PayrollController(payrollService);
   const substitutionController = new SubstitutionController();
+  const leaveController = new TrainerLeaveController(leaveService);
+  const payrollRunController = new PayrollRunController(payrollRunService);
 
   app.use('/api/trainers/verification', createVerificationRoutes(verificationController));
   app.use('/api/trainers/fleet', createFleetRoutes(fleetController));
   app.use('/api/trainers/bank-details', createBankDetailsRoutes(bankDetailsController));
-  app.use('/api/trainers/payroll', createPayrollRoutes(payrollController));
+  app.use('/api/trainers/payroll', createPayrollRoutes(payrollController, payrollRunController));
   app.use('/api/trainers/substitutions', createSubstitutionRoutes(substitutionController));
+  app.use('/api/trainers/leave', createTrainerLeaveRoutes(leaveController));
   app.use('/api/trainers', createTrainerRoutes(trainerController));
 
   servicesInitialized = true;
@@ -163,6 +179,7 @@ app.get('/', (_req, res) => {
       fleet: '/api/trainers/fleet',
       bankDetails: '/api/trainers/bank-details',
       payroll: '/api/trainers/payroll',
+      leave: '/api/trainers/leave',
       health: '/health',
     },
   });
@@ -0,0 +1,296 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '@kodingcaravan/shared';
+import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
+import { successResponse } from '@kodingcaravan/shared/utils/responseBuilder';
+import type { ZodRequest } from '@kodingcaravan/shared/types/zodRequest';
+import { ADJUSTMENT_CATEGORIES } from '../models/payrollRun.model';
+import { NEFT_EXPORT_FORMATS } from '../utils/neftExport';
+import type { PayrollRunService } from '../services/payrollRun.service';
+
+const monthString = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Expected YYYY-MM');
+
+const runParamsSchema = z.object({
+  runId: z.string().uuid(),
+});
+
+const payoutParamsSchema = z.object({
+  payoutId: z.string().uuid(),
+});
+
+const idParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const listQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const lockPeriodBodySchema = z.object({
+  month: monthString,
+  notes: z.string().trim().max(1000).nullable().optional(),
+});
+
+const markPaidBodySchema = z.object({
+  paymentReference: z.string().trim().min(1).max(100),
+});
+
+const markFailedBodySchema = z.object({
+  reason: z.string().trim().min(1).max(1000),
+});
+
+const neftExportQuerySchema = z.object({
+  format: z.enum(NEFT_EXPORT_FORMATS as [string, ...string[]]).default('generic'),
+  // Include payouts that were already in an earlier file
+  reexport: z.enum(['true', 'false']).default('false').transform(value => value === 'true'),
+});
+
+const adjustmentBodySchema = z.object({
+  trainerId: z.string().uuid(),
+  month: monthString,
+  kind: z.enum(['addition', 'deduction']),
+  category: z.enum(ADJUSTMENT_CATEGORIES as [string, ...string[]]),
+  amount: z.number().positive().max(1000000),
+  description: z.string().trim().max(500).nullable().optional(),
+});
+
+const adjustmentQuerySchema = z.object({
+  trainerId: z.string().uuid().optional(),
+  month: monthString.optional(),
+  payoutId: z.string().uuid().optional(),
+});
+
+type LockPeriodRequest = ZodRequest<{ body: typeof lockPeriodBodySchema }>;
+type PayoutParamsRequest = ZodRequest<{ params: typeof payoutParamsSchema }>;
+type RunParamsRequest = ZodRequest<{ params: typeof runParamsSchema }>;
+
+function requireTrainerId(req: any): string {
+  const authUser = (req as any).authUser;
+  if (!authUser) {
+    throw new AppError('Authentication required', 401);
+  }
+  return authUser.id;
+}
+
+function sendPdf(res: Response, filename: string, pdf: Buffer) {
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  return res.send(pdf);
+}
+
+export class PayrollRunController {
+  constructor(private readonly payrollRunService: PayrollRunService) {}
+
+  /**
+   * Trainer's payslip history (approved, paid and failed payouts)
+   * GET /api/trainers/payroll/payslips
+   */
+  getMyPayslips = asyncHandler(async (req: any, res: Response) => {
+    const trainerId = requireTrainerId(req);
+    const { limit } = listQuerySchema.parse(req.query);
+
+    const payslips = await this.payrollRunService.listTrainerPayslips(trainerId, limit);
+
+    return successResponse(res, {
+      message: 'Payslips fetched successfully',
+      data: payslips,
+    });
+  });
+
+  /**
+   * Download one of the trainer's payslips
+   * GET /api/trainers/payroll/payslips/:payoutId/pdf
+   */
+  downloadMyPayslip = asyncHandler(async (req: PayoutParamsRequest, res: Response) => {
+    const trainerId = requireTrainerId(req);
+    const { payoutId } = payoutParamsSchema.parse(req.params);
+
+    const { filename, pdf } = await this.payrollRunService.getPayslipPdf(payoutId, trainerId);
+    return sendPdf(res, filename, pdf);
+  });
+
+  /**
+   * List payroll runs (admin)
+   * GET /api/trainers/payroll/admin/runs
+   */
+  listRuns = asyncHandler(async (req: any, res: Response) => {
+    const { limit, offset } = listQuerySchema.parse(req.query);
+
+    const runs = await this.payrollRunService.listRuns(limit, offset);
+
+    return successResponse(res, {
+      message: 'Payroll runs fetched successfully',
+      data: runs,
+    });
+  });
+
+  /**
+   * Lock a month and create draft payouts (admin)
+   * POST /api/trainers/payroll/admin/runs
+   */
+  lockPeriod = asyncHandler(async (req: LockPeriodRequest, res: Response) => {
+    const body = lockPeriodBodySchema.parse(req.body);
+
+    const run = await this.payrollRunService.lockPeriod(body.month, (req as any).adminId, body.notes ?? null);
+
+    return successResponse(res, {
+      statusCode: 201,
+      message: 'Payroll period locked; draft payouts created',
+      data: run,
+    });
+  });
+
+  /**
+   * Run summary with all payouts (admin)
+   * GET /api/trainers/payroll/admin/runs/:runId
+   */
+  getRun = asyncHandler(async (req: RunParamsRequest, res: Response) => {
+    const { runId } = runParamsSchema.parse(req.params);
+
+    const result = await this.payrollRunService.getRun(runId);
+
+    return successResponse(res, {
+      message: 'Payroll run fetched successfully',
+      data: result,
+    });
+  });
+
+  /**
+   * Approve all draft payouts in a run (admin)
+   * POST /api/trainers/payroll/admin/runs/:runId/approve
+   */
+  approveRun = asyncHandler(async (req: RunParamsRequest, res: Response) => {
+    const { runId } = runParamsSchema.parse(req.params);
+
+    const result = await this.payrollRunService.approveRun(runId, (req as any).adminId);
+
+    return successResponse(res, {
+      message: `${result.approved} payout(s) approved`,
+      data: result,
+    });
+  });
+
+  /**
+   * NEFT bulk-payout file for approved payouts not yet exported (admin)
+   * GET /api/trainers/payroll/admin/runs/:runId/neft-export?format=hdfc[&reexport=true]
+   */
+  exportNeft = asyncHandler(async (req: any, res: Response) => {
+    const { runId } = runParamsSchema.parse(req.params);
+    const { format, reexport } = neftExportQuerySchema.parse(req.query);
+
+    const { filename, content, batchId } = await this.payrollRunService.exportNeft(runId, format as any, reexport);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('X-Neft-Batch-Id', batchId);
+    return res.send(content);
+  });
+
+  /**
+   * POST /api/trainers/payroll/admin/payouts/:payoutId/approve
+   */
+  approvePayout = asyncHandler(async (req: PayoutParamsRequest, res: Response) => {
+    const { payoutId } = payoutParamsSchema.parse(req.params);
+
+    const payout = await this.payrollRunService.approvePayout(payoutId, (req as any).adminId);
+
+    return successResponse(res, {
+      message: 'Payout approved',
+      data: payout,
+    });
+  });
+
+  /**
+   * Record the bank UTR once the transfer has gone through (admin)
+   * POST /api/trainers/payroll/admin/payouts/:payoutId/mark-paid
+   */
+  markPaid = asyncHandler(async (req: PayoutParamsRequest, res: Response) => {
+    const { payoutId } = payoutParamsSchema.parse(req.params);
+    const { paymentReference } = markPaidBodySchema.parse(req.body);
+
+    const payout = await this.payrollRunService.markPaid(payoutId, (req as any).adminId, paymentReference);
+
+    return successResponse(res, {
+      message: 'Payout marked as paid',
+      data: payout,
+    });
+  });
+
+  /**
+   * POST /api/trainers/payroll/admin/payouts/:payoutId/mark-failed
+   */
+  markFailed = asyncHandler(async (req: PayoutParamsRequest, res: Response) => {
+    const { payoutId } = payoutParamsSchema.parse(req.params);
+    const { reason } = markFailedBodySchema.parse(req.body);
+
+    const payout = await this.payrollRunService.markFailed(payoutId, reason);
+
+    return successResponse(res, {
+      message: 'Payout marked as failed',
+      data: payout,
+    });
+  });
+
+  /**
+   * Any payslip, including drafts (admin)
+   * GET /api/trainers/payroll/admin/payouts/:payoutId/payslip.pdf
+   */
+  downloadPayslip = asyncHandler(async (req: PayoutParamsRequest, res: Response) => {
+    const { payoutId } = payoutParamsSchema.parse(req.params);
+
+    const { filename, pdf } = await this.payrollRunService.getPayslipPdf(payoutId, null);
+    return sendPdf(res, filename, pdf);
+  });
+
+  /**
+   * GET /api/trainers/payroll/admin/adjustments?trainerId=&month=YYYY-MM
+   */
+  listAdjustments = asyncHandler(async (req: any, res: Response) => {
+    const query = adjustmentQuerySchema.parse(req.query);
+
+    const adjustments = await this.payrollRunService.listAdjustments(query);
+
+    return successResponse(res, {
+      message: 'Payroll adjustments fetched successfully',
+      data: adjustments,
+    });
+  });
+
+  /**
+   * Add a bonus, reimbursement, recovery or other adjustment (admin)
+   * POST /api/trainers/payroll/admin/adjustments
+   */
+  addAdjustment = asyncHandler(async (req: any, res: Response) => {
+    const body = adjustmentBodySchema.parse(req.body);
+
+    const adjustment = await this.payrollRunService.addAdjustment(
+      {
+        ...body,
+        category: body.category as any,
+        description: body.description ?? null,
+      },
+      (req as any).adminId
+    );
+
+    return successResponse(res, {
+      statusCode: 201,
+      message: 'Payroll adjustment recorded',
+      data: adjustment,
+    });
+  });
+
+  /**
+   * DELETE /api/trainers/payroll/admin/adjustments/:id
+   */
+  removeAdjustment = asyncHandler(async (req: any, res: Response) => {
+    const { id } = idParamsSchema.parse(req.params);
+
+    await this.payrollRunService.removeAdjustment(id);
+
+    return successResponse(res, {
+      message: 'Payroll adjustment removed',
+      data: null,
+    });
+  });
+}
@@ -0,0 +1,296 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { AppError } from '@kodingcaravan/shared';
+import { asyncHandler } from '@kodingcaravan/shared/utils/asyncHandler';
+import { successResponse } from '@kodingcaravan/shared/utils/responseBuilder';
+import type { ZodRequest } from '@kodingcaravan/shared/types/zodRequest';
+import type { TrainerLeaveService } from '../services/trainerLeave.service';
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+const idParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const trainerParamsSchema = z.object({
+  trainerId: z.string().uuid(),
+});
+
+const applyLeaveBodySchema = z.object({
+  leaveType: z.enum(['casual', 'sick', 'earned', 'unpaid']),
+  startDate: dateString,
+  endDate: dateString.optional(),
+  reason: z.string().trim().max(1000).nullable().optional(),
+});
+
+const myLeaveQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected', 'cancelled']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const adminLeaveQuerySchema = myLeaveQuerySchema.extend({
+  trainerId: z.string().uuid().optional(),
+  from: dateString.optional(),
+  to: dateString.optional(),
+});
+
+const balanceQuerySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+});
+
+const decisionBodySchema = z.object({
+  note: z.string().trim().max(1000).nullable().optional(),
+});
+
+const entitlementBodySchema = z.object({
+  year: z.number().int().min(2000).max(2100),
+  leaveType: z.enum(['casual', 'sick', 'earned']),
+  entitledDays: z.number().int().min(0).max(365),
+});
+
+const proposalQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'dismissed']).optional(),
+  leaveRequestId: z.string().uuid().optional(),
+  trainerId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+  offset: z.coerce.number().int().min(0).optional(),
+});
+
+const approveProposalBodySchema = z.object({
+  substituteTrainerId: z.string().uuid().optional(),
+});
+
+type ApplyLeaveRequest = ZodRequest<{ body: typeof applyLeaveBodySchema }>;
+type IdParamsRequest = ZodRequest<{ params: typeof idParamsSchema }>;
+
+function requireTrainerId(req: any): string {
+  const authUser = (req as any).authUser;
+  if (!authUser) {
+    throw new AppError('Authentication required', 401);
+  }
+  return authUser.id;
+}
+
+export class TrainerLeaveController {
+  constructor(private readonly leaveService: TrainerLeaveService) {}
+
+  /**
+   * Apply for leave
+   * POST /api/trainers/leave
+   */
+  applyForLeave = asyncHandler(async (req: ApplyLeaveRequest, res: Response) => {
+    const trainerId = requireTrainerId(req);
+    const body = applyLeaveBodySchema.parse(req.body);
+
+    const leave = await this.leaveService.applyForLeave(trainerId, {
+      leaveType: body.leaveType,
+      startDate: body.startDate,
+      endDate: body.endDate ?? body.startDate,
+      reason: body.reason ?? null,
+    });
+
+    return successResponse(res, {
+      statusCode: 201,
+      message: 'Leave request submitted',
+      data: leave,
+    });
+  });
+
+  /**
+   * List the trainer's own leave requests
+   * GET /api/trainers/leave
+   */
+  getMyLeaveRequests = asyncHandler(async (req: any, res: Response) => {
+    const trainerId = requireTrainerId(req);
+    const query = myLeaveQuerySchema.parse(req.query);
+
+    const leaves = await this.leaveService.listLeaveRequests({ trainerId, ...query });
+
+    return successResponse(res, {
+      message: 'Leave requests fetched successfully',
+      data: leaves,
+    });
+  });
+
+  /**
+   * Leave balance for a year (defaults to the current one)
+   * GET /api/trainers/leave/balance?year=2025
+   */
+  getMyBalance = asyncHandler(async (req: any, res: Response) => {
+    const trainerId = requireTrainerId(req);
+    const { year } = balanceQuerySchema.parse(req.query);
+
+    const balances = await this.leaveService.getBalances(trainerId, year ?? new Date().getFullYear());
+
+    return successResponse(res, {
+      message: 'Leave balance fetched successfully',
+      data: balances,
+    });
+  });
+
+  /**
+   * Cancel a pending leave, or an approved one before it starts
+   * POST /api/trainers/leave/:id/cancel
+   */
+  cancelLeave = asyncHandler(async (req: IdParamsRequest, res: Response) => {
+    const trainerId = requireTrainerId(req);
+    const { id } = idParamsSchema.parse(req.params);
+
+    const leave = await this.leaveService.cancelLeave(trainerId, id);
+
+    return successResponse(res, {
+      message: 'Leave cancelled',
+      data: leave,
+    });
+  });
+
+  /**
+   * List leave requests (admin)
+   * GET /api/trainers/leave/admin/requests
+   */
+  listLeaveRequests = asyncHandler(async (req: any, res: Response) => {
+    const query = adminLeaveQuerySchema.parse(req.query);
+
+    const leaves = await this.leaveService.listLeaveRequests(query);
+
+    return successResponse(res, {
+      message: 'Leave requests fetched successfully',
+      data: leaves,
+    });
+  });
+
+  /**
+   * Approve leave and propose substitutes for the affected sessions (admin)
+   * POST /api/trainers/leave/admin/requests/:id/approve
+   */
+  approveLeave = asyncHandler(async (req: IdParamsRequest, res: Response) => {
+    const { id } = idParamsSchema.parse(req.params);
+    const { note } = decisionBodySchema.parse(req.body ?? {});
+
+    const result = await this.leaveService.approveLeave(id, (req as any).adminId, note ?? null);
+
+    return successResponse(res, {
+      message: 'Leave approved; substitution proposals are ready for review',
+      data: result,
+    });
+  });
+
+  /**
+   * Reject leave (admin)
+   * POST /api/trainers/leave/admin/requests/:id/reject
+   */
+  rejectLeave = asyncHandler(async (req: IdParamsRequest, res: Response) => {
+    const { id } = idParamsSchema.parse(req.params);
+    const { note } = decisionBodySchema.parse(req.body ?? {});
+
+    const leave = await this.leaveService.rejectLeave(id, (req as any).adminId, note ?? null);
+
+    return successResponse(res, {
+      message: 'Leave rejected',
+      data: leave,
+    });
+  });
+
+  /**
+   * Re-run substitute ranking for an approved leave, e.g. after booking-service was unavailable (admin)
+   * POST /api/trainers/leave/admin/requests/:id/propose-substitutes
+   */
+  proposeSubstitutes = asyncHandler(async (req: IdParamsRequest, res: Response) => {
+    const { id } = idParamsSchema.parse(req.params);
+
+    const result = await this.leaveService.proposeSubstitutes(id);
+
+    return successResponse(res, {
+      message: 'Substitution proposals refreshed',
+      data: result,
+    });
+  });
+
+  /**
+   * Leave balance of any trainer (admin)
+   * GET /api/trainers/leave/admin/balances/:trainerId?year=2025
+   */
+  getTrainerBalance = asyncHandler(async (req: any, res: Response) => {
+    const { trainerId } = trainerParamsSchema.parse(req.params);
+    const { year } = balanceQuerySchema.parse(req.query);
+
+    const balances = await this.leaveService.getBalances(trainerId, year ?? new Date().getFullYear());
+
+    return successResponse(res, {
+      message: 'Leave balance fetched successfully',
+      data: balances,
+    });
+  });
+
+  /**
+   * Override a trainer's yearly entitlement for a leave type (admin)
+   * PUT /api/trainers/leave/admin/balances/:trainerId
+   */
+  setEntitlement = asyncHandler(async (req: any, res: Response) => {
+    const { trainerId } = trainerParamsSchema.parse(req.params);
+    const body = entitlementBodySchema.parse(req.body);
+
+    const balances = await this.leaveService.setEntitlement(
+      trainerId,
+      body.year,
+      body.leaveType,
+      body.entitledDays,
+      (req as any).adminId
+    );
+
+    return successResponse(res, {
+      message: 'Leave entitlement updated',
+      data: balances,
+    });
+  });
+
+  /**
+   * List substitution proposals (admin)
+   * GET /api/trainers/leave/admin/substitution-proposals
+   */
+  listProposals = asyncHandler(async (req: any, res: Response) => {
+    const query = proposalQuerySchema.parse(req.query);
+
+    const proposals = await this.leaveService.listProposals({
+      ...query,
+      status: query.status ?? 'pending',
+    });
+
+    return successResponse(res, {
+      message: 'Substitution proposals fetched successfully',
+      data: proposals,
+    });
+  });
+
+  /**
+   * Confirm the proposed substitute, or pick another candidate (admin)
+   * POST /api/trainers/leave/admin/substitution-proposals/:id/approve
+   */
+  approveProposal = asyncHandler(async (req: IdParamsRequest, res: Response) => {
+    const { id } = idParamsSchema.parse(req.params);
+    const { substituteTrainerId } = approveProposalBodySchema.parse(req.body ?? {});
+
+    const proposal = await this.leaveService.approveProposal(id, (req as any).adminId, substituteTrainerId);
+
+    return successResponse(res, {
+      message: 'Substitution approved',
+      data: proposal,
+    });
+  });
+
+  /**
+   * Leave the session without a substitute (admin)
+   * POST /api/trainers/leave/admin/substitution-proposals/:id/dismiss
+   */
+  dismissProposal = asyncHandler(async (req: IdParamsRequest, res: Response) => {
+    const { id } = idParamsSchema.parse(req.params);
+
+    const proposal = await this.leaveService.dismissProposal(id, (req as any).adminId);
+
+    return successResponse(res, {
+      message: 'Substitution proposal dismissed',
+      data: proposal,
+    });
+  });
+}
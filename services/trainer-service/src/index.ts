@@ -3,12 +3,28 @@ import express from 'express';
 import { globalErrorHandler, getServicePortSync } from "@kodingcaravan/shared";
 import logger, { logServiceStart } from "@kodingcaravan/shared/config/logger";
 import app from './app';
-import { getPostgresPool } from './config/database';
+import { getPostgresPool, initPostgres } from './config/database';
+import { startOutboxRelay, type OutboxRelay } from '@kodingcaravan/shared/events/outbox';
 
 const PORT = getServicePortSync('Trainer Service', 'TRAINER_SERVICE_PORT', 3004);
 
+let outboxRelay: OutboxRelay | null = null;
+
 const server = app.listen(PORT, () => {
     logServiceStart('Trainer Service', PORT);
+
+    // Publish committed outbox events (SESSION_SUBSTITUTED from leave approvals)
+    initPostgres()
+      .then((pool) => startOutboxRelay({ pool }))
+      .then((relay) => {
+        outboxRelay = relay;
+      })
+      .catch((error) => {
+        logger.error('Failed to start outbox relay', {
+          service: 'trainer-service',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
 });
 
 server.on('error', (err: NodeJS.ErrnoException) => {
@@ -33,6 +49,7 @@ server.on('error', (err: NodeJS.ErrnoException) => {
 // Graceful shutdown handler
 const gracefulShutdown = async (signal: string) => {
 	logger.info(`Received ${signal}, starting graceful shutdown`, { service: 'trainer-service' });
+	outboxRelay?.stop();
 	
 	// Stop accepting new connections
 	server.close(async () => {
@@ -1,5 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { verifyAccessToken, AppError } from '@kodingcaravan/shared';
+import { verifyAccessTokenAsync, AppError } from '@kodingcaravan/shared';
 
 type AuthPayload = {
   sub: string;
@@ -12,7 +12,7 @@ type AuthPayload = {
  * Require authentication middleware
  * WHY: Protect routes that require trainer authentication
  */
-export function requireAuth(req: Request, _res: Response, next: NextFunction) {
+export async function requireAuth(req: Request, _res: Response, next: NextFunction) {
   const header = req.headers.authorization;
   if (!header || !header.startsWith('Bearer ')) {
     return next(new AppError('Authentication required', 401));
@@ -20,7 +20,7 @@ export function requireAuth(req: Request, _res: Response, next: NextFunction) {
 
   const token = header.slice(7);
   try {
-    const payload = verifyAccessToken<AuthPayload>(token);
+    const payload = await verifyAccessTokenAsync<AuthPayload>(token);
     
     // Verify role is trainer
     if (payload.role !== 'trainer') {
@@ -39,3 +39,28 @@ export function requireAuth(req: Request, _res: Response, next: NextFunction) {
   }
 }
 
+
+/**
+ * Require admin authentication middleware
+ * WHY: Leave approval and substitution proposals are decided by admins
+ */
+export async function requireAdminAuth(req: Request, _res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return next(new AppError('Authentication required', 401));
+  }
+
+  const token = header.slice(7);
+  try {
+    const payload = await verifyAccessTokenAsync<AuthPayload>(token);
+
+    if (payload.role !== 'admin') {
+      return next(new AppError('Admin privileges required', 403));
+    }
+
+    (req as any).adminId = payload.sub;
+    next();
+  } catch (error) {
+    next(new AppError('Invalid or expired token', 401));
+  }
+}
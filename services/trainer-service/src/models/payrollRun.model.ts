@@ -0,0 +1,609 @@
+import type { Pool, PoolClient } from 'pg';
+import type { MonthlyPayrollCalculation } from '../services/payroll.service';
+
+export type PayoutStatus = 'draft' | 'approved' | 'paid' | 'failed';
+export type AdjustmentKind = 'addition' | 'deduction';
+export type AdjustmentCategory =
+  | 'bonus'
+  | 'incentive'
+  | 'reimbursement'
+  | 'arrears'
+  | 'advance_recovery'
+  | 'penalty'
+  | 'tds'
+  | 'other';
+
+export const ADJUSTMENT_CATEGORIES: AdjustmentCategory[] = [
+  'bonus',
+  'incentive',
+  'reimbursement',
+  'arrears',
+  'advance_recovery',
+  'penalty',
+  'tds',
+  'other',
+];
+
+export interface PayrollRun {
+  id: string;
+  /** First day of the month (YYYY-MM-01) */
+  periodMonth: string;
+  lockedBy: string | null;
+  lockedAt: Date;
+  notes: string | null;
+  payoutCount: number;
+  totalNetAmount: number;
+  statusCounts: Record<PayoutStatus, number>;
+}
+
+export interface TrainerPayout {
+  id: string;
+  runId: string;
+  periodMonth: string;
+  trainerId: string;
+  trainerName: string | null;
+  calculationId: string | null;
+  payslipNumber: string;
+  grossAmount: number;
+  additionsAmount: number;
+  deductionsAmount: number;
+  netAmount: number;
+  calculationDetails: MonthlyPayrollCalculation['calculationDetails'] & {
+    baseSalaryAmount?: number;
+    allowanceAmount?: number;
+  };
+  beneficiaryName: string | null;
+  accountNumber: string | null;
+  ifscCode: string | null;
+  bankName: string | null;
+  status: PayoutStatus;
+  paymentReference: string | null;
+  failureReason: string | null;
+  approvedBy: string | null;
+  approvedAt: Date | null;
+  paidAt: Date | null;
+  /** NEFT file the payout was last exported in; cleared when it is approved again */
+  neftBatchId: string | null;
+  exportedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatePayoutInput {
+  runId: string;
+  periodMonth: string;
+  trainerId: string;
+  trainerName: string | null;
+  calculationId: string | null;
+  payslipNumber: string;
+  grossAmount: number;
+  calculationDetails: TrainerPayout['calculationDetails'];
+  bank: BankSnapshot | null;
+}
+
+export interface BankSnapshot {
+  beneficiaryName: string;
+  accountNumber: string;
+  ifscCode: string;
+  bankName: string | null;
+}
+
+export interface PayrollAdjustment {
+  id: string;
+  trainerId: string;
+  periodMonth: string;
+  kind: AdjustmentKind;
+  category: AdjustmentCategory;
+  amount: number;
+  description: string | null;
+  payoutId: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+export interface CreateAdjustmentInput {
+  trainerId: string;
+  periodMonth: string;
+  kind: AdjustmentKind;
+  category: AdjustmentCategory;
+  amount: number;
+  description?: string | null;
+  payoutId?: string | null;
+  createdBy?: string | null;
+}
+
+const PAYOUT_COLUMNS = `
+  p.id,
+  p.run_id,
+  to_char(p.period_month, 'YYYY-MM-DD') AS period_month,
+  p.trainer_id,
+  p.trainer_name,
+  p.calculation_id,
+  p.payslip_number,
+  p.gross_amount,
+  p.additions_amount,
+  p.deductions_amount,
+  p.net_amount,
+  p.calculation_details,
+  p.beneficiary_name,
+  p.account_number,
+  p.ifsc_code,
+  p.bank_name,
+  p.status,
+  p.payment_reference,
+  p.failure_reason,
+  p.approved_by,
+  p.approved_at,
+  p.paid_at,
+  p.neft_batch_id,
+  p.exported_at,
+  p.created_at,
+  p.updated_at
+`;
+
+const ADJUSTMENT_COLUMNS = `
+  id,
+  trainer_id,
+  to_char(period_month, 'YYYY-MM-DD') AS period_month,
+  kind,
+  category,
+  amount,
+  description,
+  payout_id,
+  created_by,
+  created_at
+`;
+
+function mapRunRow(row: any): PayrollRun {
+  return {
+    id: row.id,
+    periodMonth: row.period_month,
+    lockedBy: row.locked_by ?? null,
+    lockedAt: new Date(row.locked_at),
+    notes: row.notes ?? null,
+    payoutCount: Number(row.payout_count ?? 0),
+    totalNetAmount: parseFloat(row.total_net_amount ?? '0'),
+    statusCounts: {
+      draft: Number(row.draft_count ?? 0),
+      approved: Number(row.approved_count ?? 0),
+      paid: Number(row.paid_count ?? 0),
+      failed: Number(row.failed_count ?? 0),
+    },
+  };
+}
+
+function mapPayoutRow(row: any): TrainerPayout {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    periodMonth: row.period_month,
+    trainerId: row.trainer_id,
+    trainerName: row.trainer_name ?? null,
+    calculationId: row.calculation_id ?? null,
+    payslipNumber: row.payslip_number,
+    grossAmount: parseFloat(row.gross_amount),
+    additionsAmount: parseFloat(row.additions_amount),
+    deductionsAmount: parseFloat(row.deductions_amount),
+    netAmount: parseFloat(row.net_amount),
+    calculationDetails: row.calculation_details,
+    beneficiaryName: row.beneficiary_name ?? null,
+    accountNumber: row.account_number ?? null,
+    ifscCode: row.ifsc_code ?? null,
+    bankName: row.bank_name ?? null,
+    status: row.status,
+    paymentReference: row.payment_reference ?? null,
+    failureReason: row.failure_reason ?? null,
+    approvedBy: row.approved_by ?? null,
+    approvedAt: row.approved_at ? new Date(row.approved_at) : null,
+    paidAt: row.paid_at ? new Date(row.paid_at) : null,
+    neftBatchId: row.neft_batch_id ?? null,
+    exportedAt: row.exported_at ? new Date(row.exported_at) : null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function mapAdjustmentRow(row: any): PayrollAdjustment {
+  return {
+    id: row.id,
+    trainerId: row.trainer_id,
+    periodMonth: row.period_month,
+    kind: row.kind,
+    category: row.category,
+    amount: parseFloat(row.amount),
+    description: row.description ?? null,
+    payoutId: row.payout_id ?? null,
+    createdBy: row.created_by ?? null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export async function ensurePayrollRunTables(pool: Pool): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS payroll_runs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      period_month DATE NOT NULL UNIQUE,
+      locked_by UUID,
+      locked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      notes TEXT,
+      CHECK (EXTRACT(DAY FROM period_month) = 1)
+    );
+  `);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS trainer_payouts (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      run_id UUID NOT NULL REFERENCES payroll_runs(id) ON DELETE CASCADE,
+      period_month DATE NOT NULL,
+      trainer_id UUID NOT NULL REFERENCES trainers(id) ON DELETE CASCADE,
+      trainer_name VARCHAR(150),
+      calculation_id UUID REFERENCES trainer_payroll_calculations(id) ON DELETE SET NULL,
+      payslip_number VARCHAR(40) NOT NULL UNIQUE,
+      gross_amount NUMERIC(10, 2) NOT NULL,
+      additions_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+      deductions_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+      net_amount NUMERIC(10, 2) NOT NULL,
+      calculation_details JSONB NOT NULL,
+      beneficiary_name VARCHAR(255),
+      account_number VARCHAR(50),
+      ifsc_code VARCHAR(11),
+      bank_name VARCHAR(255),
+      status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'paid', 'failed')),
+      payment_reference TEXT,
+      failure_reason TEXT,
+      approved_by UUID,
+      approved_at TIMESTAMPTZ,
+      paid_at TIMESTAMPTZ,
+      neft_batch_id UUID,
+      exported_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (run_id, trainer_id)
+    );
+  `);
+
+  await pool.query(`
+    ALTER TABLE trainer_payouts
+      ADD COLUMN IF NOT EXISTS neft_batch_id UUID,
+      ADD COLUMN IF NOT EXISTS exported_at TIMESTAMPTZ;
+  `);
+
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_trainer_payouts_trainer
+    ON trainer_payouts(trainer_id, period_month DESC);
+  `);
+
+  // Bonuses, reimbursements, recoveries and other one-off lines on top of the calculated salary
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS payroll_adjustments (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      trainer_id UUID NOT NULL REFERENCES trainers(id) ON DELETE CASCADE,
+      period_month DATE NOT NULL,
+      kind TEXT NOT NULL CHECK (kind IN ('addition', 'deduction')),
+      category TEXT NOT NULL,
+      amount NUMERIC(10, 2) NOT NULL CHECK (amount > 0),
+      description TEXT,
+      payout_id UUID REFERENCES trainer_payouts(id) ON DELETE SET NULL,
+      created_by UUID,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_payroll_adjustments_trainer_month
+    ON payroll_adjustments(trainer_id, period_month);
+  `);
+}
+
+export class PayrollRunRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async create(periodMonth: string, lockedBy: string, notes: string | null, client: PoolClient): Promise<PayrollRun> {
+    const result = await client.query(
+      `
+        INSERT INTO payroll_runs (period_month, locked_by, notes)
+        VALUES ($1, $2, $3)
+        RETURNING id, to_char(period_month, 'YYYY-MM-DD') AS period_month, locked_by, locked_at, notes
+      `,
+      [periodMonth, lockedBy, notes]
+    );
+    return mapRunRow(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<PayrollRun | null> {
+    const runs = await this.findWithTotals('WHERE r.id = $1', [id]);
+    return runs[0] ?? null;
+  }
+
+  async findByMonth(periodMonth: string, client?: PoolClient): Promise<{ id: string } | null> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+    const result = await queryFn(`SELECT id FROM payroll_runs WHERE period_month = $1`, [periodMonth]);
+    return result.rows[0] ?? null;
+  }
+
+  async findAll(limit = 24, offset = 0): Promise<PayrollRun[]> {
+    return this.findWithTotals('', [], limit, offset);
+  }
+
+  private async findWithTotals(whereClause: string, params: any[], limit = 1, offset = 0): Promise<PayrollRun[]> {
+    const result = await this.pool.query(
+      `
+        SELECT r.id, to_char(r.period_month, 'YYYY-MM-DD') AS period_month, r.locked_by, r.locked_at, r.notes,
+          COUNT(p.id) AS payout_count,
+          COALESCE(SUM(p.net_amount), 0) AS total_net_amount,
+          COUNT(p.id) FILTER (WHERE p.status = 'draft') AS draft_count,
+          COUNT(p.id) FILTER (WHERE p.status = 'approved') AS approved_count,
+          COUNT(p.id) FILTER (WHERE p.status = 'paid') AS paid_count,
+          COUNT(p.id) FILTER (WHERE p.status = 'failed') AS failed_count
+        FROM payroll_runs r
+        LEFT JOIN trainer_payouts p ON p.run_id = r.id
+        ${whereClause}
+        GROUP BY r.id
+        ORDER BY r.period_month DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}
+      `,
+      [...params, limit, offset]
+    );
+    return result.rows.map(mapRunRow);
+  }
+}
+
+export class TrainerPayoutRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async create(input: CreatePayoutInput, client: PoolClient): Promise<TrainerPayout> {
+    const result = await client.query(
+      `
+        INSERT INTO trainer_payouts AS p (
+          run_id, period_month, trainer_id, trainer_name, calculation_id, payslip_number,
+          gross_amount, net_amount, calculation_details,
+          beneficiary_name, account_number, ifsc_code, bank_name
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $7, $8::jsonb, $9, $10, $11, $12)
+        RETURNING ${PAYOUT_COLUMNS}
+      `,
+      [
+        input.runId,
+        input.periodMonth,
+        input.trainerId,
+        input.trainerName,
+        input.calculationId,
+        input.payslipNumber,
+        input.grossAmount,
+        JSON.stringify(input.calculationDetails),
+        input.bank?.beneficiaryName ?? null,
+        input.bank?.accountNumber ?? null,
+        input.bank?.ifscCode ?? null,
+        input.bank?.bankName ?? null,
+      ]
+    );
+    return mapPayoutRow(result.rows[0]);
+  }
+
+  async findById(id: string, client?: PoolClient, forUpdate = false): Promise<TrainerPayout | null> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+    const result = await queryFn(
+      `SELECT ${PAYOUT_COLUMNS} FROM trainer_payouts p WHERE p.id = $1${forUpdate ? ' FOR UPDATE' : ''}`,
+      [id]
+    );
+    return result.rows[0] ? mapPayoutRow(result.rows[0]) : null;
+  }
+
+  async findByTrainerAndMonth(trainerId: string, periodMonth: string, client?: PoolClient): Promise<TrainerPayout | null> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+    const result = await queryFn(
+      `SELECT ${PAYOUT_COLUMNS} FROM trainer_payouts p WHERE p.trainer_id = $1 AND p.period_month = $2 FOR UPDATE`,
+      [trainerId, periodMonth]
+    );
+    return result.rows[0] ? mapPayoutRow(result.rows[0]) : null;
+  }
+
+  async findByRun(runId: string, status?: PayoutStatus): Promise<TrainerPayout[]> {
+    const result = await this.pool.query(
+      `
+        SELECT ${PAYOUT_COLUMNS}
+        FROM trainer_payouts p
+        WHERE p.run_id = $1 ${status ? 'AND p.status = $2' : ''}
+        ORDER BY p.payslip_number ASC
+      `,
+      status ? [runId, status] : [runId]
+    );
+    return result.rows.map(mapPayoutRow);
+  }
+
+  /**
+   * Payslips visible to the trainer: drafts stay internal until approved
+   */
+  async findPayslipsForTrainer(trainerId: string, limit = 24): Promise<TrainerPayout[]> {
+    const result = await this.pool.query(
+      `
+        SELECT ${PAYOUT_COLUMNS}
+        FROM trainer_payouts p
+        WHERE p.trainer_id = $1 AND p.status <> 'draft'
+        ORDER BY p.period_month DESC
+        LIMIT $2
+      `,
+      [trainerId, limit]
+    );
+    return result.rows.map(mapPayoutRow);
+  }
+
+  /**
+   * Move the payout to a new status only while it is still in one of the expected statuses,
+   * so concurrent approve / paid / failed calls cannot overwrite each other.
+   * Returns null when the payout is missing or its status has changed.
+   */
+  async updateStatus(
+    id: string,
+    status: PayoutStatus,
+    expectedStatuses: PayoutStatus[],
+    changes: {
+      adminId?: string | null;
+      paymentReference?: string | null;
+      failureReason?: string | null;
+      bank?: BankSnapshot | null;
+    },
+    client?: PoolClient
+  ): Promise<TrainerPayout | null> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+    const result = await queryFn(
+      `
+        UPDATE trainer_payouts AS p
+        SET status = $2,
+            approved_by = CASE WHEN $2 = 'approved' THEN $3 ELSE approved_by END,
+            approved_at = CASE WHEN $2 = 'approved' THEN NOW() ELSE approved_at END,
+            paid_at = CASE WHEN $2 = 'paid' THEN NOW() ELSE paid_at END,
+            payment_reference = COALESCE($4, payment_reference),
+            failure_reason = CASE WHEN $2 = 'failed' THEN $5 ELSE NULL END,
+            beneficiary_name = COALESCE($6, beneficiary_name),
+            account_number = COALESCE($7, account_number),
+            ifsc_code = COALESCE($8, ifsc_code),
+            bank_name = COALESCE($9, bank_name),
+            neft_batch_id = CASE WHEN $2 = 'approved' THEN NULL ELSE neft_batch_id END,
+            exported_at = CASE WHEN $2 = 'approved' THEN NULL ELSE exported_at END,
+            updated_at = NOW()
+        WHERE p.id = $1 AND p.status = ANY($10::text[])
+        RETURNING ${PAYOUT_COLUMNS}
+      `,
+      [
+        id,
+        status,
+        changes.adminId ?? null,
+        changes.paymentReference ?? null,
+        changes.failureReason ?? null,
+        changes.bank?.beneficiaryName ?? null,
+        changes.bank?.accountNumber ?? null,
+        changes.bank?.ifscCode ?? null,
+        changes.bank?.bankName ?? null,
+        expectedStatuses,
+      ]
+    );
+    return result.rows[0] ? mapPayoutRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Stamp the run's approved, non-zero payouts with a NEFT batch.
+   * Payouts already in an earlier file are skipped unless reexport is set.
+   */
+  async markExported(runId: string, batchId: string, reexport: boolean, client: PoolClient): Promise<TrainerPayout[]> {
+    const result = await client.query(
+      `
+        UPDATE trainer_payouts AS p
+        SET neft_batch_id = $2,
+            exported_at = NOW(),
+            updated_at = NOW()
+        WHERE p.run_id = $1
+          AND p.status = 'approved'
+          AND p.net_amount > 0
+          ${reexport ? '' : 'AND p.exported_at IS NULL'}
+        RETURNING ${PAYOUT_COLUMNS}
+      `,
+      [runId, batchId]
+    );
+    return result.rows
+      .map(mapPayoutRow)
+      .sort((a, b) => a.payslipNumber.localeCompare(b.payslipNumber));
+  }
+
+  /**
+   * Re-total the payout from its adjustments
+   */
+  async recalculateNet(id: string, client: PoolClient): Promise<TrainerPayout> {
+    const result = await client.query(
+      `
+        UPDATE trainer_payouts AS p
+        SET additions_amount = totals.additions,
+            deductions_amount = totals.deductions,
+            net_amount = GREATEST(p.gross_amount + totals.additions - totals.deductions, 0),
+            updated_at = NOW()
+        FROM (
+          SELECT
+            COALESCE(SUM(amount) FILTER (WHERE kind = 'addition'), 0) AS additions,
+            COALESCE(SUM(amount) FILTER (WHERE kind = 'deduction'), 0) AS deductions
+          FROM payroll_adjustments
+          WHERE payout_id = $1
+        ) totals
+        WHERE p.id = $1
+        RETURNING ${PAYOUT_COLUMNS}
+      `,
+      [id]
+    );
+    return mapPayoutRow(result.rows[0]);
+  }
+}
+
+export class PayrollAdjustmentRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async create(input: CreateAdjustmentInput, client?: PoolClient): Promise<PayrollAdjustment> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+    const result = await queryFn(
+      `
+        INSERT INTO payroll_adjustments (trainer_id, period_month, kind, category, amount, description, payout_id, created_by)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING ${ADJUSTMENT_COLUMNS}
+      `,
+      [
+        input.trainerId,
+        input.periodMonth,
+        input.kind,
+        input.category,
+        input.amount,
+        input.description ?? null,
+        input.payoutId ?? null,
+        input.createdBy ?? null,
+      ]
+    );
+    return mapAdjustmentRow(result.rows[0]);
+  }
+
+  async findById(id: string, client?: PoolClient): Promise<PayrollAdjustment | null> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+    const result = await queryFn(`SELECT ${ADJUSTMENT_COLUMNS} FROM payroll_adjustments WHERE id = $1 FOR UPDATE`, [id]);
+    return result.rows[0] ? mapAdjustmentRow(result.rows[0]) : null;
+  }
+
+  async findAll(filters: { trainerId?: string; periodMonth?: string; payoutId?: string }): Promise<PayrollAdjustment[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters.trainerId) {
+      params.push(filters.trainerId);
+      conditions.push(`trainer_id = $${params.length}`);
+    }
+    if (filters.periodMonth) {
+      params.push(filters.periodMonth);
+      conditions.push(`period_month = $${params.length}`);
+    }
+    if (filters.payoutId) {
+      params.push(filters.payoutId);
+      conditions.push(`payout_id = $${params.length}`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.pool.query(
+      `SELECT ${ADJUSTMENT_COLUMNS} FROM payroll_adjustments ${whereClause} ORDER BY period_month DESC, created_at ASC LIMIT 500`,
+      params
+    );
+    return result.rows.map(mapAdjustmentRow);
+  }
+
+  /**
+   * Attach the month's loose adjustments to the payout created when the period is locked
+   */
+  async attachUnappliedToPayout(trainerId: string, periodMonth: string, payoutId: string, client: PoolClient): Promise<number> {
+    const result = await client.query(
+      `
+        UPDATE payroll_adjustments
+        SET payout_id = $3
+        WHERE trainer_id = $1 AND period_month = $2 AND payout_id IS NULL
+      `,
+      [trainerId, periodMonth, payoutId]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async delete(id: string, client: PoolClient): Promise<void> {
+    await client.query(`DELETE FROM payroll_adjustments WHERE id = $1`, [id]);
+  }
+}
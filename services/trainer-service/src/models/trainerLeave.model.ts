@@ -0,0 +1,582 @@
+import type { Pool, PoolClient } from 'pg';
+
+export type LeaveType = 'casual' | 'sick' | 'earned' | 'unpaid';
+export type LeaveStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type SubstitutionProposalStatus = 'pending' | 'approved' | 'dismissed';
+
+export const LEAVE_TYPES: LeaveType[] = ['casual', 'sick', 'earned', 'unpaid'];
+
+/**
+ * Yearly working days per paid leave type, unless overridden per trainer.
+ * Unpaid leave has no balance; it is deducted from base salary instead.
+ */
+export const DEFAULT_LEAVE_ENTITLEMENTS: Record<Exclude<LeaveType, 'unpaid'>, number> = {
+  casual: 12,
+  sick: 6,
+  earned: 15,
+};
+
+export interface TrainerLeaveRequest {
+  id: string;
+  trainerId: string;
+  leaveType: LeaveType;
+  startDate: string;
+  endDate: string;
+  /** Working days (Mon-Sat) covered by the leave */
+  days: number;
+  reason: string | null;
+  status: LeaveStatus;
+  calendarBlockId: string | null;
+  decidedBy: string | null;
+  decidedAt: Date | null;
+  decisionNote: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateLeaveRequestInput {
+  trainerId: string;
+  leaveType: LeaveType;
+  startDate: string;
+  endDate: string;
+  days: number;
+  reason?: string | null;
+}
+
+export interface TrainerLeaveBalance {
+  leaveType: Exclude<LeaveType, 'unpaid'>;
+  year: number;
+  entitledDays: number;
+  usedDays: number;
+  pendingDays: number;
+  availableDays: number;
+}
+
+export interface SubstituteCandidate {
+  trainerId: string;
+  freeSlots: number;
+  distanceKm: number | null;
+}
+
+export interface SubstitutionProposal {
+  id: string;
+  leaveRequestId: string;
+  sessionId: string;
+  studentId: string;
+  originalTrainerId: string;
+  sessionDate: string;
+  timeSlot: string;
+  /** Ranked substitutes, best first */
+  candidates: SubstituteCandidate[];
+  proposedSubstituteId: string | null;
+  /** Why no substitute could be proposed */
+  unavailableReason: string | null;
+  status: SubstitutionProposalStatus;
+  substitutionId: string | null;
+  resolvedBy: string | null;
+  resolvedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreateSubstitutionProposalInput {
+  leaveRequestId: string;
+  sessionId: string;
+  studentId: string;
+  originalTrainerId: string;
+  sessionDate: string;
+  timeSlot: string;
+  candidates: SubstituteCandidate[];
+  unavailableReason?: string | null;
+}
+
+const LEAVE_COLUMNS = `
+  id,
+  trainer_id,
+  leave_type,
+  to_char(start_date, 'YYYY-MM-DD') AS start_date,
+  to_char(end_date, 'YYYY-MM-DD') AS end_date,
+  days,
+  reason,
+  status,
+  calendar_block_id,
+  decided_by,
+  decided_at,
+  decision_note,
+  created_at,
+  updated_at
+`;
+
+const PROPOSAL_COLUMNS = `
+  id,
+  leave_request_id,
+  session_id,
+  student_id,
+  original_trainer_id,
+  to_char(session_date, 'YYYY-MM-DD') AS session_date,
+  time_slot,
+  candidates,
+  proposed_substitute_id,
+  unavailable_reason,
+  status,
+  substitution_id,
+  resolved_by,
+  resolved_at,
+  created_at
+`;
+
+function mapLeaveRow(row: any): TrainerLeaveRequest {
+  return {
+    id: row.id,
+    trainerId: row.trainer_id,
+    leaveType: row.leave_type,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    days: Number(row.days),
+    reason: row.reason ?? null,
+    status: row.status,
+    calendarBlockId: row.calendar_block_id ?? null,
+    decidedBy: row.decided_by ?? null,
+    decidedAt: row.decided_at ? new Date(row.decided_at) : null,
+    decisionNote: row.decision_note ?? null,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+  };
+}
+
+function mapProposalRow(row: any): SubstitutionProposal {
+  return {
+    id: row.id,
+    leaveRequestId: row.leave_request_id,
+    sessionId: row.session_id,
+    studentId: row.student_id,
+    originalTrainerId: row.original_trainer_id,
+    sessionDate: row.session_date,
+    timeSlot: row.time_slot,
+    candidates: Array.isArray(row.candidates) ? row.candidates : [],
+    proposedSubstituteId: row.proposed_substitute_id ?? null,
+    unavailableReason: row.unavailable_reason ?? null,
+    status: row.status,
+    substitutionId: row.substitution_id ?? null,
+    resolvedBy: row.resolved_by ?? null,
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null,
+    createdAt: new Date(row.created_at),
+  };
+}
+
+export async function ensureTrainerLeaveTables(pool: Pool): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS trainer_leave_requests (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      trainer_id UUID NOT NULL REFERENCES trainers(id) ON DELETE CASCADE,
+      leave_type TEXT NOT NULL CHECK (leave_type IN ('casual', 'sick', 'earned', 'unpaid')),
+      start_date DATE NOT NULL,
+      end_date DATE NOT NULL,
+      days INT NOT NULL CHECK (days > 0),
+      reason TEXT,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+      calendar_block_id UUID,
+      decided_by UUID,
+      decided_at TIMESTAMPTZ,
+      decision_note TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      CHECK (end_date >= start_date)
+    );
+  `);
+
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_trainer_leave_requests_trainer
+    ON trainer_leave_requests(trainer_id, start_date);
+  `);
+
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_trainer_leave_requests_status
+    ON trainer_leave_requests(status, start_date);
+  `);
+
+  // Per-trainer overrides of DEFAULT_LEAVE_ENTITLEMENTS
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS trainer_leave_entitlements (
+      trainer_id UUID NOT NULL REFERENCES trainers(id) ON DELETE CASCADE,
+      year INT NOT NULL,
+      leave_type TEXT NOT NULL CHECK (leave_type IN ('casual', 'sick', 'earned')),
+      entitled_days INT NOT NULL CHECK (entitled_days >= 0),
+      updated_by UUID,
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (trainer_id, year, leave_type)
+    );
+  `);
+
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS trainer_substitution_proposals (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      leave_request_id UUID NOT NULL REFERENCES trainer_leave_requests(id) ON DELETE CASCADE,
+      session_id UUID NOT NULL,
+      student_id UUID NOT NULL,
+      original_trainer_id UUID NOT NULL,
+      session_date DATE NOT NULL,
+      time_slot VARCHAR(20) NOT NULL,
+      candidates JSONB NOT NULL DEFAULT '[]'::jsonb,
+      proposed_substitute_id UUID,
+      unavailable_reason TEXT,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'dismissed')),
+      substitution_id UUID,
+      resolved_by UUID,
+      resolved_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      UNIQUE (leave_request_id, session_id)
+    );
+  `);
+
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_trainer_substitution_proposals_status
+    ON trainer_substitution_proposals(status, session_date);
+  `);
+}
+
+export class TrainerLeaveRepository {
+  constructor(private readonly pool: Pool) {}
+
+  async create(input: CreateLeaveRequestInput, client?: PoolClient): Promise<TrainerLeaveRequest> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+
+    const result = await queryFn(
+      `
+        INSERT INTO trainer_leave_requests (trainer_id, leave_type, start_date, end_date, days, reason)
+        VALUES ($1, $2, $3, $4, $5, $6)
+        RETURNING ${LEAVE_COLUMNS}
+      `,
+      [input.trainerId, input.leaveType, input.startDate, input.endDate, input.days, input.reason ?? null]
+    );
+
+    return mapLeaveRow(result.rows[0]);
+  }
+
+  async findById(id: string, client?: PoolClient, forUpdate = false): Promise<TrainerLeaveRequest | null> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+
+    const result = await queryFn(
+      `SELECT ${LEAVE_COLUMNS} FROM trainer_leave_requests WHERE id = $1${forUpdate ? ' FOR UPDATE' : ''}`,
+      [id]
+    );
+
+    return result.rows[0] ? mapLeaveRow(result.rows[0]) : null;
+  }
+
+  async findAll(filters?: {
+    trainerId?: string;
+    status?: LeaveStatus;
+    from?: string;
+    to?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<TrainerLeaveRequest[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters?.trainerId) {
+      params.push(filters.trainerId);
+      conditions.push(`trainer_id = $${params.length}`);
+    }
+    if (filters?.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (filters?.from) {
+      params.push(filters.from);
+      conditions.push(`end_date >= $${params.length}`);
+    }
+    if (filters?.to) {
+      params.push(filters.to);
+      conditions.push(`start_date <= $${params.length}`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    params.push(filters?.limit || 50, filters?.offset || 0);
+
+    const result = await this.pool.query(
+      `
+        SELECT ${LEAVE_COLUMNS}
+        FROM trainer_leave_requests
+        ${whereClause}
+        ORDER BY start_date DESC, created_at DESC
+        LIMIT $${params.length - 1} OFFSET $${params.length}
+      `,
+      params
+    );
+
+    return result.rows.map(mapLeaveRow);
+  }
+
+  /**
+   * Pending or approved leave of the trainer overlapping the given range
+   */
+  async findOverlapping(
+    trainerId: string,
+    startDate: string,
+    endDate: string,
+    client?: PoolClient
+  ): Promise<TrainerLeaveRequest[]> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+
+    const result = await queryFn(
+      `
+        SELECT ${LEAVE_COLUMNS}
+        FROM trainer_leave_requests
+        WHERE trainer_id = $1
+          AND status IN ('pending', 'approved')
+          AND start_date <= $3
+          AND end_date >= $2
+        ORDER BY start_date ASC
+      `,
+      [trainerId, startDate, endDate]
+    );
+
+    return result.rows.map(mapLeaveRow);
+  }
+
+  /**
+   * Approved leave overlapping the range (used by payroll)
+   */
+  async findApprovedInRange(trainerId: string, startDate: Date, endDate: Date): Promise<TrainerLeaveRequest[]> {
+    const result = await this.pool.query(
+      `
+        SELECT ${LEAVE_COLUMNS}
+        FROM trainer_leave_requests
+        WHERE trainer_id = $1
+          AND status = 'approved'
+          AND start_date <= $3
+          AND end_date >= $2
+        ORDER BY start_date ASC
+      `,
+      [trainerId, startDate, endDate]
+    );
+
+    return result.rows.map(mapLeaveRow);
+  }
+
+  async updateStatus(
+    id: string,
+    status: LeaveStatus,
+    decision: { decidedBy?: string | null; decisionNote?: string | null; calendarBlockId?: string | null },
+    client?: PoolClient
+  ): Promise<TrainerLeaveRequest> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+
+    const result = await queryFn(
+      `
+        UPDATE trainer_leave_requests
+        SET status = $2,
+            decided_by = COALESCE($3, decided_by),
+            decided_at = CASE WHEN $3::uuid IS NULL THEN decided_at ELSE NOW() END,
+            decision_note = COALESCE($4, decision_note),
+            calendar_block_id = COALESCE($5, calendar_block_id),
+            updated_at = NOW()
+        WHERE id = $1
+        RETURNING ${LEAVE_COLUMNS}
+      `,
+      [id, status, decision.decidedBy ?? null, decision.decisionNote ?? null, decision.calendarBlockId ?? null]
+    );
+
+    return mapLeaveRow(result.rows[0]);
+  }
+
+  /**
+   * Balances for a calendar year. Leave counts against the year it starts in.
+   */
+  async getBalances(trainerId: string, year: number, client?: PoolClient): Promise<TrainerLeaveBalance[]> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+
+    const [entitlements, taken] = await Promise.all([
+      queryFn(
+        `SELECT leave_type, entitled_days FROM trainer_leave_entitlements WHERE trainer_id = $1 AND year = $2`,
+        [trainerId, year]
+      ),
+      queryFn(
+        `
+          SELECT leave_type,
+            COALESCE(SUM(days) FILTER (WHERE status = 'approved'), 0)::int AS used_days,
+            COALESCE(SUM(days) FILTER (WHERE status = 'pending'), 0)::int AS pending_days
+          FROM trainer_leave_requests
+          WHERE trainer_id = $1
+            AND EXTRACT(YEAR FROM start_date) = $2
+            AND status IN ('approved', 'pending')
+          GROUP BY leave_type
+        `,
+        [trainerId, year]
+      ),
+    ]);
+
+    const entitledByType = new Map<string, number>(
+      entitlements.rows.map((row: any) => [row.leave_type, Number(row.entitled_days)])
+    );
+    const takenByType = new Map<string, { used: number; pending: number }>(
+      taken.rows.map((row: any) => [row.leave_type, { used: Number(row.used_days), pending: Number(row.pending_days) }])
+    );
+
+    return (Object.keys(DEFAULT_LEAVE_ENTITLEMENTS) as Array<Exclude<LeaveType, 'unpaid'>>).map((leaveType) => {
+      const entitledDays = entitledByType.get(leaveType) ?? DEFAULT_LEAVE_ENTITLEMENTS[leaveType];
+      const { used, pending } = takenByType.get(leaveType) ?? { used: 0, pending: 0 };
+      return {
+        leaveType,
+        year,
+        entitledDays,
+        usedDays: used,
+        pendingDays: pending,
+        availableDays: Math.max(0, entitledDays - used - pending),
+      };
+    });
+  }
+
+  async upsertEntitlement(
+    trainerId: string,
+    year: number,
+    leaveType: Exclude<LeaveType, 'unpaid'>,
+    entitledDays: number,
+    updatedBy: string | null
+  ): Promise<void> {
+    await this.pool.query(
+      `
+        INSERT INTO trainer_leave_entitlements (trainer_id, year, leave_type, entitled_days, updated_by, updated_at)
+        VALUES ($1, $2, $3, $4, $5, NOW())
+        ON CONFLICT (trainer_id, year, leave_type)
+        DO UPDATE SET
+          entitled_days = EXCLUDED.entitled_days,
+          updated_by = EXCLUDED.updated_by,
+          updated_at = NOW()
+      `,
+      [trainerId, year, leaveType, entitledDays, updatedBy]
+    );
+  }
+}
+
+export class SubstitutionProposalRepository {
+  constructor(private readonly pool: Pool) {}
+
+  /**
+   * Returns null when the session already has a proposal for this leave
+   */
+  async create(input: CreateSubstitutionProposalInput, client?: PoolClient): Promise<SubstitutionProposal | null> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+
+    const result = await queryFn(
+      `
+        INSERT INTO trainer_substitution_proposals (
+          leave_request_id, session_id, student_id, original_trainer_id, session_date,
+          time_slot, candidates, proposed_substitute_id, unavailable_reason
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7::jsonb, $8, $9)
+        ON CONFLICT (leave_request_id, session_id) DO NOTHING
+        RETURNING ${PROPOSAL_COLUMNS}
+      `,
+      [
+        input.leaveRequestId,
+        input.sessionId,
+        input.studentId,
+        input.originalTrainerId,
+        input.sessionDate,
+        input.timeSlot,
+        JSON.stringify(input.candidates),
+        input.candidates[0]?.trainerId ?? null,
+        input.unavailableReason ?? null,
+      ]
+    );
+
+    return result.rows[0] ? mapProposalRow(result.rows[0]) : null;
+  }
+
+  async findById(id: string, client?: PoolClient, forUpdate = false): Promise<SubstitutionProposal | null> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+
+    const result = await queryFn(
+      `SELECT ${PROPOSAL_COLUMNS} FROM trainer_substitution_proposals WHERE id = $1${forUpdate ? ' FOR UPDATE' : ''}`,
+      [id]
+    );
+
+    return result.rows[0] ? mapProposalRow(result.rows[0]) : null;
+  }
+
+  async findAll(filters?: {
+    status?: SubstitutionProposalStatus;
+    leaveRequestId?: string;
+    trainerId?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<SubstitutionProposal[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filters?.status) {
+      params.push(filters.status);
+      conditions.push(`status = $${params.length}`);
+    }
+    if (filters?.leaveRequestId) {
+      params.push(filters.leaveRequestId);
+      conditions.push(`leave_request_id = $${params.length}`);
+    }
+    if (filters?.trainerId) {
+      params.push(filters.trainerId);
+      conditions.push(`original_trainer_id = $${params.length}`);
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    params.push(filters?.limit || 50, filters?.offset || 0);
+
+    const result = await this.pool.query(
+      `
+        SELECT ${PROPOSAL_COLUMNS}
+        FROM trainer_substitution_proposals
+        ${whereClause}
+        ORDER BY session_date ASC, created_at ASC
+        LIMIT $${params.length - 1} OFFSET $${params.length}
+      `,
+      params
+    );
+
+    return result.rows.map(mapProposalRow);
+  }
+
+  async resolve(
+    id: string,
+    status: Exclude<SubstitutionProposalStatus, 'pending'>,
+    resolvedBy: string | null,
+    substitution: { substituteTrainerId: string; substitutionId: string } | null,
+    client?: PoolClient
+  ): Promise<SubstitutionProposal | null> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+
+    const result = await queryFn(
+      `
+        UPDATE trainer_substitution_proposals
+        SET status = $2,
+            resolved_by = $3,
+            resolved_at = NOW(),
+            proposed_substitute_id = COALESCE($4, proposed_substitute_id),
+            substitution_id = $5
+        WHERE id = $1 AND status = 'pending'
+        RETURNING ${PROPOSAL_COLUMNS}
+      `,
+      [id, status, resolvedBy, substitution?.substituteTrainerId ?? null, substitution?.substitutionId ?? null]
+    );
+
+    return result.rows[0] ? mapProposalRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Dismiss open proposals when their leave is cancelled
+   */
+  async dismissPendingForLeave(leaveRequestId: string, client?: PoolClient): Promise<number> {
+    const queryFn = client ? client.query.bind(client) : this.pool.query.bind(this.pool);
+
+    const result = await queryFn(
+      `
+        UPDATE trainer_substitution_proposals
+        SET status = 'dismissed', resolved_at = NOW()
+        WHERE leave_request_id = $1 AND status = 'pending'
+      `,
+      [leaveRequestId]
+    );
+
+    return result.rowCount ?? 0;
+  }
+}
@@ -1,8 +1,9 @@
 import { Router } from 'express';
 import type { PayrollController } from '../controllers/payroll.controller';
-import { requireAuth } from '../middlewares/authMiddleware';
+import type { PayrollRunController } from '../controllers/payrollRun.controller';
+import { requireAuth, requireAdminAuth } from '../middlewares/authMiddleware';
 
-export function createPayrollRoutes(controller: PayrollController): Router {
+export function createPayrollRoutes(controller: PayrollController, runController: PayrollRunController): Router {
   const router = Router();
 
   // Legacy endpoint (sessions-based payroll)
@@ -13,6 +14,23 @@ export function createPayrollRoutes(controller: PayrollController): Router {
   router.get('/history', requireAuth, controller.getPayrollHistory);
   router.get('/active-students', requireAuth, controller.getActiveStudentCount);
 
+  // Trainer payslips
+  router.get('/payslips', requireAuth, runController.getMyPayslips);
+  router.get('/payslips/:payoutId/pdf', requireAuth, runController.downloadMyPayslip);
+
+  // Admin: monthly payroll runs, payout approval and adjustments
+  router.get('/admin/runs', requireAdminAuth, runController.listRuns);
+  router.post('/admin/runs', requireAdminAuth, runController.lockPeriod);
+  router.get('/admin/runs/:runId', requireAdminAuth, runController.getRun);
+  router.post('/admin/runs/:runId/approve', requireAdminAuth, runController.approveRun);
+  router.get('/admin/runs/:runId/neft-export', requireAdminAuth, runController.exportNeft);
+  router.post('/admin/payouts/:payoutId/approve', requireAdminAuth, runController.approvePayout);
+  router.post('/admin/payouts/:payoutId/mark-paid', requireAdminAuth, runController.markPaid);
+  router.post('/admin/payouts/:payoutId/mark-failed', requireAdminAuth, runController.markFailed);
+  router.get('/admin/payouts/:payoutId/payslip.pdf', requireAdminAuth, runController.downloadPayslip);
+  router.get('/admin/adjustments', requireAdminAuth, runController.listAdjustments);
+  router.post('/admin/adjustments', requireAdminAuth, runController.addAdjustment);
+  router.delete('/admin/adjustments/:id', requireAdminAuth, runController.removeAdjustment);
+
   return router;
 }
-
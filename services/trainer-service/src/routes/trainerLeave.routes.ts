@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import type { TrainerLeaveController } from '../controllers/trainerLeave.controller';
+import { requireAuth, requireAdminAuth } from '../middlewares/authMiddleware';
+
+export function createTrainerLeaveRoutes(controller: TrainerLeaveController): Router {
+  const router = Router();
+
+  // Admin: leave decisions, balances and substitution proposals
+  router.get('/admin/requests', requireAdminAuth, controller.listLeaveRequests);
+  router.post('/admin/requests/:id/approve', requireAdminAuth, controller.approveLeave);
+  router.post('/admin/requests/:id/reject', requireAdminAuth, controller.rejectLeave);
+  router.post('/admin/requests/:id/propose-substitutes', requireAdminAuth, controller.proposeSubstitutes);
+  router.get('/admin/balances/:trainerId', requireAdminAuth, controller.getTrainerBalance);
+  router.put('/admin/balances/:trainerId', requireAdminAuth, controller.setEntitlement);
+  router.get('/admin/substitution-proposals', requireAdminAuth, controller.listProposals);
+  router.post('/admin/substitution-proposals/:id/approve', requireAdminAuth, controller.approveProposal);
+  router.post('/admin/substitution-proposals/:id/dismiss', requireAdminAuth, controller.dismissProposal);
+
+  // Trainer: own leave
+  router.get('/', requireAuth, controller.getMyLeaveRequests);
+  router.post('/', requireAuth, controller.applyForLeave);
+  router.get('/balance', requireAuth, controller.getMyBalance);
+  router.post('/:id/cancel', requireAuth, controller.cancelLeave);
+
+  return router;
+}
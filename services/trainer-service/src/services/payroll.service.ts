@@ -1,5 +1,12 @@
 import type { Pool } from 'pg';
+import { AppError } from '@kodingcaravan/shared';
 import { TrainerStudentAllocationRepository } from '../models/trainerStudentAllocation.model';
+import {
+  TrainerLeaveRepository,
+  type LeaveType,
+  type TrainerLeaveBalance,
+  type TrainerLeaveRequest,
+} from '../models/trainerLeave.model';
 
 export interface PayrollConfig {
   sessionsPerDay: number;
@@ -14,6 +21,7 @@ export interface TrainerPayrollInfo {
   baseSalary: number;
   travelAllowance: number;
   bankDetailsProvided: boolean;
+  leaveBalances: TrainerLeaveBalance[];
 }
 
 export interface MonthlyPayrollCalculation {
@@ -31,11 +39,17 @@ export interface MonthlyPayrollCalculation {
       days: number;
       dailyBase: number;
       rangeBaseSalary: number;
+      unpaidLeaveDays?: number;
     }>;
     allowance: {
       dailyRatePerStudent: number;
       totalAllowance: number;
     };
+    leave?: {
+      paidLeaveDays: number;
+      unpaidLeaveDays: number;
+      baseSalaryDeduction: number;
+    };
   };
 }
 
@@ -50,9 +64,11 @@ export interface PayrollRange {
 
 export class PayrollService {
   private readonly allocationRepo: TrainerStudentAllocationRepository;
+  private readonly leaveRepo: TrainerLeaveRepository;
 
   constructor(private readonly pool: Pool) {
     this.allocationRepo = new TrainerStudentAllocationRepository(pool);
+    this.leaveRepo = new TrainerLeaveRepository(pool);
   }
 
   /**
@@ -145,12 +161,15 @@ export class PayrollService {
       return null;
     }
 
+    const leaveBalances = await this.leaveRepo.getBalances(trainerId, new Date().getFullYear());
+
     return {
       sessionsPerDay,
       monthlySalary: config.totalMonthlyCompensation,
       baseSalary: config.baseSalary,
       travelAllowance: config.travelAllowancePerDay * 30,
       bankDetailsProvided,
+      leaveBalances,
     };
   }
 
@@ -193,10 +212,35 @@ export class PayrollService {
     return dayOfWeek >= 1 && dayOfWeek <= 6;
   }
 
+  /**
+   * Approved leave days in the month (working days only), keyed like the allowance day keys
+   */
+  private expandLeaveDays(
+    leaves: TrainerLeaveRequest[],
+    monthStart: Date,
+    monthEnd: Date
+  ): Map<string, LeaveType> {
+    const days = new Map<string, LeaveType>();
+    for (const leave of leaves) {
+      const [startYear, startMonth, startDay] = leave.startDate.split('-').map(Number);
+      const [endYear, endMonth, endDay] = leave.endDate.split('-').map(Number);
+      const current = new Date(startYear, startMonth - 1, startDay);
+      const end = new Date(endYear, endMonth - 1, endDay);
+      while (current <= end) {
+        if (current >= monthStart && current <= monthEnd && this.isWorkingDay(current)) {
+          days.set(current.toISOString().split('T')[0], leave.leaveType);
+        }
+        current.setDate(current.getDate() + 1);
+      }
+    }
+    return days;
+  }
+
   /**
    * Calculate monthly payroll for a trainer based on student allocations
    * Uses working days only (Mon-Sat, excludes Sundays)
    * Handles session substitutions for allowance adjustments
+   * Unpaid leave is deducted from base salary; no allowance is earned on any leave day
    */
   async calculateMonthlyPayroll(
     trainerId: string,
@@ -244,13 +288,32 @@ export class PayrollService {
       ranges.push(currentRange);
     }
 
+    // Approved leave in the month; paid leave comes out of the trainer's balance instead
+    const leaves = await this.leaveRepo.findApprovedInRange(trainerId, monthStart, monthEnd);
+    const leaveDays = this.expandLeaveDays(leaves, monthStart, monthEnd);
+    const unpaidLeaveDayCount = [...leaveDays.values()].filter((type) => type === 'unpaid').length;
+    let baseSalaryDeduction = 0;
+
     // Calculate base salary for each range (per working day)
     let totalBaseSalary = 0;
     const baseSalaryRanges = ranges.map((range) => {
       const monthlyBase = this.getBaseSalarySlab(range.studentCount);
       const dailyBase = monthlyBase / workingDays; // Divide by working days, not calendar days
-      const rangeBaseSalary = dailyBase * range.days;
+
+      let unpaidLeaveDays = 0;
+      if (unpaidLeaveDayCount > 0) {
+        const current = new Date(range.startDate);
+        while (current <= range.endDate) {
+          if (leaveDays.get(current.toISOString().split('T')[0]) === 'unpaid') {
+            unpaidLeaveDays++;
+          }
+          current.setDate(current.getDate() + 1);
+        }
+      }
+
+      const rangeBaseSalary = dailyBase * (range.days - unpaidLeaveDays);
       totalBaseSalary += rangeBaseSalary;
+      baseSalaryDeduction += dailyBase * unpaidLeaveDays;
 
       return {
         startDate: range.startDate.toISOString().split('T')[0],
@@ -259,6 +322,7 @@ export class PayrollService {
         days: range.days,
         dailyBase: Math.round(dailyBase * 100) / 100,
         rangeBaseSalary: Math.round(rangeBaseSalary * 100) / 100,
+        ...(unpaidLeaveDays > 0 && { unpaidLeaveDays }),
       };
     });
 
@@ -316,8 +380,9 @@ export class PayrollService {
         const current = new Date(overlapStart);
         while (current <= overlapEnd) {
           if (this.isWorkingDay(current)) {
-            const dayKey = `${current.toISOString().split('T')[0]}-${allocation.studentId}`;
-            if (!substitutedDays.has(dayKey)) {
+            const dateKey = current.toISOString().split('T')[0];
+            const dayKey = `${dateKey}-${allocation.studentId}`;
+            if (!substitutedDays.has(dayKey) && !leaveDays.has(dateKey)) {
               totalAllowance += dailyAllowancePerStudent;
             }
           }
@@ -346,6 +411,11 @@ export class PayrollService {
           dailyRatePerStudent: dailyAllowancePerStudent,
           totalAllowance: Math.round(totalAllowance * 100) / 100,
         },
+        leave: {
+          paidLeaveDays: leaveDays.size - unpaidLeaveDayCount,
+          unpaidLeaveDays: unpaidLeaveDayCount,
+          baseSalaryDeduction: Math.round(baseSalaryDeduction * 100) / 100,
+        },
       },
     };
   }
@@ -402,6 +472,15 @@ export class PayrollService {
   ): Promise<string> {
     const monthStart = new Date(calculation.calculationDetails.monthStart);
 
+    // A locked month's payouts are snapshotted; recalculating would silently diverge from them
+    const locked = await this.pool.query(
+      `SELECT 1 FROM payroll_runs WHERE period_month = $1::date`,
+      [calculation.calculationDetails.monthStart]
+    );
+    if (locked.rows.length > 0) {
+      throw new AppError('Payroll for this month is locked', 409);
+    }
+
     const result = await this.pool.query(
       `
         INSERT INTO trainer_payroll_calculations (
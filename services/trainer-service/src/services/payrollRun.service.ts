@@ -0,0 +1,517 @@
+import { randomUUID } from 'crypto';
+import type { Pool } from 'pg';
+import { AppError } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import { notificationClient } from '@kodingcaravan/shared/utils/notificationClient';
+import {
+  PayrollRunRepository,
+  TrainerPayoutRepository,
+  PayrollAdjustmentRepository,
+  type AdjustmentCategory,
+  type AdjustmentKind,
+  type BankSnapshot,
+  type PayrollAdjustment,
+  type PayrollRun,
+  type TrainerPayout,
+} from '../models/payrollRun.model';
+import { TrainerBankDetailsRepository } from '../models/trainerBankDetails.model';
+import { buildNeftExport, DEBIT_ACCOUNT_FORMATS, type NeftExportFormat, type NeftPayoutRow } from '../utils/neftExport';
+import { formatPayPeriod, renderPayslipPdf } from '../utils/payslipPdf';
+import type { MonthlyPayrollCalculation, PayrollService } from './payroll.service';
+
+export interface AddAdjustmentInput {
+  trainerId: string;
+  /** YYYY-MM */
+  month: string;
+  kind: AdjustmentKind;
+  category: AdjustmentCategory;
+  amount: number;
+  description?: string | null;
+}
+
+export interface BulkApproveResult {
+  approved: number;
+  skipped: Array<{ payoutId: string; trainerId: string; reason: string }>;
+}
+
+const PAYOUT_STATUS_CHANGED = 'Payout status changed in the meantime; reload and try again';
+
+/**
+ * Convert YYYY-MM to the first-of-month key used by payroll tables
+ */
+function toPeriodMonth(month: string): string {
+  return `${month}-01`;
+}
+
+function monthKeyOf(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Monthly payroll runs: locking a period snapshots each trainer's calculation into a draft payout,
+ * which then moves through approved -> paid (or failed -> approved again for a retry)
+ */
+export class PayrollRunService {
+  private readonly runRepo: PayrollRunRepository;
+  private readonly payoutRepo: TrainerPayoutRepository;
+  private readonly adjustmentRepo: PayrollAdjustmentRepository;
+  private readonly bankRepo: TrainerBankDetailsRepository;
+
+  constructor(
+    private readonly pool: Pool,
+    private readonly payrollService: PayrollService
+  ) {
+    this.runRepo = new PayrollRunRepository(pool);
+    this.payoutRepo = new TrainerPayoutRepository(pool);
+    this.adjustmentRepo = new PayrollAdjustmentRepository(pool);
+    this.bankRepo = new TrainerBankDetailsRepository(pool);
+  }
+
+  /**
+   * Lock a finished month: recalculate every trainer with activity in it, then snapshot the
+   * results as draft payouts together with any adjustments recorded for the month
+   */
+  async lockPeriod(month: string, adminId: string, notes?: string | null): Promise<PayrollRun> {
+    const periodMonth = toPeriodMonth(month);
+    const [year, monthIndex] = month.split('-').map(Number);
+    const monthStart = new Date(year, monthIndex - 1, 1);
+
+    if (month >= monthKeyOf(new Date())) {
+      throw new AppError('Only months that have ended can be locked', 400);
+    }
+    if (await this.runRepo.findByMonth(periodMonth)) {
+      throw new AppError(`Payroll for ${formatPayPeriod(periodMonth)} is already locked`, 409);
+    }
+
+    const trainerIds = await this.findTrainersWithActivity(periodMonth);
+
+    // Calculations run outside the transaction; they are saved (and emit their events) individually
+    const calculations: Array<{ trainerId: string; calculation: MonthlyPayrollCalculation; calculationId: string }> = [];
+    for (const trainerId of trainerIds) {
+      const calculation = await this.payrollService.calculateMonthlyPayroll(trainerId, monthStart);
+      const calculationId = await this.payrollService.savePayrollCalculation(trainerId, calculation);
+      calculations.push({ trainerId, calculation, calculationId });
+    }
+
+    const names = await this.getTrainerNames(trainerIds);
+
+    const client = await this.pool.connect();
+    let runId: string;
+    try {
+      await client.query('BEGIN');
+
+      const run = await this.runRepo.create(periodMonth, adminId, notes ?? null, client);
+      runId = run.id;
+
+      let sequence = 0;
+      for (const { trainerId, calculation, calculationId } of calculations) {
+        sequence += 1;
+        const bank = await this.getBankSnapshot(trainerId);
+        const payout = await this.payoutRepo.create(
+          {
+            runId: run.id,
+            periodMonth,
+            trainerId,
+            trainerName: names.get(trainerId) ?? null,
+            calculationId,
+            payslipNumber: `PS-${month.replace('-', '')}-${String(sequence).padStart(4, '0')}`,
+            grossAmount: calculation.totalPayout,
+            calculationDetails: {
+              ...calculation.calculationDetails,
+              baseSalaryAmount: calculation.baseSalaryAmount,
+              allowanceAmount: calculation.allowanceAmount,
+            },
+            bank,
+          },
+          client
+        );
+
+        const attached = await this.adjustmentRepo.attachUnappliedToPayout(trainerId, periodMonth, payout.id, client);
+        if (attached > 0) {
+          await this.payoutRepo.recalculateNet(payout.id, client);
+        }
+      }
+
+      await client.query('COMMIT');
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+      if (error?.code === '23505') {
+        throw new AppError(`Payroll for ${formatPayPeriod(periodMonth)} is already locked`, 409);
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info('Payroll period locked', {
+      periodMonth,
+      runId,
+      payouts: calculations.length,
+      lockedBy: adminId,
+      service: 'trainer-service',
+    });
+
+    return (await this.runRepo.findById(runId))!;
+  }
+
+  async listRuns(limit?: number, offset?: number): Promise<PayrollRun[]> {
+    return this.runRepo.findAll(limit, offset);
+  }
+
+  async getRun(runId: string): Promise<{ run: PayrollRun; payouts: TrainerPayout[] }> {
+    const run = await this.runRepo.findById(runId);
+    if (!run) {
+      throw new AppError('Payroll run not found', 404);
+    }
+    const payouts = await this.payoutRepo.findByRun(runId);
+    return { run, payouts };
+  }
+
+  /**
+   * Record an addition or deduction. Before the month is locked it waits in the ledger; after,
+   * it is applied straight to the trainer's draft (or failed) payout.
+   */
+  async addAdjustment(input: AddAdjustmentInput, adminId: string): Promise<PayrollAdjustment> {
+    const periodMonth = toPeriodMonth(input.month);
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const payout = await this.payoutRepo.findByTrainerAndMonth(input.trainerId, periodMonth, client);
+      if (payout && payout.status !== 'draft' && payout.status !== 'failed') {
+        throw new AppError(`Cannot adjust a payout with status: ${payout.status}`, 409);
+      }
+
+      const adjustment = await this.adjustmentRepo.create(
+        {
+          trainerId: input.trainerId,
+          periodMonth,
+          kind: input.kind,
+          category: input.category,
+          amount: input.amount,
+          description: input.description ?? null,
+          payoutId: payout?.id ?? null,
+          createdBy: adminId,
+        },
+        client
+      );
+
+      if (payout) {
+        await this.payoutRepo.recalculateNet(payout.id, client);
+      }
+
+      await client.query('COMMIT');
+      return adjustment;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async removeAdjustment(adjustmentId: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const adjustment = await this.adjustmentRepo.findById(adjustmentId, client);
+      if (!adjustment) {
+        throw new AppError('Adjustment not found', 404);
+      }
+
+      if (adjustment.payoutId) {
+        const payout = await this.payoutRepo.findById(adjustment.payoutId, client, true);
+        if (payout && payout.status !== 'draft' && payout.status !== 'failed') {
+          throw new AppError(`Cannot adjust a payout with status: ${payout.status}`, 409);
+        }
+      }
+
+      await this.adjustmentRepo.delete(adjustmentId, client);
+      if (adjustment.payoutId) {
+        await this.payoutRepo.recalculateNet(adjustment.payoutId, client);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async listAdjustments(filters: { trainerId?: string; month?: string; payoutId?: string }): Promise<PayrollAdjustment[]> {
+    return this.adjustmentRepo.findAll({
+      trainerId: filters.trainerId,
+      periodMonth: filters.month ? toPeriodMonth(filters.month) : undefined,
+      payoutId: filters.payoutId,
+    });
+  }
+
+  /**
+   * Approve a draft payout, or re-approve a failed one after the bank details were fixed.
+   * The bank snapshot is refreshed so the NEFT file uses the details current at approval.
+   */
+  async approvePayout(payoutId: string, adminId: string): Promise<TrainerPayout> {
+    const payout = await this.payoutRepo.findById(payoutId);
+    if (!payout) {
+      throw new AppError('Payout not found', 404);
+    }
+    if (payout.status !== 'draft' && payout.status !== 'failed') {
+      throw new AppError(`Cannot approve payout with status: ${payout.status}`, 400);
+    }
+
+    const bank = await this.getBankSnapshot(payout.trainerId);
+    if (!bank) {
+      throw new AppError('Trainer has not provided bank details', 400);
+    }
+
+    const approved = await this.payoutRepo.updateStatus(payoutId, 'approved', ['draft', 'failed'], { adminId, bank });
+    if (!approved) {
+      throw new AppError(PAYOUT_STATUS_CHANGED, 409);
+    }
+    await this.updateCalculationStatus(approved, 'approved', adminId);
+    return approved;
+  }
+
+  /**
+   * Approve every draft payout in a run; payouts without bank details are reported back
+   */
+  async approveRun(runId: string, adminId: string): Promise<BulkApproveResult> {
+    const drafts = await this.payoutRepo.findByRun(runId, 'draft');
+    const result: BulkApproveResult = { approved: 0, skipped: [] };
+
+    for (const payout of drafts) {
+      try {
+        await this.approvePayout(payout.id, adminId);
+        result.approved += 1;
+      } catch (error: any) {
+        result.skipped.push({ payoutId: payout.id, trainerId: payout.trainerId, reason: error?.message || String(error) });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Record the bank's confirmation (UTR) for a transferred payout
+   */
+  async markPaid(payoutId: string, adminId: string, paymentReference: string): Promise<TrainerPayout> {
+    const payout = await this.payoutRepo.findById(payoutId);
+    if (!payout) {
+      throw new AppError('Payout not found', 404);
+    }
+    if (payout.status !== 'approved') {
+      throw new AppError(`Cannot mark payout with status ${payout.status} as paid`, 400);
+    }
+
+    const paid = await this.payoutRepo.updateStatus(payoutId, 'paid', ['approved'], { paymentReference });
+    if (!paid) {
+      throw new AppError(PAYOUT_STATUS_CHANGED, 409);
+    }
+    await this.updateCalculationStatus(paid, 'paid', adminId);
+
+    await notificationClient.createNotification({
+      userId: paid.trainerId,
+      title: 'Salary Credited',
+      message: `Your salary of Rs. ${paid.netAmount.toFixed(2)} for ${formatPayPeriod(paid.periodMonth)} has been transferred (ref ${paymentReference}). Your payslip is available in the app.`,
+      type: 'payment',
+    });
+
+    return paid;
+  }
+
+  /**
+   * Record a bounced or rejected transfer; the payout can be corrected and approved again
+   */
+  async markFailed(payoutId: string, failureReason: string): Promise<TrainerPayout> {
+    const payout = await this.payoutRepo.findById(payoutId);
+    if (!payout) {
+      throw new AppError('Payout not found', 404);
+    }
+    if (payout.status !== 'approved') {
+      throw new AppError(`Cannot mark payout with status ${payout.status} as failed`, 400);
+    }
+
+    const failed = await this.payoutRepo.updateStatus(payoutId, 'failed', ['approved'], { failureReason });
+    if (!failed) {
+      throw new AppError(PAYOUT_STATUS_CHANGED, 409);
+    }
+    return failed;
+  }
+
+  /**
+   * Bank bulk-upload file for the run's approved payouts.
+   * Each export is recorded as a batch on its payouts; payouts already exported are left out
+   * unless reexport is set, so the same salaries are not uploaded to the bank twice.
+   */
+  async exportNeft(
+    runId: string,
+    format: NeftExportFormat,
+    reexport = false
+  ): Promise<{ filename: string; content: string; payoutCount: number; batchId: string }> {
+    const run = await this.runRepo.findById(runId);
+    if (!run) {
+      throw new AppError('Payroll run not found', 404);
+    }
+
+    const debitAccountNumber = process.env.PAYROLL_DEBIT_ACCOUNT_NUMBER?.trim() || '';
+    if (!debitAccountNumber && DEBIT_ACCOUNT_FORMATS.includes(format)) {
+      throw new AppError(`PAYROLL_DEBIT_ACCOUNT_NUMBER must be set for ${format.toUpperCase()} exports`, 500);
+    }
+
+    const batchId = randomUUID();
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const payouts = await this.payoutRepo.markExported(runId, batchId, reexport, client);
+      if (payouts.length === 0) {
+        throw new AppError(
+          reexport
+            ? 'No approved payouts to export'
+            : 'No approved payouts left to export; pass reexport=true to export already exported payouts again',
+          409
+        );
+      }
+
+      const contacts = await this.getTrainerContacts(payouts.map(payout => payout.trainerId));
+      const rows: NeftPayoutRow[] = payouts.map(payout => ({
+        payoutId: payout.id,
+        payslipNumber: payout.payslipNumber,
+        beneficiaryName: payout.beneficiaryName!,
+        accountNumber: payout.accountNumber!,
+        ifscCode: payout.ifscCode!,
+        bankName: payout.bankName,
+        amount: payout.netAmount,
+        email: contacts.get(payout.trainerId)?.email ?? null,
+        phone: contacts.get(payout.trainerId)?.phone ?? null,
+      }));
+
+      const month = run.periodMonth.slice(0, 7);
+      const content = buildNeftExport(format, rows, {
+        debitAccountNumber,
+        valueDate: new Date().toISOString().split('T')[0],
+        narration: `SALARY ${formatPayPeriod(run.periodMonth).toUpperCase()}`,
+      });
+
+      await client.query('COMMIT');
+
+      logger.info('Payroll NEFT file exported', {
+        runId,
+        batchId,
+        format,
+        reexport,
+        payouts: rows.length,
+        service: 'trainer-service',
+      });
+
+      return {
+        filename: `payroll-${month}-${format}-${batchId.slice(0, 8)}.csv`,
+        content,
+        payoutCount: rows.length,
+        batchId,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async listTrainerPayslips(trainerId: string, limit?: number): Promise<TrainerPayout[]> {
+    return this.payoutRepo.findPayslipsForTrainer(trainerId, limit);
+  }
+
+  /**
+   * Payslip PDF. Trainers (trainerId set) only see their own approved, paid or failed payouts.
+   */
+  async getPayslipPdf(payoutId: string, trainerId: string | null): Promise<{ filename: string; pdf: Buffer }> {
+    const payout = await this.payoutRepo.findById(payoutId);
+    if (!payout || (trainerId && (payout.trainerId !== trainerId || payout.status === 'draft'))) {
+      throw new AppError('Payslip not found', 404);
+    }
+
+    const adjustments = await this.adjustmentRepo.findAll({ payoutId });
+    return {
+      filename: `${payout.payslipNumber}.pdf`,
+      pdf: renderPayslipPdf(payout, adjustments),
+    };
+  }
+
+  private async findTrainersWithActivity(periodMonth: string): Promise<string[]> {
+    const result = await this.pool.query<{ trainer_id: string }>(
+      `
+        SELECT trainer_id FROM trainer_student_allocations
+        WHERE start_date <= ($1::date + INTERVAL '1 month' - INTERVAL '1 day')
+          AND (end_date IS NULL OR end_date >= $1::date)
+        UNION
+        SELECT substitute_trainer_id FROM trainer_session_substitutions
+        WHERE session_date >= $1::date AND session_date < $1::date + INTERVAL '1 month'
+        UNION
+        SELECT trainer_id FROM payroll_adjustments
+        WHERE period_month = $1::date
+      `,
+      [periodMonth]
+    );
+    return result.rows.map(row => row.trainer_id);
+  }
+
+  private async getTrainerNames(trainerIds: string[]): Promise<Map<string, string>> {
+    if (trainerIds.length === 0) {
+      return new Map();
+    }
+    const result = await this.pool.query<{ trainer_id: string; full_name: string | null }>(
+      `SELECT trainer_id, full_name FROM trainer_profiles WHERE trainer_id = ANY($1::uuid[])`,
+      [trainerIds]
+    );
+    return new Map(
+      result.rows.filter(row => row.full_name).map(row => [row.trainer_id, row.full_name as string])
+    );
+  }
+
+  private async getTrainerContacts(trainerIds: string[]): Promise<Map<string, { email: string | null; phone: string | null }>> {
+    const result = await this.pool.query<{ id: string; email: string | null; phone: string | null }>(
+      `SELECT id, email, phone FROM trainers WHERE id = ANY($1::uuid[])`,
+      [trainerIds]
+    );
+    return new Map(result.rows.map(row => [row.id, { email: row.email, phone: row.phone }]));
+  }
+
+  private async getBankSnapshot(trainerId: string): Promise<BankSnapshot | null> {
+    const bankDetails = await this.bankRepo.findByTrainerId(trainerId);
+    if (!bankDetails) {
+      return null;
+    }
+    return {
+      beneficiaryName: bankDetails.accountHolderName,
+      accountNumber: bankDetails.accountNumber,
+      ifscCode: bankDetails.ifscCode,
+      bankName: bankDetails.bankName,
+    };
+  }
+
+  /**
+   * Keep the trainer_payroll_calculations snapshot in step with the payout
+   */
+  private async updateCalculationStatus(payout: TrainerPayout, status: 'approved' | 'paid', adminId: string): Promise<void> {
+    if (!payout.calculationId) {
+      return;
+    }
+    await this.pool.query(
+      `
+        UPDATE trainer_payroll_calculations
+        SET status = $2,
+            approved_by = CASE WHEN $2 = 'approved' THEN $3::uuid ELSE approved_by END,
+            approved_at = CASE WHEN $2 = 'approved' THEN NOW() ELSE approved_at END,
+            paid_at = CASE WHEN $2 = 'paid' THEN NOW() ELSE paid_at END,
+            payment_reference = COALESCE($4, payment_reference),
+            updated_at = NOW()
+        WHERE id = $1
+      `,
+      [payout.calculationId, status, adminId, payout.paymentReference]
+    );
+  }
+}
@@ -0,0 +1,593 @@
+import type { Pool } from 'pg';
+import { AppError } from '@kodingcaravan/shared';
+import logger from '@kodingcaravan/shared/config/logger';
+import { notificationClient } from '@kodingcaravan/shared/utils/notificationClient';
+import { toDateKey } from '@kodingcaravan/shared/utils/blackoutCalendar';
+import { emitInTransaction } from '@kodingcaravan/shared/events/outbox';
+import type { SessionSubstitutedEvent } from '@kodingcaravan/shared/events/types';
+import {
+  TrainerLeaveRepository,
+  SubstitutionProposalRepository,
+  type LeaveType,
+  type SubstituteCandidate,
+  type SubstitutionProposal,
+  type TrainerLeaveBalance,
+  type TrainerLeaveRequest,
+} from '../models/trainerLeave.model';
+import { TrainerSessionSubstitutionRepository } from '../models/trainerSessionSubstitution.model';
+import { fetchSubstituteCandidates } from '../utils/bookingServiceClient';
+
+/** Longest single leave request, in working days */
+const MAX_LEAVE_DAYS = 30;
+
+export interface ApplyLeaveInput {
+  leaveType: LeaveType;
+  startDate: string;
+  endDate: string;
+  reason?: string | null;
+}
+
+export interface SubstituteProposalResult {
+  sessionsAffected: number;
+  proposalsCreated: number;
+  /** Proposals created without a substitute (Sundays, no free trainer, booking-service down) */
+  withoutSubstitute: number;
+}
+
+type AffectedSessionRow = {
+  id: string;
+  allocation_id: string;
+  student_id: string;
+  course_id: string | null;
+  scheduled_date: string;
+  scheduled_time: string;
+  student_home_location: { latitude?: number; longitude?: number } | string | null;
+  session_type: string | null;
+};
+
+function parseDateKey(dateKey: string): Date {
+  return new Date(`${dateKey}T00:00:00`);
+}
+
+/**
+ * Working days (Mon-Sat) in an inclusive YYYY-MM-DD range
+ */
+export function countLeaveDays(startDate: string, endDate: string): number {
+  let count = 0;
+  const current = parseDateKey(startDate);
+  const end = parseDateKey(endDate);
+  while (current <= end) {
+    if (current.getDay() !== 0) {
+      count++;
+    }
+    current.setDate(current.getDate() + 1);
+  }
+  return count;
+}
+
+/**
+ * Trainer leave: trainers apply and cancel, admins approve or reject. Approval blocks the
+ * trainer in the holiday calendar and proposes a substitute for every affected session,
+ * which an admin confirms with one click.
+ */
+export class TrainerLeaveService {
+  private readonly leaveRepo: TrainerLeaveRepository;
+  private readonly proposalRepo: SubstitutionProposalRepository;
+  private readonly substitutionRepo: TrainerSessionSubstitutionRepository;
+
+  constructor(private readonly pool: Pool) {
+    this.leaveRepo = new TrainerLeaveRepository(pool);
+    this.proposalRepo = new SubstitutionProposalRepository(pool);
+    this.substitutionRepo = new TrainerSessionSubstitutionRepository(pool);
+  }
+
+  async applyForLeave(trainerId: string, input: ApplyLeaveInput): Promise<TrainerLeaveRequest> {
+    if (input.endDate < input.startDate) {
+      throw new AppError('endDate must be on or after startDate', 400);
+    }
+    if (input.startDate <= toDateKey(new Date())) {
+      throw new AppError('Leave must be applied for before its start date', 400);
+    }
+
+    const days = countLeaveDays(input.startDate, input.endDate);
+    if (days === 0) {
+      throw new AppError('Leave does not cover any working day', 400);
+    }
+    if (days > MAX_LEAVE_DAYS) {
+      throw new AppError(`A single leave cannot exceed ${MAX_LEAVE_DAYS} working days`, 400);
+    }
+
+    const overlapping = await this.leaveRepo.findOverlapping(trainerId, input.startDate, input.endDate);
+    if (overlapping.length > 0) {
+      throw new AppError('Leave overlaps an existing pending or approved leave', 409);
+    }
+
+    if (input.leaveType !== 'unpaid') {
+      const balance = await this.findBalance(trainerId, input.leaveType, input.startDate);
+      if (balance.availableDays < days) {
+        throw new AppError(
+          `Insufficient ${input.leaveType} leave balance: ${balance.availableDays} day(s) available, ${days} requested`,
+          400
+        );
+      }
+    }
+
+    const leave = await this.leaveRepo.create({
+      trainerId,
+      leaveType: input.leaveType,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      days,
+      reason: input.reason ?? null,
+    });
+
+    logger.info('Trainer leave requested', {
+      leaveRequestId: leave.id,
+      trainerId,
+      leaveType: leave.leaveType,
+      startDate: leave.startDate,
+      endDate: leave.endDate,
+      days,
+      service: 'trainer-service',
+    });
+
+    return leave;
+  }
+
+  /**
+   * Withdraw a pending leave, or an approved one that has not started yet. Open substitution
+   * proposals are dismissed; substitutions already confirmed stay until an admin removes them.
+   */
+  async cancelLeave(trainerId: string, leaveRequestId: string): Promise<TrainerLeaveRequest> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const leave = await this.leaveRepo.findById(leaveRequestId, client, true);
+      if (!leave || leave.trainerId !== trainerId) {
+        throw new AppError('Leave request not found', 404);
+      }
+      if (leave.status !== 'pending' && leave.status !== 'approved') {
+        throw new AppError(`Cannot cancel leave with status: ${leave.status}`, 400);
+      }
+      if (leave.status === 'approved' && leave.startDate <= toDateKey(new Date())) {
+        throw new AppError('Approved leave can only be cancelled before it starts', 400);
+      }
+
+      const cancelled = await this.leaveRepo.updateStatus(leave.id, 'cancelled', {}, client);
+
+      let proposalsDismissed = 0;
+      if (leave.status === 'approved') {
+        if (leave.calendarBlockId) {
+          await client.query(
+            `UPDATE calendar_blocks SET is_active = false, updated_at = NOW() WHERE id = $1`,
+            [leave.calendarBlockId]
+          );
+        }
+        proposalsDismissed = await this.proposalRepo.dismissPendingForLeave(leave.id, client);
+      }
+
+      await client.query('COMMIT');
+
+      logger.info('Trainer leave cancelled', {
+        leaveRequestId: leave.id,
+        trainerId,
+        previousStatus: leave.status,
+        proposalsDismissed,
+        service: 'trainer-service',
+      });
+
+      return cancelled;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async approveLeave(
+    leaveRequestId: string,
+    adminId: string,
+    note?: string | null
+  ): Promise<{ leave: TrainerLeaveRequest; substitutes: SubstituteProposalResult }> {
+    const client = await this.pool.connect();
+    let approved: TrainerLeaveRequest;
+    try {
+      await client.query('BEGIN');
+
+      const leave = await this.leaveRepo.findById(leaveRequestId, client, true);
+      if (!leave) {
+        throw new AppError('Leave request not found', 404);
+      }
+      if (leave.status !== 'pending') {
+        throw new AppError(`Cannot approve leave with status: ${leave.status}`, 400);
+      }
+
+      // Trainer scope blocks make the trainer ineligible for new bookings on these days.
+      // The holiday reschedule scan is marked done: sessions are covered by substitutes instead.
+      const block = await client.query<{ id: string }>(
+        `
+          INSERT INTO calendar_blocks (scope, scope_ref, kind, name, start_date, end_date, notes, created_by, sessions_scanned_at)
+          VALUES ('trainer', $1, 'trainer_leave', $2, $3, $4, $5, $6, NOW())
+          RETURNING id
+        `,
+        [
+          leave.trainerId,
+          `${leave.leaveType.charAt(0).toUpperCase()}${leave.leaveType.slice(1)} leave`,
+          leave.startDate,
+          leave.endDate,
+          leave.reason,
+          adminId,
+        ]
+      );
+
+      approved = await this.leaveRepo.updateStatus(
+        leave.id,
+        'approved',
+        { decidedBy: adminId, decisionNote: note ?? null, calendarBlockId: block.rows[0].id },
+        client
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info('Trainer leave approved', {
+      leaveRequestId,
+      trainerId: approved.trainerId,
+      calendarBlockId: approved.calendarBlockId,
+      adminId,
+      service: 'trainer-service',
+    });
+
+    // Ranking calls booking-service; the leave stays approved even if this fails and can be re-run
+    let substitutes: SubstituteProposalResult = { sessionsAffected: 0, proposalsCreated: 0, withoutSubstitute: 0 };
+    try {
+      substitutes = await this.proposeSubstitutes(approved.id);
+    } catch (error: any) {
+      logger.error('Failed to propose substitutes for approved leave', {
+        leaveRequestId,
+        error: error?.message || String(error),
+        service: 'trainer-service',
+      });
+    }
+
+    return { leave: approved, substitutes };
+  }
+
+  async rejectLeave(leaveRequestId: string, adminId: string, note?: string | null): Promise<TrainerLeaveRequest> {
+    const leave = await this.leaveRepo.findById(leaveRequestId);
+    if (!leave) {
+      throw new AppError('Leave request not found', 404);
+    }
+    if (leave.status !== 'pending') {
+      throw new AppError(`Cannot reject leave with status: ${leave.status}`, 400);
+    }
+
+    const rejected = await this.leaveRepo.updateStatus(leave.id, 'rejected', { decidedBy: adminId, decisionNote: note ?? null });
+
+    logger.info('Trainer leave rejected', {
+      leaveRequestId,
+      trainerId: leave.trainerId,
+      adminId,
+      service: 'trainer-service',
+    });
+
+    return rejected;
+  }
+
+  async listLeaveRequests(filters: Parameters<TrainerLeaveRepository['findAll']>[0]): Promise<TrainerLeaveRequest[]> {
+    return this.leaveRepo.findAll(filters);
+  }
+
+  async getBalances(trainerId: string, year: number): Promise<TrainerLeaveBalance[]> {
+    return this.leaveRepo.getBalances(trainerId, year);
+  }
+
+  async setEntitlement(
+    trainerId: string,
+    year: number,
+    leaveType: Exclude<LeaveType, 'unpaid'>,
+    entitledDays: number,
+    adminId: string
+  ): Promise<TrainerLeaveBalance[]> {
+    await this.leaveRepo.upsertEntitlement(trainerId, year, leaveType, entitledDays, adminId);
+    logger.info('Trainer leave entitlement updated', {
+      trainerId,
+      year,
+      leaveType,
+      entitledDays,
+      adminId,
+      service: 'trainer-service',
+    });
+    return this.leaveRepo.getBalances(trainerId, year);
+  }
+
+  /**
+   * Find the scheduled sessions that fall in an approved leave and propose a substitute for each.
+   * Sessions of one allocation share a substitute so the student sees one stand-in for the leave.
+   * Safe to re-run: sessions that already have a proposal are skipped.
+   */
+  async proposeSubstitutes(leaveRequestId: string): Promise<SubstituteProposalResult> {
+    const leave = await this.leaveRepo.findById(leaveRequestId);
+    if (!leave) {
+      throw new AppError('Leave request not found', 404);
+    }
+    if (leave.status !== 'approved') {
+      throw new AppError(`Cannot propose substitutes for leave with status: ${leave.status}`, 400);
+    }
+
+    const result: SubstituteProposalResult = { sessionsAffected: 0, proposalsCreated: 0, withoutSubstitute: 0 };
+    const sessions = await this.findAffectedSessions(leave);
+    result.sessionsAffected = sessions.length;
+
+    const byAllocation = new Map<string, AffectedSessionRow[]>();
+    for (const session of sessions) {
+      const group = byAllocation.get(session.allocation_id) ?? [];
+      group.push(session);
+      byAllocation.set(session.allocation_id, group);
+    }
+
+    for (const group of byAllocation.values()) {
+      const sundays = group.filter(s => parseDateKey(s.scheduled_date).getDay() === 0);
+      const workingDays = group.filter(s => parseDateKey(s.scheduled_date).getDay() !== 0);
+
+      const { candidates, unavailableReason } = await this.rankSubstitutes(leave, workingDays);
+
+      for (const session of group) {
+        const isSunday = sundays.includes(session);
+        const reason = isSunday ? 'Substitutions cannot be scheduled on Sundays' : unavailableReason;
+        const proposal = await this.proposalRepo.create({
+          leaveRequestId: leave.id,
+          sessionId: session.id,
+          studentId: session.student_id,
+          originalTrainerId: leave.trainerId,
+          sessionDate: session.scheduled_date,
+          timeSlot: session.scheduled_time,
+          candidates: isSunday ? [] : candidates,
+          unavailableReason: reason,
+        });
+        if (proposal) {
+          result.proposalsCreated++;
+          if (!proposal.proposedSubstituteId) {
+            result.withoutSubstitute++;
+          }
+        }
+      }
+    }
+
+    logger.info('Substitution proposals created for leave', {
+      leaveRequestId,
+      trainerId: leave.trainerId,
+      ...result,
+      service: 'trainer-service',
+    });
+
+    return result;
+  }
+
+  async listProposals(
+    filters: Parameters<SubstitutionProposalRepository['findAll']>[0]
+  ): Promise<SubstitutionProposal[]> {
+    return this.proposalRepo.findAll(filters);
+  }
+
+  /**
+   * One-click approval: record the substitution for the proposed (or chosen) substitute and
+   * SESSION_SUBSTITUTED in the outbox in one transaction, then notify the student
+   */
+  async approveProposal(
+    proposalId: string,
+    adminId: string,
+    substituteTrainerId?: string
+  ): Promise<SubstitutionProposal> {
+    const client = await this.pool.connect();
+    let approved: SubstitutionProposal;
+    try {
+      await client.query('BEGIN');
+
+      const proposal = await this.proposalRepo.findById(proposalId, client, true);
+      if (!proposal) {
+        throw new AppError('Substitution proposal not found', 404);
+      }
+      if (proposal.status !== 'pending') {
+        throw new AppError(`Cannot approve proposal with status: ${proposal.status}`, 400);
+      }
+
+      const substituteId = substituteTrainerId ?? proposal.proposedSubstituteId;
+      if (!substituteId) {
+        throw new AppError('No substitute was proposed for this session; choose a substituteTrainerId', 400);
+      }
+      if (substituteId === proposal.originalTrainerId) {
+        throw new AppError('Original trainer and substitute trainer must be different', 400);
+      }
+      if (parseDateKey(proposal.sessionDate).getDay() === 0) {
+        throw new AppError('Substitutions cannot be scheduled on Sundays (holidays)', 400);
+      }
+
+      const session = await client.query(
+        `SELECT 1 FROM tutoring_sessions WHERE id = $1 AND status = 'scheduled'`,
+        [proposal.sessionId]
+      );
+      if (session.rows.length === 0) {
+        throw new AppError('Session is no longer scheduled', 409);
+      }
+
+      const substitution = await this.substitutionRepo.create(
+        {
+          sessionDate: parseDateKey(proposal.sessionDate),
+          originalTrainerId: proposal.originalTrainerId,
+          substituteTrainerId: substituteId,
+          studentId: proposal.studentId,
+        },
+        client
+      );
+
+      const resolved = await this.proposalRepo.resolve(
+        proposal.id,
+        'approved',
+        adminId,
+        { substituteTrainerId: substituteId, substitutionId: substitution.id },
+        client
+      );
+      approved = resolved!;
+
+      await emitInTransaction(client, this.buildSubstitutedEvent(approved, substituteId, adminId), {
+        correlationId: substitution.id,
+        source: 'trainer-service',
+        idempotencyKey: `substitution:${substitution.id}:SESSION_SUBSTITUTED`,
+      });
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info('Substitution proposal approved', {
+      proposalId,
+      sessionId: approved.sessionId,
+      originalTrainerId: approved.originalTrainerId,
+      substituteTrainerId: approved.proposedSubstituteId,
+      adminId,
+      service: 'trainer-service',
+    });
+
+    await this.notifySubstitution(approved);
+
+    return approved;
+  }
+
+  async dismissProposal(proposalId: string, adminId: string): Promise<SubstitutionProposal> {
+    const resolved = await this.proposalRepo.resolve(proposalId, 'dismissed', adminId, null);
+    if (!resolved) {
+      const existing = await this.proposalRepo.findById(proposalId);
+      throw existing
+        ? new AppError(`Cannot dismiss proposal with status: ${existing.status}`, 400)
+        : new AppError('Substitution proposal not found', 404);
+    }
+    return resolved;
+  }
+
+  private async findBalance(
+    trainerId: string,
+    leaveType: Exclude<LeaveType, 'unpaid'>,
+    startDate: string
+  ): Promise<TrainerLeaveBalance> {
+    const balances = await this.leaveRepo.getBalances(trainerId, parseDateKey(startDate).getFullYear());
+    return balances.find(b => b.leaveType === leaveType)!;
+  }
+
+  private async findAffectedSessions(leave: TrainerLeaveRequest): Promise<AffectedSessionRow[]> {
+    const result = await this.pool.query<AffectedSessionRow>(
+      `
+        SELECT id, allocation_id, student_id, course_id,
+          to_char(scheduled_date, 'YYYY-MM-DD') AS scheduled_date,
+          scheduled_time, student_home_location,
+          metadata->>'sessionType' AS session_type
+        FROM tutoring_sessions
+        WHERE trainer_id = $1
+          AND status = 'scheduled'
+          AND scheduled_date BETWEEN GREATEST($2::date, CURRENT_DATE) AND $3::date
+        ORDER BY scheduled_date ASC, scheduled_time ASC
+      `,
+      [leave.trainerId, leave.startDate, leave.endDate]
+    );
+    return result.rows;
+  }
+
+  private async rankSubstitutes(
+    leave: TrainerLeaveRequest,
+    sessions: AffectedSessionRow[]
+  ): Promise<{ candidates: SubstituteCandidate[]; unavailableReason: string | null }> {
+    if (sessions.length === 0) {
+      return { candidates: [], unavailableReason: null };
+    }
+
+    const first = sessions[0];
+    const location =
+      typeof first.student_home_location === 'string'
+        ? JSON.parse(first.student_home_location)
+        : first.student_home_location;
+    if (!first.course_id || typeof location?.latitude !== 'number' || typeof location?.longitude !== 'number') {
+      return { candidates: [], unavailableReason: 'Session has no course or student location to match substitutes on' };
+    }
+
+    const candidates = await fetchSubstituteCandidates({
+      originalTrainerId: leave.trainerId,
+      courseId: first.course_id,
+      studentLocation: { latitude: location.latitude, longitude: location.longitude },
+      sessions: sessions.map(s => ({
+        date: s.scheduled_date,
+        time: s.scheduled_time,
+        sessionType: s.session_type === 'online' ? 'online' : 'offline',
+      })),
+    });
+
+    if (candidates === null) {
+      return { candidates: [], unavailableReason: 'Substitute ranking is unavailable; choose a substitute manually' };
+    }
+    if (candidates.length === 0) {
+      return { candidates: [], unavailableReason: 'No eligible substitute is free for these sessions' };
+    }
+    return { candidates, unavailableReason: null };
+  }
+
+  private buildSubstitutedEvent(
+    proposal: SubstitutionProposal,
+    substituteId: string,
+    adminId: string
+  ): SessionSubstitutedEvent {
+    return {
+      type: 'SESSION_SUBSTITUTED',
+      timestamp: Date.now(),
+      userId: adminId,
+      role: 'admin',
+      sessionId: proposal.sessionId,
+      originalTrainerId: proposal.originalTrainerId,
+      substituteTrainerId: substituteId,
+      studentId: proposal.studentId,
+      date: proposal.sessionDate,
+      timeSlot: proposal.timeSlot,
+      metadata: {
+        createdBy: adminId,
+        leaveRequestId: proposal.leaveRequestId,
+        proposalId: proposal.id,
+      },
+    };
+  }
+
+  /**
+   * Student notification; a failure must not undo the approval
+   */
+  private async notifySubstitution(proposal: SubstitutionProposal): Promise<void> {
+    const substituteId = proposal.proposedSubstituteId!;
+
+    try {
+      const trainer = await this.pool.query<{ name: string | null }>(
+        `SELECT full_name AS name FROM trainer_profiles WHERE trainer_id = $1`,
+        [substituteId]
+      );
+      await notificationClient.sendSessionSubstitutedNotification(
+        proposal.studentId,
+        trainer.rows[0]?.name || 'A substitute trainer',
+        parseDateKey(proposal.sessionDate),
+        proposal.timeSlot
+      );
+    } catch (error: any) {
+      logger.warn('Failed to notify student about substitution (non-critical)', {
+        proposalId: proposal.id,
+        studentId: proposal.studentId,
+        error: error?.message || String(error),
+        service: 'trainer-service',
+      });
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import logger from '@kodingcaravan/shared/config/logger';
+import { httpPost, parseJsonResponse } from '@kodingcaravan/shared/utils/httpClient';
+import type { SubstituteCandidate } from '../models/trainerLeave.model';
+
+const BOOKING_SERVICE_URL = process.env.BOOKING_SERVICE_URL || 'http://localhost:3011';
+
+export interface SubstituteCandidateQuery {
+  originalTrainerId: string;
+  courseId: string;
+  studentLocation: { latitude: number; longitude: number };
+  sessions: Array<{ date: string; time: string; sessionType: 'offline' | 'online' }>;
+  limit?: number;
+}
+
+/**
+ * Rank substitutes through booking-service, which owns the trainer eligibility rules.
+ * Returns null when booking-service could not be reached so callers can tell
+ * "nobody is free" apart from "try again later".
+ */
+export async function fetchSubstituteCandidates(query: SubstituteCandidateQuery): Promise<SubstituteCandidate[] | null> {
+  try {
+    const response = await httpPost(
+      `${BOOKING_SERVICE_URL.replace(/\/$/, '')}/api/v1/booking/substitute-candidates`,
+      query,
+      { timeout: 30000, headers: { 'X-Service-Token': process.env.INTERNAL_SERVICE_TOKEN || '' } }
+    );
+    const body = parseJsonResponse<{ success?: boolean; data?: SubstituteCandidate[]; message?: string }>(response.data);
+
+    if (response.statusCode >= 400 || !body.success) {
+      logger.warn('Booking service rejected substitute candidate request', {
+        statusCode: response.statusCode,
+        message: body.message,
+        originalTrainerId: query.originalTrainerId,
+        service: 'trainer-service',
+      });
+      return null;
+    }
+
+    return Array.isArray(body.data) ? body.data : [];
+  } catch (error: any) {
+    logger.warn('Failed to fetch substitute candidates from booking service', {
+      error: error?.message || String(error),
+      originalTrainerId: query.originalTrainerId,
+      service: 'trainer-service',
+    });
+    return null;
+  }
+}
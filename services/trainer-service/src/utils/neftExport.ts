@@ -0,0 +1,172 @@
+/**
+ * Bank bulk-payout files for approved trainer payouts
+ * Column layouts follow the NEFT bulk upload templates of the major Indian banks;
+ * "generic" suits banks that accept a plain beneficiary/amount sheet
+ */
+
+export type NeftExportFormat = 'generic' | 'hdfc' | 'icici' | 'sbi';
+
+export const NEFT_EXPORT_FORMATS: NeftExportFormat[] = ['generic', 'hdfc', 'icici', 'sbi'];
+
+/** Formats whose rows carry the company's debit account */
+export const DEBIT_ACCOUNT_FORMATS: NeftExportFormat[] = ['icici', 'sbi'];
+
+export interface NeftPayoutRow {
+  payoutId: string;
+  payslipNumber: string;
+  beneficiaryName: string;
+  accountNumber: string;
+  ifscCode: string;
+  bankName: string | null;
+  amount: number;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface NeftExportOptions {
+  /** Company account the salaries are debited from */
+  debitAccountNumber: string;
+  /** Payment date (YYYY-MM-DD) */
+  valueDate: string;
+  /** Shown on the trainer's statement, e.g. "SALARY JAN 2025" */
+  narration: string;
+}
+
+function csvField(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: Array<Array<string | number | null>>): string {
+  return [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Banks reject special characters in names and narrations
+ */
+function bankSafe(text: string, maxLength: number): string {
+  return text.replace(/[^A-Za-z0-9 .\-/]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, maxLength);
+}
+
+function formatDate(dateKey: string, separator: '/' | '-'): string {
+  const [year, month, day] = dateKey.split('-');
+  return [day, month, year].join(separator);
+}
+
+export function buildNeftExport(format: NeftExportFormat, rows: NeftPayoutRow[], options: NeftExportOptions): string {
+  const narration = bankSafe(options.narration, 30);
+
+  switch (format) {
+    case 'hdfc':
+      return toCsv(
+        [
+          'Transaction Type',
+          'Beneficiary Code',
+          'Beneficiary Account Number',
+          'Instrument Amount',
+          'Beneficiary Name',
+          'Customer Reference Number',
+          'Payment Details',
+          'Value Date',
+          'IFSC Code',
+          'Beneficiary Bank Name',
+          'Beneficiary Email ID',
+        ],
+        rows.map(row => [
+          // Within-bank transfers use "I", everything else goes over NEFT
+          row.ifscCode.toUpperCase().startsWith('HDFC') ? 'I' : 'N',
+          row.payslipNumber,
+          row.accountNumber,
+          row.amount.toFixed(2),
+          bankSafe(row.beneficiaryName, 40),
+          row.payslipNumber,
+          narration,
+          formatDate(options.valueDate, '/'),
+          row.ifscCode.toUpperCase(),
+          row.bankName ? bankSafe(row.bankName, 40) : '',
+          row.email,
+        ])
+      );
+
+    case 'icici':
+      return toCsv(
+        [
+          'PYMT_PROD_TYPE_CODE',
+          'PYMT_MODE',
+          'DEBIT_ACC_NO',
+          'BNF_NAME',
+          'BENE_ACC_NO',
+          'BENE_IFSC',
+          'AMOUNT',
+          'DEBIT_NARR',
+          'CREDIT_NARR',
+          'MOBILE_NUM',
+          'EMAIL_ID',
+          'REMARK',
+          'PYMT_DATE',
+          'REF_NO',
+        ],
+        rows.map(row => [
+          'PAB_VENDOR',
+          row.ifscCode.toUpperCase().startsWith('ICIC') ? 'FT' : 'NEFT',
+          options.debitAccountNumber,
+          bankSafe(row.beneficiaryName, 35),
+          row.accountNumber,
+          row.ifscCode.toUpperCase(),
+          row.amount.toFixed(2),
+          narration,
+          narration,
+          row.phone,
+          row.email,
+          row.payslipNumber,
+          formatDate(options.valueDate, '-'),
+          row.payslipNumber,
+        ])
+      );
+
+    case 'sbi':
+      return toCsv(
+        [
+          'Beneficiary Name',
+          'Beneficiary Account No',
+          'IFSC',
+          'Transaction Type',
+          'Debit Account No',
+          'Transaction Date',
+          'Amount',
+          'Currency',
+          'Beneficiary Email ID',
+          'Remarks',
+        ],
+        rows.map(row => [
+          bankSafe(row.beneficiaryName, 35),
+          row.accountNumber,
+          row.ifscCode.toUpperCase(),
+          row.ifscCode.toUpperCase().startsWith('SBIN') ? 'DCR' : 'NEFT',
+          options.debitAccountNumber,
+          formatDate(options.valueDate, '/'),
+          row.amount.toFixed(2),
+          'INR',
+          row.email,
+          `${narration} ${row.payslipNumber}`.slice(0, 30),
+        ])
+      );
+
+    case 'generic':
+    default:
+      return toCsv(
+        ['Beneficiary Name', 'Account Number', 'IFSC Code', 'Bank Name', 'Amount', 'Payment Mode', 'Value Date', 'Narration', 'Reference'],
+        rows.map(row => [
+          bankSafe(row.beneficiaryName, 40),
+          row.accountNumber,
+          row.ifscCode.toUpperCase(),
+          row.bankName,
+          row.amount.toFixed(2),
+          'NEFT',
+          options.valueDate,
+          narration,
+          row.payslipNumber,
+        ])
+      );
+  }
+}
@@ -0,0 +1,132 @@
+import type { PayrollAdjustment, TrainerPayout } from '../models/payrollRun.model';
+import { PdfDocument } from './pdfDocument';
+
+const COMPANY_NAME = process.env.PAYSLIP_COMPANY_NAME || 'Koding Caravan';
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+function formatAmount(amount: number): string {
+  return `Rs. ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function formatPayPeriod(periodMonth: string): string {
+  const [year, month] = periodMonth.split('-').map(Number);
+  return `${MONTH_NAMES[month - 1]} ${year}`;
+}
+
+function maskAccountNumber(accountNumber: string | null): string {
+  if (!accountNumber) {
+    return '-';
+  }
+  return accountNumber.length > 4 ? `XXXX${accountNumber.slice(-4)}` : accountNumber;
+}
+
+function humanize(value: string): string {
+  return value.replace(/_/g, ' ').replace(/^\w/, c => c.toUpperCase());
+}
+
+/**
+ * Render a payslip with the full calculationDetails breakdown behind the gross amount
+ */
+export function renderPayslipPdf(payout: TrainerPayout, adjustments: PayrollAdjustment[]): Buffer {
+  const doc = new PdfDocument();
+  const amountX = doc.left + doc.contentWidth - 110;
+  const valueX = doc.left + 150;
+  const details = payout.calculationDetails;
+
+  const row = (label: string, amount: number, bold = false) =>
+    doc.line([
+      { text: label, x: doc.left + 10, bold },
+      { text: formatAmount(amount), x: amountX, bold },
+    ]);
+  const field = (label: string, value: string) =>
+    doc.line([
+      { text: label, x: doc.left },
+      { text: value, x: valueX },
+    ]);
+
+  doc.text(COMPANY_NAME, { bold: true, size: 16 });
+  doc.text(`Payslip for ${formatPayPeriod(payout.periodMonth)}`, { size: 12 });
+  doc.rule();
+
+  field('Payslip number', payout.payslipNumber);
+  field('Trainer', payout.trainerName ?? payout.trainerId);
+  field('Pay period', `${details.monthStart} to ${details.monthEnd}`);
+  field('Working days', String(details.monthDays));
+  field('Bank account', `${payout.bankName ?? '-'} ${maskAccountNumber(payout.accountNumber)}`);
+  field('IFSC', payout.ifscCode ?? '-');
+  field('Status', humanize(payout.status));
+  if (payout.paymentReference) {
+    field('Payment reference', payout.paymentReference);
+  }
+  doc.rule();
+
+  const additions = adjustments.filter(adjustment => adjustment.kind === 'addition');
+  const deductions = adjustments.filter(adjustment => adjustment.kind === 'deduction');
+
+  doc.text('Earnings', { bold: true, size: 12 });
+  row('Base salary', details.baseSalaryAmount ?? payout.grossAmount - details.allowance.totalAllowance);
+  row('Travel allowance', details.allowance.totalAllowance);
+  for (const adjustment of additions) {
+    row(adjustment.description ? `${humanize(adjustment.category)} - ${adjustment.description}` : humanize(adjustment.category), adjustment.amount);
+  }
+  row('Total earnings', payout.grossAmount + payout.additionsAmount, true);
+  doc.space();
+
+  doc.text('Deductions', { bold: true, size: 12 });
+  if (deductions.length === 0) {
+    doc.text('None', { indent: 10 });
+  }
+  for (const adjustment of deductions) {
+    row(adjustment.description ? `${humanize(adjustment.category)} - ${adjustment.description}` : humanize(adjustment.category), adjustment.amount);
+  }
+  row('Total deductions', payout.deductionsAmount, true);
+  doc.rule();
+  doc.line([
+    { text: 'Net pay', x: doc.left, bold: true, size: 13 },
+    { text: formatAmount(payout.netAmount), x: amountX, bold: true, size: 13 },
+  ]);
+  doc.rule();
+
+  doc.text('Base salary breakdown', { bold: true, size: 12 });
+  doc.line([
+    { text: 'Period', x: doc.left + 10, bold: true },
+    { text: 'Students', x: doc.left + 200, bold: true },
+    { text: 'Days', x: doc.left + 270, bold: true },
+    { text: 'Daily rate', x: doc.left + 320, bold: true },
+    { text: 'Amount', x: amountX, bold: true },
+  ]);
+  for (const range of details.baseSalaryRanges) {
+    const days = range.unpaidLeaveDays ? `${range.days} (${range.unpaidLeaveDays} unpaid)` : String(range.days);
+    doc.line([
+      { text: `${range.startDate} to ${range.endDate}`, x: doc.left + 10 },
+      { text: String(range.studentCount), x: doc.left + 200 },
+      { text: days, x: doc.left + 270 },
+      { text: formatAmount(range.dailyBase), x: doc.left + 320 },
+      { text: formatAmount(range.rangeBaseSalary), x: amountX },
+    ]);
+  }
+  doc.space();
+
+  doc.text(
+    `Travel allowance: ${formatAmount(details.allowance.dailyRatePerStudent)} per student per working day`,
+    { indent: 10 }
+  );
+  if (details.leave) {
+    doc.text(
+      `Leave: ${details.leave.paidLeaveDays} paid day(s), ${details.leave.unpaidLeaveDays} unpaid day(s)` +
+        (details.leave.baseSalaryDeduction > 0
+          ? `; ${formatAmount(details.leave.baseSalaryDeduction)} deducted from base salary`
+          : ''),
+      { indent: 10 }
+    );
+  }
+
+  doc.space(20);
+  doc.text('This is a system generated payslip and does not require a signature.', { size: 8 });
+
+  return doc.toBuffer();
+}
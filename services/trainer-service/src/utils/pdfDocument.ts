@@ -0,0 +1,117 @@
+/**
+ * Minimal PDF writer for text documents (payslips)
+ * A4 pages, built-in Helvetica fonts, text and horizontal rules only - no external dependency
+ */
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+export interface PdfTextItem {
+  text: string;
+  x: number;
+  bold?: boolean;
+  size?: number;
+}
+
+/**
+ * Built-in fonts only cover WinAnsi; anything outside Latin-1 is replaced
+ */
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+export class PdfDocument {
+  private pages: string[][] = [[]];
+  private y = PAGE_HEIGHT - MARGIN;
+
+  readonly contentWidth = PAGE_WIDTH - MARGIN * 2;
+  readonly left = MARGIN;
+
+  /**
+   * Write one line made of positioned text items, moving down by the largest font size
+   */
+  line(items: PdfTextItem[], gap = 4): this {
+    const size = Math.max(10, ...items.map(item => item.size ?? 10));
+    this.ensureSpace(size + gap);
+    this.y -= size;
+    for (const item of items) {
+      this.current().push(
+        `BT /${item.bold ? 'F2' : 'F1'} ${item.size ?? 10} Tf ${item.x} ${this.y} Td (${escapePdfText(item.text)}) Tj ET`
+      );
+    }
+    this.y -= gap;
+    return this;
+  }
+
+  text(text: string, options: { bold?: boolean; size?: number; indent?: number } = {}): this {
+    return this.line([{ text, x: MARGIN + (options.indent ?? 0), bold: options.bold, size: options.size }]);
+  }
+
+  rule(): this {
+    this.ensureSpace(8);
+    this.y -= 4;
+    this.current().push(`0.5 w ${MARGIN} ${this.y} m ${PAGE_WIDTH - MARGIN} ${this.y} l S`);
+    this.y -= 4;
+    return this;
+  }
+
+  space(height = 8): this {
+    this.ensureSpace(height);
+    this.y -= height;
+    return this;
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+
+    // 1: catalog, 2: page tree, 3-4: fonts, then a page + content stream pair per page
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((commands, index) => {
+      const pageId = 5 + index * 2;
+      const contentId = pageId + 1;
+      const stream = commands.join('\n');
+      pageIds.push(pageId);
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+      objects[contentId] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+    });
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    let body = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(body, 'latin1');
+      body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(body, 'latin1');
+    body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(body, 'latin1');
+  }
+
+  private current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < MARGIN) {
+      this.pages.push([]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+}
@@ -4,16 +4,28 @@
  */
 
 export interface AccountLockoutConfig {
+	/** Failed attempts per identifier (email / phone) before it is locked */
 	maxAttempts: number;
+	/** Failed attempts per IP (across identifiers) before the IP is locked */
+	ipMaxAttempts: number;
+	/** Duration of the first lock; later locks are longer (progressive back-off) */
 	lockoutDurationMs: number;
-	cleanupIntervalMs: number;
+	/** Upper bound for a single lock */
+	maxLockoutDurationMs: number;
+	/** Each successive lock lasts this many times longer than the previous one */
+	backoffMultiplier: number;
+	/** Lock level is forgotten after this long without a new lock */
+	lockLevelResetMs: number;
+	/** Failed attempts older than this are forgotten */
 	maxAttemptAgeMs: number;
 }
 
 export const accountLockoutConfig: AccountLockoutConfig = {
 	maxAttempts: Number(process.env.ACCOUNT_LOCKOUT_MAX_ATTEMPTS) || 5,
+	ipMaxAttempts: Number(process.env.ACCOUNT_LOCKOUT_IP_MAX_ATTEMPTS) || 20,
 	lockoutDurationMs: Number(process.env.ACCOUNT_LOCKOUT_DURATION_MS) || 30 * 60 * 1000, // 30 minutes
-	cleanupIntervalMs: Number(process.env.ACCOUNT_LOCKOUT_CLEANUP_INTERVAL_MS) || 60 * 60 * 1000, // 1 hour
+	maxLockoutDurationMs: Number(process.env.ACCOUNT_LOCKOUT_MAX_DURATION_MS) || 24 * 60 * 60 * 1000, // 24 hours
+	backoffMultiplier: Number(process.env.ACCOUNT_LOCKOUT_BACKOFF_MULTIPLIER) || 2,
+	lockLevelResetMs: Number(process.env.ACCOUNT_LOCKOUT_LEVEL_RESET_MS) || 24 * 60 * 60 * 1000, // 24 hours
 	maxAttemptAgeMs: Number(process.env.ACCOUNT_LOCKOUT_MAX_ATTEMPT_AGE_MS) || 2 * 60 * 60 * 1000, // 2 hours
 };
-
@@ -0,0 +1,36 @@
+/**
+ * JWT Signing Key Configuration
+ * Centralized configuration with environment variable support
+ */
+
+export interface JwtKeyConfig {
+	/** Path of the key ring JSON file (written by `pnpm jwt-keys`) */
+	keysFile: string | undefined;
+	/** Inline key ring JSON (raw or base64) for platforms that only provide env secrets */
+	keysJson: string | undefined;
+	/** How often the key ring file is checked for changes */
+	reloadIntervalMs: number;
+	/** JWKS endpoints of the auth services, used to resolve unknown key ids */
+	jwksUrls: string[];
+	/** How long fetched JWKS keys are trusted before they are fetched again */
+	jwksCacheTtlMs: number;
+	/** Minimum time between JWKS fetches triggered by unknown key ids */
+	jwksMinRefetchMs: number;
+	jwksTimeoutMs: number;
+	/** Keep accepting HS256 tokens without `kid` until the old secret is retired */
+	allowLegacyHmac: boolean;
+}
+
+export const jwtKeyConfig: JwtKeyConfig = {
+	keysFile: process.env.JWT_KEYS_FILE || undefined,
+	keysJson: process.env.JWT_KEYS || undefined,
+	reloadIntervalMs: Number(process.env.JWT_KEYS_RELOAD_INTERVAL_MS) || 30 * 1000, // 30 seconds
+	jwksUrls: (process.env.JWT_JWKS_URLS || '')
+		.split(',')
+		.map((url) => url.trim())
+		.filter(Boolean),
+	jwksCacheTtlMs: Number(process.env.JWT_JWKS_CACHE_TTL_MS) || 10 * 60 * 1000, // 10 minutes
+	jwksMinRefetchMs: Number(process.env.JWT_JWKS_MIN_REFETCH_MS) || 30 * 1000, // 30 seconds
+	jwksTimeoutMs: Number(process.env.JWT_JWKS_TIMEOUT_MS) || 3000,
+	allowLegacyHmac: process.env.JWT_ALLOW_LEGACY_HS256 !== 'false',
+};
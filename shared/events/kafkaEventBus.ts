@@ -7,7 +7,9 @@
 
 import { Kafka, Producer, Consumer, EachMessagePayload, logLevel } from 'kafkajs';
 import type { BusinessEvent } from './types';
+import { validateEvent, getCurrentSchemaVersion, deserializeEvent, EventValidationError } from './schemaRegistry';
 import logger from '../config/logger';
+import { getDeadLetterPublisher } from '../worker/deadLetterPublisher';
 
 export interface KafkaEventBusConfig {
   brokers: string[];
@@ -28,7 +30,8 @@ export interface EventMetadata {
   correlationId: string; // Payment ID, allocation ID, etc.
   timestamp: number;
   source: string; // Service name
-  version: string; // Event schema version
+  version: string; // Envelope version
+  schemaVersion?: number; // Payload schema version (see schemaRegistry); missing = 1
 }
 
 export type EnrichedEvent = BusinessEvent & {
@@ -120,10 +123,15 @@ export class KafkaEventBus {
       throw new Error('Kafka producer not initialized');
     }
 
+    // Never put a payload on the wire that consumers would reject
+    validateEvent(event);
+    const schemaVersion = getCurrentSchemaVersion(event.type);
+
     const enrichedEvent: EnrichedEvent = {
       ...event,
       _metadata: {
         ...metadata,
+        schemaVersion,
         timestamp: Date.now(),
       },
     };
@@ -157,6 +165,7 @@ export class KafkaEventBus {
                 eventType: event.type,
                 source: metadata.source,
                 version: metadata.version,
+                schemaVersion: String(schemaVersion),
               },
             },
           ],
@@ -291,7 +300,17 @@ export class KafkaEventBus {
             return;
           }
 
-          const event = JSON.parse(message.value.toString()) as EnrichedEvent;
+          let event: EnrichedEvent;
+          try {
+            event = deserializeEvent(message.value.toString(), message.headers?.schemaVersion?.toString());
+          } catch (error) {
+            if (error instanceof EventValidationError) {
+              // Redelivery cannot fix a bad payload
+              await getDeadLetterPublisher().publishRejected(payload, error);
+              return;
+            }
+            throw error;
+          }
           const eventId = message.headers?.eventId?.toString() || event._metadata?.eventId;
 
           if (!eventId) {
@@ -405,6 +424,8 @@ export class KafkaEventBus {
       ADMIN_OVERRIDE: 'admin-override',
       PAYROLL_RECALCULATED: 'payroll-recalculated',
       PURCHASE_CONFIRMED: 'purchase-confirmed', // New event
+      PURCHASE_REFUNDED: 'purchase-refunded', // Refund processed by payment-service
+      COUPON_REDEEMED: 'coupon-redeemed', // Coupon payment succeeded, recorded by booking-service
       PURCHASE_CREATED: 'purchase-created', // New event
       COURSE_ACCESS_GRANTED: 'course-access-granted', // Course access granted after purchase
       COURSE_PROGRESS_UPDATED: 'course-progress-updated', // Progress recalculated
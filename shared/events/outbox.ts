@@ -0,0 +1,326 @@
+/**
+ * Transactional Outbox
+ *
+ * Closes the gap between a Postgres write and the Kafka publish that announces it.
+ * Services insert the event into event_outbox inside the same transaction as the business
+ * write (emitInTransaction), and OutboxRelay publishes committed rows to Kafka afterwards.
+ *
+ * Guarantees:
+ * - An event exists if and only if its business write committed
+ * - At-least-once delivery (a row is marked published only after Kafka acknowledges it)
+ * - Rows are published in insertion order; a failing row holds back later rows until it
+ *   is published or exhausts its attempts
+ * - Events are validated against the schema registry before they are written, so an invalid
+ *   payload fails the caller's transaction instead of blocking the relay
+ *
+ * Event types in EVENT_BUS_TYPES are also published on the Redis event bus, for consumers
+ * that still subscribe there (progress-worker, chat-service).
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import type { BusinessEvent } from './types';
+import { getKafkaEventBus, type EventMetadata } from './kafkaEventBus';
+import { getEventBus } from './eventBus';
+import { validateEvent, EventValidationError } from './schemaRegistry';
+import logger from '../config/logger';
+
+/**
+ * Minimal query interface so both pg PoolClient and the services' own client wrappers
+ * can be passed in.
+ */
+export interface OutboxQueryable {
+  query(text: string, params?: any[]): Promise<{ rows: any[] }>;
+}
+
+export interface OutboxPool extends OutboxQueryable {
+  connect(): Promise<OutboxQueryable & { release(): void }>;
+}
+
+export interface EmitInTransactionOptions {
+  correlationId: string; // Payment ID, session ID, etc. (also the Kafka partition key)
+  source?: string; // Defaults to SERVICE_NAME
+  version?: string;
+  idempotencyKey?: string; // A second insert with the same key is ignored
+}
+
+export type OutboxStatus = 'pending' | 'published' | 'failed';
+
+export interface OutboxRow {
+  id: string;
+  eventId: string;
+  eventType: BusinessEvent['type'];
+  correlationId: string;
+  payload: BusinessEvent;
+  source: string;
+  version: string;
+  attempts: number;
+}
+
+export interface OutboxRelayConfig {
+  pool: OutboxPool;
+  batchSize?: number;
+  pollIntervalMs?: number;
+  maxAttempts?: number; // After this many failures a row is marked failed and skipped
+  publish?: (event: BusinessEvent, metadata: Omit<EventMetadata, 'timestamp'>) => Promise<void>;
+}
+
+// Only one relay per database publishes at a time, which keeps publishing in order
+const RELAY_LOCK_KEY = 'event_outbox_relay';
+
+// Services share event_outbox, so any relay may pick up any row; the Redis mirror therefore
+// depends on the event type, never on which service runs the relay
+const EVENT_BUS_TYPES: ReadonlySet<BusinessEvent['type']> = new Set<BusinessEvent['type']>([
+  'SESSION_COMPLETED', // progress-worker
+  'SESSION_SUBSTITUTED', // chat-service group membership
+  'STUDENT_DEALLOCATED', // chat-service group membership
+]);
+
+/**
+ * Create the outbox table (idempotent). Call from the service's table initialisation.
+ */
+export async function ensureOutboxTable(pool: OutboxQueryable): Promise<void> {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS event_outbox (
+      id BIGSERIAL PRIMARY KEY,
+      event_id TEXT NOT NULL UNIQUE,
+      event_type VARCHAR(100) NOT NULL,
+      correlation_id TEXT NOT NULL,
+      idempotency_key TEXT UNIQUE,
+      payload JSONB NOT NULL,
+      source VARCHAR(100) NOT NULL,
+      version VARCHAR(20) NOT NULL DEFAULT '1.0.0',
+      status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'published', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+      published_at TIMESTAMPTZ
+    );
+  `);
+  await pool.query(`
+    CREATE INDEX IF NOT EXISTS idx_event_outbox_pending ON event_outbox(id) WHERE status = 'pending';
+  `);
+}
+
+/**
+ * Record an event in the outbox as part of the caller's open transaction.
+ *
+ * Nothing is sent to Kafka here; the event becomes visible to OutboxRelay only when the
+ * caller commits, and disappears with a rollback. Returns the eventId (the existing one
+ * when idempotencyKey matches an earlier insert).
+ */
+export async function emitInTransaction(
+  client: OutboxQueryable,
+  event: BusinessEvent,
+  options: EmitInTransactionOptions
+): Promise<string> {
+  // Throws EventValidationError, rolling back the caller's transaction
+  validateEvent(event);
+
+  const eventId = uuidv4();
+
+  const inserted = await client.query(
+    `INSERT INTO event_outbox (event_id, event_type, correlation_id, idempotency_key, payload, source, version)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT DO NOTHING
+     RETURNING event_id`,
+    [
+      eventId,
+      event.type,
+      options.correlationId,
+      options.idempotencyKey ?? null,
+      JSON.stringify(event),
+      options.source || process.env.SERVICE_NAME || 'unknown',
+      options.version || '1.0.0',
+    ]
+  );
+
+  if (inserted.rows.length > 0) {
+    return eventId;
+  }
+
+  const existing = await client.query(
+    `SELECT event_id FROM event_outbox WHERE idempotency_key = $1`,
+    [options.idempotencyKey ?? null]
+  );
+  logger.info('[Outbox] Event already recorded for idempotency key, skipping', {
+    idempotencyKey: options.idempotencyKey,
+    correlationId: options.correlationId,
+    eventType: event.type,
+  });
+  return existing.rows[0]?.event_id ?? eventId;
+}
+
+/**
+ * Outbox Relay
+ *
+ * Polls event_outbox and publishes pending rows through KafkaEventBus with the eventId and
+ * correlationId recorded at insert time, so consumers' IdempotencyGuard sees the same ids
+ * on redelivery.
+ */
+export class OutboxRelay {
+  private pool: OutboxPool;
+  private batchSize: number;
+  private pollIntervalMs: number;
+  private maxAttempts: number;
+  private publish: NonNullable<OutboxRelayConfig['publish']>;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(config: OutboxRelayConfig) {
+    this.pool = config.pool;
+    this.batchSize = config.batchSize || 50;
+    this.pollIntervalMs = config.pollIntervalMs || 1000;
+    this.maxAttempts = config.maxAttempts || 10;
+    this.publish = config.publish || ((event, metadata) => getKafkaEventBus().emit(event, metadata));
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.pollIntervalMs);
+
+    logger.info('[OutboxRelay] Started', {
+      pollIntervalMs: this.pollIntervalMs,
+      batchSize: this.batchSize,
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('[OutboxRelay] Stopped');
+    }
+  }
+
+  /**
+   * Publish one batch. Returns the number of rows published.
+   */
+  async relayOnce(): Promise<number> {
+    const client = await this.pool.connect();
+    let published = 0;
+
+    try {
+      await client.query('BEGIN');
+
+      const lock = await client.query(
+        `SELECT pg_try_advisory_xact_lock(hashtext($1)) AS locked`,
+        [RELAY_LOCK_KEY]
+      );
+      if (!lock.rows[0]?.locked) {
+        await client.query('COMMIT');
+        return 0;
+      }
+
+      // Oldest pending rows whether due or not: a row still backing off must hold back
+      // the rows behind it
+      const result = await client.query(
+        `SELECT id, event_id AS "eventId", event_type AS "eventType", correlation_id AS "correlationId",
+                payload, source, version, attempts, next_attempt_at <= NOW() AS due
+         FROM event_outbox
+         WHERE status = 'pending'
+         ORDER BY id
+         LIMIT $1
+         FOR UPDATE`,
+        [this.batchSize]
+      );
+      const rows = result.rows as Array<OutboxRow & { due: boolean }>;
+
+      for (const row of rows) {
+        if (!row.due) {
+          break;
+        }
+
+        try {
+          await this.publish(row.payload, {
+            eventId: row.eventId,
+            correlationId: row.correlationId,
+            source: row.source,
+            version: row.version,
+          });
+          if (EVENT_BUS_TYPES.has(row.eventType)) {
+            await getEventBus().emit(row.payload);
+          }
+          await client.query(
+            `UPDATE event_outbox
+             SET status = 'published', attempts = attempts + 1, last_error = NULL, published_at = NOW()
+             WHERE id = $1`,
+            [row.id]
+          );
+          published += 1;
+        } catch (error: any) {
+          const attempts = row.attempts + 1;
+          // A payload the schema registry rejects will never publish; stop retrying it now
+          const exhausted = error instanceof EventValidationError || attempts >= this.maxAttempts;
+          // Exponential backoff capped at 5 minutes
+          const backoffSeconds = Math.min(2 ** attempts, 300);
+
+          await client.query(
+            `UPDATE event_outbox
+             SET status = $2, attempts = $3, last_error = $4,
+                 next_attempt_at = NOW() + ($5::int * INTERVAL '1 second')
+             WHERE id = $1`,
+            [row.id, exhausted ? 'failed' : 'pending', attempts, error?.message || String(error), backoffSeconds]
+          );
+
+          logger.error('[OutboxRelay] Failed to publish event', {
+            error: error?.message,
+            eventId: row.eventId,
+            correlationId: row.correlationId,
+            eventType: row.eventType,
+            attempts,
+            exhausted,
+          });
+
+          if (!exhausted) {
+            // Keep order: later rows wait for this one
+            break;
+          }
+        }
+      }
+
+      await client.query('COMMIT');
+      return published;
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      // Drain the backlog, then wait for the next poll
+      while ((await this.relayOnce()) >= this.batchSize) {
+        // continue
+      }
+    } catch (error: any) {
+      logger.error('[OutboxRelay] Relay cycle failed', { error: error?.message });
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+/**
+ * Create the outbox table and start a relay for the given pool
+ */
+export async function startOutboxRelay(
+  config: OutboxRelayConfig
+): Promise<OutboxRelay> {
+  await ensureOutboxTable(config.pool);
+  const relay = new OutboxRelay(config);
+  relay.start();
+  return relay;
+}
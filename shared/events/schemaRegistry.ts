@@ -0,0 +1,402 @@
+/**
+ * Event Schema Registry
+ *
+ * Runtime (zod) schemas for every BusinessEvent type, versioned per event type.
+ * types.ts stays the compile-time contract; this registry enforces it on the wire:
+ * - KafkaEventBus.emit validates before publishing and stamps _metadata.schemaVersion
+ * - KafkaConsumer / KafkaEventBus.subscribe upcast older payloads to the current version
+ *   and validate them before the handler runs; invalid messages go to the DLQ
+ *
+ * Changing an event shape:
+ * 1. Add the new schema as the next version in EVENT_SCHEMAS[type]
+ * 2. Give it an `upcast` that converts a payload of the previous version
+ * 3. Update the interface in types.ts
+ * Messages without a schemaVersion were produced before the registry existed and are
+ * treated as version 1.
+ */
+
+import { z } from 'zod';
+import type { BusinessEvent, BusinessEventType } from './types';
+import type { EnrichedEvent } from './kafkaEventBus';
+
+type Payload = Record<string, unknown>;
+
+export interface EventSchemaVersion {
+  version: number;
+  schema: z.ZodType<Payload>;
+  /** Converts a payload of version - 1 into this version */
+  upcast?: (payload: Payload) => Payload;
+}
+
+export class EventValidationError extends Error {
+  readonly eventType: string;
+  readonly schemaVersion: number | null;
+  readonly issues: string[];
+
+  constructor(eventType: string, schemaVersion: number | null, issues: string[]) {
+    super(
+      `Schema validation failed for ${eventType}` +
+        (schemaVersion !== null ? ` v${schemaVersion}` : '') +
+        `: ${issues.join('; ')}`
+    );
+    this.name = 'EventValidationError';
+    this.eventType = eventType;
+    this.schemaVersion = schemaVersion;
+    this.issues = issues;
+  }
+}
+
+const role = z.enum(['student', 'trainer', 'admin']);
+const record = z.record(z.unknown());
+
+function eventSchema<T extends BusinessEventType, S extends z.ZodRawShape>(type: T, shape: S) {
+  return z
+    .object({
+      type: z.literal(type),
+      timestamp: z.number(),
+      userId: z.string(),
+      role,
+      metadata: record.optional(),
+      ...shape,
+    })
+    .passthrough();
+}
+
+const EVENT_SCHEMAS: Record<BusinessEventType, EventSchemaVersion[]> = {
+  PURCHASE_CONFIRMED: [
+    {
+      version: 1,
+      schema: eventSchema('PURCHASE_CONFIRMED', {
+        paymentId: z.string().min(1),
+        studentId: z.string().min(1),
+        courseId: z.string().min(1),
+        amountCents: z.number().int().nonnegative(),
+        metadata: record,
+      }),
+    },
+  ],
+  PURCHASE_REFUNDED: [
+    {
+      version: 1,
+      schema: eventSchema('PURCHASE_REFUNDED', {
+        paymentId: z.string().min(1),
+        refundId: z.string().min(1),
+        studentId: z.string().min(1),
+        courseId: z.string().nullable(),
+        refundAmountCents: z.number().int().positive(),
+        totalRefundedCents: z.number().int().nonnegative(),
+        coinsReversed: z.number().int().nonnegative(),
+        revokeAccess: z.boolean(),
+        reason: z.string(),
+      }),
+    },
+  ],
+  COUPON_REDEEMED: [
+    {
+      version: 1,
+      schema: eventSchema('COUPON_REDEEMED', {
+        paymentId: z.string().min(1),
+        studentId: z.string().min(1),
+        couponCode: z.string().min(1),
+        discountApplied: z.number().nonnegative(),
+        courseId: z.string().nullable(),
+        amountCents: z.number().int().nonnegative(),
+      }),
+    },
+  ],
+  PURCHASE_CREATED: [
+    {
+      version: 1,
+      schema: eventSchema('PURCHASE_CREATED', {
+        purchaseId: z.string().min(1),
+        studentId: z.string().min(1),
+        courseId: z.string().min(1),
+        purchaseTier: z.number(),
+        metadata: record,
+      }),
+    },
+  ],
+  COURSE_ACCESS_GRANTED: [
+    {
+      version: 1,
+      schema: eventSchema('COURSE_ACCESS_GRANTED', {
+        purchaseId: z.string().min(1),
+        studentId: z.string().min(1),
+        courseId: z.string().min(1),
+        purchaseTier: z.number(),
+        metadata: record,
+      }),
+    },
+  ],
+  COURSE_PURCHASED: [
+    {
+      version: 1,
+      schema: eventSchema('COURSE_PURCHASED', {
+        courseId: z.string(),
+        studentId: z.string(),
+        purchaseId: z.string(),
+        sessionCount: z.number(),
+        startDate: z.string(),
+        endDate: z.string(),
+      }),
+    },
+  ],
+  TRAINER_ALLOCATED: [
+    {
+      version: 1,
+      schema: eventSchema('TRAINER_ALLOCATED', {
+        allocationId: z.string().min(1),
+        trainerId: z.string().min(1),
+        studentId: z.string().min(1),
+        courseId: z.string(),
+        sessionCount: z.number(),
+        startDate: z.string(),
+        endDate: z.string(),
+      }),
+    },
+  ],
+  SESSIONS_GENERATED: [
+    {
+      version: 1,
+      schema: eventSchema('SESSIONS_GENERATED', {
+        allocationId: z.string().min(1),
+        trainerId: z.string(),
+        studentId: z.string().min(1),
+        courseId: z.string(),
+        sessionCount: z.number(),
+        sessionIds: z.array(z.string()),
+        startDate: z.string(),
+      }),
+    },
+  ],
+  STUDENT_DEALLOCATED: [
+    {
+      version: 1,
+      schema: eventSchema('STUDENT_DEALLOCATED', {
+        allocationId: z.string().min(1),
+        trainerId: z.string(),
+        studentId: z.string().min(1),
+        courseId: z.string(),
+        reason: z.string(),
+        deallocatedAt: z.string(),
+      }),
+    },
+  ],
+  SESSION_RESCHEDULED: [
+    {
+      version: 1,
+      schema: eventSchema('SESSION_RESCHEDULED', {
+        sessionId: z.string().min(1),
+        oldDate: z.string(),
+        newDate: z.string(),
+        oldTimeSlot: z.string(),
+        newTimeSlot: z.string(),
+        trainerId: z.string(),
+        studentId: z.string(),
+      }),
+    },
+  ],
+  SESSION_SUBSTITUTED: [
+    {
+      version: 1,
+      schema: eventSchema('SESSION_SUBSTITUTED', {
+        sessionId: z.string(),
+        originalTrainerId: z.string(),
+        substituteTrainerId: z.string(),
+        studentId: z.string(),
+        date: z.string(),
+        timeSlot: z.string(),
+      }),
+    },
+  ],
+  SESSION_COMPLETED: [
+    {
+      version: 1,
+      schema: eventSchema('SESSION_COMPLETED', {
+        sessionId: z.string().min(1),
+        trainerId: z.string(),
+        studentId: z.string().min(1),
+        courseId: z.string().optional(),
+        completedAt: z.string(),
+        duration: z.number(),
+      }),
+    },
+  ],
+  COURSE_PROGRESS_UPDATED: [
+    {
+      version: 1,
+      schema: eventSchema('COURSE_PROGRESS_UPDATED', {
+        studentId: z.string().min(1),
+        courseId: z.string().min(1),
+        completedSessions: z.number(),
+        totalSessions: z.number(),
+        percentage: z.number(),
+        lastCompletedAt: z.string(),
+      }),
+    },
+  ],
+  COURSE_COMPLETED: [
+    {
+      version: 1,
+      schema: eventSchema('COURSE_COMPLETED', {
+        courseId: z.string().min(1),
+        studentId: z.string().min(1),
+        completionDate: z.string(),
+        totalSessions: z.number(),
+        completedSessions: z.number(),
+      }),
+    },
+  ],
+  CERTIFICATE_ISSUED: [
+    {
+      version: 1,
+      schema: eventSchema('CERTIFICATE_ISSUED', {
+        certificateId: z.string().min(1),
+        studentId: z.string().min(1),
+        courseId: z.string().min(1),
+        issuedAt: z.string(),
+        certificateUrl: z.string(),
+      }),
+    },
+  ],
+  ADMIN_OVERRIDE: [
+    {
+      version: 1,
+      schema: eventSchema('ADMIN_OVERRIDE', {
+        action: z.string(),
+        targetId: z.string(),
+        targetType: z.enum(['allocation', 'payroll', 'session']),
+        changes: record,
+        reason: z.string(),
+      }),
+    },
+  ],
+  PAYROLL_RECALCULATED: [
+    {
+      version: 1,
+      schema: eventSchema('PAYROLL_RECALCULATED', {
+        trainerId: z.string().min(1),
+        month: z.string(),
+        snapshotId: z.string(),
+        recalculatedBy: z.enum(['system', 'admin']),
+      }),
+    },
+  ],
+  NOTIFICATION_REQUESTED: [
+    {
+      version: 1,
+      schema: eventSchema('NOTIFICATION_REQUESTED', {
+        notificationType: z.enum(['info', 'success', 'warning', 'error', 'session', 'payment', 'allocation', 'system']),
+        title: z.string(),
+        body: z.string(),
+        deviceToken: z.string().optional(),
+        data: record.optional(),
+      }),
+    },
+  ],
+};
+
+function getVersions(eventType: string): EventSchemaVersion[] | null {
+  return (EVENT_SCHEMAS as Record<string, EventSchemaVersion[] | undefined>)[eventType] ?? null;
+}
+
+function formatIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Current (latest) schema version for an event type
+ */
+export function getCurrentSchemaVersion(eventType: BusinessEventType): number {
+  const versions = getVersions(eventType);
+  return versions?.[versions.length - 1]?.version ?? 1;
+}
+
+/**
+ * Validate an event against the current schema of its type (used before publishing).
+ * Throws EventValidationError.
+ */
+export function validateEvent<T extends BusinessEvent>(event: T): T {
+  const eventType = (event as { type?: unknown })?.type;
+  const versions = typeof eventType === 'string' ? getVersions(eventType) : null;
+  const current = versions?.[versions.length - 1];
+  if (!current) {
+    throw new EventValidationError(String(eventType), null, ['unknown event type']);
+  }
+
+  const result = current.schema.safeParse(event);
+  if (!result.success) {
+    throw new EventValidationError(String(eventType), current.version, formatIssues(result.error));
+  }
+  return event;
+}
+
+/**
+ * Bring a received payload up to the current schema version and validate it.
+ * `schemaVersion` is the version the producer stamped (missing = 1).
+ * Throws EventValidationError for unknown types, versions newer than this build knows,
+ * and payloads that fail validation.
+ */
+export function upcastEvent(payload: unknown, schemaVersion?: number | null): BusinessEvent {
+  const eventType = (payload as { type?: unknown } | null)?.type;
+  const versions = typeof eventType === 'string' ? getVersions(eventType) : null;
+  if (!versions || typeof payload !== 'object' || payload === null) {
+    throw new EventValidationError(String(eventType ?? 'unknown'), schemaVersion ?? null, ['unknown event type']);
+  }
+
+  const fromVersion = schemaVersion ?? 1;
+  const current = versions[versions.length - 1]!;
+  if (fromVersion > current.version) {
+    throw new EventValidationError(eventType as string, fromVersion, [
+      `schema version ${fromVersion} is newer than supported version ${current.version}`,
+    ]);
+  }
+  if (!versions.some((v) => v.version === fromVersion)) {
+    throw new EventValidationError(eventType as string, fromVersion, [`unknown schema version ${fromVersion}`]);
+  }
+
+  let upcasted = payload as Payload;
+  for (const step of versions) {
+    if (step.version > fromVersion && step.upcast) {
+      upcasted = step.upcast(upcasted);
+    }
+  }
+
+  const result = current.schema.safeParse(upcasted);
+  if (!result.success) {
+    throw new EventValidationError(eventType as string, current.version, formatIssues(result.error));
+  }
+  return upcasted as unknown as BusinessEvent;
+}
+
+/**
+ * Deserialize a Kafka message value into an EnrichedEvent at the current schema version.
+ * The schemaVersion header wins over _metadata.schemaVersion when both are present.
+ */
+export function deserializeEvent(raw: string, schemaVersionHeader?: string): EnrichedEvent {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error: any) {
+    throw new EventValidationError('unknown', null, [`invalid JSON: ${error?.message || String(error)}`]);
+  }
+
+  const headerVersion = schemaVersionHeader ? Number(schemaVersionHeader) : NaN;
+  const schemaVersion = Number.isInteger(headerVersion)
+    ? headerVersion
+    : typeof parsed?._metadata?.schemaVersion === 'number'
+      ? parsed._metadata.schemaVersion
+      : null;
+
+  const { _metadata, ...payload } = parsed ?? {};
+  const event = upcastEvent(payload, schemaVersion);
+  const type = event.type;
+
+  return {
+    ...event,
+    _metadata: {
+      ..._metadata,
+      schemaVersion: getCurrentSchemaVersion(type),
+    },
+  } as EnrichedEvent;
+}
@@ -7,6 +7,8 @@
 
 export type BusinessEventType =
   | 'PURCHASE_CONFIRMED' // Payment verified, ready for purchase creation
+  | 'PURCHASE_REFUNDED' // Payment fully or partially refunded
+  | 'COUPON_REDEEMED' // Payment that used a coupon succeeded (consumed by booking-service)
   | 'PURCHASE_CREATED' // Purchase record created in database
   | 'COURSE_ACCESS_GRANTED' // Course access granted to student (after purchase creation)
   | 'COURSE_PURCHASED' // Legacy event (deprecated, use PURCHASE_CREATED)
@@ -40,6 +42,29 @@ export interface PurchaseConfirmedEvent extends BaseBusinessEvent {
   metadata: Record<string, unknown>;
 }
 
+export interface PurchaseRefundedEvent extends BaseBusinessEvent {
+  type: 'PURCHASE_REFUNDED';
+  paymentId: string;
+  refundId: string;
+  studentId: string;
+  courseId: string | null;
+  refundAmountCents: number;
+  totalRefundedCents: number;
+  coinsReversed: number;
+  revokeAccess: boolean; // true = deactivate purchase and deallocate trainer
+  reason: string;
+}
+
+export interface CouponRedeemedEvent extends BaseBusinessEvent {
+  type: 'COUPON_REDEEMED';
+  paymentId: string;
+  studentId: string;
+  couponCode: string;
+  discountApplied: number; // Rupees, as priced at checkout
+  courseId: string | null;
+  amountCents: number;
+}
+
 export interface PurchaseCreatedEvent extends BaseBusinessEvent {
   type: 'PURCHASE_CREATED';
   purchaseId: string;
@@ -187,6 +212,8 @@ export interface NotificationRequestedEvent extends BaseBusinessEvent {
 
 export type BusinessEvent =
   | PurchaseConfirmedEvent
+  | PurchaseRefundedEvent
+  | CouponRedeemedEvent
   | PurchaseCreatedEvent
   | CourseAccessGrantedEvent
   | CoursePurchasedEvent
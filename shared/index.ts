@@ -11,6 +11,7 @@ export * from './config/logger';
 export * from './config/retryConfig';
 export * from './config/rateLimitConfig';
 export * from './config/accountLockoutConfig';
+export * from './config/jwtKeyConfig';
 export * from './config'; // Includes global-init side-effect
 
 // Database connections
@@ -29,10 +30,13 @@ export * from './utils/encryption';
 export * from './utils/helper';
 export * from './utils/responseBuilder';
 export * from './utils/tokenManager';
+export * from './utils/jwtKeyRing';
 export * from './utils/portHelper';
 export * from './utils/notificationClient';
 export * from './utils/retryQueue';
 export * from './utils/accountLockout';
+export * from './utils/trainerCapacity';
+export * from './utils/blackoutCalendar';
 export * from './utils/httpClient';
 export * from './utils/typeGuards';
 export * from './utils/errorMessages';
@@ -51,6 +55,8 @@ export * from './events/eventBus';
 export * from './events/kafkaClient';
 export * from './events/types';
 export * from './events/idempotentEventEmitter';
+export * from './events/outbox';
+export * from './events/schemaRegistry';
 
 // Workers
 export * from './worker';
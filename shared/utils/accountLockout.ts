@@ -1,128 +1,378 @@
 /**
  * Account Lockout Utility
- * Tracks failed login attempts and locks accounts
+ * Tracks failed login / OTP attempts in Redis so every service instance sees the same counters.
+ *
+ * - Per-identifier (email / phone) and per-IP counters, each with its own threshold
+ * - Progressive back-off: each successive lock of the same subject lasts longer
+ * - Lock and unlock events are written to account_lockout_events for auditing
+ * - Fails open when Redis is unavailable so logins keep working
  */
 
-interface FailedAttempt {
-	userId: string;
-	attempts: number;
-	lockedUntil: Date | null;
-	lastAttemptAt: Date;
-}
+import { getRedisClient } from '../databases/redis/connection';
+import logger from '../config/logger';
+import { accountLockoutConfig, type AccountLockoutConfig } from '../config/accountLockoutConfig';
 
-import { accountLockoutConfig } from '../config/accountLockoutConfig';
+const KEY_PREFIX = 'lockout:';
 
-// In-memory store (in production, use Redis)
-const failedAttempts: Map<string, FailedAttempt> = new Map();
+export type LockoutSubjectType = 'identifier' | 'ip';
 
-const MAX_ATTEMPTS = accountLockoutConfig.maxAttempts;
-const LOCKOUT_DURATION_MS = accountLockoutConfig.lockoutDurationMs;
+export type LockoutActor = {
+	type: 'system' | 'admin';
+	id?: string;
+	reason?: string;
+};
 
-/**
- * Record a failed login attempt
- */
-export function recordFailedAttempt(userId: string): void {
-	const now = new Date();
-	const existing = failedAttempts.get(userId);
-
-	if (!existing) {
-		failedAttempts.set(userId, {
-			userId,
-			attempts: 1,
-			lockedUntil: null,
-			lastAttemptAt: now,
-		});
-		return;
-	}
+export interface LockoutAuditQueryable {
+	query(text: string, params?: unknown[]): Promise<unknown>;
+}
 
-	// Reset if lockout expired
-	if (existing.lockedUntil && existing.lockedUntil < now) {
-		failedAttempts.set(userId, {
-			userId,
-			attempts: 1,
-			lockedUntil: null,
-			lastAttemptAt: now,
-		});
-		return;
-	}
+export interface LockStatus {
+	locked: boolean;
+	lockedUntil?: Date;
+	retryAfterSeconds?: number;
+	/** Whether the identifier or the client IP is locked */
+	subjectType?: LockoutSubjectType;
+}
 
-	// Increment attempts
-	existing.attempts++;
-	existing.lastAttemptAt = now;
+export interface FailedAttemptResult {
+	attempts: number;
+	remainingAttempts: number;
+	lockedUntil?: Date;
+}
 
-	// Lock account if max attempts reached
-	if (existing.attempts >= MAX_ATTEMPTS && !existing.lockedUntil) {
-		existing.lockedUntil = new Date(now.getTime() + LOCKOUT_DURATION_MS);
-	}
+export interface LockoutState {
+	scope: string;
+	subjectType: LockoutSubjectType;
+	subject: string;
+	attempts: number;
+	lockLevel: number;
+	lockedUntil: Date | null;
+}
 
-	failedAttempts.set(userId, existing);
+export interface AccountLockoutOptions {
+	/** e.g. 'student:login', 'trainer:otp' — counters are separate per scope */
+	scope: string;
+	/** Pool used for audit records; without it lock events are only logged */
+	auditPool?: LockoutAuditQueryable;
+	config?: Partial<AccountLockoutConfig>;
 }
 
+type LockRecord = {
+	until: number;
+	level: number;
+};
+
 /**
- * Clear failed attempts (on successful login)
+ * Create the lockout audit table (idempotent). Call from the service's table initialisation.
  */
-export function clearFailedAttempts(userId: string): void {
-	failedAttempts.delete(userId);
+export async function ensureLockoutAuditTable(pool: LockoutAuditQueryable): Promise<void> {
+	await pool.query(`
+		CREATE TABLE IF NOT EXISTS account_lockout_events (
+			id BIGSERIAL PRIMARY KEY,
+			scope VARCHAR(50) NOT NULL,
+			subject_type VARCHAR(20) NOT NULL CHECK (subject_type IN ('identifier', 'ip')),
+			subject TEXT NOT NULL,
+			user_id UUID,
+			event VARCHAR(20) NOT NULL CHECK (event IN ('locked', 'unlocked')),
+			lock_level INTEGER,
+			locked_until TIMESTAMPTZ,
+			attempts INTEGER,
+			ip TEXT,
+			actor_type VARCHAR(20) NOT NULL DEFAULT 'system' CHECK (actor_type IN ('system', 'admin')),
+			actor_id TEXT,
+			reason TEXT,
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+		);
+	`);
+	await pool.query(`
+		CREATE INDEX IF NOT EXISTS idx_account_lockout_events_subject
+		ON account_lockout_events(subject, created_at DESC);
+	`);
+	await pool.query(`
+		CREATE INDEX IF NOT EXISTS idx_account_lockout_events_user
+		ON account_lockout_events(user_id, created_at DESC) WHERE user_id IS NOT NULL;
+	`);
 }
 
 /**
- * Check if account is locked
+ * Lock duration for the given lock level (1 = first lock)
  */
-export function isAccountLocked(userId: string): { locked: boolean; lockedUntil?: Date } {
-	const attempt = failedAttempts.get(userId);
-	
-	if (!attempt) {
-		return { locked: false };
+export function getLockDurationMs(level: number, config: AccountLockoutConfig = accountLockoutConfig): number {
+	const duration = config.lockoutDurationMs * Math.pow(config.backoffMultiplier, Math.max(0, level - 1));
+	return Math.min(duration, config.maxLockoutDurationMs);
+}
+
+function normalizeSubject(subject: string): string {
+	return subject.trim().toLowerCase();
+}
+
+export class AccountLockout {
+	readonly scope: string;
+	private readonly config: AccountLockoutConfig;
+	private readonly auditPool: LockoutAuditQueryable | undefined;
+
+	constructor(options: AccountLockoutOptions) {
+		this.scope = options.scope;
+		this.config = { ...accountLockoutConfig, ...options.config };
+		this.auditPool = options.auditPool;
+	}
+
+	private key(type: LockoutSubjectType, subject: string, part: 'fails' | 'lock' | 'level'): string {
+		return `${KEY_PREFIX}${this.scope}:${type}:${normalizeSubject(subject)}:${part}`;
 	}
 
-	const now = new Date();
+	/**
+	 * Whether the identifier or the client IP is currently locked. Call before checking credentials.
+	 */
+	async check(identifier: string, ip?: string): Promise<LockStatus> {
+		try {
+			const redis = getRedisClient();
+			const keys = [this.key('identifier', identifier, 'lock'), ...(ip ? [this.key('ip', ip, 'lock')] : [])];
+			const values = await redis.mget(keys);
+			const now = Date.now();
 
-	// Check if lockout expired
-	if (attempt.lockedUntil && attempt.lockedUntil < now) {
-		// Clear expired lockout
-		failedAttempts.delete(userId);
-		return { locked: false };
+			let status: LockStatus = { locked: false };
+			values.forEach((value, index) => {
+				const record = value ? (JSON.parse(value) as LockRecord) : null;
+				if (record && record.until > now && (!status.lockedUntil || record.until > status.lockedUntil.getTime())) {
+					status = {
+						locked: true,
+						lockedUntil: new Date(record.until),
+						retryAfterSeconds: Math.ceil((record.until - now) / 1000),
+						subjectType: index === 0 ? 'identifier' : 'ip',
+					};
+				}
+			});
+			return status;
+		} catch (error: any) {
+			logger.warn('Lockout check failed, allowing attempt', {
+				error: error?.message || String(error),
+				scope: this.scope,
+				service: 'account-lockout',
+			});
+			return { locked: false };
+		}
 	}
 
-	if (attempt.lockedUntil && attempt.lockedUntil >= now) {
-		return { locked: true, lockedUntil: attempt.lockedUntil };
+	/**
+	 * Count a failed attempt against the identifier and (when known) the client IP.
+	 * Locks whichever reaches its threshold.
+	 */
+	async recordFailure(
+		identifier: string,
+		context: { ip?: string; userId?: string | null } = {}
+	): Promise<FailedAttemptResult> {
+		try {
+			const result = await this.increment('identifier', identifier, this.config.maxAttempts, context);
+			if (context.ip) {
+				await this.increment('ip', context.ip, this.config.ipMaxAttempts, context);
+			}
+			return {
+				attempts: result.attempts,
+				remainingAttempts: result.lockedUntil ? 0 : Math.max(0, this.config.maxAttempts - result.attempts),
+				...(result.lockedUntil && { lockedUntil: result.lockedUntil }),
+			};
+		} catch (error: any) {
+			logger.warn('Failed to record failed attempt', {
+				error: error?.message || String(error),
+				scope: this.scope,
+				service: 'account-lockout',
+			});
+			return { attempts: 0, remainingAttempts: this.config.maxAttempts };
+		}
 	}
 
-	return { locked: false };
-}
+	/**
+	 * Reset the identifier's failed attempts after a successful login. The lock level and the
+	 * IP counter are kept, so interleaving one valid login doesn't reset an attack's back-off.
+	 */
+	async recordSuccess(identifier: string): Promise<void> {
+		try {
+			await getRedisClient().del(this.key('identifier', identifier, 'fails'));
+		} catch (error: any) {
+			logger.warn('Failed to clear failed attempts', {
+				error: error?.message || String(error),
+				scope: this.scope,
+				service: 'account-lockout',
+			});
+		}
+	}
 
-/**
- * Get remaining attempts
- */
-export function getRemainingAttempts(userId: string): number {
-	const attempt = failedAttempts.get(userId);
-	if (!attempt) {
-		return MAX_ATTEMPTS;
+	/**
+	 * Remove a lock, its failed attempts and its back-off level. Returns whether a lock was active;
+	 * only active locks get an audit record.
+	 */
+	async unlock(
+		subjectType: LockoutSubjectType,
+		subject: string,
+		actor: LockoutActor,
+		userId?: string | null
+	): Promise<boolean> {
+		const redis = getRedisClient();
+		const lockKey = this.key(subjectType, subject, 'lock');
+		const [[, lockValue]] = (await redis
+			.multi()
+			.get(lockKey)
+			.del(lockKey, this.key(subjectType, subject, 'fails'), this.key(subjectType, subject, 'level'))
+			.exec()) as [[unknown, string | null], [unknown, number]];
+
+		const record = lockValue ? (JSON.parse(lockValue) as LockRecord) : null;
+		const wasLocked = !!record && record.until > Date.now();
+
+		logger.info('Lockout cleared', {
+			scope: this.scope,
+			subjectType,
+			wasLocked,
+			actorType: actor.type,
+			actorId: actor.id,
+			service: 'account-lockout',
+		});
+		if (!wasLocked) {
+			return false;
+		}
+		await this.audit({
+			subjectType,
+			subject,
+			userId: userId ?? null,
+			event: 'unlocked',
+			lockLevel: record?.level ?? null,
+			lockedUntil: record ? new Date(record.until) : null,
+			attempts: null,
+			ip: null,
+			actor,
+		});
+
+		return true;
 	}
 
-	const now = new Date();
-	if (attempt.lockedUntil && attempt.lockedUntil >= now) {
-		return 0;
+	async getState(subjectType: LockoutSubjectType, subject: string): Promise<LockoutState> {
+		const redis = getRedisClient();
+		const [fails, lock, level] = await redis.mget(
+			this.key(subjectType, subject, 'fails'),
+			this.key(subjectType, subject, 'lock'),
+			this.key(subjectType, subject, 'level')
+		);
+		const record = lock ? (JSON.parse(lock) as LockRecord) : null;
+
+		return {
+			scope: this.scope,
+			subjectType,
+			subject: normalizeSubject(subject),
+			attempts: Number(fails) || 0,
+			lockLevel: Number(level) || 0,
+			lockedUntil: record && record.until > Date.now() ? new Date(record.until) : null,
+		};
 	}
 
-	return Math.max(0, MAX_ATTEMPTS - attempt.attempts);
-}
+	private async increment(
+		subjectType: LockoutSubjectType,
+		subject: string,
+		maxAttempts: number,
+		context: { ip?: string; userId?: string | null }
+	): Promise<{ attempts: number; lockedUntil?: Date }> {
+		const redis = getRedisClient();
+		const failsKey = this.key(subjectType, subject, 'fails');
+		const [[, attempts]] = (await redis
+			.multi()
+			.incr(failsKey)
+			.pexpire(failsKey, this.config.maxAttemptAgeMs)
+			.exec()) as [[unknown, number], [unknown, number]];
 
-/**
- * Cleanup old failed attempts
- */
-function cleanupOldAttempts(): void {
-	const now = new Date();
-	const maxAge = accountLockoutConfig.maxAttemptAgeMs;
-	
-	for (const [userId, attempt] of failedAttempts.entries()) {
-		const age = now.getTime() - attempt.lastAttemptAt.getTime();
-		if (age > maxAge && (!attempt.lockedUntil || attempt.lockedUntil < now)) {
-			failedAttempts.delete(userId);
+		if (attempts < maxAttempts) {
+			return { attempts };
 		}
+
+		const levelKey = this.key(subjectType, subject, 'level');
+		const lockKey = this.key(subjectType, subject, 'lock');
+		const level = (Number(await redis.get(levelKey)) || 0) + 1;
+		const durationMs = getLockDurationMs(level, this.config);
+		const until = Date.now() + durationMs;
+
+		// NX: concurrent failures past the threshold must not stack extra levels
+		const set = await redis.set(lockKey, JSON.stringify({ until, level } satisfies LockRecord), 'PX', durationMs, 'NX');
+		if (set !== 'OK') {
+			return { attempts };
+		}
+
+		await redis
+			.multi()
+			.set(levelKey, String(level), 'PX', durationMs + this.config.lockLevelResetMs)
+			.del(failsKey)
+			.exec();
+
+		const lockedUntil = new Date(until);
+		logger.warn('Lockout applied', {
+			scope: this.scope,
+			subjectType,
+			level,
+			lockedUntil: lockedUntil.toISOString(),
+			userId: context.userId ?? null,
+			ip: context.ip,
+			service: 'account-lockout',
+		});
+		await this.audit({
+			subjectType,
+			subject,
+			userId: subjectType === 'identifier' ? context.userId ?? null : null,
+			event: 'locked',
+			lockLevel: level,
+			lockedUntil,
+			attempts,
+			ip: context.ip ?? null,
+			actor: { type: 'system' },
+		});
+
+		return { attempts, lockedUntil };
 	}
-}
 
-// Run cleanup at configured interval
-setInterval(cleanupOldAttempts, accountLockoutConfig.cleanupIntervalMs);
+	private async audit(entry: {
+		subjectType: LockoutSubjectType;
+		subject: string;
+		userId: string | null;
+		event: 'locked' | 'unlocked';
+		lockLevel: number | null;
+		lockedUntil: Date | null;
+		attempts: number | null;
+		ip: string | null;
+		actor: LockoutActor;
+	}): Promise<void> {
+		if (!this.auditPool) {
+			return;
+		}
+		try {
+			await this.auditPool.query(
+				`
+					INSERT INTO account_lockout_events
+						(scope, subject_type, subject, user_id, event, lock_level, locked_until, attempts, ip, actor_type, actor_id, reason)
+					VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+				`,
+				[
+					this.scope,
+					entry.subjectType,
+					normalizeSubject(entry.subject),
+					entry.userId,
+					entry.event,
+					entry.lockLevel,
+					entry.lockedUntil,
+					entry.attempts,
+					entry.ip,
+					entry.actor.type,
+					entry.actor.id ?? null,
+					entry.actor.reason ?? null,
+				]
+			);
+		} catch (error: any) {
+			// Auditing must not turn a lockout into a failed request
+			logger.error('Failed to write lockout audit record', {
+				error: error?.message || String(error),
+				scope: this.scope,
+				event: entry.event,
+				service: 'account-lockout',
+			});
+		}
+	}
+}
 
+export function createAccountLockout(options: AccountLockoutOptions): AccountLockout {
+	return new AccountLockout(options);
+}
@@ -0,0 +1,381 @@
+/**
+ * Admin Audit Log
+ * Append-only record of privileged admin actions: who acted, under which permission, on what,
+ * the before/after state, the stated reason and where the request came from.
+ *
+ * Entries live in the shared `admin_audit_log` table (managed by admin-service). Each entry stores
+ * the hash of its predecessor and a SHA-256 over its own content, so editing, deleting or
+ * re-ordering rows breaks the chain and shows up in verifyAdminAuditChain(). UPDATE, DELETE and
+ * TRUNCATE are additionally refused by a trigger.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import type { Request } from 'express';
+import { getClientIp } from './deviceInfo';
+
+export type AuditActorType = 'admin' | 'system';
+
+export interface AuditLogQueryResult<T> {
+	rows: T[];
+}
+
+export interface AuditLogClient {
+	query: <T = any>(text: string, params?: any[]) => Promise<AuditLogQueryResult<T>>;
+	release: () => void;
+}
+
+export interface AuditLogPool {
+	query: <T = any>(text: string, params?: any[]) => Promise<AuditLogQueryResult<T>>;
+	connect: () => Promise<AuditLogClient>;
+}
+
+export interface AuditFieldChange {
+	from: unknown;
+	to: unknown;
+}
+
+export interface AdminAuditEntryInput {
+	actorId: string | null;
+	actorType?: AuditActorType;
+	actorRoles?: string[];
+	/** Permission code the action was authorised under; null when the route is not permission-gated */
+	permission?: string | null;
+	/** Verb-like code, e.g. "trainer.approve", "allocation.update" */
+	action: string;
+	entityType: string;
+	entityId?: string | null;
+	before?: unknown;
+	after?: unknown;
+	reason?: string | null;
+	ipAddress?: string | null;
+	userAgent?: string | null;
+	correlationId?: string | null;
+	/** Service that performed the action */
+	service: string;
+	metadata?: Record<string, unknown> | null;
+}
+
+export interface AdminAuditLogEntry {
+	id: string;
+	seq: number;
+	actorId: string | null;
+	actorType: AuditActorType;
+	actorRoles: string[];
+	permission: string | null;
+	action: string;
+	entityType: string;
+	entityId: string | null;
+	before: unknown;
+	after: unknown;
+	changes: Record<string, AuditFieldChange> | null;
+	reason: string | null;
+	ipAddress: string | null;
+	userAgent: string | null;
+	correlationId: string | null;
+	service: string;
+	metadata: Record<string, unknown> | null;
+	createdAt: Date;
+	prevHash: string | null;
+	entryHash: string;
+}
+
+export interface AuditChainVerification {
+	valid: boolean;
+	checked: number;
+	/** First entry whose hash or link does not match */
+	brokenAt: { seq: number; id: string; reason: 'hash_mismatch' | 'chain_break' } | null;
+}
+
+export const ADMIN_AUDIT_LOG_COLUMNS = `
+	id,
+	seq,
+	actor_id AS "actorId",
+	actor_type AS "actorType",
+	actor_roles AS "actorRoles",
+	permission,
+	action,
+	entity_type AS "entityType",
+	entity_id AS "entityId",
+	before,
+	after,
+	changes,
+	reason,
+	ip_address AS "ipAddress",
+	user_agent AS "userAgent",
+	correlation_id AS "correlationId",
+	service,
+	metadata,
+	created_at AS "createdAt",
+	prev_hash AS "prevHash",
+	entry_hash AS "entryHash"
+`;
+
+/** Serialises appends so every entry links to the one before it */
+const CHAIN_LOCK_KEY = 0x61756474; // "audt"
+
+const VERIFY_BATCH_SIZE = 1000;
+
+/**
+ * Create the audit log table and its append-only guard (idempotent)
+ */
+export async function ensureAdminAuditLogTable(pool: Pick<AuditLogPool, 'query'>): Promise<void> {
+	await pool.query(`
+		CREATE TABLE IF NOT EXISTS admin_audit_log (
+			id UUID PRIMARY KEY,
+			seq BIGSERIAL UNIQUE,
+			actor_id UUID,
+			actor_type TEXT NOT NULL DEFAULT 'admin' CHECK (actor_type IN ('admin', 'system')),
+			actor_roles TEXT[] NOT NULL DEFAULT '{}',
+			permission TEXT,
+			action TEXT NOT NULL,
+			entity_type TEXT NOT NULL,
+			entity_id TEXT,
+			before JSONB,
+			after JSONB,
+			changes JSONB,
+			reason TEXT,
+			ip_address TEXT,
+			user_agent TEXT,
+			correlation_id TEXT,
+			service TEXT NOT NULL,
+			metadata JSONB,
+			created_at TIMESTAMPTZ NOT NULL,
+			prev_hash CHAR(64),
+			entry_hash CHAR(64) NOT NULL UNIQUE
+		);
+		CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log(created_at DESC);
+		CREATE INDEX IF NOT EXISTS idx_admin_audit_log_entity ON admin_audit_log(entity_type, entity_id);
+		CREATE INDEX IF NOT EXISTS idx_admin_audit_log_actor ON admin_audit_log(actor_id, created_at DESC);
+		CREATE INDEX IF NOT EXISTS idx_admin_audit_log_correlation ON admin_audit_log(correlation_id);
+	`);
+
+	await pool.query(`
+		CREATE OR REPLACE FUNCTION admin_audit_log_append_only() RETURNS trigger AS $$
+		BEGIN
+			RAISE EXCEPTION 'admin_audit_log is append-only';
+		END;
+		$$ LANGUAGE plpgsql;
+
+		DROP TRIGGER IF EXISTS trg_admin_audit_log_no_modify ON admin_audit_log;
+		CREATE TRIGGER trg_admin_audit_log_no_modify
+			BEFORE UPDATE OR DELETE ON admin_audit_log
+			FOR EACH ROW EXECUTE FUNCTION admin_audit_log_append_only();
+
+		DROP TRIGGER IF EXISTS trg_admin_audit_log_no_truncate ON admin_audit_log;
+		CREATE TRIGGER trg_admin_audit_log_no_truncate
+			BEFORE TRUNCATE ON admin_audit_log
+			FOR EACH STATEMENT EXECUTE FUNCTION admin_audit_log_append_only();
+	`);
+}
+
+/**
+ * JSON with object keys sorted at every level, so the same value always hashes the same
+ * (JSONB does not preserve key order)
+ */
+function canonicalJson(value: unknown): string {
+	if (value === undefined || value === null) {
+		return 'null';
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map(canonicalJson).join(',')}]`;
+	}
+	if (typeof value === 'object') {
+		const entries = Object.keys(value as Record<string, unknown>)
+			.filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+			.sort()
+			.map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+		return `{${entries.join(',')}}`;
+	}
+	return JSON.stringify(value);
+}
+
+/**
+ * Normalise a value the way a JSONB round trip would (dates become strings, undefined is dropped)
+ */
+function toJsonValue(value: unknown): unknown {
+	if (value === undefined || value === null) {
+		return null;
+	}
+	return JSON.parse(JSON.stringify(value));
+}
+
+function computeEntryHash(prevHash: string | null, entry: Omit<AdminAuditLogEntry, 'seq' | 'prevHash' | 'entryHash'>): string {
+	const payload = canonicalJson({
+		prevHash,
+		id: entry.id,
+		actorId: entry.actorId,
+		actorType: entry.actorType,
+		actorRoles: entry.actorRoles,
+		permission: entry.permission,
+		action: entry.action,
+		entityType: entry.entityType,
+		entityId: entry.entityId,
+		before: entry.before,
+		after: entry.after,
+		changes: entry.changes,
+		reason: entry.reason,
+		ipAddress: entry.ipAddress,
+		userAgent: entry.userAgent,
+		correlationId: entry.correlationId,
+		service: entry.service,
+		metadata: entry.metadata,
+		createdAt: new Date(entry.createdAt).toISOString(),
+	});
+	return createHash('sha256').update(payload).digest('hex');
+}
+
+/**
+ * Top-level fields whose value differs between the two states
+ */
+export function diffAuditStates(before: unknown, after: unknown): Record<string, AuditFieldChange> | null {
+	const isObject = (value: unknown): value is Record<string, unknown> =>
+		!!value && typeof value === 'object' && !Array.isArray(value);
+
+	if (!isObject(before) && !isObject(after)) {
+		return canonicalJson(before) === canonicalJson(after) ? null : { value: { from: before ?? null, to: after ?? null } };
+	}
+
+	const from = isObject(before) ? before : {};
+	const to = isObject(after) ? after : {};
+	const changes: Record<string, AuditFieldChange> = {};
+	for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+		if (canonicalJson(from[key]) !== canonicalJson(to[key])) {
+			changes[key] = { from: from[key] ?? null, to: to[key] ?? null };
+		}
+	}
+	return Object.keys(changes).length > 0 ? changes : null;
+}
+
+/**
+ * Append an entry to the chain. Throws if the write fails; callers decide whether that is fatal.
+ */
+export async function appendAdminAuditLog(pool: AuditLogPool, input: AdminAuditEntryInput): Promise<AdminAuditLogEntry> {
+	const before = toJsonValue(input.before);
+	const after = toJsonValue(input.after);
+	const entry = {
+		id: randomUUID(),
+		actorId: input.actorId,
+		actorType: input.actorType ?? 'admin',
+		actorRoles: input.actorRoles ?? [],
+		permission: input.permission ?? null,
+		action: input.action,
+		entityType: input.entityType,
+		entityId: input.entityId ?? null,
+		before,
+		after,
+		changes: toJsonValue(diffAuditStates(before, after)) as Record<string, AuditFieldChange> | null,
+		reason: input.reason ?? null,
+		ipAddress: input.ipAddress ?? null,
+		userAgent: input.userAgent ? input.userAgent.slice(0, 500) : null,
+		correlationId: input.correlationId ?? null,
+		service: input.service,
+		metadata: (toJsonValue(input.metadata) as Record<string, unknown> | null) ?? null,
+		createdAt: new Date(),
+	};
+
+	const client = await pool.connect();
+	try {
+		await client.query('BEGIN');
+		await client.query('SELECT pg_advisory_xact_lock($1)', [CHAIN_LOCK_KEY]);
+
+		const last = await client.query<{ entryHash: string }>(
+			`SELECT entry_hash AS "entryHash" FROM admin_audit_log ORDER BY seq DESC LIMIT 1`
+		);
+		const prevHash = last.rows[0]?.entryHash ?? null;
+		const entryHash = computeEntryHash(prevHash, entry);
+
+		const result = await client.query<AdminAuditLogEntry>(
+			`
+				INSERT INTO admin_audit_log (
+					id, actor_id, actor_type, actor_roles, permission, action, entity_type, entity_id,
+					before, after, changes, reason, ip_address, user_agent, correlation_id, service,
+					metadata, created_at, prev_hash, entry_hash
+				)
+				VALUES (
+					$1, $2, $3, $4, $5, $6, $7, $8,
+					$9::jsonb, $10::jsonb, $11::jsonb, $12, $13, $14, $15, $16,
+					$17::jsonb, $18, $19, $20
+				)
+				RETURNING ${ADMIN_AUDIT_LOG_COLUMNS}
+			`,
+			[
+				entry.id,
+				entry.actorId,
+				entry.actorType,
+				entry.actorRoles,
+				entry.permission,
+				entry.action,
+				entry.entityType,
+				entry.entityId,
+				JSON.stringify(entry.before),
+				JSON.stringify(entry.after),
+				JSON.stringify(entry.changes),
+				entry.reason,
+				entry.ipAddress,
+				entry.userAgent,
+				entry.correlationId,
+				entry.service,
+				JSON.stringify(entry.metadata),
+				entry.createdAt,
+				prevHash,
+				entryHash,
+			]
+		);
+
+		await client.query('COMMIT');
+		const row = result.rows[0]!;
+		return { ...row, seq: Number(row.seq) };
+	} catch (error) {
+		await client.query('ROLLBACK');
+		throw error;
+	} finally {
+		client.release();
+	}
+}
+
+/**
+ * Walk the chain in order, recomputing each hash and checking each link
+ */
+export async function verifyAdminAuditChain(pool: Pick<AuditLogPool, 'query'>): Promise<AuditChainVerification> {
+	let prevHash: string | null = null;
+	let lastSeq = 0;
+	let checked = 0;
+
+	for (;;) {
+		const batch: AuditLogQueryResult<AdminAuditLogEntry> = await pool.query<AdminAuditLogEntry>(
+			`SELECT ${ADMIN_AUDIT_LOG_COLUMNS} FROM admin_audit_log WHERE seq > $1 ORDER BY seq ASC LIMIT $2`,
+			[lastSeq, VERIFY_BATCH_SIZE]
+		);
+
+		for (const row of batch.rows) {
+			const seq = Number(row.seq);
+			if ((row.prevHash ?? null) !== prevHash) {
+				return { valid: false, checked, brokenAt: { seq, id: row.id, reason: 'chain_break' } };
+			}
+			if (computeEntryHash(row.prevHash ?? null, row) !== row.entryHash) {
+				return { valid: false, checked, brokenAt: { seq, id: row.id, reason: 'hash_mismatch' } };
+			}
+			prevHash = row.entryHash;
+			lastSeq = seq;
+			checked += 1;
+		}
+
+		if (batch.rows.length < VERIFY_BATCH_SIZE) {
+			return { valid: true, checked, brokenAt: null };
+		}
+	}
+}
+
+/**
+ * Request-derived fields for an audit entry
+ */
+export function auditRequestContext(req: Request): Pick<AdminAuditEntryInput, 'ipAddress' | 'userAgent' | 'correlationId'> {
+	const correlationHeader = req.headers['x-correlation-id'];
+
+	return {
+		ipAddress: getClientIp(req) || req.socket?.remoteAddress || null,
+		userAgent: req.get('user-agent') ?? null,
+		correlationId:
+			req.correlationId || (Array.isArray(correlationHeader) ? correlationHeader[0] : correlationHeader) || null,
+	};
+}
@@ -0,0 +1,252 @@
+/**
+ * Blackout Calendar
+ * Dates on which sessions must not be scheduled: national, state, city and franchise holidays,
+ * exam-season blackouts and per-trainer leave.
+ *
+ * Blocks live in the shared `calendar_blocks` table (managed by admin-service) and are read by
+ * booking-service schedule generation and admin-service session creation.
+ */
+
+import type { Pool, PoolClient } from 'pg';
+import logger from '../config/logger';
+
+export type CalendarBlockScope = 'national' | 'state' | 'city' | 'franchise' | 'trainer';
+export type CalendarBlockKind = 'holiday' | 'exam_blackout' | 'trainer_leave';
+
+export const CALENDAR_BLOCK_SCOPES: readonly CalendarBlockScope[] = ['national', 'state', 'city', 'franchise', 'trainer'];
+export const CALENDAR_BLOCK_KINDS: readonly CalendarBlockKind[] = ['holiday', 'exam_blackout', 'trainer_leave'];
+
+export interface CalendarBlock {
+	id: string;
+	scope: CalendarBlockScope;
+	/** State name, city id, franchise id or trainer id; null for national blocks */
+	scopeRef: string | null;
+	kind: CalendarBlockKind;
+	name: string;
+	/** Inclusive, YYYY-MM-DD */
+	startDate: string;
+	/** Inclusive, YYYY-MM-DD */
+	endDate: string;
+	notes: string | null;
+	isActive: boolean;
+	createdBy: string | null;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+/**
+ * Where a schedule applies. Only blocks whose scope matches one of these (or national blocks) apply.
+ */
+export interface CalendarScopeContext {
+	state?: string | null;
+	cityId?: string | null;
+	franchiseId?: string | null;
+	trainerId?: string | null;
+}
+
+export const CALENDAR_BLOCK_COLUMNS = `
+	id,
+	scope,
+	scope_ref AS "scopeRef",
+	kind,
+	name,
+	to_char(start_date, 'YYYY-MM-DD') AS "startDate",
+	to_char(end_date, 'YYYY-MM-DD') AS "endDate",
+	notes,
+	is_active AS "isActive",
+	created_by AS "createdBy",
+	created_at AS "createdAt",
+	updated_at AS "updatedAt"
+`;
+
+/** Safety net for date-walking loops over long blackout periods */
+export const MAX_BLOCKED_DAYS_SKIPPED = 366;
+
+/**
+ * Local calendar date as YYYY-MM-DD (sessions are scheduled by local date, not UTC)
+ */
+export function toDateKey(date: Date | string): string {
+	if (typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+		return date;
+	}
+	const value = typeof date === 'string' ? new Date(date) : date;
+	return `${value.getFullYear()}-${String(value.getMonth() + 1).padStart(2, '0')}-${String(value.getDate()).padStart(2, '0')}`;
+}
+
+export function calendarBlockAppliesTo(block: CalendarBlock, context: CalendarScopeContext): boolean {
+	if (!block.isActive) {
+		return false;
+	}
+	switch (block.scope) {
+		case 'national':
+			return true;
+		case 'state':
+			return !!context.state && !!block.scopeRef && block.scopeRef.trim().toLowerCase() === context.state.trim().toLowerCase();
+		case 'city':
+			return !!context.cityId && block.scopeRef === context.cityId;
+		case 'franchise':
+			return !!context.franchiseId && block.scopeRef === context.franchiseId;
+		case 'trainer':
+			return !!context.trainerId && block.scopeRef === context.trainerId;
+	}
+}
+
+/**
+ * What schedule generators need from the calendar
+ */
+export interface BlockedDateLookup {
+	isBlocked(date: Date | string): boolean;
+	blockFor(date: Date | string): CalendarBlock | undefined;
+}
+
+/**
+ * Blocked dates for one scope context, keyed by YYYY-MM-DD
+ */
+export class BlockedDates implements BlockedDateLookup {
+	private readonly byDate = new Map<string, CalendarBlock>();
+
+	constructor(blocks: CalendarBlock[] = [], context: CalendarScopeContext = {}) {
+		for (const block of blocks) {
+			if (!calendarBlockAppliesTo(block, context)) {
+				continue;
+			}
+			const cursor = new Date(`${block.startDate}T00:00:00`);
+			const end = new Date(`${block.endDate}T00:00:00`);
+			for (let days = 0; cursor <= end && days <= MAX_BLOCKED_DAYS_SKIPPED; days++) {
+				const key = toDateKey(cursor);
+				// Keep the first block per date; holidays are listed before leave (see loadBlockedDates)
+				if (!this.byDate.has(key)) {
+					this.byDate.set(key, block);
+				}
+				cursor.setDate(cursor.getDate() + 1);
+			}
+		}
+	}
+
+	static empty(): BlockedDates {
+		return new BlockedDates();
+	}
+
+	get size(): number {
+		return this.byDate.size;
+	}
+
+	isBlocked(date: Date | string): boolean {
+		return this.byDate.has(toDateKey(date));
+	}
+
+	blockFor(date: Date | string): CalendarBlock | undefined {
+		return this.byDate.get(toDateKey(date));
+	}
+}
+
+export async function ensureCalendarBlockTable(poolOrClient: Pool | PoolClient): Promise<void> {
+	await poolOrClient.query(`
+		CREATE TABLE IF NOT EXISTS calendar_blocks (
+			id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+			scope TEXT NOT NULL CHECK (scope IN ('national', 'state', 'city', 'franchise', 'trainer')),
+			scope_ref TEXT,
+			kind TEXT NOT NULL DEFAULT 'holiday' CHECK (kind IN ('holiday', 'exam_blackout', 'trainer_leave')),
+			name TEXT NOT NULL,
+			start_date DATE NOT NULL,
+			end_date DATE NOT NULL,
+			notes TEXT,
+			is_active BOOLEAN NOT NULL DEFAULT true,
+			created_by UUID,
+			sessions_scanned_at TIMESTAMPTZ, -- last reschedule-proposal scan (admin-service job)
+			created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+			updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+			CHECK (end_date >= start_date),
+			CHECK ((scope = 'national') = (scope_ref IS NULL))
+		);
+	`);
+
+	await poolOrClient.query(`
+		CREATE INDEX IF NOT EXISTS idx_calendar_blocks_dates ON calendar_blocks(start_date, end_date) WHERE is_active = true;
+		CREATE INDEX IF NOT EXISTS idx_calendar_blocks_scope ON calendar_blocks(scope, scope_ref);
+	`);
+}
+
+/**
+ * Active blocks overlapping [from, to] that apply to the context.
+ * Fails open: if the calendar can't be read, schedules are generated without it.
+ */
+export async function loadBlockedDates(
+	db: Pool | PoolClient,
+	context: CalendarScopeContext,
+	from: Date | string,
+	to: Date | string
+): Promise<BlockedDates> {
+	try {
+		const result = await db.query<CalendarBlock>(
+			`
+				SELECT ${CALENDAR_BLOCK_COLUMNS}
+				FROM calendar_blocks
+				WHERE is_active = true
+					AND start_date <= $2::date
+					AND end_date >= $1::date
+					AND (
+						scope = 'national'
+						OR (scope = 'state' AND LOWER(scope_ref) = LOWER($3))
+						OR (scope = 'city' AND scope_ref = $4)
+						OR (scope = 'franchise' AND scope_ref = $5)
+						OR (scope = 'trainer' AND scope_ref = $6)
+					)
+				ORDER BY (kind = 'trainer_leave'), start_date
+			`,
+			[
+				toDateKey(from),
+				toDateKey(to),
+				context.state ?? null,
+				context.cityId ?? null,
+				context.franchiseId ?? null,
+				context.trainerId ?? null,
+			]
+		);
+		return new BlockedDates(result.rows, context);
+	} catch (error: any) {
+		logger.warn('Blackout calendar unavailable, scheduling without it', {
+			error: error?.message || String(error),
+			code: error?.code,
+		});
+		return BlockedDates.empty();
+	}
+}
+
+/**
+ * City, state and franchise for a location, from the nearest active cluster within maxDistanceKm
+ */
+export async function resolveCalendarScopeForLocation(
+	db: Pool | PoolClient,
+	location: { latitude: number; longitude: number },
+	maxDistanceKm = 50
+): Promise<CalendarScopeContext> {
+	try {
+		const result = await db.query<{ city_id: string; state: string | null; franchise_id: string | null; distance: number }>(
+			`
+				SELECT c.id AS city_id, c.state, c.franchise_id,
+					6371 * acos(LEAST(1, GREATEST(-1,
+						cos(radians($1)) * cos(radians(cl.center_latitude)) *
+						cos(radians(cl.center_longitude) - radians($2)) +
+						sin(radians($1)) * sin(radians(cl.center_latitude))
+					))) AS distance
+				FROM clusters cl
+				JOIN cities c ON c.id = cl.city_id
+				WHERE cl.is_active = true
+				ORDER BY distance ASC
+				LIMIT 1
+			`,
+			[location.latitude, location.longitude]
+		);
+		const row = result.rows[0];
+		if (!row || Number(row.distance) > maxDistanceKm) {
+			return {};
+		}
+		return { cityId: row.city_id, state: row.state, franchiseId: row.franchise_id };
+	} catch (error: any) {
+		logger.warn('Could not resolve calendar scope for location', {
+			error: error?.message || String(error),
+		});
+		return {};
+	}
+}
@@ -0,0 +1,171 @@
+/**
+ * Device and location details for login sessions
+ *
+ * - Platform and a readable device name from the User-Agent (or app-supplied headers)
+ * - Client IP from the proxy-appended end of X-Forwarded-For (services sit behind the load balancer)
+ * - City from a trusted edge header (IP_CITY_HEADER) or an optional IP geolocation lookup
+ */
+
+import type { Request } from 'express';
+import { createHash } from 'crypto';
+import { getRedisClient } from '../databases/redis/connection';
+import { httpRequest } from './httpClient';
+import logger from '../config/logger';
+
+const GEO_CACHE_PREFIX = 'geo:ip:';
+const GEO_CACHE_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+const GEO_LOOKUP_TIMEOUT_MS = 1500;
+
+export type DevicePlatform = 'android' | 'ios' | 'windows' | 'macos' | 'linux' | 'web' | 'unknown';
+
+export interface DeviceInfo {
+	platform: DevicePlatform;
+	deviceName: string;
+}
+
+export interface SessionMeta {
+	ip?: string;
+	userAgent?: string;
+	/** Stable id sent by the mobile app (X-Device-Id) */
+	deviceId?: string;
+	/** Name sent by the mobile app (X-Device-Name), e.g. "Pixel 7" */
+	deviceName?: string;
+	city?: string;
+}
+
+function headerValue(req: Request, name: string): string | undefined {
+	const value = req.headers[name.toLowerCase()];
+	const first = Array.isArray(value) ? value[0] : value;
+	const trimmed = first?.trim();
+	return trimmed ? trimmed : undefined;
+}
+
+function detectBrowser(ua: string): string | null {
+	if (/edg\//i.test(ua)) return 'Edge';
+	if (/opr\/|opera/i.test(ua)) return 'Opera';
+	if (/samsungbrowser/i.test(ua)) return 'Samsung Internet';
+	if (/chrome\/|crios\//i.test(ua)) return 'Chrome';
+	if (/firefox\/|fxios\//i.test(ua)) return 'Firefox';
+	if (/safari\//i.test(ua)) return 'Safari';
+	return null;
+}
+
+/**
+ * Best-effort platform and device name. App-supplied names win over User-Agent parsing.
+ */
+export function describeDevice(userAgent?: string, hints: { deviceName?: string } = {}): DeviceInfo {
+	const ua = userAgent || '';
+	let platform: DevicePlatform = 'unknown';
+	if (/android/i.test(ua)) platform = 'android';
+	else if (/iphone|ipad|ipod|\bios\b|cfnetwork|darwin/i.test(ua)) platform = 'ios';
+	else if (/windows/i.test(ua)) platform = 'windows';
+	else if (/macintosh|mac os x/i.test(ua)) platform = 'macos';
+	else if (/linux|cros/i.test(ua)) platform = 'linux';
+	else if (/mozilla/i.test(ua)) platform = 'web';
+
+	if (hints.deviceName) {
+		return { platform, deviceName: hints.deviceName.slice(0, 100) };
+	}
+
+	const osLabel: Record<DevicePlatform, string> = {
+		android: 'Android',
+		ios: /ipad/i.test(ua) ? 'iPad' : 'iPhone',
+		windows: 'Windows',
+		macos: 'Mac',
+		linux: 'Linux',
+		web: 'Web',
+		unknown: 'Unknown device',
+	};
+	const browser = detectBrowser(ua);
+	// Native app requests (okhttp, CFNetwork, Expo) don't carry a browser token
+	const deviceName = browser && platform !== 'unknown' ? `${browser} on ${osLabel[platform]}` : osLabel[platform];
+
+	return { platform, deviceName };
+}
+
+/**
+ * Key used to recognise a device across logins: the app-supplied id when present,
+ * otherwise platform + device name (browser family and OS for web).
+ */
+export function getDeviceKey(meta: { deviceId?: string; platform: string; deviceName: string }): string {
+	const source = meta.deviceId ? `id:${meta.deviceId}` : `ua:${meta.platform}:${meta.deviceName}`;
+	return createHash('sha256').update(source).digest('hex').slice(0, 32);
+}
+
+/**
+ * Client IP: the X-Forwarded-For hop appended by our own proxies, else the socket address.
+ * Proxies append on the right, so the address is TRUSTED_PROXY_HOPS from the right (default 1,
+ * the load balancer); anything further left was sent by the client and can be forged.
+ */
+export function getClientIp(req: Request): string | undefined {
+	const forwarded = headerValue(req, 'x-forwarded-for');
+	const hops = forwarded?.split(',').map((hop) => hop.trim()).filter(Boolean) ?? [];
+	const trustedHops = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1);
+	return hops[Math.max(0, hops.length - trustedHops)] || req.ip || undefined;
+}
+
+/**
+ * Session metadata for a login request. Auth controllers pass this to the login services.
+ */
+export function getSessionMetaFromRequest(req: Request): SessionMeta & { userAgent: string } {
+	const ip = getClientIp(req);
+	const deviceId = headerValue(req, 'x-device-id');
+	const deviceName = headerValue(req, 'x-device-name');
+	const cityHeader = process.env.IP_CITY_HEADER;
+	const city = cityHeader ? headerValue(req, cityHeader) : undefined;
+
+	return {
+		...(ip && { ip }),
+		userAgent: req.headers['user-agent'] || '',
+		...(deviceId && { deviceId: deviceId.slice(0, 200) }),
+		...(deviceName && { deviceName: deviceName.slice(0, 100) }),
+		...(city && { city: decodeURIComponent(city) }),
+	};
+}
+
+function isPrivateIp(ip: string): boolean {
+	const v4 = ip.replace(/^::ffff:/, '');
+	return (
+		v4 === '::1' ||
+		v4.startsWith('127.') ||
+		v4.startsWith('10.') ||
+		v4.startsWith('192.168.') ||
+		/^172\.(1[6-9]|2\d|3[01])\./.test(v4) ||
+		/^f[cd]/i.test(v4)
+	);
+}
+
+/**
+ * Resolve a city for an IP via IP_GEOLOCATION_URL (e.g. "https://ipinfo.io/{ip}/json?token=...").
+ * The response must contain a `city` field. Returns null when not configured or on any failure.
+ */
+export async function lookupIpCity(ip?: string): Promise<string | null> {
+	const urlTemplate = process.env.IP_GEOLOCATION_URL;
+	if (!urlTemplate || !ip || isPrivateIp(ip)) {
+		return null;
+	}
+
+	const cacheKey = `${GEO_CACHE_PREFIX}${ip}`;
+	try {
+		const redis = getRedisClient();
+		const cached = await redis.get(cacheKey);
+		if (cached !== null) {
+			return cached || null;
+		}
+
+		const response = await httpRequest(urlTemplate.replace('{ip}', encodeURIComponent(ip)), {
+			timeout: GEO_LOOKUP_TIMEOUT_MS,
+		});
+		const city = response.statusCode === 200 ? (JSON.parse(response.data)?.city as string | undefined) : undefined;
+
+		// Cache misses too (as empty string) so unknown IPs aren't looked up on every login
+		await redis.setex(cacheKey, GEO_CACHE_TTL_SECONDS, city || '');
+		return city || null;
+	} catch (error: any) {
+		logger.debug('IP city lookup failed', {
+			error: error?.message || String(error),
+			service: 'device-info',
+		});
+		return null;
+	}
+}
@@ -0,0 +1,388 @@
+/**
+ * JWT Key Ring
+ * Asymmetric signing keys (RS256 / EdDSA) identified by `kid`.
+ *
+ * - The active key of each use (access / refresh) signs new tokens
+ * - Rotated keys stay valid for verification until their `verifyUntil` (grace window)
+ * - Issuers publish access-token public keys as JWKS; verifiers without the key ring
+ *   resolve unknown key ids from JWT_JWKS_URLS and cache them
+ *
+ * The ring is a JSON file (JWT_KEYS_FILE) or inline env (JWT_KEYS) managed with `pnpm jwt-keys`.
+ */
+
+import type { RequestHandler } from 'express';
+import {
+	createPrivateKey,
+	createPublicKey,
+	generateKeyPairSync,
+	randomBytes,
+	type JsonWebKey,
+	type KeyObject,
+} from 'crypto';
+import { existsSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import logger from '../config/logger';
+import { jwtKeyConfig } from '../config/jwtKeyConfig';
+import { httpRequest } from './httpClient';
+
+export type JwtKeyAlgorithm = 'RS256' | 'EdDSA';
+export type JwtKeyUse = 'access' | 'refresh';
+
+export const JWT_KEY_ALGORITHMS: JwtKeyAlgorithm[] = ['RS256', 'EdDSA'];
+
+/**
+ * Key as stored in the key ring file (PEM encoded)
+ */
+export interface StoredJwtKey {
+	kid: string;
+	use: JwtKeyUse;
+	alg: JwtKeyAlgorithm;
+	createdAt: string;
+	publicKey: string;
+	/** Absent in public-only rings handed to verify-only services */
+	privateKey?: string;
+	/** Set on rotation; a retired key no longer signs */
+	retiredAt?: string;
+	/** End of the grace window; the key is ignored afterwards */
+	verifyUntil?: string;
+}
+
+export interface JwtKeyRingFile {
+	keys: StoredJwtKey[];
+}
+
+export interface ResolvedJwtKey {
+	kid: string;
+	use: JwtKeyUse;
+	alg: JwtKeyAlgorithm;
+	publicKey: KeyObject;
+	privateKey?: KeyObject;
+	createdAt: number;
+	retiredAt?: number;
+	verifyUntil?: number;
+}
+
+export type PublicJwk = JsonWebKey & { kid: string; alg: JwtKeyAlgorithm; use: 'sig' };
+
+type LocalRingCache = {
+	keys: ResolvedJwtKey[];
+	checkedAt: number;
+	/** File mtime, or the inline JSON itself, to detect changes */
+	version: string;
+};
+
+type RemoteKeyEntry = {
+	key: ResolvedJwtKey;
+	fetchedAt: number;
+};
+
+let localRing: LocalRingCache | null = null;
+const remoteKeys = new Map<string, RemoteKeyEntry>();
+let lastJwksFetchAt = 0;
+let jwksFetch: Promise<void> | null = null;
+
+function parseRingJson(raw: string): JwtKeyRingFile {
+	const text = raw.trim().startsWith('{') ? raw : Buffer.from(raw, 'base64').toString('utf8');
+	const parsed = JSON.parse(text) as Partial<JwtKeyRingFile>;
+	return { keys: Array.isArray(parsed.keys) ? parsed.keys : [] };
+}
+
+function resolveStoredKey(stored: StoredJwtKey): ResolvedJwtKey | null {
+	if (!JWT_KEY_ALGORITHMS.includes(stored.alg) || (stored.use !== 'access' && stored.use !== 'refresh')) {
+		logger.warn('Skipping JWT key with unsupported alg/use', { kid: stored.kid, service: 'jwt-keys' });
+		return null;
+	}
+	try {
+		return {
+			kid: stored.kid,
+			use: stored.use,
+			alg: stored.alg,
+			publicKey: createPublicKey(stored.publicKey),
+			...(stored.privateKey && { privateKey: createPrivateKey(stored.privateKey) }),
+			createdAt: Date.parse(stored.createdAt) || 0,
+			...(stored.retiredAt && { retiredAt: Date.parse(stored.retiredAt) }),
+			...(stored.verifyUntil && { verifyUntil: Date.parse(stored.verifyUntil) }),
+		};
+	} catch (error: any) {
+		logger.error('Skipping unreadable JWT key', {
+			kid: stored.kid,
+			error: error?.message || String(error),
+			service: 'jwt-keys',
+		});
+		return null;
+	}
+}
+
+/**
+ * Local key ring, re-read when the file changes (checked every reloadIntervalMs, or
+ * immediately when `force` is set, e.g. for an unknown kid right after a rotation).
+ */
+function loadLocalKeys(force = false): ResolvedJwtKey[] {
+	const now = Date.now();
+	if (localRing && !force && now - localRing.checkedAt < jwtKeyConfig.reloadIntervalMs) {
+		return localRing.keys;
+	}
+
+	try {
+		let raw: string | undefined;
+		let version: string;
+		if (jwtKeyConfig.keysFile) {
+			if (!existsSync(jwtKeyConfig.keysFile)) {
+				localRing = { keys: [], checkedAt: now, version: 'missing' };
+				return localRing.keys;
+			}
+			version = String(statSync(jwtKeyConfig.keysFile).mtimeMs);
+			if (localRing?.version !== version) {
+				raw = readFileSync(jwtKeyConfig.keysFile, 'utf8');
+			}
+		} else {
+			version = jwtKeyConfig.keysJson ?? 'none';
+			if (localRing?.version !== version) {
+				raw = jwtKeyConfig.keysJson;
+			}
+		}
+
+		if (raw === undefined && localRing?.version === version) {
+			localRing.checkedAt = now;
+			return localRing.keys;
+		}
+
+		const ring = raw ? parseRingJson(raw) : { keys: [] };
+		const keys = ring.keys.map(resolveStoredKey).filter((key): key is ResolvedJwtKey => key !== null);
+		if (localRing) {
+			logger.info('JWT key ring reloaded', { keys: keys.map((key) => key.kid), service: 'jwt-keys' });
+		}
+		localRing = { keys, checkedAt: now, version };
+	} catch (error: any) {
+		// Keep the previous keys: a half-written or invalid file must not log everyone out
+		logger.error('Failed to load JWT key ring', {
+			error: error?.message || String(error),
+			service: 'jwt-keys',
+		});
+		localRing = { keys: localRing?.keys ?? [], checkedAt: now, version: localRing?.version ?? 'invalid' };
+	}
+	return localRing.keys;
+}
+
+function isUsableForVerification(key: ResolvedJwtKey, now: number): boolean {
+	return key.verifyUntil === undefined || key.verifyUntil > now;
+}
+
+/**
+ * Newest non-retired key with a private key for the given use, or null when the ring has none
+ */
+export function getActiveSigningKey(use: JwtKeyUse): ResolvedJwtKey | null {
+	const now = Date.now();
+	const candidates = loadLocalKeys().filter(
+		(key) => key.use === use && key.privateKey && key.retiredAt === undefined && key.createdAt <= now
+	);
+	return candidates.sort((a, b) => b.createdAt - a.createdAt)[0] ?? null;
+}
+
+function findLocalKey(use: JwtKeyUse, kid: string, force = false): ResolvedJwtKey | null {
+	const now = Date.now();
+	return loadLocalKeys(force).find((key) => key.kid === kid && key.use === use && isUsableForVerification(key, now)) ?? null;
+}
+
+function findRemoteKey(kid: string): ResolvedJwtKey | null {
+	const entry = remoteKeys.get(kid);
+	if (!entry) {
+		return null;
+	}
+	if (Date.now() - entry.fetchedAt > jwtKeyConfig.jwksCacheTtlMs) {
+		remoteKeys.delete(kid);
+		return null;
+	}
+	return entry.key;
+}
+
+function importJwk(jwk: Partial<PublicJwk>): ResolvedJwtKey | null {
+	if (!jwk.kid || !jwk.alg || !JWT_KEY_ALGORITHMS.includes(jwk.alg)) {
+		return null;
+	}
+	try {
+		const { kid, alg, use: _use, ...keyData } = jwk;
+		return {
+			kid,
+			use: 'access',
+			alg,
+			publicKey: createPublicKey({ key: keyData as JsonWebKey, format: 'jwk' }),
+			createdAt: 0,
+		};
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Fetch JWKS from every configured URL. Rate-limited so tokens with made-up key ids
+ * can't be used to hammer the auth services.
+ */
+export async function refreshRemoteJwks(): Promise<void> {
+	if (jwtKeyConfig.jwksUrls.length === 0) {
+		return;
+	}
+	if (jwksFetch) {
+		return jwksFetch;
+	}
+	if (Date.now() - lastJwksFetchAt < jwtKeyConfig.jwksMinRefetchMs) {
+		return;
+	}
+	lastJwksFetchAt = Date.now();
+
+	jwksFetch = (async () => {
+		for (const url of jwtKeyConfig.jwksUrls) {
+			try {
+				const response = await httpRequest(url, { timeout: jwtKeyConfig.jwksTimeoutMs });
+				if (response.statusCode !== 200) {
+					throw new Error(`JWKS responded with ${response.statusCode}`);
+				}
+				const jwks = JSON.parse(response.data) as { keys?: Partial<PublicJwk>[] };
+				const fetchedAt = Date.now();
+				for (const jwk of jwks.keys ?? []) {
+					const key = importJwk(jwk);
+					if (key) {
+						remoteKeys.set(key.kid, { key, fetchedAt });
+					}
+				}
+			} catch (error: any) {
+				logger.warn('Failed to fetch JWKS', {
+					url,
+					error: error?.message || String(error),
+					service: 'jwt-keys',
+				});
+			}
+		}
+	})().finally(() => {
+		jwksFetch = null;
+	});
+	return jwksFetch;
+}
+
+/**
+ * Synchronous key lookup: local ring, then cached JWKS keys (access tokens only).
+ * An unknown access-token kid triggers a background JWKS refresh.
+ */
+export function getVerificationKey(use: JwtKeyUse, kid: string): ResolvedJwtKey | null {
+	const key = findLocalKey(use, kid) ?? (use === 'access' ? findRemoteKey(kid) : null) ?? findLocalKey(use, kid, true);
+	if (!key && use === 'access') {
+		void refreshRemoteJwks();
+	}
+	return key;
+}
+
+/**
+ * Key lookup that fetches JWKS for unknown access-token key ids (e.g. right after a rotation)
+ */
+export async function resolveVerificationKey(use: JwtKeyUse, kid: string): Promise<ResolvedJwtKey | null> {
+	const key = getVerificationKey(use, kid);
+	if (key || use !== 'access') {
+		return key;
+	}
+	await refreshRemoteJwks();
+	return findRemoteKey(kid);
+}
+
+/**
+ * Public keys of the access-token keys still valid for verification
+ */
+export function getJwks(): { keys: PublicJwk[] } {
+	const now = Date.now();
+	return {
+		keys: loadLocalKeys()
+			.filter((key) => key.use === 'access' && isUsableForVerification(key, now))
+			.map((key) => ({
+				...(key.publicKey.export({ format: 'jwk' }) as JsonWebKey),
+				kid: key.kid,
+				alg: key.alg,
+				use: 'sig' as const,
+			})),
+	};
+}
+
+/**
+ * GET /.well-known/jwks.json
+ */
+export const jwksHandler: RequestHandler = (_req, res) => {
+	res.set('Cache-Control', 'public, max-age=300');
+	res.json(getJwks());
+};
+
+// ---------------------------------------------------------------------------
+// Key ring management (used by the jwt-keys CLI)
+// ---------------------------------------------------------------------------
+
+export function generateJwtKey(alg: JwtKeyAlgorithm, use: JwtKeyUse, now: Date = new Date()): StoredJwtKey {
+	const pair =
+		alg === 'RS256'
+			? generateKeyPairSync('rsa', { modulusLength: 2048 })
+			: generateKeyPairSync('ed25519');
+	const date = now.toISOString().slice(0, 10).replace(/-/g, '');
+
+	return {
+		kid: `${use}-${date}-${randomBytes(4).toString('hex')}`,
+		use,
+		alg,
+		createdAt: now.toISOString(),
+		publicKey: pair.publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+		privateKey: pair.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+	};
+}
+
+/**
+ * Add a new signing key for `use` and retire the current ones. Retired keys keep verifying
+ * for `graceMs` so tokens signed just before the rotation stay valid until they expire.
+ */
+export function rotateJwtKeys(
+	ring: JwtKeyRingFile,
+	options: { use: JwtKeyUse; alg: JwtKeyAlgorithm; graceMs: number; now?: Date }
+): { ring: JwtKeyRingFile; key: StoredJwtKey; retired: string[] } {
+	const now = options.now ?? new Date();
+	const verifyUntil = new Date(now.getTime() + options.graceMs).toISOString();
+	const retired: string[] = [];
+
+	const keys = ring.keys.map((key) => {
+		if (key.use !== options.use || key.retiredAt) {
+			return key;
+		}
+		retired.push(key.kid);
+		return { ...key, retiredAt: now.toISOString(), verifyUntil };
+	});
+	const key = generateJwtKey(options.alg, options.use, now);
+
+	return { ring: { keys: [...keys, key] }, key, retired };
+}
+
+/**
+ * Drop keys whose grace window has ended
+ */
+export function pruneJwtKeys(ring: JwtKeyRingFile, now: Date = new Date()): { ring: JwtKeyRingFile; removed: string[] } {
+	const removed: string[] = [];
+	const keys = ring.keys.filter((key) => {
+		const expired = !!key.verifyUntil && Date.parse(key.verifyUntil) <= now.getTime();
+		if (expired) {
+			removed.push(key.kid);
+		}
+		return !expired;
+	});
+	return { ring: { keys }, removed };
+}
+
+/**
+ * Ring without private keys, for services that only verify tokens
+ */
+export function toPublicKeyRing(ring: JwtKeyRingFile): JwtKeyRingFile {
+	return { keys: ring.keys.map(({ privateKey: _privateKey, ...key }) => key) };
+}
+
+export function readKeyRingFile(path: string): JwtKeyRingFile {
+	return existsSync(path) ? parseRingJson(readFileSync(path, 'utf8')) : { keys: [] };
+}
+
+/**
+ * Write via a temp file + rename so running services never read a partial ring
+ */
+export function writeKeyRingFile(path: string, ring: JwtKeyRingFile): void {
+	const tmpPath = `${path}.${process.pid}.tmp`;
+	writeFileSync(tmpPath, `${JSON.stringify(ring, null, 2)}\n`, { mode: 0o600 });
+	renameSync(tmpPath, path);
+}
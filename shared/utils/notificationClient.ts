@@ -186,6 +186,30 @@ export class NotificationClient {
 		});
 	}
 
+	/**
+	 * Send notification when a substitute covers a session while the regular trainer is on leave
+	 */
+	async sendSessionSubstitutedNotification(
+		studentId: string,
+		substituteTrainerName: string,
+		sessionDate: Date,
+		timeSlot: string
+	): Promise<void> {
+		const dateStr = sessionDate.toLocaleDateString('en-US', {
+			weekday: 'long',
+			year: 'numeric',
+			month: 'long',
+			day: 'numeric',
+		});
+
+		await this.createNotification({
+			userId: studentId,
+			title: 'Substitute Trainer Assigned',
+			message: `Your trainer is on leave on ${dateStr}. ${substituteTrainerName} will take your session at ${timeSlot}.`,
+			type: 'session',
+		});
+	}
+
 	/**
 	 * Send notification to trainer when they reach 6 allocations
 	 * Asks if they want more allocations (up to their max based on rating)
@@ -5,38 +5,54 @@
  * - Server-authoritative sessions with sliding TTL
  * - Distributed refresh locks to prevent concurrent refreshes
  * - Session invalidation on logout
+ * - Per-user session index for device listing and single-session revocation
+ * - "New device sign-in" notifications
  */
 
 import { getRedisClient } from '../databases/redis/connection';
 import { v4 as uuidv4 } from 'uuid';
 import logger from '../config/logger';
+import { describeDevice, getDeviceKey, lookupIpCity, type DevicePlatform, type SessionMeta } from './deviceInfo';
 
 const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days (matches refresh token expiry)
 const REFRESH_LOCK_TTL_SECONDS = 5; // 5 seconds - prevents concurrent refreshes
+const KNOWN_DEVICE_TTL_SECONDS = 180 * 24 * 60 * 60; // 180 days
 const SESSION_PREFIX = 'session:';
 const REFRESH_LOCK_PREFIX = 'lock:refresh:';
+const USER_SESSIONS_PREFIX = 'user:sessions:';
+const KNOWN_DEVICES_PREFIX = 'user:devices:';
+
+export type SessionRole = 'student' | 'trainer' | 'guardian';
 
 export interface SessionData {
 	sessionId: string;
 	studentId: string;
-	role: 'student' | 'trainer';
+	role: SessionRole;
 	createdAt: number;
 	lastActivityAt: number;
 	ip?: string;
 	userAgent?: string;
+	deviceId?: string;
+	deviceName?: string;
+	platform?: DevicePlatform;
+	city?: string;
 }
 
+export type { SessionMeta } from './deviceInfo';
+
 /**
  * Create a new session in Redis with sliding TTL
  * Production-grade: Handles Redis connection failures gracefully
  */
 export async function createSession(
 	userId: string,
-	role: 'student' | 'trainer',
-	meta?: { ip?: string; userAgent?: string }
+	role: SessionRole,
+	meta?: SessionMeta
 ): Promise<string> {
 	const redis = getRedisClient();
 	const sessionId = uuidv4();
+	const device = describeDevice(meta?.userAgent, { ...(meta?.deviceName && { deviceName: meta.deviceName }) });
+	const city = meta?.city ?? (await lookupIpCity(meta?.ip));
 	
 	const sessionData: SessionData = {
 		sessionId,
@@ -46,15 +62,21 @@ export async function createSession(
 		lastActivityAt: Date.now(),
 		...(meta?.ip && { ip: meta.ip }),
 		...(meta?.userAgent && { userAgent: meta.userAgent }),
+		...(meta?.deviceId && { deviceId: meta.deviceId }),
+		deviceName: device.deviceName,
+		platform: device.platform,
+		...(city && { city }),
 	};
 
 	try {
 		const key = `${SESSION_PREFIX}${sessionId}`;
-		await redis.setex(
-			key,
-			SESSION_TTL_SECONDS,
-			JSON.stringify(sessionData)
-		);
+		const indexKey = `${USER_SESSIONS_PREFIX}${userId}`;
+		await redis
+			.multi()
+			.setex(key, SESSION_TTL_SECONDS, JSON.stringify(sessionData))
+			.sadd(indexKey, sessionId)
+			.expire(indexKey, SESSION_TTL_SECONDS)
+			.exec();
 	} catch (error: any) {
 		// Non-blocking: If Redis fails, still return sessionId
 		// Session will work, but won't be persisted in Redis (graceful degradation)
@@ -65,11 +87,65 @@ export async function createSession(
 				service: 'session-manager',
 			});
 		}
+		return sessionId;
 	}
 
+	void notifyIfNewDevice(sessionData);
+
 	return sessionId;
 }
 
+/**
+ * Remember the device and send a "new device sign-in" notification when it hasn't been
+ * seen before. The very first device of an account is remembered silently.
+ */
+async function notifyIfNewDevice(session: SessionData): Promise<void> {
+	try {
+		const redis = getRedisClient();
+		const devicesKey = `${KNOWN_DEVICES_PREFIX}${session.studentId}`;
+		const deviceKey = getDeviceKey({
+			...(session.deviceId && { deviceId: session.deviceId }),
+			platform: session.platform ?? 'unknown',
+			deviceName: session.deviceName ?? '',
+		});
+
+		const [[, knownCount], [, added]] = (await redis
+			.multi()
+			.scard(devicesKey)
+			.sadd(devicesKey, deviceKey)
+			.expire(devicesKey, KNOWN_DEVICE_TTL_SECONDS)
+			.exec()) as [[unknown, number], [unknown, number], [unknown, number]];
+
+		// Guardians have no notification channel yet
+		if (added !== 1 || knownCount === 0 || session.role === 'guardian') {
+			return;
+		}
+
+		const where = session.city ? ` near ${session.city}` : '';
+		const { emitNotificationRequested } = await import('./notificationEventEmitter');
+		await emitNotificationRequested({
+			userId: session.studentId,
+			role: session.role,
+			notificationType: 'warning',
+			title: 'New sign-in to your account',
+			body: `Your account was just signed in on ${session.deviceName ?? 'a new device'}${where}. If this wasn't you, sign out that session and change your password.`,
+			data: {
+				type: 'new_device_sign_in',
+				sessionId: session.sessionId,
+				deviceName: session.deviceName,
+				platform: session.platform,
+				...(session.city && { city: session.city }),
+			},
+		});
+	} catch (error: any) {
+		logger.warn('Failed to check for new device sign-in', {
+			error: error?.message || String(error),
+			userId: session.studentId,
+			service: 'session-manager',
+		});
+	}
+}
+
 /**
  * Get session data from Redis
  */
@@ -102,8 +178,15 @@ export async function updateSessionActivity(sessionId: string): Promise<void> {
 		const session: SessionData = JSON.parse(data);
 		session.lastActivityAt = Date.now();
 
-		// Reset TTL on activity (sliding expiration)
-		await redis.setex(key, SESSION_TTL_SECONDS, JSON.stringify(session));
+		// Reset TTL on activity (sliding expiration). The user's index must live as long as
+		// their longest-lived session, and re-adding the id indexes sessions from before it existed.
+		const indexKey = `${USER_SESSIONS_PREFIX}${session.studentId}`;
+		await redis
+			.multi()
+			.setex(key, SESSION_TTL_SECONDS, JSON.stringify(session))
+			.sadd(indexKey, sessionId)
+			.expire(indexKey, SESSION_TTL_SECONDS)
+			.exec();
 	} catch (error: any) {
 		// Non-blocking: Silently fail if Redis is unavailable
 		// This allows auth to continue working even if Redis is down
@@ -123,43 +206,138 @@ export async function updateSessionActivity(sessionId: string): Promise<void> {
 export async function deleteSession(sessionId: string): Promise<void> {
 	const redis = getRedisClient();
 	const key = `${SESSION_PREFIX}${sessionId}`;
+	const data = await redis.get(key);
 	await redis.del(key);
+
+	if (data) {
+		const session: SessionData = JSON.parse(data);
+		await redis.srem(`${USER_SESSIONS_PREFIX}${session.studentId}`, sessionId);
+	}
 }
 
 /**
- * Delete all sessions for a user
+ * Active sessions for a user, most recently active first.
+ * Index entries whose session has expired are pruned as a side effect.
  */
-export async function deleteAllUserSessions(userId: string): Promise<void> {
+export async function listUserSessions(userId: string): Promise<SessionData[]> {
 	const redis = getRedisClient();
-	const pattern = `${SESSION_PREFIX}*`;
-	
-	// Scan for all sessions and delete matching ones
-	const stream = redis.scanStream({
-		match: pattern,
-		count: 100,
-	});
+	const indexKey = `${USER_SESSIONS_PREFIX}${userId}`;
+	const sessionIds = await redis.smembers(indexKey);
+	if (sessionIds.length === 0) {
+		return [];
+	}
 
-	const pipeline = redis.pipeline();
-	let deleted = 0;
-
-	stream.on('data', async (keys: string[]) => {
-		for (const key of keys) {
-			const data = await redis.get(key);
-			if (data) {
-				const session: SessionData = JSON.parse(data);
-				if (session.studentId === userId) {
-					pipeline.del(key);
-					deleted++;
-				}
-			}
+	const values = await redis.mget(sessionIds.map((id) => `${SESSION_PREFIX}${id}`));
+	const sessions: SessionData[] = [];
+	const stale: string[] = [];
+
+	values.forEach((value, index) => {
+		const session = value ? (JSON.parse(value) as SessionData) : null;
+		if (session && session.studentId === userId) {
+			sessions.push(session);
+		} else {
+			stale.push(sessionIds[index]!);
 		}
 	});
 
-	stream.on('end', async () => {
-		if (deleted > 0) {
-			await pipeline.exec();
+	if (stale.length > 0) {
+		await redis.srem(indexKey, ...stale);
+	}
+
+	return sessions.sort((a, b) => b.lastActivityAt - a.lastActivityAt);
+}
+
+export interface SessionSummary {
+	sessionId: string;
+	deviceName: string;
+	platform: DevicePlatform;
+	city: string | null;
+	createdAt: string;
+	lastActiveAt: string;
+	current: boolean;
+}
+
+/**
+ * Client-facing view of a session (no raw IP or User-Agent)
+ */
+export function toSessionSummary(session: SessionData, currentSessionId?: string): SessionSummary {
+	const device = session.deviceName
+		? { deviceName: session.deviceName, platform: session.platform ?? 'unknown' }
+		: describeDevice(session.userAgent);
+	return {
+		sessionId: session.sessionId,
+		deviceName: device.deviceName,
+		platform: device.platform,
+		city: session.city ?? null,
+		createdAt: new Date(session.createdAt).toISOString(),
+		lastActiveAt: new Date(session.lastActivityAt).toISOString(),
+		current: session.sessionId === currentSessionId,
+	};
+}
+
+/**
+ * Delete one session, only if it belongs to the user.
+ * Returns false when the session doesn't exist or belongs to someone else.
+ */
+export async function deleteUserSession(userId: string, sessionId: string): Promise<boolean> {
+	const session = await getSession(sessionId);
+	if (!session || session.studentId !== userId) {
+		return false;
+	}
+	await deleteSession(sessionId);
+	return true;
+}
+
+/**
+ * Delete all sessions for a user. Returns the number of sessions deleted.
+ * Only indexed sessions are found; run backfillSessionIndex once for sessions created
+ * before the per-user index existed.
+ */
+export async function deleteAllUserSessions(userId: string): Promise<number> {
+	const redis = getRedisClient();
+	const indexKey = `${USER_SESSIONS_PREFIX}${userId}`;
+	const keys = (await redis.smembers(indexKey)).map((id) => `${SESSION_PREFIX}${id}`);
+
+	if (keys.length === 0) {
+		await redis.del(indexKey);
+		return 0;
+	}
+
+	const deleted = await redis.del(...keys);
+	await redis.del(indexKey);
+	return deleted;
+}
+
+/**
+ * One-off migration: add sessions created before the per-user index existed to their user's index.
+ * Scans every session key, so run it from `pnpm sessions:backfill-index`, never from a request.
+ * Returns the number of sessions indexed.
+ */
+export async function backfillSessionIndex(): Promise<number> {
+	const redis = getRedisClient();
+	let indexed = 0;
+	let cursor = '0';
+	do {
+		const [next, batch] = await redis.scan(cursor, 'MATCH', `${SESSION_PREFIX}*`, 'COUNT', 100);
+		cursor = next;
+		if (batch.length === 0) {
+			continue;
 		}
-	});
+		const values = await redis.mget(batch);
+		const pipeline = redis.pipeline();
+		values.forEach((value) => {
+			if (!value) {
+				return;
+			}
+			const session = JSON.parse(value) as SessionData;
+			const indexKey = `${USER_SESSIONS_PREFIX}${session.studentId}`;
+			pipeline.sadd(indexKey, session.sessionId).expire(indexKey, SESSION_TTL_SECONDS);
+			indexed += 1;
+		});
+		await pipeline.exec();
+	} while (cursor !== '0');
+
+	return indexed;
 }
 
 /**
@@ -1,49 +1,203 @@
 import jwt from 'jsonwebtoken';
+import { sign as cryptoSign, verify as cryptoVerify } from 'crypto';
+import logger from '../config/logger';
+import { jwtKeyConfig } from '../config/jwtKeyConfig';
+import {
+	getActiveSigningKey,
+	getVerificationKey,
+	resolveVerificationKey,
+	type JwtKeyUse,
+	type ResolvedJwtKey,
+} from './jwtKeyRing';
 
 type JWTPayload = Record<string, any>;
 
-const DEFAULT_ACCESS_SECRET =
-	process.env.JWT_ACCESS_SECRET ||
-	process.env.JWT_SECRET ||
-	'change_this_to_a_strong_secret_in_env';
-const DEFAULT_REFRESH_SECRET =
-	process.env.JWT_REFRESH_SECRET ||
-	process.env.JWT_SECRET ||
-	'change_this_to_a_strong_refresh_secret_in_env';
 // Production: Short-lived access tokens (5-10 minutes)
 // This reduces exposure window if token is compromised
 const DEFAULT_ACCESS_EXPIRES_IN = process.env.JWT_ACCESS_EXPIRES_IN || process.env.JWT_EXPIRES_IN || '10m';
 const DEFAULT_REFRESH_EXPIRES_IN = process.env.JWT_REFRESH_EXPIRES_IN || '30d';
 
+const DURATION_UNITS_SECONDS: Record<string, number> = {
+	s: 1,
+	m: 60,
+	h: 60 * 60,
+	d: 24 * 60 * 60,
+	w: 7 * 24 * 60 * 60,
+	y: 365 * 24 * 60 * 60,
+};
+
+/**
+ * Token lifetime in seconds from a number of seconds or a string like "10m", "2h", "30d"
+ */
+export function parseExpiresIn(value: string | number): number {
+	if (typeof value === 'number') {
+		return value;
+	}
+	const match = /^(\d+)\s*([smhdwy]?)$/i.exec(value.trim());
+	if (!match) {
+		throw new Error(`Unsupported token lifetime "${value}"`);
+	}
+	return Number(match[1]) * (DURATION_UNITS_SECONDS[(match[2] || 's').toLowerCase()] ?? 1);
+}
+
+/**
+ * HMAC secret from before the key ring; only used when no signing key is configured
+ * and to verify tokens without `kid` during the migration.
+ */
+function getLegacySecret(use: JwtKeyUse): string | undefined {
+	return use === 'access'
+		? process.env.JWT_ACCESS_SECRET || process.env.JWT_SECRET
+		: process.env.JWT_REFRESH_SECRET || process.env.JWT_SECRET;
+}
+
+const legacySigningWarned = new Set<JwtKeyUse>();
+
+function base64UrlJson(value: unknown): string {
+	return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function signWithKey(payload: JWTPayload, key: ResolvedJwtKey, expiresIn: string): string {
+	if (key.alg === 'RS256') {
+		return jwt.sign(payload, key.privateKey!, {
+			algorithm: 'RS256',
+			keyid: key.kid,
+			expiresIn,
+		} as jwt.SignOptions);
+	}
+
+	// jsonwebtoken has no EdDSA support; Ed25519 JWS is simple enough to build directly
+	const now = Math.floor(Date.now() / 1000);
+	const signingInput = `${base64UrlJson({ alg: 'EdDSA', typ: 'JWT', kid: key.kid })}.${base64UrlJson({
+		...payload,
+		iat: now,
+		exp: now + parseExpiresIn(expiresIn),
+	})}`;
+	const signature = cryptoSign(null, Buffer.from(signingInput), key.privateKey!);
+	return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+function signForUse(payload: JWTPayload, use: JwtKeyUse, expiresIn: string): string {
+	const key = getActiveSigningKey(use);
+	if (key) {
+		return signWithKey(payload, key, expiresIn);
+	}
+
+	const secret = getLegacySecret(use);
+	if (!secret) {
+		throw new Error(`No JWT signing key configured for ${use} tokens. Run "pnpm jwt-keys rotate" and set JWT_KEYS_FILE.`);
+	}
+	if (!legacySigningWarned.has(use)) {
+		legacySigningWarned.add(use);
+		logger.warn('Signing JWTs with the legacy HMAC secret; configure a key ring', { use, service: 'token-manager' });
+	}
+	return jwt.sign(payload, secret, { expiresIn } as jwt.SignOptions);
+}
+
+function verifyWithKey<T>(token: string, key: ResolvedJwtKey, alg: string): T {
+	// Never let the token pick the algorithm
+	if (alg !== key.alg) {
+		throw new jwt.JsonWebTokenError('invalid algorithm');
+	}
+	if (key.alg === 'RS256') {
+		return jwt.verify(token, key.publicKey, { algorithms: ['RS256'] }) as T;
+	}
+
+	const [header = '', body = '', signature = ''] = token.split('.');
+	const valid = cryptoVerify(null, Buffer.from(`${header}.${body}`), key.publicKey, Buffer.from(signature, 'base64url'));
+	if (!valid) {
+		throw new jwt.JsonWebTokenError('invalid signature');
+	}
+
+	const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as JWTPayload;
+	const now = Math.floor(Date.now() / 1000);
+	if (typeof payload.nbf === 'number' && payload.nbf > now) {
+		throw new jwt.NotBeforeError('jwt not active', new Date(payload.nbf * 1000));
+	}
+	if (typeof payload.exp === 'number' && now >= payload.exp) {
+		throw new jwt.TokenExpiredError('jwt expired', new Date(payload.exp * 1000));
+	}
+	return payload as T;
+}
+
+function decodeHeader(token: string): { kid: string | undefined; alg: string } {
+	const decoded = jwt.decode(token, { complete: true });
+	if (!decoded || typeof decoded === 'string') {
+		throw new jwt.JsonWebTokenError('jwt malformed');
+	}
+	return { kid: decoded.header.kid, alg: decoded.header.alg };
+}
+
+function verifyLegacy<T>(token: string, use: JwtKeyUse, alg: string): T {
+	const secret = getLegacySecret(use);
+	if (!jwtKeyConfig.allowLegacyHmac || !secret || alg !== 'HS256') {
+		throw new jwt.JsonWebTokenError('invalid token');
+	}
+	return jwt.verify(token, secret, { algorithms: ['HS256'] }) as T;
+}
+
+function verifyForUse<T>(token: string, use: JwtKeyUse): T {
+	const { kid, alg } = decodeHeader(token);
+	if (!kid) {
+		return verifyLegacy<T>(token, use, alg);
+	}
+	const key = getVerificationKey(use, kid);
+	if (!key) {
+		throw new jwt.JsonWebTokenError('unknown signing key');
+	}
+	return verifyWithKey<T>(token, key, alg);
+}
+
 export function signToken(
 	payload: JWTPayload,
 	options?: { expiresIn?: string; secret?: string }
 ): string {
-	const {
-		expiresIn = DEFAULT_ACCESS_EXPIRES_IN,
-		secret = DEFAULT_ACCESS_SECRET,
-	} = options || {};
-	return jwt.sign(payload, secret, { expiresIn } as jwt.SignOptions);
+	const { expiresIn = DEFAULT_ACCESS_EXPIRES_IN, secret } = options || {};
+	if (secret) {
+		return jwt.sign(payload, secret, { expiresIn } as jwt.SignOptions);
+	}
+	return signForUse(payload, 'access', expiresIn);
 }
 
 export function verifyToken<T = any>(token: string, secret?: string): T {
-	return jwt.verify(token, secret || DEFAULT_ACCESS_SECRET) as T;
+	if (secret) {
+		return jwt.verify(token, secret) as T;
+	}
+	return verifyForUse<T>(token, 'access');
 }
 
 export function signAccessToken(payload: JWTPayload, expiresIn = DEFAULT_ACCESS_EXPIRES_IN): string {
-	return signToken(payload, { expiresIn, secret: DEFAULT_ACCESS_SECRET });
+	return signForUse(payload, 'access', expiresIn);
 }
 
 export function signRefreshToken(payload: JWTPayload, expiresIn = DEFAULT_REFRESH_EXPIRES_IN): string {
-	return jwt.sign(payload, DEFAULT_REFRESH_SECRET, { expiresIn } as jwt.SignOptions);
+	return signForUse(payload, 'refresh', expiresIn);
 }
 
+/**
+ * Verify with keys already known to this process (key ring + cached JWKS).
+ * Prefer verifyAccessTokenAsync in request handlers so keys from a fresh rotation are fetched.
+ */
 export function verifyAccessToken<T = any>(token: string): T {
-	return verifyToken<T>(token, DEFAULT_ACCESS_SECRET);
+	return verifyForUse<T>(token, 'access');
+}
+
+/**
+ * Verify an access token, fetching JWKS when its `kid` isn't known yet
+ */
+export async function verifyAccessTokenAsync<T = any>(token: string): Promise<T> {
+	const { kid, alg } = decodeHeader(token);
+	if (!kid) {
+		return verifyLegacy<T>(token, 'access', alg);
+	}
+	const key = await resolveVerificationKey('access', kid);
+	if (!key) {
+		throw new jwt.JsonWebTokenError('unknown signing key');
+	}
+	return verifyWithKey<T>(token, key, alg);
 }
 
 export function verifyRefreshToken<T = any>(token: string): T {
-	return jwt.verify(token, DEFAULT_REFRESH_SECRET) as T;
+	return verifyForUse<T>(token, 'refresh');
 }
 
 export default {
@@ -52,5 +206,6 @@ export default {
 	signAccessToken,
 	signRefreshToken,
 	verifyAccessToken,
+	verifyAccessTokenAsync,
 	verifyRefreshToken,
 };
@@ -0,0 +1,23 @@
+/**
+ * Trainer Capacity
+ * How many students a trainer may be allocated to, based on their rating (0-5 stars).
+ * Used by admin allocation (capacity notifications) and booking auto-assignment (load score).
+ */
+
+export const MIN_TRAINER_ALLOCATIONS = 4;
+export const MAX_TRAINER_ALLOCATIONS = 8;
+
+/**
+ * Rating 0-3.0: 4, 3.1-3.5: 5, 3.6-4.0: 6, 4.1-4.5: 7, 4.6-5.0: 8. No rating: 4.
+ */
+export function getMaxAllocationsForRating(rating: number | string | null | undefined): number {
+	const value = rating === null || rating === undefined ? 0 : Number(rating);
+	if (!value || Number.isNaN(value)) {
+		return MIN_TRAINER_ALLOCATIONS;
+	}
+	if (value >= 4.6) return 8;
+	if (value >= 4.1) return 7;
+	if (value >= 3.6) return 6;
+	if (value >= 3.1) return 5;
+	return MIN_TRAINER_ALLOCATIONS;
+}
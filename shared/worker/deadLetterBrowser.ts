@@ -0,0 +1,326 @@
+/**
+ * Dead Letter Queue Browser
+ *
+ * Reads messages written by DeadLetterPublisher back from the DLQ topic so they can be
+ * listed, inspected and replayed to their original topic.
+ * Used by the admin DLQ API and the admin-service `dlq` CLI.
+ */
+
+import { randomUUID } from 'crypto';
+import { Kafka, Producer, logLevel } from 'kafkajs';
+import type { Pool } from 'pg';
+import logger from '../config/logger';
+import type { DeadLetterMessage } from './deadLetterPublisher';
+import { IdempotencyGuard } from './idempotencyGuard';
+
+export interface DeadLetterFilter {
+  eventId?: string;
+  correlationId?: string;
+  eventType?: string;
+  failureReason?: string; // Case-insensitive substring match
+  originalTopic?: string;
+  limit?: number;
+}
+
+export interface DeadLetterEntry extends DeadLetterMessage {
+  eventType: string;
+  dlqPartition: number;
+  dlqOffset: string;
+}
+
+export interface ReplayOptions {
+  dryRun?: boolean;
+  force?: boolean; // Replay even if IdempotencyGuard reports the event as processed
+}
+
+export type ReplayOutcome = 'replayed' | 'would_replay' | 'skipped_processed' | 'failed';
+
+export interface ReplayResult {
+  eventId: string;
+  correlationId: string;
+  eventType: string;
+  originalTopic: string;
+  outcome: ReplayOutcome;
+  error?: string;
+}
+
+export interface DeadLetterBrowserConfig {
+  pool?: Pool; // Enables IdempotencyGuard checks before replay
+  dlqTopic?: string;
+  scanTimeoutMs?: number;
+}
+
+const DEFAULT_LIMIT = 100;
+const DEFAULT_SCAN_TIMEOUT_MS = 30000;
+
+/**
+ * Dead Letter Queue Browser
+ *
+ * Each scan reads the DLQ topic from the earliest offset up to the high watermark captured
+ * when the scan starts, with a throwaway consumer group so worker offsets are untouched.
+ * Replays re-publish the original event with its original eventId/correlationId, so worker
+ * idempotency still applies downstream.
+ */
+export class DeadLetterBrowser {
+  private kafka: Kafka;
+  private producer: Producer | null = null;
+  private guard: IdempotencyGuard | null;
+  private dlqTopic: string;
+  private scanTimeoutMs: number;
+
+  constructor(config: DeadLetterBrowserConfig = {}) {
+    this.dlqTopic = config.dlqTopic || 'dead-letter-queue';
+    this.scanTimeoutMs = config.scanTimeoutMs || DEFAULT_SCAN_TIMEOUT_MS;
+    this.guard = config.pool ? new IdempotencyGuard(config.pool) : null;
+    this.kafka = new Kafka({
+      clientId: `dlq-browser-${Date.now()}`,
+      brokers: this.getKafkaBrokers(),
+      logLevel: logLevel.WARN,
+    });
+  }
+
+  /**
+   * List DLQ messages matching the filter, newest failure first
+   */
+  async list(filter: DeadLetterFilter = {}): Promise<DeadLetterEntry[]> {
+    const matches = await this.scan((entry) => matchesFilter(entry, filter));
+    return matches
+      .sort((a, b) => b.failureTimestamp - a.failureTimestamp)
+      .slice(0, filter.limit ?? DEFAULT_LIMIT);
+  }
+
+  /**
+   * Most recent DLQ entry for an eventId (an event can be dead-lettered more than once)
+   */
+  async get(eventId: string): Promise<DeadLetterEntry | null> {
+    const [entry] = await this.list({ eventId, limit: 1 });
+    return entry ?? null;
+  }
+
+  /**
+   * Replay one DLQ entry to its original topic
+   */
+  async replay(entry: DeadLetterEntry, options: ReplayOptions = {}): Promise<ReplayResult> {
+    const result: ReplayResult = {
+      eventId: entry.eventId,
+      correlationId: entry.correlationId,
+      eventType: entry.eventType,
+      originalTopic: entry.originalTopic,
+      outcome: 'would_replay',
+    };
+
+    if (!options.force && this.guard) {
+      const processed = await this.guard.isProcessed({
+        eventId: entry.eventId,
+        correlationId: entry.correlationId,
+        eventType: entry.eventType as DeadLetterEntry['originalEvent']['type'],
+      });
+      if (processed) {
+        return { ...result, outcome: 'skipped_processed' };
+      }
+    }
+
+    if (options.dryRun) {
+      return result;
+    }
+
+    try {
+      const producer = await this.getProducer();
+      await producer.send({
+        topic: entry.originalTopic,
+        messages: [
+          {
+            key: entry.correlationId,
+            value: JSON.stringify(entry.originalEvent),
+            headers: {
+              eventId: entry.eventId,
+              correlationId: entry.correlationId,
+              eventType: entry.eventType,
+              source: entry.originalEvent._metadata?.source || 'dlq-replay',
+              version: entry.originalEvent._metadata?.version || '1.0.0',
+              replayedFromDlq: 'true',
+              dlqOffset: `${entry.dlqPartition}:${entry.dlqOffset}`,
+            },
+          },
+        ],
+      });
+
+      logger.info('[DeadLetterBrowser] Message replayed', {
+        eventId: entry.eventId,
+        correlationId: entry.correlationId,
+        eventType: entry.eventType,
+        originalTopic: entry.originalTopic,
+        forced: options.force === true,
+      });
+      return { ...result, outcome: 'replayed' };
+    } catch (error: any) {
+      logger.error('[DeadLetterBrowser] Failed to replay message', {
+        error: error.message,
+        eventId: entry.eventId,
+        originalTopic: entry.originalTopic,
+      });
+      return { ...result, outcome: 'failed', error: error.message };
+    }
+  }
+
+  /**
+   * Replay every DLQ message matching the filter, one at a time.
+   * An eventId dead-lettered several times is replayed once.
+   */
+  async replayMany(filter: DeadLetterFilter, options: ReplayOptions = {}): Promise<ReplayResult[]> {
+    const entries = await this.list(filter);
+    const seen = new Set<string>();
+    const results: ReplayResult[] = [];
+
+    for (const entry of entries) {
+      if (seen.has(entry.eventId)) {
+        continue;
+      }
+      seen.add(entry.eventId);
+      results.push(await this.replay(entry, options));
+    }
+
+    return results;
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.producer) {
+      await this.producer.disconnect();
+      this.producer = null;
+    }
+  }
+
+  private async getProducer(): Promise<Producer> {
+    if (!this.producer) {
+      this.producer = this.kafka.producer({ idempotent: true, maxInFlightRequests: 1 });
+      await this.producer.connect();
+    }
+    return this.producer;
+  }
+
+  private async scan(predicate: (entry: DeadLetterEntry) => boolean): Promise<DeadLetterEntry[]> {
+    const admin = this.kafka.admin();
+    await admin.connect();
+
+    let offsets: Array<{ partition: number; low: string; high: string }>;
+    try {
+      offsets = await admin.fetchTopicOffsets(this.dlqTopic);
+    } catch (error: any) {
+      await admin.disconnect();
+      throw new Error(`Failed to read DLQ topic '${this.dlqTopic}': ${error.message}`);
+    }
+
+    // Last offset to read per partition; empty partitions are already done
+    const pending = new Map<number, bigint>();
+    for (const { partition, low, high } of offsets) {
+      if (BigInt(high) > BigInt(low)) {
+        pending.set(partition, BigInt(high) - 1n);
+      }
+    }
+
+    const matches: DeadLetterEntry[] = [];
+    if (pending.size === 0) {
+      await admin.disconnect();
+      return matches;
+    }
+
+    const groupId = `dlq-browser-${randomUUID()}`;
+    const consumer = this.kafka.consumer({ groupId, allowAutoTopicCreation: false });
+
+    try {
+      await consumer.connect();
+      await consumer.subscribe({ topics: [this.dlqTopic], fromBeginning: true });
+
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(() => {
+          reject(new Error(`DLQ scan timed out after ${this.scanTimeoutMs}ms`));
+        }, this.scanTimeoutMs);
+
+        consumer
+          .run({
+            autoCommit: false,
+            eachMessage: async ({ partition, message }) => {
+              const last = pending.get(partition);
+              if (last === undefined) {
+                return;
+              }
+
+              const entry = parseEntry(partition, message.offset, message.value);
+              if (entry && predicate(entry)) {
+                matches.push(entry);
+              }
+
+              if (BigInt(message.offset) >= last) {
+                pending.delete(partition);
+                if (pending.size === 0) {
+                  clearTimeout(timer);
+                  resolve();
+                }
+              }
+            },
+          })
+          .catch((error) => {
+            clearTimeout(timer);
+            reject(error);
+          });
+      });
+    } finally {
+      await consumer.disconnect().catch(() => undefined);
+      // Throwaway group; failing to delete it only leaves an idle group behind
+      await admin.deleteGroups([groupId]).catch(() => undefined);
+      await admin.disconnect().catch(() => undefined);
+    }
+
+    return matches;
+  }
+
+  private getKafkaBrokers(): string[] {
+    const brokers = process.env.KAFKA_BROKERS || process.env.KAFKA_BROKER || 'localhost:9092';
+    return brokers.split(',').map((b) => b.trim());
+  }
+}
+
+function parseEntry(partition: number, offset: string, value: Buffer | null): DeadLetterEntry | null {
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const message = JSON.parse(value.toString()) as DeadLetterMessage;
+    return {
+      ...message,
+      eventType: (message.originalEvent as { type?: string } | undefined)?.type || 'unknown',
+      dlqPartition: partition,
+      dlqOffset: offset,
+    };
+  } catch (error: any) {
+    logger.warn('[DeadLetterBrowser] Skipping unparseable DLQ message', {
+      partition,
+      offset,
+      error: error.message,
+    });
+    return null;
+  }
+}
+
+function matchesFilter(entry: DeadLetterEntry, filter: DeadLetterFilter): boolean {
+  if (filter.eventId && entry.eventId !== filter.eventId) {
+    return false;
+  }
+  if (filter.correlationId && entry.correlationId !== filter.correlationId) {
+    return false;
+  }
+  if (filter.eventType && entry.eventType !== filter.eventType) {
+    return false;
+  }
+  if (filter.originalTopic && entry.originalTopic !== filter.originalTopic) {
+    return false;
+  }
+  if (
+    filter.failureReason &&
+    !(entry.failureReason || '').toLowerCase().includes(filter.failureReason.toLowerCase())
+  ) {
+    return false;
+  }
+  return true;
+}
@@ -5,7 +5,7 @@
  * Used when max retries are exhausted.
  */
 
-import { Kafka, Producer, logLevel } from 'kafkajs';
+import { Kafka, Producer, logLevel, type EachMessagePayload } from 'kafkajs';
 import logger from '../config/logger';
 import type { EnrichedEvent } from '../events/kafkaEventBus';
 
@@ -112,6 +112,36 @@ export class DeadLetterPublisher {
     }
   }
 
+  /**
+   * Dead-letter a message that failed schema validation on consume.
+   * These are never retried: redelivery cannot fix the payload, so the caller should
+   * return normally afterwards and let the offset commit.
+   */
+  async publishRejected(payload: EachMessagePayload, error: Error): Promise<void> {
+    const raw = payload.message.value?.toString() ?? '';
+    let originalEvent: EnrichedEvent;
+    try {
+      originalEvent = JSON.parse(raw);
+    } catch {
+      // Keep the bytes so the message can still be inspected from the DLQ browser
+      originalEvent = { raw } as unknown as EnrichedEvent;
+    }
+
+    const headers = payload.message.headers;
+    await this.publish({
+      originalEvent,
+      originalTopic: payload.topic,
+      originalPartition: payload.partition,
+      originalOffset: payload.message.offset,
+      failureReason: error.message,
+      failureTimestamp: Date.now(),
+      attempts: 1,
+      correlationId:
+        headers?.correlationId?.toString() || originalEvent._metadata?.correlationId || 'unknown',
+      eventId: headers?.eventId?.toString() || originalEvent._metadata?.eventId || 'unknown',
+    });
+  }
+
   /**
    * Disconnect producer
    */
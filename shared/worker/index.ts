@@ -6,6 +6,7 @@
  * - IdempotencyGuard: Idempotency checks
  * - RetryPolicy: Retry logic
  * - DeadLetterPublisher: DLQ publishing
+ * - DeadLetterBrowser: DLQ listing and replay
  * - WorkerLogger: Structured logging
  */
 
@@ -13,5 +14,6 @@ export * from './kafkaConsumer';
 export * from './idempotencyGuard';
 export * from './retryPolicy';
 export * from './deadLetterPublisher';
+export * from './deadLetterBrowser';
 export * from './workerLogger';
 
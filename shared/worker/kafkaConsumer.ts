@@ -11,6 +11,8 @@
 import { Kafka, Consumer, EachMessagePayload, logLevel } from 'kafkajs';
 import logger from '../config/logger';
 import type { EnrichedEvent } from '../events/kafkaEventBus';
+import { deserializeEvent, EventValidationError } from '../events/schemaRegistry';
+import { getDeadLetterPublisher } from './deadLetterPublisher';
 
 export interface KafkaConsumerConfig {
   brokers: string[];
@@ -112,8 +114,29 @@ export class KafkaConsumer {
             return;
           }
 
-          // Deserialize event
-          const event = JSON.parse(payload.message.value.toString()) as EnrichedEvent;
+          // Deserialize, upcast to the current schema version and validate
+          let event: EnrichedEvent;
+          try {
+            event = deserializeEvent(
+              payload.message.value.toString(),
+              payload.message.headers?.schemaVersion?.toString()
+            );
+          } catch (error) {
+            if (error instanceof EventValidationError) {
+              // Retrying cannot fix a bad payload: dead-letter it and commit the offset
+              logger.error('[KafkaConsumer] Invalid event, sending to DLQ', {
+                error: error.message,
+                eventId,
+                correlationId,
+                topic: payload.topic,
+                partition: payload.partition,
+                offset: payload.message.offset,
+              });
+              await getDeadLetterPublisher().publishRejected(payload, error);
+              return;
+            }
+            throw error;
+          }
 
           // Attach correlation ID to logger context
           logger.info('[KafkaConsumer] Processing message', {